@@ -12,6 +12,7 @@ import Register from "@/pages/register";
 import Home from "@/pages/home";
 import MySupportRequests from "@/pages/my-support-requests";
 import ConcernDetail from "@/pages/concern-detail";
+import StudentProfile from "@/pages/student-profile";
 import TeacherMeetingPrep from "@/pages/teacher-meeting-prep";
 import Settings from "@/pages/settings";
 import AdminPage from "@/pages/admin-page";
@@ -54,6 +55,7 @@ function AuthenticatedRouter() {
           <Route path="/admin" component={AdminProgramSelector} />
           <Route path="/admin/c2c-dashboard" component={AdminC2CDashboard} />
           <Route path="/admin/classroom-dashboard" component={AdminClassroomDashboard} />
+          <Route path="/admin/students/:id" component={StudentProfile} />
           {/* Legacy admin route for backward compatibility */}
           <Route path="/admin/dashboard" component={AdminPage} />
           {/* Block teacher-only routes for admins */}
@@ -62,6 +64,7 @@ function AuthenticatedRouter() {
           <Route path="/meeting-prep" component={() => { window.location.href = '/'; return null; }} />
           <Route path="/settings" component={() => { window.location.href = '/'; return null; }} />
           <Route path="/concerns/:id" component={() => { window.location.href = '/'; return null; }} />
+          <Route path="/students/:id" component={() => { window.location.href = '/'; return null; }} />
         </>
       ) : (
         <>
@@ -72,6 +75,7 @@ function AuthenticatedRouter() {
           <Route path="/meeting-prep" component={TeacherMeetingPrep} />
           <Route path="/settings" component={Settings} />
           <Route path="/concerns/:id" component={ConcernDetail} />
+          <Route path="/students/:id" component={StudentProfile} />
           {/* Block admin routes for teachers */}
           <Route path="/admin" component={() => { window.location.href = '/'; return null; }} />
           <Route path="/admin/*" component={() => { window.location.href = '/'; return null; }} />
@@ -112,6 +116,7 @@ function Router() {
       <Route path="/meeting-prep" component={AuthenticatedRouter} />
       <Route path="/settings" component={AuthenticatedRouter} />
       <Route path="/concerns/:id" component={AuthenticatedRouter} />
+      <Route path="/students/:id" component={AuthenticatedRouter} />
       
       {/* 404 fallback - explicit wildcard */}
       <Route path="*" component={NotFound} />
@@ -141,6 +141,12 @@ export default function InterventionsDisplay({ concernId }: InterventionsDisplay
                         Saved
                       </Badge>
                     )}
+
+                    {intervention.tier && (
+                      <Badge variant="outline" className="text-xs">
+                        {t('students.tier', 'Tier {{tier}}', { tier: intervention.tier })}
+                      </Badge>
+                    )}
                   </div>
                   <div className="flex items-center space-x-1">
                     {intervention.progressNotes && intervention.progressNotes.length > 0 && (
@@ -222,6 +228,28 @@ export default function InterventionsDisplay({ concernId }: InterventionsDisplay
                   </div>
                 )}
 
+                {/* Progress measures and success criteria from structured AI output */}
+                {Array.isArray(intervention.progressMeasures) && intervention.progressMeasures.length > 0 && (
+                  <div className="mb-4">
+                    <h6 className="font-medium text-gray-900 mb-2">Progress Monitoring:</h6>
+                    <ul className="list-disc list-inside space-y-1 bg-gray-50 rounded-lg p-3">
+                      {intervention.progressMeasures.map((measure: string, measureIndex: number) => (
+                        <li key={measureIndex} className="text-sm text-gray-700">{measure}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                {Array.isArray(intervention.successCriteria) && intervention.successCriteria.length > 0 && (
+                  <div className="mb-4">
+                    <h6 className="font-medium text-gray-900 mb-2">Success Criteria:</h6>
+                    <ul className="list-disc list-inside space-y-1 bg-gray-50 rounded-lg p-3">
+                      {intervention.successCriteria.map((criterion: string, criterionIndex: number) => (
+                        <li key={criterionIndex} className="text-sm text-gray-700">{criterion}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
                 {/* Timeline display */}
                 {intervention.timeline && (
                   <div className="mb-3">
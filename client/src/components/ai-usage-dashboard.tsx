@@ -0,0 +1,448 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { Coins, Cpu, AlertTriangle, Check, Pencil, X } from "lucide-react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  BarChart,
+  Bar,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+
+interface UsageTotals {
+  requests: number;
+  failedAttempts: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+interface UsageSummary {
+  days: number;
+  totals: UsageTotals;
+  daily: (UsageTotals & { date: string })[];
+  bySchool: (UsageTotals & { schoolId: string | null; schoolName: string })[];
+  byTaskType: (UsageTotals & { taskType: string })[];
+  byModel: (UsageTotals & { provider: string; model: string })[];
+  topTeachers: (UsageTotals & { userId: string; name: string; email: string | null })[];
+}
+
+interface SchoolBudgetStatus {
+  schoolId: string;
+  schoolName: string;
+  budget: { monthlyBudgetUsd: number; alertThresholds: number[] } | null;
+  monthToDateSpendUsd: number;
+  percentUsed: number | null;
+}
+
+interface BudgetAlert {
+  id: string;
+  schoolName: string | null;
+  month: string;
+  thresholdPercent: number;
+  spendUsd: number;
+  budgetUsd: number;
+  acknowledgedAt: string | null;
+  createdAt: string;
+}
+
+const TASK_TYPE_LABELS: Record<string, string> = {
+  tier2_intervention: 'Tier 2 interventions',
+  differentiation: 'Differentiation',
+  follow_up: 'Follow-up questions',
+  classroom_solution: 'Classroom solutions',
+};
+
+const formatUsd = (value: number) => `$${value < 1 ? value.toFixed(4) : value.toFixed(2)}`;
+const formatTokens = (value: number) => value >= 1000000
+  ? `${(value / 1000000).toFixed(1)}M`
+  : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+export default function AiUsageDashboard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState("30");
+  const [editingSchoolId, setEditingSchoolId] = useState<string | null>(null);
+  const [budgetInput, setBudgetInput] = useState("");
+  const [thresholdsInput, setThresholdsInput] = useState("");
+
+  const usageKey = `/api/admin/ai-usage?days=${days}`;
+  const { data: usage, isLoading } = useQuery<UsageSummary>({ queryKey: [usageKey] });
+  const { data: budgets } = useQuery<{ schools: SchoolBudgetStatus[] }>({ queryKey: ["/api/admin/ai-budgets"] });
+  const { data: alerts } = useQuery<{ alerts: BudgetAlert[] }>({ queryKey: ["/api/admin/ai-budget-alerts"] });
+
+  const saveBudgetMutation = useMutation({
+    mutationFn: async ({ schoolId, monthlyBudgetUsd, alertThresholds }: { schoolId: string; monthlyBudgetUsd: number; alertThresholds: number[] }) => {
+      return await apiRequest("PUT", `/api/admin/school/${schoolId}/ai-budget`, { monthlyBudgetUsd, alertThresholds });
+    },
+    onSuccess: () => {
+      toast({ title: t('aiUsage.budgetSaved', 'Budget Saved') });
+      setEditingSchoolId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ai-budgets"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ai-budget-alerts"] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('aiUsage.budgetSaveFailed', 'Save Failed'),
+        description: error.message || t('aiUsage.budgetSaveFailedDesc', 'Failed to save the AI budget'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const acknowledgeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/admin/ai-budget-alerts/${id}/acknowledge`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/ai-budget-alerts"] });
+    },
+  });
+
+  const startEditing = (school: SchoolBudgetStatus) => {
+    setEditingSchoolId(school.schoolId);
+    setBudgetInput(school.budget ? String(school.budget.monthlyBudgetUsd) : "");
+    setThresholdsInput((school.budget?.alertThresholds || [80, 100]).join(", "));
+  };
+
+  const handleSaveBudget = (schoolId: string) => {
+    const monthlyBudgetUsd = parseFloat(budgetInput);
+    const alertThresholds = thresholdsInput.split(",").map(value => parseInt(value.trim())).filter(value => !isNaN(value));
+    if (isNaN(monthlyBudgetUsd) || monthlyBudgetUsd < 0) {
+      toast({ title: t('aiUsage.invalidBudget', 'Enter a budget in US dollars'), variant: "destructive" });
+      return;
+    }
+    saveBudgetMutation.mutate({ schoolId, monthlyBudgetUsd, alertThresholds });
+  };
+
+  const openAlerts = (alerts?.alerts || []).filter(alert => !alert.acknowledgedAt);
+
+  return (
+    <div className="space-y-6" data-testid="ai-usage-dashboard">
+      {openAlerts.length > 0 && (
+        <Card className="border-amber-200 bg-amber-50" data-testid="ai-budget-alerts">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2 text-amber-900">
+              <AlertTriangle className="h-5 w-5" />
+              {t('aiUsage.alertsTitle', 'Budget Alerts')}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {openAlerts.map(alert => (
+              <div key={alert.id} className="flex items-center justify-between gap-4 text-sm" data-testid={`budget-alert-${alert.id}`}>
+                <span className="text-amber-900">
+                  {t('aiUsage.alertText', '{{school}} reached {{threshold}}% of its {{budget}} budget for {{month}} ({{spend}} spent)', {
+                    school: alert.schoolName || t('aiUsage.unknownSchool', 'Unknown school'),
+                    threshold: alert.thresholdPercent,
+                    budget: formatUsd(alert.budgetUsd),
+                    month: alert.month,
+                    spend: formatUsd(alert.spendUsd),
+                  })}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => acknowledgeMutation.mutate(alert.id)}
+                  disabled={acknowledgeMutation.isPending}
+                  data-testid={`button-acknowledge-alert-${alert.id}`}
+                >
+                  <Check className="h-4 w-4 mr-1" />
+                  {t('aiUsage.acknowledge', 'Acknowledge')}
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold flex items-center gap-2">
+          <Cpu className="h-5 w-5" />
+          {t('aiUsage.title', 'AI Usage & Cost')}
+        </h2>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-40" data-testid="select-usage-days">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">{t('aiUsage.last7', 'Last 7 days')}</SelectItem>
+            <SelectItem value="30">{t('aiUsage.last30', 'Last 30 days')}</SelectItem>
+            <SelectItem value="90">{t('aiUsage.last90', 'Last 90 days')}</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading || !usage ? (
+        <div className="h-32 bg-gray-100 rounded animate-pulse" />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{t('aiUsage.estimatedCost', 'Estimated cost')}</p>
+                <p className="text-2xl font-bold" data-testid="text-total-cost">{formatUsd(usage.totals.costUsd)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{t('aiUsage.tokens', 'Tokens')}</p>
+                <p className="text-2xl font-bold" data-testid="text-total-tokens">{formatTokens(usage.totals.totalTokens)}</p>
+                <p className="text-xs text-gray-500">
+                  {formatTokens(usage.totals.promptTokens)} {t('aiUsage.in', 'in')} / {formatTokens(usage.totals.completionTokens)} {t('aiUsage.out', 'out')}
+                </p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{t('aiUsage.requests', 'AI requests')}</p>
+                <p className="text-2xl font-bold" data-testid="text-total-requests">{usage.totals.requests}</p>
+                {usage.totals.failedAttempts > 0 && (
+                  <p className="text-xs text-amber-700">
+                    {t('aiUsage.failedAttempts', '{{count}} failed or failed-over attempts', { count: usage.totals.failedAttempts })}
+                  </p>
+                )}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm text-gray-600">{t('aiUsage.avgLatency', 'Average latency')}</p>
+                <p className="text-2xl font-bold" data-testid="text-average-latency">
+                  {(usage.totals.averageLatencyMs / 1000).toFixed(1)}s
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">{t('aiUsage.dailyTitle', 'Daily cost and tokens')}</CardTitle>
+            </CardHeader>
+            <CardContent className="h-72" data-testid="chart-daily-usage">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={usage.daily}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" fontSize={12} />
+                  <YAxis yAxisId="cost" fontSize={12} tickFormatter={(value: number) => `$${value}`} />
+                  <YAxis yAxisId="tokens" orientation="right" fontSize={12} tickFormatter={formatTokens} />
+                  <Tooltip formatter={(value: number, name: string) => name === t('aiUsage.cost', 'Cost') ? formatUsd(value) : formatTokens(value)} />
+                  <Legend />
+                  <Bar yAxisId="cost" dataKey="costUsd" name={t('aiUsage.cost', 'Cost')} fill="#3b82f6" />
+                  <Line yAxisId="tokens" dataKey="totalTokens" name={t('aiUsage.tokens', 'Tokens')} stroke="#f59e0b" dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t('aiUsage.bySchool', 'Cost by school')}</CardTitle>
+              </CardHeader>
+              <CardContent className="h-64" data-testid="chart-usage-by-school">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={usage.bySchool.slice(0, 10)} layout="vertical">
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis type="number" fontSize={12} tickFormatter={(value: number) => `$${value}`} />
+                    <YAxis type="category" dataKey="schoolName" width={120} fontSize={12} />
+                    <Tooltip formatter={(value: number) => formatUsd(value)} />
+                    <Bar dataKey="costUsd" name={t('aiUsage.cost', 'Cost')} fill="#3b82f6" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t('aiUsage.byTaskType', 'Cost by task type')}</CardTitle>
+              </CardHeader>
+              <CardContent className="h-64" data-testid="chart-usage-by-task">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={usage.byTaskType.map(row => ({ ...row, label: TASK_TYPE_LABELS[row.taskType] || row.taskType }))}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="label" fontSize={12} />
+                    <YAxis fontSize={12} tickFormatter={(value: number) => `$${value}`} />
+                    <Tooltip formatter={(value: number) => formatUsd(value)} />
+                    <Bar dataKey="costUsd" name={t('aiUsage.cost', 'Cost')} fill="#10b981" />
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t('aiUsage.byModel', 'By model')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('aiUsage.model', 'Model')}</TableHead>
+                      <TableHead className="text-right">{t('aiUsage.requests', 'AI requests')}</TableHead>
+                      <TableHead className="text-right">{t('aiUsage.tokens', 'Tokens')}</TableHead>
+                      <TableHead className="text-right">{t('aiUsage.cost', 'Cost')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.byModel.map(row => (
+                      <TableRow key={`${row.provider}/${row.model}`}>
+                        <TableCell>
+                          <span className="font-medium">{row.model}</span>
+                          <span className="text-xs text-gray-500 ml-2">{row.provider}</span>
+                        </TableCell>
+                        <TableCell className="text-right">{row.requests}</TableCell>
+                        <TableCell className="text-right">{formatTokens(row.totalTokens)}</TableCell>
+                        <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t('aiUsage.topTeachers', 'Top teachers by cost')}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('aiUsage.teacher', 'Teacher')}</TableHead>
+                      <TableHead className="text-right">{t('aiUsage.requests', 'AI requests')}</TableHead>
+                      <TableHead className="text-right">{t('aiUsage.cost', 'Cost')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {usage.topTeachers.map(row => (
+                      <TableRow key={row.userId} data-testid={`row-top-teacher-${row.userId}`}>
+                        <TableCell>{row.name}</TableCell>
+                        <TableCell className="text-right">{row.requests}</TableCell>
+                        <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      <Card data-testid="ai-budgets">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Coins className="h-5 w-5" />
+            {t('aiUsage.budgetsTitle', 'Monthly school budgets')}
+          </CardTitle>
+          <p className="text-sm text-gray-600">
+            {t('aiUsage.budgetsDesc', 'Admins are alerted when a school’s estimated spend this month crosses each threshold.')}
+          </p>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('aiUsage.school', 'School')}</TableHead>
+                <TableHead className="text-right">{t('aiUsage.monthToDate', 'This month')}</TableHead>
+                <TableHead className="text-right">{t('aiUsage.budget', 'Budget')}</TableHead>
+                <TableHead>{t('aiUsage.thresholds', 'Alert at (%)')}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(budgets?.schools || []).map(school => (
+                <TableRow key={school.schoolId} data-testid={`row-budget-${school.schoolId}`}>
+                  <TableCell className="font-medium">{school.schoolName}</TableCell>
+                  <TableCell className="text-right">
+                    {formatUsd(school.monthToDateSpendUsd)}
+                    {school.percentUsed !== null && (
+                      <Badge
+                        variant="secondary"
+                        className={`ml-2 ${school.percentUsed >= 100 ? 'bg-red-100 text-red-800' : school.percentUsed >= 80 ? 'bg-amber-100 text-amber-800' : ''}`}
+                      >
+                        {Math.round(school.percentUsed)}%
+                      </Badge>
+                    )}
+                  </TableCell>
+                  {editingSchoolId === school.schoolId ? (
+                    <>
+                      <TableCell className="text-right">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={budgetInput}
+                          onChange={(e) => setBudgetInput(e.target.value)}
+                          className="w-28 ml-auto"
+                          data-testid={`input-budget-${school.schoolId}`}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          value={thresholdsInput}
+                          onChange={(e) => setThresholdsInput(e.target.value)}
+                          placeholder="80, 100"
+                          className="w-28"
+                          data-testid={`input-thresholds-${school.schoolId}`}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          onClick={() => handleSaveBudget(school.schoolId)}
+                          disabled={saveBudgetMutation.isPending}
+                          data-testid={`button-save-budget-${school.schoolId}`}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingSchoolId(null)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </>
+                  ) : (
+                    <>
+                      <TableCell className="text-right">
+                        {school.budget ? formatUsd(school.budget.monthlyBudgetUsd) : <span className="text-gray-400">{t('aiUsage.noBudget', 'None')}</span>}
+                      </TableCell>
+                      <TableCell>{school.budget?.alertThresholds.join(', ') || '—'}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => startEditing(school)}
+                          data-testid={`button-edit-budget-${school.schoolId}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -25,19 +25,32 @@ import {
   Activity,
   AlertCircle,
   CheckCircle,
-  Calendar
+  Calendar,
+  RotateCcw
 } from "lucide-react";
 import { format } from "date-fns";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import type { AIProviderType, School } from "@shared/schema";
 
 interface ApiKey {
   id: string;
   name: string;
   provider: string;
+  baseUrl: string | null;
+  model: string | null;
+  schoolId: string | null;
+  schoolName: string | null;
   isActive: boolean;
   description: string | null;
   usageCount: number;
   maxUsage: number;
+  usageResetAt: string | null;
+  consecutiveFailures: number | null;
+  lastError: string | null;
+  lastErrorAt: string | null;
+  cooldownUntil: string | null;
+  isOverLimit: boolean;
+  isCoolingDown: boolean;
   lastUsedAt: string | null;
   createdAt: string;
   createdByUser: string | null;
@@ -46,10 +59,24 @@ interface ApiKey {
   isEnvironmentKey?: boolean;
 }
 
+// Mirrors AI_PROVIDERS in server/services/aiProviders.ts
+const PROVIDER_OPTIONS: Record<AIProviderType, { label: string; needsEndpoint: boolean; needsApiKey: boolean }> = {
+  deepseek: { label: "DeepSeek", needsEndpoint: false, needsApiKey: true },
+  openai: { label: "OpenAI", needsEndpoint: false, needsApiKey: true },
+  openai_compatible: { label: "OpenAI-compatible endpoint", needsEndpoint: true, needsApiKey: false },
+  anthropic: { label: "Anthropic", needsEndpoint: false, needsApiKey: true },
+  local: { label: "Self-hosted model server", needsEndpoint: false, needsApiKey: false },
+};
+
+const ALL_SCHOOLS = "all";
+
 const apiKeyFormSchema = z.object({
   name: z.string().min(1, "Name is required").max(100, "Name too long"),
-  apiKey: z.string().min(1, "API key is required"),
+  apiKey: z.string().default(""),
   provider: z.string().default("deepseek"),
+  baseUrl: z.string().optional(),
+  model: z.string().optional(),
+  schoolId: z.string().default(ALL_SCHOOLS),
   description: z.string().optional(),
   maxUsage: z.number().min(1).max(100000).default(10000),
   isActive: z.boolean().default(true),
@@ -71,6 +98,9 @@ export default function ApiKeyManagement() {
       name: "",
       apiKey: "",
       provider: "deepseek",
+      baseUrl: "",
+      model: "",
+      schoolId: ALL_SCHOOLS,
       description: "",
       maxUsage: 10000,
       isActive: true,
@@ -78,11 +108,18 @@ export default function ApiKeyManagement() {
   });
 
   // Fetch API keys
+  // Usage counters change with every AI call, so keep them live while the screen is open
   const { data: apiKeysData, isLoading } = useQuery({
     queryKey: ['/api/admin/api-keys'],
+    refetchInterval: 15000,
+  });
+
+  const { data: schools = [] } = useQuery<School[]>({
+    queryKey: ['/api/admin/schools'],
   });
 
   const apiKeys: ApiKey[] = (apiKeysData as any)?.apiKeys || [];
+  const selectedProvider = PROVIDER_OPTIONS[form.watch("provider") as AIProviderType] || PROVIDER_OPTIONS.deepseek;
 
   // Create API key mutation
   const createMutation = useMutation({
@@ -160,11 +197,48 @@ export default function ApiKeyManagement() {
     },
   });
 
+  // Reset usage mutation
+  const resetUsageMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return apiRequest(`/api/admin/api-keys/${id}/reset-usage`, {
+        method: 'POST',
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/api-keys'] });
+      toast({
+        title: "Success",
+        description: "API key usage reset and returned to the pool",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to reset API key usage",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleSubmit = async (data: ApiKeyFormData) => {
+    if (!editingKey && selectedProvider.needsApiKey && !data.apiKey) {
+      form.setError("apiKey", { message: "API key is required" });
+      return;
+    }
+    if (selectedProvider.needsEndpoint && (!data.baseUrl || !data.model)) {
+      form.setError("baseUrl", { message: "Base URL and model are required for this provider" });
+      return;
+    }
+
+    const payload = {
+      ...data,
+      schoolId: data.schoolId === ALL_SCHOOLS ? null : data.schoolId,
+    };
+
     if (editingKey) {
-      updateMutation.mutate({ id: editingKey.id, data });
+      updateMutation.mutate({ id: editingKey.id, data: payload as Partial<ApiKeyFormData> });
     } else {
-      createMutation.mutate(data);
+      createMutation.mutate(payload as ApiKeyFormData);
     }
   };
 
@@ -174,6 +248,9 @@ export default function ApiKeyManagement() {
       name: apiKey.name,
       apiKey: "", // Don't populate the actual key for security
       provider: apiKey.provider,
+      baseUrl: apiKey.baseUrl || "",
+      model: apiKey.model || "",
+      schoolId: apiKey.schoolId || ALL_SCHOOLS,
       description: apiKey.description || "",
       maxUsage: apiKey.maxUsage,
       isActive: apiKey.isActive,
@@ -197,6 +274,71 @@ export default function ApiKeyManagement() {
     }));
   };
 
+  // Endpoint, model and school fields shared by the add and edit dialogs
+  const renderConnectionFields = (testIdPrefix: string) => (
+    <>
+      <FormField
+        control={form.control}
+        name="baseUrl"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Base URL{selectedProvider.needsEndpoint ? "" : " (Optional)"}</FormLabel>
+            <FormControl>
+              <Input
+                placeholder={selectedProvider.needsEndpoint ? "https://llm.district.example/v1" : "Provider default"}
+                {...field}
+                data-testid={`input-${testIdPrefix}api-key-base-url`}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="model"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>Model{selectedProvider.needsEndpoint ? "" : " (Optional)"}</FormLabel>
+            <FormControl>
+              <Input
+                placeholder={selectedProvider.needsEndpoint ? "llama3.1" : "Provider default"}
+                {...field}
+                data-testid={`input-${testIdPrefix}api-key-model`}
+              />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <FormField
+        control={form.control}
+        name="schoolId"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>School</FormLabel>
+            <Select onValueChange={field.onChange} value={field.value}>
+              <FormControl>
+                <SelectTrigger data-testid={`select-${testIdPrefix}api-key-school`}>
+                  <SelectValue placeholder="All schools" />
+                </SelectTrigger>
+              </FormControl>
+              <SelectContent>
+                <SelectItem value={ALL_SCHOOLS}>All schools</SelectItem>
+                {schools.map((school) => (
+                  <SelectItem key={school.id} value={school.id}>{school.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </>
+  );
+
   const getStatusBadge = (apiKey: ApiKey) => {
     if (apiKey.isEnvironmentKey) {
       return <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200" data-testid={`status-environment-${apiKey.id}`}>Environment</Badge>;
@@ -204,12 +346,47 @@ export default function ApiKeyManagement() {
     if (!apiKey.isActive) {
       return <Badge variant="secondary" data-testid={`status-inactive-${apiKey.id}`}>Inactive</Badge>;
     }
+    if (apiKey.isOverLimit) {
+      return <Badge variant="destructive" data-testid={`status-over-limit-${apiKey.id}`}>Limit Reached</Badge>;
+    }
+    if (apiKey.isCoolingDown) {
+      return (
+        <Badge
+          variant="outline"
+          className="bg-amber-50 text-amber-700 border-amber-200"
+          title={apiKey.lastError || undefined}
+          data-testid={`status-cooling-down-${apiKey.id}`}
+        >
+          Failing over
+        </Badge>
+      );
+    }
     if (apiKey.usagePercentage >= 90) {
       return <Badge variant="destructive" data-testid={`status-high-usage-${apiKey.id}`}>High Usage</Badge>;
     }
     return <Badge variant="default" data-testid={`status-active-${apiKey.id}`}>Active</Badge>;
   };
 
+  const getUsageDetails = (apiKey: ApiKey) => (
+    <div className="text-xs text-muted-foreground mt-1 space-y-0.5">
+      {apiKey.usageResetAt && (
+        <div data-testid={`text-usage-window-${apiKey.id}`}>
+          Since {format(new Date(apiKey.usageResetAt), 'MMM d')}
+        </div>
+      )}
+      {apiKey.isCoolingDown && apiKey.cooldownUntil && (
+        <div className="text-amber-700" data-testid={`text-cooldown-${apiKey.id}`}>
+          Skipped until {format(new Date(apiKey.cooldownUntil), 'HH:mm')}
+        </div>
+      )}
+      {apiKey.lastError && (apiKey.consecutiveFailures || 0) > 0 && (
+        <div className="text-red-600 truncate max-w-[180px]" title={apiKey.lastError} data-testid={`text-last-error-${apiKey.id}`}>
+          {apiKey.lastError}
+        </div>
+      )}
+    </div>
+  );
+
   const getUsageColor = (percentage: number) => {
     if (percentage >= 90) return "bg-red-500";
     if (percentage >= 70) return "bg-yellow-500";
@@ -262,7 +439,7 @@ export default function ApiKeyManagement() {
                       <FormItem>
                         <FormLabel>Name</FormLabel>
                         <FormControl>
-                          <Input placeholder="My DeepSeek Key" {...field} data-testid="input-api-key-name" />
+                          <Input placeholder="District model server" {...field} data-testid="input-api-key-name" />
                         </FormControl>
                         <FormMessage />
                       </FormItem>
@@ -282,7 +459,9 @@ export default function ApiKeyManagement() {
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            <SelectItem value="deepseek">DeepSeek</SelectItem>
+                            {Object.entries(PROVIDER_OPTIONS).map(([value, option]) => (
+                              <SelectItem key={value} value={value}>{option.label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                         <FormMessage />
@@ -290,12 +469,14 @@ export default function ApiKeyManagement() {
                     )}
                   />
 
+                  {renderConnectionFields("")}
+
                   <FormField
                     control={form.control}
                     name="apiKey"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>API Key</FormLabel>
+                        <FormLabel>API Key{selectedProvider.needsApiKey ? "" : " (Optional)"}</FormLabel>
                         <FormControl>
                           <Input 
                             type="password" 
@@ -402,8 +583,11 @@ export default function ApiKeyManagement() {
                       <div>
                         <h3 className="font-medium" data-testid={`text-name-${apiKey.id}`}>{apiKey.name}</h3>
                         <Badge variant="secondary" className="text-xs mt-1" data-testid={`text-provider-${apiKey.id}`}>
-                          {apiKey.provider}
+                          {PROVIDER_OPTIONS[apiKey.provider as AIProviderType]?.label || apiKey.provider}
                         </Badge>
+                        <div className="text-xs text-muted-foreground mt-1" data-testid={`text-school-${apiKey.id}`}>
+                          {apiKey.schoolName || "All schools"}{apiKey.model ? ` · ${apiKey.model}` : ""}
+                        </div>
                       </div>
                       {getStatusBadge(apiKey)}
                     </div>
@@ -423,6 +607,7 @@ export default function ApiKeyManagement() {
                         {apiKey.usageCount}/{apiKey.maxUsage}
                       </span>
                     </div>
+                    {getUsageDetails(apiKey)}
 
                     <div className="flex items-center justify-between text-xs text-muted-foreground">
                       <span data-testid={`text-last-used-${apiKey.id}`}>
@@ -446,6 +631,17 @@ export default function ApiKeyManagement() {
                             <Edit className="h-3 w-3 mr-1" />
                             Edit
                           </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => resetUsageMutation.mutate(apiKey.id)}
+                            disabled={resetUsageMutation.isPending}
+                            data-testid={`button-reset-usage-${apiKey.id}`}
+                            className="text-xs"
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            Reset
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
@@ -498,8 +694,11 @@ export default function ApiKeyManagement() {
                     </TableCell>
                     <TableCell>
                       <Badge variant="secondary" className="text-xs" data-testid={`text-provider-${apiKey.id}`}>
-                        {apiKey.provider}
+                        {PROVIDER_OPTIONS[apiKey.provider as AIProviderType]?.label || apiKey.provider}
                       </Badge>
+                      <div className="text-xs text-muted-foreground mt-1" data-testid={`text-school-${apiKey.id}`}>
+                        {apiKey.schoolName || "All schools"}{apiKey.model ? ` · ${apiKey.model}` : ""}
+                      </div>
                     </TableCell>
                     <TableCell>{getStatusBadge(apiKey)}</TableCell>
                     <TableCell>
@@ -514,6 +713,7 @@ export default function ApiKeyManagement() {
                           {apiKey.usageCount}/{apiKey.maxUsage}
                         </span>
                       </div>
+                      {getUsageDetails(apiKey)}
                     </TableCell>
                     <TableCell>
                       <div className="flex items-center gap-1">
@@ -565,6 +765,17 @@ export default function ApiKeyManagement() {
                             >
                               <Edit className="h-3 w-3" />
                             </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => resetUsageMutation.mutate(apiKey.id)}
+                              disabled={resetUsageMutation.isPending}
+                              title="Reset usage"
+                              data-testid={`button-reset-usage-${apiKey.id}`}
+                              className="p-2"
+                            >
+                              <RotateCcw className="h-3 w-3" />
+                            </Button>
                             <Button
                               variant="ghost"
                               size="sm"
@@ -613,6 +824,8 @@ export default function ApiKeyManagement() {
                 )}
               />
 
+              {renderConnectionFields("edit-")}
+
               <FormField
                 control={form.control}
                 name="description"
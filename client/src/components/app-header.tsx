@@ -6,6 +6,7 @@ import { Link } from "wouter";
 import { useState } from "react";
 import { useQueryClient } from "@tanstack/react-query";
 import { LanguageSwitcher } from "@/components/language-switcher";
+import NotificationBell from "@/components/notification-bell";
 import { useTranslation } from "react-i18next";
 
 export default function AppHeader() {
@@ -117,6 +118,9 @@ export default function AppHeader() {
               </div>
             )}
             
+            {/* Shares, @mentions and replies on concerns */}
+            {user && !user.isAdmin && <NotificationBell />}
+
             {/* Language Switcher */}
             <LanguageSwitcher className="" />
             
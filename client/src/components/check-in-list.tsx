@@ -0,0 +1,190 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Link } from "wouter";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardCheck, BellOff } from "lucide-react";
+import { PROGRESS_NOTE_OUTCOMES, type CheckInItem, type CheckInStatus } from "@shared/schema";
+
+const STATUS_STYLES: Record<CheckInStatus, string> = {
+  overdue: "bg-red-100 text-red-800",
+  due_soon: "bg-amber-100 text-amber-800",
+  upcoming: "bg-gray-100 text-gray-700",
+};
+
+const INTERVAL_OPTIONS = [3, 7, 14, 28];
+
+// Only the next few upcoming check-ins are listed; overdue and due-soon ones are always shown
+const UPCOMING_LIMIT = 3;
+
+export default function CheckInList() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [openItem, setOpenItem] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [outcome, setOutcome] = useState<string>("");
+
+  const { data: checkIns = [] } = useQuery<CheckInItem[]>({
+    queryKey: ["/api/check-ins"],
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/check-ins"] });
+
+  const onError = (error: any) => {
+    toast({
+      title: t('checkIns.failed', 'Something went wrong'),
+      description: error.message || t('checkIns.failedDesc', 'Failed to update the check-in'),
+      variant: "destructive",
+    });
+  };
+
+  const completeMutation = useMutation({
+    mutationFn: async (interventionId: string) => apiRequest("POST", `/api/interventions/${interventionId}/check-ins`, {
+      note,
+      outcome: outcome || undefined,
+    }),
+    onSuccess: () => {
+      setOpenItem(null);
+      setNote("");
+      setOutcome("");
+      toast({ title: t('checkIns.recorded', 'Check-in recorded') });
+      refresh();
+    },
+    onError,
+  });
+
+  const scheduleMutation = useMutation({
+    mutationFn: async ({ interventionId, intervalDays }: { interventionId: string; intervalDays: number | null }) =>
+      apiRequest("PUT", `/api/interventions/${interventionId}/check-in-schedule`, { intervalDays }),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const pressing = checkIns.filter(item => item.status !== 'upcoming');
+  const visible = [...pressing, ...checkIns.filter(item => item.status === 'upcoming').slice(0, UPCOMING_LIMIT)];
+  if (visible.length === 0) return null;
+
+  const overdueCount = checkIns.filter(item => item.status === 'overdue').length;
+
+  const statusLabel = (item: CheckInItem) => {
+    if (item.status === 'overdue') {
+      return item.daysOverdue > 0
+        ? t('checkIns.overdueDays', 'Overdue by {{count}} day(s)', { count: item.daysOverdue })
+        : t('checkIns.dueToday', 'Due today');
+    }
+    return t('checkIns.dueOn', 'Due {{date}}', { date: new Date(item.nextCheckInAt).toLocaleDateString() });
+  };
+
+  const outcomeLabel = (value: string) => ({
+    positive: t('checkIns.outcomePositive', 'Working well'),
+    mixed: t('checkIns.outcomeMixed', 'Mixed results'),
+    needs_adjustment: t('checkIns.outcomeNeedsAdjustment', 'Needs adjustment'),
+    no_change: t('checkIns.outcomeNoChange', 'No change yet'),
+  } as Record<string, string>)[value] || value;
+
+  return (
+    <div className="max-w-4xl mx-auto mb-6 sm:mb-8">
+      <div className="bg-white/90 backdrop-blur-sm rounded-2xl shadow-lg border border-white/20 p-4 md:p-6" data-testid="check-in-list">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg md:text-xl font-bold text-gray-900 flex items-center">
+            <ClipboardCheck className="h-5 w-5 mr-2 text-purple-600" />
+            {t('checkIns.title', 'Progress Check-ins')}
+          </h2>
+          {overdueCount > 0 && (
+            <Badge className="bg-red-100 text-red-800" data-testid="badge-overdue-check-ins">
+              {t('checkIns.overdueCount', '{{count}} overdue', { count: overdueCount })}
+            </Badge>
+          )}
+        </div>
+
+        <ul className="space-y-3">
+          {visible.map(item => (
+            <li key={item.interventionId} className="border rounded-lg p-3" data-testid={`check-in-${item.interventionId}`}>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+                <div className="min-w-0">
+                  <Link href={`/concerns/${item.concernId}`} className="font-medium text-gray-900 hover:underline">
+                    {item.studentLabel}
+                  </Link>
+                  <p className="text-sm text-gray-600 truncate">{item.interventionTitle}</p>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge className={STATUS_STYLES[item.status]}>{statusLabel(item)}</Badge>
+                  <Select
+                    value={String(item.intervalDays)}
+                    onValueChange={(value) => scheduleMutation.mutate({ interventionId: item.interventionId, intervalDays: Number(value) })}
+                  >
+                    <SelectTrigger className="w-36 h-8" data-testid={`select-check-in-interval-${item.interventionId}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from(new Set([...INTERVAL_OPTIONS, item.intervalDays])).sort((a, b) => a - b).map(days => (
+                        <SelectItem key={days} value={String(days)}>
+                          {t('checkIns.everyDays', 'Every {{count}} days', { count: days })}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    title={t('checkIns.stop', 'Stop check-in reminders')}
+                    onClick={() => scheduleMutation.mutate({ interventionId: item.interventionId, intervalDays: null })}
+                    data-testid={`button-stop-check-ins-${item.interventionId}`}
+                  >
+                    <BellOff className="h-4 w-4" />
+                  </Button>
+                  {openItem !== item.interventionId && (
+                    <Button size="sm" onClick={() => { setOpenItem(item.interventionId); setNote(""); setOutcome(""); }} data-testid={`button-check-in-${item.interventionId}`}>
+                      {t('checkIns.checkIn', 'Check in')}
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              {openItem === item.interventionId && (
+                <div className="mt-3 space-y-2">
+                  <Textarea
+                    placeholder={t('checkIns.notePlaceholder', 'How is the intervention going? What have you noticed since the last check-in?')}
+                    value={note}
+                    onChange={e => setNote(e.target.value)}
+                    rows={3}
+                    data-testid={`textarea-check-in-note-${item.interventionId}`}
+                  />
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <Select value={outcome} onValueChange={setOutcome}>
+                      <SelectTrigger className="w-48" data-testid={`select-check-in-outcome-${item.interventionId}`}>
+                        <SelectValue placeholder={t('checkIns.outcome', 'Outcome (optional)')} />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {PROGRESS_NOTE_OUTCOMES.map(value => (
+                          <SelectItem key={value} value={value}>{outcomeLabel(value)}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="ghost" onClick={() => setOpenItem(null)}>{t('common.cancel', 'Cancel')}</Button>
+                      <Button
+                        size="sm"
+                        onClick={() => completeMutation.mutate(item.interventionId)}
+                        disabled={!note.trim() || completeMutation.isPending}
+                        data-testid={`button-save-check-in-${item.interventionId}`}
+                      >
+                        {completeMutation.isPending ? t('common.saving', 'Saving...') : t('checkIns.save', 'Record check-in')}
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+}
@@ -43,6 +43,7 @@ import {
 } from 'lucide-react';
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { ClassroomSubmissionWithTeacher } from '@shared/schema';
+import { getFallbackCause } from '@/lib/aiFallback';
 
 // Safe date formatting utility
 function formatSafeDate(dateInput: string | Date | null | undefined, format: 'full' | 'date' | 'time' = 'full'): string {
@@ -239,6 +240,7 @@ interface ClassroomSubmission {
     requiresImmediateReview: boolean;
   };
   aiDraft?: string;
+  aiDraftFallbackReason?: string | null; // Draft is template text because the AI provider was unavailable
   aiDisclaimer?: string;
   autoSendTime?: string;
   sentAt?: string;
@@ -426,6 +428,19 @@ function SubmissionDetailModal({ submission, isOpen, onClose, onStatusUpdate, on
                 <p className="text-blue-100 text-sm mt-1">AI-Generated Educational Plan</p>
               </CardHeader>
               <CardContent className="p-0">
+                {submission.aiDraftFallbackReason && (
+                  <div className="mx-6 mt-6 p-4 bg-amber-50 border border-amber-300 rounded-lg" data-testid="notice-fallback-draft">
+                    <div className="flex items-start gap-3">
+                      <AlertTriangle className="h-5 w-5 text-amber-600 flex-shrink-0 mt-0.5" />
+                      <div>
+                        <p className="font-semibold text-amber-800 mb-1">Template draft - not AI-generated</p>
+                        <p className="text-sm text-amber-700">
+                          {getFallbackCause(submission.aiDraftFallbackReason)} This draft is general template content; tailor it to the student before approving.
+                        </p>
+                      </div>
+                    </div>
+                  </div>
+                )}
                 <div className="p-6">
                   {formatProfessionalAIResponse(submission.aiDraft)}
                 </div>
@@ -0,0 +1,239 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { MessageSquare, Reply, Trash2 } from "lucide-react";
+import type { ConcernAccessLevel, ConcernCollaborator, ConcernCommentWithAuthor, User } from "@shared/schema";
+
+interface CommentThreadProps {
+  concernId: string;
+  interventionId?: string | null; // Omit for comments on the concern itself
+  access: ConcernAccessLevel;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Shows @mentions of people who were notified in bold
+function CommentBody({ comment, collaborators }: { comment: ConcernCommentWithAuthor; collaborators: ConcernCollaborator[] }) {
+  const mentioned = Array.isArray(comment.mentions) ? comment.mentions as string[] : [];
+  const names = collaborators.filter(collaborator => mentioned.includes(collaborator.userId)).map(collaborator => collaborator.name);
+  if (names.length === 0) return <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">{comment.body}</p>;
+
+  const pattern = new RegExp(`(${names.map(name => `@${escapeRegExp(name)}`).join('|')})`, 'g');
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap break-words">
+      {comment.body.split(pattern).map((part, index) => index % 2 === 1
+        ? <span key={index} className="font-semibold text-blue-700">{part}</span>
+        : part)}
+    </p>
+  );
+}
+
+function CommentComposer({ collaborators, currentUserId, onSubmit, isPending, placeholder, testId }: {
+  collaborators: ConcernCollaborator[];
+  currentUserId?: string;
+  onSubmit: (body: string, mentions: string[]) => void;
+  isPending: boolean;
+  placeholder: string;
+  testId: string;
+}) {
+  const { t } = useTranslation();
+  const [body, setBody] = useState("");
+  const [mentions, setMentions] = useState<ConcernCollaborator[]>([]);
+  const [cursor, setCursor] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // An "@name" being typed just before the cursor
+  const typed = body.slice(0, cursor).match(/(^|\s)@([^\s@]*)$/);
+  const query = typed ? typed[2].toLowerCase() : null;
+  const suggestions = query === null ? [] : collaborators.filter(collaborator =>
+    collaborator.userId !== currentUserId && collaborator.name.toLowerCase().includes(query)
+  );
+
+  const mention = (collaborator: ConcernCollaborator) => {
+    const start = cursor - (query?.length || 0) - 1;
+    const next = `${body.slice(0, start)}@${collaborator.name} ${body.slice(cursor)}`;
+    setBody(next);
+    setMentions(current => current.some(item => item.userId === collaborator.userId) ? current : [...current, collaborator]);
+    const position = start + collaborator.name.length + 2;
+    setCursor(position);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(position, position);
+    });
+  };
+
+  const submit = () => {
+    const text = body.trim();
+    if (!text) return;
+    // Mentions whose name was edited out of the text are dropped
+    onSubmit(text, mentions.filter(collaborator => text.includes(`@${collaborator.name}`)).map(collaborator => collaborator.userId));
+    setBody("");
+    setMentions([]);
+    setCursor(0);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Textarea
+        ref={textareaRef}
+        value={body}
+        onChange={e => {
+          setBody(e.target.value);
+          setCursor(e.target.selectionStart);
+        }}
+        onSelect={e => setCursor(e.currentTarget.selectionStart)}
+        placeholder={placeholder}
+        maxLength={5000}
+        rows={2}
+        data-testid={`textarea-${testId}`}
+      />
+      {suggestions.length > 0 && (
+        <div className="flex flex-wrap gap-1" data-testid={`mention-suggestions-${testId}`}>
+          {suggestions.map(collaborator => (
+            <Button key={collaborator.userId} type="button" variant="outline" size="sm" onClick={() => mention(collaborator)}>
+              @{collaborator.name}
+            </Button>
+          ))}
+        </div>
+      )}
+      <Button size="sm" onClick={submit} disabled={!body.trim() || isPending} data-testid={`button-${testId}`}>
+        {isPending ? t('comments.posting', 'Posting...') : t('comments.post', 'Post')}
+      </Button>
+    </div>
+  );
+}
+
+// Comment threads on a concern or one of its interventions, for everyone the concern is shared with
+export default function CommentThread({ concernId, interventionId = null, access }: CommentThreadProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const { user } = useAuth() as { user: User | undefined };
+  const queryClient = useQueryClient();
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const commentsKey = ["/api/concerns", concernId, "comments"];
+  const testScope = interventionId || 'concern';
+
+  const { data: allComments = [], isError } = useQuery<ConcernCommentWithAuthor[]>({
+    queryKey: commentsKey,
+    retry: false,
+  });
+  const { data: collaborators = [] } = useQuery<ConcernCollaborator[]>({
+    queryKey: ["/api/concerns", concernId, "collaborators"],
+    retry: false,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: t('comments.failed', 'Something went wrong'),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const postMutation = useMutation({
+    mutationFn: async (input: { body: string; mentions: string[]; parentId?: string }) =>
+      apiRequest("POST", `/api/concerns/${concernId}/comments`, { ...input, interventionId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+      setReplyingTo(null);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (commentId: string) => apiRequest("DELETE", `/api/concerns/${concernId}/comments/${commentId}`),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: commentsKey }),
+    onError,
+  });
+
+  if (isError) return null;
+
+  const comments = allComments.filter(comment => (comment.interventionId || null) === interventionId);
+  const threads = comments.filter(comment => !comment.parentId);
+  const canComment = access !== 'view';
+
+  const renderComment = (comment: ConcernCommentWithAuthor) => (
+    <div className="flex items-start justify-between gap-2" data-testid={`comment-${comment.id}`}>
+      <div className="min-w-0">
+        <p className="text-xs text-gray-500">
+          <span className="font-medium text-gray-900">{comment.authorName}</span>
+          {comment.createdAt && ` · ${new Date(comment.createdAt).toLocaleString()}`}
+        </p>
+        <CommentBody comment={comment} collaborators={collaborators} />
+      </div>
+      {(comment.authorId === user?.id || access === 'owner') && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => deleteMutation.mutate(comment.id)}
+          disabled={deleteMutation.isPending}
+          title={t('comments.delete', 'Delete comment')}
+          data-testid={`button-delete-comment-${comment.id}`}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-xl p-4 border border-gray-200 mb-4 md:mb-6" data-testid={`comments-${testScope}`}>
+      <h4 className="text-sm md:text-base font-semibold text-gray-900 flex items-center mb-3">
+        <MessageSquare className="h-4 w-4 mr-2" />
+        {interventionId ? t('comments.interventionTitle', 'Discussion') : t('comments.concernTitle', 'Team Discussion')}
+        {comments.length > 0 && <span className="ml-2 text-xs font-normal text-gray-500">({comments.length})</span>}
+      </h4>
+
+      {threads.length === 0 && (
+        <p className="text-sm text-gray-500 mb-3">{t('comments.empty', 'No comments yet.')}</p>
+      )}
+      <ul className="space-y-3 mb-3">
+        {threads.map(thread => (
+          <li key={thread.id} className="border-l-2 border-gray-200 pl-3">
+            {renderComment(thread)}
+            <ul className="space-y-2 mt-2 ml-4">
+              {comments.filter(reply => reply.parentId === thread.id).map(reply => (
+                <li key={reply.id}>{renderComment(reply)}</li>
+              ))}
+            </ul>
+            {canComment && (replyingTo === thread.id ? (
+              <div className="mt-2 ml-4">
+                <CommentComposer
+                  collaborators={collaborators}
+                  currentUserId={user?.id}
+                  onSubmit={(body, mentions) => postMutation.mutate({ body, mentions, parentId: thread.id })}
+                  isPending={postMutation.isPending}
+                  placeholder={t('comments.replyPlaceholder', 'Write a reply... Type @ to mention someone')}
+                  testId={`reply-${thread.id}`}
+                />
+              </div>
+            ) : (
+              <Button variant="ghost" size="sm" className="mt-1" onClick={() => setReplyingTo(thread.id)} data-testid={`button-reply-${thread.id}`}>
+                <Reply className="h-3 w-3 mr-1" />
+                {t('comments.reply', 'Reply')}
+              </Button>
+            ))}
+          </li>
+        ))}
+      </ul>
+
+      {canComment ? (
+        <CommentComposer
+          collaborators={collaborators}
+          currentUserId={user?.id}
+          onSubmit={(body, mentions) => postMutation.mutate({ body, mentions })}
+          isPending={postMutation.isPending}
+          placeholder={t('comments.placeholder', 'Add a comment... Type @ to mention someone')}
+          testId={`post-comment-${testScope}`}
+        />
+      ) : (
+        <p className="text-xs text-gray-500">{t('comments.viewOnly', 'You have view-only access, so you can read but not post comments.')}</p>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 // Helper function for checking unauthorized errors
@@ -9,7 +9,10 @@ const isUnauthorizedError = (error: Error): boolean => {
   return /^401: .*Unauthorized/.test(error.message);
 };
 import { apiRequest } from "@/lib/queryClient";
-import { insertConcernSchema, type Concern, type Intervention, type User as UserType } from "@shared/schema";
+import { postEventStream } from "@/lib/eventStream";
+import { getFallbackCause } from "@/lib/aiFallback";
+import { getNearDuplicate, type NearDuplicate } from "@/lib/nearDuplicate";
+import { insertConcernSchema, type Concern, type Intervention, type Student, type User as UserType } from "@shared/schema";
 import { z } from "zod";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
@@ -19,11 +22,13 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Edit3, Wand2, GraduationCap, AlertTriangle, Users, CalendarX, User, Calendar, MapPin, AlertCircle, ChevronDown, ChevronUp, Lightbulb, Upload, FileText, BookOpen } from "lucide-react";
 import { useTranslation } from "react-i18next";
 
 const enhancedConcernFormSchema = z.object({
+  studentId: z.string().optional(), // An existing student record picked from the school's students
   studentFirstName: z.string().optional(),
   studentLastInitial: z.string().optional(),
   grade: z.string().optional(),
@@ -100,6 +105,16 @@ const enhancedConcernFormSchema = z.object({
 
 type EnhancedConcernFormData = z.infer<typeof enhancedConcernFormSchema>;
 
+// allowDuplicate confirms the teacher wants a new request even though a near-identical one was just submitted
+type ConcernSubmission = EnhancedConcernFormData & { allowDuplicate?: boolean };
+
+// Plan sections received so far while recommendations stream in
+interface StreamingPlan {
+  notices: string[];
+  overview: string;
+  strategies: { title: string; description: string; steps: string[]; timeline: string }[];
+}
+
 interface ConcernFormProps {
   onConcernSubmitted?: (concern: Concern, interventions: Intervention[], recommendations?: string, disclaimer?: string) => void;
 }
@@ -212,11 +227,14 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
   const [showOtherConcern, setShowOtherConcern] = useState(false);
   const [showOtherAction, setShowOtherAction] = useState(false);
   const [showDifferentiation, setShowDifferentiation] = useState(false);
+  const [streamingPlan, setStreamingPlan] = useState<StreamingPlan | null>(null);
   const [customDisabilityText, setCustomDisabilityText] = useState("");
+  const [nearDuplicate, setNearDuplicate] = useState<{ match: NearDuplicate; submission: ConcernSubmission } | null>(null);
 
   const form = useForm<EnhancedConcernFormData>({
     resolver: zodResolver(enhancedConcernFormSchema),
     defaultValues: {
+      studentId: "",
       studentFirstName: "",
       studentLastInitial: "",
       grade: "",
@@ -244,21 +262,84 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
     },
   });
 
+  // Students already on record at the teacher's school, so new concerns join the same timeline
+  const { data: students = [] } = useQuery<Student[]>({
+    queryKey: ["/api/students"],
+  });
+  const selectedStudentId = form.watch('studentId');
+
+  const pickStudent = (studentId: string) => {
+    const student = students.find(candidate => candidate.id === studentId);
+    if (!student) {
+      form.setValue('studentId', "");
+      return;
+    }
+    form.setValue('studentId', student.id);
+    form.setValue('studentFirstName', student.firstName, { shouldValidate: true });
+    form.setValue('studentLastInitial', student.lastInitial, { shouldValidate: true });
+    if (student.currentGrade) form.setValue('grade', student.currentGrade, { shouldValidate: true });
+    form.setValue('hasIep', !!student.hasIep);
+    form.setValue('isEalLearner', !!student.isEalLearner);
+    form.setValue('isGifted', !!student.isGifted);
+    form.setValue('hasDisability', !!student.hasDisability);
+    if (student.disabilityType) form.setValue('disabilityType', student.disabilityType);
+  };
+
   const createConcernMutation = useMutation({
-    mutationFn: async (data: EnhancedConcernFormData) => {
-      // Debug: Log what data is being sent to the backend
-      // Submitting concern data to generate AI recommendations
-      const response = await apiRequest("POST", "/api/concerns", data);
-      return response;
+    // A retry would create a second concern, so failures are surfaced instead
+    retry: false,
+    mutationFn: async (data: ConcernSubmission) => {
+      // Create the concern first, then stream its recommendations so strategies appear as they are written
+      const created = await apiRequest("POST", "/api/concerns", { ...data, streamRecommendations: true });
+      setStreamingPlan({ notices: [], overview: "", strategies: [] });
+
+      const outcome: { result?: any; error?: string } = {};
+      await postEventStream("/api/concerns/generate-recommendations", { concernId: created.concern.id }, (event, payload) => {
+        if (event === "notice") {
+          setStreamingPlan(plan => plan && { ...plan, notices: [...plan.notices, payload.content] });
+        } else if (event === "overview") {
+          setStreamingPlan(plan => plan && { ...plan, overview: payload.content });
+        } else if (event === "strategy") {
+          setStreamingPlan(plan => plan && { ...plan, strategies: [...plan.strategies, payload.strategy] });
+        } else if (event === "done") {
+          outcome.result = payload;
+        } else if (event === "error") {
+          outcome.error = payload.message;
+        }
+      });
+
+      if (!outcome.result) {
+        throw new Error(outcome.error || "The recommendation stream ended unexpectedly. Your concern was saved - please try again from My Support Requests.");
+      }
+      return {
+        concern: outcome.result.concern || created.concern,
+        interventions: outcome.result.interventions || [],
+        recommendations: outcome.result.recommendations,
+        disclaimer: outcome.result.disclaimer,
+        cached: Boolean(outcome.result.cached),
+        fallbackReason: outcome.result.fallbackReason || null,
+      };
     },
-    onSuccess: (data: { concern: Concern; interventions: Intervention[]; recommendations?: string; disclaimer?: string }) => {
+    onSuccess: (data: { concern: Concern; interventions: Intervention[]; recommendations?: string; disclaimer?: string; cached: boolean; fallbackReason: string | null }) => {
       const taskTypeLabel = form.getValues('taskType') === 'differentiation' ? 'differentiation strategies' : 'intervention recommendations';
-      toast({
-        title: "Success!",
-        description: `Generated AI-powered ${taskTypeLabel}`,
-      });
+      if (data.fallbackReason) {
+        // Template content must never look like a personalized plan
+        toast({
+          title: t('form.fallbackTitle', 'General strategies only'),
+          description: `${t(`aiFallback.${data.fallbackReason}`, getFallbackCause(data.fallbackReason))} ${t('form.fallbackDesc', 'These are general example strategies, not a plan written for this student, and did not use one of your monthly requests.')}`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Success!",
+          description: data.cached
+            ? t('form.cachedRecommendations', 'These recommendations match an identical request you made earlier, so this did not use one of your monthly requests.')
+            : `Generated AI-powered ${taskTypeLabel}`,
+        });
+      }
       
       // Reset form
+      setStreamingPlan(null);
       form.reset();
       setShowOtherConcern(false);
       setShowOtherAction(false);
@@ -266,11 +347,18 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
       
       // Invalidate concerns cache to refresh the recent concerns list
       queryClient.invalidateQueries({ queryKey: ["/api/concerns"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
       
       // Call the callback with the new concern and interventions
       onConcernSubmitted?.(data.concern, data.interventions, data.recommendations, data.disclaimer);
     },
-    onError: (error: Error) => {
+    onError: (error: Error, submission: ConcernSubmission) => {
+      setStreamingPlan(null);
+      const match = getNearDuplicate(error);
+      if (match) {
+        setNearDuplicate({ match, submission });
+        return;
+      }
       if (isUnauthorizedError(error)) {
         toast({
           title: "Unauthorized",
@@ -300,6 +388,22 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
     },
   });
 
+  // Shows the results of the earlier, near-identical concern instead of generating new ones
+  const viewPreviousConcern = async (concernId: string) => {
+    setNearDuplicate(null);
+    try {
+      const { interventions, ...concern } = await apiRequest(`/api/concerns/${concernId}`);
+      form.reset();
+      onConcernSubmitted?.(concern, interventions || []);
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to load the earlier request",
+        variant: "destructive",
+      });
+    }
+  };
+
   const onSubmit = (data: EnhancedConcernFormData) => {
     // Show user-friendly validation message if there are errors
     if (Object.keys(form.formState.errors).length > 0) {
@@ -418,6 +522,25 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
                 <User className="h-4 w-4 sm:h-5 sm:w-5 text-brand-blue flex-shrink-0" />
                 <h3 className="text-base sm:text-lg font-medium text-gray-900">{t('form.studentInformation', 'Student Information')}</h3>
               </div>
+
+              {students.length > 0 && (
+                <div className="mb-3 sm:mb-4">
+                  <label className="text-sm font-medium leading-none">{t('form.existingStudent', 'Existing student')}</label>
+                  <Select value={selectedStudentId || "new"} onValueChange={(value) => pickStudent(value === "new" ? "" : value)} disabled={isAtLimit}>
+                    <SelectTrigger className="mt-2" data-testid="select-existing-student">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="new">{t('form.newStudent', 'New student / match by name')}</SelectItem>
+                      {students.map(student => (
+                        <SelectItem key={student.id} value={student.id}>
+                          {student.firstName} {student.lastInitial}.{student.currentGrade ? ` (${t('form.grade', 'Grade')} ${student.currentGrade})` : ''}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
               
               <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 sm:gap-4">
                 <FormField
@@ -429,7 +552,7 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
                         {t('form.firstName', 'First Name')} <span className="text-red-500">*</span>
                       </FormLabel>
                       <FormControl>
-                        <Input placeholder={t('form.firstNamePlaceholder', 'Enter first name')} {...field} disabled={isAtLimit} />
+                        <Input placeholder={t('form.firstNamePlaceholder', 'Enter first name')} {...field} disabled={isAtLimit || !!selectedStudentId} />
                       </FormControl>
                       <FormMessage />
                     </FormItem>
@@ -451,7 +574,7 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
                           className="uppercase"
                           onChange={(e) => field.onChange(e.target.value.toUpperCase())}
                           value={field.value}
-                          disabled={isAtLimit}
+                          disabled={isAtLimit || !!selectedStudentId}
                         />
                       </FormControl>
                       <FormMessage />
@@ -1239,6 +1362,41 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
             </>
             )}
             
+            {/* Live preview while recommendations stream in */}
+            {createConcernMutation.isPending && streamingPlan && (
+              <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 space-y-3" data-testid="streaming-recommendations">
+                {streamingPlan.notices.map((notice, index) => (
+                  <div key={index} className="bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-800 whitespace-pre-wrap">
+                    {notice.replace(/\*\*/g, '').replace(/^#+\s*/gm, '')}
+                  </div>
+                ))}
+                {streamingPlan.overview && (
+                  <p className="text-sm text-gray-700 whitespace-pre-wrap line-clamp-6">
+                    {streamingPlan.overview.replace(/\*\*/g, '').replace(/^#+\s*/gm, '')}
+                  </p>
+                )}
+                {streamingPlan.strategies.map((strategy, index) => (
+                  <div key={index} className="bg-white border-l-4 border-l-blue-500 rounded-lg p-3" data-testid={`streaming-strategy-${index}`}>
+                    <div className="flex items-center justify-between gap-2 mb-1">
+                      <h4 className="font-semibold text-gray-900 text-sm sm:text-base">{strategy.title}</h4>
+                      <Badge variant="outline" className="text-xs whitespace-nowrap">{strategy.timeline}</Badge>
+                    </div>
+                    <ol className="list-decimal list-inside space-y-1 text-sm text-gray-700">
+                      {strategy.steps.map((step, stepIndex) => (
+                        <li key={stepIndex}>{step}</li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+                <div className="flex items-center text-sm text-blue-700">
+                  <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600 mr-2"></div>
+                  {streamingPlan.strategies.length === 0
+                    ? t('form.streamingStarting', 'Analyzing the concern...')
+                    : t('form.streamingMore', 'Writing more strategies...')}
+                </div>
+              </div>
+            )}
+
             {/* Submit Button - Only show after task type is selected */}
             {form.watch('taskType') && (
               <div className="flex justify-center sm:justify-end pt-4 sm:pt-6">
@@ -1273,6 +1431,36 @@ export default function ConcernForm({ onConcernSubmitted }: ConcernFormProps) {
             )}
           </form>
         </Form>
+
+        <AlertDialog open={!!nearDuplicate} onOpenChange={(open) => !open && setNearDuplicate(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>{t('form.nearDuplicateTitle', 'Similar request found')}</AlertDialogTitle>
+              <AlertDialogDescription>
+                {t('form.nearDuplicateDescription', 'You submitted a very similar concern for {{student}} {{minutes}} minute(s) ago. You can view those recommendations instead of using another request.', {
+                  student: [nearDuplicate?.match.studentFirstName, nearDuplicate?.match.studentLastInitial].filter(Boolean).join(' '),
+                  minutes: nearDuplicate?.match.minutesAgo ?? 0,
+                })}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel data-testid="button-near-duplicate-cancel">{t('form.keepEditing', 'Keep editing')}</AlertDialogCancel>
+              <AlertDialogAction
+                className="bg-white text-gray-900 border border-gray-300 hover:bg-gray-50"
+                onClick={() => nearDuplicate && createConcernMutation.mutate({ ...nearDuplicate.submission, allowDuplicate: true })}
+                data-testid="button-near-duplicate-submit-anyway"
+              >
+                {t('form.submitAnyway', 'Submit as new request')}
+              </AlertDialogAction>
+              <AlertDialogAction
+                onClick={() => nearDuplicate?.match.concernId && viewPreviousConcern(nearDuplicate.match.concernId)}
+                data-testid="button-near-duplicate-view-previous"
+              >
+                {t('form.viewPreviousRequest', 'View earlier recommendations')}
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
       </CardContent>
     </Card>
   );
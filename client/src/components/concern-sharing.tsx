@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { UserMinus, UserPlus } from "lucide-react";
+import {
+  CONCERN_SHARE_ACCESS,
+  CONCERN_SHARE_ROLES,
+  type ConcernCollaborator,
+  type ConcernShareAccess,
+  type ConcernShareRole,
+  type User,
+} from "@shared/schema";
+
+interface ConcernSharingProps {
+  concernId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Colleague = Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'teacherType'>;
+
+export const SHARE_ROLE_LABELS: Record<ConcernShareRole, string> = {
+  counselor: "Counselor",
+  senco: "SENCO",
+  co_teacher: "Co-teacher",
+  specialist: "Specialist",
+  administrator: "Administrator",
+};
+
+export const SHARE_ACCESS_LABELS: Record<ConcernShareAccess | 'owner', string> = {
+  owner: "Owner",
+  view: "Can view",
+  contribute: "Can comment",
+};
+
+// The owner's access list for a concern: share it with colleagues at their school or revoke access
+export default function ConcernSharing({ concernId, open, onOpenChange }: ConcernSharingProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<ConcernShareRole>("co_teacher");
+  const [access, setAccess] = useState<ConcernShareAccess>("view");
+  const collaboratorsKey = ["/api/concerns", concernId, "collaborators"];
+
+  const { data: collaborators = [] } = useQuery<ConcernCollaborator[]>({
+    queryKey: collaboratorsKey,
+    enabled: open,
+  });
+
+  const search = email.trim();
+  const { data: colleagues = [] } = useQuery<Colleague[]>({
+    queryKey: [`/api/colleagues?${new URLSearchParams({ search }).toString()}`],
+    enabled: open && search.length >= 2,
+  });
+  const suggestions = colleagues.filter(colleague =>
+    colleague.email.toLowerCase() !== search.toLowerCase() &&
+    !collaborators.some(collaborator => collaborator.userId === colleague.id)
+  );
+
+  const onError = (error: any) => {
+    toast({
+      title: t('sharing.failed', 'Something went wrong'),
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/concerns/${concernId}/shares`, { email: search, role, access }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: collaboratorsKey });
+      setEmail("");
+      toast({ title: t('sharing.shared', 'Concern shared'), description: t('sharing.sharedDesc', 'Your colleague has been notified.') });
+    },
+    onError,
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (shareId: string) => apiRequest("DELETE", `/api/concerns/${concernId}/shares/${shareId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: collaboratorsKey });
+      toast({ title: t('sharing.revoked', 'Access revoked') });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('sharing.title', 'Share with Colleagues')}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-600">
+          {t('sharing.desc', 'Give a counselor, SENCO or co-teacher at your school access to this concern. Colleagues who can comment can also reply to and @mention others in the comment threads.')}
+        </p>
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="share-email">{t('sharing.email', 'Colleague email')}</Label>
+            <Input
+              id="share-email"
+              type="email"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              placeholder="colleague@school.edu"
+              data-testid="input-share-email"
+            />
+            {suggestions.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {suggestions.map(colleague => (
+                  <Button
+                    key={colleague.id}
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setEmail(colleague.email)}
+                    data-testid={`button-colleague-${colleague.id}`}
+                  >
+                    {[colleague.firstName, colleague.lastName].filter(Boolean).join(' ') || colleague.email}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Select value={role} onValueChange={value => setRole(value as ConcernShareRole)}>
+              <SelectTrigger data-testid="select-share-role"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CONCERN_SHARE_ROLES.map(option => (
+                  <SelectItem key={option} value={option}>{t(`sharing.role.${option}`, SHARE_ROLE_LABELS[option])}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={access} onValueChange={value => setAccess(value as ConcernShareAccess)}>
+              <SelectTrigger data-testid="select-share-access"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CONCERN_SHARE_ACCESS.map(option => (
+                  <SelectItem key={option} value={option}>{t(`sharing.access.${option}`, SHARE_ACCESS_LABELS[option])}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={() => shareMutation.mutate()} disabled={!search || shareMutation.isPending} data-testid="button-share-concern">
+              <UserPlus className="h-4 w-4 mr-2" />
+              {shareMutation.isPending ? t('sharing.sharing', 'Sharing...') : t('sharing.share', 'Share')}
+            </Button>
+          </div>
+        </div>
+
+        <div className="border-t pt-3">
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">{t('sharing.accessList', 'Who has access')}</h4>
+          <ul className="space-y-2">
+            {collaborators.map(collaborator => (
+              <li key={collaborator.userId} className="flex items-center justify-between gap-2" data-testid={`collaborator-${collaborator.userId}`}>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{collaborator.name}</p>
+                  <p className="text-xs text-gray-500 truncate">{collaborator.email}</p>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {collaborator.role && (
+                    <Badge variant="outline">{t(`sharing.role.${collaborator.role}`, SHARE_ROLE_LABELS[collaborator.role])}</Badge>
+                  )}
+                  <Badge className={collaborator.access === 'owner' ? "bg-purple-100 text-purple-800" : "bg-blue-100 text-blue-800"}>
+                    {t(`sharing.access.${collaborator.access}`, SHARE_ACCESS_LABELS[collaborator.access])}
+                  </Badge>
+                  {collaborator.shareId && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => revokeMutation.mutate(collaborator.shareId!)}
+                      disabled={revokeMutation.isPending}
+                      title={t('sharing.revoke', 'Revoke access')}
+                      data-testid={`button-revoke-${collaborator.userId}`}
+                    >
+                      <UserMinus className="h-4 w-4 text-red-600" />
+                    </Button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,145 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ClipboardCheck } from "lucide-react";
+import { ResponsiveContainer, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip } from "recharts";
+import { FIDELITY_FREQUENCIES, type FidelityFrequency, type FidelitySummary } from "@shared/schema";
+
+interface FidelityChecklistProps {
+  interventionId: string;
+  readOnly?: boolean; // Colleagues the concern is shared with see the checklist but can't tick it
+}
+
+const OUTCOME_STYLES: Record<string, string> = {
+  positive: "bg-green-100 text-green-800",
+  mixed: "bg-yellow-100 text-yellow-800",
+  needs_adjustment: "bg-orange-100 text-orange-800",
+  no_change: "bg-gray-100 text-gray-700",
+};
+
+const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString();
+
+export default function FidelityChecklist({ interventionId, readOnly = false }: FidelityChecklistProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fidelityKey = ["/api/interventions", interventionId, "fidelity"];
+
+  const { data: fidelity, isError } = useQuery<FidelitySummary>({
+    queryKey: fidelityKey,
+    retry: false,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: t('fidelity.failed', 'Something went wrong'),
+      description: error.message || t('fidelity.failedDesc', 'Failed to update the checklist'),
+      variant: "destructive",
+    });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: async (completedSteps: number[]) => apiRequest("PUT", `/api/interventions/${interventionId}/fidelity`, {
+      periodStart: fidelity!.currentPeriodStart,
+      completedSteps,
+    }),
+    onSuccess: (summary: FidelitySummary) => queryClient.setQueryData(fidelityKey, summary),
+    onError,
+  });
+
+  const frequencyMutation = useMutation({
+    mutationFn: async (frequency: FidelityFrequency) => apiRequest("PUT", `/api/interventions/${interventionId}/fidelity-frequency`, { frequency }),
+    onSuccess: (summary: FidelitySummary) => queryClient.setQueryData(fidelityKey, summary),
+    onError,
+  });
+
+  // Only saved interventions on concerns the teacher owns or that are shared with them have a checklist
+  if (isError || !fidelity || fidelity.steps.length === 0) return null;
+
+  const completed = fidelity.current?.completedSteps || [];
+  const toggleStep = (index: number, checked: boolean) => {
+    recordMutation.mutate(checked ? [...completed, index] : completed.filter(step => step !== index));
+  };
+
+  const currentPercent = Math.round(completed.length / fidelity.steps.length * 100);
+  const periodLabel = fidelity.frequency === 'daily'
+    ? t('fidelity.today', 'Today')
+    : t('fidelity.weekOf', 'Week of {{date}}', { date: formatDay(fidelity.currentPeriodStart) });
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 border border-slate-200 mb-4 md:mb-6" data-testid={`fidelity-checklist-${interventionId}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h4 className="text-sm md:text-base font-semibold text-slate-900 flex items-center">
+          <ClipboardCheck className="h-4 w-4 mr-2" />
+          {t('fidelity.title', 'Implementation Checklist')}
+        </h4>
+        <div className="flex items-center gap-2">
+          {fidelity.averagePercent !== null && (
+            <Badge variant="outline" data-testid={`badge-fidelity-average-${interventionId}`}>
+              {t('fidelity.average', '{{percent}}% average fidelity', { percent: fidelity.averagePercent })}
+            </Badge>
+          )}
+          <Select value={fidelity.frequency} onValueChange={value => frequencyMutation.mutate(value as FidelityFrequency)} disabled={readOnly}>
+            <SelectTrigger className="h-8 w-28" data-testid={`select-fidelity-frequency-${interventionId}`}><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {FIDELITY_FREQUENCIES.map(frequency => (
+                <SelectItem key={frequency} value={frequency}>
+                  {frequency === 'daily' ? t('fidelity.daily', 'Daily') : t('fidelity.weekly', 'Weekly')}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-slate-600 mb-2">
+        {periodLabel} · {t('fidelity.current', '{{done}} of {{total}} steps carried out ({{percent}}%)', { done: completed.length, total: fidelity.steps.length, percent: currentPercent })}
+      </p>
+      <ul className="space-y-2 mb-3">
+        {fidelity.steps.map((step, index) => (
+          <li key={index}>
+            <label className="flex items-start gap-2 text-sm text-slate-800">
+              <Checkbox
+                checked={completed.includes(index)}
+                onCheckedChange={checked => toggleStep(index, checked === true)}
+                disabled={readOnly || recordMutation.isPending}
+                className="mt-0.5"
+                data-testid={`checkbox-fidelity-step-${interventionId}-${index}`}
+              />
+              <span>{step}</span>
+            </label>
+          </li>
+        ))}
+      </ul>
+
+      {fidelity.history.length > 1 && (
+        <div className="h-40" data-testid={`chart-fidelity-${interventionId}`}>
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={fidelity.history} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="periodStart" tickFormatter={formatDay} fontSize={12} />
+              <YAxis domain={[0, 100]} unit="%" fontSize={12} />
+              <Tooltip labelFormatter={(day: string) => formatDay(day)} formatter={(value: number) => [`${value}%`, t('fidelity.fidelity', 'Fidelity')]} />
+              <Line dataKey="percent" stroke="#2563eb" isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {fidelity.outcomes.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1 mt-2 text-xs text-slate-600">
+          <span>{t('fidelity.outcomes', 'Progress note outcomes')}:</span>
+          {fidelity.outcomes.map(outcome => (
+            <Badge key={outcome.date} className={`text-xs ${OUTCOME_STYLES[outcome.outcome] || ''}`}>
+              {new Date(outcome.date).toLocaleDateString()} · {t(`effectiveness.outcome.${outcome.outcome}`, outcome.outcome.replace('_', ' '))}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
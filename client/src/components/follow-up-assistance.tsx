@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { postEventStream } from "@/lib/eventStream";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
@@ -8,6 +8,7 @@ import { Label } from "@/components/ui/label";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { HelpCircle, Sparkles, Send } from "lucide-react";
 import type { Concern, Intervention } from "@shared/schema";
+import { getFallbackCause } from "@/lib/aiFallback";
 
 interface FollowUpAssistanceProps {
   concern: Concern;
@@ -24,6 +25,7 @@ export default function FollowUpAssistance({
   const [question, setQuestion] = useState("");
   const [assistance, setAssistance] = useState("");
   const [disclaimer, setDisclaimer] = useState("");
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [hasAsked, setHasAsked] = useState(false);
 
@@ -38,9 +40,14 @@ export default function FollowUpAssistance({
     }
 
     setIsLoading(true);
+    setAssistance("");
+    setDisclaimer("");
+    setFallbackReason(null);
     
     try {
-      const data = await apiRequest("POST", "/api/ai/follow-up-assistance", {
+      // Guidance is streamed, so switch to the answer view as soon as the first text arrives
+      const outcome: { data?: { assistance: string; disclaimer: string; fallbackReason?: string }; error?: string } = {};
+      await postEventStream("/api/ai/follow-up-assistance", {
         originalRecommendations: recommendations || interventions.map(i => i.description).join('\n\n'),
         specificQuestion: question,
         studentFirstName: concern.studentFirstName,
@@ -48,20 +55,34 @@ export default function FollowUpAssistance({
         grade: concern.grade || "Elementary",
         concernTypes: Array.isArray(concern.concernTypes) ? concern.concernTypes : [concern.concernType || "Academic"],
         severityLevel: concern.severityLevel || "moderate"
+      }, (event, payload) => {
+        if (event === "delta") {
+          setAssistance(current => current + payload.content);
+          setHasAsked(true);
+        } else if (event === "done") {
+          outcome.data = payload;
+        } else if (event === "error") {
+          outcome.error = payload.message;
+        }
       });
 
-      if (data) {
-        setAssistance(data.assistance);
-        setDisclaimer(data.disclaimer);
-        setHasAsked(true);
-        setQuestion(""); // Clear the question field
-        
-        toast({
-          title: "Follow-up Assistance Generated!",
-          description: "Your question has been answered with practical guidance.",
-        });
+      if (!outcome.data) {
+        throw new Error(outcome.error || "Failed to get follow-up assistance");
       }
+
+      // The final text is authoritative (it includes any safety alert and replaces a partial stream)
+      setAssistance(outcome.data.assistance);
+      setDisclaimer(outcome.data.disclaimer);
+      setFallbackReason(outcome.data.fallbackReason || null);
+      setHasAsked(true);
+      setQuestion(""); // Clear the question field
+      
+      toast({
+        title: "Follow-up Assistance Generated!",
+        description: "Your question has been answered with practical guidance.",
+      });
     } catch (error: any) {
+      setHasAsked(false);
       console.error("Error getting follow-up assistance:", error);
       toast({
         title: "Error",
@@ -146,9 +167,23 @@ export default function FollowUpAssistance({
                 <pre className="whitespace-pre-wrap font-sans text-sm leading-relaxed">
                   {assistance}
                 </pre>
+                {isLoading && (
+                  <div className="flex items-center text-sm text-green-700 mt-3" data-testid="follow-up-streaming">
+                    <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-green-600 mr-2"></div>
+                    Writing guidance...
+                  </div>
+                )}
               </div>
             </div>
             
+            {fallbackReason && (
+              <Alert className="border-amber-300 bg-amber-50" data-testid="notice-fallback-guidance">
+                <AlertDescription className="text-amber-900 text-sm">
+                  {getFallbackCause(fallbackReason)} This is general implementation guidance, not an answer written for your question - please ask again later.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Disclaimer */}
             {disclaimer && (
               <Alert className="border-amber-200 bg-amber-50">
@@ -164,6 +199,7 @@ export default function FollowUpAssistance({
                 onClick={handleNewQuestion} 
                 variant="outline"
                 className="flex-1"
+                disabled={isLoading}
               >
                 <HelpCircle className="h-4 w-4 mr-2" />
                 Ask Another Question
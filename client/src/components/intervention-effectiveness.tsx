@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { PROGRESS_NOTE_OUTCOMES, type InterventionEffectivenessReport, type ProgressNoteOutcome } from "@shared/schema";
+
+type Dimension = 'byStrategy' | 'byConcernType' | 'byGradeBand' | 'bySeverity';
+
+const OUTCOME_COLORS: Record<ProgressNoteOutcome, string> = {
+  positive: "bg-green-500",
+  mixed: "bg-yellow-400",
+  needs_adjustment: "bg-orange-500",
+  no_change: "bg-gray-400",
+};
+
+const OUTCOME_LABELS: Record<ProgressNoteOutcome, string> = {
+  positive: "Positive",
+  mixed: "Mixed",
+  needs_adjustment: "Needs adjustment",
+  no_change: "No change",
+};
+
+// Only the most-used strategies are listed
+const STRATEGY_LIMIT = 25;
+
+export default function InterventionEffectiveness() {
+  const { t } = useTranslation();
+  const [dimension, setDimension] = useState<Dimension>('byStrategy');
+  const { data, isLoading } = useQuery<InterventionEffectivenessReport>({
+    queryKey: ["/api/admin/intervention-effectiveness"],
+  });
+
+  const groups = data ? data[dimension].slice(0, dimension === 'byStrategy' ? STRATEGY_LIMIT : undefined) : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle>{t('effectiveness.title', 'Intervention Effectiveness')}</CardTitle>
+          <Select value={dimension} onValueChange={value => setDimension(value as Dimension)}>
+            <SelectTrigger className="w-48" data-testid="select-effectiveness-dimension"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value="byStrategy">{t('effectiveness.byStrategy', 'By strategy')}</SelectItem>
+              <SelectItem value="byConcernType">{t('effectiveness.byConcernType', 'By concern type')}</SelectItem>
+              <SelectItem value="byGradeBand">{t('effectiveness.byGradeBand', 'By grade band')}</SelectItem>
+              <SelectItem value="bySeverity">{t('effectiveness.bySeverity', 'By severity')}</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-sm text-gray-600">
+          {t('effectiveness.desc', 'Each intervention counts once, using the outcome of its latest progress note. Success rate counts positive outcomes fully and mixed outcomes as half. Strategies that work well here are ranked higher in new recommendations.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <p className="text-gray-500">{t('common.loading', 'Loading...')}</p>
+        ) : !data || data.totalInterventions === 0 ? (
+          <p className="text-gray-500" data-testid="text-no-outcomes">{t('effectiveness.empty', 'No progress note outcomes recorded yet.')}</p>
+        ) : (
+          <>
+            <div className="flex flex-wrap gap-4 text-sm">
+              <span data-testid="text-effectiveness-total">
+                {t('effectiveness.total', '{{count}} interventions with outcomes', { count: data.totalInterventions })}
+              </span>
+              <span className="font-medium" data-testid="text-effectiveness-overall">
+                {t('effectiveness.overall', '{{rate}}% overall success', { rate: Math.round(data.overall.successRate * 100) })}
+              </span>
+              {PROGRESS_NOTE_OUTCOMES.map(outcome => (
+                <span key={outcome} className="flex items-center gap-1 text-gray-600">
+                  <span className={`inline-block h-3 w-3 rounded-sm ${OUTCOME_COLORS[outcome]}`} />
+                  {t(`effectiveness.outcome.${outcome}`, OUTCOME_LABELS[outcome])}
+                </span>
+              ))}
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('effectiveness.group', 'Group')}</TableHead>
+                  <TableHead>{t('effectiveness.interventions', 'Interventions')}</TableHead>
+                  <TableHead className="w-1/3">{t('effectiveness.outcomes', 'Outcomes')}</TableHead>
+                  <TableHead>{t('effectiveness.successRate', 'Success rate')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {groups.map(group => (
+                  <TableRow key={group.key} data-testid={`row-effectiveness-${group.key}`}>
+                    <TableCell className="font-medium">{group.label}</TableCell>
+                    <TableCell>{group.interventions}</TableCell>
+                    <TableCell>
+                      <div className="flex h-3 w-full overflow-hidden rounded bg-gray-100">
+                        {PROGRESS_NOTE_OUTCOMES.map(outcome => group.outcomes[outcome] > 0 && (
+                          <div
+                            key={outcome}
+                            className={OUTCOME_COLORS[outcome]}
+                            style={{ width: `${(group.outcomes[outcome] / group.interventions) * 100}%` }}
+                            title={`${t(`effectiveness.outcome.${outcome}`, OUTCOME_LABELS[outcome])}: ${group.outcomes[outcome]}`}
+                          />
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>{Math.round(group.successRate * 100)}%</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,279 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Plus, Target, Trash2, AlertTriangle } from "lucide-react";
+import {
+  ResponsiveContainer,
+  ComposedChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+} from "recharts";
+import type { GoalProgressStatus, InterventionGoalWithProgress } from "@shared/schema";
+
+interface InterventionGoalsProps {
+  interventionId: string;
+  readOnly?: boolean; // Colleagues the concern is shared with see the goals but can't set them or log data
+}
+
+const STATUS_STYLES: Record<GoalProgressStatus, string> = {
+  insufficient_data: "bg-gray-100 text-gray-700",
+  on_track: "bg-green-100 text-green-800",
+  not_on_track: "bg-red-100 text-red-800",
+  goal_met: "bg-blue-100 text-blue-800",
+};
+
+const today = () => new Date().toISOString().slice(0, 10);
+const formatDay = (time: number) => new Date(time).toLocaleDateString();
+
+function GoalChart({ goal }: { goal: InterventionGoalWithProgress }) {
+  const { t } = useTranslation();
+  const toSeries = (points: { at: string | Date; value: number }[]) =>
+    points.map(point => ({ time: new Date(point.at).getTime(), value: point.value }));
+
+  return (
+    <div className="h-56" data-testid={`chart-goal-${goal.id}`}>
+      <ResponsiveContainer width="100%" height="100%">
+        <ComposedChart margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+          <CartesianGrid strokeDasharray="3 3" />
+          <XAxis dataKey="time" type="number" scale="time" domain={["dataMin", "dataMax"]} tickFormatter={formatDay} fontSize={12} />
+          <YAxis dataKey="value" fontSize={12} />
+          <Tooltip labelFormatter={(time: number) => formatDay(time)} />
+          <Legend />
+          <Line data={toSeries(goal.progress.aimLine)} dataKey="value" name={t('goals.aimLine', 'Aim line')} stroke="#16a34a" strokeDasharray="6 4" dot={false} isAnimationActive={false} />
+          {goal.progress.trendLine && (
+            <Line data={toSeries(goal.progress.trendLine)} dataKey="value" name={t('goals.trendLine', 'Trend')} stroke="#f59e0b" dot={false} isAnimationActive={false} />
+          )}
+          <Line data={toSeries(goal.dataPoints.map(point => ({ at: point.measuredAt, value: point.value })))} dataKey="value" name={goal.metric} stroke="#2563eb" isAnimationActive={false} />
+        </ComposedChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
+
+export default function InterventionGoals({ interventionId, readOnly = false }: InterventionGoalsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const goalsKey = ["/api/interventions", interventionId, "goals"];
+
+  const [showGoalForm, setShowGoalForm] = useState(false);
+  const [goalForm, setGoalForm] = useState({ metric: "", unit: "", baseline: "", target: "", targetDate: "" });
+  const [pointForms, setPointForms] = useState<Record<string, { value: string; measuredAt: string }>>({});
+
+  const { data: goals = [], isError } = useQuery<InterventionGoalWithProgress[]>({
+    queryKey: goalsKey,
+    retry: false,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: goalsKey });
+
+  const onError = (error: any) => {
+    toast({
+      title: t('goals.failed', 'Something went wrong'),
+      description: error.message || t('goals.failedDesc', 'Failed to update the goal'),
+      variant: "destructive",
+    });
+  };
+
+  const createGoalMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/interventions/${interventionId}/goals`, {
+      metric: goalForm.metric,
+      unit: goalForm.unit || null,
+      baseline: Number(goalForm.baseline),
+      target: Number(goalForm.target),
+      targetDate: goalForm.targetDate,
+    }),
+    onSuccess: () => {
+      setShowGoalForm(false);
+      setGoalForm({ metric: "", unit: "", baseline: "", target: "", targetDate: "" });
+      toast({ title: t('goals.created', 'Goal added') });
+      refresh();
+    },
+    onError,
+  });
+
+  const deleteGoalMutation = useMutation({
+    mutationFn: async (goalId: string) => apiRequest("DELETE", `/api/intervention-goals/${goalId}`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  const addPointMutation = useMutation({
+    mutationFn: async ({ goalId, value, measuredAt }: { goalId: string; value: string; measuredAt: string }) =>
+      apiRequest("POST", `/api/intervention-goals/${goalId}/data-points`, {
+        value: Number(value),
+        measuredAt: measuredAt || undefined,
+      }),
+    onSuccess: (goal: InterventionGoalWithProgress) => {
+      setPointForms(forms => ({ ...forms, [goal.id]: { value: "", measuredAt: today() } }));
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/check-ins"] });
+    },
+    onError,
+  });
+
+  const deletePointMutation = useMutation({
+    mutationFn: async ({ goalId, pointId }: { goalId: string; pointId: string }) =>
+      apiRequest("DELETE", `/api/intervention-goals/${goalId}/data-points/${pointId}`),
+    onSuccess: refresh,
+    onError,
+  });
+
+  // Hidden from teachers the concern isn't shared with
+  if (isError || (readOnly && goals.length === 0)) return null;
+
+  const statusLabel = (status: GoalProgressStatus) => ({
+    insufficient_data: t('goals.insufficientData', 'Not enough data'),
+    on_track: t('goals.onTrack', 'On track'),
+    not_on_track: t('goals.notOnTrack', 'Not on track'),
+    goal_met: t('goals.goalMet', 'Goal met'),
+  })[status];
+
+  const goalFormValid = goalForm.metric.trim() && goalForm.baseline !== "" && goalForm.target !== "" && goalForm.targetDate;
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 border border-slate-200 mb-4 md:mb-6" data-testid={`intervention-goals-${interventionId}`}>
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm md:text-base font-semibold text-slate-900 flex items-center">
+          <Target className="h-4 w-4 mr-2" />
+          {t('goals.title', 'Measurable Goals')}
+        </h4>
+        {!showGoalForm && !readOnly && (
+          <Button size="sm" variant="outline" onClick={() => setShowGoalForm(true)} data-testid={`button-add-goal-${interventionId}`}>
+            <Plus className="h-4 w-4 mr-1" />
+            {t('goals.add', 'Add goal')}
+          </Button>
+        )}
+      </div>
+
+      {showGoalForm && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4 bg-white rounded-lg p-3 border">
+          <div className="md:col-span-2">
+            <Label htmlFor={`goal-metric-${interventionId}`}>{t('goals.metric', 'What will you measure?')}</Label>
+            <Input id={`goal-metric-${interventionId}`} placeholder={t('goals.metricPlaceholder', 'e.g. Words correct per minute')} value={goalForm.metric} onChange={e => setGoalForm({ ...goalForm, metric: e.target.value })} data-testid="input-goal-metric" />
+          </div>
+          <div>
+            <Label htmlFor={`goal-unit-${interventionId}`}>{t('goals.unit', 'Unit')}</Label>
+            <Input id={`goal-unit-${interventionId}`} placeholder={t('goals.unitPlaceholder', 'e.g. wcpm')} value={goalForm.unit} onChange={e => setGoalForm({ ...goalForm, unit: e.target.value })} data-testid="input-goal-unit" />
+          </div>
+          <div>
+            <Label htmlFor={`goal-baseline-${interventionId}`}>{t('goals.baseline', 'Baseline (today)')}</Label>
+            <Input id={`goal-baseline-${interventionId}`} type="number" step="any" value={goalForm.baseline} onChange={e => setGoalForm({ ...goalForm, baseline: e.target.value })} data-testid="input-goal-baseline" />
+          </div>
+          <div>
+            <Label htmlFor={`goal-target-${interventionId}`}>{t('goals.target', 'Target')}</Label>
+            <Input id={`goal-target-${interventionId}`} type="number" step="any" value={goalForm.target} onChange={e => setGoalForm({ ...goalForm, target: e.target.value })} data-testid="input-goal-target" />
+          </div>
+          <div>
+            <Label htmlFor={`goal-date-${interventionId}`}>{t('goals.targetDate', 'Target date')}</Label>
+            <Input id={`goal-date-${interventionId}`} type="date" min={today()} value={goalForm.targetDate} onChange={e => setGoalForm({ ...goalForm, targetDate: e.target.value })} data-testid="input-goal-target-date" />
+          </div>
+          <div className="md:col-span-3 flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setShowGoalForm(false)}>{t('common.cancel', 'Cancel')}</Button>
+            <Button size="sm" onClick={() => createGoalMutation.mutate()} disabled={!goalFormValid || createGoalMutation.isPending} data-testid="button-save-goal">
+              {createGoalMutation.isPending ? t('common.saving', 'Saving...') : t('goals.save', 'Save goal')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {goals.length === 0 && !showGoalForm && (
+        <p className="text-sm text-gray-600">
+          {t('goals.empty', 'Set a measurable goal with a baseline, target and date, then log data points to see whether the student is on track.')}
+        </p>
+      )}
+
+      <div className="space-y-4">
+        {goals.map(goal => {
+          const pointForm = pointForms[goal.id] || { value: "", measuredAt: today() };
+          return (
+            <div key={goal.id} className="bg-white rounded-lg p-3 border" data-testid={`goal-${goal.id}`}>
+              <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+                <div>
+                  <p className="font-medium text-gray-900">{goal.metric}</p>
+                  <p className="text-xs text-gray-500">
+                    {t('goals.summary', 'From {{baseline}} to {{target}} {{unit}} by {{date}}', {
+                      baseline: goal.baseline,
+                      target: goal.target,
+                      unit: goal.unit || '',
+                      date: new Date(goal.targetDate).toLocaleDateString(),
+                    })}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge className={STATUS_STYLES[goal.progress.status]} data-testid={`badge-goal-status-${goal.id}`}>
+                    {statusLabel(goal.progress.status)}
+                  </Badge>
+                  {!readOnly && (
+                    <Button size="sm" variant="ghost" onClick={() => deleteGoalMutation.mutate(goal.id)} disabled={deleteGoalMutation.isPending} data-testid={`button-delete-goal-${goal.id}`}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <p className={`text-sm mb-2 flex items-start ${goal.progress.status === 'not_on_track' ? 'text-red-700' : 'text-gray-600'}`}>
+                {goal.progress.status === 'not_on_track' && <AlertTriangle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />}
+                {goal.progress.explanation}
+              </p>
+
+              <GoalChart goal={goal} />
+
+              {goal.dataPoints.length > 0 && (
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {goal.dataPoints.map(point => (
+                    <Badge key={point.id} variant="outline" className="gap-1" data-testid={`goal-point-${point.id}`}>
+                      {new Date(point.measuredAt).toLocaleDateString()}: {point.value}
+                      {!readOnly && (
+                        <button
+                          type="button"
+                          className="ml-1 text-gray-400 hover:text-red-600"
+                          onClick={() => deletePointMutation.mutate({ goalId: goal.id, pointId: point.id })}
+                          aria-label={t('goals.deletePoint', 'Remove data point')}
+                        >
+                          ×
+                        </button>
+                      )}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {!readOnly && (
+                <div className="flex flex-wrap items-end gap-2 mt-3">
+                  <div>
+                    <Label htmlFor={`point-value-${goal.id}`} className="text-xs">{t('goals.value', 'Value')}</Label>
+                    <Input id={`point-value-${goal.id}`} type="number" step="any" className="w-28" value={pointForm.value} onChange={e => setPointForms({ ...pointForms, [goal.id]: { ...pointForm, value: e.target.value } })} data-testid={`input-point-value-${goal.id}`} />
+                  </div>
+                  <div>
+                    <Label htmlFor={`point-date-${goal.id}`} className="text-xs">{t('goals.measuredAt', 'Date')}</Label>
+                    <Input id={`point-date-${goal.id}`} type="date" max={today()} className="w-40" value={pointForm.measuredAt} onChange={e => setPointForms({ ...pointForms, [goal.id]: { ...pointForm, measuredAt: e.target.value } })} data-testid={`input-point-date-${goal.id}`} />
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => addPointMutation.mutate({ goalId: goal.id, ...pointForm })}
+                    disabled={pointForm.value === "" || addPointMutation.isPending}
+                    data-testid={`button-add-point-${goal.id}`}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    {t('goals.logPoint', 'Log data point')}
+                  </Button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { Plus } from "lucide-react";
+import { CONCERN_TYPE_OPTIONS, GRADE_BANDS, MTSS_TIERS, type InterventionLibraryEntry } from "@shared/schema";
+
+interface InterventionLibraryBrowserProps {
+  concernId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ANY = "any";
+
+const listOf = (value: unknown): string[] => Array.isArray(value) ? value as string[] : [];
+
+// Lets a teacher add curated library interventions to a concern; no support request is used
+export default function InterventionLibraryBrowser({ concernId, open, onOpenChange }: InterventionLibraryBrowserProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [concernType, setConcernType] = useState(ANY);
+  const [gradeBand, setGradeBand] = useState(ANY);
+  const [tier, setTier] = useState(ANY);
+  const [added, setAdded] = useState<Set<string>>(new Set());
+
+  const params = new URLSearchParams();
+  if (search.trim()) params.set('q', search.trim());
+  if (concernType !== ANY) params.set('concernType', concernType);
+  if (gradeBand !== ANY) params.set('gradeBand', gradeBand);
+  if (tier !== ANY) params.set('tier', tier);
+
+  const { data: entries = [], isLoading } = useQuery<InterventionLibraryEntry[]>({
+    queryKey: [`/api/intervention-library?${params.toString()}`],
+    enabled: open,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (entryId: string) => apiRequest("POST", `/api/concerns/${concernId}/library-interventions`, { entryId }),
+    onSuccess: (_, entryId) => {
+      setAdded(current => new Set(Array.from(current).concat(entryId)));
+      toast({ title: t('library.addedToConcern', 'Added to this concern') });
+      queryClient.invalidateQueries({ queryKey: ["/api/concerns", concernId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('library.addFailed', 'Failed to add intervention'),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{t('library.browseTitle', 'Add from Intervention Library')}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-gray-600">
+          {t('library.browseDesc', 'Evidence-based interventions curated by your administrators. Adding one does not use a support request.')}
+        </p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-2">
+          <Input
+            placeholder={t('library.search', 'Search library...')}
+            value={search}
+            onChange={e => setSearch(e.target.value)}
+            className="sm:col-span-4"
+            data-testid="input-browse-library-search"
+          />
+          <Select value={concernType} onValueChange={setConcernType}>
+            <SelectTrigger data-testid="select-browse-concern-type"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>{t('library.anyConcern', 'Any concern type')}</SelectItem>
+              {CONCERN_TYPE_OPTIONS.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={gradeBand} onValueChange={setGradeBand}>
+            <SelectTrigger data-testid="select-browse-grade-band"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>{t('library.anyGrade', 'Any grade')}</SelectItem>
+              {GRADE_BANDS.map(band => <SelectItem key={band} value={band}>{band}</SelectItem>)}
+            </SelectContent>
+          </Select>
+          <Select value={tier} onValueChange={setTier}>
+            <SelectTrigger data-testid="select-browse-tier"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>{t('library.anyTier', 'Any tier')}</SelectItem>
+              {MTSS_TIERS.map(value => (
+                <SelectItem key={value} value={String(value)}>{t('students.tier', 'Tier {{tier}}', { tier: value })}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <p className="text-gray-500">{t('common.loading', 'Loading...')}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-500" data-testid="text-no-library-matches">{t('library.noMatches', 'No library interventions match these filters.')}</p>
+        ) : (
+          <div className="space-y-3">
+            {entries.map(entry => (
+              <div key={entry.id} className="border rounded-lg p-3" data-testid={`library-entry-${entry.id}`}>
+                <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{entry.title}</p>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="outline">{t('students.tier', 'Tier {{tier}}', { tier: entry.tier })}</Badge>
+                      <Badge variant="outline">{t('library.evidenceBadge', '{{rating}} evidence', { rating: entry.evidenceRating })}</Badge>
+                      {listOf(entry.gradeBands).map(band => <Badge key={band} variant="outline">{band}</Badge>)}
+                    </div>
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => addMutation.mutate(entry.id)}
+                    disabled={added.has(entry.id) || addMutation.isPending}
+                    data-testid={`button-add-library-${entry.id}`}
+                  >
+                    <Plus className="h-4 w-4 mr-1" />
+                    {added.has(entry.id) ? t('library.added', 'Added') : t('library.addToConcern', 'Add to concern')}
+                  </Button>
+                </div>
+                <p className="text-sm text-gray-700 mt-2">{entry.summary}</p>
+                <ol className="list-decimal list-inside text-sm text-gray-700 mt-2 space-y-1">
+                  {listOf(entry.steps).map((step, index) => <li key={index}>{step}</li>)}
+                </ol>
+                {listOf(entry.materials).length > 0 && (
+                  <p className="text-xs text-gray-500 mt-2">{t('library.materialsLabel', 'Materials')}: {listOf(entry.materials).join(', ')}</p>
+                )}
+                <p className="text-xs text-gray-500 mt-1">
+                  {t('library.sourceLabel', 'Source')}: {entry.sourceUrl ? <a href={entry.sourceUrl} target="_blank" rel="noopener noreferrer" className="underline">{entry.source}</a> : entry.source}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,291 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { BookOpen, Pencil, Plus, Save } from "lucide-react";
+import {
+  CONCERN_TYPE_OPTIONS,
+  EVIDENCE_RATINGS,
+  GRADE_BANDS,
+  MTSS_TIERS,
+  type InterventionLibraryEntry,
+} from "@shared/schema";
+
+// Steps and materials are edited one per line
+interface EntryForm {
+  title: string;
+  summary: string;
+  concernTypes: string[];
+  gradeBands: string[];
+  tier: number;
+  steps: string;
+  materials: string;
+  timeline: string;
+  evidenceRating: string;
+  source: string;
+  sourceUrl: string;
+  isActive: boolean;
+}
+
+const EMPTY_FORM: EntryForm = {
+  title: "",
+  summary: "",
+  concernTypes: [],
+  gradeBands: [],
+  tier: 2,
+  steps: "",
+  materials: "",
+  timeline: "",
+  evidenceRating: "moderate",
+  source: "",
+  sourceUrl: "",
+  isActive: true,
+};
+
+const listOf = (value: unknown): string[] => Array.isArray(value) ? value as string[] : [];
+const lines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+function toForm(entry: InterventionLibraryEntry): EntryForm {
+  return {
+    title: entry.title,
+    summary: entry.summary,
+    concernTypes: listOf(entry.concernTypes),
+    gradeBands: listOf(entry.gradeBands),
+    tier: entry.tier,
+    steps: listOf(entry.steps).join('\n'),
+    materials: listOf(entry.materials).join('\n'),
+    timeline: entry.timeline || "",
+    evidenceRating: entry.evidenceRating,
+    source: entry.source,
+    sourceUrl: entry.sourceUrl || "",
+    isActive: entry.isActive,
+  };
+}
+
+export default function InterventionLibraryManagement() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  // null = no form open, "new" = creating, otherwise the id of the entry being edited
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<EntryForm>(EMPTY_FORM);
+
+  const listKey = `/api/admin/intervention-library?q=${encodeURIComponent(search)}`;
+  const { data: entries = [], isLoading } = useQuery<InterventionLibraryEntry[]>({
+    queryKey: [listKey],
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        title: form.title,
+        summary: form.summary,
+        concernTypes: form.concernTypes,
+        gradeBands: form.gradeBands,
+        tier: form.tier,
+        steps: lines(form.steps),
+        materials: lines(form.materials),
+        timeline: form.timeline || null,
+        evidenceRating: form.evidenceRating,
+        source: form.source,
+        sourceUrl: form.sourceUrl || null,
+        isActive: form.isActive,
+      };
+      return editing === "new"
+        ? apiRequest("POST", "/api/admin/intervention-library", body)
+        : apiRequest("PUT", `/api/admin/intervention-library/${editing}`, body);
+    },
+    onSuccess: () => {
+      toast({ title: t('library.saved', 'Library entry saved') });
+      setEditing(null);
+      queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith('/api/admin/intervention-library') });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('library.saveFailed', 'Failed to save library entry'),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggle = (field: 'concernTypes' | 'gradeBands', value: string, checked: boolean) => {
+    setForm(current => ({
+      ...current,
+      [field]: checked ? [...current[field], value] : current[field].filter(item => item !== value),
+    }));
+  };
+
+  const formValid = form.title.trim().length >= 3 && form.summary.trim().length >= 10 && form.concernTypes.length > 0
+    && lines(form.steps).length > 0 && form.source.trim().length >= 3;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle className="flex items-center">
+            <BookOpen className="h-5 w-5 mr-2" />
+            {t('library.title', 'Intervention Library')}
+          </CardTitle>
+          <div className="flex gap-2">
+            <Input
+              placeholder={t('library.search', 'Search library...')}
+              value={search}
+              onChange={e => setSearch(e.target.value)}
+              className="w-56"
+              data-testid="input-library-search"
+            />
+            <Button onClick={() => { setEditing("new"); setForm(EMPTY_FORM); }} data-testid="button-new-library-entry">
+              <Plus className="h-4 w-4 mr-1" />
+              {t('library.add', 'Add entry')}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          {t('library.desc', 'Curated, evidence-based interventions. Recommendations are grounded in the active entries that match each concern and cite them, and teachers can add entries to a concern without using a support request.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {editing && (
+          <div className="border rounded-lg p-4 space-y-4 bg-gray-50" data-testid="library-entry-form">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <Label htmlFor="library-title">{t('library.entryTitle', 'Title')}</Label>
+                <Input id="library-title" value={form.title} onChange={e => setForm({ ...form, title: e.target.value })} data-testid="input-library-title" />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="library-summary">{t('library.summary', 'Summary')}</Label>
+                <Textarea id="library-summary" rows={3} value={form.summary} onChange={e => setForm({ ...form, summary: e.target.value })} data-testid="textarea-library-summary" />
+              </div>
+              <div>
+                <Label>{t('library.concernTypes', 'Concern types')}</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {CONCERN_TYPE_OPTIONS.map(type => (
+                    <label key={type} className="flex items-center gap-2 text-sm">
+                      <Checkbox checked={form.concernTypes.includes(type)} onCheckedChange={checked => toggle('concernTypes', type, checked === true)} />
+                      {type}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>{t('library.gradeBands', 'Grade bands (none = all grades)')}</Label>
+                <div className="grid grid-cols-2 gap-2 mt-2">
+                  {GRADE_BANDS.map(band => (
+                    <label key={band} className="flex items-center gap-2 text-sm">
+                      <Checkbox checked={form.gradeBands.includes(band)} onCheckedChange={checked => toggle('gradeBands', band, checked === true)} />
+                      {band}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>{t('library.tier', 'Tier')}</Label>
+                <Select value={String(form.tier)} onValueChange={value => setForm({ ...form, tier: Number(value) })}>
+                  <SelectTrigger data-testid="select-library-tier"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {MTSS_TIERS.map(tier => (
+                      <SelectItem key={tier} value={String(tier)}>{t('students.tier', 'Tier {{tier}}', { tier })}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>{t('library.evidence', 'Evidence rating')}</Label>
+                <Select value={form.evidenceRating} onValueChange={value => setForm({ ...form, evidenceRating: value })}>
+                  <SelectTrigger data-testid="select-library-evidence"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {EVIDENCE_RATINGS.map(rating => (
+                      <SelectItem key={rating} value={rating}>{rating}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="library-steps">{t('library.steps', 'Steps (one per line)')}</Label>
+                <Textarea id="library-steps" rows={5} value={form.steps} onChange={e => setForm({ ...form, steps: e.target.value })} data-testid="textarea-library-steps" />
+              </div>
+              <div>
+                <Label htmlFor="library-materials">{t('library.materials', 'Materials (one per line)')}</Label>
+                <Textarea id="library-materials" rows={5} value={form.materials} onChange={e => setForm({ ...form, materials: e.target.value })} data-testid="textarea-library-materials" />
+              </div>
+              <div>
+                <Label htmlFor="library-timeline">{t('library.timeline', 'Timeline')}</Label>
+                <Input id="library-timeline" placeholder={t('library.timelinePlaceholder', 'e.g. 6-8 weeks')} value={form.timeline} onChange={e => setForm({ ...form, timeline: e.target.value })} data-testid="input-library-timeline" />
+              </div>
+              <div>
+                <Label htmlFor="library-source-url">{t('library.sourceUrl', 'Source link')}</Label>
+                <Input id="library-source-url" placeholder="https://" value={form.sourceUrl} onChange={e => setForm({ ...form, sourceUrl: e.target.value })} data-testid="input-library-source-url" />
+              </div>
+              <div className="md:col-span-2">
+                <Label htmlFor="library-source">{t('library.source', 'Source / citation')}</Label>
+                <Input id="library-source" value={form.source} onChange={e => setForm({ ...form, source: e.target.value })} data-testid="input-library-source" />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={form.isActive} onCheckedChange={checked => setForm({ ...form, isActive: checked === true })} data-testid="checkbox-library-active" />
+                {t('library.active', 'Active (offered to teachers and used in recommendations)')}
+              </label>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" onClick={() => setEditing(null)}>{t('common.cancel', 'Cancel')}</Button>
+              <Button onClick={() => saveMutation.mutate()} disabled={!formValid || saveMutation.isPending} data-testid="button-save-library-entry">
+                <Save className="h-4 w-4 mr-1" />
+                {saveMutation.isPending ? t('common.saving', 'Saving...') : t('library.save', 'Save entry')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <p className="text-gray-500">{t('common.loading', 'Loading...')}</p>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-500" data-testid="text-empty-library">{t('library.empty', 'No library entries yet.')}</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('library.entryTitle', 'Title')}</TableHead>
+                <TableHead>{t('library.tier', 'Tier')}</TableHead>
+                <TableHead>{t('library.concernTypes', 'Concern types')}</TableHead>
+                <TableHead>{t('library.evidence', 'Evidence rating')}</TableHead>
+                <TableHead>{t('library.status', 'Status')}</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id} data-testid={`row-library-entry-${entry.id}`}>
+                  <TableCell className="font-medium">{entry.title}</TableCell>
+                  <TableCell>{entry.tier}</TableCell>
+                  <TableCell className="text-sm text-gray-600">{listOf(entry.concernTypes).join(', ')}</TableCell>
+                  <TableCell><Badge variant="outline">{entry.evidenceRating}</Badge></TableCell>
+                  <TableCell>
+                    <Badge className={entry.isActive ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-700"}>
+                      {entry.isActive ? t('library.activeBadge', 'Active') : t('library.archived', 'Archived')}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Button size="sm" variant="ghost" onClick={() => { setEditing(entry.id); setForm(toForm(entry)); }} data-testid={`button-edit-library-${entry.id}`}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState, useMemo, memo } from "react";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { useTranslation } from "react-i18next";
 // Helper function for checking unauthorized errors
@@ -14,15 +14,20 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
-import { Lightbulb, Send, FileText, Share, ChevronRight, CheckCircle, Info, BookmarkPlus, Bookmark, Save, X, Plus, Mail, Copy, Download, Upload } from "lucide-react";
-import { Concern, Intervention, FollowUpQuestion } from "@shared/schema";
+import { Lightbulb, Send, FileText, Share, ChevronRight, CheckCircle, Info, BookmarkPlus, Bookmark, Save, X, Plus, Mail, Copy, Download, Upload, AlertTriangle } from "lucide-react";
+import { Concern, Intervention, FollowUpQuestion, MOCK_PROMPT_VERSION, type ConcernAccessLevel } from "@shared/schema";
 import { EmailSetupGuide } from "@/components/email-setup-guide";
+import InterventionGoals from "@/components/intervention-goals";
+import FidelityChecklist from "@/components/fidelity-checklist";
+import PlanRevisions from "@/components/plan-revisions";
+import CommentThread from "@/components/comment-thread";
 // Email sharing temporarily removed
 
 interface InterventionResultsProps {
   concern: Concern;
   interventions: Intervention[];
   showFollowUpQuestions?: boolean;
+  access?: ConcernAccessLevel; // Colleagues the concern is shared with can't save its interventions
 }
 
 // Optimized formatting component with memoization for better performance
@@ -238,7 +243,8 @@ FormattedRecommendations.displayName = 'FormattedRecommendations';
 export default function InterventionResults({ 
   concern, 
   interventions, 
-  showFollowUpQuestions = false 
+  showFollowUpQuestions = false,
+  access = 'owner' 
 }: InterventionResultsProps) {
   const [followUpQuestion, setFollowUpQuestion] = useState("");
   const [showEmailModal, setShowEmailModal] = useState(false);
@@ -250,6 +256,7 @@ export default function InterventionResults({
     return new Set(savedIds);
   });
   const { toast } = useToast();
+  const queryClient = useQueryClient();
   const { t } = useTranslation();
 
   // Fetch existing follow-up questions
@@ -444,9 +451,10 @@ export default function InterventionResults({
         newSet.add(interventionId);
         return newSet;
       });
+      queryClient.invalidateQueries({ queryKey: ["/api/check-ins"] });
       toast({
         title: "Intervention Saved!",
-        description: "This intervention has been saved and will be included in your reports.",
+        description: "This intervention has been saved and will be included in your reports. We'll remind you when it's time to check in on progress.",
       });
     },
     onError: (error: Error) => {
@@ -529,6 +537,21 @@ export default function InterventionResults({
             </CardTitle>
           </div>
           
+          {/* Plans built from templates while the AI service was down must not pass as personalized */}
+          {interventions.some(intervention => intervention.promptVersion === MOCK_PROMPT_VERSION) && (
+            <div className="bg-amber-50 border border-amber-300 rounded-lg p-3 mb-4 flex items-start space-x-2" data-testid="notice-fallback-plan">
+              <AlertTriangle className="h-4 w-4 text-amber-600 mt-0.5 flex-shrink-0" />
+              <div>
+                <p className="text-sm font-medium text-amber-900">
+                  {t('results.fallbackTitle', 'General strategies only')}
+                </p>
+                <p className="text-xs text-amber-800">
+                  {t('results.fallbackDesc', 'The AI service was unavailable when this plan was created, so these are general example strategies rather than ones written for this student. Submit the concern again to get personalized recommendations.')}
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Confidence Building Message */}
           <div className="bg-green-50 border border-green-200 rounded-lg p-3 mb-4">
             <p className="text-sm text-green-800 mb-1">
@@ -594,6 +617,16 @@ export default function InterventionResults({
                             {t('confidence.popularChoice', 'Most teachers start here')}
                           </Badge>
                         )}
+                        {intervention.tier && (
+                          <Badge variant="outline" className="text-xs" data-testid={`badge-tier-${intervention.id}`}>
+                            {t('students.tier', 'Tier {{tier}}', { tier: intervention.tier })}
+                          </Badge>
+                        )}
+                        {intervention.libraryEntryId && (
+                          <Badge className="bg-emerald-100 text-emerald-800 text-xs" data-testid={`badge-library-${intervention.id}`}>
+                            {t('library.badge', 'From intervention library')}
+                          </Badge>
+                        )}
                       </div>
                       
                       <h3 className="text-xl md:text-2xl font-bold text-gray-900 mb-4 md:mb-6 flex items-center break-words">
@@ -663,6 +696,42 @@ export default function InterventionResults({
                         </div>
                       )}
                       
+                      {((Array.isArray(intervention.progressMeasures) && intervention.progressMeasures.length > 0) ||
+                        (Array.isArray(intervention.successCriteria) && intervention.successCriteria.length > 0)) && (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4 md:mb-6">
+                          {Array.isArray(intervention.progressMeasures) && intervention.progressMeasures.length > 0 && (
+                            <div className="bg-indigo-50 rounded-xl p-4 border border-indigo-100" data-testid={`progress-measures-${intervention.id}`}>
+                              <h4 className="text-sm md:text-base font-semibold text-indigo-900 mb-2">Progress Monitoring</h4>
+                              <ul className="list-disc list-inside space-y-1">
+                                {(intervention.progressMeasures as string[]).map((measure, measureIndex) => (
+                                  <li key={measureIndex} className="text-sm text-gray-800 break-words">{measure}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                          {Array.isArray(intervention.successCriteria) && intervention.successCriteria.length > 0 && (
+                            <div className="bg-green-50 rounded-xl p-4 border border-green-100" data-testid={`success-criteria-${intervention.id}`}>
+                              <h4 className="text-sm md:text-base font-semibold text-green-900 mb-2">Success Criteria</h4>
+                              <ul className="list-disc list-inside space-y-1">
+                                {(intervention.successCriteria as string[]).map((criterion, criterionIndex) => (
+                                  <li key={criterionIndex} className="text-sm text-gray-800 break-words">{criterion}</li>
+                                ))}
+                              </ul>
+                            </div>
+                          )}
+                        </div>
+                      )}
+
+                      {intervention.id && (savedInterventions.has(intervention.id) || intervention.saved) && (
+                        <FidelityChecklist interventionId={intervention.id} readOnly={access !== 'owner'} />
+                      )}
+
+                      {intervention.id && <InterventionGoals interventionId={intervention.id} readOnly={access !== 'owner'} />}
+
+                      {intervention.id && <PlanRevisions interventionId={intervention.id} concernId={concern.id} readOnly={access !== 'owner'} />}
+
+                      {intervention.id && <CommentThread concernId={concern.id} interventionId={intervention.id} access={access} />}
+                      
                       {/* Important Disclaimer */}
                       <div className="bg-gradient-to-r from-amber-50 to-yellow-50 border-l-4 border-amber-400 rounded-r-xl p-6 mb-6 shadow-sm">
                         <div className="flex items-start space-x-4">
@@ -702,7 +771,7 @@ export default function InterventionResults({
                               <Bookmark className="h-4 w-4 text-green-600" />
                               <span className="text-sm font-semibold text-green-700">Saved</span>
                             </div>
-                          ) : (
+                          ) : access === 'owner' && (
                             <Button
                               variant="outline"
                               size="sm"
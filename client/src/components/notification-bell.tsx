@@ -0,0 +1,85 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useLocation } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Bell } from "lucide-react";
+import type { UserNotificationWithContext } from "@shared/schema";
+
+// How often the unread count is refreshed while the app is open
+const POLL_INTERVAL_MS = 60_000;
+
+// Shares, @mentions and replies on concerns the teacher can see
+export default function NotificationBell() {
+  const { t } = useTranslation();
+  const [, navigate] = useLocation();
+  const queryClient = useQueryClient();
+  const notificationsKey = ["/api/notifications"];
+
+  const { data } = useQuery<{ notifications: UserNotificationWithContext[]; unread: number }>({
+    queryKey: notificationsKey,
+    refetchInterval: POLL_INTERVAL_MS,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async (id?: string) => apiRequest("POST", id ? `/api/notifications/${id}/read` : "/api/notifications/read-all"),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: notificationsKey }),
+  });
+
+  const notifications = data?.notifications || [];
+  const unread = data?.unread || 0;
+
+  const open = (notification: UserNotificationWithContext) => {
+    if (!notification.readAt) readMutation.mutate(notification.id);
+    navigate(`/concerns/${notification.concernId}`);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative text-gray-600 hover:text-purple-600 p-2" data-testid="button-notifications">
+          <Bell className="h-5 w-5" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-white text-[10px] leading-4 text-center" data-testid="badge-unread-notifications">
+              {unread > 9 ? '9+' : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 max-h-96 overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>{t('notifications.title', 'Notifications')}</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button variant="link" size="sm" onClick={() => readMutation.mutate(undefined)} data-testid="button-mark-all-read">
+              {t('notifications.markAllRead', 'Mark all read')}
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length === 0 ? (
+          <p className="px-2 py-3 text-sm text-gray-500">{t('notifications.empty', 'No notifications yet.')}</p>
+        ) : notifications.map(notification => (
+          <DropdownMenuItem
+            key={notification.id}
+            onSelect={() => open(notification)}
+            className={`flex flex-col items-start gap-1 cursor-pointer ${notification.readAt ? '' : 'bg-blue-50'}`}
+            data-testid={`notification-${notification.id}`}
+          >
+            <span className="text-sm text-gray-900 whitespace-normal">{notification.message}</span>
+            {notification.createdAt && (
+              <span className="text-xs text-gray-500">{new Date(notification.createdAt).toLocaleString()}</span>
+            )}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
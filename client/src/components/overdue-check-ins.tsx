@@ -0,0 +1,77 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import type { CheckInItem } from "@shared/schema";
+
+interface OverdueCheckInsResponse {
+  schools: { school: string | null; overdue: number; teachers: number; longestDaysOverdue: number }[];
+  overdue: (CheckInItem & { teacherId: string; teacherName: string; teacherEmail: string; school: string | null })[];
+}
+
+// Only the longest-overdue check-ins are listed individually
+const LIST_LIMIT = 25;
+
+export default function OverdueCheckIns() {
+  const { t } = useTranslation();
+  const { data, isLoading } = useQuery<OverdueCheckInsResponse>({
+    queryKey: ["/api/admin/check-ins/overdue"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('checkIns.overdueTitle', 'Overdue Progress Check-ins')}</CardTitle>
+        <p className="text-sm text-gray-600">
+          {t('checkIns.overdueDesc', 'Saved interventions whose teacher has not recorded progress by the scheduled check-in date. Teachers are emailed once when each check-in falls due.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-gray-500">{t('common.loading', 'Loading...')}</p>
+        ) : !data || data.overdue.length === 0 ? (
+          <p className="text-gray-500" data-testid="text-no-overdue-check-ins">{t('checkIns.noneOverdue', 'No overdue check-ins.')}</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('students.school', 'School')}</TableHead>
+                  <TableHead>{t('checkIns.overdue', 'Overdue')}</TableHead>
+                  <TableHead>{t('checkIns.teachers', 'Teachers')}</TableHead>
+                  <TableHead>{t('checkIns.longestOverdue', 'Longest overdue')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.schools.map(school => (
+                  <TableRow key={school.school || 'none'} data-testid={`row-overdue-school-${school.school || 'none'}`}>
+                    <TableCell className="font-medium">{school.school || t('students.noSchool', 'No school')}</TableCell>
+                    <TableCell>{school.overdue}</TableCell>
+                    <TableCell>{school.teachers}</TableCell>
+                    <TableCell>{t('checkIns.days', '{{count}} days', { count: school.longestDaysOverdue })}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <ul className="space-y-1 text-sm">
+              {data.overdue.slice(0, LIST_LIMIT).map(item => (
+                <li key={item.interventionId} className="flex flex-wrap items-center gap-2" data-testid={`overdue-check-in-${item.interventionId}`}>
+                  <Badge className="bg-red-100 text-red-800">
+                    {t('checkIns.days', '{{count}} days', { count: item.daysOverdue })}
+                  </Badge>
+                  <span className="font-medium">{item.teacherName}</span>
+                  <span className="text-gray-500">
+                    {item.studentLabel} · {item.interventionTitle}
+                    {item.school && ` · ${item.school}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
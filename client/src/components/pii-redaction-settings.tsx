@@ -0,0 +1,273 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { ShieldCheck, Save, AlertTriangle, EyeOff } from "lucide-react";
+
+interface School {
+  id: string;
+  name: string;
+}
+
+interface RedactionSettings {
+  isEnabled: boolean;
+  redactNames: boolean;
+  redactEmails: boolean;
+  redactPhones: boolean;
+  redactAddresses: boolean;
+  redactStudentIds: boolean;
+  redactDatesOfBirth: boolean;
+  studentIdPattern: string | null;
+  customTerms: string[];
+}
+
+interface RedactionSettingsResponse {
+  settings: RedactionSettings;
+  summary: { category: string; total: number }[];
+}
+
+interface RedactionLog {
+  id: string;
+  schoolName: string | null;
+  source: string;
+  category: string;
+  placeholder: string;
+  valueLength: number;
+  createdAt: string;
+}
+
+type CategoryToggle = Exclude<keyof RedactionSettings, 'isEnabled' | 'studentIdPattern' | 'customTerms'>;
+
+const CATEGORY_TOGGLES: { key: CategoryToggle; category: string; label: string }[] = [
+  { key: 'redactNames', category: 'name', label: 'Names (including Chinese names)' },
+  { key: 'redactEmails', category: 'email', label: 'Email addresses' },
+  { key: 'redactPhones', category: 'phone', label: 'Phone numbers' },
+  { key: 'redactAddresses', category: 'address', label: 'Home addresses' },
+  { key: 'redactStudentIds', category: 'student_id', label: 'Student ID numbers' },
+  { key: 'redactDatesOfBirth', category: 'date_of_birth', label: 'Dates of birth' },
+];
+
+export default function PiiRedactionSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currentSchoolId, setCurrentSchoolId] = useState("");
+  const [formData, setFormData] = useState<RedactionSettings | null>(null);
+  const [customTermsText, setCustomTermsText] = useState("");
+
+  const { data: schools } = useQuery<School[]>({
+    queryKey: ["/api/admin/schools"]
+  });
+
+  const settingsKey = `/api/admin/school/${currentSchoolId}/pii-redaction`;
+  const { data, isLoading } = useQuery<RedactionSettingsResponse>({
+    queryKey: [settingsKey],
+    enabled: !!currentSchoolId
+  });
+
+  const logsKey = `/api/admin/pii-redaction-logs?schoolId=${currentSchoolId}&limit=25`;
+  const { data: logs } = useQuery<RedactionLog[]>({
+    queryKey: [logsKey],
+    enabled: !!currentSchoolId
+  });
+
+  useEffect(() => {
+    if (data?.settings) {
+      setFormData(data.settings);
+      setCustomTermsText(data.settings.customTerms.join("\n"));
+    }
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (settings: RedactionSettings) => {
+      return await apiRequest("PUT", settingsKey, settings);
+    },
+    onSuccess: () => {
+      toast({
+        title: t('piiRedaction.saved', 'Privacy Settings Saved'),
+        description: t('piiRedaction.savedDesc', 'Redaction settings apply to the next AI request from this school.'),
+      });
+      queryClient.invalidateQueries({ queryKey: [settingsKey] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('piiRedaction.saveFailed', 'Save Failed'),
+        description: error.message || t('piiRedaction.saveFailedDesc', 'Failed to save PII redaction settings'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSave = () => {
+    if (!formData) return;
+    saveMutation.mutate({
+      ...formData,
+      studentIdPattern: formData.studentIdPattern?.trim() || null,
+      customTerms: customTermsText.split("\n").map(term => term.trim()).filter(Boolean),
+    });
+  };
+
+  const countFor = (category: string) =>
+    data?.summary.find(row => row.category === category)?.total || 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <ShieldCheck className="w-5 h-5" />
+          <span>{t('piiRedaction.title', 'Student Privacy (PII Redaction)')}</span>
+          <Badge variant="outline">{t('piiRedaction.adminOnly', 'Admin Only')}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {t('piiRedaction.description', 'Identifying details are replaced with placeholders such as [STUDENT_1] before anything is sent to the AI provider, and restored in the response teachers see.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="pii-school-select">{t('piiRedaction.selectSchool', 'Select School')}</Label>
+          <Select value={currentSchoolId} onValueChange={setCurrentSchoolId}>
+            <SelectTrigger id="pii-school-select" data-testid="select-pii-school">
+              <SelectValue placeholder={t('piiRedaction.selectSchoolPlaceholder', 'Choose a school to configure')} />
+            </SelectTrigger>
+            <SelectContent>
+              {schools?.map((school) => (
+                <SelectItem key={school.id} value={school.id}>
+                  {school.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {currentSchoolId && (isLoading || !formData) && (
+          <div className="flex items-center space-x-2 text-sm text-gray-600">
+            <EyeOff className="w-5 h-5 animate-pulse" />
+            <span>{t('piiRedaction.loading', 'Loading privacy settings...')}</span>
+          </div>
+        )}
+
+        {currentSchoolId && formData && !isLoading && (
+          <>
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div>
+                <Label htmlFor="pii-enabled" className="text-base font-medium">
+                  {t('piiRedaction.enabled', 'Redact PII before AI requests')}
+                </Label>
+                <p className="text-sm text-gray-600">
+                  {t('piiRedaction.enabledDesc', 'Applies to intervention recommendations, follow-up assistance and classroom solution drafts.')}
+                </p>
+              </div>
+              <Switch
+                id="pii-enabled"
+                checked={formData.isEnabled}
+                onCheckedChange={(checked) => setFormData({ ...formData, isEnabled: checked })}
+                data-testid="switch-pii-enabled"
+              />
+            </div>
+
+            {!formData.isEnabled && (
+              <Alert variant="destructive">
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {t('piiRedaction.disabledWarning', 'Teacher-entered text, including student names, will be sent to the AI provider unchanged.')}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {CATEGORY_TOGGLES.map(({ key, category, label }) => (
+                <div key={key} className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor={`pii-${key}`}>{t(`piiRedaction.categories.${category}`, label)}</Label>
+                    <p className="text-xs text-gray-500">
+                      {t('piiRedaction.last30Days', '{{count}} redacted in the last 30 days', { count: countFor(category) })}
+                    </p>
+                  </div>
+                  <Switch
+                    id={`pii-${key}`}
+                    checked={formData[key]}
+                    disabled={!formData.isEnabled}
+                    onCheckedChange={(checked) => setFormData({ ...formData, [key]: checked })}
+                    data-testid={`switch-pii-${category}`}
+                  />
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pii-student-id-pattern">{t('piiRedaction.studentIdPattern', 'Student ID format (optional regular expression)')}</Label>
+              <Input
+                id="pii-student-id-pattern"
+                placeholder="e.g. S\d{6}"
+                value={formData.studentIdPattern || ""}
+                onChange={(e) => setFormData({ ...formData, studentIdPattern: e.target.value })}
+                data-testid="input-pii-student-id-pattern"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="pii-custom-terms">{t('piiRedaction.customTerms', 'Always redact these terms (one per line)')}</Label>
+              <Textarea
+                id="pii-custom-terms"
+                rows={4}
+                placeholder={t('piiRedaction.customTermsPlaceholder', 'Family names, nicknames, local place names...')}
+                value={customTermsText}
+                onChange={(e) => setCustomTermsText(e.target.value)}
+                data-testid="textarea-pii-custom-terms"
+              />
+            </div>
+
+            <Button onClick={handleSave} disabled={saveMutation.isPending} data-testid="button-save-pii-settings">
+              <Save className="w-4 h-4 mr-2" />
+              {saveMutation.isPending ? t('piiRedaction.saving', 'Saving...') : t('piiRedaction.save', 'Save Privacy Settings')}
+            </Button>
+
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">{t('piiRedaction.auditLog', 'Recent Redactions')}</h3>
+              <p className="text-sm text-gray-600">
+                {t('piiRedaction.auditLogDesc', 'Only the placeholder and category are kept; redacted values are never stored.')}
+              </p>
+              {logs && logs.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('piiRedaction.when', 'When')}</TableHead>
+                      <TableHead>{t('piiRedaction.source', 'Source')}</TableHead>
+                      <TableHead>{t('piiRedaction.category', 'Category')}</TableHead>
+                      <TableHead>{t('piiRedaction.placeholder', 'Placeholder')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {logs.map((log) => (
+                      <TableRow key={log.id} data-testid={`row-pii-log-${log.id}`}>
+                        <TableCell>{new Date(log.createdAt).toLocaleString()}</TableCell>
+                        <TableCell>{log.source.replace(/_/g, ' ')}</TableCell>
+                        <TableCell>
+                          <Badge variant="secondary">{log.category.replace(/_/g, ' ')}</Badge>
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">{log.placeholder}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-gray-500">{t('piiRedaction.noRedactions', 'No redactions recorded for this school yet.')}</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { diffList, diffText, type DiffPart } from "@/lib/planDiff";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { GitCompare, History, RefreshCw } from "lucide-react";
+import type { InterventionRevision, PlanRevisionHistory } from "@shared/schema";
+
+interface PlanRevisionsProps {
+  interventionId: string;
+  concernId: string;
+  readOnly?: boolean; // Colleagues the concern is shared with see the versions but can't adjust the plan
+}
+
+const listOf = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+
+function DiffView({ parts, testId }: { parts: DiffPart[]; testId: string }) {
+  return (
+    <p className="text-sm text-gray-800 whitespace-pre-wrap break-words" data-testid={testId}>
+      {parts.map((part, index) => (
+        <span
+          key={index}
+          className={part.type === 'added' ? 'bg-green-100 text-green-900' : part.type === 'removed' ? 'bg-red-100 text-red-800 line-through' : undefined}
+        >
+          {part.text}
+        </span>
+      ))}
+    </p>
+  );
+}
+
+function RevisionDiff({ previous, revision }: { previous: InterventionRevision; revision: InterventionRevision }) {
+  const { t } = useTranslation();
+  const sections = [
+    { key: 'title', label: t('revisions.field.title', 'Title'), parts: diffText(previous.title, revision.title) },
+    { key: 'description', label: t('revisions.field.description', 'Description'), parts: diffText(previous.description, revision.description) },
+    { key: 'steps', label: t('revisions.field.steps', 'Steps'), parts: diffList(listOf(previous.steps), listOf(revision.steps)) },
+    { key: 'timeline', label: t('revisions.field.timeline', 'Timeline'), parts: diffText(previous.timeline || '', revision.timeline || '') },
+    { key: 'progressMeasures', label: t('revisions.field.progressMeasures', 'Progress monitoring'), parts: diffList(listOf(previous.progressMeasures), listOf(revision.progressMeasures)) },
+    { key: 'successCriteria', label: t('revisions.field.successCriteria', 'Success criteria'), parts: diffList(listOf(previous.successCriteria), listOf(revision.successCriteria)) },
+  ];
+
+  return (
+    <div className="space-y-3 mt-3 bg-white rounded-lg border border-gray-200 p-3">
+      {sections.map(section => (
+        <div key={section.key}>
+          <p className="text-xs font-semibold text-gray-600 uppercase mb-1">
+            {section.label}
+            {section.parts.every(part => part.type === 'same') && (
+              <span className="ml-2 font-normal normal-case text-gray-400">{t('revisions.unchanged', 'unchanged')}</span>
+            )}
+          </p>
+          <DiffView parts={section.parts} testId={`diff-${section.key}-${revision.id}`} />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function PlanRevisions({ interventionId, concernId, readOnly = false }: PlanRevisionsProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [adjusting, setAdjusting] = useState(false);
+  const [reason, setReason] = useState("");
+  const [comparing, setComparing] = useState<string | null>(null);
+
+  const { data: history, isError } = useQuery<PlanRevisionHistory>({
+    queryKey: ["/api/interventions", interventionId, "revisions"],
+    retry: false,
+  });
+
+  const adjustMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/interventions/${interventionId}/adjust`, { reason }),
+    onSuccess: (result: { revision: InterventionRevision }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/interventions", interventionId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/concerns", concernId] });
+      setAdjusting(false);
+      setReason("");
+      setComparing(result.revision.id);
+      toast({
+        title: t('revisions.adjusted', 'Plan adjusted'),
+        description: t('revisions.adjustedDesc', 'This intervention is now on version {{version}}.', { version: result.revision.version }),
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: t('revisions.failed', 'Could not adjust the plan'),
+        description: error.message || t('revisions.failedDesc', 'Please try again later.'),
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Hidden from teachers the concern isn't shared with
+  if (isError || !history) return null;
+
+  const { quota, revisions } = history;
+  const adjustments = revisions.filter(revision => revision.source === 'ai_adjustment').reverse();
+
+  return (
+    <div className="bg-slate-50 rounded-xl p-4 border border-slate-200 mb-4 md:mb-6" data-testid={`plan-revisions-${interventionId}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h4 className="text-sm md:text-base font-semibold text-slate-900 flex items-center">
+          <History className="h-4 w-4 mr-2" />
+          {t('revisions.title', 'Plan Versions')}
+          <Badge variant="outline" className="ml-2" data-testid={`badge-plan-version-${interventionId}`}>
+            {t('revisions.version', 'v{{version}}', { version: history.currentVersion })}
+          </Badge>
+        </h4>
+        {!readOnly && (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => setAdjusting(!adjusting)}
+            disabled={Boolean(quota.blockedReason) || adjustMutation.isPending}
+            data-testid={`button-adjust-plan-${interventionId}`}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            {t('revisions.adjust', 'Adjust this plan')}
+          </Button>
+        )}
+      </div>
+
+      {!readOnly && (
+        <>
+          <p className="text-xs text-slate-600" data-testid={`text-adjust-quota-${interventionId}`}>
+            {t('revisions.quota', '{{used}} of {{limit}} plan adjustments used this month', { used: quota.used, limit: quota.limit })}
+            {' · '}
+            {t('revisions.perIntervention', '{{used}} of {{limit}} for this intervention', { used: quota.perInterventionUsed, limit: quota.perInterventionLimit })}
+          </p>
+          {quota.blockedReason && (
+            <p className="text-xs text-amber-700 mt-1" data-testid={`text-adjust-blocked-${interventionId}`}>{quota.blockedReason}</p>
+          )}
+        </>
+      )}
+
+      {adjusting && !readOnly && !quota.blockedReason && (
+        <div className="mt-3 space-y-2">
+          <Label htmlFor={`adjust-reason-${interventionId}`}>{t('revisions.reason', 'What needs to change?')}</Label>
+          <Textarea
+            id={`adjust-reason-${interventionId}`}
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            placeholder={t('revisions.reasonPlaceholder', 'e.g. The check-ins are working but the reading targets are too ambitious')}
+            maxLength={2000}
+            rows={3}
+            data-testid={`textarea-adjust-reason-${interventionId}`}
+          />
+          <p className="text-xs text-slate-500">
+            {t('revisions.reasonHelp', 'Your progress notes, goal data and checklist fidelity are sent along with the current plan.')}
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={() => adjustMutation.mutate()}
+              disabled={reason.trim().length < 5 || adjustMutation.isPending}
+              data-testid={`button-submit-adjust-${interventionId}`}
+            >
+              {adjustMutation.isPending ? t('revisions.adjusting', 'Adjusting...') : t('revisions.submit', 'Create revised plan')}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setAdjusting(false)} disabled={adjustMutation.isPending}>
+              {t('common.cancel', 'Cancel')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {adjustments.length > 0 && (
+        <ul className="mt-3 space-y-2">
+          {adjustments.map(revision => {
+            const previous = revisions.find(candidate => candidate.version === revision.version - 1);
+            return (
+              <li key={revision.id} className="border-t border-slate-200 pt-2" data-testid={`revision-${revision.id}`}>
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="text-sm font-medium text-slate-900">
+                    {t('revisions.version', 'v{{version}}', { version: revision.version })}
+                    {revision.createdAt && (
+                      <span className="ml-2 font-normal text-slate-500">{new Date(revision.createdAt).toLocaleDateString()}</span>
+                    )}
+                  </span>
+                  {previous && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => setComparing(comparing === revision.id ? null : revision.id)}
+                      data-testid={`button-compare-${revision.id}`}
+                    >
+                      <GitCompare className="h-4 w-4 mr-2" />
+                      {comparing === revision.id
+                        ? t('revisions.hideChanges', 'Hide changes')
+                        : t('revisions.showChanges', 'Changes from v{{version}}', { version: previous.version })}
+                    </Button>
+                  )}
+                </div>
+                {revision.reason && (
+                  <p className="text-xs text-slate-600"><span className="font-medium">{t('revisions.requested', 'Requested')}:</span> {revision.reason}</p>
+                )}
+                {revision.changeSummary && (
+                  <p className="text-sm text-slate-800 whitespace-pre-wrap mt-1">{revision.changeSummary}</p>
+                )}
+                {previous && comparing === revision.id && <RevisionDiff previous={previous} revision={revision} />}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { FileCode, Save, Rocket, RotateCcw, Eye, Trash2, AlertTriangle, Archive } from "lucide-react";
+
+interface School {
+  id: string;
+  name: string;
+}
+
+interface PromptPlaceholder {
+  name: string;
+  description: string;
+}
+
+interface PromptTemplateDefinition {
+  key: string;
+  label: string;
+  placeholders: PromptPlaceholder[];
+  defaultBody: string;
+}
+
+interface PromptTemplateVersion {
+  id: string;
+  key: string;
+  schoolId: string | null;
+  version: number;
+  status: 'draft' | 'published' | 'archived';
+  body: string;
+  notes: string | null;
+  publishedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface PromptTemplatePreview {
+  renderedPrompt: string;
+  unknownPlaceholders: string[];
+  mockOutput: string;
+}
+
+const GLOBAL_SCOPE = "global";
+
+const STATUS_BADGES: Record<PromptTemplateVersion['status'], string> = {
+  published: "bg-green-100 text-green-800",
+  draft: "bg-yellow-100 text-yellow-800",
+  archived: "bg-gray-100 text-gray-700",
+};
+
+export default function PromptTemplateManagement() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedKey, setSelectedKey] = useState("");
+  const [scope, setScope] = useState(GLOBAL_SCOPE);
+  const [selectedVersionId, setSelectedVersionId] = useState<string | null>(null);
+  const [body, setBody] = useState("");
+  const [notes, setNotes] = useState("");
+  const [preview, setPreview] = useState<PromptTemplatePreview | null>(null);
+
+  const { data: definitions } = useQuery<PromptTemplateDefinition[]>({
+    queryKey: ["/api/admin/prompt-templates"]
+  });
+
+  const { data: schools } = useQuery<School[]>({
+    queryKey: ["/api/admin/schools"]
+  });
+
+  const schoolId = scope === GLOBAL_SCOPE ? "" : scope;
+  const versionsKey = `/api/admin/prompt-templates/versions?key=${selectedKey}&schoolId=${schoolId}`;
+  const { data: versions, isLoading: versionsLoading } = useQuery<PromptTemplateVersion[]>({
+    queryKey: [versionsKey],
+    enabled: !!selectedKey
+  });
+
+  const definition = definitions?.find(item => item.key === selectedKey);
+  const selectedVersion = versions?.find(version => version.id === selectedVersionId);
+  const publishedVersion = versions?.find(version => version.status === 'published');
+  const isEditingDraft = selectedVersion?.status === 'draft';
+
+  useEffect(() => {
+    if (!selectedKey && definitions?.length) {
+      setSelectedKey(definitions[0].key);
+    }
+  }, [definitions, selectedKey]);
+
+  // Start from the live version (or the built-in default) whenever the prompt or scope changes
+  useEffect(() => {
+    setSelectedVersionId(null);
+    setPreview(null);
+  }, [selectedKey, scope]);
+
+  useEffect(() => {
+    if (selectedVersion) {
+      setBody(selectedVersion.body);
+      setNotes(selectedVersion.notes || "");
+    } else if (versions && definition) {
+      setBody(publishedVersion?.body || definition.defaultBody);
+      setNotes("");
+    }
+  }, [selectedVersionId, versions, definition]);
+
+  const refreshVersions = () => queryClient.invalidateQueries({ queryKey: [versionsKey] });
+
+  const showError = (error: any, fallback: string) => {
+    toast({
+      title: t('promptTemplates.error', 'Error'),
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const warnUnknownPlaceholders = (unknownPlaceholders: string[]) => {
+    if (unknownPlaceholders.length > 0) {
+      toast({
+        title: t('promptTemplates.unknownPlaceholders', 'Unknown placeholders'),
+        description: unknownPlaceholders.map(name => `{{${name}}}`).join(", "),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const saveDraftMutation = useMutation({
+    mutationFn: async () => {
+      return isEditingDraft
+        ? await apiRequest("PUT", `/api/admin/prompt-templates/${selectedVersionId}`, { body, notes: notes || null })
+        : await apiRequest("POST", "/api/admin/prompt-templates", { key: selectedKey, schoolId: schoolId || null, body, notes: notes || null });
+    },
+    onSuccess: (data: { template: PromptTemplateVersion; unknownPlaceholders: string[] }) => {
+      toast({
+        title: t('promptTemplates.draftSaved', 'Draft Saved'),
+        description: t('promptTemplates.draftSavedDesc', 'Version {{version}} is saved as a draft. Publish it to use it for AI requests.', { version: data.template.version }),
+      });
+      warnUnknownPlaceholders(data.unknownPlaceholders);
+      setSelectedVersionId(data.template.id);
+      refreshVersions();
+    },
+    onError: (error: any) => showError(error, t('promptTemplates.saveFailed', 'Failed to save draft')),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/admin/prompt-templates/${id}/publish`);
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({ title: t('promptTemplates.published', 'Published'), description: data.message });
+      refreshVersions();
+    },
+    onError: (error: any) => showError(error, t('promptTemplates.publishFailed', 'Failed to publish template')),
+  });
+
+  const unpublishMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("POST", `/api/admin/prompt-templates/${id}/unpublish`);
+    },
+    onSuccess: () => {
+      toast({
+        title: t('promptTemplates.unpublished', 'Unpublished'),
+        description: scope === GLOBAL_SCOPE
+          ? t('promptTemplates.unpublishedGlobalDesc', 'AI requests now use the built-in prompt.')
+          : t('promptTemplates.unpublishedSchoolDesc', "This school now uses the global prompt."),
+      });
+      refreshVersions();
+    },
+    onError: (error: any) => showError(error, t('promptTemplates.unpublishFailed', 'Failed to unpublish template')),
+  });
+
+  const deleteDraftMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/prompt-templates/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: t('promptTemplates.draftDeleted', 'Draft Deleted') });
+      setSelectedVersionId(null);
+      refreshVersions();
+    },
+    onError: (error: any) => showError(error, t('promptTemplates.deleteFailed', 'Failed to delete draft')),
+  });
+
+  const previewMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", "/api/admin/prompt-templates/preview", { key: selectedKey, body });
+    },
+    onSuccess: (data: PromptTemplatePreview) => setPreview(data),
+    onError: (error: any) => showError(error, t('promptTemplates.previewFailed', 'Failed to preview template')),
+  });
+
+  const readOnly = !!selectedVersion && !isEditingDraft;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileCode className="w-5 h-5" />
+          <span>{t('promptTemplates.title', 'AI Prompt Templates')}</span>
+          <Badge variant="outline">{t('promptTemplates.superAdminOnly', 'Super Admin Only')}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {t('promptTemplates.description', 'Edit the prompts sent to the AI provider. A school template overrides the global template, which overrides the built-in prompt. Every intervention records the prompt version it was generated with.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="prompt-key-select">{t('promptTemplates.prompt', 'Prompt')}</Label>
+            <Select value={selectedKey} onValueChange={setSelectedKey}>
+              <SelectTrigger id="prompt-key-select" data-testid="select-prompt-key">
+                <SelectValue placeholder={t('promptTemplates.selectPrompt', 'Choose a prompt')} />
+              </SelectTrigger>
+              <SelectContent>
+                {definitions?.map((item) => (
+                  <SelectItem key={item.key} value={item.key}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="prompt-scope-select">{t('promptTemplates.scope', 'Applies to')}</Label>
+            <Select value={scope} onValueChange={setScope}>
+              <SelectTrigger id="prompt-scope-select" data-testid="select-prompt-scope">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={GLOBAL_SCOPE}>{t('promptTemplates.allSchools', 'All schools (global)')}</SelectItem>
+                {schools?.map((school) => (
+                  <SelectItem key={school.id} value={school.id}>
+                    {school.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {selectedKey && (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">{t('promptTemplates.versions', 'Versions')}</h3>
+              {versionsLoading ? (
+                <p className="text-sm text-gray-500">{t('promptTemplates.loading', 'Loading versions...')}</p>
+              ) : versions && versions.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('promptTemplates.version', 'Version')}</TableHead>
+                      <TableHead>{t('promptTemplates.status', 'Status')}</TableHead>
+                      <TableHead>{t('promptTemplates.notes', 'Notes')}</TableHead>
+                      <TableHead>{t('promptTemplates.updated', 'Updated')}</TableHead>
+                      <TableHead className="text-right">{t('promptTemplates.actions', 'Actions')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {versions.map((version) => (
+                      <TableRow
+                        key={version.id}
+                        className={version.id === selectedVersionId ? "bg-blue-50" : undefined}
+                        data-testid={`row-prompt-version-${version.version}`}
+                      >
+                        <TableCell className="font-medium">v{version.version}</TableCell>
+                        <TableCell>
+                          <Badge className={STATUS_BADGES[version.status]}>{t(`promptTemplates.statuses.${version.status}`, version.status)}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-xs truncate text-sm text-gray-600">{version.notes || '—'}</TableCell>
+                        <TableCell className="text-sm">{new Date(version.publishedAt || version.updatedAt).toLocaleString()}</TableCell>
+                        <TableCell className="text-right space-x-2">
+                          <Button size="sm" variant="outline" onClick={() => setSelectedVersionId(version.id)} data-testid={`button-open-prompt-version-${version.version}`}>
+                            {version.status === 'draft' ? t('promptTemplates.edit', 'Edit') : t('promptTemplates.view', 'View')}
+                          </Button>
+                          {version.status === 'draft' && (
+                            <Button size="sm" onClick={() => publishMutation.mutate(version.id)} disabled={publishMutation.isPending} data-testid={`button-publish-prompt-version-${version.version}`}>
+                              <Rocket className="w-3 h-3 mr-1" />
+                              {t('promptTemplates.publish', 'Publish')}
+                            </Button>
+                          )}
+                          {version.status === 'archived' && (
+                            <Button size="sm" variant="outline" onClick={() => publishMutation.mutate(version.id)} disabled={publishMutation.isPending} data-testid={`button-rollback-prompt-version-${version.version}`}>
+                              <RotateCcw className="w-3 h-3 mr-1" />
+                              {t('promptTemplates.rollback', 'Roll back to this')}
+                            </Button>
+                          )}
+                          {version.status === 'published' && (
+                            <Button size="sm" variant="outline" onClick={() => unpublishMutation.mutate(version.id)} disabled={unpublishMutation.isPending} data-testid={`button-unpublish-prompt-version-${version.version}`}>
+                              <Archive className="w-3 h-3 mr-1" />
+                              {t('promptTemplates.unpublish', 'Unpublish')}
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-gray-500">
+                  {scope === GLOBAL_SCOPE
+                    ? t('promptTemplates.noGlobalVersions', 'No templates yet. AI requests use the built-in prompt.')
+                    : t('promptTemplates.noSchoolVersions', 'No templates for this school. It uses the global prompt.')}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="prompt-body">
+                  {selectedVersion
+                    ? t('promptTemplates.editingVersion', 'Version {{version}} ({{status}})', { version: selectedVersion.version, status: selectedVersion.status })
+                    : t('promptTemplates.newDraft', 'New draft')}
+                </Label>
+                {selectedVersion && (
+                  <Button size="sm" variant="ghost" onClick={() => setSelectedVersionId(null)} data-testid="button-new-prompt-draft">
+                    {t('promptTemplates.startNewDraft', 'Start a new draft')}
+                  </Button>
+                )}
+              </div>
+              {readOnly && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {t('promptTemplates.readOnly', 'Published and archived versions cannot be edited. Saving creates a new draft from this text.')}
+                  </AlertDescription>
+                </Alert>
+              )}
+              <Textarea
+                id="prompt-body"
+                rows={18}
+                className="font-mono text-xs"
+                value={body}
+                onChange={(e) => setBody(e.target.value)}
+                data-testid="textarea-prompt-body"
+              />
+              <Input
+                placeholder={t('promptTemplates.notesPlaceholder', 'What changed in this version?')}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                data-testid="input-prompt-notes"
+              />
+            </div>
+
+            {definition && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">{t('promptTemplates.placeholders', 'Available placeholders')}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {definition.placeholders.map((placeholder) => (
+                    <div key={placeholder.name} className="text-xs">
+                      <code className="bg-gray-100 px-1 rounded">{`{{${placeholder.name}}}`}</code>
+                      <span className="text-gray-600 ml-2">{placeholder.description}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => saveDraftMutation.mutate()} disabled={!body.trim() || saveDraftMutation.isPending} data-testid="button-save-prompt-draft">
+                <Save className="w-4 h-4 mr-2" />
+                {isEditingDraft ? t('promptTemplates.saveDraft', 'Save Draft') : t('promptTemplates.saveAsDraft', 'Save as New Draft')}
+              </Button>
+              <Button variant="outline" onClick={() => previewMutation.mutate()} disabled={!body.trim() || previewMutation.isPending} data-testid="button-preview-prompt">
+                <Eye className="w-4 h-4 mr-2" />
+                {previewMutation.isPending ? t('promptTemplates.previewing', 'Previewing...') : t('promptTemplates.preview', 'Preview')}
+              </Button>
+              {isEditingDraft && (
+                <Button variant="outline" onClick={() => deleteDraftMutation.mutate(selectedVersion!.id)} disabled={deleteDraftMutation.isPending} data-testid="button-delete-prompt-draft">
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  {t('promptTemplates.deleteDraft', 'Delete Draft')}
+                </Button>
+              )}
+            </div>
+
+            {preview && (
+              <div className="space-y-4" data-testid="prompt-preview">
+                {preview.unknownPlaceholders.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {t('promptTemplates.unknownPlaceholdersDesc', 'These placeholders are not filled in for this prompt: {{names}}', {
+                        names: preview.unknownPlaceholders.map(name => `{{${name}}}`).join(", "),
+                        interpolation: { escapeValue: false },
+                      })}
+                    </AlertDescription>
+                  </Alert>
+                )}
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">{t('promptTemplates.renderedPrompt', 'Prompt with sample data')}</h4>
+                  <pre className="bg-gray-50 border rounded p-3 text-xs whitespace-pre-wrap max-h-96 overflow-auto">{preview.renderedPrompt}</pre>
+                </div>
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">{t('promptTemplates.mockOutput', 'Sample output (mock generator, no AI request made)')}</h4>
+                  <pre className="bg-gray-50 border rounded p-3 text-xs whitespace-pre-wrap max-h-96 overflow-auto">{preview.mockOutput}</pre>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
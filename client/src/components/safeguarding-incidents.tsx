@@ -0,0 +1,398 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { Download, FileLock2, Lock, Plus } from "lucide-react";
+import type { SafeguardingCategory, SafeguardingIncident, SafeguardingIncidentEntry, UrgentEscalationEvent } from "@shared/schema";
+
+interface IncidentsResponse {
+  incidents: SafeguardingIncident[];
+  allSchools: boolean;
+}
+
+interface IncidentRecord {
+  incident: SafeguardingIncident;
+  entries: SafeguardingIncidentEntry[];
+  escalations: {
+    notificationId: string;
+    acknowledgedAt: string | null;
+    acknowledgedBy: string | null;
+    events: (UrgentEscalationEvent & { actorName?: string | null })[];
+  }[];
+}
+
+const CATEGORY_LABELS: Record<SafeguardingCategory, string> = {
+  self_harm: 'Self-harm or suicide risk',
+  abuse: 'Abuse',
+  violence: 'Violence or threats to others',
+  neglect: 'Neglect',
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  concern: 'Concern',
+  follow_up: 'Follow-up question',
+  classroom_submission: 'Classroom Solutions',
+};
+
+const ENTRY_LABELS: Record<string, string> = {
+  notification: 'Notification',
+  action: 'Action taken',
+  outcome: 'Outcome',
+  closure: 'Closed',
+  export: 'Exported',
+  notified: 'Contact notified',
+  escalated: 'Escalated',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+};
+
+const formatDateTime = (value: string | Date | null | undefined) => value ? new Date(value).toLocaleString() : '-';
+
+export default function SafeguardingIncidents() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<'all' | 'open' | 'closed'>('open');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [entryType, setEntryType] = useState<'action' | 'outcome'>('action');
+  const [entryNote, setEntryNote] = useState("");
+  const [outcome, setOutcome] = useState("");
+  const [signOff, setSignOff] = useState("");
+  const [exporting, setExporting] = useState<'pdf' | 'json' | null>(null);
+
+  const listKey = statusFilter === 'all' ? '/api/admin/safeguarding/incidents' : `/api/admin/safeguarding/incidents?status=${statusFilter}`;
+  const { data, isLoading, error } = useQuery<IncidentsResponse>({
+    queryKey: [listKey],
+    retry: false,
+  });
+
+  const recordKey = `/api/admin/safeguarding/incidents/${selectedId}`;
+  const { data: record, isLoading: recordLoading } = useQuery<IncidentRecord>({
+    queryKey: [recordKey],
+    enabled: !!selectedId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: [recordKey] });
+    queryClient.invalidateQueries({ queryKey: [listKey] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: t('incidents.saveFailed', 'Could not update incident'),
+      description: error.message || t('incidents.saveFailedDesc', 'Failed to update the safeguarding incident'),
+      variant: "destructive",
+    });
+  };
+
+  const addEntryMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `${recordKey}/entries`, { type: entryType, note: entryNote.trim() });
+    },
+    onSuccess: () => {
+      setEntryNote("");
+      toast({ title: t('incidents.entryAdded', 'Entry added to the incident log') });
+      refresh();
+    },
+    onError,
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `${recordKey}/close`, { outcome: outcome.trim(), signOff: signOff.trim() });
+    },
+    onSuccess: () => {
+      setOutcome("");
+      setSignOff("");
+      toast({ title: t('incidents.closed', 'Incident closed') });
+      refresh();
+    },
+    onError,
+  });
+
+  const handleExport = async (format: 'pdf' | 'json') => {
+    if (!record) return;
+    try {
+      setExporting(format);
+      const response = await fetch(`${recordKey}/export?format=${format}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || 'Export failed');
+      }
+
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.style.display = 'none';
+      a.href = url;
+      a.download = `safeguarding-incident-${record.incident.referenceNumber}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      // The export is recorded in the incident log
+      queryClient.invalidateQueries({ queryKey: [recordKey] });
+    } catch (error: any) {
+      toast({
+        title: t('incidents.exportFailed', 'Export Failed'),
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const forbidden = error instanceof Error && error.message.startsWith('403');
+  const incident = record?.incident;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <FileLock2 className="w-5 h-5" />
+          <span>{t('incidents.title', 'Safeguarding Incident Log')}</span>
+          <Badge variant="outline">{t('incidents.restricted', 'Restricted')}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {t('incidents.description', 'Every urgent safeguarding detection is recorded here with the text that triggered it. Records cannot be edited or deleted; add actions and the outcome, then sign the incident off.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {forbidden ? (
+          <Alert>
+            <Lock className="h-4 w-4" />
+            <AlertDescription>
+              {t('incidents.forbidden', 'Only super admins and designated safeguarding leads can see safeguarding incidents. Leads are matched to their account by email address.')}
+            </AlertDescription>
+          </Alert>
+        ) : (
+          <>
+            <div className="flex items-center space-x-2">
+              <Label htmlFor="incident-status-filter">{t('incidents.status', 'Status')}</Label>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as typeof statusFilter)}>
+                <SelectTrigger id="incident-status-filter" className="w-40" data-testid="select-incident-status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="open">{t('incidents.open', 'Open')}</SelectItem>
+                  <SelectItem value="closed">{t('incidents.closedFilter', 'Closed')}</SelectItem>
+                  <SelectItem value="all">{t('incidents.all', 'All')}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {isLoading ? (
+              <p className="text-sm text-gray-600">{t('incidents.loading', 'Loading incidents...')}</p>
+            ) : data && data.incidents.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('incidents.reference', 'Reference')}</TableHead>
+                    <TableHead>{t('incidents.recorded', 'Recorded')}</TableHead>
+                    {data.allSchools && <TableHead>{t('incidents.school', 'School')}</TableHead>}
+                    <TableHead>{t('incidents.student', 'Student')}</TableHead>
+                    <TableHead>{t('incidents.category', 'Category')}</TableHead>
+                    <TableHead>{t('incidents.risk', 'Risk')}</TableHead>
+                    <TableHead>{t('incidents.status', 'Status')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.incidents.map((row) => (
+                    <TableRow
+                      key={row.id}
+                      className="cursor-pointer hover:bg-gray-50"
+                      onClick={() => setSelectedId(row.id)}
+                      data-testid={`row-incident-${row.id}`}
+                    >
+                      <TableCell className="font-mono text-sm">{row.referenceNumber}</TableCell>
+                      <TableCell className="text-sm">{formatDateTime(row.createdAt)}</TableCell>
+                      {data.allSchools && <TableCell className="text-sm">{row.schoolName || '-'}</TableCell>}
+                      <TableCell>{row.studentLabel}</TableCell>
+                      <TableCell className="text-sm">{row.primaryCategory ? CATEGORY_LABELS[row.primaryCategory as SafeguardingCategory] : '-'}</TableCell>
+                      <TableCell>{row.riskScore}</TableCell>
+                      <TableCell>
+                        <Badge variant={row.status === 'open' ? 'destructive' : 'secondary'}>
+                          {row.status === 'open' ? t('incidents.open', 'Open') : t('incidents.closedFilter', 'Closed')}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-gray-600">{t('incidents.none', 'No safeguarding incidents match this filter.')}</p>
+            )}
+          </>
+        )}
+
+        <Dialog open={!!selectedId} onOpenChange={(open) => !open && setSelectedId(null)}>
+          <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {t('incidents.incident', 'Safeguarding Incident')} {incident?.referenceNumber}
+              </DialogTitle>
+            </DialogHeader>
+
+            {recordLoading || !record || !incident ? (
+              <p className="text-sm text-gray-600">{t('incidents.loadingRecord', 'Loading incident...')}</p>
+            ) : (
+              <div className="space-y-5">
+                <div className="grid grid-cols-2 gap-2 text-sm">
+                  <div><span className="font-medium">{t('incidents.recorded', 'Recorded')}:</span> {formatDateTime(incident.createdAt)}</div>
+                  <div><span className="font-medium">{t('incidents.school', 'School')}:</span> {incident.schoolName || '-'}</div>
+                  <div><span className="font-medium">{t('incidents.student', 'Student')}:</span> {incident.studentLabel}</div>
+                  <div><span className="font-medium">{t('incidents.reportedBy', 'Reported by')}:</span> {incident.reportedBy}</div>
+                  <div><span className="font-medium">{t('incidents.source', 'Source')}:</span> {SOURCE_LABELS[incident.source] || incident.source}</div>
+                  <div>
+                    <span className="font-medium">{t('incidents.category', 'Category')}:</span>{' '}
+                    {incident.primaryCategory ? CATEGORY_LABELS[incident.primaryCategory as SafeguardingCategory] : '-'} ({incident.riskScore}/100)
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <h4 className="font-medium">{t('incidents.triggeringText', 'Triggering text')}</h4>
+                  <p className="text-sm whitespace-pre-wrap rounded border bg-gray-50 p-3" data-testid="text-incident-trigger">{incident.triggeringText}</p>
+                  {incident.classifierExplanation && <p className="text-xs text-gray-500">{incident.classifierExplanation}</p>}
+                </div>
+
+                {record.escalations.map((escalation) => (
+                  <div key={escalation.notificationId} className="space-y-1">
+                    <h4 className="font-medium">
+                      {t('incidents.escalation', 'Notification & escalation')}{' '}
+                      <Badge variant={escalation.acknowledgedAt ? 'secondary' : 'destructive'}>
+                        {escalation.acknowledgedAt
+                          ? `${t('incidents.acknowledgedBy', 'Acknowledged by')} ${escalation.acknowledgedBy}`
+                          : t('incidents.unacknowledged', 'Not acknowledged')}
+                      </Badge>
+                    </h4>
+                    <ul className="text-sm space-y-1">
+                      {escalation.events.map((event, index) => (
+                        <li key={index} className="text-gray-700">
+                          <span className="text-gray-500">{formatDateTime(event.at)}</span>{' '}
+                          {ENTRY_LABELS[event.action] || event.action}
+                          {(event.contact || event.actorName) && ` - ${event.contact || event.actorName}`}
+                          {event.note && `: ${event.note}`}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+
+                <div className="space-y-1">
+                  <h4 className="font-medium">{t('incidents.log', 'Incident log')}</h4>
+                  {record.entries.length === 0 ? (
+                    <p className="text-sm text-gray-500">{t('incidents.noEntries', 'No entries yet.')}</p>
+                  ) : (
+                    <ul className="text-sm space-y-2">
+                      {record.entries.map((entry) => (
+                        <li key={entry.id} className="border-l-2 border-gray-200 pl-3" data-testid={`entry-incident-${entry.id}`}>
+                          <div className="text-gray-500">
+                            {formatDateTime(entry.createdAt)} · {ENTRY_LABELS[entry.type] || entry.type}
+                            {entry.actorName && ` · ${entry.actorName}`}
+                          </div>
+                          {entry.note && <div className="whitespace-pre-wrap">{entry.note}</div>}
+                          {Array.isArray(entry.notified) && entry.notified.length > 0 && (
+                            <div className="text-xs text-gray-500">{(entry.notified as string[]).join(', ')}</div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+
+                {incident.status === 'open' ? (
+                  <>
+                    <div className="space-y-2 rounded-lg border p-3">
+                      <Label>{t('incidents.addEntry', 'Add to the log')}</Label>
+                      <Select value={entryType} onValueChange={(value) => setEntryType(value as typeof entryType)}>
+                        <SelectTrigger className="w-48" data-testid="select-incident-entry-type">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="action">{t('incidents.actionTaken', 'Action taken')}</SelectItem>
+                          <SelectItem value="outcome">{t('incidents.outcomeUpdate', 'Outcome update')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Textarea
+                        rows={3}
+                        placeholder={t('incidents.entryPlaceholder', 'e.g. Spoke with the student and parent; referral made to children\'s services.')}
+                        value={entryNote}
+                        onChange={(e) => setEntryNote(e.target.value)}
+                        data-testid="textarea-incident-entry"
+                      />
+                      <Button
+                        size="sm"
+                        onClick={() => addEntryMutation.mutate()}
+                        disabled={!entryNote.trim() || addEntryMutation.isPending}
+                        data-testid="button-add-incident-entry"
+                      >
+                        <Plus className="w-4 h-4 mr-2" />
+                        {t('incidents.addEntryButton', 'Add Entry')}
+                      </Button>
+                    </div>
+
+                    <div className="space-y-2 rounded-lg border border-red-200 p-3">
+                      <Label>{t('incidents.closeTitle', 'Close and sign off')}</Label>
+                      <Textarea
+                        rows={3}
+                        placeholder={t('incidents.outcomePlaceholder', 'Final outcome')}
+                        value={outcome}
+                        onChange={(e) => setOutcome(e.target.value)}
+                        data-testid="textarea-incident-outcome"
+                      />
+                      <Input
+                        placeholder={t('incidents.signOffPlaceholder', 'Your name and role, e.g. Jane Smith, Designated Safeguarding Lead')}
+                        value={signOff}
+                        onChange={(e) => setSignOff(e.target.value)}
+                        data-testid="input-incident-signoff"
+                      />
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => closeMutation.mutate()}
+                        disabled={!outcome.trim() || signOff.trim().length < 3 || closeMutation.isPending}
+                        data-testid="button-close-incident"
+                      >
+                        <Lock className="w-4 h-4 mr-2" />
+                        {t('incidents.closeButton', 'Close Incident')}
+                      </Button>
+                      <p className="text-xs text-gray-500">{t('incidents.closeWarning', 'A closed incident cannot be reopened or changed.')}</p>
+                    </div>
+                  </>
+                ) : (
+                  <div className="space-y-1 text-sm rounded-lg border bg-gray-50 p-3">
+                    <div><span className="font-medium">{t('incidents.outcome', 'Outcome')}:</span> {incident.outcome}</div>
+                    <div><span className="font-medium">{t('incidents.signedOff', 'Signed off by')}:</span> {incident.closureSignOff}</div>
+                    <div><span className="font-medium">{t('incidents.closedAt', 'Closed')}:</span> {formatDateTime(incident.closedAt)}</div>
+                  </div>
+                )}
+
+                <div className="flex space-x-2">
+                  <Button variant="outline" size="sm" onClick={() => handleExport('pdf')} disabled={!!exporting} data-testid="button-export-incident-pdf">
+                    <Download className="w-4 h-4 mr-2" />
+                    {t('incidents.exportPdf', 'Export PDF')}
+                  </Button>
+                  <Button variant="outline" size="sm" onClick={() => handleExport('json')} disabled={!!exporting} data-testid="button-export-incident-json">
+                    <Download className="w-4 h-4 mr-2" />
+                    {t('incidents.exportJson', 'Export JSON')}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+}
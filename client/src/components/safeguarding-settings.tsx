@@ -0,0 +1,430 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { LifeBuoy, Save, Plus, Trash2, UserPlus } from "lucide-react";
+import { SAFEGUARDING_CATEGORIES, type SafeguardingCategory, type SafeguardingKeyword, type SafeguardingLead } from "@shared/schema";
+
+interface School {
+  id: string;
+  name: string;
+}
+
+interface SafeguardingSettingsResponse {
+  schoolId: string;
+  schoolName: string;
+  protocolText: string | null;
+  extraKeywords: SafeguardingKeyword[];
+  notifyLeads: boolean;
+  escalationMinutes: number;
+  leads: SafeguardingLead[];
+  updatedAt: string | null;
+}
+
+const CATEGORY_LABELS: Record<SafeguardingCategory, string> = {
+  self_harm: 'Self-harm or suicide risk',
+  abuse: 'Abuse',
+  violence: 'Violence or threats to others',
+  neglect: 'Neglect',
+};
+
+// One mention of a high-weight phrase is enough to flag a concern as urgent
+const WEIGHT_OPTIONS = [
+  { value: 0.3, label: 'Low - only urgent alongside other indicators' },
+  { value: 0.6, label: 'Medium' },
+  { value: 0.9, label: 'High - urgent on its own' },
+];
+
+const EMPTY_LEAD = { name: "", role: "Designated Safeguarding Lead", email: "", phone: "", hours: "", escalationOrder: 1 };
+
+export default function SafeguardingSettings() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [currentSchoolId, setCurrentSchoolId] = useState("");
+  const [protocolText, setProtocolText] = useState("");
+  const [notifyLeads, setNotifyLeads] = useState(true);
+  const [escalationMinutes, setEscalationMinutes] = useState(15);
+  const [keywords, setKeywords] = useState<SafeguardingKeyword[]>([]);
+  const [newKeyword, setNewKeyword] = useState<SafeguardingKeyword>({ phrase: "", category: "self_harm", weight: 0.6 });
+  const [newLead, setNewLead] = useState(EMPTY_LEAD);
+
+  const { data: schools } = useQuery<School[]>({
+    queryKey: ["/api/admin/schools"]
+  });
+
+  const settingsKey = `/api/admin/school/${currentSchoolId}/safeguarding`;
+  const { data, isLoading } = useQuery<SafeguardingSettingsResponse>({
+    queryKey: [settingsKey],
+    enabled: !!currentSchoolId
+  });
+
+  useEffect(() => {
+    if (data) {
+      setProtocolText(data.protocolText || "");
+      setNotifyLeads(data.notifyLeads);
+      setEscalationMinutes(data.escalationMinutes);
+      setKeywords(data.extraKeywords);
+      setNewLead({ ...EMPTY_LEAD, escalationOrder: data.leads.length + 1 });
+    }
+  }, [data]);
+
+  const onError = (error: any) => {
+    toast({
+      title: t('safeguarding.saveFailed', 'Save Failed'),
+      description: error.message || t('safeguarding.saveFailedDesc', 'Failed to save safeguarding settings'),
+      variant: "destructive",
+    });
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("PUT", settingsKey, {
+        protocolText: protocolText.trim() || null,
+        extraKeywords: keywords,
+        notifyLeads,
+        escalationMinutes,
+      });
+    },
+    onSuccess: () => {
+      toast({
+        title: t('safeguarding.saved', 'Safeguarding Settings Saved'),
+        description: t('safeguarding.savedDesc', 'Urgent alerts from this school will use the new protocol and keywords.'),
+      });
+      queryClient.invalidateQueries({ queryKey: [settingsKey] });
+    },
+    onError,
+  });
+
+  const addLeadMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `${settingsKey}/leads`, {
+        ...newLead,
+        phone: newLead.phone.trim() || null,
+        hours: newLead.hours.trim() || null,
+      });
+    },
+    onSuccess: () => {
+      toast({ title: t('safeguarding.leadAdded', 'Safeguarding lead added') });
+      queryClient.invalidateQueries({ queryKey: [settingsKey] });
+    },
+    onError,
+  });
+
+  const updateLeadMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: Partial<SafeguardingLead> }) => {
+      return await apiRequest("PUT", `/api/admin/safeguarding/leads/${id}`, updates);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [settingsKey] }),
+    onError,
+  });
+
+  const deleteLeadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      return await apiRequest("DELETE", `/api/admin/safeguarding/leads/${id}`);
+    },
+    onSuccess: () => {
+      toast({ title: t('safeguarding.leadRemoved', 'Safeguarding lead removed') });
+      queryClient.invalidateQueries({ queryKey: [settingsKey] });
+    },
+    onError,
+  });
+
+  const handleAddKeyword = () => {
+    const phrase = newKeyword.phrase.trim();
+    if (phrase.length < 2) return;
+    setKeywords([...keywords.filter(keyword => keyword.phrase.toLowerCase() !== phrase.toLowerCase()), { ...newKeyword, phrase }]);
+    setNewKeyword({ ...newKeyword, phrase: "" });
+  };
+
+  const weightLabel = (weight: number) =>
+    WEIGHT_OPTIONS.reduce((closest, option) => Math.abs(option.value - weight) < Math.abs(closest.value - weight) ? option : closest).label.split(' - ')[0];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <LifeBuoy className="w-5 h-5" />
+          <span>{t('safeguarding.title', 'Safeguarding Leads & Protocol')}</span>
+          <Badge variant="outline">{t('safeguarding.adminOnly', 'Admin Only')}</Badge>
+        </CardTitle>
+        <p className="text-sm text-gray-600">
+          {t('safeguarding.description', 'When a concern is flagged as urgent, teachers are told exactly who to contact, in escalation order, and those leads are emailed an alert.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <Label htmlFor="safeguarding-school-select">{t('safeguarding.selectSchool', 'Select School')}</Label>
+          <Select value={currentSchoolId} onValueChange={setCurrentSchoolId}>
+            <SelectTrigger id="safeguarding-school-select" data-testid="select-safeguarding-school">
+              <SelectValue placeholder={t('safeguarding.selectSchoolPlaceholder', 'Choose a school to configure')} />
+            </SelectTrigger>
+            <SelectContent>
+              {schools?.map((school) => (
+                <SelectItem key={school.id} value={school.id}>
+                  {school.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {currentSchoolId && isLoading && (
+          <p className="text-sm text-gray-600">{t('safeguarding.loading', 'Loading safeguarding settings...')}</p>
+        )}
+
+        {currentSchoolId && data && !isLoading && (
+          <>
+            <div className="space-y-2">
+              <h3 className="text-lg font-medium">{t('safeguarding.leads', 'Designated Safeguarding Leads')}</h3>
+              <p className="text-sm text-gray-600">
+                {t('safeguarding.leadsDesc', 'Teachers are asked to contact leads in this order until they reach someone. Inactive leads are kept but not contacted.')}
+              </p>
+              {data.leads.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('safeguarding.order', 'Order')}</TableHead>
+                      <TableHead>{t('safeguarding.name', 'Name')}</TableHead>
+                      <TableHead>{t('safeguarding.contact', 'Contact')}</TableHead>
+                      <TableHead>{t('safeguarding.hours', 'Hours')}</TableHead>
+                      <TableHead>{t('safeguarding.active', 'Active')}</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {data.leads.map((lead) => (
+                      <TableRow key={lead.id} data-testid={`row-safeguarding-lead-${lead.id}`}>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={1}
+                            className="w-16"
+                            defaultValue={lead.escalationOrder}
+                            onBlur={(e) => {
+                              const escalationOrder = parseInt(e.target.value);
+                              if (escalationOrder >= 1 && escalationOrder !== lead.escalationOrder) {
+                                updateLeadMutation.mutate({ id: lead.id, updates: { escalationOrder } });
+                              }
+                            }}
+                            data-testid={`input-lead-order-${lead.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{lead.name}</div>
+                          <div className="text-xs text-gray-500">{lead.role}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          <div>{lead.email}</div>
+                          {lead.phone && <div className="text-gray-500">{lead.phone}</div>}
+                        </TableCell>
+                        <TableCell className="text-sm">{lead.hours || '-'}</TableCell>
+                        <TableCell>
+                          <Switch
+                            checked={lead.isActive ?? true}
+                            onCheckedChange={(checked) => updateLeadMutation.mutate({ id: lead.id, updates: { isActive: checked } })}
+                            data-testid={`switch-lead-active-${lead.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => deleteLeadMutation.mutate(lead.id)}
+                            disabled={deleteLeadMutation.isPending}
+                            data-testid={`button-delete-lead-${lead.id}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-sm text-amber-700">
+                  {t('safeguarding.noLeads', 'No leads yet - urgent alerts tell teachers to contact student support services.')}
+                </p>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 rounded-lg border p-4">
+                <Input
+                  placeholder={t('safeguarding.leadName', 'Name')}
+                  value={newLead.name}
+                  onChange={(e) => setNewLead({ ...newLead, name: e.target.value })}
+                  data-testid="input-new-lead-name"
+                />
+                <Input
+                  placeholder={t('safeguarding.leadRole', 'Role')}
+                  value={newLead.role}
+                  onChange={(e) => setNewLead({ ...newLead, role: e.target.value })}
+                  data-testid="input-new-lead-role"
+                />
+                <Input
+                  type="email"
+                  placeholder={t('safeguarding.leadEmail', 'Email')}
+                  value={newLead.email}
+                  onChange={(e) => setNewLead({ ...newLead, email: e.target.value })}
+                  data-testid="input-new-lead-email"
+                />
+                <Input
+                  placeholder={t('safeguarding.leadPhone', 'Phone')}
+                  value={newLead.phone}
+                  onChange={(e) => setNewLead({ ...newLead, phone: e.target.value })}
+                  data-testid="input-new-lead-phone"
+                />
+                <Input
+                  placeholder={t('safeguarding.leadHours', 'Hours, e.g. Mon-Fri 8:00-16:30')}
+                  value={newLead.hours}
+                  onChange={(e) => setNewLead({ ...newLead, hours: e.target.value })}
+                  data-testid="input-new-lead-hours"
+                />
+                <div className="flex space-x-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    className="w-20"
+                    value={newLead.escalationOrder}
+                    onChange={(e) => setNewLead({ ...newLead, escalationOrder: parseInt(e.target.value) || 1 })}
+                    data-testid="input-new-lead-order"
+                  />
+                  <Button
+                    onClick={() => addLeadMutation.mutate()}
+                    disabled={addLeadMutation.isPending || !newLead.name.trim() || !newLead.email.trim()}
+                    data-testid="button-add-lead"
+                  >
+                    <UserPlus className="w-4 h-4 mr-2" />
+                    {t('safeguarding.addLead', 'Add Lead')}
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between rounded-lg border p-4">
+              <div>
+                <Label htmlFor="safeguarding-notify" className="text-base font-medium">
+                  {t('safeguarding.notifyLeads', 'Email leads about urgent concerns')}
+                </Label>
+                <p className="text-sm text-gray-600">
+                  {t('safeguarding.notifyLeadsDesc', 'Active leads are emailed the student, teacher and why the concern was flagged. The teacher is still told to contact them directly.')}
+                </p>
+              </div>
+              <Switch
+                id="safeguarding-notify"
+                checked={notifyLeads}
+                onCheckedChange={setNotifyLeads}
+                data-testid="switch-safeguarding-notify"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="safeguarding-escalation">{t('safeguarding.escalationMinutes', 'Minutes before an unacknowledged urgent case escalates')}</Label>
+              <Input
+                id="safeguarding-escalation"
+                type="number"
+                min={1}
+                max={1440}
+                className="w-32"
+                value={escalationMinutes}
+                onChange={(e) => setEscalationMinutes(Math.min(1440, Math.max(1, parseInt(e.target.value) || 1)))}
+                data-testid="input-safeguarding-escalation"
+              />
+              <p className="text-sm text-gray-600">
+                {t('safeguarding.escalationMinutesDesc', 'Urgent classroom submissions go to the first lead. If nobody acknowledges them in time they move to the next lead, then to the super admins.')}
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="safeguarding-protocol">{t('safeguarding.protocol', 'School safeguarding protocol (shown in every urgent alert)')}</Label>
+              <Textarea
+                id="safeguarding-protocol"
+                rows={5}
+                placeholder={t('safeguarding.protocolPlaceholder', 'e.g. Record the disclosure word for word on a blue form and hand it to the DSL in person before the end of the day.')}
+                value={protocolText}
+                onChange={(e) => setProtocolText(e.target.value)}
+                data-testid="textarea-safeguarding-protocol"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t('safeguarding.keywords', 'Extra indicator phrases')}</Label>
+              <p className="text-sm text-gray-600">
+                {t('safeguarding.keywordsDesc', 'Added to the built-in English and Chinese lexicons for this school only, e.g. local slang.')}
+              </p>
+              {keywords.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {keywords.map((keyword) => (
+                    <Badge key={keyword.phrase} variant="secondary" className="flex items-center space-x-1" data-testid={`badge-keyword-${keyword.phrase}`}>
+                      <span>{keyword.phrase}</span>
+                      <span className="text-gray-500">· {t(`safeguarding.categories.${keyword.category}`, CATEGORY_LABELS[keyword.category])} · {weightLabel(keyword.weight)}</span>
+                      <button
+                        type="button"
+                        className="ml-1 text-gray-500 hover:text-red-600"
+                        onClick={() => setKeywords(keywords.filter(existing => existing.phrase !== keyword.phrase))}
+                        aria-label={t('safeguarding.removeKeyword', 'Remove phrase')}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex flex-col md:flex-row gap-2">
+                <Input
+                  placeholder={t('safeguarding.keywordPhrase', 'Phrase')}
+                  value={newKeyword.phrase}
+                  onChange={(e) => setNewKeyword({ ...newKeyword, phrase: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddKeyword()}
+                  data-testid="input-new-keyword"
+                />
+                <Select value={newKeyword.category} onValueChange={(category) => setNewKeyword({ ...newKeyword, category: category as SafeguardingCategory })}>
+                  <SelectTrigger className="md:w-64" data-testid="select-new-keyword-category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SAFEGUARDING_CATEGORIES.map((category) => (
+                      <SelectItem key={category} value={category}>
+                        {t(`safeguarding.categories.${category}`, CATEGORY_LABELS[category])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select value={String(newKeyword.weight)} onValueChange={(weight) => setNewKeyword({ ...newKeyword, weight: Number(weight) })}>
+                  <SelectTrigger className="md:w-80" data-testid="select-new-keyword-weight">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {WEIGHT_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={String(option.value)}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" onClick={handleAddKeyword} data-testid="button-add-keyword">
+                  <Plus className="w-4 h-4 mr-2" />
+                  {t('safeguarding.addKeyword', 'Add')}
+                </Button>
+              </div>
+            </div>
+
+            <Button onClick={() => saveSettingsMutation.mutate()} disabled={saveSettingsMutation.isPending} data-testid="button-save-safeguarding-settings">
+              <Save className="w-4 h-4 mr-2" />
+              {saveSettingsMutation.isPending ? t('safeguarding.saving', 'Saving...') : t('safeguarding.save', 'Save Protocol & Keywords')}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
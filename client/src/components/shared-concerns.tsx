@@ -0,0 +1,49 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Link } from "wouter";
+import { Badge } from "@/components/ui/badge";
+import { Users } from "lucide-react";
+import { SHARE_ACCESS_LABELS, SHARE_ROLE_LABELS } from "@/components/concern-sharing";
+import type { SharedConcernSummary } from "@shared/schema";
+
+// Concerns colleagues have shared with the teacher; hidden until there are any
+export default function SharedConcerns() {
+  const { t } = useTranslation();
+  const { data: shared = [] } = useQuery<SharedConcernSummary[]>({
+    queryKey: ["/api/shared-concerns"],
+  });
+
+  if (shared.length === 0) return null;
+
+  return (
+    <div className="bg-blue-50 rounded-xl sm:rounded-2xl border border-blue-200 p-4 sm:p-6 mb-4 sm:mb-6" data-testid="shared-concerns">
+      <div className="flex items-center mb-4">
+        <div className="w-8 h-8 sm:w-10 sm:h-10 bg-blue-100 rounded-lg sm:rounded-xl flex items-center justify-center mr-2 sm:mr-3">
+          <Users className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600" />
+        </div>
+        <h2 className="text-lg sm:text-xl font-bold text-gray-900">{t('sharing.sharedWithMe', 'Shared with Me')}</h2>
+      </div>
+      <ul className="bg-white rounded-lg sm:rounded-xl border border-gray-200 divide-y divide-gray-100">
+        {shared.map(concern => (
+          <li key={concern.concernId}>
+            <Link href={`/concerns/${concern.concernId}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2 p-3 sm:p-4 cursor-pointer hover:bg-gray-50" data-testid={`shared-concern-${concern.concernId}`}>
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">{concern.studentFirstName} {concern.studentLastInitial}.</p>
+                  <p className="text-xs text-gray-500">
+                    {t('sharing.sharedBy', 'Shared by {{name}}', { name: concern.ownerName })}
+                    {concern.sharedAt && ` · ${new Date(concern.sharedAt).toLocaleDateString()}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">{t(`sharing.role.${concern.role}`, SHARE_ROLE_LABELS[concern.role])}</Badge>
+                  <Badge className="bg-blue-100 text-blue-800">{t(`sharing.access.${concern.access}`, SHARE_ACCESS_LABELS[concern.access])}</Badge>
+                </div>
+              </div>
+            </Link>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
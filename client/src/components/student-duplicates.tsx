@@ -0,0 +1,218 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { Link } from "wouter";
+import { GitMerge, Link2, Search, X } from "lucide-react";
+import type { Student, StudentDuplicateFlag } from "@shared/schema";
+
+type StudentSummary = Student & { concernCount: number; submissionCount: number };
+
+interface DuplicatePair {
+  flag: StudentDuplicateFlag;
+  schoolName: string | null;
+  student: StudentSummary;
+  duplicate: StudentSummary;
+}
+
+interface PendingMerge {
+  pair: DuplicatePair;
+  keep: StudentSummary;
+  merge: StudentSummary;
+}
+
+export default function StudentDuplicates() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<'open' | 'dismissed'>('open');
+  const [pendingMerge, setPendingMerge] = useState<PendingMerge | null>(null);
+
+  const listKey = `/api/admin/students/duplicates?status=${statusFilter}`;
+  const { data: pairs = [], isLoading } = useQuery<DuplicatePair[]>({
+    queryKey: [listKey],
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: [listKey] });
+
+  const onError = (error: any) => {
+    toast({
+      title: t('students.duplicatesFailed', 'Something went wrong'),
+      description: error.message || t('students.duplicatesFailedDesc', 'Failed to update student records'),
+      variant: "destructive",
+    });
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/admin/students/duplicates/scan"),
+    onSuccess: (data: { flagged: number }) => {
+      toast({ title: t('students.scanComplete', 'Scan complete'), description: t('students.scanFlagged', '{{count}} likely duplicate pair(s) found', { count: data.flagged }) });
+      refresh();
+    },
+    onError,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", "/api/admin/students/link-existing"),
+    onSuccess: (data: { linked: { concerns: number; submissions: number }; more: boolean }) => {
+      toast({
+        title: t('students.linked', 'Existing records linked'),
+        description: `${data.linked.concerns} concern(s), ${data.linked.submissions} submission(s)${data.more ? ` - ${t('students.linkMore', 'run again to link more')}` : ''}`,
+      });
+    },
+    onError,
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async (merge: PendingMerge) => apiRequest("POST", `/api/admin/students/duplicates/${merge.pair.flag.id}/merge`, { keepStudentId: merge.keep.id }),
+    onSuccess: (data: { moved: { concerns: number; interventions: number; progressNotes: number; classroomSubmissions: number; meetings: number; tierTransitions: number } }) => {
+      setPendingMerge(null);
+      toast({
+        title: t('students.merged', 'Students merged'),
+        description: `${data.moved.concerns} concern(s), ${data.moved.interventions} intervention(s), ${data.moved.progressNotes} progress note(s), ${data.moved.classroomSubmissions} submission(s), ${data.moved.meetings} meeting(s) and ${data.moved.tierTransitions} tier change(s) moved`,
+      });
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+    },
+    onError: (error: any) => {
+      setPendingMerge(null);
+      onError(error);
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (flagId: string) => apiRequest("POST", `/api/admin/students/duplicates/${flagId}/dismiss`),
+    onSuccess: () => {
+      toast({ title: t('students.dismissed', 'Marked as different students') });
+      refresh();
+    },
+    onError,
+  });
+
+  const renderStudent = (pair: DuplicatePair, student: StudentSummary, other: StudentSummary) => (
+    <div className="flex-1 border rounded-lg p-3 space-y-1" data-testid={`duplicate-student-${student.id}`}>
+      <Link href={`/admin/students/${student.id}`} className="font-medium text-gray-900 hover:underline">{student.firstName} {student.lastInitial}.</Link>
+      <p className="text-sm text-gray-600">
+        {student.currentGrade ? `${t('form.grade', 'Grade')} ${student.currentGrade}` : t('students.noGrade', 'No grade')}
+        {student.externalSisId && ` · SIS ${student.externalSisId}`}
+      </p>
+      <p className="text-xs text-gray-500">
+        {student.concernCount} concern(s) · {student.submissionCount} submission(s) · {t('students.created', 'created')} {student.createdAt ? new Date(student.createdAt).toLocaleDateString() : '-'}
+      </p>
+      {statusFilter === 'open' && (
+        <Button
+          size="sm"
+          variant="outline"
+          className="mt-2"
+          onClick={() => setPendingMerge({ pair, keep: student, merge: other })}
+          data-testid={`button-keep-${student.id}`}
+        >
+          <GitMerge className="h-4 w-4 mr-1" />
+          {t('students.keepThis', 'Keep this record')}
+        </Button>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <CardTitle>{t('students.duplicatesTitle', 'Duplicate Students')}</CardTitle>
+          <div className="flex flex-wrap gap-2">
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as 'open' | 'dismissed')}>
+              <SelectTrigger className="w-40" data-testid="select-duplicate-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">{t('students.flagOpen', 'Needs review')}</SelectItem>
+                <SelectItem value="dismissed">{t('students.flagDismissed', 'Dismissed')}</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={() => linkMutation.mutate()} disabled={linkMutation.isPending} data-testid="button-link-existing-students">
+              <Link2 className="h-4 w-4 mr-1" />
+              {t('students.linkExisting', 'Link existing records')}
+            </Button>
+            <Button onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending} data-testid="button-scan-duplicates">
+              <Search className="h-4 w-4 mr-1" />
+              {scanMutation.isPending ? t('students.scanning', 'Scanning...') : t('students.scanNow', 'Scan now')}
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          {t('students.duplicatesDesc', 'Student records at the same school that are likely the same child, based on name, grade and shared teachers. Merging moves every concern, intervention, progress note, Classroom Solutions submission and meeting onto the record you keep.')}
+        </p>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-gray-500">{t('common.loading', 'Loading...')}</p>
+        ) : pairs.length === 0 ? (
+          <p className="text-gray-500" data-testid="text-no-duplicates">{t('students.noDuplicates', 'No likely duplicates found.')}</p>
+        ) : (
+          <div className="space-y-4">
+            {pairs.map(pair => (
+              <div key={pair.flag.id} className="border rounded-lg p-4" data-testid={`duplicate-pair-${pair.flag.id}`}>
+                <div className="flex flex-wrap items-center gap-2 mb-3">
+                  <Badge className={pair.flag.score >= 80 ? "bg-red-100 text-red-800" : "bg-amber-100 text-amber-800"}>
+                    {pair.flag.score}% {t('students.match', 'match')}
+                  </Badge>
+                  {pair.schoolName && <span className="text-sm text-gray-600">{pair.schoolName}</span>}
+                  {(Array.isArray(pair.flag.reasons) ? pair.flag.reasons as string[] : []).map(reason => (
+                    <Badge key={reason} variant="outline">{reason}</Badge>
+                  ))}
+                </div>
+                <div className="flex flex-col md:flex-row gap-3">
+                  {renderStudent(pair, pair.student, pair.duplicate)}
+                  {renderStudent(pair, pair.duplicate, pair.student)}
+                </div>
+                {statusFilter === 'open' && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="mt-3"
+                    onClick={() => dismissMutation.mutate(pair.flag.id)}
+                    disabled={dismissMutation.isPending}
+                    data-testid={`button-dismiss-${pair.flag.id}`}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    {t('students.notDuplicate', 'Not the same student')}
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('students.confirmMerge', 'Merge student records?')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingMerge && t('students.confirmMergeDesc', '{{merge}} will be merged into {{keep}} and deleted. This cannot be undone; the merge is recorded in the admin log.', {
+                merge: `${pendingMerge.merge.firstName} ${pendingMerge.merge.lastInitial}.`,
+                keep: `${pendingMerge.keep.firstName} ${pendingMerge.keep.lastInitial}.`,
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-merge">{t('common.cancel', 'Cancel')}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingMerge && mergeMutation.mutate(pendingMerge)}
+              disabled={mergeMutation.isPending}
+              data-testid="button-confirm-merge"
+            >
+              {mergeMutation.isPending ? t('students.merging', 'Merging...') : t('students.merge', 'Merge')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
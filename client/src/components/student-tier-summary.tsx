@@ -0,0 +1,109 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Link } from "wouter";
+import { MTSS_TIERS } from "@shared/schema";
+
+interface TierSummaryResponse {
+  schools: {
+    schoolId: string | null;
+    schoolName: string | null;
+    tiers: { tier: number; students: number; averageDaysAtTier: number; longestDaysAtTier: number }[];
+  }[];
+  longestAtTier: {
+    id: string;
+    firstName: string;
+    lastInitial: string;
+    currentGrade: string | null;
+    schoolName: string | null;
+    currentTier: number;
+    daysAtTier: number;
+  }[];
+}
+
+export default function StudentTierSummary() {
+  const { t } = useTranslation();
+  const { data, isLoading } = useQuery<TierSummaryResponse>({
+    queryKey: ["/api/admin/students/tiers"],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t('students.tierSummaryTitle', 'MTSS Tiers')}</CardTitle>
+        <p className="text-sm text-gray-600">
+          {t('students.tierSummaryDesc', 'How many students are at each tier in every school, and how many days they have been there on average and at most.')}
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-gray-500">{t('common.loading', 'Loading...')}</p>
+        ) : !data || data.schools.length === 0 ? (
+          <p className="text-gray-500" data-testid="text-no-tier-data">{t('students.noStudents', 'No student records yet.')}</p>
+        ) : (
+          <>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('students.school', 'School')}</TableHead>
+                  {MTSS_TIERS.map(tier => (
+                    <TableHead key={tier}>{t('students.tier', 'Tier {{tier}}', { tier })}</TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.schools.map(school => (
+                  <TableRow key={school.schoolId || 'none'} data-testid={`row-tier-summary-${school.schoolId || 'none'}`}>
+                    <TableCell className="font-medium">{school.schoolName || t('students.noSchool', 'No school')}</TableCell>
+                    {MTSS_TIERS.map(tier => {
+                      const summary = school.tiers.find(entry => entry.tier === tier);
+                      return (
+                        <TableCell key={tier}>
+                          {summary ? (
+                            <div>
+                              <span className="font-semibold">{summary.students}</span>
+                              <p className="text-xs text-gray-500">
+                                {t('students.tierDays', 'avg {{average}} / max {{longest}} days', { average: summary.averageDaysAtTier, longest: summary.longestDaysAtTier })}
+                              </p>
+                            </div>
+                          ) : (
+                            <span className="text-gray-400">0</span>
+                          )}
+                        </TableCell>
+                      );
+                    })}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {data.longestAtTier.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">
+                  {t('students.longestAtTier', 'Longest in tier 2 or 3')}
+                </h3>
+                <ul className="space-y-1 text-sm">
+                  {data.longestAtTier.map(student => (
+                    <li key={student.id} className="flex flex-wrap items-center gap-2" data-testid={`longest-at-tier-${student.id}`}>
+                      <Badge variant="outline">{t('students.tier', 'Tier {{tier}}', { tier: student.currentTier })}</Badge>
+                      <Link href={`/admin/students/${student.id}`} className="hover:underline">
+                        {student.firstName} {student.lastInitial}.
+                      </Link>
+                      <span className="text-gray-500">
+                        {student.schoolName || t('students.noSchool', 'No school')}
+                        {student.currentGrade && ` · ${t('form.grade', 'Grade')} ${student.currentGrade}`}
+                        {' · '}{t('students.daysAtTier', '{{days}} days', { days: student.daysAtTier })}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
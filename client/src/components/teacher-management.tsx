@@ -47,6 +47,7 @@ interface Teacher {
   lastUsageReset?: string;
   isAdmin: boolean;
   role?: string;
+  isMtssTeam?: boolean;
   isActive: boolean;
   createdAt: string;
   lastLoginAt?: string;
@@ -234,7 +235,8 @@ export default function TeacherManagement() {
           lastName: selectedTeacher.lastName,
           email: selectedTeacher.email,
           supportRequestsLimit: selectedTeacher.supportRequestsLimit,
-          isActive: selectedTeacher.isActive
+          isActive: selectedTeacher.isActive,
+          isMtssTeam: !!selectedTeacher.isMtssTeam
         }
       });
 
@@ -1272,6 +1274,14 @@ Michael,Brown,michael.brown@school.edu,,Lincoln Elementary,Springfield District,
                 />
                 <Label>Active Account</Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  checked={!!selectedTeacher.isMtssTeam}
+                  onCheckedChange={(checked: boolean) => setSelectedTeacher({...selectedTeacher, isMtssTeam: checked})}
+                  data-testid="checkbox-edit-mtss-team"
+                />
+                <Label>MTSS Team Member (sees every concern on student timelines and records tier changes)</Label>
+              </div>
               <div className="flex justify-end space-x-2 pt-4">
                 <Button variant="outline" onClick={() => setShowEditDialog(false)} data-testid="button-cancel-edit">
                   Cancel
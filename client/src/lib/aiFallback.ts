@@ -0,0 +1,18 @@
+import type { AIFallbackReason } from "@shared/schema";
+
+// When the AI provider is unavailable the server answers with built-in template content and says
+// why (`fallbackReason`). These explain the cause in plain language; callers add what it means
+// for the content they show.
+
+const FALLBACK_CAUSES: Record<AIFallbackReason, string> = {
+  no_api_key: "AI generation isn't set up for your school yet.",
+  timeout: "The AI service took too long to respond.",
+  circuit_open: "The AI service is temporarily unavailable.",
+  auth_failed: "The AI service rejected our request - please let your administrator know.",
+  provider_error: "The AI service is having problems right now.",
+  empty_response: "The AI service returned an empty answer.",
+};
+
+export function getFallbackCause(reason: AIFallbackReason | string): string {
+  return FALLBACK_CAUSES[reason as AIFallbackReason] || FALLBACK_CAUSES.provider_error;
+}
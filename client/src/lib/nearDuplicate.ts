@@ -0,0 +1,25 @@
+// The concern and classroom submit endpoints answer 409 with the earlier submission when a teacher
+// sends a near-identical request within a few minutes. apiRequest turns that into
+// `Error("409: {json}")`, so the body is recovered from the message.
+
+export interface NearDuplicate {
+  concernId?: string; // /api/concerns
+  submissionId?: string; // /api/classroom/submit
+  studentFirstName: string | null;
+  studentLastInitial: string | null;
+  createdAt: string;
+  similarity: number;
+  minutesAgo: number;
+}
+
+export function getNearDuplicate(error: unknown): NearDuplicate | null {
+  const message = error instanceof Error ? error.message : '';
+  if (!message.startsWith('409: ')) return null;
+
+  try {
+    const body = JSON.parse(message.slice(5));
+    return body?.nearDuplicate || null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,66 @@
+// Word-level diff between two versions of an intervention plan, for the version history view.
+// A plain longest-common-subsequence over tokens is plenty for plan-sized text.
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many token pairs the texts are shown as fully removed and added instead
+const MAX_DIFF_CELLS = 400_000;
+
+function tokenize(text: string): string[] {
+  return text.match(/\s+|[^\s]+/g) || [];
+}
+
+function merge(parts: DiffPart[]): DiffPart[] {
+  return parts.reduce<DiffPart[]>((merged, part) => {
+    const last = merged[merged.length - 1];
+    if (last && last.type === part.type) {
+      last.text += part.text;
+    } else {
+      merged.push({ ...part });
+    }
+    return merged;
+  }, []);
+}
+
+export function diffText(before: string, after: string): DiffPart[] {
+  if (before === after) return before ? [{ type: 'same', text: before }] : [];
+  const a = tokenize(before);
+  const b = tokenize(after);
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [{ type: 'removed', text: before }, { type: 'added', text: after }].filter(part => part.text) as DiffPart[];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      parts.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ type: 'removed', text: a[i++] });
+    } else {
+      parts.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) parts.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) parts.push({ type: 'added', text: b[j++] });
+  return merge(parts);
+}
+
+// Lists (steps, progress measures, success criteria) are compared one item per line
+export function diffList(before: string[], after: string[]): DiffPart[] {
+  return diffText(before.join('\n'), after.join('\n'));
+}
@@ -22,14 +22,25 @@ import {
   ArrowLeft
 } from "lucide-react";
 import TeacherManagement from "@/components/teacher-management";
+import StudentDuplicates from "@/components/student-duplicates";
+import StudentTierSummary from "@/components/student-tier-summary";
+import OverdueCheckIns from "@/components/overdue-check-ins";
+import InterventionLibraryManagement from "@/components/intervention-library-management";
 import ApiKeyManagement from "@/components/api-key-management";
 import SchoolExport from "@/components/school-export";
 import SchoolEmailSettings from "@/components/school-email-settings";
+import PiiRedactionSettings from "@/components/pii-redaction-settings";
+import SafeguardingSettings from "@/components/safeguarding-settings";
+import SafeguardingIncidents from "@/components/safeguarding-incidents";
+import PromptTemplateManagement from "@/components/prompt-template-management";
 import AnalyticsDashboard from "@/components/analytics-dashboard";
+import InterventionEffectiveness from "@/components/intervention-effectiveness";
+import AiUsageDashboard from "@/components/ai-usage-dashboard";
 import FeatureFlagManagement from "@/components/feature-flag-management";
 import DemoProgramManagement from "@/components/demo-program-management";
 import AppHeader from "@/components/app-header";
 import { useFeatureFlags } from "@/hooks/useFeatureFlags";
+import { useAuth } from "@/hooks/useAuth";
 
 interface DashboardStats {
   totalUsers: number;
@@ -47,6 +58,8 @@ interface DashboardStats {
 export default function AdminC2CDashboard() {
   const { toast } = useToast();
   const { isFeatureEnabled } = useFeatureFlags();
+  const { user } = useAuth();
+  const isSuperAdmin = (user as any)?.role === 'super_admin';
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("overview");
@@ -119,6 +132,18 @@ export default function AdminC2CDashboard() {
               >
                 Teachers
               </TabsTrigger>
+              <TabsTrigger 
+                value="students" 
+                className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                Students
+              </TabsTrigger>
+              <TabsTrigger 
+                value="library" 
+                className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                Library
+              </TabsTrigger>
               <TabsTrigger 
                 value="email" 
                 className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
@@ -137,6 +162,38 @@ export default function AdminC2CDashboard() {
               >
                 API Keys
               </TabsTrigger>
+              <TabsTrigger 
+                value="ai-usage" 
+                className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                AI Usage
+              </TabsTrigger>
+              <TabsTrigger 
+                value="privacy" 
+                className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                Privacy
+              </TabsTrigger>
+              <TabsTrigger 
+                value="safeguarding" 
+                className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                Safeguarding
+              </TabsTrigger>
+              <TabsTrigger 
+                value="incidents" 
+                className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
+              >
+                Incidents
+              </TabsTrigger>
+              {isSuperAdmin && (
+                <TabsTrigger 
+                  value="prompts" 
+                  className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
+                >
+                  Prompts
+                </TabsTrigger>
+              )}
               <TabsTrigger 
                 value="feature-flags" 
                 className="flex-shrink-0 px-3 py-2 text-xs sm:text-sm font-medium whitespace-nowrap"
@@ -161,9 +218,19 @@ export default function AdminC2CDashboard() {
           </div>
 
           <TabsContent value="teachers" className="space-y-6">
+            <OverdueCheckIns />
             <TeacherManagement />
           </TabsContent>
 
+          <TabsContent value="students" className="space-y-6">
+            <StudentTierSummary />
+            <StudentDuplicates />
+          </TabsContent>
+
+          <TabsContent value="library" className="space-y-6">
+            <InterventionLibraryManagement />
+          </TabsContent>
+
           <TabsContent value="email" className="space-y-6">
             <SchoolEmailSettings />
           </TabsContent>
@@ -176,6 +243,28 @@ export default function AdminC2CDashboard() {
             <ApiKeyManagement />
           </TabsContent>
 
+          <TabsContent value="ai-usage" className="space-y-6">
+            <AiUsageDashboard />
+          </TabsContent>
+
+          <TabsContent value="privacy" className="space-y-6">
+            <PiiRedactionSettings />
+          </TabsContent>
+
+          <TabsContent value="safeguarding" className="space-y-6">
+            <SafeguardingSettings />
+          </TabsContent>
+
+          <TabsContent value="incidents" className="space-y-6">
+            <SafeguardingIncidents />
+          </TabsContent>
+
+          {isSuperAdmin && (
+            <TabsContent value="prompts" className="space-y-6">
+              <PromptTemplateManagement />
+            </TabsContent>
+          )}
+
           <TabsContent value="feature-flags" className="space-y-6">
             <FeatureFlagManagement />
           </TabsContent>
@@ -188,6 +277,7 @@ export default function AdminC2CDashboard() {
 
           <TabsContent value="analytics" className="space-y-6">
             <AnalyticsDashboard />
+            <InterventionEffectiveness />
           </TabsContent>
 
           <TabsContent value="overview" className="space-y-6">
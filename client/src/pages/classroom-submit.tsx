@@ -14,6 +14,9 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from '@/lib/queryClient';
+import { getFallbackCause } from "@/lib/aiFallback";
+import { getNearDuplicate, type NearDuplicate } from '@/lib/nearDuplicate';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import TeacherVerification from '@/components/teacher-verification';
 import { FileText, Send, CheckCircle, AlertCircle, Loader2, Home, Search } from 'lucide-react';
 
@@ -51,6 +54,7 @@ export default function ClassroomSubmit() {
   const [isVerified, setIsVerified] = useState(false);
   const [verifiedTeacherEmail, setVerifiedTeacherEmail] = useState('');
   const [showPinReset, setShowPinReset] = useState(false);
+  const [nearDuplicate, setNearDuplicate] = useState<{ match: NearDuplicate; data: ClassroomSubmissionForm } | null>(null);
   const { toast } = useToast();
 
   const form = useForm<ClassroomSubmissionForm>({
@@ -102,7 +106,8 @@ export default function ClassroomSubmit() {
 
   // No longer need email watcher - verification is handled separately
 
-  const onSubmit = async (data: ClassroomSubmissionForm) => {
+  // allowDuplicate confirms a new request after the server found a near-identical recent one
+  const onSubmit = async (data: ClassroomSubmissionForm, allowDuplicate = false) => {
     setIsSubmitting(true);
     try {
       // Form is already validated by Zod schema
@@ -110,7 +115,7 @@ export default function ClassroomSubmit() {
       const response = await apiRequest({
         url: '/api/classroom/submit',
         method: 'POST',
-        body: data,
+        body: allowDuplicate ? { ...data, allowDuplicate } : data,
       });
 
       console.log('Submission response:', response);
@@ -123,6 +128,11 @@ export default function ClassroomSubmit() {
       });
 
     } catch (error: any) {
+      const match = getNearDuplicate(error);
+      if (match) {
+        setNearDuplicate({ match, data });
+        return;
+      }
       console.error('Submission error:', error);
       let errorMessage = 'Failed to submit request. Please try again.';
       
@@ -189,6 +199,16 @@ export default function ClassroomSubmit() {
                   <strong>Remaining Requests:</strong> {submissionResult.remainingRequests} this month
                 </p>
               )}
+              {submissionResult.cached && (
+                <p className="text-sm text-blue-800 mt-2" data-testid="text-cached-submission">
+                  This matched an identical request you made earlier, so it did not use one of your monthly requests.
+                </p>
+              )}
+              {submissionResult.fallbackReason && (
+                <p className="text-sm text-amber-800 mt-2" data-testid="text-fallback-submission">
+                  {getFallbackCause(submissionResult.fallbackReason)} Your request is saved, and the support team will tailor the strategies to your student before they are sent.
+                </p>
+              )}
             </div>
             <p className="text-xs text-gray-500 mb-6">
               Submission ID: {submissionResult.submissionId}
@@ -267,7 +287,7 @@ export default function ClassroomSubmit() {
         </Alert>
 
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="space-y-6">
             {/* Teacher Information */}
             <Card>
               <CardHeader>
@@ -976,6 +996,32 @@ export default function ClassroomSubmit() {
           });
         }}
       />
+
+      {/* Near-duplicate submission prompt */}
+      <AlertDialog open={!!nearDuplicate} onOpenChange={(open) => !open && setNearDuplicate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Similar request found</AlertDialogTitle>
+            <AlertDialogDescription>
+              You submitted a very similar request for {[nearDuplicate?.match.studentFirstName, nearDuplicate?.match.studentLastInitial].filter(Boolean).join(' ')} {nearDuplicate?.match.minutesAgo ?? 0} minute(s) ago.
+              You can view that response instead of using another request.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-near-duplicate-cancel">Keep editing</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-white text-gray-900 border border-gray-300 hover:bg-gray-50"
+              onClick={() => nearDuplicate && onSubmit(nearDuplicate.data, true)}
+              data-testid="button-near-duplicate-submit-anyway"
+            >
+              Submit as new request
+            </AlertDialogAction>
+            <AlertDialogAction onClick={() => setLocation('/view-responses')} data-testid="button-near-duplicate-view-previous">
+              View earlier response
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -10,12 +10,15 @@ const isUnauthorizedError = (error: Error): boolean => {
 import { apiRequest } from "@/lib/queryClient";
 import AppHeader from "@/components/app-header";
 import InterventionResults from "@/components/intervention-results";
+import InterventionLibraryBrowser from "@/components/intervention-library-browser";
+import ConcernSharing, { SHARE_ACCESS_LABELS } from "@/components/concern-sharing";
+import CommentThread from "@/components/comment-thread";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { CalendarDays, User, BookOpen, Trash2 } from "lucide-react";
-import { ConcernWithDetails } from "@shared/schema";
+import { CalendarDays, User, BookOpen, Library, Trash2, Users } from "lucide-react";
+import { ConcernWithAccess } from "@shared/schema";
 
 export default function ConcernDetail() {
   const { id } = useParams<{ id: string }>();
@@ -24,6 +27,8 @@ export default function ConcernDetail() {
   const { isAuthenticated, isLoading: authLoading } = useAuth();
   const queryClient = useQueryClient();
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [sharingOpen, setSharingOpen] = useState(false);
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -40,7 +45,7 @@ export default function ConcernDetail() {
     }
   }, [isAuthenticated, authLoading, toast]);
 
-  const { data: concern, isLoading, error } = useQuery<ConcernWithDetails>({
+  const { data: concern, isLoading, error } = useQuery<ConcernWithAccess>({
     queryKey: ["/api/concerns", id],
     enabled: !!id && isAuthenticated,
     retry: (failureCount, error) => {
@@ -132,6 +137,8 @@ export default function ConcernDetail() {
     );
   }
 
+  const isOwner = concern.access === 'owner';
+
   const concernTypeColors = {
     academic: "bg-blue-100 text-blue-800",
     behavior: "bg-amber-100 text-amber-800", 
@@ -177,42 +184,65 @@ export default function ConcernDetail() {
                     <CalendarDays className="h-4 w-4 mr-1" />
                     {concern.createdAt ? new Date(concern.createdAt).toLocaleDateString() : 'Unknown date'}
                   </div>
+                  {!isOwner && (
+                    <Badge variant="outline" data-testid="badge-shared-access">
+                      Shared with you · {SHARE_ACCESS_LABELS[concern.access]}
+                    </Badge>
+                  )}
                 </div>
               </div>
               <div className="flex items-center space-x-2">
-                <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
-                  <AlertDialogTrigger asChild>
-                    <Button 
-                      variant="destructive" 
-                      size="sm"
-                      className="bg-red-600 hover:bg-red-700 text-white"
-                      data-testid="button-delete-concern"
-                    >
-                      <Trash2 className="h-4 w-4 mr-2" />
-                      Delete Concern
+                {concern.studentId && (
+                  <Button variant="outline" size="sm" onClick={() => navigate(`/students/${concern.studentId}`)} data-testid="button-view-student">
+                    <User className="h-4 w-4 mr-2" />
+                    Student Record
+                  </Button>
+                )}
+                {isOwner && (
+                  <>
+                    <Button variant="outline" size="sm" onClick={() => setSharingOpen(true)} data-testid="button-share-with-colleagues">
+                      <Users className="h-4 w-4 mr-2" />
+                      Share
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => setLibraryOpen(true)} data-testid="button-add-from-library">
+                      <Library className="h-4 w-4 mr-2" />
+                      Add from Library
                     </Button>
-                  </AlertDialogTrigger>
-                  <AlertDialogContent>
-                    <AlertDialogHeader>
-                      <AlertDialogTitle>Delete Concern</AlertDialogTitle>
-                      <AlertDialogDescription>
-                        Are you sure you want to delete this concern for {concern.studentFirstName} {concern.studentLastInitial}.? 
-                        This action cannot be undone and will permanently delete all related interventions and follow-up questions.
-                      </AlertDialogDescription>
-                    </AlertDialogHeader>
-                    <AlertDialogFooter>
-                      <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
-                      <AlertDialogAction 
-                        onClick={handleDelete}
-                        disabled={deleteMutation.isPending}
-                        className="bg-red-600 hover:bg-red-700"
-                        data-testid="button-confirm-delete"
-                      >
-                        {deleteMutation.isPending ? "Deleting..." : "Delete"}
-                      </AlertDialogAction>
-                    </AlertDialogFooter>
-                  </AlertDialogContent>
-                </AlertDialog>
+                    <AlertDialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
+                      <AlertDialogTrigger asChild>
+                        <Button 
+                          variant="destructive" 
+                          size="sm"
+                          className="bg-red-600 hover:bg-red-700 text-white"
+                          data-testid="button-delete-concern"
+                        >
+                          <Trash2 className="h-4 w-4 mr-2" />
+                          Delete Concern
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Delete Concern</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to delete this concern for {concern.studentFirstName} {concern.studentLastInitial}.? 
+                            This action cannot be undone and will permanently delete all related interventions and follow-up questions.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel data-testid="button-cancel-delete">Cancel</AlertDialogCancel>
+                          <AlertDialogAction 
+                            onClick={handleDelete}
+                            disabled={deleteMutation.isPending}
+                            className="bg-red-600 hover:bg-red-700"
+                            data-testid="button-confirm-delete"
+                          >
+                            {deleteMutation.isPending ? "Deleting..." : "Delete"}
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </>
+                )}
               </div>
             </div>
           </CardHeader>
@@ -242,9 +272,19 @@ export default function ConcernDetail() {
           <InterventionResults 
             concern={concern}
             interventions={concern.interventions}
-            showFollowUpQuestions={true}
+            showFollowUpQuestions={isOwner}
+            access={concern.access}
           />
         )}
+
+        <CommentThread concernId={concern.id} access={concern.access} />
+
+        {isOwner && (
+          <>
+            <InterventionLibraryBrowser concernId={concern.id} open={libraryOpen} onOpenChange={setLibraryOpen} />
+            <ConcernSharing concernId={concern.id} open={sharingOpen} onOpenChange={setSharingOpen} />
+          </>
+        )}
       </div>
     </div>
   );
@@ -7,6 +7,7 @@ import { User, Concern, Intervention } from "@shared/schema";
 import AppHeader from "@/components/app-header";
 import ConcernForm from "@/components/concern-form";
 import InterventionResults from "@/components/intervention-results";
+import CheckInList from "@/components/check-in-list";
 import { useLocation, Link } from "wouter";
 import { useTranslation } from "react-i18next";
 
@@ -138,6 +139,9 @@ export default function Home() {
           </div>
         )}
 
+        {/* Scheduled progress check-ins on saved interventions */}
+        <CheckInList />
+
         {/* Main Content - Concern Form */}
         <div className="max-w-4xl mx-auto">
           <div className="bg-white/90 backdrop-blur-sm rounded-2xl md:rounded-3xl shadow-xl border border-white/20 p-4 md:p-6">
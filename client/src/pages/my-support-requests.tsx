@@ -41,6 +41,7 @@ import { Link } from "wouter";
 import InterventionsDisplay from "@/components/InterventionsDisplay";
 import { useTranslation } from "react-i18next";
 import { EmailSetupGuide } from "@/components/email-setup-guide";
+import SharedConcerns from "@/components/shared-concerns";
 
 export default function MySupportRequests() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -373,6 +374,8 @@ export default function MySupportRequests() {
           </div>
         </div>
 
+        <SharedConcerns />
+
         {/* Support Requests Tabs */}
         <div className="bg-white rounded-lg shadow p-4 sm:p-6 mb-6 sm:mb-8">
           <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as "all" | "differentiation" | "intervention" | "classroom_management")}>
@@ -465,7 +468,9 @@ export default function MySupportRequests() {
                           <h3 className="text-base sm:text-lg font-bold text-gray-900 truncate">
                             {concern.taskType === 'classroom_management' 
                               ? t('supportRequests.wholeClassManagementStrategies', 'Classroom Management Strategies')
-                              : `${concern.studentFirstName} ${concern.studentLastInitial}.`
+                              : concern.studentId
+                                ? <Link href={`/students/${concern.studentId}`} className="hover:underline" data-testid={`link-student-${concern.studentId}`}>{concern.studentFirstName} {concern.studentLastInitial}.</Link>
+                                : `${concern.studentFirstName} ${concern.studentLastInitial}.`
                             }
                           </h3>
                           {concern.taskType !== 'classroom_management' && (
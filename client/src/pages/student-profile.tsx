@@ -0,0 +1,352 @@
+import { useEffect, useState } from "react";
+import { Link, useParams } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest } from "@/lib/queryClient";
+import AppHeader from "@/components/app-header";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CalendarDays, ClipboardList, FileText, GraduationCap, HelpCircle, Layers, Lightbulb, MessageSquare, Users } from "lucide-react";
+import { MTSS_TIERS, type Student, type StudentGradeHistoryEntry, type StudentTierTransition, type StudentTimelineEvent } from "@shared/schema";
+
+interface StudentProfileResponse {
+  student: Student;
+  timeline: StudentTimelineEvent[];
+  tierTransitions: StudentTierTransition[];
+}
+
+const TIER_COLORS: Record<number, string> = {
+  1: "bg-green-100 text-green-800",
+  2: "bg-amber-100 text-amber-800",
+  3: "bg-red-100 text-red-800",
+};
+
+const EVENT_ICONS: Record<StudentTimelineEvent['type'], typeof FileText> = {
+  concern: FileText,
+  intervention: Lightbulb,
+  progress_note: ClipboardList,
+  follow_up: HelpCircle,
+  classroom_submission: MessageSquare,
+  meeting: Users,
+  tier_change: Layers,
+};
+
+const EVENT_COLORS: Record<StudentTimelineEvent['type'], string> = {
+  concern: "bg-blue-100 text-blue-800",
+  intervention: "bg-green-100 text-green-800",
+  progress_note: "bg-amber-100 text-amber-800",
+  follow_up: "bg-purple-100 text-purple-800",
+  classroom_submission: "bg-teal-100 text-teal-800",
+  meeting: "bg-gray-100 text-gray-800",
+  tier_change: "bg-indigo-100 text-indigo-800",
+};
+
+type ProfileFlags = Pick<Student, 'hasIep' | 'isEalLearner' | 'isGifted' | 'hasDisability'>;
+
+export default function StudentProfile() {
+  const { id } = useParams<{ id: string }>();
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [currentGrade, setCurrentGrade] = useState("");
+  const [externalSisId, setExternalSisId] = useState("");
+  const [disabilityType, setDisabilityType] = useState("");
+  const [flags, setFlags] = useState<ProfileFlags>({ hasIep: false, isEalLearner: false, isGifted: false, hasDisability: false });
+  const [newTier, setNewTier] = useState("");
+  const [tierReason, setTierReason] = useState("");
+  const [tierTeam, setTierTeam] = useState("");
+  const [tierDate, setTierDate] = useState("");
+
+  const { data, isLoading } = useQuery<StudentProfileResponse>({
+    queryKey: ["/api/students", id],
+    enabled: !!id,
+  });
+
+  useEffect(() => {
+    if (!data) return;
+    setCurrentGrade(data.student.currentGrade || "");
+    setExternalSisId(data.student.externalSisId || "");
+    setDisabilityType(data.student.disabilityType || "");
+    setFlags({
+      hasIep: !!data.student.hasIep,
+      isEalLearner: !!data.student.isEalLearner,
+      isGifted: !!data.student.isGifted,
+      hasDisability: !!data.student.hasDisability,
+    });
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => apiRequest("PATCH", `/api/students/${id}`, {
+      ...flags,
+      currentGrade: currentGrade.trim() || null,
+      externalSisId: externalSisId.trim() || null,
+      disabilityType: flags.hasDisability ? disabilityType.trim() || null : null,
+    }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      toast({ title: t('students.saved', 'Student record updated') });
+    },
+    onError: (error: Error) => {
+      const conflict = error.message.startsWith('409');
+      toast({
+        title: t('students.saveFailed', 'Could not update student'),
+        description: conflict
+          ? t('students.sisConflict', 'Another student at this school already has that SIS ID.')
+          : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const tierMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `/api/students/${id}/tier`, {
+      tier: Number(newTier),
+      reason: tierReason.trim(),
+      decidedBy: tierTeam.trim(),
+      ...(tierDate && { effectiveDate: tierDate }),
+    }),
+    onSuccess: () => {
+      setNewTier("");
+      setTierReason("");
+      setTierDate("");
+      queryClient.invalidateQueries({ queryKey: ["/api/students"] });
+      toast({ title: t('students.tierChanged', 'Tier change recorded') });
+    },
+    onError: (error: Error) => {
+      toast({ title: t('students.tierChangeFailed', 'Could not change tier'), description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AppHeader />
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-brand-blue"></div>
+        </div>
+      </div>
+    );
+  }
+
+  if (!data) {
+    return (
+      <div className="min-h-screen bg-gray-50">
+        <AppHeader />
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          <Card className="max-w-md mx-auto">
+            <CardContent className="pt-6 text-center">
+              <p className="text-gray-600">{t('students.notFound', "Student not found or you don't have access to view it.")}</p>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  const { student, timeline, tierTransitions = [] } = data;
+  const canChangeTier = !!(user?.isAdmin || user?.isMtssTeam);
+  const gradeHistory = (Array.isArray(student.gradeHistory) ? student.gradeHistory : []) as StudentGradeHistoryEntry[];
+  const flagOptions: { key: keyof ProfileFlags; label: string }[] = [
+    { key: 'hasIep', label: t('form.hasIep', 'Has IEP / 504 Plan') },
+    { key: 'isEalLearner', label: t('form.isEalLearner', 'English as an Additional Language') },
+    { key: 'isGifted', label: t('form.isGifted', 'Gifted / Talented') },
+    { key: 'hasDisability', label: t('form.hasDisability', 'Has Diagnosed Disability') },
+  ];
+  const eventLabels: Record<StudentTimelineEvent['type'], string> = {
+    concern: t('students.eventConcern', 'Concern'),
+    intervention: t('students.eventIntervention', 'Intervention'),
+    progress_note: t('students.eventProgressNote', 'Progress note'),
+    follow_up: t('students.eventFollowUp', 'Follow-up'),
+    classroom_submission: t('students.eventClassroomSubmission', 'Classroom Solutions'),
+    meeting: t('students.eventMeeting', 'Meeting'),
+    tier_change: t('students.eventTierChange', 'Tier change'),
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <AppHeader />
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-1 h-fit">
+          <CardHeader>
+            <CardTitle className="text-2xl text-gray-900" data-testid="text-student-name">
+              {student.firstName} {student.lastInitial}.
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center gap-2" data-testid="text-student-tier">
+              <Badge className={TIER_COLORS[student.currentTier] || TIER_COLORS[1]}>
+                {t('students.tier', 'Tier {{tier}}', { tier: student.currentTier })}
+              </Badge>
+              {student.tierSince && (
+                <span className="text-sm text-gray-500">
+                  {t('students.since', 'since')} {new Date(student.tierSince).toLocaleDateString()}
+                </span>
+              )}
+            </div>
+            <div>
+              <Label htmlFor="student-grade">{t('form.grade', 'Grade')}</Label>
+              <Input id="student-grade" value={currentGrade} onChange={(e) => setCurrentGrade(e.target.value)} data-testid="input-student-grade" />
+            </div>
+            <div>
+              <Label htmlFor="student-sis-id">{t('students.sisId', 'SIS ID (optional)')}</Label>
+              <Input id="student-sis-id" value={externalSisId} onChange={(e) => setExternalSisId(e.target.value)} data-testid="input-student-sis-id" />
+            </div>
+            <div className="space-y-2">
+              {flagOptions.map(option => (
+                <div key={option.key} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`student-${option.key}`}
+                    checked={!!flags[option.key]}
+                    onCheckedChange={(checked) => setFlags(current => ({ ...current, [option.key]: checked === true }))}
+                    data-testid={`checkbox-student-${option.key}`}
+                  />
+                  <Label htmlFor={`student-${option.key}`} className="font-normal">{option.label}</Label>
+                </div>
+              ))}
+              {flags.hasDisability && (
+                <Input
+                  placeholder={t('form.disabilityType', 'Type of disability')}
+                  value={disabilityType}
+                  onChange={(e) => setDisabilityType(e.target.value)}
+                  data-testid="input-student-disability-type"
+                />
+              )}
+            </div>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} className="w-full" data-testid="button-save-student">
+              {saveMutation.isPending ? t('common.saving', 'Saving...') : t('common.save', 'Save')}
+            </Button>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-700 mb-2 flex items-center">
+                <GraduationCap className="h-4 w-4 mr-1" />
+                {t('students.gradeHistory', 'Grade history')}
+              </h3>
+              {gradeHistory.length === 0 ? (
+                <p className="text-sm text-gray-500">{t('students.noGradeHistory', 'No grade recorded yet.')}</p>
+              ) : (
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {gradeHistory.map(entry => (
+                    <li key={`${entry.grade}-${entry.from}`}>
+                      {t('form.grade', 'Grade')} {entry.grade} · {t('students.since', 'since')} {new Date(entry.from).toLocaleDateString()}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            <div className="border-t pt-4 space-y-2">
+              <h3 className="text-sm font-medium text-gray-700 flex items-center">
+                <Layers className="h-4 w-4 mr-1" />
+                {t('students.changeTier', 'Change MTSS tier')}
+              </h3>
+              {canChangeTier ? (
+                <>
+                  <Select value={newTier} onValueChange={setNewTier}>
+                    <SelectTrigger data-testid="select-student-tier">
+                      <SelectValue placeholder={t('students.selectTier', 'Select tier')} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MTSS_TIERS.filter(tier => tier !== student.currentTier).map(tier => (
+                        <SelectItem key={tier} value={String(tier)}>{t('students.tier', 'Tier {{tier}}', { tier })}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder={t('students.tierTeam', 'Decided by (e.g. Grade 3 MTSS team)')}
+                    value={tierTeam}
+                    onChange={(e) => setTierTeam(e.target.value)}
+                    data-testid="input-tier-team"
+                  />
+                  <Textarea
+                    placeholder={t('students.tierReason', 'Reason for the change')}
+                    value={tierReason}
+                    onChange={(e) => setTierReason(e.target.value)}
+                    rows={3}
+                    data-testid="input-tier-reason"
+                  />
+                  <Input type="date" value={tierDate} max={format(new Date(), 'yyyy-MM-dd')} onChange={(e) => setTierDate(e.target.value)} data-testid="input-tier-date" />
+                  <Button
+                    variant="outline"
+                    className="w-full"
+                    onClick={() => tierMutation.mutate()}
+                    disabled={!newTier || tierReason.trim().length < 3 || tierTeam.trim().length < 2 || tierMutation.isPending}
+                    data-testid="button-change-tier"
+                  >
+                    {tierMutation.isPending ? t('common.saving', 'Saving...') : t('students.recordTierChange', 'Record tier change')}
+                  </Button>
+                </>
+              ) : (
+                <p className="text-sm text-gray-500">{t('students.tierChangeRestricted', 'Tier changes are recorded by admins and the MTSS team.')}</p>
+              )}
+              {tierTransitions.length > 0 && (
+                <ul className="text-sm text-gray-700 space-y-2 pt-2">
+                  {tierTransitions.map(transition => (
+                    <li key={transition.id} data-testid={`tier-transition-${transition.id}`}>
+                      <span className="font-medium">
+                        {t('students.tier', 'Tier {{tier}}', { tier: transition.fromTier })} → {t('students.tier', 'Tier {{tier}}', { tier: transition.toTier })}
+                      </span>
+                      {' · '}{new Date(transition.effectiveDate).toLocaleDateString()} · {transition.decidedBy}
+                      <p className="text-gray-600">{transition.reason}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{t('students.timeline', 'Timeline')}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {timeline.length === 0 ? (
+              <p className="text-gray-500" data-testid="text-timeline-empty">
+                {t('students.timelineEmpty', 'Nothing has been recorded for this student yet.')}
+              </p>
+            ) : (
+              <ol className="space-y-4">
+                {timeline.map(event => {
+                  const Icon = EVENT_ICONS[event.type];
+                  return (
+                    <li key={`${event.type}-${event.id}`} className="border-l-2 border-gray-200 pl-4" data-testid={`timeline-event-${event.id}`}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge className={EVENT_COLORS[event.type]}>
+                          <Icon className="h-3 w-3 mr-1" />
+                          {eventLabels[event.type]}
+                        </Badge>
+                        <span className="flex items-center text-xs text-gray-500">
+                          <CalendarDays className="h-3 w-3 mr-1" />
+                          {new Date(event.at).toLocaleDateString()}
+                        </span>
+                        {event.author && <span className="text-xs text-gray-500">· {event.author}</span>}
+                      </div>
+                      <p className="font-medium text-gray-900 mt-1">
+                        {/* Concern pages are teacher-only */}
+                        {event.concernId && !user?.isAdmin ? (
+                          <Link href={`/concerns/${event.concernId}`} className="hover:underline">{event.title}</Link>
+                        ) : event.title}
+                      </p>
+                      {event.detail && <p className="text-sm text-gray-600 mt-1 whitespace-pre-line">{event.detail}</p>}
+                    </li>
+                  );
+                })}
+              </ol>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
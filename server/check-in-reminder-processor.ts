@@ -0,0 +1,59 @@
+import { sendDueCheckInReminders } from './services/checkIns';
+
+// Emails teachers when progress check-ins on their saved interventions fall due.
+export class CheckInReminderProcessor {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private readonly INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+  constructor() {
+    this.start();
+  }
+
+  start(): void {
+    if (this.intervalId) return;
+
+    console.log('📋 Check-in reminder processor starting...');
+
+    this.processReminders();
+
+    this.intervalId = setInterval(() => {
+      this.processReminders();
+    }, this.INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('🛑 Check-in reminder processor stopped');
+    }
+  }
+
+  private async processReminders(): Promise<void> {
+    if (this.isProcessing) return;
+
+    try {
+      this.isProcessing = true;
+      const emailed = await sendDueCheckInReminders();
+      if (emailed > 0) {
+        console.log(`📋 Sent reminders for ${emailed} due check-in(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Check-in reminder processor error:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const checkInReminderProcessor = new CheckInReminderProcessor();
+
+process.on('SIGINT', () => {
+  checkInReminderProcessor.stop();
+});
+
+process.on('SIGTERM', () => {
+  checkInReminderProcessor.stop();
+});
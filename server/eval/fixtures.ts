@@ -0,0 +1,59 @@
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { GenerateRecommendationsRequest, GenerateClassroomSolutionRequest } from "../services/ai";
+
+// Golden fixtures for the offline evaluation harness. Each JSON file in fixtures/ is one anonymized
+// concern plus what a good answer must contain; see run.ts for how they are replayed and scored.
+
+export interface FixtureExpectations {
+  requiredSections?: string[]; // Phrases/headings that must appear (case-insensitive)
+  urgent?: boolean; // true = safeguarding language required, false = it must not appear
+  minStrategies?: number; // Recommendations only
+  minWords?: number;
+  maxWords?: number;
+  maxReadingGrade?: number; // Flesch-Kincaid grade; skipped for Chinese output
+}
+
+interface BaseFixture {
+  id: string;
+  description: string;
+  expect: FixtureExpectations;
+  stubResponse?: string; // Provider reply used by --provider stub instead of the generic stub
+}
+
+export interface RecommendationsFixture extends BaseFixture {
+  kind: 'recommendations';
+  request: GenerateRecommendationsRequest;
+}
+
+export interface ClassroomSolutionFixture extends BaseFixture {
+  kind: 'classroom_solution';
+  request: GenerateClassroomSolutionRequest;
+}
+
+export type EvalFixture = RecommendationsFixture | ClassroomSolutionFixture;
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const FIXTURES_DIR = path.join(__dirname, 'fixtures');
+
+export async function loadFixtures(directory: string = FIXTURES_DIR, only?: string[]): Promise<EvalFixture[]> {
+  const files = (await readdir(directory)).filter(file => file.endsWith('.json')).sort();
+  const fixtures: EvalFixture[] = [];
+
+  for (const file of files) {
+    const fixture = JSON.parse(await readFile(path.join(directory, file), 'utf-8')) as EvalFixture;
+    if (!fixture.id || !fixture.kind || !fixture.request) {
+      throw new Error(`Fixture ${file} is missing id, kind or request`);
+    }
+    if (fixture.kind !== 'recommendations' && fixture.kind !== 'classroom_solution') {
+      throw new Error(`Fixture ${file} has unknown kind "${(fixture as { kind: string }).kind}"`);
+    }
+    if (!only || only.includes(fixture.id)) {
+      fixtures.push(fixture);
+    }
+  }
+
+  return fixtures;
+}
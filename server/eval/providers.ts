@@ -0,0 +1,127 @@
+import { createHash } from "crypto";
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import type { ChatCompletionRequest, CompletionInterceptor } from "../services/aiProviders";
+import type { EvalFixture } from "./fixtures";
+
+// Providers the evaluation harness can run against:
+// - stub: canned replies, no network. Checks the pipeline (parsing, notices, disclaimers), not the prompt.
+// - recorded: replays replies saved under recordings/, keyed by a hash of the exact prompt.
+// - record: calls the real provider and saves the replies, so later runs can replay them.
+
+export type EvalProviderMode = 'stub' | 'recorded' | 'record';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+export const RECORDINGS_DIR = path.join(__dirname, 'recordings');
+
+interface Recording {
+  model: string;
+  content: string;
+  recordedAt: string;
+}
+
+type RecordingFile = Record<string, Recording>; // prompt hash -> reply
+
+export function hashPrompt(request: Pick<ChatCompletionRequest, 'systemPrompt' | 'userPrompt'>): string {
+  return createHash('sha256').update(request.systemPrompt).update('\n---\n').update(request.userPrompt).digest('hex').slice(0, 16);
+}
+
+// Raised when a prompt has no recording, i.e. the prompt changed since the last --record run
+export class MissingRecordingError extends Error {
+  constructor(public fixtureId: string, public promptHash: string) {
+    super(`No recording for fixture "${fixtureId}" (prompt ${promptHash}); re-run with --provider record`);
+    this.name = 'MissingRecordingError';
+  }
+}
+
+const STUB_PLAN = {
+  overview: "### **Analysis**\nThe pattern described points to a skills gap that shows up most in independent work. The strategies below build the skill in short daily practice and check progress every week.\n\n### **Progress Monitoring**\nRecord a short check each Friday and review the data with the student support team after four weeks.",
+  strategies: [
+    {
+      title: "Daily Check-In and Goal Setting",
+      description: "Start each day with a two-minute check-in. Agree one small goal with the student and write it on a card on the desk.",
+      steps: ["Pick a quiet moment at the start of the day", "Agree one goal and write it down", "Review the goal together before the student leaves"],
+      timeline: "Weeks 1-4",
+      progressMeasures: ["Goal met or not met each day, recorded on a simple chart"],
+      successCriteria: ["Goal met on four of five days for two weeks in a row"],
+    },
+    {
+      title: "Small-Group Skill Practice",
+      description: "Three short sessions a week in a group of three or four students, using materials matched to the student's current level.",
+      steps: ["Choose a skill to target from recent work samples", "Teach it in short steps with worked examples", "Give five minutes of guided practice, then a quick check"],
+      timeline: "Weeks 1-6",
+      progressMeasures: ["Weekly one-minute skill probe, plotted on a graph"],
+      successCriteria: ["Probe scores rise for three weeks in a row"],
+    },
+  ],
+};
+
+const STUB_CLASSROOM_DRAFT = `## Recommended Strategies
+
+### Strategy 1: Structured Check-In
+Meet the student for two minutes at the start of each lesson to agree one goal.
+
+### Strategy 2: Chunked Tasks
+Break longer tasks into short parts with a tick box for each part.
+
+## Implementation Timeline
+- Weeks 1-2: introduce both strategies
+- Weeks 3-6: review progress every Friday
+
+## Progress Monitoring
+Record whether the goal was met each lesson and look for a steady rise over four weeks.`;
+
+function stubReply(fixture: EvalFixture, request: ChatCompletionRequest): string {
+  if (fixture.stubResponse) return fixture.stubResponse;
+  // Recommendation prompts ask for the structured JSON plan; everything else gets markdown
+  return request.userPrompt.includes('OUTPUT FORMAT (REQUIRED)')
+    ? JSON.stringify(STUB_PLAN)
+    : STUB_CLASSROOM_DRAFT;
+}
+
+async function readRecordings(file: string): Promise<RecordingFile> {
+  try {
+    return JSON.parse(await readFile(file, 'utf-8')) as RecordingFile;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Builds the interceptor for one fixture. `promptHashes` collects the hash of every prompt sent,
+ * which the diff report uses to show whether a prompt changed between two runs.
+ */
+export async function createFixtureInterceptor(
+  fixture: EvalFixture,
+  mode: EvalProviderMode,
+  promptHashes: string[],
+  recordingsDir: string = RECORDINGS_DIR
+): Promise<CompletionInterceptor> {
+  const file = path.join(recordingsDir, `${fixture.id}.json`);
+  const recordings = await readRecordings(file);
+
+  return async (client, request, send) => {
+    const promptHash = hashPrompt(request);
+    promptHashes.push(promptHash);
+
+    if (mode === 'stub') {
+      return { content: stubReply(fixture, request), model: 'stub' };
+    }
+
+    if (mode === 'recorded') {
+      const recording = recordings[promptHash];
+      if (!recording) {
+        throw new MissingRecordingError(fixture.id, promptHash);
+      }
+      return { content: recording.content, model: recording.model };
+    }
+
+    const result = await send(client, request);
+    recordings[promptHash] = { model: result.model, content: result.content, recordedAt: new Date().toISOString() };
+    await mkdir(recordingsDir, { recursive: true });
+    await writeFile(file, JSON.stringify(recordings, null, 2) + '\n');
+    return result;
+  };
+}
@@ -0,0 +1,112 @@
+import type { FixtureScore } from "./scoring";
+import type { EvalProviderMode } from "./providers";
+
+// Result files written by run.ts, and the markdown reports built from them.
+
+export interface FixtureResult extends Partial<FixtureScore> {
+  id: string;
+  kind: string;
+  status: 'scored' | 'missing_recording' | 'error';
+  error?: string;
+  promptHashes: string[];
+  durationMs: number;
+}
+
+export interface EvalRun {
+  label: string; // Prompt version being evaluated, e.g. a branch name or commit
+  provider: EvalProviderMode;
+  createdAt: string;
+  averageScore: number;
+  fixtures: FixtureResult[];
+}
+
+const formatScore = (score: number | undefined) => score === undefined ? '—' : `${Math.round(score * 100)}%`;
+
+function formatDelta(before: number | undefined, after: number | undefined): string {
+  if (before === undefined || after === undefined) return '';
+  const delta = Math.round((after - before) * 100);
+  if (delta === 0) return '±0';
+  return delta > 0 ? `+${delta}` : `${delta}`;
+}
+
+export function averageScore(fixtures: FixtureResult[]): number {
+  const scored = fixtures.filter(fixture => fixture.status === 'scored' && fixture.score !== undefined);
+  if (scored.length === 0) return 0;
+  return scored.reduce((total, fixture) => total + fixture.score!, 0) / scored.length;
+}
+
+export function renderRunSummary(run: EvalRun): string {
+  const lines = [
+    `# Prompt evaluation: ${run.label}`,
+    '',
+    `Provider: ${run.provider} · ${run.fixtures.length} fixtures · average score ${formatScore(run.averageScore)}`,
+    '',
+    '| Fixture | Score | Words | Reading grade | Failed checks |',
+    '| --- | --- | --- | --- | --- |',
+  ];
+
+  for (const fixture of run.fixtures) {
+    if (fixture.status !== 'scored') {
+      lines.push(`| ${fixture.id} | ${fixture.status} | | | ${fixture.error || ''} |`);
+      continue;
+    }
+    const failed = Object.entries(fixture.checks || {})
+      .filter(([, check]) => !check.passed)
+      .map(([name, check]) => `${name} (${check.detail})`);
+    lines.push(`| ${fixture.id} | ${formatScore(fixture.score)} | ${fixture.metrics?.words ?? ''} | ${fixture.metrics?.readingGrade ?? 'n/a'} | ${failed.join('; ') || '—'} |`);
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Compares two runs fixture by fixture. Checks that flipped from pass to fail are listed as
+ * regressions, and fixtures whose prompt hash changed are marked so reviewers can see which
+ * prompt edits produced which score changes.
+ */
+export function renderDiffReport(baseline: EvalRun, current: EvalRun): string {
+  const lines = [
+    `# Prompt evaluation diff: ${baseline.label} → ${current.label}`,
+    '',
+    `Average score: ${formatScore(baseline.averageScore)} → ${formatScore(current.averageScore)} (${formatDelta(baseline.averageScore, current.averageScore)})`,
+    '',
+    '| Fixture | Prompt | Score | Words | Reading grade |',
+    '| --- | --- | --- | --- | --- |',
+  ];
+
+  const regressions: string[] = [];
+  const improvements: string[] = [];
+  const ids = Array.from(new Set([...baseline.fixtures.map(f => f.id), ...current.fixtures.map(f => f.id)]));
+
+  for (const id of ids) {
+    const before = baseline.fixtures.find(fixture => fixture.id === id);
+    const after = current.fixtures.find(fixture => fixture.id === id);
+
+    if (!before || !after) {
+      lines.push(`| ${id} | ${before ? 'removed' : 'new'} | ${formatScore((after || before)?.score)} | | |`);
+      continue;
+    }
+
+    const promptChanged = before.promptHashes.join() !== after.promptHashes.join();
+    const words = `${before.metrics?.words ?? '—'} → ${after.metrics?.words ?? '—'}`;
+    const grade = `${before.metrics?.readingGrade ?? 'n/a'} → ${after.metrics?.readingGrade ?? 'n/a'}`;
+    const score = after.status === 'scored'
+      ? `${formatScore(before.score)} → ${formatScore(after.score)} (${formatDelta(before.score, after.score)})`
+      : after.status;
+    lines.push(`| ${id} | ${promptChanged ? 'changed' : 'same'} | ${score} | ${words} | ${grade} |`);
+
+    for (const [name, check] of Object.entries(after.checks || {})) {
+      const previous = before.checks?.[name];
+      if (previous?.passed && !check.passed) {
+        regressions.push(`- **${id}** · ${name}: ${previous.detail} → ${check.detail}`);
+      } else if (previous && !previous.passed && check.passed) {
+        improvements.push(`- **${id}** · ${name}: ${previous.detail} → ${check.detail}`);
+      }
+    }
+  }
+
+  lines.push('', '## Regressions', '', ...(regressions.length ? regressions : ['None']));
+  lines.push('', '## Improvements', '', ...(improvements.length ? improvements : ['None']));
+
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,207 @@
+/**
+ * Offline evaluation harness for the AI prompts in server/services/ai.ts.
+ *
+ * Replays the golden fixtures in server/eval/fixtures through generateRecommendations and
+ * generateClassroomSolutionDraft, scores each output (required sections, disclaimer, safeguarding
+ * language on urgent cases, reading level, length) and writes a JSON result per prompt version.
+ *
+ *   npm run eval -- --label baseline                         # stubbed provider, no network
+ *   npm run eval -- --provider record --label baseline       # call the real provider, save replies
+ *   npm run eval -- --provider recorded --label my-change --compare server/eval/results/baseline.json
+ *
+ * Options: --provider stub|recorded|record, --label <name>, --fixture <id> (repeatable),
+ * --out <file.json>, --compare <baseline.json>, --report <diff.md>, --verbose
+ */
+import { writeFile, readFile, mkdir } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { loadFixtures, type EvalFixture } from "./fixtures";
+import { createFixtureInterceptor, MissingRecordingError, type EvalProviderMode } from "./providers";
+import { scoreOutput, type EvalOutput } from "./scoring";
+import { averageScore, renderDiffReport, renderRunSummary, type EvalRun, type FixtureResult } from "./report";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const RESULTS_DIR = path.join(__dirname, 'results');
+const PROVIDER_MODES: EvalProviderMode[] = ['stub', 'recorded', 'record'];
+
+interface EvalOptions {
+  provider: EvalProviderMode;
+  label: string;
+  fixtures?: string[];
+  out?: string;
+  compare?: string;
+  report?: string;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): EvalOptions {
+  const options: EvalOptions = { provider: 'stub', label: 'current', verbose: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = () => {
+      const next = argv[++i];
+      if (!next || next.startsWith('--')) throw new Error(`${arg} needs a value`);
+      return next;
+    };
+
+    switch (arg) {
+      case '--provider': {
+        const provider = value() as EvalProviderMode;
+        if (!PROVIDER_MODES.includes(provider)) {
+          throw new Error(`--provider must be one of ${PROVIDER_MODES.join(', ')}`);
+        }
+        options.provider = provider;
+        break;
+      }
+      case '--label': options.label = value(); break;
+      case '--fixture': options.fixtures = [...(options.fixtures || []), value()]; break;
+      case '--out': options.out = value(); break;
+      case '--compare': options.compare = value(); break;
+      case '--report': options.report = value(); break;
+      case '--verbose': options.verbose = true; break;
+      default: throw new Error(`Unknown option ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  // ai.ts imports the database module, which refuses to load without a URL. The harness never
+  // queries it: key lookup, usage tracking, the AI usage ledger, prompt template, safeguarding
+  // settings, intervention library and effectiveness lookups and the redaction audit log are all
+  // switched off below, so the built-in prompts are what gets evaluated.
+  process.env.DATABASE_URL ||= 'postgres://offline-eval@localhost/offline-eval';
+
+  const { setCompletionInterceptor, resolveAIClient } = await import('../services/aiProviders');
+  const { setAIClientsOverride } = await import('../services/aiKeyPool');
+  const { setRedactionAuditEnabled } = await import('../services/piiRedaction');
+  const { setPromptTemplateLookupEnabled } = await import('../services/promptTemplates');
+  const { setUsageLedgerEnabled } = await import('../services/aiUsage');
+  const { setSafeguardingModelReviewEnabled } = await import('../services/safeguarding');
+  const { setSafeguardingConfigLookupEnabled } = await import('../services/safeguardingConfig');
+  const { setInterventionLibraryLookupEnabled } = await import('../services/interventionLibrary');
+  const { setEffectivenessLookupEnabled } = await import('../services/interventionEffectiveness');
+  const { generateRecommendations, generateClassroomSolutionDraft } = await import('../services/ai');
+
+  const client = options.provider === 'record'
+    ? resolveAIClient({
+        provider: process.env.AI_PROVIDER || 'deepseek',
+        apiKey: process.env.AI_API_KEY || process.env.DEEPSEEK_API_KEY,
+        baseUrl: process.env.AI_BASE_URL,
+        model: process.env.AI_MODEL,
+        scope: 'environment',
+      })
+    : resolveAIClient({ provider: 'openai_compatible', baseUrl: 'http://offline-eval.invalid/v1', model: 'offline-eval', scope: 'environment' });
+
+  if (!client) {
+    throw new Error('Recording needs AI_API_KEY or DEEPSEEK_API_KEY (plus AI_PROVIDER/AI_BASE_URL/AI_MODEL if not DeepSeek)');
+  }
+  setAIClientsOverride([client]);
+  setRedactionAuditEnabled(false);
+  setPromptTemplateLookupEnabled(false);
+  setUsageLedgerEnabled(false);
+  // Fixtures score the rule-based classifier; a model review would consume recorded completions
+  setSafeguardingModelReviewEnabled(false);
+  setSafeguardingConfigLookupEnabled(false);
+  setInterventionLibraryLookupEnabled(false);
+  setEffectivenessLookupEnabled(false);
+
+  const fixtures = await loadFixtures(undefined, options.fixtures);
+  if (fixtures.length === 0) {
+    throw new Error('No fixtures matched');
+  }
+
+  // The services log every step; keep the harness output readable unless asked otherwise
+  const log = console.log;
+  const results: FixtureResult[] = [];
+
+  for (const fixture of fixtures) {
+    const promptHashes: string[] = [];
+    let missingRecording: MissingRecordingError | null = null;
+    const interceptor = await createFixtureInterceptor(fixture, options.provider, promptHashes);
+    setCompletionInterceptor(async (client, request, send) => {
+      try {
+        return await interceptor(client, request, send);
+      } catch (error) {
+        if (error instanceof MissingRecordingError) missingRecording = error;
+        throw error;
+      }
+    });
+
+    const startedAt = Date.now();
+    if (!options.verbose) console.log = () => {};
+    try {
+      const output = await generateFixtureOutput(fixture, { generateRecommendations, generateClassroomSolutionDraft });
+      const result: FixtureResult = missingRecording
+        // The generators fall back to mock data on provider errors, so don't score what they returned
+        ? { id: fixture.id, kind: fixture.kind, status: 'missing_recording', error: (missingRecording as Error).message, promptHashes, durationMs: Date.now() - startedAt }
+        : { id: fixture.id, kind: fixture.kind, status: 'scored', ...scoreOutput(fixture, output), promptHashes, durationMs: Date.now() - startedAt };
+      results.push(result);
+    } catch (error) {
+      results.push({
+        id: fixture.id,
+        kind: fixture.kind,
+        status: 'error',
+        error: error instanceof Error ? error.message : String(error),
+        promptHashes,
+        durationMs: Date.now() - startedAt,
+      });
+    } finally {
+      console.log = log;
+    }
+
+    const result = results[results.length - 1];
+    console.log(`${result.status === 'scored' ? '✅' : '⚠️'} ${fixture.id}: ${result.status === 'scored' ? `${Math.round(result.score! * 100)}%` : result.error}`);
+  }
+  setCompletionInterceptor(null);
+
+  const run: EvalRun = {
+    label: options.label,
+    provider: options.provider,
+    createdAt: new Date().toISOString(),
+    averageScore: averageScore(results),
+    fixtures: results,
+  };
+
+  const outFile = options.out || path.join(RESULTS_DIR, `${options.label.replace(/[^\w.-]+/g, '-')}.json`);
+  await mkdir(path.dirname(outFile), { recursive: true });
+  await writeFile(outFile, JSON.stringify(run, null, 2) + '\n');
+
+  console.log('\n' + renderRunSummary(run));
+  console.log(`📄 Results written to ${path.relative(process.cwd(), outFile)}`);
+
+  if (options.compare) {
+    const baseline = JSON.parse(await readFile(options.compare, 'utf-8')) as EvalRun;
+    const diff = renderDiffReport(baseline, run);
+    if (options.report) {
+      await writeFile(options.report, diff);
+      console.log(`📄 Diff report written to ${options.report}`);
+    } else {
+      console.log('\n' + diff);
+    }
+  }
+}
+
+async function generateFixtureOutput(
+  fixture: EvalFixture,
+  generators: Pick<typeof import('../services/ai'), 'generateRecommendations' | 'generateClassroomSolutionDraft'>
+): Promise<EvalOutput> {
+  if (fixture.kind === 'recommendations') {
+    const response = await generators.generateRecommendations(fixture.request);
+    return { text: response.recommendations, disclaimer: response.disclaimer, strategies: response.strategies, safeguarding: response.safeguarding };
+  }
+
+  const result = await generators.generateClassroomSolutionDraft(fixture.request);
+  return { text: result.draft, disclaimer: '' };
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Evaluation failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
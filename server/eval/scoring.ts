@@ -0,0 +1,162 @@
+import type { EvalFixture } from "./fixtures";
+import type { InterventionStrategy } from "../services/ai";
+import type { UrgentSafeguardResult } from "../services/safeguarding";
+
+// Scores one generated output against its fixture. Every check is pass/fail so that scores are
+// comparable between prompt versions; the raw metrics are kept alongside for the diff report.
+
+export interface EvalOutput {
+  text: string; // Everything the teacher sees: plan/draft plus notices
+  disclaimer: string;
+  strategies?: InterventionStrategy[];
+  safeguarding?: UrgentSafeguardResult; // Recommendations only: the classification that decides whether a safeguarding incident is opened
+}
+
+export interface CheckResult {
+  passed: boolean;
+  detail: string;
+}
+
+export interface FixtureMetrics {
+  words: number;
+  readingGrade: number | null; // null when the output is mostly Chinese
+  strategies: number | null;
+}
+
+export interface FixtureScore {
+  checks: Record<string, CheckResult>;
+  metrics: FixtureMetrics;
+  score: number; // Fraction of checks passed, 0-1
+}
+
+const DEFAULT_MAX_READING_GRADE = 14;
+const DEFAULT_MIN_STRATEGIES = 2;
+
+// Phrases from generateUrgentSafeguardMessage / the urgent-case notice / the urgent disclaimer
+const SAFEGUARDING_MARKERS = [
+  /immediate safety concern/i,
+  /urgent case/i,
+  /child protection/i,
+  /student support (?:services|department|team)/i,
+];
+
+const CJK_CHARACTER = /[一-鿿]/g;
+
+// Removes markdown syntax so formatting doesn't distort word and sentence counts
+export function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/```[\s\S]*?```/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s*/gm, '')
+    .replace(/^\s*(?:[-*•]|\d+[.)])\s+/gm, '')
+    .replace(/[*_`>|]/g, '')
+    .replace(/-{3,}/g, ' ')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+export function countWords(text: string): number {
+  const cjkCharacters = text.match(CJK_CHARACTER)?.length || 0;
+  const latinWords = text.replace(CJK_CHARACTER, ' ').match(/[A-Za-z0-9]+(?:['’-][A-Za-z0-9]+)*/g)?.length || 0;
+  return latinWords + cjkCharacters;
+}
+
+function countSyllables(word: string): number {
+  const cleaned = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (cleaned.length <= 3) return 1;
+  const trimmed = cleaned.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, trimmed.match(/[aeiouy]{1,2}/g)?.length || 1);
+}
+
+/**
+ * Flesch-Kincaid grade level. Each line is treated as ending a sentence, since plans are
+ * mostly bullet points without full stops. Returns null for mostly-Chinese text.
+ */
+export function readingGrade(text: string): number | null {
+  const cjkCharacters = text.match(CJK_CHARACTER)?.length || 0;
+  const words = text.replace(CJK_CHARACTER, ' ').match(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g) || [];
+  if (words.length === 0 || cjkCharacters > words.length) return null;
+
+  const sentences = text
+    .split(/[.!?]+\s|\n+/)
+    .filter(sentence => /[A-Za-z]/.test(sentence)).length || 1;
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+
+  const grade = 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+  return Math.round(grade * 10) / 10;
+}
+
+export function scoreOutput(fixture: EvalFixture, output: EvalOutput): FixtureScore {
+  const expect = fixture.expect;
+  const plainText = toPlainText(output.text);
+  const lowerText = output.text.toLowerCase();
+  const words = countWords(plainText);
+  const grade = readingGrade(plainText);
+  const checks: Record<string, CheckResult> = {};
+
+  const missingSections = (expect.requiredSections || []).filter(section => !lowerText.includes(section.toLowerCase()));
+  checks.requiredSections = {
+    passed: missingSections.length === 0,
+    detail: missingSections.length === 0
+      ? `all ${(expect.requiredSections || []).length} present`
+      : `missing: ${missingSections.join(', ')}`,
+  };
+
+  if (output.strategies) {
+    const minStrategies = expect.minStrategies ?? DEFAULT_MIN_STRATEGIES;
+    const incomplete = output.strategies
+      .filter(strategy => strategy.steps.length === 0 || strategy.progressMeasures.length === 0 || strategy.successCriteria.length === 0)
+      .map(strategy => strategy.title);
+    checks.strategyStructure = {
+      passed: output.strategies.length >= minStrategies && incomplete.length === 0,
+      detail: incomplete.length > 0
+        ? `${output.strategies.length} strategies; incomplete: ${incomplete.join(', ')}`
+        : `${output.strategies.length} strategies (min ${minStrategies})`,
+    };
+  }
+
+  const disclaimerText = `${output.disclaimer}\n${output.text}`;
+  checks.disclaimer = {
+    passed: /disclaimer/i.test(disclaimerText),
+    detail: /disclaimer/i.test(disclaimerText) ? 'present' : 'no disclaimer found',
+  };
+
+  if (expect.urgent !== undefined) {
+    const found = SAFEGUARDING_MARKERS.filter(marker => marker.test(output.text)).map(marker => marker.source);
+    const alerted = /immediate safety concern|urgent case/i.test(output.text);
+    checks.safeguarding = expect.urgent
+      ? { passed: alerted && found.length >= 2, detail: found.length > 0 ? `found: ${found.join(', ')}` : 'no safeguarding language' }
+      : { passed: !alerted, detail: alerted ? 'urgent alert shown on a non-urgent case' : 'no false alarm' };
+  }
+
+  // The alert text alone isn't enough: incidents (and the leads' emails) are opened from the classification
+  if (expect.urgent !== undefined && fixture.kind === 'recommendations') {
+    const incident = output.safeguarding?.isUrgent === true;
+    checks.incident = {
+      passed: incident === expect.urgent,
+      detail: output.safeguarding
+        ? `risk ${output.safeguarding.riskScore}/100, ${incident ? 'incident opened' : 'no incident'}`
+        : 'no safeguarding result returned',
+    };
+  }
+
+  const maxGrade = expect.maxReadingGrade ?? DEFAULT_MAX_READING_GRADE;
+  checks.readingLevel = {
+    passed: grade === null || grade <= maxGrade,
+    detail: grade === null ? 'skipped (Chinese output)' : `grade ${grade} (max ${maxGrade})`,
+  };
+
+  const tooShort = expect.minWords !== undefined && words < expect.minWords;
+  const tooLong = expect.maxWords !== undefined && words > expect.maxWords;
+  checks.length = {
+    passed: !tooShort && !tooLong,
+    detail: `${words} words (${expect.minWords ?? 0}-${expect.maxWords ?? '∞'})`,
+  };
+
+  const results = Object.values(checks);
+  return {
+    checks,
+    metrics: { words, readingGrade: grade, strategies: output.strategies ? output.strategies.length : null },
+    score: results.filter(result => result.passed).length / results.length,
+  };
+}
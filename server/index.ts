@@ -165,7 +165,40 @@ app.use((req, res, next) => {
     console.error('❌ Failed to initialize auto-send processor:', error);
     // Continue without auto-send processor in case of initialization failure
   }
-  
+
+  // Start escalating unacknowledged urgent safeguarding cases up the school's contact chain
+  try {
+    const { safeguardingEscalationProcessor } = await import('./safeguarding-escalation-processor');
+    if (!safeguardingEscalationProcessor) {
+      throw new Error('Safeguarding escalation processor failed to initialize');
+    }
+    console.log('✅ Safeguarding escalation processor started');
+  } catch (error) {
+    console.error('❌ Failed to start safeguarding escalation processor:', error);
+  }
+
+  // Start flagging likely duplicate student records for admins to merge
+  try {
+    const { studentDuplicateProcessor } = await import('./student-duplicate-processor');
+    if (!studentDuplicateProcessor) {
+      throw new Error('Student duplicate processor failed to initialize');
+    }
+    console.log('✅ Student duplicate processor started');
+  } catch (error) {
+    console.error('❌ Failed to start student duplicate processor:', error);
+  }
+
+  // Start emailing teachers when progress check-ins fall due
+  try {
+    const { checkInReminderProcessor } = await import('./check-in-reminder-processor');
+    if (!checkInReminderProcessor) {
+      throw new Error('Check-in reminder processor failed to initialize');
+    }
+    console.log('✅ Check-in reminder processor started');
+  } catch (error) {
+    console.error('❌ Failed to start check-in reminder processor:', error);
+  }
+
   const server = await registerRoutes(app);
 
   // Enhanced error handling middleware
@@ -1,12 +1,15 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { generateInterventions, answerFollowUpQuestion, generateRecommendations, followUpAssistance, GenerateRecommendationsRequest, FollowUpAssistanceRequest } from "./services/ai";
+import type { UrgentSafeguardResult } from "./services/safeguarding";
+import { generateInterventions, answerFollowUpQuestion, generateRecommendations, followUpAssistance, getDefaultTimeline, GenerateRecommendationsRequest, GenerateRecommendationsResponse, FollowUpAssistanceRequest } from "./services/ai";
+import { openEventStream, wantsEventStream } from "./services/eventStream";
+import { findNearDuplicate, getNearDuplicateWindowMs, hasCachedResponse } from "./services/aiResponseCache";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage";
 import { generateConcernReport, ensureReportsDirectory, parseMarkdownToPDF } from "./services/pdf";
 import { generateConcernHTMLReport, generateMeetingHTMLReport } from "./services/htmlReport";
 import { sendReportEmail, generateSecureReportLink } from "./services/email";
-import { insertConcernSchema, insertFollowUpQuestionSchema, users, concerns, interventions, reports, schools, featureFlags, schoolFeatureOverrides } from "@shared/schema";
+import { insertConcernSchema, insertFollowUpQuestionSchema, users, concerns, interventions, reports, schools, featureFlags, schoolFeatureOverrides, type Concern, type InsertIntervention, type FidelitySummary } from "@shared/schema";
 import { z } from "zod";
 import { db } from "./db";
 import { eq, and, sql } from "drizzle-orm";
@@ -30,6 +33,7 @@ import {
   createApiKey,
   updateApiKey,
   deleteApiKey,
+  resetApiKeyUsage,
   startDemoProgram,
   getDemoSchools,
   getDemoSchoolDetails,
@@ -37,12 +41,13 @@ import {
   convertDemoToFull
 } from "./services/admin";
 // Removed unused analytics and deepseek-ai imports
+import { AI_PROVIDERS, isAIProviderType } from "./services/aiProviders";
 import { getReferrals, createReferral } from "./services/referrals";
 import { getSystemHealth, getDetailedSystemHealth, trackRequest } from "./services/health";
 import { initiatePasswordReset, confirmPasswordReset } from "./services/auth";
 import { getTeacherExportData, getSchoolExportData, convertToCSV, getAllSchoolNames } from "./services/export";
 import { emailConfigService } from "./services/emailConfig";
-import { insertUserEmailConfigSchema, insertSchoolEmailConfigSchema } from "@shared/schema";
+import { insertUserEmailConfigSchema, insertSchoolEmailConfigSchema, insertPiiRedactionSettingsSchema, insertPromptTemplateSchema, insertSchoolAiBudgetSchema, updateSchoolSafeguardingSettingsSchema, insertSafeguardingLeadSchema, urgentCaseActionSchema, safeguardingIncidentEntrySchema, closeSafeguardingIncidentSchema, insertStudentSchema, updateStudentSchema, mergeStudentsSchema, studentTierChangeSchema, insertInterventionGoalSchema, insertGoalDataPointSchema, completeCheckInSchema, checkInScheduleSchema, recordFidelitySchema, fidelityFrequencySchema, adjustPlanSchema, shareConcernSchema, bulkShareConcernsSchema, createConcernCommentSchema, interventionLibraryEntrySchema, addLibraryInterventionSchema, PROMPT_TEMPLATE_KEYS, type PromptTemplateKey } from "@shared/schema";
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Health check endpoint - only respond for specific health check requests
@@ -148,7 +153,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
               firstName: user.firstName,
               lastName: user.lastName,
               school: user.school,
-              isAdmin: user.isAdmin || false
+              isAdmin: user.isAdmin || false,
+              role: user.role || 'teacher'
             };
             
             // Set session data directly and save immediately
@@ -374,6 +380,8 @@ Submitted: ${new Date().toLocaleString()}
         
         const responseData = {
           ...req.session.user,
+          role: userWithUsage?.role || req.session.user.role || 'teacher',
+          isMtssTeam: !!userWithUsage?.isMtssTeam,
           supportRequestsUsed: userWithUsage?.supportRequestsUsed || 0,
           supportRequestsLimit: totalLimit,
           additionalRequests: additionalRequests,
@@ -423,6 +431,24 @@ Submitted: ${new Date().toLocaleString()}
     }
   };
 
+  // Super admin middleware - the role is re-read from the database so a demotion applies immediately
+  const requireSuperAdmin = async (req: any, res: any, next: any) => {
+    if (!req.session.isAuthenticated || !req.session.user?.isAdmin) {
+      return res.status(403).json({ message: "Super admin access required" });
+    }
+    try {
+      const user = await storage.getUser(req.session.user.id);
+      if (user?.role !== 'super_admin') {
+        return res.status(403).json({ message: "Super admin access required" });
+      }
+      req.user = { claims: { sub: req.session.user.id } };
+      next();
+    } catch (error) {
+      console.error("Error checking super admin role:", error);
+      res.status(500).json({ message: "Failed to verify permissions" });
+    }
+  };
+
   // Email configuration endpoints for Classroom Solutions
   app.post('/api/admin/email-config', requireAuth, async (req, res) => {
     try {
@@ -550,11 +576,199 @@ Submitted: ${new Date().toLocaleString()}
     }
   };
 
+  // Builds the AI request for a stored concern (used by both the JSON and streaming flows)
+  const buildConcernRecommendationRequest = async (
+    newConcern: Concern,
+    userId: string,
+    schoolName?: string | null
+  ): Promise<GenerateRecommendationsRequest> => {
+    // For classroom management, fetch all existing concerns for this teacher
+    let existingConcerns: any[] = [];
+    if (newConcern.taskType === 'classroom_management') {
+      console.log("📚 Fetching existing concerns for classroom management strategies...");
+      existingConcerns = await storage.getConcernsByTeacher(userId);
+      console.log(`📊 Found ${existingConcerns.length} existing concerns for teacher`);
+    }
+
+    return {
+      studentFirstName: newConcern.studentFirstName,
+      studentLastInitial: newConcern.studentLastInitial,
+      grade: newConcern.grade || "Elementary",
+      teacherPosition: newConcern.teacherPosition || "Teacher",
+      incidentDate: newConcern.incidentDate ? newConcern.incidentDate.toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
+      location: newConcern.location || "Classroom",
+      concernTypes: Array.isArray(newConcern.concernTypes) ? newConcern.concernTypes : [],
+      otherConcernType: newConcern.otherConcernType || undefined,
+      concernDescription: newConcern.description,
+      severityLevel: newConcern.severityLevel || "moderate",
+      actionsTaken: Array.isArray(newConcern.actionsTaken) ? newConcern.actionsTaken : [],
+      otherActionTaken: newConcern.otherActionTaken || undefined,
+      
+      // Pass through student differentiation fields for AI personalization
+      hasIep: newConcern.hasIep || false,
+      hasDisability: newConcern.hasDisability || false,
+      disabilityType: newConcern.disabilityType || undefined,
+      isEalLearner: newConcern.isEalLearner || false,
+      ealProficiency: newConcern.ealProficiency || undefined,
+      isGifted: newConcern.isGifted || false,
+      isStruggling: newConcern.isStruggling || false,
+      otherNeeds: newConcern.otherNeeds || undefined,
+      
+      // File uploads for enhanced AI recommendations
+      studentAssessmentFile: newConcern.studentAssessmentFile || undefined,
+      lessonPlanContent: newConcern.lessonPlanContent || undefined,
+      
+      // Task type for focused AI responses
+      taskType: newConcern.taskType || "tier2_intervention",
+      
+      // Existing concerns for classroom management
+      existingConcerns,
+      
+      // School selects which AI provider key and PII redaction settings are used
+      schoolName: schoolName || undefined,
+      userId,
+    };
+  };
+
+  // The parts of a concern that make two submissions "the same concern" for near-duplicate detection
+  const concernFingerprint = (concern: { studentFirstName?: unknown; studentLastInitial?: unknown; grade?: unknown; taskType?: unknown; concernTypes?: unknown; description?: unknown }) => [
+    concern.studentFirstName,
+    concern.studentLastInitial,
+    concern.grade,
+    concern.taskType || "tier2_intervention",
+    Array.isArray(concern.concernTypes) ? [...concern.concernTypes].sort().join(" ") : "",
+    concern.description,
+  ].map(part => String(part ?? "")).join(" | ");
+
+  // Opens a safeguarding incident for an urgent concern, which also emails the school's safeguarding leads
+  const reportUrgentConcern = async (concern: Concern, userId: string, result: UrgentSafeguardResult, schoolName?: string | null) => {
+    const teacher = await storage.getUser(userId);
+    const { openSafeguardingIncident } = await import('./services/safeguardingIncidents');
+    return openSafeguardingIncident(schoolName, {
+      source: 'concern',
+      sourceId: concern.id,
+      studentLabel: `${concern.studentFirstName} ${concern.studentLastInitial}.`,
+      teacherName: teacher ? `${teacher.firstName || ''} ${teacher.lastName || ''}`.trim() || teacher.email : 'A teacher',
+      reportedByUserId: userId,
+      triggeringText: concern.description,
+      result,
+    });
+  };
+
+  // Persists generated recommendations as interventions and counts the request against the teacher's quota
+  const saveConcernRecommendations = async (
+    newConcern: Concern,
+    userId: string,
+    recommendationResponse: GenerateRecommendationsResponse,
+    schoolName?: string | null
+  ) => {
+    // Save the AI response with appropriate title based on task type
+    let taskTypeLabel;
+    
+    if (newConcern.taskType === "differentiation") {
+      taskTypeLabel = "Differentiation Strategies";
+    } else if (newConcern.taskType === "classroom_management") {
+      taskTypeLabel = "Whole Class Management Strategies";
+    } else {
+      taskTypeLabel = "Tier 2 Intervention Recommendations";
+    }
+    
+    // The plan overview (analysis, monitoring system, safety notices) comes first, followed by
+    // one row per validated strategy with its own steps, progress measures and success criteria
+    const { overview, strategies, promptTemplateId, promptVersion } = recommendationResponse;
+    const { getStudentTier, interventionTierFor } = await import('./services/studentTiers');
+    const tier = interventionTierFor(newConcern.taskType, await getStudentTier(newConcern.studentId));
+    const interventionRows: InsertIntervention[] = [];
+    if (overview.trim()) {
+      interventionRows.push({
+        concernId: newConcern.id,
+        title: `AI-Generated ${taskTypeLabel}`,
+        description: overview,
+        steps: strategies.map(strategy => strategy.title),
+        timeline: getDefaultTimeline(newConcern.taskType || undefined),
+        promptTemplateId,
+        promptVersion,
+        tier,
+      });
+    }
+    interventionRows.push(...strategies.map(strategy => ({
+      concernId: newConcern.id,
+      title: strategy.title,
+      description: strategy.description,
+      steps: strategy.steps,
+      timeline: strategy.timeline,
+      progressMeasures: strategy.progressMeasures,
+      successCriteria: strategy.successCriteria,
+      promptTemplateId,
+      promptVersion,
+      tier,
+      libraryEntryId: strategy.libraryEntryId || null,
+    })));
+    
+    const savedInterventions = await storage.createInterventions(interventionRows);
+
+    // Rule-based detections were reported when the concern was created. The model review only runs
+    // when the rules found the text below the threshold, so a reviewed urgent result is a new one.
+    const safeguarding = recommendationResponse.safeguarding;
+    if (safeguarding?.isUrgent && safeguarding.modelReviewed) {
+      // Not awaited: the teacher's plan shouldn't wait on the incident log or the mail server
+      reportUrgentConcern(newConcern, userId, safeguarding, schoolName);
+    }
+
+    // Cached responses didn't call the model, so they don't count against the quota
+    if (recommendationResponse.cached) {
+      console.log(`♻️ Cached recommendations for user ${userId} - usage count unchanged`);
+      return savedInterventions;
+    }
+
+    // Template fallbacks weren't written by the model either, so a retry later is free
+    if (recommendationResponse.fallbackReason) {
+      console.log(`🔄 Fallback recommendations (${recommendationResponse.fallbackReason}) for user ${userId} - usage count unchanged`);
+      return savedInterventions;
+    }
+
+    // Increment usage count after successful concern creation
+    try {
+      const updatedUser = await storage.incrementUserRequestCount(userId);
+      console.log(`✅ Incremented usage count for user ${userId} - new count: ${updatedUser.supportRequestsUsed}`);
+    } catch (usageError) {
+      console.error("Failed to increment usage count:", usageError);
+      // Don't fail the concern creation if usage tracking fails
+    }
+
+    return savedInterventions;
+  };
+
   // Create a new concern and generate recommendations - TEACHERS ONLY
   app.post("/api/concerns", requireTeacher, async (req: any, res) => {
     try {
       // SECURE: Get real user ID from authenticated session
       const userId = req.user.claims.sub;
+
+      // Offer back a near-identical concern submitted in the last few minutes (double-click,
+      // retry after a timeout, resubmit after fixing a typo) unless the teacher confirmed it
+      if (!req.body.allowDuplicate) {
+        const recentConcerns = await storage.getRecentConcernsByTeacher(userId, new Date(Date.now() - getNearDuplicateWindowMs()));
+        const nearDuplicate = findNearDuplicate(concernFingerprint(req.body), recentConcerns.map(concern => ({
+          item: concern,
+          text: concernFingerprint(concern),
+          createdAt: concern.createdAt,
+        })));
+        if (nearDuplicate) {
+          console.log(`♻️ Near-duplicate concern from user ${userId} (${Math.round(nearDuplicate.similarity * 100)}% similar to ${nearDuplicate.item.id})`);
+          return res.status(409).json({
+            message: "You submitted a very similar concern a few minutes ago.",
+            nearDuplicate: {
+              concernId: nearDuplicate.item.id,
+              studentFirstName: nearDuplicate.item.studentFirstName,
+              studentLastInitial: nearDuplicate.item.studentLastInitial,
+              createdAt: nearDuplicate.item.createdAt,
+              similarity: nearDuplicate.similarity,
+              minutesAgo: nearDuplicate.minutesAgo,
+            },
+          });
+        }
+      }
       
       // Check usage limit BEFORE creating concern
       const usageCheck = await storage.checkUserUsageLimit(userId);
@@ -565,9 +779,37 @@ Submitted: ${new Date().toLocaleString()}
         });
       }
       
+      // Link the concern to the student's record (picked on the form, or matched by name);
+      // whole-class concerns aren't about one student
+      const { findOrCreateStudent, getStudent, getStudentScope, isStudentConcern } = await import('./services/students');
+      let studentId: string | null = null;
+      if (isStudentConcern({ taskType: req.body.taskType || "tier2_intervention" })) {
+        const studentScope = await getStudentScope(userId, req.session.user?.school);
+        if (req.body.studentId) {
+          const student = await getStudent(String(req.body.studentId), studentScope);
+          if (!student) {
+            return res.status(404).json({ message: "Student not found" });
+          }
+          studentId = student.id;
+        } else {
+          const student = await findOrCreateStudent({ schoolId: studentScope.schoolId, createdBy: userId }, {
+            firstName: String(req.body.studentFirstName),
+            lastInitial: String(req.body.studentLastInitial),
+            grade: String(req.body.grade),
+            hasIep: Boolean(req.body.hasIep),
+            isEalLearner: Boolean(req.body.isEalLearner),
+            isGifted: Boolean(req.body.isGifted),
+            hasDisability: Boolean(req.body.hasDisability),
+            disabilityType: req.body.disabilityType || null,
+          });
+          studentId = student.id;
+        }
+      }
+
       // Create concern in database
       const newConcern = await storage.createConcern({
         teacherId: userId,
+        studentId,
         studentFirstName: String(req.body.studentFirstName),
         studentLastInitial: String(req.body.studentLastInitial),
         grade: String(req.body.grade),
@@ -597,6 +839,16 @@ Submitted: ${new Date().toLocaleString()}
         // Task type selection
         taskType: req.body.taskType || "tier2_intervention",
       });
+
+      // Safeguarding leads hear about an urgent concern as soon as it is saved, whether or not a plan
+      // is generated afterwards. Not awaited, like the mail it sends.
+      const { detectUrgentKeywords } = await import('./services/safeguarding');
+      const { getSchoolSafeguardingConfig } = await import('./services/safeguardingConfig');
+      const safeguardingConfig = await getSchoolSafeguardingConfig(req.session.user?.school);
+      const safeguarding = detectUrgentKeywords(newConcern.description, safeguardingConfig?.extraKeywords);
+      if (safeguarding.isUrgent) {
+        reportUrgentConcern(newConcern, userId, safeguarding, req.session.user?.school);
+      }
       
       // Debug: Log the differentiation data being received
       console.log("🔍 Differentiation data received from form:", {
@@ -610,91 +862,23 @@ Submitted: ${new Date().toLocaleString()}
         otherNeeds: req.body.otherNeeds,
       });
 
-      // For classroom management, fetch all existing concerns for this teacher
-      let existingConcerns: any[] = [];
-      if (newConcern.taskType === 'classroom_management') {
-        console.log("📚 Fetching existing concerns for classroom management strategies...");
-        existingConcerns = await storage.getConcernsByTeacher(userId);
-        console.log(`📊 Found ${existingConcerns.length} existing concerns for teacher`);
-      }
-
-      // Generate AI recommendations using the enhanced format
-      const recommendationRequest: GenerateRecommendationsRequest = {
-        studentFirstName: newConcern.studentFirstName,
-        studentLastInitial: newConcern.studentLastInitial,
-        grade: newConcern.grade || "Elementary",
-        teacherPosition: newConcern.teacherPosition || "Teacher",
-        incidentDate: newConcern.incidentDate ? newConcern.incidentDate.toISOString().split('T')[0] : new Date().toISOString().split('T')[0],
-        location: newConcern.location || "Classroom",
-        concernTypes: Array.isArray(newConcern.concernTypes) ? newConcern.concernTypes : [],
-        otherConcernType: newConcern.otherConcernType || undefined,
-        concernDescription: newConcern.description,
-        severityLevel: newConcern.severityLevel || "moderate",
-        actionsTaken: Array.isArray(newConcern.actionsTaken) ? newConcern.actionsTaken : [],
-        otherActionTaken: newConcern.otherActionTaken || undefined,
-        
-        // Pass through student differentiation fields for AI personalization
-        hasIep: newConcern.hasIep || false,
-        hasDisability: newConcern.hasDisability || false,
-        disabilityType: newConcern.disabilityType || undefined,
-        isEalLearner: newConcern.isEalLearner || false,
-        ealProficiency: newConcern.ealProficiency || undefined,
-        isGifted: newConcern.isGifted || false,
-        isStruggling: newConcern.isStruggling || false,
-        otherNeeds: newConcern.otherNeeds || undefined,
-        
-        // File uploads for enhanced AI recommendations
-        studentAssessmentFile: newConcern.studentAssessmentFile || undefined,
-        lessonPlanContent: newConcern.lessonPlanContent || undefined,
-        
-        // Task type for focused AI responses
-        taskType: newConcern.taskType || "tier2_intervention",
-        
-        // Existing concerns for classroom management
-        existingConcerns: existingConcerns,
-      };
-
-      const recommendationResponse = await generateRecommendations(recommendationRequest);
-
-      // Save the AI response with appropriate title based on task type
-      let taskTypeLabel, steps, timeline;
-      
-      if (newConcern.taskType === "differentiation") {
-        taskTypeLabel = "Differentiation Strategies";
-        steps = ["Review Student Needs", "Adapt Instruction Methods", "Implement Accommodations", "Monitor Learning Progress"];
-        timeline = "Ongoing";
-      } else if (newConcern.taskType === "classroom_management") {
-        taskTypeLabel = "Whole Class Management Strategies";
-        steps = ["Analyze Classroom Environment", "Implement Proactive Strategies", "Establish Support Systems", "Monitor Class Progress"];
-        timeline = "4-8 weeks implementation";
-      } else {
-        taskTypeLabel = "Tier 2 Intervention Recommendations";
-        steps = ["Review Assessment Summary", "Implement Immediate Interventions", "Apply Short-term Strategies", "Monitor Progress"];
-        timeline = "2-6 weeks";
+      // Streaming clients create the concern first, then open
+      // /api/concerns/generate-recommendations with its id to watch the plan arrive
+      if (req.body.streamRecommendations) {
+        return res.json({ concern: newConcern, interventions: [] });
       }
-      
-      const savedInterventions = await storage.createInterventions([{
-        concernId: newConcern.id,
-        title: `AI-Generated ${taskTypeLabel}`,
-        description: recommendationResponse.recommendations,
-        steps: steps,
-        timeline: timeline,
-      }]);
 
-      // Increment usage count after successful concern creation
-      try {
-        const updatedUser = await storage.incrementUserRequestCount(userId);
-        console.log(`✅ Incremented usage count for user ${userId} - new count: ${updatedUser.supportRequestsUsed}`);
-      } catch (usageError) {
-        console.error("Failed to increment usage count:", usageError);
-        // Don't fail the concern creation if usage tracking fails
-      }
+      const recommendationRequest = await buildConcernRecommendationRequest(newConcern, userId, req.session.user?.school);
+      const recommendationResponse = await generateRecommendations(recommendationRequest);
+      const savedInterventions = await saveConcernRecommendations(newConcern, userId, recommendationResponse, req.session.user?.school);
 
       res.json({
         concern: newConcern,
         interventions: savedInterventions,
         recommendations: recommendationResponse.recommendations,
         disclaimer: recommendationResponse.disclaimer,
+        cached: recommendationResponse.cached || false,
+        fallbackReason: recommendationResponse.fallbackReason || null,
       });
     } catch (error) {
       console.error("Error creating concern:", error);
@@ -715,6 +899,109 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
+  // Students at the teacher's school, for the concern form's student picker
+  app.get("/api/students", requireAuth, async (req: any, res) => {
+    try {
+      const { getStudentScope, listStudents } = await import('./services/students');
+      const scope = await getStudentScope(req.user.claims.sub, req.session.user?.school, !!req.session.user?.isAdmin);
+      const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+      res.json(await listStudents(scope, search));
+    } catch (error) {
+      console.error("Error fetching students:", error);
+      res.status(500).json({ message: "Failed to fetch students" });
+    }
+  });
+
+  app.post("/api/students", requireAuth, async (req: any, res) => {
+    try {
+      const result = insertStudentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid student details", errors: result.error.errors });
+      }
+
+      const { createStudent, getStudentScope } = await import('./services/students');
+      const scope = await getStudentScope(req.user.claims.sub, req.session.user?.school);
+      res.json(await createStudent(scope, result.data));
+    } catch (error: any) {
+      if (error?.name === 'StudentSisIdConflictError') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error creating student:", error);
+      res.status(500).json({ message: "Failed to create student" });
+    }
+  });
+
+  // A student's profile with every concern, intervention, progress note, submission and meeting about them
+  app.get("/api/students/:id", requireAuth, async (req: any, res) => {
+    try {
+      const { getStudent, getStudentScope, getStudentTimeline } = await import('./services/students');
+      const { listStudentTierTransitions } = await import('./services/studentTiers');
+      const scope = await getStudentScope(req.user.claims.sub, req.session.user?.school, !!req.session.user?.isAdmin);
+      const student = await getStudent(req.params.id, scope);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      const [timeline, tierTransitions] = await Promise.all([getStudentTimeline(student.id, scope), listStudentTierTransitions(student.id)]);
+      res.json({ student, timeline, tierTransitions });
+    } catch (error) {
+      console.error("Error fetching student:", error);
+      res.status(500).json({ message: "Failed to fetch student" });
+    }
+  });
+
+  app.patch("/api/students/:id", requireAuth, async (req: any, res) => {
+    try {
+      const result = updateStudentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid student details", errors: result.error.errors });
+      }
+
+      const { getStudentScope, updateStudent } = await import('./services/students');
+      const scope = await getStudentScope(req.user.claims.sub, req.session.user?.school, !!req.session.user?.isAdmin);
+      const student = await updateStudent(req.params.id, scope, result.data);
+      if (!student) {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      res.json(student);
+    } catch (error: any) {
+      if (error?.name === 'StudentSisIdConflictError') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating student:", error);
+      res.status(500).json({ message: "Failed to update student" });
+    }
+  });
+
+  // Move a student between MTSS tiers, recording why and which team decided (admins and the MTSS team only)
+  app.post("/api/students/:id/tier", requireAuth, async (req: any, res) => {
+    try {
+      const result = studentTierChangeSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid tier change", errors: result.error.errors });
+      }
+
+      const { getStudentScope } = await import('./services/students');
+      const { changeStudentTier } = await import('./services/studentTiers');
+      const scope = await getStudentScope(req.user.claims.sub, req.session.user?.school, !!req.session.user?.isAdmin);
+      res.json(await changeStudentTier(req.params.id, scope, result.data));
+    } catch (error: any) {
+      if (error?.name === 'StudentNotFoundError') {
+        return res.status(404).json({ message: "Student not found" });
+      }
+      if (error?.name === 'StudentTierPermissionError') {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error?.name === 'StudentTierUnchangedError') {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error?.name === 'StudentTierBackdateConflictError') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error changing student tier:", error);
+      res.status(500).json({ message: "Failed to change student tier" });
+    }
+  });
+
   // Save an intervention - PROTECTED
   app.post("/api/interventions/:id/save", requireAuth, async (req: any, res) => {
     try {
@@ -735,8 +1022,9 @@ Submitted: ${new Date().toLocaleString()}
         return res.status(403).json({ message: "Access denied" });
       }
 
-      // Save the intervention
-      const savedIntervention = await storage.saveIntervention(interventionId);
+      // Save the intervention and start its progress check-in schedule
+      const { startCheckInSchedule } = await import('./services/checkIns');
+      const savedIntervention = await startCheckInSchedule(await storage.saveIntervention(interventionId));
       
       res.json({
         success: true,
@@ -749,6 +1037,297 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
+  // Intervention goals and progress-monitoring data - PROTECTED
+  app.get("/api/interventions/:id/goals", requireAuth, async (req: any, res) => {
+    try {
+      const { listInterventionGoals } = await import('./services/interventionGoals');
+      res.json(await listInterventionGoals(req.params.id, req.user.claims.sub));
+    } catch (error: any) {
+      if (error?.name === 'InterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      console.error("Error fetching intervention goals:", error);
+      res.status(500).json({ message: "Failed to fetch intervention goals" });
+    }
+  });
+
+  app.post("/api/interventions/:id/goals", requireAuth, async (req: any, res) => {
+    try {
+      const result = insertInterventionGoalSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid goal", errors: result.error.errors });
+      }
+
+      const { createInterventionGoal } = await import('./services/interventionGoals');
+      res.status(201).json(await createInterventionGoal(req.params.id, req.user.claims.sub, result.data));
+    } catch (error: any) {
+      if (error?.name === 'InterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      console.error("Error creating intervention goal:", error);
+      res.status(500).json({ message: "Failed to create intervention goal" });
+    }
+  });
+
+  app.delete("/api/intervention-goals/:id", requireAuth, async (req: any, res) => {
+    try {
+      const { deleteInterventionGoal } = await import('./services/interventionGoals');
+      await deleteInterventionGoal(req.params.id, req.user.claims.sub);
+      res.status(204).send();
+    } catch (error: any) {
+      if (error?.name === 'InterventionGoalNotFoundError') {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      console.error("Error deleting intervention goal:", error);
+      res.status(500).json({ message: "Failed to delete intervention goal" });
+    }
+  });
+
+  app.post("/api/intervention-goals/:id/data-points", requireAuth, async (req: any, res) => {
+    try {
+      const result = insertGoalDataPointSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid data point", errors: result.error.errors });
+      }
+
+      const { addGoalDataPoint } = await import('./services/interventionGoals');
+      res.status(201).json(await addGoalDataPoint(req.params.id, req.user.claims.sub, result.data));
+    } catch (error: any) {
+      if (error?.name === 'InterventionGoalNotFoundError') {
+        return res.status(404).json({ message: "Goal not found" });
+      }
+      console.error("Error adding goal data point:", error);
+      res.status(500).json({ message: "Failed to add data point" });
+    }
+  });
+
+  app.delete("/api/intervention-goals/:goalId/data-points/:pointId", requireAuth, async (req: any, res) => {
+    try {
+      const { deleteGoalDataPoint } = await import('./services/interventionGoals');
+      await deleteGoalDataPoint(req.params.goalId, req.params.pointId, req.user.claims.sub);
+      res.status(204).send();
+    } catch (error: any) {
+      if (error?.name === 'InterventionGoalNotFoundError') {
+        return res.status(404).json({ message: "Data point not found" });
+      }
+      console.error("Error deleting goal data point:", error);
+      res.status(500).json({ message: "Failed to delete data point" });
+    }
+  });
+
+  // Implementation fidelity checklist for a saved intervention - PROTECTED
+  app.get("/api/interventions/:id/fidelity", requireAuth, async (req: any, res) => {
+    try {
+      const { getFidelity } = await import('./services/fidelity');
+      res.json(await getFidelity(req.params.id, req.user.claims.sub));
+    } catch (error: any) {
+      if (error?.name === 'FidelityInterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      if (error?.name === 'FidelityNotSavedError') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error fetching fidelity checklist:", error);
+      res.status(500).json({ message: "Failed to fetch fidelity checklist" });
+    }
+  });
+
+  app.put("/api/interventions/:id/fidelity", requireAuth, async (req: any, res) => {
+    try {
+      const result = recordFidelitySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid fidelity checklist", errors: result.error.errors });
+      }
+
+      const { recordFidelity } = await import('./services/fidelity');
+      res.json(await recordFidelity(req.params.id, req.user.claims.sub, result.data));
+    } catch (error: any) {
+      if (error?.name === 'FidelityInterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      if (error?.name === 'FidelityNotSavedError') {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error?.name === 'FidelityPeriodError') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording fidelity:", error);
+      res.status(500).json({ message: "Failed to record fidelity" });
+    }
+  });
+
+  app.put("/api/interventions/:id/fidelity-frequency", requireAuth, async (req: any, res) => {
+    try {
+      const result = fidelityFrequencySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid fidelity frequency", errors: result.error.errors });
+      }
+
+      const { setFidelityFrequency } = await import('./services/fidelity');
+      res.json(await setFidelityFrequency(req.params.id, req.user.claims.sub, result.data.frequency));
+    } catch (error: any) {
+      if (error?.name === 'FidelityInterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      if (error?.name === 'FidelityNotSavedError') {
+        return res.status(409).json({ message: error.message });
+      }
+      console.error("Error updating fidelity frequency:", error);
+      res.status(500).json({ message: "Failed to update fidelity frequency" });
+    }
+  });
+
+  // Plan version history and the teacher's adjustment allowance - PROTECTED
+  app.get("/api/interventions/:id/revisions", requireAuth, async (req: any, res) => {
+    try {
+      const { getPlanRevisions } = await import('./services/planRevisions');
+      res.json(await getPlanRevisions(req.params.id, req.user.claims.sub));
+    } catch (error: any) {
+      if (error?.name === 'PlanInterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      console.error("Error fetching plan revisions:", error);
+      res.status(500).json({ message: "Failed to fetch plan history" });
+    }
+  });
+
+  // "Adjust this plan": revise an intervention from its progress data without a new concern.
+  // Uses the plan adjustment allowance, not a support request - TEACHERS ONLY
+  app.post("/api/interventions/:id/adjust", requireTeacher, async (req: any, res) => {
+    try {
+      const result = adjustPlanSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid adjustment request", errors: result.error.errors });
+      }
+
+      const userId = req.user.claims.sub;
+      const schoolName = req.session.user?.school || undefined;
+      const { adjustPlan } = await import('./services/planRevisions');
+      const adjusted = await adjustPlan(req.params.id, userId, result.data, schoolName);
+
+      if (adjusted.safeguarding?.isUrgent) {
+        const [concern, teacher] = await Promise.all([storage.getConcernById(adjusted.intervention.concernId), storage.getUser(userId)]);
+        const { openSafeguardingIncident } = await import('./services/safeguardingIncidents');
+        // Not awaited: the revised plan shouldn't wait on the incident log or the mail server
+        openSafeguardingIncident(schoolName, {
+          source: 'follow_up',
+          sourceId: adjusted.intervention.concernId,
+          studentLabel: concern ? `${concern.studentFirstName} ${concern.studentLastInitial}.` : 'A student',
+          teacherName: teacher ? `${teacher.firstName || ''} ${teacher.lastName || ''}`.trim() || teacher.email : 'A teacher',
+          reportedByUserId: userId,
+          triggeringText: result.data.reason,
+          result: adjusted.safeguarding,
+        });
+      }
+
+      res.status(201).json({ intervention: adjusted.intervention, revision: adjusted.revision });
+    } catch (error: any) {
+      if (error?.name === 'PlanInterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      if (error?.name === 'PlanAdjustmentNotAllowedError') {
+        return res.status(429).json({ message: error.message });
+      }
+      if (error?.name === 'PlanAdjustmentConflictError') {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error?.name === 'PlanAdjustmentUnavailableError') {
+        return res.status(503).json({ message: error.message, fallbackReason: error.fallbackReason });
+      }
+      console.error("Error adjusting plan:", error);
+      res.status(500).json({ message: "Failed to adjust plan" });
+    }
+  });
+
+  // Progress check-ins: the teacher's to-do list of scheduled check-ins - PROTECTED
+  app.get("/api/check-ins", requireAuth, async (req: any, res) => {
+    try {
+      const { listTeacherCheckIns } = await import('./services/checkIns');
+      res.json(await listTeacherCheckIns(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching check-ins:", error);
+      res.status(500).json({ message: "Failed to fetch check-ins" });
+    }
+  });
+
+  app.post("/api/interventions/:id/check-ins", requireAuth, async (req: any, res) => {
+    try {
+      const result = completeCheckInSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid check-in", errors: result.error.errors });
+      }
+
+      const { completeCheckIn } = await import('./services/checkIns');
+      res.status(201).json(await completeCheckIn(req.params.id, req.user.claims.sub, result.data));
+    } catch (error: any) {
+      if (error?.name === 'CheckInInterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      if (error?.name === 'CheckInNotScheduledError') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error recording check-in:", error);
+      res.status(500).json({ message: "Failed to record check-in" });
+    }
+  });
+
+  app.put("/api/interventions/:id/check-in-schedule", requireAuth, async (req: any, res) => {
+    try {
+      const result = checkInScheduleSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid check-in schedule", errors: result.error.errors });
+      }
+
+      const { updateCheckInSchedule } = await import('./services/checkIns');
+      res.json(await updateCheckInSchedule(req.params.id, req.user.claims.sub, result.data.intervalDays));
+    } catch (error: any) {
+      if (error?.name === 'CheckInInterventionNotFoundError') {
+        return res.status(404).json({ message: "Intervention not found" });
+      }
+      console.error("Error updating check-in schedule:", error);
+      res.status(500).json({ message: "Failed to update check-in schedule" });
+    }
+  });
+
+  // Intervention library: active entries teachers can browse - PROTECTED
+  app.get("/api/intervention-library", requireAuth, async (req: any, res) => {
+    try {
+      const { searchLibraryEntries } = await import('./services/interventionLibrary');
+      const tier = parseInt(req.query.tier, 10);
+      res.json(await searchLibraryEntries({
+        q: typeof req.query.q === 'string' ? req.query.q : undefined,
+        concernType: typeof req.query.concernType === 'string' && req.query.concernType ? req.query.concernType : undefined,
+        gradeBand: typeof req.query.gradeBand === 'string' && req.query.gradeBand ? req.query.gradeBand : undefined,
+        tier: isNaN(tier) ? undefined : tier,
+      }));
+    } catch (error) {
+      console.error("Error searching intervention library:", error);
+      res.status(500).json({ message: "Failed to search intervention library" });
+    }
+  });
+
+  // Add a library entry to a concern as an intervention - no AI call, so no support request is used
+  app.post("/api/concerns/:id/library-interventions", requireAuth, async (req: any, res) => {
+    try {
+      const result = addLibraryInterventionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid library intervention", errors: result.error.errors });
+      }
+
+      const { addLibraryEntryToConcern } = await import('./services/interventionLibrary');
+      res.status(201).json(await addLibraryEntryToConcern(req.params.id, result.data.entryId, req.user.claims.sub));
+    } catch (error: any) {
+      if (error?.name === 'LibraryConcernNotFoundError') {
+        return res.status(404).json({ message: "Concern not found" });
+      }
+      if (error?.name === 'LibraryEntryNotFoundError') {
+        return res.status(404).json({ message: "Library entry not found" });
+      }
+      console.error("Error adding library intervention:", error);
+      res.status(500).json({ message: "Failed to add library intervention" });
+    }
+  });
+
   // Object storage upload endpoint - PROTECTED
   app.post("/api/objects/upload", requireAuth, async (req: any, res) => {
     try {
@@ -815,25 +1394,84 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
-  // Generate AI recommendations directly (for testing)
+  // Generate AI recommendations. With `Accept: text/event-stream` the plan is streamed as
+  // Server-Sent Events (notice, overview, strategy, done, error). When `concernId` is given the
+  // recommendations are generated for that stored concern and saved as its interventions once complete.
   app.post("/api/concerns/generate-recommendations", requireAuth, async (req: any, res) => {
     console.log("🤖 AI generation endpoint called");
+    const stream = wantsEventStream(req) ? openEventStream(res) : null;
     try {
-      // Validate the request data matches GenerateRecommendationsRequest interface
-      const recommendationRequest: GenerateRecommendationsRequest = req.body;
+      const userId = req.user.claims.sub;
+      let concern: Concern | undefined;
+      let recommendationRequest: GenerateRecommendationsRequest;
+
+      if (req.body.concernId) {
+        const concernWithDetails = await storage.getConcernWithDetails(req.body.concernId);
+        let rejection: { status: number; message: string } | null = null;
+        if (!concernWithDetails) {
+          rejection = { status: 404, message: "Concern not found" };
+        } else if (concernWithDetails.teacherId !== userId) {
+          rejection = { status: 403, message: "Access denied" };
+        } else if (concernWithDetails.interventions.length > 0) {
+          // One generation per concern - the request was already counted against the quota
+          rejection = { status: 409, message: "Recommendations have already been generated for this concern" };
+        }
+        if (rejection) {
+          if (stream) {
+            stream.send('error', { message: rejection.message });
+            return stream.close();
+          }
+          return res.status(rejection.status).json({ success: false, message: rejection.message });
+        }
+        // Strip the joined teacher record and related rows before echoing the concern back
+        const { interventions: _interventions, followUpQuestions: _questions, teacher: _teacher, ...concernFields } = concernWithDetails!;
+        concern = concernFields;
+        recommendationRequest = await buildConcernRecommendationRequest(concern, userId, req.session.user?.school);
+      } else {
+        // Always the signed-in teacher, whatever the body claims
+        recommendationRequest = {
+          ...req.body,
+          userId,
+          schoolName: req.session.user?.school || undefined,
+        };
+      }
       
       console.log("📋 Generating recommendations for:", recommendationRequest.studentFirstName, recommendationRequest.studentLastInitial);
       
-      const recommendationResponse = await generateRecommendations(recommendationRequest);
+      const recommendationResponse = await generateRecommendations(recommendationRequest, stream ? {
+        onNotice: (notice) => stream.send('notice', { content: notice }),
+        onOverview: (overview) => stream.send('overview', { content: overview }),
+        onStrategy: (strategy, index) => stream.send('strategy', { index, strategy }),
+      } : undefined);
+
+      // Saved even if the teacher closed the page mid-stream, so the plan is waiting for them
+      const savedInterventions = concern
+        ? await saveConcernRecommendations(concern, userId, recommendationResponse, req.session.user?.school)
+        : undefined;
       
-      res.json({
+      const result = {
         success: true,
         recommendations: recommendationResponse.recommendations,
-        disclaimer: recommendationResponse.disclaimer
-      });
-    } catch (error) {
-      console.error("❌ Error in AI generation endpoint:", error);
-      res.status(500).json({ 
+        disclaimer: recommendationResponse.disclaimer,
+        strategies: recommendationResponse.strategies,
+        cached: recommendationResponse.cached || false,
+        fallbackReason: recommendationResponse.fallbackReason || null,
+        concern,
+        interventions: savedInterventions
+      };
+
+      if (stream) {
+        stream.send('done', result);
+        return stream.close();
+      }
+      res.json(result);
+    } catch (error) {
+      console.error("❌ Error in AI generation endpoint:", error);
+      if (stream) {
+        stream.send('error', { message: "Failed to generate recommendations" });
+        return stream.close();
+      }
+      res.status(500).json({ 
         success: false,
         message: "Failed to generate recommendations",
         error: error instanceof Error ? error.message : "Unknown error"
@@ -852,13 +1490,15 @@ Submitted: ${new Date().toLocaleString()}
         return res.status(404).json({ message: "Concern not found" });
       }
 
-      // Verify the concern belongs to the current user
-      if (concern.teacherId !== userId) {
+      // The owner, or a colleague the concern has been shared with
+      const { getConcernAccess } = await import('./services/collaboration');
+      const { access } = await getConcernAccess(concern.id, userId);
+
+      res.json({ ...concern, access });
+    } catch (error: any) {
+      if (error?.name === 'CollaborationAccessDeniedError') {
         return res.status(403).json({ message: "Access denied" });
       }
-
-      res.json(concern);
-    } catch (error) {
       console.error("Error fetching concern:", error);
       res.status(500).json({ message: "Failed to fetch concern" });
     }
@@ -910,14 +1550,16 @@ Submitted: ${new Date().toLocaleString()}
         return res.status(404).json({ message: "Concern not found" });
       }
 
-      if (concern.teacherId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const { getConcernAccess } = await import('./services/collaboration');
+      await getConcernAccess(concernId, userId);
 
       // Get questions for this concern
       const questions = await storage.getFollowUpQuestionsByConcern(concernId);
       res.json(questions);
-    } catch (error) {
+    } catch (error: any) {
+      if (error?.name === 'CollaborationAccessDeniedError') {
+        return res.status(403).json({ message: "Access denied" });
+      }
       console.error("Error fetching follow-up questions:", error);
       res.status(500).json({ message: "Failed to fetch follow-up questions" });
     }
@@ -952,10 +1594,26 @@ Submitted: ${new Date().toLocaleString()}
         concernTypes: Array.isArray(concern.concernTypes) ? concern.concernTypes : [concern.concernType || "Academic"],
         severityLevel: concern.severityLevel || "moderate",
         language: language,
+        schoolName: req.session.user?.school || undefined,
+        userId,
       };
 
       const assistanceResponse = await followUpAssistance(followUpRequest);
 
+      if (assistanceResponse.safeguarding?.isUrgent) {
+        const { openSafeguardingIncident } = await import('./services/safeguardingIncidents');
+        // Not awaited: the answer shouldn't wait on the incident log or the mail server
+        openSafeguardingIncident(req.session.user?.school, {
+          source: 'follow_up',
+          sourceId: concernId,
+          studentLabel: `${concern.studentFirstName} ${concern.studentLastInitial}.`,
+          teacherName: [concern.teacher?.firstName, concern.teacher?.lastName].filter(Boolean).join(' ') || 'A teacher',
+          reportedByUserId: userId,
+          triggeringText: question,
+          result: assistanceResponse.safeguarding,
+        });
+      }
+
       // Save the question and response
       const savedQuestion = await storage.createFollowUpQuestion({
         concernId,
@@ -1200,47 +1858,170 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
-  // Bulk share multiple concerns - PROTECTED
+  // Bulk share multiple concerns in-app with one colleague at the teacher's school - PROTECTED
   app.post("/api/concerns/bulk-share", requireAuth, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const { concernIds, recipientEmail, recipientName, message, senderName } = req.body;
+      const result = bulkShareConcernsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid share request", errors: result.error.errors });
+      }
 
-      if (!concernIds || !Array.isArray(concernIds) || concernIds.length === 0) {
-        return res.status(400).json({ message: "Concern IDs are required" });
+      const { shareConcerns } = await import('./services/collaboration');
+      const { colleague, shared } = await shareConcerns(req.user.claims.sub, result.data);
+
+      res.json({
+        success: true,
+        message: `Successfully shared ${shared} support requests with ${colleague}`
+      });
+    } catch (error: any) {
+      if (error?.name === 'CollaborationAccessDeniedError') {
+        return res.status(403).json({ message: error.message });
+      }
+      if (error?.name === 'ShareRecipientError') {
+        return res.status(400).json({ message: error.message });
       }
+      console.error("Error bulk sharing concerns:", error);
+      res.status(500).json({ message: "Failed to bulk share concerns" });
+    }
+  });
 
-      if (!recipientEmail) {
-        return res.status(400).json({ message: "Recipient email is required" });
+  // Case collaboration: who can see a concern, shares the owner can grant and revoke, comment
+  // threads and in-app notifications (server/services/collaboration.ts)
+  const sendCollaborationError = (res: any, error: any, fallback: string) => {
+    if (error?.name === 'CollaborationConcernNotFoundError') {
+      return res.status(404).json({ message: "Concern not found" });
+    }
+    if (error?.name === 'CommentNotFoundError') {
+      return res.status(404).json({ message: "Comment not found" });
+    }
+    if (error?.name === 'CollaborationAccessDeniedError') {
+      return res.status(403).json({ message: error.message });
+    }
+    if (error?.name === 'ShareRecipientError' || error?.name === 'CommentTargetError') {
+      return res.status(400).json({ message: error.message });
+    }
+    console.error(`${fallback}:`, error);
+    res.status(500).json({ message: fallback });
+  };
+
+  app.get("/api/concerns/:id/collaborators", requireAuth, async (req: any, res) => {
+    try {
+      const { listCollaborators } = await import('./services/collaboration');
+      res.json(await listCollaborators(req.params.id, req.user.claims.sub));
+    } catch (error) {
+      sendCollaborationError(res, error, "Failed to fetch collaborators");
+    }
+  });
+
+  app.post("/api/concerns/:id/shares", requireAuth, async (req: any, res) => {
+    try {
+      const result = shareConcernSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid share request", errors: result.error.errors });
       }
 
-      // Verify all concerns belong to the authenticated user
-      const concerns = [];
-      for (const concernId of concernIds) {
-        const concern = await storage.getConcernWithDetails(concernId);
-        
-        if (!concern) {
-          return res.status(404).json({ message: `Concern ${concernId} not found` });
-        }
+      const { shareConcern } = await import('./services/collaboration');
+      res.status(201).json(await shareConcern(req.params.id, req.user.claims.sub, result.data));
+    } catch (error) {
+      sendCollaborationError(res, error, "Failed to share concern");
+    }
+  });
 
-        if (concern.teacherId !== userId) {
-          return res.status(403).json({ message: "Access denied to one or more concerns" });
-        }
+  app.delete("/api/concerns/:id/shares/:shareId", requireAuth, async (req: any, res) => {
+    try {
+      const { revokeConcernShare } = await import('./services/collaboration');
+      await revokeConcernShare(req.params.id, req.user.claims.sub, req.params.shareId);
+      res.json({ success: true });
+    } catch (error) {
+      sendCollaborationError(res, error, "Failed to revoke access");
+    }
+  });
 
-        concerns.push(concern);
+  app.get("/api/concerns/:id/comments", requireAuth, async (req: any, res) => {
+    try {
+      const { listComments } = await import('./services/collaboration');
+      res.json(await listComments(req.params.id, req.user.claims.sub));
+    } catch (error) {
+      sendCollaborationError(res, error, "Failed to fetch comments");
+    }
+  });
+
+  app.post("/api/concerns/:id/comments", requireAuth, async (req: any, res) => {
+    try {
+      const result = createConcernCommentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid comment", errors: result.error.errors });
       }
 
-      // In a real implementation, send bulk email here
-      // For now, just return success
-      console.log(`Would send ${concerns.length} concerns to ${recipientEmail} from ${senderName}`);
+      const { addComment } = await import('./services/collaboration');
+      res.status(201).json(await addComment(req.params.id, req.user.claims.sub, result.data));
+    } catch (error) {
+      sendCollaborationError(res, error, "Failed to post comment");
+    }
+  });
 
-      res.json({ 
-        success: true, 
-        message: `Successfully shared ${concerns.length} support requests with ${recipientName || recipientEmail}` 
-      });
+  app.delete("/api/concerns/:id/comments/:commentId", requireAuth, async (req: any, res) => {
+    try {
+      const { deleteComment } = await import('./services/collaboration');
+      await deleteComment(req.params.id, req.params.commentId, req.user.claims.sub);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error bulk sharing concerns:", error);
-      res.status(500).json({ message: "Failed to bulk share concerns" });
+      sendCollaborationError(res, error, "Failed to delete comment");
+    }
+  });
+
+  // Colleagues at the teacher's school, for the share dialog
+  app.get("/api/colleagues", requireAuth, async (req: any, res) => {
+    try {
+      const { searchColleagues } = await import('./services/collaboration');
+      const search = typeof req.query.search === 'string' ? req.query.search : undefined;
+      res.json(await searchColleagues(req.user.claims.sub, search));
+    } catch (error) {
+      console.error("Error searching colleagues:", error);
+      res.status(500).json({ message: "Failed to search colleagues" });
+    }
+  });
+
+  // Concerns other teachers have shared with the current user
+  app.get("/api/shared-concerns", requireAuth, async (req: any, res) => {
+    try {
+      const { listSharedConcerns } = await import('./services/collaboration');
+      res.json(await listSharedConcerns(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching shared concerns:", error);
+      res.status(500).json({ message: "Failed to fetch shared concerns" });
+    }
+  });
+
+  app.get("/api/notifications", requireAuth, async (req: any, res) => {
+    try {
+      const { listNotifications } = await import('./services/collaboration');
+      res.json(await listNotifications(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
+    }
+  });
+
+  app.post("/api/notifications/read-all", requireAuth, async (req: any, res) => {
+    try {
+      const { markNotificationsRead } = await import('./services/collaboration');
+      await markNotificationsRead(req.user.claims.sub);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking notifications as read:", error);
+      res.status(500).json({ message: "Failed to mark notifications as read" });
+    }
+  });
+
+  app.post("/api/notifications/:id/read", requireAuth, async (req: any, res) => {
+    try {
+      const { markNotificationsRead } = await import('./services/collaboration');
+      await markNotificationsRead(req.user.claims.sub, req.params.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error marking notification as read:", error);
+      res.status(500).json({ message: "Failed to mark notification as read" });
     }
   });
 
@@ -1904,9 +2685,24 @@ Submitted: ${new Date().toLocaleString()}
         studentLastInitial: studentLastInitial || "S",
         grade: grade || "Elementary",
         concernTypes: concernTypes || ["General"],
-        severityLevel: severityLevel || "moderate"
+        severityLevel: severityLevel || "moderate",
+        schoolName: req.session?.user?.school || undefined,
+        userId: req.session?.user?.id || undefined
       };
 
+      // Streaming clients receive `delta` events as the guidance is written, then `done`
+      if (wantsEventStream(req)) {
+        const stream = openEventStream(res);
+        try {
+          const response = await followUpAssistance(assistanceRequest, (text) => stream.send('delta', { content: text }));
+          stream.send('done', response);
+        } catch (streamError) {
+          console.error("Error streaming follow-up assistance:", streamError);
+          stream.send('error', { message: "Failed to generate follow-up assistance" });
+        }
+        return stream.close();
+      }
+
       const response = await followUpAssistance(assistanceRequest);
       res.json(response);
     } catch (error) {
@@ -2364,7 +3160,7 @@ Submitted: ${new Date().toLocaleString()}
   app.put('/api/admin/teachers/:id', requireAdmin, async (req: any, res) => {
     try {
       const teacherId = req.params.id;
-      const { firstName, lastName, email, school, supportRequestsLimit, isActive } = req.body;
+      const { firstName, lastName, email, school, supportRequestsLimit, isActive, isMtssTeam } = req.body;
       
       if (!firstName || !lastName || !email) {
         return res.status(400).json({ message: 'First name, last name, and email are required' });
@@ -2377,6 +3173,7 @@ Submitted: ${new Date().toLocaleString()}
         school: school?.trim() || null,
         supportRequestsLimit: parseInt(supportRequestsLimit) || 50,
         isActive: isActive !== false,
+        ...(isMtssTeam !== undefined && { isMtssTeam: isMtssTeam === true }),
         updatedAt: new Date(),
       };
 
@@ -2701,64 +3498,703 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
-  // API Key Management Routes
-  app.get('/api/admin/api-keys', requireAdmin, async (req: any, res) => {
+  // API Key Management Routes
+  app.get('/api/admin/api-keys', requireAdmin, async (req: any, res) => {
+    try {
+      const apiKeys = await getApiKeys();
+      res.json({ apiKeys });
+    } catch (error) {
+      console.error('API keys fetch error:', error);
+      res.status(500).json({ message: 'Failed to fetch API keys' });
+    }
+  });
+
+  app.post('/api/admin/api-keys', requireAdmin, async (req: any, res) => {
+    try {
+      const { name, apiKey, provider, baseUrl, model, schoolId, description, maxUsage, isActive } = req.body;
+      
+      if (!name) {
+        return res.status(400).json({ message: 'Name is required' });
+      }
+
+      const providerDefinition = AI_PROVIDERS[isAIProviderType(provider) ? provider : 'deepseek'];
+      if (providerDefinition.requiresApiKey && !apiKey) {
+        return res.status(400).json({ message: `An API key is required for ${providerDefinition.label}` });
+      }
+      if ((!providerDefinition.defaultBaseURL && !baseUrl) || (!providerDefinition.defaultModel && !model)) {
+        return res.status(400).json({ message: `${providerDefinition.label} keys need a base URL and model` });
+      }
+
+      const adminId = req.user.claims.sub;
+      const result = await createApiKey({
+        name,
+        apiKey: apiKey || '', // Self-hosted servers often run without auth
+        provider: provider || 'deepseek',
+        baseUrl,
+        model,
+        schoolId,
+        description,
+        maxUsage: maxUsage ? parseInt(maxUsage) : 10000,
+        isActive: isActive !== false,
+      }, adminId);
+      
+      res.json(result);
+    } catch (error) {
+      console.error('Create API key error:', error);
+      res.status(500).json({ message: 'Failed to create API key' });
+    }
+  });
+
+  app.put('/api/admin/api-keys/:id', requireAdmin, async (req: any, res) => {
+    try {
+      const keyId = req.params.id;
+      const updates = req.body;
+      
+      const result = await updateApiKey(keyId, updates);
+      res.json(result);
+    } catch (error) {
+      console.error('Update API key error:', error);
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to update API key' });
+    }
+  });
+
+  app.post('/api/admin/api-keys/:id/reset-usage', requireAdmin, async (req: any, res) => {
+    try {
+      const result = await resetApiKeyUsage(req.params.id);
+      res.json(result);
+    } catch (error) {
+      console.error('Reset API key usage error:', error);
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to reset API key usage' });
+    }
+  });
+
+  app.delete('/api/admin/api-keys/:id', requireAdmin, async (req: any, res) => {
+    try {
+      const keyId = req.params.id;
+      
+      const result = await deleteApiKey(keyId);
+      res.json(result);
+    } catch (error) {
+      console.error('Delete API key error:', error);
+      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to delete API key' });
+    }
+  });
+
+  // ===========================================
+  // AI USAGE & BUDGETS
+  // ===========================================
+
+  // Token and cost usage over the last N days, optionally for one school
+  app.get('/api/admin/ai-usage', requireAdmin, async (req: any, res) => {
+    try {
+      const { getAIUsageSummary } = await import('./services/aiUsage');
+      const summary = await getAIUsageSummary({
+        days: Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 365),
+        schoolId: (req.query.schoolId as string) || undefined,
+      });
+      res.json(summary);
+    } catch (error) {
+      console.error('AI usage fetch error:', error);
+      res.status(500).json({ message: 'Failed to fetch AI usage' });
+    }
+  });
+
+  app.get('/api/admin/ai-budgets', requireAdmin, async (req: any, res) => {
+    try {
+      const { getSchoolBudgetStatuses } = await import('./services/aiUsage');
+      res.json({ schools: await getSchoolBudgetStatuses() });
+    } catch (error) {
+      console.error('AI budgets fetch error:', error);
+      res.status(500).json({ message: 'Failed to fetch AI budgets' });
+    }
+  });
+
+  app.put('/api/admin/school/:schoolId/ai-budget', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const result = insertSchoolAiBudgetSchema.pick({ monthlyBudgetUsd: true, alertThresholds: true }).safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid AI budget', errors: result.error.errors });
+      }
+
+      const { upsertSchoolBudget } = await import('./services/aiUsage');
+      const budget = await upsertSchoolBudget(req.params.schoolId, result.data, adminId);
+
+      console.log(`Admin ${adminId} set AI budget for school ${req.params.schoolId}`, {
+        adminId,
+        schoolId: req.params.schoolId,
+        monthlyBudgetUsd: budget.monthlyBudgetUsd,
+        alertThresholds: budget.alertThresholds,
+        action: 'update_ai_budget',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json(budget);
+    } catch (error) {
+      console.error('AI budget update error:', error);
+      res.status(500).json({ message: 'Failed to update AI budget' });
+    }
+  });
+
+  app.delete('/api/admin/school/:schoolId/ai-budget', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const { deleteSchoolBudget } = await import('./services/aiUsage');
+      if (!(await deleteSchoolBudget(req.params.schoolId))) {
+        return res.status(404).json({ message: 'School has no AI budget' });
+      }
+
+      console.log(`Admin ${adminId} removed AI budget for school ${req.params.schoolId}`, {
+        adminId,
+        schoolId: req.params.schoolId,
+        action: 'delete_ai_budget',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('AI budget delete error:', error);
+      res.status(500).json({ message: 'Failed to remove AI budget' });
+    }
+  });
+
+  app.get('/api/admin/ai-budget-alerts', requireAdmin, async (req: any, res) => {
+    try {
+      const { getBudgetAlerts } = await import('./services/aiUsage');
+      const alerts = await getBudgetAlerts({
+        unacknowledgedOnly: req.query.unacknowledged === 'true',
+        limit: Math.min(parseInt(req.query.limit as string) || 50, 200),
+      });
+      res.json({ alerts });
+    } catch (error) {
+      console.error('AI budget alerts fetch error:', error);
+      res.status(500).json({ message: 'Failed to fetch AI budget alerts' });
+    }
+  });
+
+  app.post('/api/admin/ai-budget-alerts/:id/acknowledge', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const { acknowledgeBudgetAlert } = await import('./services/aiUsage');
+      const alert = await acknowledgeBudgetAlert(req.params.id, adminId);
+      if (!alert) {
+        return res.status(404).json({ message: 'Alert not found or already acknowledged' });
+      }
+      res.json(alert);
+    } catch (error) {
+      console.error('AI budget alert acknowledge error:', error);
+      res.status(500).json({ message: 'Failed to acknowledge AI budget alert' });
+    }
+  });
+
+  // ===========================================
+  // SAFEGUARDING SETTINGS & LEADS
+  // ===========================================
+
+  app.get('/api/admin/school/:schoolId/safeguarding', requireAdmin, async (req: any, res) => {
+    try {
+      const { getSchoolSafeguardingAdminView } = await import('./services/safeguardingConfig');
+      const view = await getSchoolSafeguardingAdminView(req.params.schoolId);
+      if (!view) {
+        return res.status(404).json({ message: 'School not found' });
+      }
+      res.json(view);
+    } catch (error) {
+      console.error('Safeguarding settings fetch error:', error);
+      res.status(500).json({ message: 'Failed to fetch safeguarding settings' });
+    }
+  });
+
+  app.put('/api/admin/school/:schoolId/safeguarding', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const result = updateSchoolSafeguardingSettingsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid safeguarding settings', errors: result.error.errors });
+      }
+
+      const { updateSchoolSafeguardingSettings } = await import('./services/safeguardingConfig');
+      const settings = await updateSchoolSafeguardingSettings(req.params.schoolId, result.data, adminId);
+
+      console.log(`Admin ${adminId} updated safeguarding settings for school ${req.params.schoolId}`, {
+        adminId,
+        schoolId: req.params.schoolId,
+        extraKeywords: Array.isArray(settings.extraKeywords) ? settings.extraKeywords.length : 0,
+        notifyLeads: settings.notifyLeads,
+        action: 'update_safeguarding_settings',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json(settings);
+    } catch (error) {
+      console.error('Safeguarding settings update error:', error);
+      res.status(500).json({ message: 'Failed to update safeguarding settings' });
+    }
+  });
+
+  app.post('/api/admin/school/:schoolId/safeguarding/leads', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const result = insertSafeguardingLeadSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid safeguarding lead', errors: result.error.errors });
+      }
+
+      const { createSafeguardingLead } = await import('./services/safeguardingConfig');
+      const lead = await createSafeguardingLead(req.params.schoolId, result.data);
+
+      console.log(`Admin ${adminId} added safeguarding lead ${lead.id} for school ${req.params.schoolId}`, {
+        adminId,
+        schoolId: req.params.schoolId,
+        leadId: lead.id,
+        escalationOrder: lead.escalationOrder,
+        action: 'create_safeguarding_lead',
+        timestamp: new Date().toISOString()
+      });
+
+      res.status(201).json(lead);
+    } catch (error) {
+      console.error('Safeguarding lead create error:', error);
+      res.status(500).json({ message: 'Failed to add safeguarding lead' });
+    }
+  });
+
+  app.put('/api/admin/safeguarding/leads/:id', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const result = insertSafeguardingLeadSchema.partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid safeguarding lead', errors: result.error.errors });
+      }
+
+      const { updateSafeguardingLead } = await import('./services/safeguardingConfig');
+      const lead = await updateSafeguardingLead(req.params.id, result.data);
+      if (!lead) {
+        return res.status(404).json({ message: 'Safeguarding lead not found' });
+      }
+
+      console.log(`Admin ${adminId} updated safeguarding lead ${lead.id}`, {
+        adminId,
+        schoolId: lead.schoolId,
+        leadId: lead.id,
+        isActive: lead.isActive,
+        escalationOrder: lead.escalationOrder,
+        action: 'update_safeguarding_lead',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json(lead);
+    } catch (error) {
+      console.error('Safeguarding lead update error:', error);
+      res.status(500).json({ message: 'Failed to update safeguarding lead' });
+    }
+  });
+
+  app.delete('/api/admin/safeguarding/leads/:id', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const { deleteSafeguardingLead } = await import('./services/safeguardingConfig');
+      if (!(await deleteSafeguardingLead(req.params.id))) {
+        return res.status(404).json({ message: 'Safeguarding lead not found' });
+      }
+
+      console.log(`Admin ${adminId} removed safeguarding lead ${req.params.id}`, {
+        adminId,
+        leadId: req.params.id,
+        action: 'delete_safeguarding_lead',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Safeguarding lead delete error:', error);
+      res.status(500).json({ message: 'Failed to remove safeguarding lead' });
+    }
+  });
+
+  // ===========================================
+  // SAFEGUARDING INCIDENT LOG
+  // ===========================================
+
+  // Incidents are restricted to super admins and the designated safeguarding leads of the school
+  const requireIncidentAccess = async (req: any, res: any, next: any) => {
+    try {
+      const { getIncidentViewerScope } = await import('./services/safeguardingIncidents');
+      const scope = await getIncidentViewerScope(req.user.claims.sub);
+      if (!scope) {
+        return res.status(403).json({ message: 'Safeguarding incidents are only visible to super admins and designated safeguarding leads' });
+      }
+      req.incidentScope = scope;
+      next();
+    } catch (error) {
+      console.error('Error checking safeguarding incident access:', error);
+      res.status(500).json({ message: 'Failed to verify permissions' });
+    }
+  };
+
+  const sendIncidentError = (res: any, error: any, message: string) => {
+    if (error?.name === 'SafeguardingIncidentNotFoundError') {
+      return res.status(404).json({ message: 'Safeguarding incident not found' });
+    }
+    if (error?.name === 'SafeguardingIncidentClosedError') {
+      return res.status(409).json({ message: error.message });
+    }
+    console.error(`${message}:`, error);
+    res.status(500).json({ message });
+  };
+
+  app.get('/api/admin/safeguarding/incidents', requireAdmin, requireIncidentAccess, async (req: any, res) => {
+    try {
+      const { listSafeguardingIncidents } = await import('./services/safeguardingIncidents');
+      const status = req.query.status === 'open' || req.query.status === 'closed' ? req.query.status : undefined;
+      const schoolId = typeof req.query.schoolId === 'string' && req.query.schoolId ? req.query.schoolId : undefined;
+      const incidents = await listSafeguardingIncidents(req.incidentScope, { status, schoolId });
+      res.json({ incidents, allSchools: req.incidentScope.allSchools });
+    } catch (error) {
+      sendIncidentError(res, error, 'Failed to load safeguarding incidents');
+    }
+  });
+
+  app.get('/api/admin/safeguarding/incidents/:id', requireAdmin, requireIncidentAccess, async (req: any, res) => {
+    try {
+      const { getSafeguardingIncidentRecord } = await import('./services/safeguardingIncidents');
+      const record = await getSafeguardingIncidentRecord(req.params.id, req.incidentScope);
+
+      console.log(`Admin ${req.incidentScope.userId} viewed safeguarding incident ${record.incident.referenceNumber}`, {
+        adminId: req.incidentScope.userId,
+        incidentId: req.params.id,
+        action: 'view_safeguarding_incident',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json(record);
+    } catch (error) {
+      sendIncidentError(res, error, 'Failed to load safeguarding incident');
+    }
+  });
+
+  app.post('/api/admin/safeguarding/incidents/:id/entries', requireAdmin, requireIncidentAccess, async (req: any, res) => {
+    try {
+      const result = safeguardingIncidentEntrySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid incident entry', errors: result.error.errors });
+      }
+
+      const { addSafeguardingIncidentEntry } = await import('./services/safeguardingIncidents');
+      const entry = await addSafeguardingIncidentEntry(req.params.id, req.incidentScope, result.data);
+
+      console.log(`Admin ${req.incidentScope.userId} added a ${entry.type} entry to safeguarding incident ${req.params.id}`, {
+        adminId: req.incidentScope.userId,
+        incidentId: req.params.id,
+        entryId: entry.id,
+        action: 'add_safeguarding_incident_entry',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ success: true, entry });
+    } catch (error) {
+      sendIncidentError(res, error, 'Failed to add incident entry');
+    }
+  });
+
+  app.post('/api/admin/safeguarding/incidents/:id/close', requireAdmin, requireIncidentAccess, async (req: any, res) => {
+    try {
+      const result = closeSafeguardingIncidentSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Outcome and sign-off are required to close an incident', errors: result.error.errors });
+      }
+
+      const { closeSafeguardingIncident } = await import('./services/safeguardingIncidents');
+      const incident = await closeSafeguardingIncident(req.params.id, req.incidentScope, result.data);
+
+      console.log(`Admin ${req.incidentScope.userId} closed safeguarding incident ${incident.referenceNumber}`, {
+        adminId: req.incidentScope.userId,
+        incidentId: req.params.id,
+        action: 'close_safeguarding_incident',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ success: true, incident });
+    } catch (error) {
+      sendIncidentError(res, error, 'Failed to close safeguarding incident');
+    }
+  });
+
+  // Export for child-protection authorities: a printable PDF, or JSON with the exact original text
+  app.get('/api/admin/safeguarding/incidents/:id/export', requireAdmin, requireIncidentAccess, async (req: any, res) => {
+    try {
+      const format = req.query.format === 'json' ? 'json' : 'pdf';
+      const { exportSafeguardingIncident } = await import('./services/safeguardingIncidents');
+      const record = await exportSafeguardingIncident(req.params.id, req.incidentScope, format);
+      const filename = `safeguarding-incident-${record.incident.referenceNumber}.${format}`;
+
+      console.log(`Admin ${req.incidentScope.userId} exported safeguarding incident ${record.incident.referenceNumber}`, {
+        adminId: req.incidentScope.userId,
+        incidentId: req.params.id,
+        format,
+        action: 'export_safeguarding_incident',
+        timestamp: new Date().toISOString()
+      });
+
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      if (format === 'json') {
+        res.setHeader('Content-Type', 'application/json');
+        return res.send(JSON.stringify({ exportedAt: new Date().toISOString(), ...record }, null, 2));
+      }
+
+      const { generateSafeguardingIncidentPDF } = await import('./services/safeguardingIncidentPdf');
+      const pdf = await generateSafeguardingIncidentPDF(record);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.send(pdf);
+    } catch (error) {
+      sendIncidentError(res, error, 'Failed to export safeguarding incident');
+    }
+  });
+
+  // Admin: link concerns and classroom submissions created before student records existed
+  app.post('/api/admin/students/link-existing', requireAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const { linkUnlinkedRecords } = await import('./services/students');
+      const linked = await linkUnlinkedRecords();
+
+      console.log(`Admin ${adminId} linked existing records to students`, {
+        adminId,
+        ...linked,
+        action: 'link_existing_student_records',
+        timestamp: new Date().toISOString()
+      });
+
+      // Each call handles one batch; call again while anything was linked
+      res.json({ success: true, linked, more: linked.concerns + linked.submissions > 0 });
+    } catch (error) {
+      console.error('Error linking existing records to students:', error);
+      res.status(500).json({ message: 'Failed to link existing records' });
+    }
+  });
+
+  // Admin: students at each MTSS tier per school and how long they have been there
+  app.get('/api/admin/students/tiers', requireAdmin, async (req: any, res) => {
+    try {
+      const { getSchoolTierSummaries } = await import('./services/studentTiers');
+      const schoolId = typeof req.query.schoolId === 'string' && req.query.schoolId ? req.query.schoolId : undefined;
+      res.json(await getSchoolTierSummaries(schoolId));
+    } catch (error) {
+      console.error('Error fetching student tier summary:', error);
+      res.status(500).json({ message: 'Failed to fetch student tier summary' });
+    }
+  });
+
+  // Admin: overdue progress check-ins rolled up by school
+  app.get('/api/admin/check-ins/overdue', requireAdmin, async (req: any, res) => {
+    try {
+      const { getOverdueCheckInSummary } = await import('./services/checkIns');
+      const school = typeof req.query.school === 'string' && req.query.school ? req.query.school : undefined;
+      res.json(await getOverdueCheckInSummary(school));
+    } catch (error) {
+      console.error('Error fetching overdue check-ins:', error);
+      res.status(500).json({ message: 'Failed to fetch overdue check-ins' });
+    }
+  });
+
+  // Admin: intervention outcomes rolled up by strategy, concern type, grade band and severity
+  app.get('/api/admin/intervention-effectiveness', requireAdmin, async (req: any, res) => {
+    try {
+      const { getInterventionEffectiveness } = await import('./services/interventionEffectiveness');
+      const school = typeof req.query.school === 'string' && req.query.school ? req.query.school : undefined;
+      res.json(await getInterventionEffectiveness(school));
+    } catch (error) {
+      console.error('Error fetching intervention effectiveness:', error);
+      res.status(500).json({ message: 'Failed to fetch intervention effectiveness' });
+    }
+  });
+
+  // Admin: curate the intervention library, including archived entries
+  app.get('/api/admin/intervention-library', requireAdmin, async (req: any, res) => {
+    try {
+      const { searchLibraryEntries } = await import('./services/interventionLibrary');
+      res.json(await searchLibraryEntries({
+        q: typeof req.query.q === 'string' ? req.query.q : undefined,
+        includeInactive: true,
+      }));
+    } catch (error) {
+      console.error('Error fetching intervention library:', error);
+      res.status(500).json({ message: 'Failed to fetch intervention library' });
+    }
+  });
+
+  app.post('/api/admin/intervention-library', requireAdmin, async (req: any, res) => {
+    try {
+      const result = interventionLibraryEntrySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid library entry', errors: result.error.errors });
+      }
+
+      const adminId = req.user.claims.sub;
+      const { createLibraryEntry } = await import('./services/interventionLibrary');
+      const entry = await createLibraryEntry(result.data, adminId);
+
+      await storage.logAdminAction({
+        adminId,
+        action: 'create_library_entry',
+        details: { entryId: entry.id, title: entry.title }
+      });
+
+      console.log(`Admin ${adminId} added library entry ${entry.id}`, {
+        adminId,
+        entryId: entry.id,
+        action: 'create_library_entry',
+        timestamp: new Date().toISOString()
+      });
+
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error('Error creating library entry:', error);
+      res.status(500).json({ message: 'Failed to create library entry' });
+    }
+  });
+
+  app.put('/api/admin/intervention-library/:id', requireAdmin, async (req: any, res) => {
+    try {
+      const result = interventionLibraryEntrySchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid library entry', errors: result.error.errors });
+      }
+
+      const adminId = req.user.claims.sub;
+      const { updateLibraryEntry } = await import('./services/interventionLibrary');
+      const entry = await updateLibraryEntry(req.params.id, result.data, adminId);
+
+      await storage.logAdminAction({
+        adminId,
+        action: 'update_library_entry',
+        details: { entryId: entry.id, title: entry.title, isActive: entry.isActive }
+      });
+
+      console.log(`Admin ${adminId} updated library entry ${entry.id}`, {
+        adminId,
+        entryId: entry.id,
+        isActive: entry.isActive,
+        action: 'update_library_entry',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json(entry);
+    } catch (error: any) {
+      if (error?.name === 'LibraryEntryNotFoundError') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Error updating library entry:', error);
+      res.status(500).json({ message: 'Failed to update library entry' });
+    }
+  });
+
+  // Admin: likely duplicate student records flagged by the duplicate scan
+  app.get('/api/admin/students/duplicates', requireAdmin, async (req: any, res) => {
+    try {
+      const { listDuplicateStudentPairs } = await import('./services/studentDuplicates');
+      const { getStudentScope } = await import('./services/students');
+      const scope = await getStudentScope(req.user.claims.sub, req.session.user?.school, !!req.session.user?.isAdmin);
+      const status = req.query.status === 'dismissed' ? 'dismissed' : 'open';
+      // Only super admins can pick a school; everyone else sees their own school's flags
+      const schoolId = typeof req.query.schoolId === 'string' && req.query.schoolId ? req.query.schoolId : undefined;
+      res.json(await listDuplicateStudentPairs(scope, { status, schoolId }));
+    } catch (error) {
+      console.error('Error fetching duplicate students:', error);
+      res.status(500).json({ message: 'Failed to fetch duplicate students' });
+    }
+  });
+
+  // Admin: run the duplicate scan now instead of waiting for the next scheduled run
+  app.post('/api/admin/students/duplicates/scan', requireAdmin, async (req: any, res) => {
     try {
-      const apiKeys = await getApiKeys();
-      res.json({ apiKeys });
+      const adminId = req.user.claims.sub;
+      const { scanForDuplicateStudents } = await import('./services/studentDuplicates');
+      const flagged = await scanForDuplicateStudents();
+
+      console.log(`Admin ${adminId} scanned for duplicate students`, {
+        adminId,
+        flagged,
+        action: 'scan_duplicate_students',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ success: true, flagged });
     } catch (error) {
-      console.error('API keys fetch error:', error);
-      res.status(500).json({ message: 'Failed to fetch API keys' });
+      console.error('Error scanning for duplicate students:', error);
+      res.status(500).json({ message: 'Failed to scan for duplicate students' });
     }
   });
 
-  app.post('/api/admin/api-keys', requireAdmin, async (req: any, res) => {
+  app.post('/api/admin/students/duplicates/:id/merge', requireAdmin, async (req: any, res) => {
     try {
-      const { name, apiKey, provider, description, maxUsage, isActive } = req.body;
-      
-      if (!name || !apiKey) {
-        return res.status(400).json({ message: 'Name and API key are required' });
+      const result = mergeStudentsSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid merge request', errors: result.error.errors });
       }
 
       const adminId = req.user.claims.sub;
-      const result = await createApiKey({
-        name,
-        apiKey,
-        provider: provider || 'deepseek',
-        description,
-        maxUsage: maxUsage ? parseInt(maxUsage) : 10000,
-        isActive: isActive !== false,
-      }, adminId);
-      
-      res.json(result);
-    } catch (error) {
-      console.error('Create API key error:', error);
-      res.status(500).json({ message: 'Failed to create API key' });
-    }
-  });
+      const { mergeDuplicateStudents } = await import('./services/studentDuplicates');
+      const { getStudentScope } = await import('./services/students');
+      const scope = await getStudentScope(adminId, req.session.user?.school, !!req.session.user?.isAdmin);
+      const merge = await mergeDuplicateStudents(req.params.id, result.data.keepStudentId, scope);
 
-  app.put('/api/admin/api-keys/:id', requireAdmin, async (req: any, res) => {
-    try {
-      const keyId = req.params.id;
-      const updates = req.body;
-      
-      const result = await updateApiKey(keyId, updates);
-      res.json(result);
-    } catch (error) {
-      console.error('Update API key error:', error);
-      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to update API key' });
+      await storage.logAdminAction({
+        adminId,
+        action: 'merge_students',
+        targetSchoolId: merge.student.schoolId,
+        details: {
+          flagId: req.params.id,
+          keptStudentId: merge.student.id,
+          mergedStudent: merge.mergedStudent,
+          moved: merge.moved,
+        }
+      });
+
+      console.log(`Admin ${adminId} merged student ${merge.mergedStudent.id} into ${merge.student.id}`, {
+        adminId,
+        keptStudentId: merge.student.id,
+        mergedStudentId: merge.mergedStudent.id,
+        ...merge.moved,
+        action: 'merge_students',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ success: true, student: merge.student, moved: merge.moved });
+    } catch (error: any) {
+      if (error?.name === 'StudentDuplicateFlagNotFoundError') {
+        return res.status(404).json({ message: error.message });
+      }
+      if (error?.name === 'StudentMergeError') {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error('Error merging students:', error);
+      res.status(500).json({ message: 'Failed to merge students' });
     }
   });
 
-  app.delete('/api/admin/api-keys/:id', requireAdmin, async (req: any, res) => {
+  app.post('/api/admin/students/duplicates/:id/dismiss', requireAdmin, async (req: any, res) => {
     try {
-      const keyId = req.params.id;
-      
-      const result = await deleteApiKey(keyId);
-      res.json(result);
-    } catch (error) {
-      console.error('Delete API key error:', error);
-      res.status(500).json({ message: error instanceof Error ? error.message : 'Failed to delete API key' });
+      const adminId = req.user.claims.sub;
+      const { dismissDuplicateStudentFlag } = await import('./services/studentDuplicates');
+      const { getStudentScope } = await import('./services/students');
+      const scope = await getStudentScope(adminId, req.session.user?.school, !!req.session.user?.isAdmin);
+      const flag = await dismissDuplicateStudentFlag(req.params.id, scope);
+
+      console.log(`Admin ${adminId} dismissed duplicate student flag ${flag.id}`, {
+        adminId,
+        flagId: flag.id,
+        action: 'dismiss_duplicate_students',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ success: true, flag });
+    } catch (error: any) {
+      if (error?.name === 'StudentDuplicateFlagNotFoundError') {
+        return res.status(404).json({ message: error.message });
+      }
+      console.error('Error dismissing duplicate student flag:', error);
+      res.status(500).json({ message: 'Failed to dismiss duplicate flag' });
     }
   });
 
@@ -2972,6 +4408,15 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
+  // Progress notes can be changed by the owner of the concern they were written on
+  const ownsProgressNote = async (noteId: string, userId: string): Promise<boolean> => {
+    const note = await storage.getProgressNoteById(noteId);
+    if (!note) return false;
+    const { findInterventionAccess } = await import('./services/collaboration');
+    const found = await findInterventionAccess(note.interventionId, userId);
+    return found?.access === 'owner';
+  };
+
   // Progress Notes - Create new progress note
   app.post('/api/progress-notes', async (req: any, res) => {
     try {
@@ -2986,6 +4431,16 @@ Submitted: ${new Date().toLocaleString()}
         return res.status(400).json({ message: 'Intervention ID and note are required' });
       }
 
+      // Only the concern's owner adds notes; colleagues it is shared with can read them
+      const { findInterventionAccess } = await import('./services/collaboration');
+      const found = await findInterventionAccess(interventionId, session.user.id);
+      if (!found) {
+        return res.status(404).json({ message: 'Intervention not found' });
+      }
+      if (found.access !== 'owner') {
+        return res.status(403).json({ message: 'Access denied' });
+      }
+
       const progressNote = await storage.createProgressNote({
         interventionId,
         teacherId: session.user.id,
@@ -2994,6 +4449,9 @@ Submitted: ${new Date().toLocaleString()}
         nextSteps,
       });
 
+      const { recordCheckIn } = await import('./services/checkIns');
+      await recordCheckIn(interventionId);
+
       res.status(201).json(progressNote);
     } catch (error) {
       console.error('Error creating progress note:', error);
@@ -3010,6 +4468,11 @@ Submitted: ${new Date().toLocaleString()}
       }
 
       const { interventionId } = req.params;
+      const { findInterventionAccess } = await import('./services/collaboration');
+      if (!await findInterventionAccess(interventionId, session.user.id)) {
+        return res.status(404).json({ message: 'Intervention not found' });
+      }
+
       const progressNotes = await storage.getProgressNotesByInterventionId(interventionId);
       
       res.json(progressNotes);
@@ -3034,6 +4497,10 @@ Submitted: ${new Date().toLocaleString()}
         return res.status(400).json({ message: 'Note is required' });
       }
 
+      if (!await ownsProgressNote(id, session.user.id)) {
+        return res.status(404).json({ message: 'Progress note not found' });
+      }
+
       const progressNote = await storage.updateProgressNote(id, {
         note,
         outcome,
@@ -3060,6 +4527,10 @@ Submitted: ${new Date().toLocaleString()}
       }
 
       const { id } = req.params;
+      if (!await ownsProgressNote(id, session.user.id)) {
+        return res.status(404).json({ message: 'Progress note not found' });
+      }
+
       const deleted = await storage.deleteProgressNote(id);
       
       if (!deleted) {
@@ -3108,7 +4579,8 @@ Submitted: ${new Date().toLocaleString()}
         notes: meetingData.notes || '',
         includeRecommendations: meetingData.includeRecommendations !== false,
         includeProgressNotes: meetingData.includeProgressNotes === true,
-        selectedConcerns: [] as any[]
+        selectedConcerns: [] as any[],
+        fidelity: {} as Record<string, FidelitySummary>
       };
 
 
@@ -3119,7 +4591,24 @@ Submitted: ${new Date().toLocaleString()}
         );
         // Filter out any undefined concerns (in case some IDs don't exist)
         transformedMeetingData.selectedConcerns = concernsData.filter((concern): concern is NonNullable<typeof concern> => concern !== undefined);
-        
+
+        // Implementation fidelity of the saved interventions, shown next to their outcomes
+        const { getFidelitySummaries } = await import('./services/fidelity');
+        transformedMeetingData.fidelity = await getFidelitySummaries(
+          transformedMeetingData.selectedConcerns.flatMap(concern => (concern.interventions || []).map((intervention: { id: string }) => intervention.id))
+        );
+
+        // Kept so the meeting shows on each student's timeline
+        const { recordStudentMeeting } = await import('./services/students');
+        await recordStudentMeeting({
+          teacherId: session.user.id,
+          title: transformedMeetingData.title,
+          meetingType: transformedMeetingData.type,
+          meetingDate: meetingData.meetingDate || meetingData.date || null,
+          attendees: transformedMeetingData.attendees,
+          notes: transformedMeetingData.notes || null,
+          concerns: transformedMeetingData.selectedConcerns,
+        });
       }
 
       // Generate HTML meeting document
@@ -3376,6 +4865,251 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
+  // ===========================================
+  // PII REDACTION SETTINGS (ADMIN ONLY)
+  // ===========================================
+
+  // Get a school's PII redaction settings with redaction counts for the last 30 days
+  app.get("/api/admin/school/:schoolId/pii-redaction", requireAdmin, async (req: any, res) => {
+    try {
+      const { schoolId } = req.params;
+      const { getSchoolRedactionSettings, getRedactionSummary } = await import('./services/piiRedaction');
+
+      const [settings, summary] = await Promise.all([
+        getSchoolRedactionSettings(schoolId),
+        getRedactionSummary(schoolId),
+      ]);
+      res.json({ settings, summary });
+    } catch (error) {
+      console.error("Error getting PII redaction settings:", error);
+      res.status(500).json({ message: "Failed to get PII redaction settings" });
+    }
+  });
+
+  // Update a school's PII redaction settings
+  app.put("/api/admin/school/:schoolId/pii-redaction", requireAdmin, async (req: any, res) => {
+    try {
+      const { schoolId } = req.params;
+      const adminId = req.user.claims.sub;
+
+      const result = insertPiiRedactionSettingsSchema.omit({ schoolId: true, updatedBy: true }).partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid PII redaction settings", errors: result.error.errors });
+      }
+
+      const { updateSchoolRedactionSettings } = await import('./services/piiRedaction');
+      let settings;
+      try {
+        settings = await updateSchoolRedactionSettings(schoolId, result.data, adminId);
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          return res.status(400).json({ message: "Student ID pattern is not a valid regular expression" });
+        }
+        throw error;
+      }
+
+      console.log(`Admin ${adminId} updated PII redaction settings for school ${schoolId}`, {
+        adminId,
+        schoolId,
+        action: 'update_pii_redaction_settings',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ message: "PII redaction settings saved successfully", settings });
+    } catch (error) {
+      console.error("Error saving PII redaction settings:", error);
+      res.status(500).json({ message: "Failed to save PII redaction settings" });
+    }
+  });
+
+  // Redaction audit log - placeholders and categories only, never the redacted values
+  app.get("/api/admin/pii-redaction-logs", requireAdmin, async (req: any, res) => {
+    try {
+      const { getRedactionLogs } = await import('./services/piiRedaction');
+      const logs = await getRedactionLogs({
+        schoolId: req.query.schoolId as string | undefined,
+        limit: Math.min(parseInt(req.query.limit as string) || 100, 500),
+      });
+      res.json(logs);
+    } catch (error) {
+      console.error("Error fetching PII redaction logs:", error);
+      res.status(500).json({ message: "Failed to fetch PII redaction logs" });
+    }
+  });
+
+  // ===========================================
+  // PROMPT TEMPLATES (SUPER ADMIN ONLY)
+  // ===========================================
+
+  // Prompt keys with their placeholders and built-in default text
+  app.get("/api/admin/prompt-templates", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { PROMPT_PLACEHOLDERS, PROMPT_TEMPLATE_LABELS, DEFAULT_PROMPT_TEMPLATES } = await import('./services/promptTemplates');
+      res.json(PROMPT_TEMPLATE_KEYS.map(key => ({
+        key,
+        label: PROMPT_TEMPLATE_LABELS[key],
+        placeholders: PROMPT_PLACEHOLDERS[key],
+        defaultBody: DEFAULT_PROMPT_TEMPLATES[key],
+      })));
+    } catch (error) {
+      console.error("Error fetching prompt template definitions:", error);
+      res.status(500).json({ message: "Failed to fetch prompt templates" });
+    }
+  });
+
+  // All versions of one prompt for a scope (no schoolId = global)
+  app.get("/api/admin/prompt-templates/versions", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const key = req.query.key as PromptTemplateKey;
+      if (!PROMPT_TEMPLATE_KEYS.includes(key)) {
+        return res.status(400).json({ message: "Unknown prompt template key" });
+      }
+      const { listPromptTemplates } = await import('./services/promptTemplates');
+      res.json(await listPromptTemplates(key, (req.query.schoolId as string) || null));
+    } catch (error) {
+      console.error("Error fetching prompt template versions:", error);
+      res.status(500).json({ message: "Failed to fetch prompt template versions" });
+    }
+  });
+
+  // Render a template body against sample data and run it through the mock generators
+  app.post("/api/admin/prompt-templates/preview", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { key, body } = req.body;
+      if (!PROMPT_TEMPLATE_KEYS.includes(key) || typeof body !== 'string' || !body.trim()) {
+        return res.status(400).json({ message: "A prompt key and template body are required" });
+      }
+      const { previewPromptTemplate } = await import('./services/ai');
+      res.json(await previewPromptTemplate(key, body));
+    } catch (error) {
+      console.error("Error previewing prompt template:", error);
+      res.status(500).json({ message: "Failed to preview prompt template" });
+    }
+  });
+
+  // Create a new draft version
+  app.post("/api/admin/prompt-templates", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const result = insertPromptTemplateSchema.safeParse(req.body);
+      if (!result.success || !PROMPT_TEMPLATE_KEYS.includes(result.data.key as PromptTemplateKey)) {
+        return res.status(400).json({ message: "Invalid prompt template", errors: result.success ? [] : result.error.errors });
+      }
+
+      const key = result.data.key as PromptTemplateKey;
+      const { createPromptTemplateDraft, findUnknownPlaceholders } = await import('./services/promptTemplates');
+      const template = await createPromptTemplateDraft({
+        key,
+        schoolId: result.data.schoolId || null,
+        body: result.data.body,
+        notes: result.data.notes,
+        createdBy: adminId,
+      });
+
+      console.log(`Admin ${adminId} created prompt template draft ${template.id}`, {
+        adminId,
+        key,
+        schoolId: template.schoolId,
+        version: template.version,
+        action: 'create_prompt_template_draft',
+        timestamp: new Date().toISOString()
+      });
+
+      res.status(201).json({ template, unknownPlaceholders: findUnknownPlaceholders(key, template.body) });
+    } catch (error) {
+      console.error("Error creating prompt template draft:", error);
+      res.status(500).json({ message: "Failed to create prompt template draft" });
+    }
+  });
+
+  // Edit a draft (published and archived versions are read-only)
+  app.put("/api/admin/prompt-templates/:id", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const result = insertPromptTemplateSchema.pick({ body: true, notes: true }).partial().safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: "Invalid prompt template", errors: result.error.errors });
+      }
+
+      const { updatePromptTemplateDraft, findUnknownPlaceholders } = await import('./services/promptTemplates');
+      const template = await updatePromptTemplateDraft(req.params.id, result.data);
+      if (!template) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+
+      res.json({ template, unknownPlaceholders: findUnknownPlaceholders(template.key as PromptTemplateKey, template.body) });
+    } catch (error) {
+      console.error("Error updating prompt template draft:", error);
+      res.status(500).json({ message: "Failed to update prompt template draft" });
+    }
+  });
+
+  app.delete("/api/admin/prompt-templates/:id", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const { deletePromptTemplateDraft } = await import('./services/promptTemplates');
+      if (!await deletePromptTemplateDraft(req.params.id)) {
+        return res.status(404).json({ message: "Draft not found" });
+      }
+      res.json({ message: "Draft deleted" });
+    } catch (error) {
+      console.error("Error deleting prompt template draft:", error);
+      res.status(500).json({ message: "Failed to delete prompt template draft" });
+    }
+  });
+
+  // Publish a draft, or roll back by re-publishing an archived version
+  app.post("/api/admin/prompt-templates/:id/publish", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const { getPromptTemplate, publishPromptTemplate } = await import('./services/promptTemplates');
+      const existing = await getPromptTemplate(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ message: "Prompt template not found" });
+      }
+
+      const template = await publishPromptTemplate(existing.id, adminId);
+
+      console.log(`Admin ${adminId} published prompt template ${template.id}`, {
+        adminId,
+        key: template.key,
+        schoolId: template.schoolId,
+        version: template.version,
+        action: existing.status === 'archived' ? 'rollback_prompt_template' : 'publish_prompt_template',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ message: `Version ${template.version} is now live`, template });
+    } catch (error) {
+      console.error("Error publishing prompt template:", error);
+      res.status(500).json({ message: "Failed to publish prompt template" });
+    }
+  });
+
+  // Take a published version offline; the scope falls back to the next template in line
+  app.post("/api/admin/prompt-templates/:id/unpublish", requireSuperAdmin, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const { unpublishPromptTemplate } = await import('./services/promptTemplates');
+      const template = await unpublishPromptTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ message: "Published template not found" });
+      }
+
+      console.log(`Admin ${adminId} unpublished prompt template ${template.id}`, {
+        adminId,
+        key: template.key,
+        schoolId: template.schoolId,
+        version: template.version,
+        action: 'unpublish_prompt_template',
+        timestamp: new Date().toISOString()
+      });
+
+      res.json({ message: "Template unpublished", template });
+    } catch (error) {
+      console.error("Error unpublishing prompt template:", error);
+      res.status(500).json({ message: "Failed to unpublish prompt template" });
+    }
+  });
+
   // ===========================================
   // DATA EXPORT ROUTES (ADMIN ONLY)
   // ===========================================
@@ -3860,7 +5594,8 @@ Submitted: ${new Date().toLocaleString()}
         concernTypes: z.array(z.string()).min(1),
         concernDescription: z.string().min(10),
         severityLevel: z.enum(['mild', 'moderate', 'urgent']),
-        actionsTaken: z.array(z.string()).min(1)
+        actionsTaken: z.array(z.string()).min(1),
+        allowDuplicate: z.boolean().optional()
       });
       
       // Validate request body with the frontend-compatible schema
@@ -3888,7 +5623,8 @@ Submitted: ${new Date().toLocaleString()}
         concernTypes,
         concernDescription,
         severityLevel,
-        actionsTaken
+        actionsTaken,
+        allowDuplicate
       } = validationResult.data;
       
       // Default taskType for free tier - simplified to general support
@@ -3903,17 +5639,90 @@ Submitted: ${new Date().toLocaleString()}
       // Teacher is already authenticated via session - no PIN check needed here
       console.log(`📋 Processing submission for authenticated teacher: ${teacherEmail}`);
 
+      // Offer back a near-identical submission from the last few minutes unless the teacher confirmed it
+      if (!allowDuplicate) {
+        const submissionFingerprint = (fields: { firstName: string; lastInitial: string; studentGrade: string; concernTypes: unknown; concernDescription: string }) => [
+          fields.firstName,
+          fields.lastInitial,
+          fields.studentGrade,
+          Array.isArray(fields.concernTypes) ? [...fields.concernTypes].sort().join(" ") : "",
+          fields.concernDescription,
+        ].join(" | ");
+        const recentSubmissions = await storage.getRecentClassroomSubmissionsByTeacher(enrolledTeacher.id, new Date(Date.now() - getNearDuplicateWindowMs()));
+        const nearDuplicate = findNearDuplicate(
+          submissionFingerprint({ firstName: studentFirstName, lastInitial: studentLastInitial, studentGrade, concernTypes, concernDescription: sanitizePII(concernDescription) }),
+          recentSubmissions.map(recent => ({ item: recent, text: submissionFingerprint(recent), createdAt: recent.submittedAt }))
+        );
+        if (nearDuplicate) {
+          console.log(`♻️ Near-duplicate classroom submission from ${teacherEmail} (${Math.round(nearDuplicate.similarity * 100)}% similar to ${nearDuplicate.item.id})`);
+          return res.status(409).json({
+            message: 'You submitted a very similar request a few minutes ago.',
+            nearDuplicate: {
+              submissionId: nearDuplicate.item.id,
+              studentFirstName: nearDuplicate.item.firstName,
+              studentLastInitial: nearDuplicate.item.lastInitial,
+              createdAt: nearDuplicate.item.submittedAt,
+              similarity: nearDuplicate.similarity,
+              minutesAgo: nearDuplicate.minutesAgo,
+            },
+          });
+        }
+      }
+
+      const { generateClassroomSolutionDraft, getClassroomSolutionCacheKey } = await import('./services/ai');
+      const { SAFEGUARDING_CATEGORY_LABELS } = await import('./services/safeguarding');
+      const aiRequest = {
+        teacherFirstName,
+        teacherLastInitial,
+        teacherPosition,
+        studentFirstName,
+        studentLastInitial,
+        studentAge,
+        studentGrade,
+        taskType: taskType as 'differentiation' | 'tier2_intervention',
+        learningProfile: Array.isArray(learningProfile) ? learningProfile : JSON.parse(learningProfile),
+        concernTypes: Array.isArray(concernTypes) ? concernTypes : JSON.parse(concernTypes),
+        concernDescription,
+        severityLevel: severityLevel as 'mild' | 'moderate' | 'urgent',
+        actionsTaken: Array.isArray(actionsTaken) ? actionsTaken : JSON.parse(actionsTaken),
+        schoolName: enrolledTeacher.school || undefined
+      };
+
+      // An identical request answered from the cache doesn't use one of the teacher's requests
+      const cachedDraft = hasCachedResponse(getClassroomSolutionCacheKey(aiRequest));
+
+      // Submissions from teachers at a known school are linked to the student's record
+      let studentId: string | null = null;
+      const { findOrCreateStudent, resolveSchoolId } = await import('./services/students');
+      const studentSchoolId = await resolveSchoolId(enrolledTeacher.school);
+      if (studentSchoolId) {
+        const profile: string[] = Array.isArray(learningProfile) ? learningProfile : JSON.parse(learningProfile);
+        const student = await findOrCreateStudent({ schoolId: studentSchoolId, createdBy: null }, {
+          firstName: studentFirstName,
+          lastInitial: studentLastInitial,
+          grade: studentGrade,
+          hasIep: profile.includes('Has IEP / 504 Plan'),
+          isEalLearner: profile.includes('English as an Additional Language'),
+          isGifted: profile.includes('Gifted / Talented'),
+          hasDisability: profile.includes('Has Diagnosed Disability'),
+        });
+        studentId = student.id;
+      }
+
       // Atomic submission creation with usage increment in transaction
       let submission;
       let updatedTeacher;
       
       try {
         // Use atomic increment that only succeeds if usage limit allows
-        updatedTeacher = await storage.incrementClassroomTeacherUsage(enrolledTeacher.id);
+        updatedTeacher = cachedDraft
+          ? enrolledTeacher
+          : await storage.incrementClassroomTeacherUsage(enrolledTeacher.id);
         
         // Create submission only after successful usage increment (with PII sanitization)
         submission = await storage.createClassroomSubmission({
           teacherId: enrolledTeacher.id,
+          studentId,
           teacherFirstName,
           teacherLastInitial,
           teacherPosition,
@@ -3944,31 +5753,15 @@ Submitted: ${new Date().toLocaleString()}
 
       // Generate AI draft in the background with urgent keyword detection
       let urgentSafeguard = null;
+      let fallbackReason: string | null = null;
       let finalStatus = 'pending';
       let responseMessage = 'Your personalized strategies are being prepared and will be delivered shortly.';
       
       try {
         console.log("🤖 Generating AI draft for submission:", submission.id);
-        const { generateClassroomSolutionDraft } = await import('./services/ai');
-        
-        const aiRequest = {
-          teacherFirstName,
-          teacherLastInitial,
-          teacherPosition,
-          studentFirstName,
-          studentLastInitial,
-          studentAge,
-          studentGrade,
-          taskType: taskType as 'differentiation' | 'tier2_intervention',
-          learningProfile: Array.isArray(learningProfile) ? learningProfile : JSON.parse(learningProfile),
-          concernTypes: Array.isArray(concernTypes) ? concernTypes : JSON.parse(concernTypes),
-          concernDescription,
-          severityLevel: severityLevel as 'mild' | 'moderate' | 'urgent',
-          actionsTaken: Array.isArray(actionsTaken) ? actionsTaken : JSON.parse(actionsTaken)
-        };
-
         const aiResult = await generateClassroomSolutionDraft(aiRequest);
         urgentSafeguard = aiResult.urgentSafeguard;
+        fallbackReason = aiResult.fallbackReason;
         
         console.log('🚨 Urgent safeguard check:', urgentSafeguard);
         
@@ -3984,19 +5777,38 @@ Submitted: ${new Date().toLocaleString()}
           // Urgent case: Mark as urgent flagged, require admin approval
           urgentFlag = true;
           finalStatus = 'urgent_flagged';
+          if (urgentSafeguard.bypassDelay) {
+            // No auto-send delay: the draft goes out as soon as an admin approves it
+            autoSendTime = now;
+          }
           responseMessage = 'URGENT: This case involves potential harm. Initial strategies have been provided. Please consult your school\'s child protection protocol immediately.';
           
-          // Create urgent admin notification
-          await storage.createAdminNotification({
+          // Create urgent admin notification, already on the school's escalation chain
+          const { initialUrgentEscalation, startUrgentEscalation } = await import('./services/safeguardingEscalation');
+          const urgentNotification = await storage.createAdminNotification({
             submissionId: submission.id,
             type: 'urgent',
             status: 'unread',
             title: `URGENT: High-priority submission requires immediate review`,
-            message: `Submission ID ${submission.id} contains urgent keywords: ${urgentSafeguard.triggeredKeywords.join(', ')}. Immediate admin review required.`,
-            priority: 'urgent'
+            message: `Submission ID ${submission.id} was flagged as urgent (${urgentSafeguard.category ? SAFEGUARDING_CATEGORY_LABELS[urgentSafeguard.category] : 'safeguarding risk'}, risk score ${urgentSafeguard.riskScore}/100): ${urgentSafeguard.explanation} Immediate admin review required.`,
+            priority: 'urgent',
+            ...await initialUrgentEscalation(enrolledTeacher.school)
           });
           
           console.log('🚨 URGENT case detected - admin notification created');
+
+          const { openSafeguardingIncident } = await import('./services/safeguardingIncidents');
+          openSafeguardingIncident(enrolledTeacher.school, {
+            source: 'classroom_submission',
+            sourceId: submission.id,
+            studentLabel: `${studentFirstName} ${studentLastInitial}.`,
+            teacherName: `${enrolledTeacher.firstName} ${enrolledTeacher.lastName}`,
+            triggeringText: concernDescription,
+            result: urgentSafeguard,
+          });
+
+          // Emails the primary safeguarding contact; the escalation processor takes it from there
+          startUrgentEscalation(urgentNotification.id);
         } else if (severityLevel === 'urgent') {
           // Urgent severity but no keywords: Still needs quick attention
           responseMessage = 'An urgent case requires rapid support. Initial strategies are provided now. Please notify your student support department immediately.';
@@ -4008,6 +5820,7 @@ Submitted: ${new Date().toLocaleString()}
         // Update submission with AI draft and delayed delivery settings
         await storage.updateClassroomSubmission(submission.id, {
           aiDraft: aiResult.draft, // Use new field name
+          aiDraftFallbackReason: aiResult.fallbackReason,
           aiDraftContent: aiResult.draft, // Keep legacy field for compatibility
           aiDraftGenerated: true,
           status: finalStatus,
@@ -4036,7 +5849,9 @@ Submitted: ${new Date().toLocaleString()}
         message: responseMessage,
         submissionId: submission.id,
         remainingRequests: (updatedTeacher.requestsLimit || 5) - (updatedTeacher.requestsUsed || 0),
-        urgentCase: urgentSafeguard?.isUrgent || false
+        urgentCase: urgentSafeguard?.isUrgent || false,
+        cached: cachedDraft,
+        fallbackReason
       });
     } catch (error) {
       console.error('Error submitting classroom form:', error);
@@ -4119,6 +5934,12 @@ Submitted: ${new Date().toLocaleString()}
         adminReviewedBy: adminId,
         autoSendTime: new Date() // Send immediately
       });
+
+      if (submission.urgentFlag) {
+        // Urgent cases don't wait for the processor's next run; not awaited so the admin isn't kept waiting on the mail server
+        const { autoSendProcessor } = await import('./auto-send-processor');
+        autoSendProcessor.triggerImmediateProcessing();
+      }
       
       res.json({ success: true, message: 'Submission approved and will be sent immediately' });
     } catch (error) {
@@ -4191,16 +6012,20 @@ Submitted: ${new Date().toLocaleString()}
         return res.status(404).json({ message: 'Submission not found' });
       }
       
-      // Create escalation notification for senior admin/supervisor
-      await storage.createAdminNotification({
+      // Create escalation notification for senior admin/supervisor; like any urgent notification it
+      // goes through the school's escalation chain until someone acknowledges it
+      const { initialUrgentEscalation, startUrgentEscalation } = await import('./services/safeguardingEscalation');
+      const escalation = await storage.createAdminNotification({
         submissionId: id,
         type: 'urgent',
         status: 'unread',
         priority: 'urgent',
         title: `Escalated Submission: ${submission.taskType} - ${submission.severityLevel}`,
         message: `Submission escalated by admin. Reason: ${reason || 'Requires higher-level review'}. Original concern: ${submission.concernDescription?.substring(0, 100)}...`,
-        adminId: escalateToEmail ? undefined : adminId // If specific email provided, don't assign to current admin
+        adminId: escalateToEmail ? undefined : adminId, // If specific email provided, don't assign to current admin
+        ...await initialUrgentEscalation(submission.teacher?.school)
       });
+      startUrgentEscalation(escalation.id);
       
       await storage.updateClassroomSubmission(id, {
         status: 'urgent_flagged',
@@ -4275,17 +6100,83 @@ Submitted: ${new Date().toLocaleString()}
     }
   });
 
-  // Admin: Get urgent submissions requiring immediate attention
+  // Admin: Get urgent submissions requiring immediate attention, plus urgent notifications nobody has acknowledged yet
   app.get('/api/admin/classroom/urgent', requireAdmin, requireClassroomSolutions, async (req: any, res) => {
     try {
-      const urgentSubmissions = await storage.getUrgentSubmissions();
-      res.json({ submissions: urgentSubmissions });
+      const { getUnacknowledgedUrgentCases } = await import('./services/safeguardingEscalation');
+      const [urgentSubmissions, unacknowledged] = await Promise.all([
+        storage.getUrgentSubmissions(),
+        getUnacknowledgedUrgentCases(),
+      ]);
+      res.json({ submissions: urgentSubmissions, unacknowledged });
     } catch (error) {
       console.error('Error getting urgent submissions:', error);
       res.status(500).json({ message: 'Failed to get urgent submissions' });
     }
   });
 
+  // Admin: Acknowledge an urgent notification, stopping further escalation
+  app.post('/api/admin/classroom/urgent/:id/acknowledge', requireAdmin, requireClassroomSolutions, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const { acknowledgeUrgentNotification } = await import('./services/safeguardingEscalation');
+      const note = typeof req.body?.note === 'string' ? req.body.note.slice(0, 2000) : null;
+      const { notification, alreadyAcknowledged } = await acknowledgeUrgentNotification(req.params.id, adminId, note);
+
+      if (alreadyAcknowledged) {
+        return res.status(409).json({ message: 'This urgent case has already been acknowledged', notification });
+      }
+
+      console.log(`Admin ${adminId} acknowledged urgent notification ${req.params.id}`, {
+        adminId,
+        notificationId: req.params.id,
+        submissionId: notification.submissionId,
+        escalationLevel: notification.escalationLevel,
+        action: 'acknowledge_urgent_case',
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json({ success: true, notification });
+    } catch (error: any) {
+      if (error?.name === 'UrgentCaseNotFoundError') {
+        return res.status(404).json({ message: 'Urgent notification not found' });
+      }
+      console.error('Error acknowledging urgent notification:', error);
+      res.status(500).json({ message: 'Failed to acknowledge urgent notification' });
+    }
+  });
+
+  // Admin: Record a follow-up action on an urgent case (optionally resolving it)
+  app.post('/api/admin/classroom/urgent/:id/actions', requireAdmin, requireClassroomSolutions, async (req: any, res) => {
+    try {
+      const adminId = req.user.claims.sub;
+      const result = urgentCaseActionSchema.safeParse(req.body);
+      if (!result.success) {
+        return res.status(400).json({ message: 'Invalid action', errors: result.error.errors });
+      }
+
+      const { recordUrgentCaseAction } = await import('./services/safeguardingEscalation');
+      const notification = await recordUrgentCaseAction(req.params.id, adminId, result.data);
+
+      console.log(`Admin ${adminId} recorded an action on urgent notification ${req.params.id}`, {
+        adminId,
+        notificationId: req.params.id,
+        submissionId: notification.submissionId,
+        resolved: !!result.data.resolve,
+        action: 'record_urgent_case_action',
+        timestamp: new Date().toISOString(),
+      });
+
+      res.json({ success: true, notification });
+    } catch (error: any) {
+      if (error?.name === 'UrgentCaseNotFoundError') {
+        return res.status(404).json({ message: 'Urgent notification not found' });
+      }
+      console.error('Error recording urgent case action:', error);
+      res.status(500).json({ message: 'Failed to record action' });
+    }
+  });
+
   // Admin: Get all admin notifications
   app.get('/api/admin/notifications', requireAdmin, async (req: any, res) => {
     try {
@@ -0,0 +1,60 @@
+import { processDueEscalations } from './services/safeguardingEscalation';
+
+// Checks for urgent notifications that have waited past their escalation window without
+// being acknowledged and moves them to the next contact in the chain.
+export class SafeguardingEscalationProcessor {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private readonly INTERVAL_MS = 60 * 1000; // 1 minute
+
+  constructor() {
+    this.start();
+  }
+
+  start(): void {
+    if (this.intervalId) return;
+
+    console.log('⏫ Safeguarding escalation processor starting...');
+
+    this.processEscalations();
+
+    this.intervalId = setInterval(() => {
+      this.processEscalations();
+    }, this.INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('🛑 Safeguarding escalation processor stopped');
+    }
+  }
+
+  private async processEscalations(): Promise<void> {
+    if (this.isProcessing) return;
+
+    try {
+      this.isProcessing = true;
+      const escalated = await processDueEscalations();
+      if (escalated > 0) {
+        console.log(`⏫ Escalated ${escalated} unacknowledged urgent case(s)`);
+      }
+    } catch (error) {
+      console.error('❌ Safeguarding escalation processor error:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const safeguardingEscalationProcessor = new SafeguardingEscalationProcessor();
+
+process.on('SIGINT', () => {
+  safeguardingEscalationProcessor.stop();
+});
+
+process.on('SIGTERM', () => {
+  safeguardingEscalationProcessor.stop();
+});
@@ -1,6 +1,6 @@
 import { db } from "../db";
 import { users, schools, adminLogs, concerns, interventions, apiKeys, insertApiKeySchema } from "@shared/schema";
-import { eq, count, sql, and, desc, lt, gt } from "drizzle-orm";
+import { eq, count, sql, and, desc, lt, gt, isNull, or } from "drizzle-orm";
 import * as bcrypt from "bcrypt";
 
 export interface BulkCSVUploadResult {
@@ -531,27 +531,42 @@ export async function bulkDeleteTeachers(teacherIds: string[]) {
 // API Key Management Functions
 export async function getApiKeys() {
   try {
+    await resetMonthlyApiKeyUsageIfNeeded();
+
     const keys = await db
       .select({
         id: apiKeys.id,
         name: apiKeys.name,
         provider: apiKeys.provider,
+        baseUrl: apiKeys.baseUrl,
+        model: apiKeys.model,
+        schoolId: apiKeys.schoolId,
+        schoolName: schools.name,
         isActive: apiKeys.isActive,
         description: apiKeys.description,
         usageCount: apiKeys.usageCount,
         maxUsage: apiKeys.maxUsage,
+        usageResetAt: apiKeys.usageResetAt,
+        consecutiveFailures: apiKeys.consecutiveFailures,
+        lastError: apiKeys.lastError,
+        lastErrorAt: apiKeys.lastErrorAt,
+        cooldownUntil: apiKeys.cooldownUntil,
         lastUsedAt: apiKeys.lastUsedAt,
         createdAt: apiKeys.createdAt,
         createdByUser: users.firstName
       })
       .from(apiKeys)
       .leftJoin(users, eq(apiKeys.createdBy, users.id))
+      .leftJoin(schools, eq(apiKeys.schoolId, schools.id))
       .orderBy(apiKeys.createdAt);
 
+    const now = new Date();
     return keys.map(key => ({
       ...key,
       maskedKey: '••••••••••••••••••••••••••••••••',
-      usagePercentage: key.maxUsage ? Math.round((key.usageCount || 0) / key.maxUsage * 100) : 0
+      usagePercentage: key.maxUsage ? Math.round((key.usageCount || 0) / key.maxUsage * 100) : 0,
+      isOverLimit: !!key.maxUsage && (key.usageCount || 0) >= key.maxUsage,
+      isCoolingDown: !!key.cooldownUntil && key.cooldownUntil > now
     }));
   } catch (error) {
     console.error('Error fetching API keys:', error);
@@ -559,29 +574,154 @@ export async function getApiKeys() {
   }
 }
 
-// Internal function to get actual API key for service usage (not for admin display)
-export async function getActiveApiKey(provider: string = 'deepseek') {
+// Key pool cooldowns applied after provider failures
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000; // 429: retry the key after a minute
+const AUTH_FAILURE_COOLDOWN_MS = 60 * 60 * 1000; // 401/402/403: key is revoked or out of credit
+
+// Zero usage counters for keys whose usage window started before the current month
+export async function resetMonthlyApiKeyUsageIfNeeded(): Promise<number> {
+  const now = new Date();
+  const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  const reset = await db
+    .update(apiKeys)
+    .set({
+      usageCount: 0,
+      usageResetAt: now,
+      updatedAt: now
+    })
+    .where(or(
+      isNull(apiKeys.usageResetAt),
+      lt(apiKeys.usageResetAt, startOfMonth)
+    ))
+    .returning({ id: apiKeys.id });
+
+  if (reset.length > 0) {
+    console.log(`🔄 Monthly API key usage reset performed for ${reset.length} key(s)`);
+  }
+  return reset.length;
+}
+
+// Internal function returning the healthy keys an AI call may use for a school, in failover order.
+// Keys scoped to the school come first, then keys shared by all schools. Keys over their monthly
+// cap or cooling down after auth/rate-limit failures are skipped.
+export async function getApiKeyPoolForSchool(schoolName?: string | null) {
   try {
-    const key = await db
+    await resetMonthlyApiKeyUsageIfNeeded();
+
+    const keys = await db
       .select({
         id: apiKeys.id,
         name: apiKeys.name,
         provider: apiKeys.provider,
-        apiKey: apiKeys.apiKey, // Get the actual API key
-        isActive: apiKeys.isActive,
+        apiKey: apiKeys.apiKey,
+        baseUrl: apiKeys.baseUrl,
+        model: apiKeys.model,
+        schoolId: apiKeys.schoolId,
+        usageCount: apiKeys.usageCount,
+        maxUsage: apiKeys.maxUsage,
+        cooldownUntil: apiKeys.cooldownUntil,
       })
       .from(apiKeys)
+      .leftJoin(schools, eq(apiKeys.schoolId, schools.id))
       .where(and(
-        eq(apiKeys.provider, provider),
-        eq(apiKeys.isActive, true)
+        eq(apiKeys.isActive, true),
+        schoolName
+          ? or(isNull(apiKeys.schoolId), eq(schools.name, schoolName))
+          : isNull(apiKeys.schoolId)
       ))
-      .orderBy(apiKeys.createdAt)
-      .limit(1);
+      .orderBy(apiKeys.createdAt);
+
+    const now = new Date();
+    const healthyKeys = keys.filter(key => {
+      if (key.maxUsage && (key.usageCount || 0) >= key.maxUsage) {
+        console.log(`⏭️ Skipping API key "${key.name}" - monthly limit reached (${key.usageCount}/${key.maxUsage})`);
+        return false;
+      }
+      if (key.cooldownUntil && key.cooldownUntil > now) {
+        console.log(`⏭️ Skipping API key "${key.name}" - cooling down until ${key.cooldownUntil.toISOString()}`);
+        return false;
+      }
+      return true;
+    });
 
-    return key[0] || null;
+    return [
+      ...healthyKeys.filter(key => key.schoolId).map(key => ({ ...key, scope: 'school' as const })),
+      ...healthyKeys.filter(key => !key.schoolId).map(key => ({ ...key, scope: 'global' as const })),
+    ];
   } catch (error) {
-    console.error('Error fetching active API key:', error);
-    return null;
+    console.error('Error fetching API key pool:', error);
+    return [];
+  }
+}
+
+// Count a successful AI call against the key and clear its failure state
+export async function recordApiKeyUsage(keyId: string): Promise<void> {
+  const now = new Date();
+  await db
+    .update(apiKeys)
+    .set({
+      usageCount: sql`coalesce(${apiKeys.usageCount}, 0) + 1`,
+      lastUsedAt: now,
+      consecutiveFailures: 0,
+      cooldownUntil: null,
+    })
+    .where(eq(apiKeys.id, keyId));
+}
+
+// Record a failed AI call; auth and rate-limit failures take the key out of the pool for a while
+export async function recordApiKeyFailure(keyId: string, status: number | undefined, message: string): Promise<void> {
+  const now = new Date();
+  let cooldownMs = 0;
+  if (status === 429) {
+    cooldownMs = RATE_LIMIT_COOLDOWN_MS;
+  } else if (status === 401 || status === 402 || status === 403) {
+    cooldownMs = AUTH_FAILURE_COOLDOWN_MS;
+  }
+
+  await db
+    .update(apiKeys)
+    .set({
+      consecutiveFailures: sql`coalesce(${apiKeys.consecutiveFailures}, 0) + 1`,
+      lastError: message.substring(0, 500),
+      lastErrorAt: now,
+      ...(cooldownMs ? { cooldownUntil: new Date(now.getTime() + cooldownMs) } : {}),
+    })
+    .where(eq(apiKeys.id, keyId));
+
+  if (cooldownMs) {
+    console.warn(`🧊 API key ${keyId} cooling down for ${Math.round(cooldownMs / 1000)}s after ${status} error`);
+  }
+}
+
+// Admin action: zero a key's usage and put it back in the pool immediately
+export async function resetApiKeyUsage(keyId: string) {
+  try {
+    const result = await db
+      .update(apiKeys)
+      .set({
+        usageCount: 0,
+        usageResetAt: new Date(),
+        consecutiveFailures: 0,
+        cooldownUntil: null,
+        lastError: null,
+        updatedAt: new Date()
+      })
+      .where(eq(apiKeys.id, keyId))
+      .returning();
+
+    if (!result.length) {
+      throw new Error('API key not found');
+    }
+
+    return {
+      success: true,
+      message: 'API key usage reset successfully',
+      apiKey: result[0]
+    };
+  } catch (error) {
+    console.error('Error resetting API key usage:', error);
+    throw error;
   }
 }
 
@@ -593,6 +733,9 @@ export async function createApiKey(apiKeyData: any, createdBy: string) {
         name: apiKeyData.name,
         provider: apiKeyData.provider || 'deepseek',
         apiKey: apiKeyData.apiKey, // In production, this should be encrypted
+        baseUrl: apiKeyData.baseUrl || null,
+        model: apiKeyData.model || null,
+        schoolId: apiKeyData.schoolId || null,
         description: apiKeyData.description,
         maxUsage: apiKeyData.maxUsage || 10000,
         isActive: apiKeyData.isActive !== false,
@@ -619,7 +762,11 @@ export async function updateApiKey(keyId: string, updates: any) {
     if (updates.description !== undefined) updateData.description = updates.description;
     if (updates.isActive !== undefined) updateData.isActive = updates.isActive;
     if (updates.maxUsage !== undefined) updateData.maxUsage = parseInt(updates.maxUsage);
-    if (updates.apiKey !== undefined) updateData.apiKey = updates.apiKey; // Should be encrypted
+    if (updates.apiKey) updateData.apiKey = updates.apiKey; // Should be encrypted; blank means keep existing
+    if (updates.provider !== undefined) updateData.provider = updates.provider;
+    if (updates.baseUrl !== undefined) updateData.baseUrl = updates.baseUrl || null;
+    if (updates.model !== undefined) updateData.model = updates.model || null;
+    if (updates.schoolId !== undefined) updateData.schoolId = updates.schoolId || null;
     
     updateData.updatedAt = new Date();
 
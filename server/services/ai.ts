@@ -1,39 +1,14 @@
-// Get API client from environment variables or database-managed keys
-async function getApiClient() {
-  console.log("🔍 Getting API client...");
-  
-  // First, check environment variable (primary method)
-  const envApiKey = process.env.DEEPSEEK_API_KEY;
-  console.log("🔍 Environment API key exists:", !!envApiKey);
-  
-  if (envApiKey) {
-    console.log("🔑 Using environment-managed DeepSeek API key");
-    return {
-      apiKey: envApiKey,
-      baseURL: 'https://api.deepseek.com/v1'
-    };
-  }
-  
-  // Fallback to database-managed keys
-  try {
-    console.log("🔍 Trying database fallback...");
-    const { getActiveApiKey } = await import('./admin');
-    const activeDeepSeekKey = await getActiveApiKey('deepseek');
-    
-    if (activeDeepSeekKey) {
-      console.log("🔑 Using database-managed DeepSeek API key:", activeDeepSeekKey.name);
-      return {
-        apiKey: activeDeepSeekKey.apiKey,
-        baseURL: 'https://api.deepseek.com/v1'
-      };
-    }
-  } catch (error) {
-    console.error("❌ Error accessing database API keys:", error instanceof Error ? error.message : String(error));
-  }
-  
-  console.warn("❌ No DeepSeek API key found in environment or database.");
-  return null;
-}
+import { getAIClients, createCompletionWithFailover, streamCompletionWithFailover } from "./aiKeyPool";
+import { generateStructuredRecommendations, extractStrategiesFromMarkdown, type RecommendationStreamHandlers, type StructuredRecommendations } from "./interventionStructure";
+import { createRedactionSessionForSchool, recordRedactions, type RedactionSession } from "./piiRedaction";
+import { resolvePromptTemplate, renderPromptTemplate, findUnknownPlaceholders } from "./promptTemplates";
+import { hashAIRequest, getCachedResponse, setCachedResponse } from "./aiResponseCache";
+import { getFallbackReason } from "./aiResilience";
+import { assessSafeguardingRisk, detectUrgentKeywords, SAFEGUARDING_CATEGORY_LABELS, type UrgentSafeguardResult } from "./safeguarding";
+import { getSchoolSafeguardingConfig, describeSafeguardingLead, type SchoolSafeguardingConfig } from "./safeguardingConfig";
+import { findLibraryMatches, buildLibraryPromptSection, matchLibraryCitations } from "./interventionLibrary";
+import { getStrategyEffectiveness, effectivenessScore, rankStrategiesByEffectiveness } from "./interventionEffectiveness";
+import { MOCK_PROMPT_VERSION, type AIFallbackReason, type PromptTemplateKey } from "@shared/schema";
 
 export interface GenerateRecommendationsRequest {
   studentFirstName: string;
@@ -71,11 +46,22 @@ export interface GenerateRecommendationsRequest {
   
   // Language preference for AI-generated content
   language?: string;
+  
+  // School of the requesting teacher - selects school-scoped AI provider keys and PII redaction settings
+  schoolName?: string;
+  userId?: string;
 }
 
 export interface GenerateRecommendationsResponse {
-  recommendations: string;
+  recommendations: string; // Full markdown (overview + strategies), used by reports and follow-up prompts
   disclaimer: string;
+  overview: string; // Plan-wide sections and safety notices that aren't a single strategy
+  strategies: InterventionStrategy[];
+  promptTemplateId: string | null; // Database template that produced the plan; null for built-in prompts and mock data
+  promptVersion: string; // Human-readable prompt version recorded on each intervention
+  cached?: boolean; // Served from the response cache - no model call was made, so no request is charged
+  fallbackReason?: AIFallbackReason; // Set when the plan is built-in template content because the AI provider was unavailable
+  safeguarding?: UrgentSafeguardResult; // Safeguarding classification of the concern description
 }
 
 export interface InterventionStrategy {
@@ -83,6 +69,46 @@ export interface InterventionStrategy {
   description: string;
   steps: string[];
   timeline: string;
+  progressMeasures: string[];
+  successCriteria: string[];
+  libraryEntryId?: string | null; // Intervention library entry the strategy cites
+}
+
+const URGENT_CASE_NOTICE = `\n\n### **🚨 URGENT CASE - IMMEDIATE ACTION REQUIRED**
+
+**Share this case with Student Support immediately:**
+* Forward this concern and intervention plan to your school's student support team
+* Schedule urgent consultation with counselor, social worker, or special education coordinator  
+* Document all interventions and student responses for the support team
+* Consider immediate safety protocols if student welfare is at risk
+* Escalate to administration if no improvement within 48-72 hours
+
+**Contact your school's student support department today to ensure this student receives comprehensive, coordinated care.**`;
+
+// Prepends the safeguarding alert or appends the urgent-case notice, matching what teachers see for the full plan
+function addCaseNotices(text: string, severityLevel: string, safetyCheck?: UrgentSafeguardResult, safeguardingConfig?: SchoolSafeguardingConfig | null): string {
+  if (safetyCheck?.isUrgent) {
+    return generateUrgentSafeguardMessage(safetyCheck, safeguardingConfig) + '\n\n' + text;
+  }
+  if (severityLevel === 'urgent') {
+    return text + URGENT_CASE_NOTICE;
+  }
+  return text;
+}
+
+// Mock and fallback plans are generated in one go; replay them through the stream handlers
+function streamStructuredPlan(handlers: RecommendationStreamHandlers | undefined, structured: StructuredRecommendations) {
+  if (!handlers) return;
+  if (structured.overview.trim()) {
+    handlers.onOverview?.(structured.overview);
+  }
+  structured.strategies.forEach((strategy, index) => handlers.onStrategy?.(strategy, index));
+}
+
+export function getDefaultTimeline(taskType?: string): string {
+  if (taskType === 'differentiation') return 'Ongoing';
+  if (taskType === 'classroom_management') return '4-8 weeks implementation';
+  return '2-6 weeks';
 }
 
 // Sanitize text to prevent database encoding errors
@@ -97,16 +123,203 @@ function sanitizeForDatabase(text: string): string {
     .trim();
 }
 
+// Names from the classroom-management concern list, which are sent to the model as context
+function redactExistingConcerns(concerns: any[] | undefined, redaction: RedactionSession) {
+  return concerns?.map(concern => ({
+    ...concern,
+    studentFirstName: concern.studentFirstName ? redaction.redact(concern.studentFirstName) : concern.studentFirstName,
+    description: typeof concern.description === 'string' ? redaction.redact(concern.description) : concern.description,
+  }));
+}
+
+/**
+ * Generates recommendations with student identifiers replaced by placeholders. The model only ever
+ * sees "[STUDENT_1]", "[PHONE_1]" etc.; the real values are put back into streamed and final output.
+ */
 export async function generateRecommendations(
-  req: GenerateRecommendationsRequest
+  req: GenerateRecommendationsRequest,
+  handlers?: RecommendationStreamHandlers
+): Promise<GenerateRecommendationsResponse> {
+  const cacheKey = hashAIRequest('recommendations', req);
+  const cachedResponse = getCachedResponse<GenerateRecommendationsResponse>(cacheKey);
+  if (cachedResponse) {
+    console.log(`♻️ Serving cached recommendations for ${req.studentFirstName} ${req.studentLastInitial}`);
+    // Replay the stream so streaming clients render a cached plan the same way as a fresh one
+    const safeguardingConfig = await getSchoolSafeguardingConfig(req.schoolName);
+    // Re-run the local classifier rather than trusting the payload: the lexicon or the school's keywords may have changed
+    const safetyCheck = detectUrgentKeywords(req.concernDescription, safeguardingConfig?.extraKeywords);
+    const caseNotice = addCaseNotices('', req.severityLevel, safetyCheck, safeguardingConfig).trim();
+    if (caseNotice) handlers?.onNotice?.(caseNotice);
+    handlers?.onOverview?.(cachedResponse.overview);
+    cachedResponse.strategies.forEach((strategy, index) => handlers?.onStrategy?.(strategy, index));
+    return { ...cachedResponse, safeguarding: safetyCheck, cached: true };
+  }
+
+  const knownNames = [
+    { value: req.studentFirstName, label: 'STUDENT' },
+    ...(req.existingConcerns || [])
+      .filter(concern => concern?.studentFirstName && concern.studentFirstName !== req.studentFirstName)
+      .map(concern => ({ value: concern.studentFirstName as string })),
+  ];
+  const redaction = await createRedactionSessionForSchool(req.schoolName, knownNames);
+  const redactOptional = (text?: string) => text ? redaction.redact(text) : text;
+
+  const redactedRequest: GenerateRecommendationsRequest = {
+    ...req,
+    studentFirstName: redaction.redact(req.studentFirstName),
+    concernDescription: redaction.redact(req.concernDescription),
+    otherConcernType: redactOptional(req.otherConcernType),
+    otherActionTaken: redactOptional(req.otherActionTaken),
+    disabilityType: redactOptional(req.disabilityType),
+    otherNeeds: redactOptional(req.otherNeeds),
+    lessonPlanContent: redactOptional(req.lessonPlanContent),
+    existingConcerns: redactExistingConcerns(req.existingConcerns, redaction),
+  };
+
+  const restoreStrategy = (strategy: InterventionStrategy): InterventionStrategy => ({
+    title: redaction.restore(strategy.title),
+    description: redaction.restore(strategy.description),
+    steps: strategy.steps.map(redaction.restore),
+    timeline: redaction.restore(strategy.timeline),
+    progressMeasures: strategy.progressMeasures.map(redaction.restore),
+    successCriteria: strategy.successCriteria.map(redaction.restore),
+    libraryEntryId: strategy.libraryEntryId,
+  });
+
+  const restoringHandlers: RecommendationStreamHandlers | undefined = handlers && {
+    onNotice: handlers.onNotice && ((notice) => handlers.onNotice!(redaction.restore(notice))),
+    onOverview: handlers.onOverview && ((overview) => handlers.onOverview!(redaction.restore(overview))),
+    onStrategy: handlers.onStrategy && ((strategy, index) => handlers.onStrategy!(restoreStrategy(strategy), index)),
+    onDelta: handlers.onDelta,
+  };
+
+  const response = await generateRecommendationsWithProvider(redactedRequest, restoringHandlers, redaction.redact);
+  await recordRedactions(redaction, { source: 'recommendations', userId: req.userId });
+
+  const result: GenerateRecommendationsResponse = {
+    recommendations: redaction.restore(response.recommendations),
+    disclaimer: response.disclaimer,
+    overview: redaction.restore(response.overview),
+    strategies: response.strategies.map(restoreStrategy),
+    promptTemplateId: response.promptTemplateId,
+    promptVersion: response.promptVersion,
+    fallbackReason: response.fallbackReason,
+  };
+
+  // Mock fallbacks aren't cached, so a retry after a provider outage reaches the model
+  if (!response.fallbackReason) {
+    setCachedResponse(cacheKey, result);
+  }
+  return { ...result, safeguarding: response.safeguarding, cached: false };
+}
+
+function getRecommendationTemplateKey(req: GenerateRecommendationsRequest, lessonPlanContent: string): PromptTemplateKey {
+  if (req.taskType === 'differentiation') {
+    return lessonPlanContent ? 'differentiation_lesson_plan' : 'differentiation';
+  }
+  if (req.taskType === 'classroom_management') return 'classroom_management';
+  return 'tier2_intervention';
+}
+
+// Values for the {{placeholders}} in recommendation prompt templates (see PROMPT_PLACEHOLDERS)
+function buildRecommendationPromptVariables(
+  req: GenerateRecommendationsRequest,
+  assessmentContent: string,
+  lessonPlanContent: string
+): Record<string, string> {
+  const concernTypesText = req.concernTypes.length > 0 
+    ? req.concernTypes.join(', ') + (req.otherConcernType ? `, ${req.otherConcernType}` : '')
+    : 'Not specified';
+  
+  const actionsTakenText = req.actionsTaken.length > 0 
+    ? req.actionsTaken.join(', ') + (req.otherActionTaken ? `, ${req.otherActionTaken}` : '')
+    : 'None documented';
+
+  // Build differentiation context for better AI recommendations
+  console.log("🎯 AI Service received differentiation data:", {
+    hasIep: req.hasIep,
+    hasDisability: req.hasDisability,
+    disabilityType: req.disabilityType,
+    isEalLearner: req.isEalLearner,
+    ealProficiency: req.ealProficiency,
+    isGifted: req.isGifted,
+    isStruggling: req.isStruggling,
+    otherNeeds: req.otherNeeds,
+  });
+
+  const differentiationInfo = [];
+  if (req.hasIep) differentiationInfo.push('Has IEP (Individualized Education Program)');
+  if (req.hasDisability && req.disabilityType) differentiationInfo.push(`Diagnosed with: ${req.disabilityType}`);
+  if (req.isEalLearner && req.ealProficiency) differentiationInfo.push(`EAL Learner (${req.ealProficiency} English proficiency)`);
+  if (req.isGifted) differentiationInfo.push('Identified as gifted/talented');
+  if (req.isStruggling) differentiationInfo.push('Currently struggling academically');
+  if (req.otherNeeds) differentiationInfo.push(`Additional needs: ${req.otherNeeds}`);
+  
+  const differentiationText = differentiationInfo.length > 0 
+    ? differentiationInfo.join('; ')
+    : 'No specific learning needs documented';
+    
+  console.log("📝 Final differentiation text for AI:", differentiationText);
+
+  // Build context from existing concerns (classroom management)
+  let concernsContext = "";
+  if (req.existingConcerns && req.existingConcerns.length > 0) {
+    concernsContext = `\n\n**EXISTING STUDENT CONCERNS IN YOUR CLASSROOM:**\n`;
+    req.existingConcerns.forEach((concern, index) => {
+      concernsContext += `${index + 1}. Student: ${concern.studentFirstName} ${concern.studentLastInitial} (Grade ${concern.grade})\n`;
+      concernsContext += `   Concerns: ${Array.isArray(concern.concernTypes) ? concern.concernTypes.join(', ') : 'Various'}\n`;
+      concernsContext += `   Description: ${concern.description || 'No specific description'}\n`;
+      concernsContext += `   Severity: ${concern.severityLevel || 'Not specified'}\n\n`;
+    });
+  } else {
+    concernsContext = "\n\n**NOTE:** No previous individual student concerns found in your records. This analysis will focus on general classroom management strategies based on your description.";
+  }
+
+  return {
+    studentFirstName: req.studentFirstName,
+    studentLastInitial: req.studentLastInitial,
+    grade: req.grade || 'Mixed/Various',
+    teacherPosition: req.teacherPosition,
+    location: req.location,
+    incidentDate: req.incidentDate,
+    concernTypes: concernTypesText,
+    severityLevel: req.severityLevel,
+    actionsTaken: actionsTakenText,
+    concernDescription: req.concernDescription,
+    learningProfile: differentiationText,
+    learningProfileList: differentiationInfo.join('\n'),
+    existingConcerns: concernsContext,
+    lessonPlanContent,
+    assessmentSection: assessmentContent ? `\n\n**UPLOADED ASSESSMENT DATA ANALYSIS REQUIRED**:\n${assessmentContent}` : '',
+    lessonPlanSection: lessonPlanContent ? `\n\n**LESSON PLAN DIFFERENTIATION REQUIRED**:\n${lessonPlanContent}` : '',
+    assessmentInstructions: assessmentContent ? `**CRITICAL**: Analyze the provided assessment data thoroughly. Identify specific strengths, weaknesses, learning patterns, and intervention targets. Use this data to create targeted interventions that address documented needs rather than generic strategies.` : '',
+    lessonPlanInstructions: lessonPlanContent ? `**CRITICAL**: Provide specific, detailed adaptations to the uploaded lesson plan. Include modified objectives, alternative activities, assessment accommodations, and environmental considerations. Make the lesson accessible while maintaining academic rigor.` : '',
+  };
+}
+
+async function generateRecommendationsWithProvider(
+  req: GenerateRecommendationsRequest,
+  handlers?: RecommendationStreamHandlers,
+  redactText: (text: string) => string = (text) => text
 ): Promise<GenerateRecommendationsResponse> {
   console.log("🚀 Starting recommendation generation...");
   console.log("📝 Student:", req.studentFirstName, req.studentLastInitial);
   console.log("📝 Concern types:", req.concernTypes);
   
   // CRITICAL SAFETY DETECTION - Check for safety concerns FIRST
-  const safetyCheck = detectUrgentKeywords(req.concernDescription);
-  console.log("🚨 Safety check result:", safetyCheck);
+  const safeguardingConfig = await getSchoolSafeguardingConfig(req.schoolName);
+  const safetyCheck = await assessSafeguardingRisk(req.concernDescription, {
+    schoolName: req.schoolName,
+    userId: req.userId,
+    extraKeywords: safeguardingConfig?.extraKeywords,
+  });
+  console.log("🚨 Safety check result:", safetyCheck.explanation);
+  
+  // When streaming, the teacher sees any safety notice before the strategies start arriving
+  const caseNotice = addCaseNotices('', req.severityLevel, safetyCheck, safeguardingConfig).trim();
+  if (caseNotice) {
+    handlers?.onNotice?.(caseNotice);
+  }
   
   // Debug environment variable access
   console.log("🔍 Environment Debug:");
@@ -114,8 +327,8 @@ export async function generateRecommendations(
   console.log("  - DEEPSEEK_API_KEY length:", process.env.DEEPSEEK_API_KEY?.length || 0);
   console.log("  - First 10 chars:", process.env.DEEPSEEK_API_KEY?.substring(0, 10) || 'none');
   
-  const apiClient = await getApiClient();
-  console.log("🔑 API client available:", !!apiClient);
+  const apiClients = await getAIClients(req.schoolName);
+  console.log("🔑 API clients available:", apiClients.length);
   
   // Read uploaded file contents for enhanced recommendations
   let assessmentContent = "";
@@ -125,7 +338,7 @@ export async function generateRecommendations(
     try {
       const { ObjectStorageService } = await import("../objectStorage");
       const objectStorageService = new ObjectStorageService();
-      const rawContent = await objectStorageService.readFileContent(req.studentAssessmentFile);
+      const rawContent = redactText(await objectStorageService.readFileContent(req.studentAssessmentFile));
       
       // Truncate content to fit within AI token limits (approximately 50,000 characters = ~12,500 tokens)
       // This leaves room for the rest of the prompt and response
@@ -155,462 +368,30 @@ export async function generateRecommendations(
     }
   }
 
-  if (!apiClient) {
+  if (apiClients.length === 0) {
     console.log("No active API key found in database, returning enhanced mock data with file content.");
-    let mockRecommendations = generateMockRecommendations(req, assessmentContent, lessonPlanContent);
-    
-    // Sanitize mock data too
-    mockRecommendations = sanitizeForDatabase(mockRecommendations);
-    
-    // Add safety alert for mock data if safety concerns detected
-    if (safetyCheck.isUrgent) {
-      mockRecommendations = generateUrgentSafeguardMessage(safetyCheck.triggeredKeywords) + '\n\n' + mockRecommendations;
-    } else if (req.severityLevel === 'urgent') {
-      mockRecommendations += `\n\n### **🚨 URGENT CASE - IMMEDIATE ACTION REQUIRED**
-
-**Share this case with Student Support immediately:**
-* Forward this concern and intervention plan to your school's student support team
-* Schedule urgent consultation with counselor, social worker, or special education coordinator  
-* Document all interventions and student responses for the support team
-* Consider immediate safety protocols if student welfare is at risk
-* Escalate to administration if no improvement within 48-72 hours
-
-**Contact your school's student support department today to ensure this student receives comprehensive, coordinated care.**`;
-    }
-    
-    const disclaimer = "⚠️ IMPORTANT DISCLAIMER: These AI-generated recommendations are for informational purposes only and should not replace professional educational assessment. Please refer this student to your school's student support department for proper evaluation and vetting. All AI-generated suggestions must be reviewed and approved by qualified educational professionals before implementation. (No API key configured in admin interface, returning mock data)";
-    return { recommendations: mockRecommendations, disclaimer };
+    return buildFallbackRecommendations(req, assessmentContent, lessonPlanContent, safetyCheck, safeguardingConfig, 'no_api_key', handlers);
   }
-  const concernTypesText = req.concernTypes.length > 0 
-    ? req.concernTypes.join(', ') + (req.otherConcernType ? `, ${req.otherConcernType}` : '')
-    : 'Not specified';
-  
-  const actionsTakenText = req.actionsTaken.length > 0 
-    ? req.actionsTaken.join(', ') + (req.otherActionTaken ? `, ${req.otherActionTaken}` : '')
-    : 'None documented';
-
-  // Build differentiation context for better AI recommendations
-  console.log("🎯 AI Service received differentiation data:", {
-    hasIep: req.hasIep,
-    hasDisability: req.hasDisability,
-    disabilityType: req.disabilityType,
-    isEalLearner: req.isEalLearner,
-    ealProficiency: req.ealProficiency,
-    isGifted: req.isGifted,
-    isStruggling: req.isStruggling,
-    otherNeeds: req.otherNeeds,
-  });
-
-  const differentiationInfo = [];
-  if (req.hasIep) differentiationInfo.push('Has IEP (Individualized Education Program)');
-  if (req.hasDisability && req.disabilityType) differentiationInfo.push(`Diagnosed with: ${req.disabilityType}`);
-  if (req.isEalLearner && req.ealProficiency) differentiationInfo.push(`EAL Learner (${req.ealProficiency} English proficiency)`);
-  if (req.isGifted) differentiationInfo.push('Identified as gifted/talented');
-  if (req.isStruggling) differentiationInfo.push('Currently struggling academically');
-  if (req.otherNeeds) differentiationInfo.push(`Additional needs: ${req.otherNeeds}`);
-  
-  const differentiationText = differentiationInfo.length > 0 
-    ? differentiationInfo.join('; ')
-    : 'No specific learning needs documented';
-    
-  console.log("📝 Final differentiation text for AI:", differentiationText);
-
   // Generate different prompts based on task type
   const isDifferentiationTask = req.taskType === 'differentiation';
   console.log("🎯 Task type:", req.taskType, "- Is differentiation task:", isDifferentiationTask);
   
-  const filePrompts = [];
-  if (assessmentContent) {
-    filePrompts.push(`- Student Assessment Data: ${assessmentContent}`);
-  }
-  if (lessonPlanContent) {
-    filePrompts.push(`- Lesson Plan to Differentiate: ${lessonPlanContent}`);
-  }
-  
-  let prompt;
-  
-  if (isDifferentiationTask) {
-    if (lessonPlanContent) {
-      prompt = `You are an educational differentiation specialist AI assistant. Your primary task is to take the uploaded lesson plan and create a differentiated version specifically adapted for this student's learning needs.
-
-**Student Information:**
-- Name: ${req.studentFirstName} ${req.studentLastInitial}
-- Grade: ${req.grade}
-- Teacher: ${req.teacherPosition}
-- Location: ${req.location}
-
-**Student Learning Profile:**
-${differentiationInfo.join('\n')}
-
-**ORIGINAL LESSON PLAN TO DIFFERENTIATE:**
-${lessonPlanContent}
-
-**YOUR TASK:** Create a COMPLETE differentiated version of the above lesson plan specifically adapted for ${req.studentFirstName}'s learning needs. This must be a fully developed, ready-to-use lesson plan with all activities, materials, and assessments modified. Include BOTH the modified lesson plan AND general strategies:
-
-1. **Differentiated Learning Objectives:**
-   - Modified or tiered objectives that match the student's ability level
-   - Clear, measurable goals appropriate for their needs
-
-2. **Adapted Content Delivery:**
-   - Modified explanation methods
-   - Visual supports and graphic organizers
-   - Chunked information presentation
-   - Alternative vocabulary or simplified language
-
-3. **Differentiated Activities:**
-   - Step-by-step modified activities from the original lesson
-   - Alternative ways to engage with the content
-   - Scaffolded practice opportunities
-   - Choice options for different learning preferences
-
-4. **Modified Assessment Methods:**
-   - Alternative ways for the student to demonstrate understanding
-   - Adapted rubrics or success criteria
-   - Formative assessment strategies during the lesson
-
-5. **Specific Accommodations:**
-   - Environmental modifications needed
-   - Technology tools or supports
-   - Time adjustments
-   - Material adaptations
-
-6. **Implementation Notes:**
-   - Specific instructions for the teacher
-   - What to prepare in advance
-   - Timing considerations
-
-7. **Ongoing Differentiation Strategies:**
-   - Long-term content modifications
-   - Process adaptations for future lessons
-   - Assessment alternatives
-   - Environment optimizations
-   - Progress monitoring systems
-   - Collaboration and communication plans
-
-**Format:** 
-1. **FIRST**: Provide a COMPLETE, restructured lesson plan with specific activities, modified materials, timing, and assessment methods
-2. **THEN**: Include comprehensive research-based differentiation strategies with citations, implementation timelines, and progress monitoring systems (use the same detailed format as provided for general differentiation tasks)
-
-This should include BOTH an actual differentiated lesson plan the teacher can implement immediately AND comprehensive ongoing support strategies.`;
-    } else {
-      prompt = `You are a leading educational specialist with advanced expertise in differentiated instruction, Universal Design for Learning (UDL), and evidence-based teaching practices. Drawing from current research in cognitive science, special education, and instructional design, provide detailed, immediately implementable differentiation strategies with specific learning objectives, assessment criteria, and research citations where applicable.
-
-**Student Information:**
-- Name: ${req.studentFirstName} ${req.studentLastInitial}
-- Grade: ${req.grade}
-- Teacher: ${req.teacherPosition}
-- Location: ${req.location}
-
-**Student Learning Profile:**
-${differentiationInfo.join('\n')}
-
-**CRITICAL REQUIREMENTS:**
-- All strategies must be evidence-based and cite relevant educational research
-- Provide specific, concrete examples with step-by-step implementation
-- Include materials lists and preparation requirements
-- Address multiple learning modalities (visual, auditory, kinesthetic, tactile)
-- Consider Universal Design for Learning (UDL) principles
-- Differentiate for this student's specific needs, not generic accommodations
-
-**Required Output Structure:**
-
-## **Student Learning Profile Summary**
-Provide a comprehensive analysis of ${req.studentFirstName}'s learning strengths, challenges, and optimal learning conditions based on the profile provided.
-
-## **1. Content Modifications**
-### **Adjusting Complexity**
-- Specific techniques for scaffolding content (include 3-5 concrete examples)
-- Grade-appropriate modifications while maintaining rigor
-- Multi-level materials and resources
-
-### **Multiple Representations** 
-- Visual supports (graphic organizers, concept maps, infographics)
-- Auditory options (recordings, verbal explanations, music integration)
-- Kinesthetic activities (hands-on manipulatives, movement-based learning)
-
-### **Interest-Based Adaptations**
-- Ways to connect content to student interests and cultural background
-- Choice menus for topics and project themes
-
-## **2. Process Modifications**
-### **Instructional Delivery**
-- Specific teaching strategies matched to learning style
-- Pacing adjustments and chunking methods
-- Collaborative vs. independent work balance
-
-### **Scaffolding Techniques**
-- Step-by-step process breakdowns
-- Think-aloud strategies
-- Peer support systems and buddy partnerships
-
-### **Technology Integration**
-- Assistive technology recommendations
-- Digital tools and apps specific to learning needs
-- Accessibility features and settings
-
-## **3. Product Alternatives**
-### **Assessment Options**
-- Multiple ways to demonstrate mastery (portfolios, presentations, projects)
-- Alternative assessment formats
-- Modified rubrics with clear success criteria
-
-### **Expression Methods**
-- Written, oral, visual, and digital product options
-- Creative alternatives to traditional assignments
-
-## **4. Learning Environment Optimization**
-### **Physical Space**
-- Seating arrangements and workspace modifications
-- Sensory considerations (lighting, noise, textures)
-- Organization systems and visual supports
-
-### **Social Environment**
-- Grouping strategies for optimal learning
-- Peer interaction structures
-- Communication supports
-
-## **5. Implementation Timeline**
-
-### **Week 1-2: Immediate Strategies**
-- Quick wins and essential accommodations
-- Initial data collection methods
-
-### **Weeks 3-6: Short-term Adaptations** 
-- Skill-building interventions
-- Progress monitoring systems
-
-### **Ongoing: Long-term Support**
-- Sustainable classroom modifications
-- Transition planning for future grades
-
-## **6. Progress Monitoring & Data Collection**
-- Specific metrics to track improvement
-- Data collection tools and schedules
-- When and how to adjust strategies
-
-## **7. Collaboration & Communication**
-- Parent/family engagement strategies
-- Coordination with support staff
-- Documentation requirements
-
-**Format Requirements:**
-- Use bullet points for easy scanning
-- Include specific examples for each strategy
-- Provide implementation timelines
-- List required materials and resources
-- Make all recommendations immediately actionable for classroom use`;
-    }
-  } else if (req.taskType === 'classroom_management') {
-    // Build context from existing concerns
-    let concernsContext = "";
-    if (req.existingConcerns && req.existingConcerns.length > 0) {
-      concernsContext = `\n\n**EXISTING STUDENT CONCERNS IN YOUR CLASSROOM:**\n`;
-      req.existingConcerns.forEach((concern, index) => {
-        concernsContext += `${index + 1}. Student: ${concern.studentFirstName} ${concern.studentLastInitial} (Grade ${concern.grade})\n`;
-        concernsContext += `   Concerns: ${Array.isArray(concern.concernTypes) ? concern.concernTypes.join(', ') : 'Various'}\n`;
-        concernsContext += `   Description: ${concern.description || 'No specific description'}\n`;
-        concernsContext += `   Severity: ${concern.severityLevel || 'Not specified'}\n\n`;
-      });
-    } else {
-      concernsContext = "\n\n**NOTE:** No previous individual student concerns found in your records. This analysis will focus on general classroom management strategies based on your description.";
-    }
-
-    prompt = `You are an experienced classroom management specialist and educational consultant. You're working with a fellow educator to develop comprehensive, evidence-based classroom-wide strategies that address the overall learning environment and student dynamics.
-
-**TEACHER INFORMATION:**
-- Position: ${req.teacherPosition}
-- Classroom/Location: ${req.location}
-- Grade Level: ${req.grade || 'Mixed/Various'}
-
-**CLASSROOM CHALLENGES DESCRIBED:**
-${req.concernDescription}
-
-${concernsContext}
-
-**YOUR TASK:** Provide comprehensive, evidence-based whole-class management strategies that create a positive learning environment for all students while addressing the specific challenges described. Focus on proactive, inclusive approaches that benefit the entire classroom community.
-
-## **1. CLASSROOM ENVIRONMENT ANALYSIS**
-- Analyze the described challenges in context of overall classroom dynamics
-- Identify environmental factors contributing to the concerns
-- Assess how individual student needs impact the whole-class experience
-
-## **2. PROACTIVE CLASSROOM MANAGEMENT STRATEGIES**
-### Physical Environment Modifications
-- Layout and seating arrangements that support learning
-- Visual supports and organizational systems
-- Sensory considerations for diverse learners
-
-### Instructional Approaches
-- Teaching strategies that engage all learners
-- Differentiated instruction methods for mixed-ability groups
-- Universal Design for Learning (UDL) principles
-
-### Behavioral Support Systems
-- Positive behavior intervention and support (PBIS) framework
-- Clear expectations and consistent routines
-- Recognition and reward systems that motivate all students
-
-## **3. WHOLE-CLASS INTERVENTION STRATEGIES**
-### Social-Emotional Learning Integration
-- Building classroom community and belonging
-- Conflict resolution and peer mediation
-- Emotional regulation strategies for the group
-
-### Academic Support Systems
-- Collaborative learning structures
-- Peer support and mentoring programs
-- Flexible grouping strategies
-
-### Communication and Engagement
-- Family and community involvement strategies
-- Student voice and choice in learning
-- Regular feedback and reflection systems
-
-## **4. IMPLEMENTATION ROADMAP**
-### Week 1-2: Foundation Setting
-- Establish new routines and expectations
-- Introduce environmental changes
-- Begin community-building activities
-
-### Week 3-6: Strategy Integration
-- Implement academic support systems
-- Develop peer relationships and collaboration
-- Monitor and adjust approaches
-
-### Ongoing: Sustainable Practices
-- Long-term classroom culture development
-- Continuous improvement and reflection
-- Family and community partnership building
-
-## **5. PROGRESS MONITORING & ASSESSMENT**
-- Whole-class data collection methods
-- Individual student progress within group context
-- Regular strategy evaluation and adjustment protocols
-
-## **6. COLLABORATION & SUPPORT**
-- Working with support staff and specialists
-- Parent and family engagement strategies
-- Professional development and resource needs
-
-**FORMATTING REQUIREMENTS**: 
-- Provide specific, actionable strategies with clear implementation steps
-- Include timelines and required materials
-- Ensure all recommendations are immediately usable in the classroom
-- Focus on evidence-based practices with research support
-- Balance individual needs with whole-class management
-
-**IMPORTANT**: These recommendations should create an inclusive environment that benefits ALL students while addressing the specific challenges described. Focus on building a positive classroom culture that prevents issues while supporting diverse learning needs.`;
-  } else {
-    prompt =
-    `You are a supportive teaching colleague speaking with a fellow professional educator. You recognize that this teacher brings valuable experience, knowledge, and insight to their classroom. Your role is to offer ideas and suggestions that build on their existing expertise.
-
-**VOICE & TONE**: Write as a respectful peer who acknowledges the teacher's professional judgment and existing skills. Use phrases like "Building on what you already know," "You likely have experience with...", "Given your professional expertise," "As you've probably noticed," and "Your classroom knowledge suggests..." Recognize their competence while offering additional tools for their professional toolkit.
-
-**PROFESSIONAL APPROACH**: Present strategies as additions to their existing repertoire, not replacements. Honor their experience by saying things like "You may already be doing some of this" or "This might complement your current approach." Frame suggestions as collaborative ideas between professionals, not instructions to follow.
-
-## Student Profile Analysis:
-- **Name**: ${req.studentFirstName} ${req.studentLastInitial}
-- **Grade Level**: ${req.grade}
-- **Teacher**: ${req.teacherPosition}
-- **Incident Date**: ${req.incidentDate}
-- **Location**: ${req.location}
-- **Primary Concerns**: ${concernTypesText}
-- **Severity Level**: ${req.severityLevel}
-- **Previous Interventions**: ${actionsTakenText}
-- **Learning Profile**: ${differentiationText}
-- **Detailed Description**: ${req.concernDescription}${assessmentContent ? `\n\n**UPLOADED ASSESSMENT DATA ANALYSIS REQUIRED**:\n${assessmentContent}` : ''}${lessonPlanContent ? `\n\n**LESSON PLAN DIFFERENTIATION REQUIRED**:\n${lessonPlanContent}` : ''}
-
-## COMPREHENSIVE INTERVENTION REQUIREMENTS:
-
-### Evidence-Based Foundation
-- Cite specific research studies and educational frameworks (e.g., RTI, PBIS, UDL, trauma-informed practices)
-- Reference proven intervention programs and methodologies
-- Include success metrics and expected outcomes
-
-### Detailed Implementation Specifications
-- Provide step-by-step implementation guides with exact scripts and materials
-- Include timing, frequency, and duration for each strategy
-- Specify required materials, resources, and preparation time
-- Offer multiple differentiation options for varying ability levels
-
-### Assessment Integration Analysis
-${assessmentContent ? `**CRITICAL**: Analyze the provided assessment data thoroughly. Identify specific strengths, weaknesses, learning patterns, and intervention targets. Use this data to create targeted interventions that address documented needs rather than generic strategies.` : ''}
-
-### Lesson Plan Adaptation Requirements
-${lessonPlanContent ? `**CRITICAL**: Provide specific, detailed adaptations to the uploaded lesson plan. Include modified objectives, alternative activities, assessment accommodations, and environmental considerations. Make the lesson accessible while maintaining academic rigor.` : ''}
-
-### Differentiation Specifications
-For the identified learning profile (${differentiationText}), provide:
-- Sensory and cognitive processing accommodations
-- Language and communication supports
-- Social-emotional regulation strategies
-- Academic skill scaffolding techniques
-- Technology integration recommendations
-
-## REQUIRED RESPONSE FORMAT:
-
-### **1. Comprehensive Student Analysis**
-- Detailed analysis of concerns, learning profile, and contributing factors
-- Connection between assessment data and intervention targets
-- Risk factors and protective factors identification
-
-### **2. Evidence-Based Intervention Framework**
-- Primary intervention approach with research citations
-- Theoretical foundation (behavioral, cognitive, academic)
-- Expected outcomes and success indicators
-
-### **3. Immediate Action Plan (Days 1-14)**
-**Strategy 1: [Specific Strategy Name]**
-- **Research Base**: [Citation/Framework]
-- **Materials Needed**: [Detailed list]
-- **Implementation Steps**:
-  1. [Detailed step with timing]
-  2. [Detailed step with timing]
-  3. [Detailed step with timing]
-- **Data Collection**: [Specific methods and tools]
-- **Success Criteria**: [Measurable outcomes]
-
-**Strategy 2: [Additional Strategy if needed]**
-[Same detailed format]
-
-### **4. Short-Term Intensive Support (Weeks 3-8)**
-**Primary Focus Area: [Specific skill/behavior]**
-- **Intervention Program**: [Specific program name if applicable]
-- **Frequency**: [Exact schedule]
-- **Progress Monitoring**: [Weekly data collection methods]
-- **Adaptation Protocol**: [When and how to modify]
-
-### **5. Long-Term Skill Development (Weeks 9-16)**
-**Maintenance and Generalization Strategies**
-- **Skill Transfer Plans**: [Cross-setting implementation]
-- **Independence Building**: [Scaffolding reduction plan]
-- **Family Engagement**: [Home-school collaboration strategies]
-
-### **6. Comprehensive Progress Monitoring System**
-- **Daily Data**: [Quick check methods]
-- **Weekly Assessment**: [Formal measurement tools]
-- **Monthly Review**: [Comprehensive evaluation criteria]
-- **Decision Points**: [When to continue, modify, or escalate]
-
-### **7. Collaboration and Communication Plan**
-- **Team Members**: [Who needs to be involved]
-- **Meeting Schedule**: [Regular check-in frequency]
-- **Documentation Requirements**: [Record-keeping protocols]
-- **Parent Communication**: [Update frequency and methods]
-
-### **8. Escalation and Support Protocols**
-- **Warning Signs**: [Specific behavioral/academic indicators]
-- **Immediate Response**: [Crisis intervention steps]
-- **Referral Criteria**: [When to involve specialists]
-- **Emergency Contacts**: [Who to call and when]
-
-### **9. Resource Recommendations**
-- **Professional Development**: [Suggested training for teacher]
-- **Educational Materials**: [Specific programs, books, websites]
-- **Technology Tools**: [Apps, software, assistive devices]
-- **Community Resources**: [External support services]
-
-**FORMATTING REQUIREMENTS**: Use detailed bullet points, include specific timeframes, provide exact implementation steps, and ensure all recommendations are immediately actionable for classroom teachers.`;
+  const promptTemplate = await resolvePromptTemplate(getRecommendationTemplateKey(req, lessonPlanContent), req.schoolName);
+  console.log(`🧩 Using prompt template: ${promptTemplate.version}`);
+  let prompt = renderPromptTemplate(promptTemplate.body, buildRecommendationPromptVariables(req, assessmentContent, lessonPlanContent));
+
+  // Ground the plan in the school's curated library entries that fit this concern, preferring the
+  // ones whose outcomes have been good at this school
+  const effectiveness = await getStrategyEffectiveness({ schoolName: req.schoolName, concernTypes: req.concernTypes });
+  const libraryEntries = await findLibraryMatches({
+    concernTypes: req.concernTypes,
+    grade: req.grade,
+    taskType: req.taskType,
+    effectiveness: entry => effectivenessScore(effectiveness, { libraryEntryId: entry.id, title: entry.title }),
+  });
+  if (libraryEntries.length > 0) {
+    console.log(`📚 Grounding recommendations in ${libraryEntries.length} library intervention(s)`);
+    prompt += buildLibraryPromptSection(libraryEntries);
   }
 
   // Add language instruction to the prompt if specified
@@ -621,13 +402,9 @@ For the identified learning profile (${differentiationText}), provide:
   }
 
   try {
-    console.log(`🌐 Making DeepSeek API call to: ${apiClient.baseURL}/chat/completions`);
-    console.log(`🔑 Using API key: ${apiClient.apiKey.substring(0, 10)}...`);
+    console.log(`🌐 Making AI call with ${apiClients.length} key(s) in pool, primary: ${apiClients[0].label} (model: ${apiClients[0].model})`);
     console.log(`🌍 Target language: ${targetLanguage || 'English (default)'}`);
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-    
     const systemPrompt = targetLanguage 
       ? `You are a respectful colleague speaking with a professional educator. You are fluent in ${targetLanguage} and will provide all responses in ${targetLanguage}. 
 
@@ -656,128 +433,100 @@ IF ANY SAFETY CONCERNS ARE DETECTED:
 
 **VOICE**: Acknowledge the teacher's existing expertise and professional knowledge. Use phrases that honor their experience like 'building on your classroom insights,' 'adding to your professional toolkit,' 'you likely already know,' and 'your experience suggests.' **APPROACH**: Present ideas as collaborative suggestions between professionals, not instructions. Recognize their competence while offering additional resources and strategies they can consider integrating into their practice.`;
     
-    const response = await fetch(`${apiClient.baseURL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiClient.apiKey}`
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          {
-            role: "system",
-            content: systemPrompt
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.7
-      }),
-      signal: controller.signal
-    });
+    const completion = await generateStructuredRecommendations(apiClients, {
+      systemPrompt,
+      userPrompt: prompt,
+      maxTokens: 4000,
+      temperature: 0.7,
+      usageContext: { taskType: req.taskType || 'tier2_intervention', schoolName: req.schoolName, userId: req.userId }
+    }, getDefaultTimeline(req.taskType), handlers);
     
-    clearTimeout(timeoutId);
-    console.log(`✅ DeepSeek API response status: ${response.status}`);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`DeepSeek API error: ${response.status} - ${errorText}`);
-      throw new Error(`DeepSeek API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    let recommendations = data.choices[0]?.message?.content || 'Unable to generate recommendations at this time.';
-    
-    // Sanitize the response to prevent database encoding errors
-    recommendations = sanitizeForDatabase(recommendations);
+    console.log(`✅ ${completion.client.label} API response received (structured: ${completion.isStructured})`);
+
+    // Strategies that have worked at this school for similar concerns come first; sanitize the
+    // response to prevent database encoding errors
+    const cited = matchLibraryCitations(completion.strategies, libraryEntries);
+    const strategies = rankStrategiesByEffectiveness(cited, effectiveness).map(strategy => ({
+      ...strategy,
+      title: sanitizeForDatabase(strategy.title),
+      description: sanitizeForDatabase(strategy.description),
+      steps: strategy.steps.map(sanitizeForDatabase),
+      progressMeasures: strategy.progressMeasures.map(sanitizeForDatabase),
+      successCriteria: strategy.successCriteria.map(sanitizeForDatabase),
+    }));
 
     // Check for safety concerns and add critical safety alert if needed
     if (safetyCheck.isUrgent) {
       console.log('🚨 CRITICAL SAFETY ALERT! Adding safety warning...');
-      recommendations = generateUrgentSafeguardMessage(safetyCheck.triggeredKeywords) + '\n\n' + recommendations;
     } else if (req.severityLevel === 'urgent') {
       console.log('🚨 URGENT DETECTED! Adding urgent case message...');
-      recommendations += `\n\n### **🚨 URGENT CASE - IMMEDIATE ACTION REQUIRED**
-
-**Share this case with Student Support immediately:**
-* Forward this concern and intervention plan to your school's student support team
-* Schedule urgent consultation with counselor, social worker, or special education coordinator  
-* Document all interventions and student responses for the support team
-* Consider immediate safety protocols if student welfare is at risk
-* Escalate to administration if no improvement within 48-72 hours
-
-**Contact your school's student support department today to ensure this student receives comprehensive, coordinated care.**`;
-      console.log('🚨 Urgent message appended. Final recommendations length:', recommendations.length);
     } else {
       console.log('🚨 No safety concerns or urgency detected');
     }
+    const recommendations = addCaseNotices(
+      sanitizeForDatabase(completion.recommendations) || 'Unable to generate recommendations at this time.',
+      req.severityLevel,
+      safetyCheck,
+      safeguardingConfig
+    );
+    const overview = addCaseNotices(sanitizeForDatabase(completion.overview), req.severityLevel, safetyCheck, safeguardingConfig);
 
     const disclaimer = "⚠️ IMPORTANT DISCLAIMER: These AI-generated recommendations are for informational purposes only and should not replace professional educational assessment. Please refer this student to your school's student support department for proper evaluation and vetting. All AI-generated suggestions must be reviewed and approved by qualified educational professionals before implementation.";
 
     return {
       recommendations,
-      disclaimer
+      disclaimer,
+      overview,
+      strategies,
+      promptTemplateId: promptTemplate.templateId,
+      promptVersion: promptTemplate.version,
+      safeguarding: safetyCheck
     };
   } catch (error) {
-    console.error('❌ Error calling DeepSeek API:', error);
-    console.error('❌ Error details:', error instanceof Error ? error.message : 'Unknown error');
-    
-    if (error instanceof Error) {
-      if (error.message.includes('401')) {
-        console.log('🚫 Authentication error - Invalid API key');
-        // Fall back to mock data instead of throwing error
-        let mockRecommendations = generateMockRecommendations(req, assessmentContent, lessonPlanContent);
-        
-        // Add safety alert if safety concerns detected
-        if (safetyCheck.isUrgent) {
-          mockRecommendations = generateUrgentSafeguardMessage(safetyCheck.triggeredKeywords) + '\n\n' + mockRecommendations;
-        } else if (req.severityLevel === 'urgent') {
-          mockRecommendations += `\n\n### **🚨 URGENT CASE - IMMEDIATE ACTION REQUIRED**
-
-**Share this case with Student Support immediately:**
-* Forward this concern and intervention plan to your school's student support team
-* Schedule urgent consultation with counselor, social worker, or special education coordinator  
-* Document all interventions and student responses for the support team
-* Consider immediate safety protocols if student welfare is at risk
-* Escalate to administration if no improvement within 48-72 hours
-
-**Contact your school's student support department today to ensure this student receives comprehensive, coordinated care.**`;
-        }
-        
-        const disclaimer = "⚠️ IMPORTANT DISCLAIMER: These AI-generated recommendations are for informational purposes only and should not replace professional educational assessment. Please refer this student to your school's student support department for proper evaluation and vetting. All AI-generated suggestions must be reviewed and approved by qualified educational professionals before implementation. (API authentication failed, returning mock data)";
-        return { recommendations: mockRecommendations, disclaimer };
-      }
-      if (error.name === 'AbortError') {
-        console.log('⏰ API request timed out after 30 seconds');
-      }
-    }
-    
-    console.log('🔄 API call failed, falling back to mock data');
-    let mockRecommendations = generateMockRecommendations(req, assessmentContent, lessonPlanContent);
-    
-    // Add urgent case message for mock data too
-    if (req.severityLevel === 'urgent') {
-      mockRecommendations += `\n\n### **🚨 URGENT CASE - IMMEDIATE ACTION REQUIRED**
-
-**Share this case with Student Support immediately:**
-* Forward this concern and intervention plan to your school's student support team
-* Schedule urgent consultation with counselor, social worker, or special education coordinator  
-* Document all interventions and student responses for the support team
-* Consider immediate safety protocols if student welfare is at risk
-* Escalate to administration if no improvement within 48-72 hours
-
-**Contact your school's student support department today to ensure this student receives comprehensive, coordinated care.**`;
-    }
-    
-    const disclaimer = "⚠️ IMPORTANT DISCLAIMER: These AI-generated recommendations are for informational purposes only and should not replace professional educational assessment. Please refer this student to your school's student support department for proper evaluation and vetting. All AI-generated suggestions must be reviewed and approved by qualified educational professionals before implementation. (API service unavailable, returning mock data)";
-    return { recommendations: mockRecommendations, disclaimer };
+    console.error('❌ Error calling AI provider:', error);
+    const fallbackReason = getFallbackReason(error);
+    console.log(`🔄 API call failed (${fallbackReason}), falling back to mock data`);
+    return buildFallbackRecommendations(req, assessmentContent, lessonPlanContent, safetyCheck, safeguardingConfig, fallbackReason, handlers);
   }
 }
 
+const FALLBACK_DISCLAIMER_NOTES: Record<AIFallbackReason, string> = {
+  no_api_key: 'No API key configured in admin interface, returning mock data',
+  timeout: 'AI service did not respond in time, returning mock data',
+  circuit_open: 'AI service temporarily unavailable after repeated failures, returning mock data',
+  auth_failed: 'API authentication failed, returning mock data',
+  provider_error: 'API service unavailable, returning mock data',
+  empty_response: 'AI service returned an empty response, returning mock data',
+};
+
+// Built-in template plan used when no model response is available; marked with the reason so teachers are told
+function buildFallbackRecommendations(
+  req: GenerateRecommendationsRequest,
+  assessmentContent: string,
+  lessonPlanContent: string,
+  safetyCheck: UrgentSafeguardResult,
+  safeguardingConfig: SchoolSafeguardingConfig | null,
+  fallbackReason: AIFallbackReason,
+  handlers?: RecommendationStreamHandlers
+): GenerateRecommendationsResponse {
+  const mockRecommendations = sanitizeForDatabase(generateMockRecommendations(req, assessmentContent, lessonPlanContent));
+  const structured = extractStrategiesFromMarkdown(mockRecommendations, getDefaultTimeline(req.taskType));
+  streamStructuredPlan(handlers, structured);
+
+  const disclaimer = `⚠️ IMPORTANT DISCLAIMER: These AI-generated recommendations are for informational purposes only and should not replace professional educational assessment. Please refer this student to your school's student support department for proper evaluation and vetting. All AI-generated suggestions must be reviewed and approved by qualified educational professionals before implementation. (${FALLBACK_DISCLAIMER_NOTES[fallbackReason]})`;
+  return {
+    // Safety alerts and urgent-case notices apply to template plans too
+    recommendations: addCaseNotices(mockRecommendations, req.severityLevel, safetyCheck, safeguardingConfig),
+    disclaimer,
+    overview: addCaseNotices(structured.overview, req.severityLevel, safetyCheck, safeguardingConfig),
+    strategies: structured.strategies,
+    promptTemplateId: null,
+    promptVersion: MOCK_PROMPT_VERSION,
+    fallbackReason,
+    safeguarding: safetyCheck,
+  };
+}
+
 export interface FollowUpAssistanceRequest {
   originalRecommendations: string;
   specificQuestion: string;
@@ -787,146 +536,393 @@ export interface FollowUpAssistanceRequest {
   concernTypes: string[];
   severityLevel: string;
   language?: string;
+  schoolName?: string;
+  userId?: string;
 }
 
 export interface FollowUpAssistanceResponse {
   assistance: string;
   disclaimer: string;
+  fallbackReason?: AIFallbackReason; // Set when the answer is built-in template content
+  safeguarding?: UrgentSafeguardResult; // Safeguarding classification of the question
 }
 
+/**
+ * Answers a teacher's follow-up question. When onDelta is given the answer is streamed:
+ * any safety alert is sent first, followed by the guidance text as the provider produces it.
+ */
 export async function followUpAssistance(
-  req: FollowUpAssistanceRequest
+  req: FollowUpAssistanceRequest,
+  onDelta?: (text: string) => void
+): Promise<FollowUpAssistanceResponse> {
+  const redaction = await createRedactionSessionForSchool(req.schoolName, [
+    { value: req.studentFirstName, label: 'STUDENT' },
+  ]);
+  const restorer = onDelta ? redaction.createStreamRestorer(onDelta) : undefined;
+
+  const response = await followUpAssistanceWithProvider({
+    ...req,
+    studentFirstName: redaction.redact(req.studentFirstName),
+    originalRecommendations: redaction.redact(req.originalRecommendations),
+    specificQuestion: redaction.redact(req.specificQuestion),
+  }, restorer?.push);
+  restorer?.flush();
+  await recordRedactions(redaction, { source: 'follow_up', userId: req.userId });
+
+  return { ...response, assistance: redaction.restore(response.assistance) };
+}
+
+function buildFollowUpPromptVariables(req: FollowUpAssistanceRequest): Record<string, string> {
+  return {
+    studentFirstName: req.studentFirstName,
+    studentLastInitial: req.studentLastInitial,
+    grade: req.grade,
+    concernTypes: req.concernTypes.length > 0 ? req.concernTypes.join(', ') : 'Not specified',
+    severityLevel: req.severityLevel,
+    originalRecommendations: req.originalRecommendations,
+    specificQuestion: req.specificQuestion,
+  };
+}
+
+async function followUpAssistanceWithProvider(
+  req: FollowUpAssistanceRequest,
+  onDelta?: (text: string) => void
 ): Promise<FollowUpAssistanceResponse> {
   // CRITICAL SAFETY DETECTION - Check for safety concerns in follow-up questions
-  const safetyCheck = detectUrgentKeywords(req.specificQuestion);
-  console.log("🚨 Follow-up safety check result:", safetyCheck);
+  const safeguardingConfig = await getSchoolSafeguardingConfig(req.schoolName);
+  const safetyCheck = await assessSafeguardingRisk(req.specificQuestion, {
+    schoolName: req.schoolName,
+    userId: req.userId,
+    extraKeywords: safeguardingConfig?.extraKeywords,
+  });
+  console.log("🚨 Follow-up safety check result:", safetyCheck.explanation);
+  
+  const safetyAlert = safetyCheck.isUrgent ? generateUrgentSafeguardMessage(safetyCheck, safeguardingConfig) + '\n\n' : '';
+  if (safetyAlert) {
+    onDelta?.(safetyAlert);
+  }
   
-  const apiClient = await getApiClient();
+  const apiClients = await getAIClients(req.schoolName);
   
-  if (!apiClient) {
+  if (apiClients.length === 0) {
     console.log("No active API key found in database, returning mock data.");
-    let mockAssistance = generateMockFollowUpAssistance(req);
-    
-    // Add safety alert for mock follow-up assistance if needed
-    if (safetyCheck.isUrgent) {
-      mockAssistance = generateUrgentSafeguardMessage(safetyCheck.triggeredKeywords) + '\n\n' + mockAssistance;
-    }
+    const mockAssistance = generateMockFollowUpAssistance(req);
+    onDelta?.(mockAssistance);
     
     const disclaimer = "";
-    return { assistance: mockAssistance, disclaimer };
+    // Add safety alert for mock follow-up assistance if needed
+    return { assistance: safetyAlert + mockAssistance, disclaimer, fallbackReason: 'no_api_key', safeguarding: safetyCheck };
   }
 
-  const concernTypesText = req.concernTypes.length > 0 
-    ? req.concernTypes.join(', ')
-    : 'Not specified';
-
   // Detect if Chinese translation is requested
   const hasChinese = /chinese|中文|中国|翻译|中国人|中国话|中文版|chinese|translate.*chinese|write.*chinese|explain.*chinese/i.test(req.specificQuestion);
   const targetLanguage = hasChinese ? 'Chinese' : req.language;
   
-  let prompt = `You are a highly trained educational intervention specialist with expertise in implementation science and evidence-based classroom practices. **IMPORTANT: Provide direct, professional guidance without conversational phrases. Start immediately with implementation guidance.** Provide detailed, research-backed implementation guidance for Tier 2 interventions with specific steps, materials, troubleshooting, and progress monitoring strategies.`;
+  const promptTemplate = await resolvePromptTemplate('follow_up', req.schoolName);
+  console.log(`🧩 Using prompt template: ${promptTemplate.version}`);
+  let prompt = renderPromptTemplate(promptTemplate.body, buildFollowUpPromptVariables(req));
 
   // Add language instruction if Chinese is requested
   if (targetLanguage === 'Chinese' || hasChinese) {
-    prompt += `\n\n**IMPORTANT LANGUAGE REQUIREMENT: The user is requesting a Chinese translation or explanation. Please provide your entire response in simplified Chinese (中文). All text, headers, implementation steps, and materials should be written in Chinese. Use culturally appropriate examples for Chinese-speaking communities.**\n\n`;
+    prompt += `\n\n**IMPORTANT LANGUAGE REQUIREMENT: The user is requesting a Chinese translation or explanation. Please provide your entire response in simplified Chinese (中文). All text, headers, implementation steps, and materials should be written in Chinese. Use culturally appropriate examples for Chinese-speaking communities.**`;
   }
 
-  prompt += `
-
-Context:
-- Student: ${req.studentFirstName} ${req.studentLastInitial}.
-- Grade: ${req.grade}
-- Concern Types: ${concernTypesText}
-- Severity Level: ${req.severityLevel}
-
-Original AI-Generated Recommendations:
-${req.originalRecommendations}
-
-Teacher's Specific Question/Request for Additional Assistance:
-${req.specificQuestion}
-
-Please provide detailed, practical guidance to help the teacher implement the interventions effectively. Your response should:
-
-1. **Direct Answer** - Address the specific question or concern raised
-2. **Implementation Steps** - Provide clear, step-by-step guidance
-3. **Practical Tips** - Include classroom management strategies and best practices
-4. **Resources Needed** - Specify any materials, tools, or support required
-5. **Timeline Considerations** - Suggest realistic timeframes for implementation
-6. **Troubleshooting** - Anticipate potential challenges and provide solutions
-7. **Progress Monitoring** - Explain how to track effectiveness and make adjustments
-8. **When to Seek Additional Support** - Clear indicators for escalating to specialists
-
-Focus on actionable advice that a classroom teacher can realistically implement. Use professional educational terminology while keeping explanations clear and practical. Structure your response with clear headings and bullet points for easy reading.`;
-
   try {
-    console.log('🤝 Making DeepSeek API call for follow-up assistance');
+    console.log(`🤝 Making ${apiClients[0].label} API call for follow-up assistance`);
     
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
+    let streamedText = false;
     
-    const response = await fetch(`${apiClient.baseURL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiClient.apiKey}`
-      },
-      body: JSON.stringify({
-        model: "deepseek-chat",
-        messages: [
-          {
-            role: "system",
-            content: targetLanguage === 'Chinese' || hasChinese 
-              ? "You are a highly trained educational intervention specialist with expertise in implementation science and evidence-based classroom practices. You are fluent in Chinese and will provide all responses in simplified Chinese (中文). **IMPORTANT: Provide direct, professional guidance without conversational phrases. Start immediately with implementation guidance.** Provide comprehensive, research-backed implementation guidance with specific procedural steps, materials lists, data collection methods, and troubleshooting strategies. Base all recommendations on proven implementation research and successful classroom practices. All content must be in Chinese."
-              : "You are a highly trained educational intervention specialist with expertise in implementation science and evidence-based classroom practices. **IMPORTANT: Provide direct, professional guidance without conversational phrases like 'Of course' or 'I will help'. Start immediately with implementation guidance.** Provide comprehensive, research-backed implementation guidance with specific procedural steps, materials lists, data collection methods, and troubleshooting strategies. Base all recommendations on proven implementation research and successful classroom practices."
-          },
-          {
-            role: "user",
-            content: prompt
-          }
-        ],
-        max_tokens: 4000,
-        temperature: 0.7
-      }),
-      signal: controller.signal
-    });
+    const completionRequest = {
+      systemPrompt: targetLanguage === 'Chinese' || hasChinese 
+        ? "You are a highly trained educational intervention specialist with expertise in implementation science and evidence-based classroom practices. You are fluent in Chinese and will provide all responses in simplified Chinese (中文). **IMPORTANT: Provide direct, professional guidance without conversational phrases. Start immediately with implementation guidance.** Provide comprehensive, research-backed implementation guidance with specific procedural steps, materials lists, data collection methods, and troubleshooting strategies. Base all recommendations on proven implementation research and successful classroom practices. All content must be in Chinese."
+        : "You are a highly trained educational intervention specialist with expertise in implementation science and evidence-based classroom practices. **IMPORTANT: Provide direct, professional guidance without conversational phrases like 'Of course' or 'I will help'. Start immediately with implementation guidance.** Provide comprehensive, research-backed implementation guidance with specific procedural steps, materials lists, data collection methods, and troubleshooting strategies. Base all recommendations on proven implementation research and successful classroom practices.",
+      userPrompt: prompt,
+      maxTokens: 4000,
+      temperature: 0.7,
+      usageContext: { taskType: 'follow_up', schoolName: req.schoolName, userId: req.userId }
+    };
     
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error(`DeepSeek API error: ${response.status} - ${errorText}`);
-      throw new Error(`DeepSeek API error: ${response.status}`);
+    const completion = onDelta
+      ? await streamCompletionWithFailover(apiClients, completionRequest, (text) => {
+          streamedText = true;
+          onDelta(text);
+        })
+      : await createCompletionWithFailover(apiClients, completionRequest);
+
+    let assistance = completion.content || 'Unable to generate follow-up assistance at this time.';
+    if (!streamedText && onDelta) {
+      onDelta(assistance);
     }
 
-    const data = await response.json();
-    let assistance = data.choices[0]?.message?.content || 'Unable to generate follow-up assistance at this time.';
-
     // Add safety alert if safety concerns detected in follow-up question
     if (safetyCheck.isUrgent) {
       console.log('🚨 CRITICAL SAFETY ALERT in follow-up! Adding safety warning...');
-      assistance = generateUrgentSafeguardMessage(safetyCheck.triggeredKeywords) + '\n\n' + assistance;
+      assistance = safetyAlert + assistance;
     }
 
     const disclaimer = "";
 
     return {
       assistance,
-      disclaimer
+      disclaimer,
+      safeguarding: safetyCheck
     };
   } catch (error) {
-    console.error('❌ Error calling DeepSeek API for follow-up assistance:', error);
+    console.error('❌ Error calling AI provider for follow-up assistance:', error);
     
-    console.log('🔄 Follow-up assistance API failed, falling back to mock data');
-    let mockAssistance = generateMockFollowUpAssistance(req);
-    
-    // Add safety alert for mock follow-up assistance if needed
-    if (safetyCheck.isUrgent) {
-      mockAssistance = generateUrgentSafeguardMessage(safetyCheck.triggeredKeywords) + '\n\n' + mockAssistance;
-    }
+    const fallbackReason = getFallbackReason(error);
+    console.log(`🔄 Follow-up assistance API failed (${fallbackReason}), falling back to mock data`);
+    const mockAssistance = generateMockFollowUpAssistance(req);
+    onDelta?.(mockAssistance);
     
     const disclaimer = "";
-    return { assistance: mockAssistance, disclaimer };
+    // Add safety alert for mock follow-up assistance if needed
+    return { assistance: safetyAlert + mockAssistance, disclaimer, fallbackReason, safeguarding: safetyCheck };
+  }
+}
+
+export interface PlanAdjustmentRequest {
+  studentFirstName: string;
+  studentLastInitial: string;
+  grade: string;
+  concernTypes: string[];
+  severityLevel: string;
+  plan: InterventionStrategy; // The current version
+  reason: string; // What the teacher says isn't working
+  progressNotes: { date: string; outcome: string | null; note: string; nextSteps: string | null }[]; // Oldest first
+  goals: {
+    metric: string;
+    unit: string | null;
+    baseline: number;
+    target: number;
+    targetDate: string;
+    status: string;
+    dataPoints: { date: string; value: number }[];
+  }[];
+  fidelityPercent: number | null; // Average share of steps carried out; null when not tracked
+  schoolName?: string;
+  userId?: string;
+}
+
+export interface PlanAdjustmentResponse {
+  strategy: InterventionStrategy;
+  changeSummary: string;
+  promptVersion: string;
+  safeguarding?: UrgentSafeguardResult; // Safeguarding classification of the teacher's reason
+}
+
+// Recorded on revisions; the adjustment prompt isn't an editable template
+export const PLAN_ADJUSTMENT_PROMPT_VERSION = 'plan_adjustment built-in';
+
+/**
+ * Thrown when no model response could be obtained. Unlike new plans there is no template fallback:
+ * a generic plan isn't a revision of this one, so nothing is saved and nothing is counted.
+ */
+export class PlanAdjustmentUnavailableError extends Error {
+  constructor(public fallbackReason: AIFallbackReason) {
+    super('The AI service is unavailable, so the plan could not be adjusted. Please try again later.');
+    this.name = 'PlanAdjustmentUnavailableError';
+  }
+}
+
+function formatPlanForPrompt(plan: InterventionStrategy): string {
+  const list = (items: string[]) => items.length > 0 ? items.map((item, index) => `${index + 1}. ${item}`).join('\n') : 'None recorded';
+  return `**Title:** ${plan.title}
+**Description:**
+${plan.description}
+
+**Steps:**
+${list(plan.steps)}
+
+**Timeline:** ${plan.timeline || 'Not specified'}
+
+**Progress measures:**
+${list(plan.progressMeasures)}
+
+**Success criteria:**
+${list(plan.successCriteria)}`;
+}
+
+function buildPlanAdjustmentPrompt(req: PlanAdjustmentRequest): string {
+  const notes = req.progressNotes.length > 0
+    ? req.progressNotes.map(note => `- ${note.date}${note.outcome ? ` [${note.outcome}]` : ''}: ${note.note}${note.nextSteps ? ` (Planned next steps: ${note.nextSteps})` : ''}`).join('\n')
+    : 'No progress notes recorded.';
+  const goals = req.goals.length > 0
+    ? req.goals.map(goal => {
+        const unit = goal.unit ? ` ${goal.unit}` : '';
+        const points = goal.dataPoints.length > 0 ? goal.dataPoints.map(point => `${point.date}: ${point.value}${unit}`).join(', ') : 'no data points yet';
+        return `- ${goal.metric}: baseline ${goal.baseline}${unit}, target ${goal.target}${unit} by ${goal.targetDate} (${goal.status.replace(/_/g, ' ')}). Data: ${points}`;
+      }).join('\n')
+    : 'No measurable goals set.';
+  const fidelity = req.fidelityPercent === null
+    ? 'Not tracked.'
+    : `On average ${req.fidelityPercent}% of the plan's steps were carried out in each tracked period.`;
+
+  return `A teacher is using the intervention plan below for ${req.studentFirstName} ${req.studentLastInitial}. (Grade ${req.grade}; concern types: ${req.concernTypes.length > 0 ? req.concernTypes.join(', ') : 'Not specified'}; severity: ${req.severityLevel}). The plan needs adjusting.
+
+**CURRENT PLAN**
+${formatPlanForPrompt(req.plan)}
+
+**WHY THE TEACHER WANTS TO ADJUST IT**
+${req.reason}
+
+**PROGRESS NOTES** (oldest first)
+${notes}
+
+**GOAL DATA**
+${goals}
+
+**IMPLEMENTATION FIDELITY**
+${fidelity}
+
+**YOUR TASK:** Write a revised version of this plan. Keep the parts the notes and data show are working, and change or replace the parts that aren't. If fidelity is low, make the plan easier to carry out rather than more intensive. Keep the same student and concern focus; this is a revision, not a new plan.
+
+In "overview", write a short markdown explanation of what you changed and why, referring to the specific notes and data above. Return exactly one strategy in "strategies": the complete revised plan, with every step, progress measure and success criterion it needs (not just the changes). This overrides the 2-6 strategies rule below.`;
+}
+
+/**
+ * Revises one intervention plan from its progress notes, goal data and fidelity. Student names are
+ * redacted as for new plans; the teacher's reason is screened by the safeguarding classifier.
+ */
+export async function generatePlanAdjustment(req: PlanAdjustmentRequest): Promise<PlanAdjustmentResponse> {
+  const redaction = await createRedactionSessionForSchool(req.schoolName, [
+    { value: req.studentFirstName, label: 'STUDENT' },
+  ]);
+  const redactPlan = (plan: InterventionStrategy): InterventionStrategy => ({
+    title: redaction.redact(plan.title),
+    description: redaction.redact(plan.description),
+    steps: plan.steps.map(redaction.redact),
+    timeline: redaction.redact(plan.timeline),
+    progressMeasures: plan.progressMeasures.map(redaction.redact),
+    successCriteria: plan.successCriteria.map(redaction.redact),
+  });
+
+  const safeguardingConfig = await getSchoolSafeguardingConfig(req.schoolName);
+  const safetyCheck = await assessSafeguardingRisk(req.reason, {
+    schoolName: req.schoolName,
+    userId: req.userId,
+    extraKeywords: safeguardingConfig?.extraKeywords,
+  });
+  console.log("🚨 Plan adjustment safety check result:", safetyCheck.explanation);
+
+  const apiClients = await getAIClients(req.schoolName);
+  if (apiClients.length === 0) {
+    console.log("No active API key found in database, plan adjustment unavailable.");
+    throw new PlanAdjustmentUnavailableError('no_api_key');
+  }
+
+  const prompt = buildPlanAdjustmentPrompt({
+    ...req,
+    studentFirstName: redaction.redact(req.studentFirstName),
+    plan: redactPlan(req.plan),
+    reason: redaction.redact(req.reason),
+    progressNotes: req.progressNotes.map(note => ({
+      ...note,
+      note: redaction.redact(note.note),
+      nextSteps: note.nextSteps ? redaction.redact(note.nextSteps) : note.nextSteps,
+    })),
+    goals: req.goals.map(goal => ({ ...goal, metric: redaction.redact(goal.metric) })),
+  });
+
+  let completion;
+  try {
+    console.log(`🔁 Making ${apiClients[0].label} API call to adjust plan "${req.plan.title}"`);
+    completion = await generateStructuredRecommendations(apiClients, {
+      systemPrompt: "You are a respectful colleague and educational intervention specialist helping a professional educator revise an intervention plan that isn't working as hoped. Base every change on the progress data you are given and on evidence-based practice. Keep the teacher's knowledge of the student at the centre.",
+      userPrompt: prompt,
+      maxTokens: 3000,
+      temperature: 0.5,
+      usageContext: { taskType: 'plan_adjustment', schoolName: req.schoolName, userId: req.userId }
+    }, req.plan.timeline || getDefaultTimeline());
+  } catch (error) {
+    console.error('❌ Error calling AI provider for plan adjustment:', error);
+    throw new PlanAdjustmentUnavailableError(getFallbackReason(error));
+  } finally {
+    await recordRedactions(redaction, { source: 'plan_adjustment', userId: req.userId });
+  }
+
+  // Text extraction can't tell a revised plan from the model's commentary, so only accept valid output
+  if (!completion.isStructured) {
+    console.warn('⚠️ Plan adjustment output could not be validated');
+    throw new PlanAdjustmentUnavailableError('empty_response');
+  }
+
+  const [revised] = completion.strategies;
+  const changeSummary = sanitizeForDatabase(redaction.restore(completion.overview)) || 'Revised plan based on the latest progress notes.';
+  return {
+    strategy: {
+      title: sanitizeForDatabase(redaction.restore(revised.title)),
+      description: sanitizeForDatabase(redaction.restore(revised.description)),
+      steps: revised.steps.map(step => sanitizeForDatabase(redaction.restore(step))),
+      timeline: sanitizeForDatabase(redaction.restore(revised.timeline)),
+      progressMeasures: revised.progressMeasures.map(measure => sanitizeForDatabase(redaction.restore(measure))),
+      successCriteria: revised.successCriteria.map(criterion => sanitizeForDatabase(redaction.restore(criterion))),
+    },
+    changeSummary: safetyCheck.isUrgent ? generateUrgentSafeguardMessage(safetyCheck, safeguardingConfig) + '\n\n' + changeSummary : changeSummary,
+    promptVersion: PLAN_ADJUSTMENT_PROMPT_VERSION,
+    safeguarding: safetyCheck,
+  };
+}
+
+// Sample case for the prompt template editor preview - no real student data
+const PREVIEW_RECOMMENDATION_REQUEST: GenerateRecommendationsRequest = {
+  studentFirstName: 'Sample',
+  studentLastInitial: 'S',
+  grade: '4',
+  teacherPosition: 'Classroom Teacher',
+  incidentDate: '2025-01-15',
+  location: 'Classroom',
+  concernTypes: ['Academic', 'Behavioral'],
+  concernDescription: 'The student finds it hard to start written tasks, often leaves their seat during independent work and needs instructions repeated.',
+  severityLevel: 'moderate',
+  actionsTaken: ['Spoke with student', 'Seating change'],
+  isStruggling: true,
+  existingConcerns: [],
+};
+
+const PREVIEW_LESSON_PLAN = 'Lesson: Fractions on a number line (45 minutes)\n1. Warm-up: halves and quarters with paper strips\n2. Teacher modelling on the board\n3. Independent worksheet of 12 questions\n4. Exit ticket';
+
+export interface PromptTemplatePreview {
+  renderedPrompt: string;
+  unknownPlaceholders: string[];
+  mockOutput: string; // What the mock generator returns for the same sample case
+}
+
+/**
+ * Renders a template against a sample case and runs the matching mock generator, so admins can
+ * check placeholders and the expected response shape without spending an AI request.
+ */
+export function previewPromptTemplate(key: PromptTemplateKey, body: string): PromptTemplatePreview {
+  const unknownPlaceholders = findUnknownPlaceholders(key, body);
+
+  if (key === 'follow_up') {
+    const followUpRequest: FollowUpAssistanceRequest = {
+      originalRecommendations: generateMockRecommendations(PREVIEW_RECOMMENDATION_REQUEST),
+      specificQuestion: 'How do I set up the check-in routine in my classroom?',
+      studentFirstName: PREVIEW_RECOMMENDATION_REQUEST.studentFirstName,
+      studentLastInitial: PREVIEW_RECOMMENDATION_REQUEST.studentLastInitial,
+      grade: PREVIEW_RECOMMENDATION_REQUEST.grade,
+      concernTypes: PREVIEW_RECOMMENDATION_REQUEST.concernTypes,
+      severityLevel: PREVIEW_RECOMMENDATION_REQUEST.severityLevel,
+    };
+    return {
+      renderedPrompt: renderPromptTemplate(body, buildFollowUpPromptVariables(followUpRequest)),
+      unknownPlaceholders,
+      mockOutput: generateMockFollowUpAssistance(followUpRequest),
+    };
   }
+
+  const lessonPlanContent = key === 'differentiation_lesson_plan' ? PREVIEW_LESSON_PLAN : '';
+  const request: GenerateRecommendationsRequest = {
+    ...PREVIEW_RECOMMENDATION_REQUEST,
+    taskType: key === 'classroom_management' ? 'classroom_management' : key.startsWith('differentiation') ? 'differentiation' : 'tier2_intervention',
+    lessonPlanContent: lessonPlanContent || undefined,
+  };
+  return {
+    renderedPrompt: renderPromptTemplate(body, buildRecommendationPromptVariables(request, '', lessonPlanContent)),
+    unknownPlaceholders,
+    mockOutput: generateMockRecommendations(request, '', lessonPlanContent),
+  };
 }
 
 function generateMockRecommendations(req: GenerateRecommendationsRequest, assessmentContent: string = "", lessonPlanContent: string = ""): string {
@@ -1225,99 +1221,35 @@ Contact your student support team if:
 **Note:** This is demonstration assistance. In a real implementation, the guidance would be more specifically tailored to your exact question and situation.`;
 }
 
-// CRITICAL SAFETY DETECTION - Enhanced keyword detection for student protection
-const URGENT_KEYWORDS = [
-  // Self-harm and suicide indicators
-  'suicide', 'suicidal', 'kill myself', 'end my life', 'want to die', 'better off dead',
-  'no reason to live', 'can\'t go on', 'worthless', 'hopeless', 'giving up',
-  'self-harm', 'self harm', 'cutting', 'hurting myself', 'hurt myself', 'self-injury',
-  'burning myself', 'scratching', 'hitting myself', 'punching myself',
-  
-  // Concerning behavioral patterns
-  'giving away belongings', 'saying goodbye', 'sudden mood change', 'withdrawing',
-  'talking about death', 'death wish', 'funeral plans', 'writing will',
-  
-  // Violence and harm to others
-  'kill', 'killing', 'murder', 'violent', 'weapon', 'gun', 'knife', 'bomb',
-  'harm others', 'hurt others', 'hurt someone', 'violence', 'attack', 'fight',
-  'death threats', 'threatening', 'going to hurt', 'make them pay',
-  'revenge', 'get back at', 'shooting', 'stabbing', 'beating up',
-  
-  // Abuse indicators
-  'abuse', 'sexual abuse', 'physical abuse', 'emotional abuse', 'neglect',
-  'touching inappropriately', 'inappropriate behavior', 'molesting', 'rape',
-  'hitting at home', 'bruises', 'scared to go home', 'family violence',
-  
-  // Crisis language
-  'emergency', 'crisis', 'can\'t cope', 'breaking point', 'losing control',
-  'dangerous thoughts', 'scary thoughts', 'voices telling me'
-];
-
-export interface UrgentSafeguardResult {
-  isUrgent: boolean;
-  triggeredKeywords: string[];
-  requiresImmediateAttention: boolean;
-  bypassDelay: boolean;
-}
-
 /**
- * Scans text for urgent keywords that require immediate safeguard protocols
+ * Generates critical safety alert message for teachers. Schools with safeguarding leads or their own
+ * protocol configured get those named in place of the generic student support steps.
  */
-export function detectUrgentKeywords(text: string): UrgentSafeguardResult {
-  if (!text || typeof text !== 'string') {
-    return {
-      isUrgent: false,
-      triggeredKeywords: [],
-      requiresImmediateAttention: false,
-      bypassDelay: false
-    };
-  }
-
-  const lowerText = text.toLowerCase();
-  const triggeredKeywords: string[] = [];
-
-  for (const keyword of URGENT_KEYWORDS) {
-    if (lowerText.includes(keyword.toLowerCase())) {
-      triggeredKeywords.push(keyword);
-    }
-  }
-
-  const isUrgent = triggeredKeywords.length > 0;
-  const requiresImmediateAttention = isUrgent;
-  const bypassDelay = isUrgent; // Bypass 30-minute delay for urgent cases
-
-  console.log('🔍 Urgent keyword detection:', {
-    hasKeywords: isUrgent,
-    keywords: triggeredKeywords,
-    textLength: text.length
-  });
-
-  return {
-    isUrgent,
-    triggeredKeywords,
-    requiresImmediateAttention,
-    bypassDelay
-  };
-}
+export function generateUrgentSafeguardMessage(safetyCheck?: UrgentSafeguardResult, safeguardingConfig?: SchoolSafeguardingConfig | null): string {
+  const keywordText = safetyCheck && safetyCheck.triggeredKeywords.length > 0
+    ? `\n**SAFETY CONCERN IDENTIFIED:** ${safetyCheck.category ? SAFEGUARDING_CATEGORY_LABELS[safetyCheck.category] : 'Safeguarding risk'} (risk score ${safetyCheck.riskScore}/100). The following phrases in your submission triggered this alert: "${safetyCheck.triggeredKeywords.join('", "')}"`
+    : '';
 
-/**
- * Generates critical safety alert message for teachers
- */
-export function generateUrgentSafeguardMessage(triggeredKeywords: string[] = []): string {
-  const keywordText = triggeredKeywords.length > 0 
-    ? `\n**SAFETY KEYWORDS DETECTED:** The following words in your submission triggered this alert: "${triggeredKeywords.join('", "')}"`
+  const leads = safeguardingConfig?.leads || [];
+  const contactStep = leads.length > 0
+    ? `1. **CONTACT YOUR DESIGNATED SAFEGUARDING LEAD IMMEDIATELY** - in this order until you reach someone:
+${leads.map((lead, index) => `   ${index + 1}. ${describeSafeguardingLead(lead)}`).join('\n')}${safeguardingConfig?.notifyLeads ? `
+   An email alert is also being sent to them, but do not rely on it - contact them directly.` : ''}`
+    : '1. **CONTACT STUDENT SUPPORT SERVICES IMMEDIATELY**';
+  const schoolProtocol = safeguardingConfig?.protocolText
+    ? `\n**${safeguardingConfig.schoolName.toUpperCase()} SAFEGUARDING PROTOCOL:**\n${safeguardingConfig.protocolText}\n`
     : '';
   
   return `🚨 **IMMEDIATE SAFETY CONCERN DETECTED** 🚨
 
 **URGENT ACTION REQUIRED - DO NOT DELAY:**
 
-1. **CONTACT STUDENT SUPPORT SERVICES IMMEDIATELY**
+${contactStep}
 2. **NOTIFY SENIOR MANAGEMENT TEAM TODAY**  
 3. **FOLLOW YOUR SCHOOL'S CHILD PROTECTION POLICY**
 4. **DO NOT LEAVE THIS STUDENT UNSUPERVISED**
 5. **DOCUMENT THIS CONCERN FORMALLY**
-
+${schoolProtocol}
 ${keywordText}
 
 **⚠️ CRITICAL SAFETY PROTOCOL:**
@@ -1373,6 +1305,7 @@ export interface GenerateClassroomSolutionRequest {
   teacherFirstName: string;
   teacherLastInitial: string;
   teacherPosition: string;
+  studentFirstName?: string; // Not sent to the model; only used to redact the name from the description
   studentAge: string;
   studentGrade: string;
   taskType: 'differentiation' | 'tier2_intervention';
@@ -1382,9 +1315,48 @@ export interface GenerateClassroomSolutionRequest {
   severityLevel: 'mild' | 'moderate' | 'urgent';
   actionsTaken: string[]; // JSON parsed array
   language?: string;
+  schoolName?: string;
+  userId?: string;
 }
 
+type ClassroomSolutionDraft = Awaited<ReturnType<typeof generateClassroomSolutionDraftWithProvider>>;
+
+// Exported so the submit route can tell before charging the teacher whether the draft will be free
+export function getClassroomSolutionCacheKey(req: GenerateClassroomSolutionRequest): string {
+  return hashAIRequest('classroom_solution', req);
+}
+
+/**
+ * Redacts the teacher's description before drafting a classroom solution and restores
+ * the real values in the returned draft.
+ */
 export async function generateClassroomSolutionDraft(req: GenerateClassroomSolutionRequest) {
+  const cacheKey = getClassroomSolutionCacheKey(req);
+  const cachedDraft = getCachedResponse<ClassroomSolutionDraft>(cacheKey);
+  if (cachedDraft) {
+    console.log(`♻️ Serving cached classroom solution draft for ${req.teacherFirstName} ${req.teacherLastInitial}`);
+    return { ...cachedDraft, cached: true };
+  }
+
+  const redaction = await createRedactionSessionForSchool(req.schoolName, [
+    { value: req.teacherFirstName, label: 'TEACHER' },
+    ...(req.studentFirstName ? [{ value: req.studentFirstName, label: 'STUDENT' }] : []),
+  ]);
+  const result = await generateClassroomSolutionDraftWithProvider({
+    ...req,
+    teacherFirstName: redaction.redact(req.teacherFirstName),
+    concernDescription: redaction.redact(req.concernDescription),
+  });
+  await recordRedactions(redaction, { source: 'classroom_solution', userId: req.userId });
+
+  const draft = { ...result, draft: redaction.restore(result.draft) };
+  if (!result.fallbackReason) {
+    setCachedResponse(cacheKey, draft);
+  }
+  return { ...draft, cached: false };
+}
+
+async function generateClassroomSolutionDraftWithProvider(req: GenerateClassroomSolutionRequest) {
   console.log("🚀 Starting classroom solution draft generation...");
   console.log("📝 Teacher:", req.teacherFirstName, req.teacherLastInitial);
   console.log("📝 Task type:", req.taskType);
@@ -1392,15 +1364,20 @@ export async function generateClassroomSolutionDraft(req: GenerateClassroomSolut
   console.log("📝 Severity level:", req.severityLevel);
   
   // URGENT KEYWORD DETECTION - Check for safeguard triggers
-  const urgentCheck = detectUrgentKeywords(req.concernDescription);
-  console.log("🚨 Urgent keyword check result:", urgentCheck);
+  const safeguardingConfig = await getSchoolSafeguardingConfig(req.schoolName);
+  const urgentCheck = await assessSafeguardingRisk(req.concernDescription, {
+    schoolName: req.schoolName,
+    userId: req.userId,
+    extraKeywords: safeguardingConfig?.extraKeywords,
+  });
+  console.log("🚨 Safeguarding check result:", urgentCheck.explanation);
   
-  const apiClient = await getApiClient();
-  console.log("🔑 API client available:", !!apiClient);
+  const apiClients = await getAIClients(req.schoolName);
+  console.log("🔑 API clients available:", apiClients.length);
   
-  if (!apiClient) {
+  if (apiClients.length === 0) {
     console.log("No active API key found, returning mock classroom solution data.");
-    return generateMockClassroomSolution(req, urgentCheck);
+    return generateMockClassroomSolution(req, 'no_api_key', urgentCheck, safeguardingConfig);
   }
 
   // Build learning profile details
@@ -1570,53 +1547,23 @@ ${actionsTakenInfo}
   }
 
   try {
-    console.log("🤖 Making API request to DeepSeek...");
+    console.log(`🤖 Making API request to ${apiClients[0].label}...`);
     
-    // Create abort controller for timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 30000); // 30 second timeout
-    
-    const response = await fetch(`${apiClient.baseURL}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${apiClient.apiKey}`,
-      },
-      signal: controller.signal,
-      body: JSON.stringify({
-        model: 'deepseek-chat',
-        messages: [
-          {
-            role: 'system',
-            content: 'You are an expert educational specialist providing evidence-based classroom solutions.'
-          },
-          {
-            role: 'user',
-            content: prompt
-          }
-        ],
-        temperature: 0.7,
-        max_tokens: 4000,
-        stream: false
-      })
+    const completion = await createCompletionWithFailover(apiClients, {
+      systemPrompt: 'You are an expert educational specialist providing evidence-based classroom solutions.',
+      userPrompt: prompt,
+      temperature: 0.7,
+      maxTokens: 4000,
+      usageContext: { taskType: 'classroom_solution', schoolName: req.schoolName, userId: req.userId }
     });
 
-    clearTimeout(timeoutId);
-
-    if (!response.ok) {
-      console.error("❌ DeepSeek API error:", response.status, response.statusText);
-      console.log("Falling back to mock data due to API error.");
-      return generateMockClassroomSolution(req);
-    }
-
-    const data = await response.json();
-    console.log("✅ DeepSeek API response received");
+    console.log(`✅ ${completion.client.label} API response received`);
     
-    const aiResponse = data.choices?.[0]?.message?.content || '';
+    const aiResponse = completion.content;
     
     if (!aiResponse.trim()) {
-      console.warn("Empty response from DeepSeek API, using mock data.");
-      return generateMockClassroomSolution(req);
+      console.warn(`Empty response from ${completion.client.label} API, using mock data.`);
+      return generateMockClassroomSolution(req, 'empty_response', urgentCheck, safeguardingConfig);
     }
 
     // Sanitize the response for database storage
@@ -1624,7 +1571,7 @@ ${actionsTakenInfo}
     
     // Add urgent safeguard messaging if urgent keywords detected
     if (urgentCheck.isUrgent) {
-      const urgentMessage = generateUrgentSafeguardMessage();
+      const urgentMessage = generateUrgentSafeguardMessage(urgentCheck, safeguardingConfig);
       sanitizedResponse = urgentMessage + "\n\n" + sanitizedResponse;
     }
     
@@ -1634,24 +1581,26 @@ ${actionsTakenInfo}
 
     return {
       draft: sanitizedResponse,
-      source: 'deepseek',
+      source: completion.client.provider,
+      fallbackReason: null,
       timestamp: new Date().toISOString(),
       urgentSafeguard: urgentCheck
     };
 
-  } catch (error: any) {
-    if (error.name === 'AbortError') {
-      console.error("❌ DeepSeek API timeout after 30 seconds");
-      console.log("Falling back to mock data due to timeout.");
-    } else {
-      console.error("❌ Error calling DeepSeek API:", error);
-      console.log("Falling back to mock data due to error.");
-    }
-    return generateMockClassroomSolution(req, urgentCheck);
+  } catch (error) {
+    const fallbackReason = getFallbackReason(error);
+    console.error(`❌ Error calling AI provider (${fallbackReason}):`, error);
+    console.log("Falling back to mock data.");
+    return generateMockClassroomSolution(req, fallbackReason, urgentCheck, safeguardingConfig);
   }
 }
 
-function generateMockClassroomSolution(req: GenerateClassroomSolutionRequest, urgentCheck?: UrgentSafeguardResult) {
+function generateMockClassroomSolution(
+  req: GenerateClassroomSolutionRequest,
+  fallbackReason: AIFallbackReason,
+  urgentCheck?: UrgentSafeguardResult,
+  safeguardingConfig?: SchoolSafeguardingConfig | null
+) {
   console.log("📝 Generating mock classroom solution for:", req.taskType);
   
   const isUrgent = req.severityLevel === 'urgent';
@@ -1659,7 +1608,7 @@ function generateMockClassroomSolution(req: GenerateClassroomSolutionRequest, ur
   
   let urgentNote = "";
   if (hasUrgentKeywords) {
-    urgentNote = "\n\n" + generateUrgentSafeguardMessage();
+    urgentNote = "\n\n" + generateUrgentSafeguardMessage(urgentCheck, safeguardingConfig);
   } else if (isUrgent) {
     urgentNote = "\n\n⚠️ **URGENT CASE:** This case requires immediate attention. Please share with student support services or administration.";
   }
@@ -1777,13 +1726,9 @@ function generateMockClassroomSolution(req: GenerateClassroomSolutionRequest, ur
   return {
     draft: sanitizeForDatabase(mockData),
     source: 'mock',
+    fallbackReason,
     timestamp: new Date().toISOString(),
-    urgentSafeguard: urgentCheck || {
-      isUrgent: false,
-      triggeredKeywords: [],
-      requiresImmediateAttention: false,
-      bypassDelay: false
-    }
+    urgentSafeguard: urgentCheck || detectUrgentKeywords('')
   };
 }
 
@@ -1809,17 +1754,8 @@ export async function generateInterventions(
 
   const response = await generateRecommendations(req);
   
-  // Parse the structured response into legacy format
-  const interventions: InterventionStrategy[] = [
-    {
-      title: "Structured Support Plan",
-      description: response.recommendations,
-      steps: ["Review recommendations", "Implement strategies", "Monitor progress"],
-      timeline: "2-6 weeks"
-    }
-  ];
-  
-  return interventions;
+  // Strategies are already validated against the InterventionStrategy schema
+  return response.strategies;
 }
 
 // Legacy function for backward compatibility  
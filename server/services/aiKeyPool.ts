@@ -0,0 +1,213 @@
+import {
+  createChatCompletion,
+  streamChatCompletion,
+  resolveAIClient,
+  AIProviderError,
+  type AIClient,
+  type ChatCompletionRequest,
+  type ChatCompletionResult,
+} from "./aiProviders";
+import {
+  acquireCircuit,
+  getCircuitRetryAfterMs,
+  getMaxRetries,
+  getRequestTimeoutMs,
+  getRetryDelayMs,
+  isRetryableError,
+  recordCircuitFailure,
+  recordCircuitSuccess,
+  releaseCircuit,
+  sleep,
+  startAttemptTimer,
+  AICircuitOpenError,
+  AITimeoutError,
+} from "./aiResilience";
+
+// Statuses that mean "this key can't serve the request right now" - try the next key instead
+const FAILOVER_STATUSES = [401, 402, 403, 429];
+
+// Fixed client list that bypasses key lookup - set by the offline evaluation harness
+let clientsOverride: AIClient[] | null = null;
+
+export function setAIClientsOverride(clients: AIClient[] | null) {
+  clientsOverride = clients;
+}
+
+/**
+ * Returns the AI clients a school may use, in failover order:
+ * school-scoped database keys, then the environment key, then shared database keys.
+ */
+export async function getAIClients(schoolName?: string | null): Promise<AIClient[]> {
+  if (clientsOverride) {
+    return clientsOverride;
+  }
+
+  console.log("🔍 Getting AI key pool...", schoolName ? `(school: ${schoolName})` : '');
+
+  let databaseKeys: Awaited<ReturnType<typeof import('./admin')['getApiKeyPoolForSchool']>> = [];
+  try {
+    const { getApiKeyPoolForSchool } = await import('./admin');
+    databaseKeys = await getApiKeyPoolForSchool(schoolName);
+  } catch (error) {
+    console.error("❌ Error accessing database API keys:", error instanceof Error ? error.message : String(error));
+  }
+
+  const toClient = (key: (typeof databaseKeys)[number]) =>
+    resolveAIClient({ ...key, keyId: key.id, keyName: key.name, scope: key.scope });
+
+  const clients: AIClient[] = [];
+
+  // Keys assigned to a school always win so districts can keep data with their own provider
+  for (const key of databaseKeys.filter(key => key.scope === 'school')) {
+    const client = toClient(key);
+    if (client) clients.push(client);
+  }
+
+  // Environment configuration (DEEPSEEK_API_KEY remains the primary shared method)
+  const envApiKey = process.env.AI_API_KEY || process.env.DEEPSEEK_API_KEY;
+  const envBaseUrl = process.env.AI_BASE_URL;
+  if (envApiKey || envBaseUrl) {
+    const client = resolveAIClient({
+      provider: process.env.AI_PROVIDER || 'deepseek',
+      apiKey: envApiKey,
+      baseUrl: envBaseUrl,
+      model: process.env.AI_MODEL,
+      scope: 'environment',
+    });
+    if (client) clients.push(client);
+  }
+
+  for (const key of databaseKeys.filter(key => key.scope === 'global')) {
+    const client = toClient(key);
+    if (client) clients.push(client);
+  }
+
+  if (clients.length === 0) {
+    console.warn("❌ No AI API key found in environment or database.");
+  } else {
+    console.log(`🔑 AI key pool: ${clients.map(client => `${client.label}/${client.keyName || 'environment'}`).join(' → ')}`);
+  }
+  return clients;
+}
+
+/**
+ * Runs a completion against the pool, counting usage on each database key and failing over to the
+ * next key on auth, billing or rate-limit errors. Timeouts, 5xx and network errors are retried on
+ * the same key with exponential backoff before failing over (see aiResilience.ts).
+ */
+export async function createCompletionWithFailover(
+  clients: AIClient[],
+  request: ChatCompletionRequest
+): Promise<ChatCompletionResult & { client: AIClient }> {
+  return runWithFailover(clients, request, (client, attemptRequest) => createChatCompletion(client, attemptRequest));
+}
+
+/**
+ * Streaming variant of createCompletionWithFailover. Retries and failover only happen before the
+ * first delta reaches the caller - once text has been streamed, a failure is thrown rather than
+ * mixing providers. The timeout applies to gaps between deltas, not the whole reply.
+ */
+export async function streamCompletionWithFailover(
+  clients: AIClient[],
+  request: ChatCompletionRequest,
+  onDelta: (text: string) => void
+): Promise<ChatCompletionResult & { client: AIClient }> {
+  let streamed = false;
+  return runWithFailover(
+    clients,
+    request,
+    (client, attemptRequest, onActivity) => streamChatCompletion(client, attemptRequest, (text) => {
+      streamed = true;
+      onActivity();
+      onDelta(text);
+    }),
+    () => !streamed
+  );
+}
+
+// Keys with an open circuit are skipped; every attempt, including failed ones, is written to the usage ledger
+async function runWithFailover(
+  clients: AIClient[],
+  request: ChatCompletionRequest,
+  complete: (client: AIClient, attemptRequest: ChatCompletionRequest, onActivity: () => void) => Promise<ChatCompletionResult>,
+  canRetry: () => boolean = () => true
+): Promise<ChatCompletionResult & { client: AIClient }> {
+  const { recordAIUsage } = await import('./aiUsage');
+  let lastError: unknown = new Error('No AI API keys available');
+  let attempted = false;
+  let circuitRetryAfterMs = Infinity;
+
+  for (let index = 0; index < clients.length; index++) {
+    const client = clients[index];
+    if (!acquireCircuit(client)) {
+      circuitRetryAfterMs = Math.min(circuitRetryAfterMs, getCircuitRetryAfterMs(client));
+      console.warn(`🚧 Skipping ${client.label} key "${client.keyName || 'environment'}" - circuit open`);
+      continue;
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      attempted = true;
+      const startedAt = Date.now();
+      const timeoutMs = getRequestTimeoutMs();
+      const timer = startAttemptTimer(timeoutMs, request.signal);
+
+      try {
+        const completion = await complete(client, { ...request, signal: timer.signal }, timer.touch);
+        timer.clear();
+        recordCircuitSuccess(client);
+        await recordAIUsage({ client, request, outcome: 'success', latencyMs: Date.now() - startedAt, completion });
+        if (client.keyId) {
+          const { recordApiKeyUsage } = await import('./admin');
+          await recordApiKeyUsage(client.keyId).catch(error => console.error('Failed to record API key usage:', error));
+        }
+        return { ...completion, client };
+      } catch (caught) {
+        timer.clear();
+        // Aborting the fetch surfaces as an AbortError; report it as the timeout it was
+        const error = timer.timedOut() ? new AITimeoutError(timeoutMs) : caught;
+        lastError = error;
+        const status = error instanceof AIProviderError ? error.status : undefined;
+        const retryable = isRetryableError(error) && !request.signal?.aborted;
+
+        if (retryable) {
+          recordCircuitFailure(client, error);
+        } else {
+          releaseCircuit(client);
+        }
+        if (client.keyId) {
+          const { recordApiKeyFailure } = await import('./admin');
+          await recordApiKeyFailure(client.keyId, status, error instanceof Error ? error.message : String(error))
+            .catch(recordError => console.error('Failed to record API key failure:', recordError));
+        }
+
+        const retrying = retryable && canRetry() && attempt < getMaxRetries() && acquireCircuit(client);
+        const failingOver = !retrying && canRetry() && index < clients.length - 1
+          && (retryable || (!!status && FAILOVER_STATUSES.includes(status)));
+        await recordAIUsage({
+          client,
+          request,
+          outcome: retrying || failingOver ? 'failover' : 'error',
+          latencyMs: Date.now() - startedAt,
+          errorStatus: status,
+        });
+
+        if (retrying) {
+          const delayMs = getRetryDelayMs(attempt);
+          console.warn(`⏳ ${client.label} call failed (${error instanceof Error ? error.message : error}), retry ${attempt + 1}/${getMaxRetries()} in ${Math.round(delayMs)}ms`);
+          await sleep(delayMs, request.signal);
+          continue;
+        }
+        if (failingOver) {
+          console.warn(`🔁 ${client.label} key "${client.keyName || 'environment'}" failed${status ? ` with ${status}` : ''}, trying next key`);
+          break;
+        }
+        throw error;
+      }
+    }
+  }
+
+  if (!attempted && circuitRetryAfterMs !== Infinity) {
+    throw new AICircuitOpenError(circuitRetryAfterMs);
+  }
+  throw lastError;
+}
@@ -0,0 +1,402 @@
+import type { AIProviderType } from "@shared/schema";
+
+// Provider layer for AI calls. Every generator in ai.ts builds its prompt and hands it to
+// createChatCompletion(), which speaks whichever wire protocol the selected provider needs.
+
+export type AIProviderProtocol = 'openai' | 'anthropic';
+
+export interface AIProviderDefinition {
+  label: string;
+  protocol: AIProviderProtocol;
+  defaultBaseURL: string | null; // null = admin must supply a base URL
+  defaultModel: string | null; // null = admin must supply a model
+  requiresApiKey: boolean;
+  streamUsage: boolean; // Reports token counts on streamed replies (OpenAI protocol: accepts stream_options.include_usage)
+}
+
+export const AI_PROVIDERS: Record<AIProviderType, AIProviderDefinition> = {
+  deepseek: {
+    label: 'DeepSeek',
+    protocol: 'openai',
+    defaultBaseURL: 'https://api.deepseek.com/v1',
+    defaultModel: 'deepseek-chat',
+    requiresApiKey: true,
+    streamUsage: true,
+  },
+  openai: {
+    label: 'OpenAI',
+    protocol: 'openai',
+    defaultBaseURL: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o-mini',
+    requiresApiKey: true,
+    streamUsage: true,
+  },
+  openai_compatible: {
+    label: 'OpenAI-compatible',
+    protocol: 'openai',
+    defaultBaseURL: null,
+    defaultModel: null,
+    requiresApiKey: false,
+    streamUsage: false,
+  },
+  anthropic: {
+    label: 'Anthropic',
+    protocol: 'anthropic',
+    defaultBaseURL: 'https://api.anthropic.com/v1',
+    defaultModel: 'claude-3-5-sonnet-latest',
+    requiresApiKey: true,
+    streamUsage: true,
+  },
+  local: {
+    label: 'Self-hosted model',
+    protocol: 'openai',
+    defaultBaseURL: 'http://localhost:11434/v1', // Ollama / vLLM / LM Studio expose /v1/chat/completions
+    defaultModel: 'llama3.1',
+    requiresApiKey: false,
+    streamUsage: false,
+  },
+};
+
+export interface AIClient {
+  provider: AIProviderType;
+  label: string;
+  apiKey: string;
+  baseURL: string;
+  model: string;
+  keyId?: string; // Database key id; undefined for environment keys
+  keyName?: string;
+  scope: 'school' | 'global' | 'environment';
+}
+
+// Who and what a completion is for - recorded in the AI usage ledger with the token counts
+export interface AIUsageContext {
+  taskType: string;
+  schoolName?: string | null;
+  userId?: string | null;
+}
+
+export interface ChatCompletionRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  signal?: AbortSignal;
+  usageContext?: AIUsageContext;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  model: string;
+  usage?: TokenUsage; // Omitted when the provider doesn't report it
+}
+
+// OpenAI-style `usage` ({prompt_tokens, completion_tokens}) or Anthropic-style ({input_tokens, output_tokens})
+function parseTokenUsage(usage: any): TokenUsage | undefined {
+  if (!usage) return undefined;
+  const promptTokens = Number(usage.prompt_tokens ?? usage.input_tokens);
+  const completionTokens = Number(usage.completion_tokens ?? usage.output_tokens);
+  if (!Number.isFinite(promptTokens) && !Number.isFinite(completionTokens)) return undefined;
+  return {
+    promptTokens: Number.isFinite(promptTokens) ? promptTokens : 0,
+    completionTokens: Number.isFinite(completionTokens) ? completionTokens : 0,
+  };
+}
+
+// Raised for non-2xx provider responses; `status` lets the key pool decide whether to fail over
+export class AIProviderError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'AIProviderError';
+  }
+}
+
+export function isAIProviderType(value: unknown): value is AIProviderType {
+  return typeof value === 'string' && value in AI_PROVIDERS;
+}
+
+/**
+ * Builds a client from a stored key or environment settings, filling in provider defaults.
+ * Returns null when the configuration is unusable (e.g. openai_compatible without a base URL).
+ */
+export function resolveAIClient(config: {
+  provider?: string | null;
+  apiKey?: string | null;
+  baseUrl?: string | null;
+  model?: string | null;
+  keyId?: string;
+  keyName?: string;
+  scope: AIClient['scope'];
+}): AIClient | null {
+  const provider: AIProviderType = isAIProviderType(config.provider) ? config.provider : 'deepseek';
+  const definition = AI_PROVIDERS[provider];
+
+  const baseURL = (config.baseUrl || definition.defaultBaseURL || '').replace(/\/+$/, '');
+  const model = config.model || definition.defaultModel || '';
+  const apiKey = config.apiKey || '';
+
+  if (!baseURL || !model) {
+    console.warn(`❌ ${definition.label} key "${config.keyName || 'environment'}" is missing a base URL or model`);
+    return null;
+  }
+  if (definition.requiresApiKey && !apiKey) {
+    console.warn(`❌ ${definition.label} key "${config.keyName || 'environment'}" has no API key`);
+    return null;
+  }
+
+  return {
+    provider,
+    label: definition.label,
+    apiKey,
+    baseURL,
+    model,
+    keyId: config.keyId,
+    keyName: config.keyName,
+    scope: config.scope,
+  };
+}
+
+// Wraps every completion; `send` performs the real provider call. Used by the offline evaluation
+// harness (server/eval) to replay recorded responses or stub the provider entirely.
+export type CompletionInterceptor = (
+  client: AIClient,
+  request: ChatCompletionRequest,
+  send: (client: AIClient, request: ChatCompletionRequest) => Promise<ChatCompletionResult>
+) => Promise<ChatCompletionResult>;
+
+let completionInterceptor: CompletionInterceptor | null = null;
+
+export function setCompletionInterceptor(interceptor: CompletionInterceptor | null) {
+  completionInterceptor = interceptor;
+}
+
+/**
+ * Sends a single system + user prompt to the client's provider and returns the text reply.
+ * Non-2xx responses throw AIProviderError("<Label> API error: <status>") so callers can inspect the status.
+ */
+export async function createChatCompletion(client: AIClient, request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+  if (completionInterceptor) {
+    return completionInterceptor(client, request, sendChatCompletion);
+  }
+  return sendChatCompletion(client, request);
+}
+
+async function sendChatCompletion(client: AIClient, request: ChatCompletionRequest): Promise<ChatCompletionResult> {
+  const { protocol } = AI_PROVIDERS[client.provider];
+  const maxTokens = request.maxTokens ?? 4000;
+  const temperature = request.temperature ?? 0.7;
+
+  if (protocol === 'anthropic') {
+    const response = await fetch(`${client.baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': client.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: client.model,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.userPrompt }],
+        max_tokens: maxTokens,
+        temperature,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${client.label} API error: ${response.status} - ${errorText}`);
+      throw new AIProviderError(`${client.label} API error: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    const content = Array.isArray(data.content)
+      ? data.content.filter((block: any) => block?.type === 'text').map((block: any) => block.text).join('')
+      : '';
+    return { content, model: data.model || client.model, usage: parseTokenUsage(data.usage) };
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (client.apiKey) {
+    headers['Authorization'] = `Bearer ${client.apiKey}`;
+  }
+
+  const response = await fetch(`${client.baseURL}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: client.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      max_tokens: maxTokens,
+      temperature,
+      stream: false,
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${client.label} API error: ${response.status} - ${errorText}`);
+    throw new AIProviderError(`${client.label} API error: ${response.status}`, response.status);
+  }
+
+  const data = await response.json();
+  return {
+    content: data.choices?.[0]?.message?.content || '',
+    model: data.model || client.model,
+    usage: parseTokenUsage(data.usage),
+  };
+}
+
+// Reads a provider's Server-Sent Events body and hands each `data:` payload to onData
+async function readEventStream(response: Response, onData: (data: string) => void): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const trimmed = line.trim();
+      if (trimmed.startsWith('data:')) {
+        onData(trimmed.slice(5).trim());
+      }
+    }
+  }
+
+  if (buffer.trim().startsWith('data:')) {
+    onData(buffer.trim().slice(5).trim());
+  }
+}
+
+/**
+ * Streaming variant of createChatCompletion. onDelta receives each text fragment as the provider
+ * produces it; the resolved result contains the full text. Errors are raised before any delta is
+ * emitted when the provider rejects the request, so callers can still fail over.
+ */
+export async function streamChatCompletion(
+  client: AIClient,
+  request: ChatCompletionRequest,
+  onDelta: (text: string) => void
+): Promise<ChatCompletionResult> {
+  // Intercepted completions (recorded/stubbed responses) arrive in one piece
+  if (completionInterceptor) {
+    const result = await completionInterceptor(client, request, sendChatCompletion);
+    if (result.content) onDelta(result.content);
+    return result;
+  }
+
+  const { protocol, streamUsage } = AI_PROVIDERS[client.provider];
+  const maxTokens = request.maxTokens ?? 4000;
+  const temperature = request.temperature ?? 0.7;
+  let content = '';
+  let model = client.model;
+  let usage: TokenUsage | undefined;
+
+  const emit = (text: unknown) => {
+    if (typeof text === 'string' && text.length > 0) {
+      content += text;
+      onDelta(text);
+    }
+  };
+
+  if (protocol === 'anthropic') {
+    const response = await fetch(`${client.baseURL}/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': client.apiKey,
+        'anthropic-version': '2023-06-01',
+      },
+      body: JSON.stringify({
+        model: client.model,
+        system: request.systemPrompt,
+        messages: [{ role: 'user', content: request.userPrompt }],
+        max_tokens: maxTokens,
+        temperature,
+        stream: true,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`${client.label} API error: ${response.status} - ${errorText}`);
+      throw new AIProviderError(`${client.label} API error: ${response.status}`, response.status);
+    }
+
+    await readEventStream(response, (data) => {
+      try {
+        const event = JSON.parse(data);
+        if (event.type === 'message_start') {
+          if (event.message?.model) model = event.message.model;
+          usage = parseTokenUsage(event.message?.usage);
+        } else if (event.type === 'content_block_delta') {
+          emit(event.delta?.text);
+        } else if (event.type === 'message_delta' && event.usage) {
+          // Output tokens arrive at the end; input tokens were reported in message_start
+          usage = { promptTokens: usage?.promptTokens || 0, completionTokens: Number(event.usage.output_tokens) || 0 };
+        }
+      } catch {
+        // Ignore keep-alive and partial lines
+      }
+    });
+    return { content, model, usage };
+  }
+
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (client.apiKey) {
+    headers['Authorization'] = `Bearer ${client.apiKey}`;
+  }
+
+  const response = await fetch(`${client.baseURL}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      model: client.model,
+      messages: [
+        { role: 'system', content: request.systemPrompt },
+        { role: 'user', content: request.userPrompt },
+      ],
+      max_tokens: maxTokens,
+      temperature,
+      stream: true,
+      ...(streamUsage ? { stream_options: { include_usage: true } } : {}),
+    }),
+    signal: request.signal,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`${client.label} API error: ${response.status} - ${errorText}`);
+    throw new AIProviderError(`${client.label} API error: ${response.status}`, response.status);
+  }
+
+  await readEventStream(response, (data) => {
+    if (data === '[DONE]') return;
+    try {
+      const chunk = JSON.parse(data);
+      if (chunk.model) model = chunk.model;
+      if (chunk.usage) usage = parseTokenUsage(chunk.usage); // Final chunk when include_usage is set
+      emit(chunk.choices?.[0]?.delta?.content);
+    } catch {
+      // Ignore keep-alive and partial lines
+    }
+  });
+  return { content, model, usage };
+}
@@ -0,0 +1,254 @@
+import { AIProviderError, type AIClient } from "./aiProviders";
+import type { AIFallbackReason } from "@shared/schema";
+
+// Timeouts, retries and a per-key circuit breaker for provider calls made through the key pool.
+// A provider that keeps timing out or returning 5xx errors is skipped for a cool-down period
+// instead of making every teacher wait out the full timeout before getting fallback content.
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export const getRequestTimeoutMs = () => readNumberEnv('AI_REQUEST_TIMEOUT_MS', 30000);
+export const getMaxRetries = () => readNumberEnv('AI_MAX_RETRIES', 2);
+const getRetryBaseDelayMs = () => readNumberEnv('AI_RETRY_BASE_DELAY_MS', 500);
+const getFailureThreshold = () => Math.max(1, readNumberEnv('AI_CIRCUIT_FAILURE_THRESHOLD', 5));
+const getCooldownMs = () => readNumberEnv('AI_CIRCUIT_COOLDOWN_SECONDS', 60) * 1000;
+
+const MAX_RETRY_DELAY_MS = 8000;
+
+// The provider didn't answer (or, when streaming, went quiet) within the per-call timeout
+export class AITimeoutError extends Error {
+  constructor(public timeoutMs: number) {
+    super(`AI provider did not respond within ${timeoutMs / 1000} seconds`);
+    this.name = 'AITimeoutError';
+  }
+}
+
+// Every key in the pool is cooling down after repeated failures
+export class AICircuitOpenError extends Error {
+  constructor(public retryAfterMs: number) {
+    super(`All AI providers are temporarily unavailable; retrying in ${Math.ceil(retryAfterMs / 1000)} seconds`);
+    this.name = 'AICircuitOpenError';
+  }
+}
+
+/**
+ * Timeouts, 5xx responses and network failures are worth retrying on the same key.
+ * Auth, billing and rate-limit errors are handled by key failover instead.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof AITimeoutError) return true;
+  if (error instanceof AIProviderError) return error.status === 408 || error.status >= 500;
+  // fetch() rejects with a TypeError when the connection fails or is reset
+  return error instanceof TypeError;
+}
+
+export function getRetryDelayMs(attempt: number): number {
+  const delay = getRetryBaseDelayMs() * Math.pow(2, attempt);
+  // Jitter keeps requests that failed together from retrying in lockstep
+  return Math.min(delay + Math.random() * delay * 0.25, MAX_RETRY_DELAY_MS);
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export interface AttemptTimer {
+  signal: AbortSignal;
+  touch: () => void; // Restarts the timer - streamed calls only time out when the provider goes quiet
+  clear: () => void;
+  timedOut: () => boolean;
+}
+
+// Aborts the attempt after the timeout, or straight away if the caller's own signal aborts
+export function startAttemptTimer(timeoutMs: number, parentSignal?: AbortSignal): AttemptTimer {
+  const controller = new AbortController();
+  let didTimeOut = false;
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const arm = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(() => {
+      didTimeOut = true;
+      controller.abort(new AITimeoutError(timeoutMs));
+    }, timeoutMs);
+  };
+  const onParentAbort = () => controller.abort(parentSignal!.reason);
+
+  if (parentSignal?.aborted) {
+    controller.abort(parentSignal.reason);
+  } else {
+    parentSignal?.addEventListener('abort', onParentAbort, { once: true });
+    arm();
+  }
+
+  return {
+    signal: controller.signal,
+    touch: () => {
+      if (!controller.signal.aborted) arm();
+    },
+    clear: () => {
+      clearTimeout(timeoutId);
+      parentSignal?.removeEventListener('abort', onParentAbort);
+    },
+    timedOut: () => didTimeOut,
+  };
+}
+
+export type CircuitStatus = 'closed' | 'open' | 'half_open';
+
+interface CircuitState {
+  label: string;
+  provider: AIClient['provider'];
+  keyName: string;
+  status: CircuitStatus;
+  consecutiveFailures: number;
+  openedAt: number | null;
+  lastFailureAt: number | null;
+  lastFailure: string | null;
+  lastSuccessAt: number | null;
+  trialInFlight: boolean; // Half-open circuits let a single trial call through
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function circuitKey(client: AIClient): string {
+  return client.keyId || `${client.scope}:${client.provider}:${client.baseURL}`;
+}
+
+function getCircuit(client: AIClient): CircuitState {
+  const key = circuitKey(client);
+  let circuit = circuits.get(key);
+  if (!circuit) {
+    circuit = {
+      label: client.label,
+      provider: client.provider,
+      keyName: client.keyName || 'environment',
+      status: 'closed',
+      consecutiveFailures: 0,
+      openedAt: null,
+      lastFailureAt: null,
+      lastFailure: null,
+      lastSuccessAt: null,
+      trialInFlight: false,
+    };
+    circuits.set(key, circuit);
+  }
+  return circuit;
+}
+
+/**
+ * Whether a call may be sent to this key. An open circuit moves to half-open once the cool-down
+ * has passed, and the caller that sees this becomes the single trial request.
+ */
+export function acquireCircuit(client: AIClient): boolean {
+  const circuit = getCircuit(client);
+  if (circuit.status === 'closed') return true;
+
+  if (circuit.status === 'open' && Date.now() - (circuit.openedAt || 0) >= getCooldownMs()) {
+    circuit.status = 'half_open';
+    circuit.trialInFlight = false;
+  }
+  if (circuit.status === 'half_open' && !circuit.trialInFlight) {
+    circuit.trialInFlight = true;
+    console.log(`🔌 Trying ${circuit.label} key "${circuit.keyName}" again after cool-down`);
+    return true;
+  }
+  return false;
+}
+
+// Milliseconds until an open circuit allows a trial call
+export function getCircuitRetryAfterMs(client: AIClient): number {
+  const circuit = getCircuit(client);
+  if (circuit.status !== 'open') return 0;
+  return Math.max(0, (circuit.openedAt || 0) + getCooldownMs() - Date.now());
+}
+
+export function recordCircuitSuccess(client: AIClient): void {
+  const circuit = getCircuit(client);
+  if (circuit.status !== 'closed') {
+    console.log(`✅ ${circuit.label} key "${circuit.keyName}" recovered, circuit closed`);
+  }
+  circuit.status = 'closed';
+  circuit.consecutiveFailures = 0;
+  circuit.openedAt = null;
+  circuit.trialInFlight = false;
+  circuit.lastSuccessAt = Date.now();
+}
+
+// The provider answered, but with an error that says nothing about its health (e.g. a rejected key)
+export function releaseCircuit(client: AIClient): void {
+  getCircuit(client).trialInFlight = false;
+}
+
+// Only provider health failures count - a rejected key is the key pool's concern, not an outage
+export function recordCircuitFailure(client: AIClient, error: unknown): void {
+  const circuit = getCircuit(client);
+  circuit.consecutiveFailures++;
+  circuit.lastFailureAt = Date.now();
+  circuit.lastFailure = error instanceof Error ? error.message : String(error);
+  circuit.trialInFlight = false;
+
+  if (circuit.status === 'half_open' || circuit.consecutiveFailures >= getFailureThreshold()) {
+    if (circuit.status !== 'open') {
+      console.warn(`🚧 ${circuit.label} key "${circuit.keyName}" circuit opened after ${circuit.consecutiveFailures} failure(s); pausing for ${getCooldownMs() / 1000}s`);
+    }
+    circuit.status = 'open';
+    circuit.openedAt = Date.now();
+  }
+}
+
+export function resetCircuits(): void {
+  circuits.clear();
+}
+
+export interface CircuitSnapshot {
+  label: string;
+  provider: string;
+  keyName: string;
+  status: CircuitStatus;
+  consecutiveFailures: number;
+  lastFailure: string | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  retryAfterSeconds: number | null;
+}
+
+// Provider state for health reporting; keys that haven't been called since startup aren't listed
+export function getCircuitSnapshots(): CircuitSnapshot[] {
+  const cooldownMs = getCooldownMs();
+  return Array.from(circuits.values()).map(circuit => ({
+    label: circuit.label,
+    provider: circuit.provider,
+    keyName: circuit.keyName,
+    status: circuit.status === 'open' && Date.now() - (circuit.openedAt || 0) >= cooldownMs ? 'half_open' : circuit.status,
+    consecutiveFailures: circuit.consecutiveFailures,
+    lastFailure: circuit.lastFailure,
+    lastFailureAt: circuit.lastFailureAt ? new Date(circuit.lastFailureAt).toISOString() : null,
+    lastSuccessAt: circuit.lastSuccessAt ? new Date(circuit.lastSuccessAt).toISOString() : null,
+    retryAfterSeconds: circuit.status === 'open'
+      ? Math.max(0, Math.ceil(((circuit.openedAt || 0) + cooldownMs - Date.now()) / 1000))
+      : null,
+  }));
+}
+
+// Why a generator fell back to template content, for the teacher-facing notice
+export function getFallbackReason(error: unknown): AIFallbackReason {
+  if (error instanceof AITimeoutError) return 'timeout';
+  if (error instanceof AICircuitOpenError) return 'circuit_open';
+  if (error instanceof AIProviderError && [401, 402, 403].includes(error.status)) return 'auth_failed';
+  return 'provider_error';
+}
@@ -0,0 +1,171 @@
+import { createHash } from "crypto";
+
+// Response cache in front of the AI generators, plus near-duplicate detection for submissions.
+// Teachers double-click, retry after a timeout or resubmit after fixing a typo; an identical
+// request within the TTL is answered from memory instead of a new model call, and a near-identical
+// one is offered back to the teacher before anything is generated.
+
+const DEFAULT_TTL_MINUTES = 60;
+const DEFAULT_NEAR_DUPLICATE_WINDOW_MINUTES = 10;
+const DEFAULT_NEAR_DUPLICATE_THRESHOLD = 0.85;
+const MAX_ENTRIES = 500;
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+// AI_CACHE_TTL_MINUTES=0 turns the cache off
+export const getCacheTtlMs = () => readNumberEnv('AI_CACHE_TTL_MINUTES', DEFAULT_TTL_MINUTES) * 60 * 1000;
+export const getNearDuplicateWindowMs = () => readNumberEnv('AI_NEAR_DUPLICATE_WINDOW_MINUTES', DEFAULT_NEAR_DUPLICATE_WINDOW_MINUTES) * 60 * 1000;
+const getNearDuplicateThreshold = () => readNumberEnv('AI_NEAR_DUPLICATE_THRESHOLD', DEFAULT_NEAR_DUPLICATE_THRESHOLD);
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  hits: number;
+}
+
+// Insertion-ordered, so the first key is always the oldest entry
+const cache = new Map<string, CacheEntry>();
+let totalHits = 0;
+let totalMisses = 0;
+
+// JSON with sorted object keys, so the same request always hashes the same way
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, entry]) => entry !== undefined)
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${stableStringify(entry)}`).join(',')}}`;
+}
+
+/**
+ * Cache key for a generator request. The request includes the teacher's user id, so cached
+ * responses are only ever returned to the teacher who asked.
+ */
+export function hashAIRequest(kind: string, request: unknown): string {
+  return `${kind}:${createHash('sha256').update(stableStringify(request)).digest('hex')}`;
+}
+
+export function getCachedResponse<T>(key: string): T | undefined {
+  const entry = cache.get(key);
+  if (!entry || entry.expiresAt <= Date.now()) {
+    if (entry) cache.delete(key);
+    totalMisses++;
+    return undefined;
+  }
+  entry.hits++;
+  totalHits++;
+  return entry.value as T;
+}
+
+// Peeks without counting a hit - used to decide up front whether a request will be free
+export function hasCachedResponse(key: string): boolean {
+  const entry = cache.get(key);
+  return !!entry && entry.expiresAt > Date.now();
+}
+
+export function setCachedResponse<T>(key: string, value: T): void {
+  const ttl = getCacheTtlMs();
+  if (ttl === 0) return;
+
+  cache.delete(key);
+  while (cache.size >= MAX_ENTRIES) {
+    cache.delete(cache.keys().next().value as string);
+  }
+  cache.set(key, { value, expiresAt: Date.now() + ttl, hits: 0 });
+}
+
+// Called when something that shapes every response changes, e.g. a prompt template is published
+export function clearAIResponseCache(): void {
+  cache.clear();
+  console.log('🧹 AI response cache cleared');
+}
+
+export function getAIResponseCacheStats() {
+  const now = Date.now();
+  let activeEntries = 0;
+  cache.forEach(entry => {
+    if (entry.expiresAt > now) activeEntries++;
+  });
+  return {
+    entries: activeEntries,
+    hits: totalHits,
+    misses: totalMisses,
+    hitRate: totalHits + totalMisses > 0 ? totalHits / (totalHits + totalMisses) : 0,
+    ttlMinutes: getCacheTtlMs() / 60000,
+  };
+}
+
+function normalizeForComparison(text: string): string {
+  // Whitespace and English/Chinese punctuation only - letters in every script are kept
+  return text.toLowerCase().replace(/[\s.,;:!?'"()\[\]{}<>*#&\-–—_/\\|…，。！？；：、“”‘’（）【】《》]+/g, ' ').trim();
+}
+
+// Character bigrams work for Chinese text, which has no spaces between words
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  const chars = Array.from(text);
+  for (let i = 0; i < chars.length - 1; i++) {
+    const pair = chars[i] + chars[i + 1];
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+/** Sørensen–Dice similarity of two texts' character bigrams, from 0 (unrelated) to 1 (identical). */
+export function textSimilarity(a: string, b: string): number {
+  const left = normalizeForComparison(a);
+  const right = normalizeForComparison(b);
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftPairs = bigrams(left);
+  const rightPairs = bigrams(right);
+  let overlap = 0;
+  leftPairs.forEach((count, pair) => {
+    overlap += Math.min(count, rightPairs.get(pair) || 0);
+  });
+  const total = Array.from(leftPairs.values()).reduce((sum, n) => sum + n, 0)
+    + Array.from(rightPairs.values()).reduce((sum, n) => sum + n, 0);
+  return (2 * overlap) / total;
+}
+
+export interface NearDuplicateCandidate<T> {
+  item: T;
+  text: string;
+  createdAt: Date | string | null;
+}
+
+export interface NearDuplicateMatch<T> {
+  item: T;
+  similarity: number;
+  minutesAgo: number;
+}
+
+/**
+ * Finds the most similar recent submission within the near-duplicate window, if it is similar
+ * enough to be a resubmission of the same concern.
+ */
+export function findNearDuplicate<T>(text: string, candidates: NearDuplicateCandidate<T>[]): NearDuplicateMatch<T> | null {
+  const now = Date.now();
+  const windowMs = getNearDuplicateWindowMs();
+  const threshold = getNearDuplicateThreshold();
+  let best: NearDuplicateMatch<T> | null = null;
+
+  for (const candidate of candidates) {
+    const createdAt = candidate.createdAt ? new Date(candidate.createdAt).getTime() : 0;
+    if (now - createdAt > windowMs) continue;
+
+    const similarity = textSimilarity(text, candidate.text);
+    if (similarity >= threshold && (!best || similarity > best.similarity)) {
+      best = { item: candidate.item, similarity, minutesAgo: Math.max(0, Math.round((now - createdAt) / 60000)) };
+    }
+  }
+
+  return best;
+}
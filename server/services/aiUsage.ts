@@ -0,0 +1,370 @@
+import { db } from "../db";
+import {
+  aiUsageLedger,
+  aiBudgetAlerts,
+  schoolAiBudgets,
+  dailyStats,
+  schools,
+  users,
+  type AIProviderType,
+  type AIUsageOutcome,
+  type AiBudgetAlert,
+  type InsertSchoolAiBudget,
+  type SchoolAiBudget,
+} from "@shared/schema";
+import { and, desc, eq, gte, isNull, sql } from "drizzle-orm";
+import type { AIClient, ChatCompletionRequest, ChatCompletionResult, TokenUsage } from "./aiProviders";
+
+// AI usage ledger: every provider call attempt made through the key pool is recorded with its
+// token counts, latency, estimated cost and the school/teacher/task it was for. Successful calls
+// also feed dailyStats, and each school's month-to-date spend is checked against its budget.
+
+interface ModelPricing {
+  input: number; // USD per million prompt tokens
+  output: number; // USD per million completion tokens
+}
+
+// List prices at the time of writing; used for estimates only, invoices are the source of truth
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'deepseek-chat': { input: 0.27, output: 1.1 },
+  'deepseek-reasoner': { input: 0.55, output: 2.19 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'claude-3-5-haiku-latest': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet-latest': { input: 3, output: 15 },
+};
+
+// Unknown models are priced like the provider's default model; self-hosted models cost nothing per token
+const PROVIDER_PRICING: Record<AIProviderType, ModelPricing> = {
+  deepseek: MODEL_PRICING['deepseek-chat'],
+  openai: MODEL_PRICING['gpt-4o-mini'],
+  anthropic: MODEL_PRICING['claude-3-5-sonnet-latest'],
+  openai_compatible: { input: 0, output: 0 },
+  local: { input: 0, output: 0 },
+};
+
+export function getModelPricing(provider: AIProviderType, model: string): ModelPricing {
+  return MODEL_PRICING[model] || PROVIDER_PRICING[provider];
+}
+
+export function estimateCostUsd(provider: AIProviderType, model: string, usage: TokenUsage): number {
+  const pricing = getModelPricing(provider, model);
+  return (usage.promptTokens * pricing.input + usage.completionTokens * pricing.output) / 1_000_000;
+}
+
+const CJK_PATTERN = /[㐀-鿿豈-﫿　-〿＀-￯]/g;
+
+// Rough count for providers that don't report usage: ~4 characters per token, one per CJK character
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjkCount = (text.match(CJK_PATTERN) || []).length;
+  return cjkCount + Math.ceil((text.length - cjkCount) / 4);
+}
+
+// The offline evaluation harness runs without a database, so it switches the ledger off
+let ledgerEnabled = true;
+
+export function setUsageLedgerEnabled(enabled: boolean) {
+  ledgerEnabled = enabled;
+}
+
+const currentMonth = (date: Date = new Date()) => date.toISOString().slice(0, 7);
+const startOfMonth = (date: Date = new Date()) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Records one provider call attempt. Failed attempts are stored with zero tokens (providers don't
+ * bill rejected requests) so failover rates stay visible. Never throws - accounting must not
+ * break a teacher's request.
+ */
+export async function recordAIUsage(attempt: {
+  client: AIClient;
+  request: ChatCompletionRequest;
+  outcome: AIUsageOutcome;
+  latencyMs: number;
+  completion?: ChatCompletionResult;
+  errorStatus?: number;
+}): Promise<void> {
+  if (!ledgerEnabled) return;
+
+  const { client, request, outcome, latencyMs, completion } = attempt;
+  const context = request.usageContext;
+  const model = completion?.model || client.model;
+  const reported = completion?.usage;
+  const usage: TokenUsage = outcome !== 'success'
+    ? { promptTokens: 0, completionTokens: 0 }
+    : reported || {
+        promptTokens: estimateTokens(request.systemPrompt) + estimateTokens(request.userPrompt),
+        completionTokens: estimateTokens(completion?.content || ''),
+      };
+  const costUsd = estimateCostUsd(client.provider, model, usage);
+
+  try {
+    let schoolId: string | null = null;
+    if (context?.schoolName) {
+      const [school] = await db.select({ id: schools.id }).from(schools).where(eq(schools.name, context.schoolName)).limit(1);
+      schoolId = school?.id || null;
+    }
+
+    await db.insert(aiUsageLedger).values({
+      provider: client.provider,
+      model,
+      apiKeyId: client.keyId || null,
+      taskType: context?.taskType || 'unknown',
+      schoolId,
+      userId: context?.userId || null,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      totalTokens: usage.promptTokens + usage.completionTokens,
+      tokensEstimated: outcome === 'success' && !reported,
+      estimatedCostUsd: costUsd,
+      latencyMs,
+      outcome,
+      errorStatus: attempt.errorStatus ?? null,
+    });
+
+    if (outcome === 'success') {
+      await recordDailyAIRequest(latencyMs);
+      if (schoolId && costUsd > 0) {
+        await checkSchoolBudget(schoolId);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Failed to record AI usage:', error instanceof Error ? error.message : error);
+  }
+}
+
+// dailyStats keeps a running average so the row never needs the day's individual latencies
+async function recordDailyAIRequest(latencyMs: number): Promise<void> {
+  const date = new Date().toISOString().slice(0, 10);
+  await db
+    .insert(dailyStats)
+    .values({ date, totalAiRequests: 1, averageResponseTime: latencyMs })
+    .onConflictDoUpdate({
+      target: dailyStats.date,
+      set: {
+        averageResponseTime: sql`round((coalesce(${dailyStats.averageResponseTime}, 0) * coalesce(${dailyStats.totalAiRequests}, 0) + ${latencyMs})::numeric / (coalesce(${dailyStats.totalAiRequests}, 0) + 1))`,
+        totalAiRequests: sql`coalesce(${dailyStats.totalAiRequests}, 0) + 1`,
+      },
+    });
+}
+
+async function getMonthToDateSpend(schoolId: string): Promise<number> {
+  const [row] = await db
+    .select({ total: sql<number>`coalesce(sum(${aiUsageLedger.estimatedCostUsd}), 0)` })
+    .from(aiUsageLedger)
+    .where(and(eq(aiUsageLedger.schoolId, schoolId), gte(aiUsageLedger.createdAt, startOfMonth())));
+  return Number(row?.total || 0);
+}
+
+/**
+ * Raises one alert per budget threshold a school has crossed this month. The unique index on
+ * (school, month, threshold) makes concurrent checks safe - only the first insert wins.
+ */
+async function checkSchoolBudget(schoolId: string): Promise<void> {
+  const [budget] = await db.select().from(schoolAiBudgets).where(eq(schoolAiBudgets.schoolId, schoolId));
+  if (!budget || budget.monthlyBudgetUsd <= 0) return;
+
+  const spend = await getMonthToDateSpend(schoolId);
+  const percentUsed = (spend / budget.monthlyBudgetUsd) * 100;
+  const thresholds = ((budget.alertThresholds as number[] | null) || []).filter(threshold => percentUsed >= threshold);
+
+  for (const thresholdPercent of thresholds) {
+    const [alert] = await db
+      .insert(aiBudgetAlerts)
+      .values({ schoolId, month: currentMonth(), thresholdPercent, spendUsd: spend, budgetUsd: budget.monthlyBudgetUsd })
+      .onConflictDoNothing()
+      .returning();
+    if (alert) {
+      console.warn(`💸 School ${schoolId} has used ${Math.round(percentUsed)}% of its $${budget.monthlyBudgetUsd} monthly AI budget (threshold ${thresholdPercent}%)`);
+    }
+  }
+}
+
+export interface AIUsageTotals {
+  requests: number;
+  failedAttempts: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  averageLatencyMs: number;
+}
+
+const totalsColumns = {
+  requests: sql<number>`count(*) filter (where ${aiUsageLedger.outcome} = 'success')`,
+  failedAttempts: sql<number>`count(*) filter (where ${aiUsageLedger.outcome} <> 'success')`,
+  promptTokens: sql<number>`coalesce(sum(${aiUsageLedger.promptTokens}), 0)`,
+  completionTokens: sql<number>`coalesce(sum(${aiUsageLedger.completionTokens}), 0)`,
+  totalTokens: sql<number>`coalesce(sum(${aiUsageLedger.totalTokens}), 0)`,
+  costUsd: sql<number>`coalesce(sum(${aiUsageLedger.estimatedCostUsd}), 0)`,
+  averageLatencyMs: sql<number>`coalesce(avg(${aiUsageLedger.latencyMs}) filter (where ${aiUsageLedger.outcome} = 'success'), 0)`,
+};
+
+// Postgres returns bigint/numeric aggregates as strings
+function toTotals(row: Record<keyof AIUsageTotals, unknown>): AIUsageTotals {
+  return {
+    requests: Number(row.requests),
+    failedAttempts: Number(row.failedAttempts),
+    promptTokens: Number(row.promptTokens),
+    completionTokens: Number(row.completionTokens),
+    totalTokens: Number(row.totalTokens),
+    costUsd: Number(row.costUsd),
+    averageLatencyMs: Math.round(Number(row.averageLatencyMs)),
+  };
+}
+
+/** Usage for the admin dashboard, grouped by day, school, task type, model and teacher. */
+export async function getAIUsageSummary(options: { days?: number; schoolId?: string } = {}) {
+  const days = options.days || 30;
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  const conditions = [gte(aiUsageLedger.createdAt, since)];
+  if (options.schoolId) conditions.push(eq(aiUsageLedger.schoolId, options.schoolId));
+  const where = and(...conditions);
+
+  const day = sql<string>`to_char(${aiUsageLedger.createdAt}, 'YYYY-MM-DD')`;
+
+  const [totals] = await db.select(totalsColumns).from(aiUsageLedger).where(where);
+
+  const daily = await db
+    .select({ date: day, ...totalsColumns })
+    .from(aiUsageLedger)
+    .where(where)
+    .groupBy(day)
+    .orderBy(day);
+
+  const bySchool = await db
+    .select({ schoolId: aiUsageLedger.schoolId, schoolName: schools.name, ...totalsColumns })
+    .from(aiUsageLedger)
+    .leftJoin(schools, eq(aiUsageLedger.schoolId, schools.id))
+    .where(where)
+    .groupBy(aiUsageLedger.schoolId, schools.name)
+    .orderBy(desc(totalsColumns.costUsd));
+
+  const byTaskType = await db
+    .select({ taskType: aiUsageLedger.taskType, ...totalsColumns })
+    .from(aiUsageLedger)
+    .where(where)
+    .groupBy(aiUsageLedger.taskType)
+    .orderBy(desc(totalsColumns.costUsd));
+
+  const byModel = await db
+    .select({ provider: aiUsageLedger.provider, model: aiUsageLedger.model, ...totalsColumns })
+    .from(aiUsageLedger)
+    .where(where)
+    .groupBy(aiUsageLedger.provider, aiUsageLedger.model)
+    .orderBy(desc(totalsColumns.costUsd));
+
+  const topTeachers = await db
+    .select({
+      userId: aiUsageLedger.userId,
+      firstName: users.firstName,
+      lastName: users.lastName,
+      email: users.email,
+      ...totalsColumns,
+    })
+    .from(aiUsageLedger)
+    .innerJoin(users, eq(aiUsageLedger.userId, users.id))
+    .where(where)
+    .groupBy(aiUsageLedger.userId, users.firstName, users.lastName, users.email)
+    .orderBy(desc(totalsColumns.costUsd))
+    .limit(10);
+
+  return {
+    days,
+    totals: toTotals(totals),
+    daily: daily.map(({ date, ...row }) => ({ date, ...toTotals(row) })),
+    bySchool: bySchool.map(({ schoolId, schoolName, ...row }) => ({ schoolId, schoolName: schoolName || 'No school', ...toTotals(row) })),
+    byTaskType: byTaskType.map(({ taskType, ...row }) => ({ taskType, ...toTotals(row) })),
+    byModel: byModel.map(({ provider, model, ...row }) => ({ provider, model, ...toTotals(row) })),
+    topTeachers: topTeachers.map(({ userId, firstName, lastName, email, ...row }) => ({
+      userId,
+      name: [firstName, lastName].filter(Boolean).join(' ') || email,
+      email,
+      ...toTotals(row),
+    })),
+  };
+}
+
+export interface SchoolBudgetStatus {
+  schoolId: string;
+  schoolName: string;
+  budget: SchoolAiBudget | null;
+  monthToDateSpendUsd: number;
+  percentUsed: number | null; // null when the school has no budget
+}
+
+// Every school with its month-to-date spend, budgeted or not
+export async function getSchoolBudgetStatuses(): Promise<SchoolBudgetStatus[]> {
+  const spendRows = await db
+    .select({ schoolId: aiUsageLedger.schoolId, total: sql<number>`coalesce(sum(${aiUsageLedger.estimatedCostUsd}), 0)` })
+    .from(aiUsageLedger)
+    .where(gte(aiUsageLedger.createdAt, startOfMonth()))
+    .groupBy(aiUsageLedger.schoolId);
+  const spendBySchool = new Map(spendRows.map(row => [row.schoolId, Number(row.total)]));
+
+  const rows = await db
+    .select({ school: schools, budget: schoolAiBudgets })
+    .from(schools)
+    .leftJoin(schoolAiBudgets, eq(schoolAiBudgets.schoolId, schools.id))
+    .orderBy(schools.name);
+
+  return rows.map(({ school, budget }) => {
+    const spend = spendBySchool.get(school.id) || 0;
+    return {
+      schoolId: school.id,
+      schoolName: school.name,
+      budget,
+      monthToDateSpendUsd: spend,
+      percentUsed: budget && budget.monthlyBudgetUsd > 0 ? (spend / budget.monthlyBudgetUsd) * 100 : null,
+    };
+  });
+}
+
+export async function upsertSchoolBudget(
+  schoolId: string,
+  data: Pick<InsertSchoolAiBudget, 'monthlyBudgetUsd' | 'alertThresholds'>,
+  updatedBy: string
+): Promise<SchoolAiBudget> {
+  const values = {
+    monthlyBudgetUsd: data.monthlyBudgetUsd,
+    alertThresholds: data.alertThresholds ? Array.from(new Set(data.alertThresholds)).sort((a, b) => a - b) : [80, 100],
+    updatedBy,
+  };
+
+  const [budget] = await db
+    .insert(schoolAiBudgets)
+    .values({ schoolId, ...values })
+    .onConflictDoUpdate({ target: schoolAiBudgets.schoolId, set: { ...values, updatedAt: new Date() } })
+    .returning();
+
+  // A lower budget may already be exceeded this month
+  await checkSchoolBudget(schoolId);
+  return budget;
+}
+
+export async function deleteSchoolBudget(schoolId: string): Promise<boolean> {
+  const deleted = await db.delete(schoolAiBudgets).where(eq(schoolAiBudgets.schoolId, schoolId)).returning({ id: schoolAiBudgets.id });
+  return deleted.length > 0;
+}
+
+export async function getBudgetAlerts(options: { unacknowledgedOnly?: boolean; limit?: number } = {}) {
+  return await db
+    .select({ alert: aiBudgetAlerts, schoolName: schools.name })
+    .from(aiBudgetAlerts)
+    .leftJoin(schools, eq(aiBudgetAlerts.schoolId, schools.id))
+    .where(options.unacknowledgedOnly ? isNull(aiBudgetAlerts.acknowledgedAt) : undefined)
+    .orderBy(desc(aiBudgetAlerts.createdAt))
+    .limit(options.limit || 50)
+    .then(rows => rows.map(({ alert, schoolName }) => ({ ...alert, schoolName })));
+}
+
+export async function acknowledgeBudgetAlert(id: string, adminId: string): Promise<AiBudgetAlert | undefined> {
+  const [alert] = await db
+    .update(aiBudgetAlerts)
+    .set({ acknowledgedBy: adminId, acknowledgedAt: new Date() })
+    .where(and(eq(aiBudgetAlerts.id, id), isNull(aiBudgetAlerts.acknowledgedAt)))
+    .returning();
+  return alert;
+}
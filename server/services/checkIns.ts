@@ -0,0 +1,339 @@
+import { db } from "../db";
+import {
+  concerns,
+  interventions,
+  progressNotes,
+  users,
+  type CheckInItem,
+  type CheckInStatus,
+  type CompleteCheckIn,
+  type Intervention,
+  type ProgressNote,
+} from "@shared/schema";
+import { and, asc, eq, inArray, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import { escapeHtml } from "./safeguardingConfig";
+import { findInterventionAccess } from "./collaboration";
+
+// Progress check-ins for saved interventions. Saving an intervention starts a cadence derived from
+// its timeline; each check-in (a progress note or a goal data point) moves the next one on. Teachers
+// see their schedule as a to-do list, are emailed once when a check-in falls due, and overdue
+// check-ins roll up to the admin dashboard.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Check-ins due within this many days are flagged as due soon on the to-do list
+const DUE_SOON_DAYS = 2;
+
+export class CheckInInterventionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Intervention ${id} not found`);
+    this.name = 'CheckInInterventionNotFoundError';
+  }
+}
+
+export class CheckInNotScheduledError extends Error {
+  constructor() {
+    super('This intervention has no check-in schedule. Save it first.');
+    this.name = 'CheckInNotScheduledError';
+  }
+}
+
+/**
+ * Picks a check-in cadence from an intervention timeline such as "2-6 weeks", "Days 1-14" or
+ * "Ongoing": short plans are checked every few days, month-long plans weekly, longer or open-ended
+ * plans fortnightly. Unrecognised timelines get a weekly check-in.
+ */
+export function checkInIntervalFromTimeline(timeline: string | null | undefined): number {
+  const text = (timeline || '').toLowerCase();
+  if (/ongoing|year|term|semester/.test(text)) return 14;
+
+  const numbers = (text.match(/\d+/g) || []).map(Number);
+  if (numbers.length === 0) return 7;
+
+  const longest = Math.max(...numbers);
+  const days = /month/.test(text) ? longest * 30 : /week/.test(text) ? longest * 7 : /day/.test(text) ? longest : longest * 7;
+  if (days <= 14) return 3;
+  if (days <= 56) return 7;
+  return 14;
+}
+
+function checkInStatus(nextCheckInAt: Date, now: Date): { status: CheckInStatus; daysOverdue: number } {
+  const diff = new Date(nextCheckInAt).getTime() - now.getTime();
+  if (diff <= 0) return { status: 'overdue', daysOverdue: Math.floor(-diff / DAY_MS) };
+  return { status: diff <= DUE_SOON_DAYS * DAY_MS ? 'due_soon' : 'upcoming', daysOverdue: 0 };
+}
+
+// Check-ins are the concern owner's to do; colleagues it is shared with only read the notes they leave
+async function getOwnedIntervention(interventionId: string, userId: string): Promise<Intervention> {
+  const found = await findInterventionAccess(interventionId, userId);
+  if (!found || found.access !== 'owner') throw new CheckInInterventionNotFoundError(interventionId);
+  return found.intervention;
+}
+
+/**
+ * Starts the check-in schedule for a newly saved intervention. Saving again keeps the existing
+ * schedule, including a cadence the teacher has changed or stopped.
+ */
+export async function startCheckInSchedule(intervention: Intervention, now = new Date()): Promise<Intervention> {
+  if (intervention.checkInIntervalDays || intervention.lastCheckInAt) return intervention;
+
+  const intervalDays = checkInIntervalFromTimeline(intervention.timeline);
+  const [scheduled] = await db
+    .update(interventions)
+    .set({
+      checkInIntervalDays: intervalDays,
+      nextCheckInAt: new Date(now.getTime() + intervalDays * DAY_MS),
+      checkInReminderSentAt: null,
+    })
+    .where(eq(interventions.id, intervention.id))
+    .returning();
+  return scheduled;
+}
+
+/**
+ * Marks the intervention as checked in and schedules the next check-in one interval from now.
+ * Interventions without a schedule are left alone.
+ */
+export async function recordCheckIn(interventionId: string, now = new Date()): Promise<void> {
+  await db
+    .update(interventions)
+    .set({
+      lastCheckInAt: now,
+      nextCheckInAt: sql`${now.toISOString()}::timestamp + make_interval(days => ${interventions.checkInIntervalDays})`,
+      checkInReminderSentAt: null,
+    })
+    .where(and(eq(interventions.id, interventionId), isNotNull(interventions.checkInIntervalDays)));
+}
+
+// Records a check-in from the to-do list as a progress note on the intervention
+export async function completeCheckIn(interventionId: string, userId: string, input: CompleteCheckIn): Promise<ProgressNote> {
+  const intervention = await getOwnedIntervention(interventionId, userId);
+  if (!intervention.checkInIntervalDays) throw new CheckInNotScheduledError();
+
+  const [note] = await db
+    .insert(progressNotes)
+    .values({
+      interventionId,
+      teacherId: userId,
+      note: input.note,
+      outcome: input.outcome || null,
+      nextSteps: input.nextSteps || null,
+    })
+    .returning();
+  await recordCheckIn(interventionId);
+  return note;
+}
+
+// Changes how often the teacher is asked to check in; null stops reminders for the intervention
+export async function updateCheckInSchedule(interventionId: string, userId: string, intervalDays: number | null): Promise<Intervention> {
+  const intervention = await getOwnedIntervention(interventionId, userId);
+  const from = intervention.lastCheckInAt ? new Date(intervention.lastCheckInAt) : new Date();
+
+  const [updated] = await db
+    .update(interventions)
+    .set({
+      checkInIntervalDays: intervalDays,
+      nextCheckInAt: intervalDays ? new Date(Math.max(from.getTime() + intervalDays * DAY_MS, Date.now())) : null,
+      checkInReminderSentAt: null,
+    })
+    .where(eq(interventions.id, interventionId))
+    .returning();
+  return updated;
+}
+
+const scheduledCheckIns = and(
+  eq(interventions.saved, true),
+  isNotNull(interventions.checkInIntervalDays),
+  isNotNull(interventions.nextCheckInAt)
+);
+
+// The teacher's to-do list: every scheduled check-in on their own concerns, soonest (most overdue) first
+export async function listTeacherCheckIns(userId: string, now = new Date()): Promise<CheckInItem[]> {
+  const rows = await db
+    .select({
+      interventionId: interventions.id,
+      interventionTitle: interventions.title,
+      concernId: concerns.id,
+      studentFirstName: concerns.studentFirstName,
+      studentLastInitial: concerns.studentLastInitial,
+      intervalDays: interventions.checkInIntervalDays,
+      nextCheckInAt: interventions.nextCheckInAt,
+      lastCheckInAt: interventions.lastCheckInAt,
+    })
+    .from(interventions)
+    .innerJoin(concerns, eq(interventions.concernId, concerns.id))
+    .where(and(scheduledCheckIns, eq(concerns.teacherId, userId)))
+    .orderBy(asc(interventions.nextCheckInAt));
+
+  return rows.map(row => ({
+    interventionId: row.interventionId,
+    interventionTitle: row.interventionTitle,
+    concernId: row.concernId,
+    studentLabel: `${row.studentFirstName} ${row.studentLastInitial}.`,
+    intervalDays: row.intervalDays!,
+    nextCheckInAt: row.nextCheckInAt!,
+    lastCheckInAt: row.lastCheckInAt,
+    ...checkInStatus(row.nextCheckInAt!, now),
+  }));
+}
+
+export interface OverdueCheckIn extends CheckInItem {
+  teacherId: string;
+  teacherName: string;
+  teacherEmail: string;
+  school: string | null;
+}
+
+export interface SchoolCheckInSummary {
+  school: string | null;
+  overdue: number;
+  teachers: number;
+  longestDaysOverdue: number;
+}
+
+// Admin roll-up of overdue check-ins per school (users.school), with the individual check-ins
+export async function getOverdueCheckInSummary(school?: string, now = new Date()): Promise<{ schools: SchoolCheckInSummary[]; overdue: OverdueCheckIn[] }> {
+  const rows = await db
+    .select({
+      interventionId: interventions.id,
+      interventionTitle: interventions.title,
+      concernId: concerns.id,
+      studentFirstName: concerns.studentFirstName,
+      studentLastInitial: concerns.studentLastInitial,
+      intervalDays: interventions.checkInIntervalDays,
+      nextCheckInAt: interventions.nextCheckInAt,
+      lastCheckInAt: interventions.lastCheckInAt,
+      teacherId: users.id,
+      teacherFirstName: users.firstName,
+      teacherLastName: users.lastName,
+      teacherEmail: users.email,
+      school: users.school,
+    })
+    .from(interventions)
+    .innerJoin(concerns, eq(interventions.concernId, concerns.id))
+    .innerJoin(users, eq(concerns.teacherId, users.id))
+    .where(and(
+      scheduledCheckIns,
+      lte(interventions.nextCheckInAt, now),
+      eq(users.isActive, true),
+      school ? eq(users.school, school) : undefined
+    ))
+    .orderBy(asc(interventions.nextCheckInAt));
+
+  const overdue: OverdueCheckIn[] = rows.map(row => ({
+    interventionId: row.interventionId,
+    interventionTitle: row.interventionTitle,
+    concernId: row.concernId,
+    studentLabel: `${row.studentFirstName} ${row.studentLastInitial}.`,
+    intervalDays: row.intervalDays!,
+    nextCheckInAt: row.nextCheckInAt!,
+    lastCheckInAt: row.lastCheckInAt,
+    ...checkInStatus(row.nextCheckInAt!, now),
+    teacherId: row.teacherId,
+    teacherName: [row.teacherFirstName, row.teacherLastName].filter(Boolean).join(' ') || row.teacherEmail,
+    teacherEmail: row.teacherEmail,
+    school: row.school,
+  }));
+
+  const summaries = new Map<string, SchoolCheckInSummary & { teacherIds: Set<string> }>();
+  overdue.forEach(item => {
+    const key = item.school || '';
+    if (!summaries.has(key)) summaries.set(key, { school: item.school, overdue: 0, teachers: 0, longestDaysOverdue: 0, teacherIds: new Set() });
+    const summary = summaries.get(key)!;
+    summary.overdue++;
+    summary.teacherIds.add(item.teacherId);
+    summary.longestDaysOverdue = Math.max(summary.longestDaysOverdue, item.daysOverdue);
+  });
+
+  const schools = Array.from(summaries.values())
+    .map(({ teacherIds, ...summary }) => ({ ...summary, teachers: teacherIds.size }))
+    .sort((a, b) => b.overdue - a.overdue);
+
+  return { schools, overdue };
+}
+
+/**
+ * Emails each teacher one reminder listing their check-ins that have fallen due and haven't been
+ * emailed yet. Called by the check-in reminder processor; returns how many check-ins were emailed.
+ * Check-ins that couldn't be emailed stay unmarked so they go out once email works.
+ */
+export async function sendDueCheckInReminders(now = new Date()): Promise<number> {
+  const due = await db
+    .select({
+      interventionId: interventions.id,
+      interventionTitle: interventions.title,
+      concernId: concerns.id,
+      studentFirstName: concerns.studentFirstName,
+      studentLastInitial: concerns.studentLastInitial,
+      nextCheckInAt: interventions.nextCheckInAt,
+      teacherId: users.id,
+      teacherFirstName: users.firstName,
+      teacherEmail: users.email,
+    })
+    .from(interventions)
+    .innerJoin(concerns, eq(interventions.concernId, concerns.id))
+    .innerJoin(users, eq(concerns.teacherId, users.id))
+    .where(and(
+      scheduledCheckIns,
+      lte(interventions.nextCheckInAt, now),
+      isNull(interventions.checkInReminderSentAt),
+      eq(users.isActive, true)
+    ))
+    .orderBy(asc(interventions.nextCheckInAt));
+  if (due.length === 0) return 0;
+
+  const byTeacher = new Map<string, typeof due>();
+  due.forEach(row => {
+    if (!byTeacher.has(row.teacherId)) byTeacher.set(row.teacherId, []);
+    byTeacher.get(row.teacherId)!.push(row);
+  });
+
+  const { getEmailTransporter } = await import('./email');
+  const baseUrl = process.env.BASE_URL || '';
+  let emailed = 0;
+
+  for (const [teacherId, items] of Array.from(byTeacher.entries())) {
+    const emailSetup = await getEmailTransporter(teacherId);
+    if (!emailSetup) {
+      console.warn(`⚠️ Email not configured - ${items.length} check-in reminder(s) for teacher ${teacherId} not sent`);
+      continue;
+    }
+
+    const { transporter, fromAddress, fromName } = emailSetup;
+    const teacher = items[0];
+    const list = items.map(item => {
+      const link = baseUrl ? ` - <a href="${escapeHtml(`${baseUrl}/concerns/${item.concernId}`)}">open</a>` : '';
+      return `<li><strong>${escapeHtml(`${item.studentFirstName} ${item.studentLastInitial}.`)}</strong>: ${escapeHtml(item.interventionTitle)} (due ${new Date(item.nextCheckInAt!).toLocaleDateString()})${link}</li>`;
+    }).join('');
+
+    try {
+      await transporter.sendMail({
+        from: `${fromName} <${fromAddress}>`,
+        to: teacher.teacherEmail,
+        subject: items.length === 1
+          ? `Progress check-in due for ${teacher.studentFirstName} ${teacher.studentLastInitial}.`
+          : `${items.length} progress check-ins due`,
+        html: `
+          <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+            <h2 style="color: #4f46e5;">Time to check in on progress</h2>
+            <p>Hello ${escapeHtml(teacher.teacherFirstName || 'there')},</p>
+            <p>The following interventions are due a progress check-in:</p>
+            <ul>${list}</ul>
+            <p>Log in to Concern2Care to record how each one is going. Check-ins you record move the next reminder on automatically.</p>
+          </div>
+        `,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to email check-in reminder to ${teacher.teacherEmail}:`, error instanceof Error ? error.message : error);
+      continue;
+    }
+
+    await db
+      .update(interventions)
+      .set({ checkInReminderSentAt: now })
+      .where(inArray(interventions.id, items.map(item => item.interventionId)));
+    emailed += items.length;
+  }
+
+  return emailed;
+}
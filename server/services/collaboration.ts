@@ -0,0 +1,431 @@
+import { db } from "../db";
+import {
+  concernComments,
+  concernShares,
+  concerns,
+  interventions,
+  userNotifications,
+  users,
+  type BulkShareConcerns,
+  type Concern,
+  type ConcernAccessLevel,
+  type ConcernCollaborator,
+  type ConcernCommentWithAuthor,
+  type ConcernShare,
+  type ConcernShareAccess,
+  type ConcernShareRole,
+  type CreateConcernComment,
+  type Intervention,
+  type ShareConcern,
+  type SharedConcernSummary,
+  type User,
+  type UserNotificationType,
+  type UserNotificationWithContext,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, inArray, isNull, ne, or, sql } from "drizzle-orm";
+
+// In-app case collaboration. A teacher can give colleagues at their school view or contribute access
+// to one of their concerns; everyone with access can read the comment threads on the concern and its
+// interventions, and contributors can post. Shares, @mentions and replies raise in-app notifications.
+
+export class CollaborationConcernNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Concern ${id} not found`);
+    this.name = 'CollaborationConcernNotFoundError';
+  }
+}
+
+export class CollaborationAccessDeniedError extends Error {
+  constructor(message = 'Access denied') {
+    super(message);
+    this.name = 'CollaborationAccessDeniedError';
+  }
+}
+
+export class ShareRecipientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShareRecipientError';
+  }
+}
+
+export class CommentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Comment ${id} not found`);
+    this.name = 'CommentNotFoundError';
+  }
+}
+
+export class CommentTargetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CommentTargetError';
+  }
+}
+
+const ROLE_LABELS: Record<ConcernShareRole, string> = {
+  counselor: 'counselor',
+  senco: 'SENCO',
+  co_teacher: 'co-teacher',
+  specialist: 'specialist',
+  administrator: 'administrator',
+};
+
+function displayName(user: Pick<User, 'firstName' | 'lastName' | 'email'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+function studentName(concern: Pick<Concern, 'studentFirstName' | 'studentLastInitial'>): string {
+  return `${concern.studentFirstName} ${concern.studentLastInitial}.`;
+}
+
+const sameSchool = (a: string | null | undefined, b: string | null | undefined) =>
+  Boolean(a?.trim() && b?.trim() && a.trim().toLowerCase() === b.trim().toLowerCase());
+
+/**
+ * The caller's access to a concern: 'owner' for the teacher who raised it, otherwise the access level
+ * it was shared with them at. Throws when the concern doesn't exist or isn't shared with them.
+ */
+export async function getConcernAccess(concernId: string, userId: string): Promise<{ concern: Concern; access: ConcernAccessLevel }> {
+  const [row] = await db
+    .select({ concern: concerns, share: concernShares })
+    .from(concerns)
+    .leftJoin(concernShares, and(eq(concernShares.concernId, concerns.id), eq(concernShares.userId, userId)))
+    .where(eq(concerns.id, concernId))
+    .limit(1);
+  if (!row) throw new CollaborationConcernNotFoundError(concernId);
+  if (row.concern.teacherId === userId) return { concern: row.concern, access: 'owner' };
+  if (!row.share) throw new CollaborationAccessDeniedError();
+  return { concern: row.concern, access: row.share.access as ConcernShareAccess };
+}
+
+/**
+ * An intervention with the caller's access to its concern, or null when it doesn't exist or the
+ * concern isn't theirs or shared with them. Goals, fidelity, plan history and progress notes are
+ * readable by everyone with access; callers keep changes to the owner.
+ */
+export async function findInterventionAccess(
+  interventionId: string,
+  userId: string
+): Promise<{ intervention: Intervention; concern: Concern; access: ConcernAccessLevel } | null> {
+  const [intervention] = await db.select().from(interventions).where(eq(interventions.id, interventionId)).limit(1);
+  if (!intervention) return null;
+  try {
+    return { intervention, ...await getConcernAccess(intervention.concernId, userId) };
+  } catch (error: any) {
+    if (error?.name === 'CollaborationConcernNotFoundError' || error?.name === 'CollaborationAccessDeniedError') return null;
+    throw error;
+  }
+}
+
+async function getOwnedConcern(concernId: string, userId: string): Promise<Concern> {
+  const { concern, access } = await getConcernAccess(concernId, userId);
+  if (access !== 'owner') throw new CollaborationAccessDeniedError('Only the teacher who raised this concern can manage who it is shared with');
+  return concern;
+}
+
+async function notify(entries: {
+  userId: string;
+  type: UserNotificationType;
+  concernId: string;
+  commentId?: string;
+  actorId: string;
+  message: string;
+}[]): Promise<void> {
+  if (entries.length === 0) return;
+  await db.insert(userNotifications).values(entries);
+}
+
+export async function listCollaborators(concernId: string, userId: string): Promise<ConcernCollaborator[]> {
+  const { concern } = await getConcernAccess(concernId, userId);
+  const [[owner], shares] = await Promise.all([
+    db.select().from(users).where(eq(users.id, concern.teacherId)).limit(1),
+    db
+      .select({ share: concernShares, user: users })
+      .from(concernShares)
+      .innerJoin(users, eq(concernShares.userId, users.id))
+      .where(eq(concernShares.concernId, concernId))
+      .orderBy(asc(concernShares.createdAt)),
+  ]);
+
+  const collaborators: ConcernCollaborator[] = shares.map(({ share, user }) => ({
+    userId: user.id,
+    name: displayName(user),
+    email: user.email,
+    access: share.access as ConcernShareAccess,
+    role: share.role as ConcernShareRole,
+    shareId: share.id,
+    sharedAt: share.createdAt,
+  }));
+  if (owner) {
+    collaborators.unshift({ userId: owner.id, name: displayName(owner), email: owner.email, access: 'owner', role: null, shareId: null, sharedAt: null });
+  }
+  return collaborators;
+}
+
+// Active colleagues at the teacher's school, for the share dialog's suggestions
+export async function searchColleagues(userId: string, search?: string): Promise<Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'teacherType'>[]> {
+  const [me] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (!me?.school?.trim()) return [];
+  const term = search?.trim().toLowerCase();
+  return db
+    .select({ id: users.id, email: users.email, firstName: users.firstName, lastName: users.lastName, teacherType: users.teacherType })
+    .from(users)
+    .where(and(
+      ne(users.id, userId),
+      eq(users.isActive, true),
+      sql`lower(trim(${users.school})) = ${me.school.trim().toLowerCase()}`,
+      term ? or(
+        sql`lower(${users.email}) like ${`%${term}%`}`,
+        sql`lower(coalesce(${users.firstName}, '') || ' ' || coalesce(${users.lastName}, '')) like ${`%${term}%`}`
+      ) : undefined
+    ))
+    .orderBy(asc(users.firstName), asc(users.lastName))
+    .limit(10);
+}
+
+async function resolveColleague(owner: User, email: string): Promise<User> {
+  const [colleague] = await db
+    .select()
+    .from(users)
+    .where(sql`lower(${users.email}) = ${email.toLowerCase()}`)
+    .limit(1);
+  if (!colleague || colleague.isActive === false) {
+    throw new ShareRecipientError(`No Concern2Care account was found for ${email}. Your colleague needs an account at your school before you can share with them.`);
+  }
+  if (colleague.id === owner.id) throw new ShareRecipientError('You already have access to your own concerns.');
+  if (!sameSchool(owner.school, colleague.school)) {
+    throw new ShareRecipientError('Concerns can only be shared with colleagues at your school.');
+  }
+  return colleague;
+}
+
+async function grantShare(concern: Concern, owner: User, colleague: User, input: ShareConcern, note?: string): Promise<ConcernShare> {
+  const [existing] = await db
+    .select()
+    .from(concernShares)
+    .where(and(eq(concernShares.concernId, concern.id), eq(concernShares.userId, colleague.id)))
+    .limit(1);
+
+  const [share] = await db
+    .insert(concernShares)
+    .values({ concernId: concern.id, userId: colleague.id, role: input.role, access: input.access, grantedBy: owner.id })
+    .onConflictDoUpdate({
+      target: [concernShares.concernId, concernShares.userId],
+      set: { role: input.role, access: input.access, updatedAt: new Date() },
+    })
+    .returning();
+
+  if (!existing || existing.access !== input.access) {
+    const access = input.access === 'contribute' ? 'contribute to' : 'view';
+    const message = existing
+      ? `${displayName(owner)} changed your access to the concern for ${studentName(concern)}: you can now ${access} it.`
+      : `${displayName(owner)} shared the concern for ${studentName(concern)} with you as ${ROLE_LABELS[input.role]}. You can ${access} it.`;
+    await notify([{
+      userId: colleague.id,
+      type: 'concern_shared',
+      concernId: concern.id,
+      actorId: owner.id,
+      message: note ? `${message} "${note}"` : message,
+    }]);
+  }
+  return share;
+}
+
+async function getUser(userId: string): Promise<User> {
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) throw new CollaborationAccessDeniedError();
+  return user;
+}
+
+export async function shareConcern(concernId: string, ownerId: string, input: ShareConcern): Promise<ConcernShare> {
+  const concern = await getOwnedConcern(concernId, ownerId);
+  const owner = await getUser(ownerId);
+  const colleague = await resolveColleague(owner, input.email);
+  const share = await grantShare(concern, owner, colleague, input);
+  console.log(`🤝 Concern ${concernId} shared with user ${colleague.id} (${input.access}) by ${ownerId}`);
+  return share;
+}
+
+// Shares several of the teacher's concerns with one colleague; nothing is shared unless all are theirs
+export async function shareConcerns(ownerId: string, input: BulkShareConcerns): Promise<{ colleague: string; shared: number }> {
+  const concernIds = Array.from(new Set(input.concernIds));
+  const owned = await db
+    .select()
+    .from(concerns)
+    .where(and(inArray(concerns.id, concernIds), eq(concerns.teacherId, ownerId)));
+  if (owned.length !== concernIds.length) {
+    throw new CollaborationAccessDeniedError('Access denied to one or more concerns');
+  }
+
+  const owner = await getUser(ownerId);
+  const colleague = await resolveColleague(owner, input.email);
+  for (const concern of owned) {
+    await grantShare(concern, owner, colleague, input, input.message);
+  }
+  console.log(`🤝 ${owned.length} concerns shared with user ${colleague.id} (${input.access}) by ${ownerId}`);
+  return { colleague: displayName(colleague), shared: owned.length };
+}
+
+export async function revokeConcernShare(concernId: string, ownerId: string, shareId: string): Promise<void> {
+  await getOwnedConcern(concernId, ownerId);
+  const [share] = await db
+    .delete(concernShares)
+    .where(and(eq(concernShares.id, shareId), eq(concernShares.concernId, concernId)))
+    .returning();
+  if (!share) throw new ShareRecipientError('This colleague no longer has access to the concern.');
+
+  // Their notifications would only lead to a concern they can no longer open
+  await db
+    .delete(userNotifications)
+    .where(and(eq(userNotifications.userId, share.userId), eq(userNotifications.concernId, concernId)));
+  console.log(`🤝 Access to concern ${concernId} revoked for user ${share.userId} by ${ownerId}`);
+}
+
+export async function listSharedConcerns(userId: string): Promise<SharedConcernSummary[]> {
+  const rows = await db
+    .select({ share: concernShares, concern: concerns, owner: users })
+    .from(concernShares)
+    .innerJoin(concerns, eq(concernShares.concernId, concerns.id))
+    .innerJoin(users, eq(concerns.teacherId, users.id))
+    .where(eq(concernShares.userId, userId))
+    .orderBy(desc(concernShares.createdAt));
+
+  return rows.map(({ share, concern, owner }) => ({
+    concernId: concern.id,
+    studentFirstName: concern.studentFirstName,
+    studentLastInitial: concern.studentLastInitial,
+    ownerName: displayName(owner),
+    role: share.role as ConcernShareRole,
+    access: share.access as ConcernShareAccess,
+    sharedAt: share.createdAt,
+  }));
+}
+
+export async function listComments(concernId: string, userId: string): Promise<ConcernCommentWithAuthor[]> {
+  await getConcernAccess(concernId, userId);
+  const rows = await db
+    .select({ comment: concernComments, author: users })
+    .from(concernComments)
+    .innerJoin(users, eq(concernComments.authorId, users.id))
+    .where(eq(concernComments.concernId, concernId))
+    .orderBy(asc(concernComments.createdAt));
+  return rows.map(({ comment, author }) => ({ ...comment, authorName: displayName(author) }));
+}
+
+/**
+ * Posts a comment or reply. Replies to a reply join the top-level comment's thread, and @mentions of
+ * anyone who can't see the concern are dropped. The mentioned users, the author of the comment being
+ * replied to and the concern's owner are notified once each.
+ */
+export async function addComment(concernId: string, userId: string, input: CreateConcernComment): Promise<ConcernCommentWithAuthor> {
+  const { concern, access } = await getConcernAccess(concernId, userId);
+  if (access === 'view') throw new CollaborationAccessDeniedError('You have view-only access to this concern');
+
+  let interventionId = input.interventionId || null;
+  let parent: { id: string; authorId: string } | null = null;
+  if (input.parentId) {
+    const [parentComment] = await db
+      .select()
+      .from(concernComments)
+      .where(and(eq(concernComments.id, input.parentId), eq(concernComments.concernId, concernId)))
+      .limit(1);
+    if (!parentComment) throw new CommentTargetError('The comment you are replying to no longer exists');
+    parent = { id: parentComment.parentId || parentComment.id, authorId: parentComment.authorId };
+    interventionId = parentComment.interventionId;
+  } else if (interventionId) {
+    const [intervention] = await db
+      .select({ id: interventions.id })
+      .from(interventions)
+      .where(and(eq(interventions.id, interventionId), eq(interventions.concernId, concernId)))
+      .limit(1);
+    if (!intervention) throw new CommentTargetError('That intervention does not belong to this concern');
+  }
+
+  const collaborators = await listCollaborators(concernId, userId);
+  const canSee = new Set(collaborators.map(collaborator => collaborator.userId));
+  const mentions = Array.from(new Set(input.mentions)).filter(id => id !== userId && canSee.has(id));
+
+  const [comment] = await db
+    .insert(concernComments)
+    .values({ concernId, interventionId, parentId: parent?.id || null, authorId: userId, body: input.body, mentions })
+    .returning();
+
+  const author = collaborators.find(collaborator => collaborator.userId === userId)?.name || 'A colleague';
+  const student = studentName(concern);
+  const recipients = new Map<string, { type: UserNotificationType; message: string }>();
+  mentions.forEach(id => recipients.set(id, { type: 'mention', message: `${author} mentioned you in a comment on the concern for ${student}.` }));
+  if (parent && parent.authorId !== userId && !recipients.has(parent.authorId) && canSee.has(parent.authorId)) {
+    recipients.set(parent.authorId, { type: 'reply', message: `${author} replied to your comment on the concern for ${student}.` });
+  }
+  if (concern.teacherId !== userId && !recipients.has(concern.teacherId)) {
+    recipients.set(concern.teacherId, { type: 'comment', message: `${author} commented on the concern for ${student}.` });
+  }
+  await notify(Array.from(recipients.entries()).map(([recipient, { type, message }]) => ({
+    userId: recipient,
+    type,
+    concernId,
+    commentId: comment.id,
+    actorId: userId,
+    message,
+  })));
+
+  return { ...comment, authorName: author };
+}
+
+// Authors can delete their own comments and the owner can delete any; replies go with their thread
+export async function deleteComment(concernId: string, commentId: string, userId: string): Promise<void> {
+  const { access } = await getConcernAccess(concernId, userId);
+  const [comment] = await db
+    .select()
+    .from(concernComments)
+    .where(and(eq(concernComments.id, commentId), eq(concernComments.concernId, concernId)))
+    .limit(1);
+  if (!comment) throw new CommentNotFoundError(commentId);
+  if (comment.authorId !== userId && access !== 'owner') {
+    throw new CollaborationAccessDeniedError('You can only delete your own comments');
+  }
+  await db
+    .delete(concernComments)
+    .where(or(eq(concernComments.id, commentId), eq(concernComments.parentId, commentId)));
+}
+
+const NOTIFICATION_LIMIT = 50;
+
+export async function listNotifications(userId: string): Promise<{ notifications: UserNotificationWithContext[]; unread: number }> {
+  const [rows, [unread]] = await Promise.all([
+    db
+      .select({ notification: userNotifications, concern: concerns, actor: users })
+      .from(userNotifications)
+      .innerJoin(concerns, eq(userNotifications.concernId, concerns.id))
+      .leftJoin(users, eq(userNotifications.actorId, users.id))
+      .where(eq(userNotifications.userId, userId))
+      .orderBy(desc(userNotifications.createdAt))
+      .limit(NOTIFICATION_LIMIT),
+    db
+      .select({ count: count() })
+      .from(userNotifications)
+      .where(and(eq(userNotifications.userId, userId), isNull(userNotifications.readAt))),
+  ]);
+
+  return {
+    notifications: rows.map(({ notification, concern, actor }) => ({
+      ...notification,
+      actorName: actor ? displayName(actor) : null,
+      studentName: studentName(concern),
+    })),
+    unread: Number(unread?.count || 0),
+  };
+}
+
+// Marks one notification, or all of the user's notifications when no id is given, as read
+export async function markNotificationsRead(userId: string, notificationId?: string): Promise<void> {
+  await db
+    .update(userNotifications)
+    .set({ readAt: new Date() })
+    .where(and(
+      eq(userNotifications.userId, userId),
+      isNull(userNotifications.readAt),
+      notificationId ? eq(userNotifications.id, notificationId) : undefined
+    ));
+}
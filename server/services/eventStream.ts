@@ -0,0 +1,56 @@
+import type { Request, Response } from "express";
+
+// Minimal Server-Sent Events support for routes that stream AI output to the browser.
+// Clients opt in with `Accept: text/event-stream`; everyone else keeps getting plain JSON.
+
+export interface EventStream {
+  send: (event: string, data: unknown) => void;
+  close: () => void;
+  isOpen: () => boolean;
+}
+
+export function wantsEventStream(req: Request): boolean {
+  return (req.headers.accept || '').includes('text/event-stream');
+}
+
+export function openEventStream(res: Response): EventStream {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Stop proxies from buffering the stream
+  res.flushHeaders();
+
+  let open = true;
+  // compression() buffers output; it adds res.flush() so each event can be pushed immediately
+  const write = (chunk: string) => {
+    res.write(chunk);
+    (res as Response & { flush?: () => void }).flush?.();
+  };
+
+  // Comment lines keep idle connections from being dropped while the model is thinking
+  const heartbeat = setInterval(() => {
+    if (open) write(': keep-alive\n\n');
+  }, 15000);
+
+  // res (not req) closes when the browser disconnects; req closes as soon as the body is read
+  res.on('close', () => {
+    open = false;
+    clearInterval(heartbeat);
+  });
+
+  return {
+    send: (event, data) => {
+      if (!open) return;
+      write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close: () => {
+      clearInterval(heartbeat);
+      if (open) {
+        open = false;
+        res.end();
+      }
+    },
+    isOpen: () => open,
+  };
+}
@@ -0,0 +1,193 @@
+import { db } from "../db";
+import {
+  fidelityLogs,
+  interventions,
+  progressNotes,
+  FIDELITY_FREQUENCIES,
+  type FidelityFrequency,
+  type FidelityLog,
+  type FidelityPeriod,
+  type FidelitySummary,
+  type Intervention,
+  type RecordFidelity,
+} from "@shared/schema";
+import { and, asc, eq, inArray, isNotNull } from "drizzle-orm";
+import { findInterventionAccess } from "./collaboration";
+
+// Implementation fidelity for saved interventions. Each step of the plan becomes a checklist item the
+// teacher ticks off once per day or week; the share of steps carried out in each period gives the
+// fidelity percentage over time, which is shown next to the progress note outcomes so a plan that
+// "didn't work" can be told apart from one that wasn't carried out.
+
+export class FidelityInterventionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Intervention ${id} not found`);
+    this.name = 'FidelityInterventionNotFoundError';
+  }
+}
+
+export class FidelityNotSavedError extends Error {
+  constructor() {
+    super('Save this intervention before tracking its implementation.');
+    this.name = 'FidelityNotSavedError';
+  }
+}
+
+export class FidelityPeriodError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FidelityPeriodError';
+  }
+}
+
+function frequencyOf(intervention: Pick<Intervention, 'fidelityFrequency'>): FidelityFrequency {
+  return (FIDELITY_FREQUENCIES as readonly string[]).includes(intervention.fidelityFrequency)
+    ? intervention.fidelityFrequency as FidelityFrequency
+    : 'weekly';
+}
+
+function stepsOf(intervention: Pick<Intervention, 'steps'>): string[] {
+  return Array.isArray(intervention.steps) ? intervention.steps.map(String) : [];
+}
+
+// The day (YYYY-MM-DD, UTC) a checklist period starts on: the day itself, or the Monday of its week
+export function fidelityPeriodStart(date: Date, frequency: FidelityFrequency): string {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (frequency === 'weekly') {
+    day.setUTCDate(day.getUTCDate() - (day.getUTCDay() + 6) % 7);
+  }
+  return day.toISOString().slice(0, 10);
+}
+
+function toPeriod(log: Pick<FidelityLog, 'periodStart' | 'completedSteps' | 'totalSteps'>): FidelityPeriod {
+  const completedSteps = Array.isArray(log.completedSteps) ? log.completedSteps.filter((step): step is number => typeof step === 'number') : [];
+  return {
+    periodStart: log.periodStart,
+    completedSteps,
+    totalSteps: log.totalSteps,
+    percent: log.totalSteps > 0 ? Math.round(completedSteps.length / log.totalSteps * 100) : 0,
+  };
+}
+
+/**
+ * Builds the checklist state from an intervention's logs and progress notes. Only periods logged at
+ * the intervention's current frequency count, so switching between daily and weekly starts a new series.
+ */
+export function summarizeFidelity(
+  intervention: Pick<Intervention, 'id' | 'steps' | 'fidelityFrequency'>,
+  logs: Pick<FidelityLog, 'periodStart' | 'frequency' | 'completedSteps' | 'totalSteps'>[],
+  notes: { createdAt: Date | null; outcome: string | null }[],
+  now = new Date()
+): FidelitySummary {
+  const frequency = frequencyOf(intervention);
+  const currentPeriodStart = fidelityPeriodStart(now, frequency);
+  const history = logs
+    .filter(log => log.frequency === frequency)
+    .map(toPeriod)
+    .sort((a, b) => a.periodStart.localeCompare(b.periodStart));
+
+  return {
+    interventionId: intervention.id,
+    frequency,
+    steps: stepsOf(intervention),
+    currentPeriodStart,
+    current: history.find(period => period.periodStart === currentPeriodStart) || null,
+    history,
+    averagePercent: history.length > 0 ? Math.round(history.reduce((sum, period) => sum + period.percent, 0) / history.length) : null,
+    outcomes: notes
+      .filter(note => note.outcome && note.createdAt)
+      .sort((a, b) => a.createdAt!.getTime() - b.createdAt!.getTime())
+      .map(note => ({ date: note.createdAt!.toISOString(), outcome: note.outcome! })),
+  };
+}
+
+// Fidelity is tracked on saved interventions; colleagues the concern is shared with can see it, but
+// only the concern's owner records it
+async function getSavedIntervention(interventionId: string, userId: string, ownerOnly: boolean): Promise<Intervention> {
+  const found = await findInterventionAccess(interventionId, userId);
+  if (!found || (ownerOnly && found.access !== 'owner')) throw new FidelityInterventionNotFoundError(interventionId);
+  if (!found.intervention.saved) throw new FidelityNotSavedError();
+  return found.intervention;
+}
+
+async function loadSummaries(rows: Intervention[], now = new Date()): Promise<FidelitySummary[]> {
+  if (rows.length === 0) return [];
+  const ids = rows.map(row => row.id);
+  const [logs, notes] = await Promise.all([
+    db.select().from(fidelityLogs).where(inArray(fidelityLogs.interventionId, ids)),
+    db
+      .select({ interventionId: progressNotes.interventionId, createdAt: progressNotes.createdAt, outcome: progressNotes.outcome })
+      .from(progressNotes)
+      .where(and(inArray(progressNotes.interventionId, ids), isNotNull(progressNotes.outcome)))
+      .orderBy(asc(progressNotes.createdAt)),
+  ]);
+
+  return rows.map(row => summarizeFidelity(
+    row,
+    logs.filter(log => log.interventionId === row.id),
+    notes.filter(note => note.interventionId === row.id),
+    now
+  ));
+}
+
+export async function getFidelity(interventionId: string, userId: string): Promise<FidelitySummary> {
+  const intervention = await getSavedIntervention(interventionId, userId, false);
+  const [summary] = await loadSummaries([intervention]);
+  return summary;
+}
+
+/**
+ * Records which steps were carried out in a day or week, replacing any earlier ticks for that
+ * period. Step indexes outside the plan are ignored.
+ */
+export async function recordFidelity(interventionId: string, userId: string, input: RecordFidelity, now = new Date()): Promise<FidelitySummary> {
+  const intervention = await getSavedIntervention(interventionId, userId, true);
+  const frequency = frequencyOf(intervention);
+  const steps = stepsOf(intervention);
+
+  const periodStart = input.periodStart
+    ? fidelityPeriodStart(new Date(`${input.periodStart}T00:00:00Z`), frequency)
+    : fidelityPeriodStart(now, frequency);
+  if (periodStart > fidelityPeriodStart(now, frequency)) {
+    throw new FidelityPeriodError('Fidelity cannot be recorded for a future period');
+  }
+
+  const completedSteps = Array.from(new Set(input.completedSteps))
+    .filter(step => step < steps.length)
+    .sort((a, b) => a - b);
+
+  await db
+    .insert(fidelityLogs)
+    .values({ interventionId, periodStart, frequency, completedSteps, totalSteps: steps.length, recordedBy: userId })
+    .onConflictDoUpdate({
+      target: [fidelityLogs.interventionId, fidelityLogs.frequency, fidelityLogs.periodStart],
+      set: { completedSteps, totalSteps: steps.length, recordedBy: userId, updatedAt: new Date() },
+    });
+
+  const [summary] = await loadSummaries([intervention], now);
+  return summary;
+}
+
+export async function setFidelityFrequency(interventionId: string, userId: string, frequency: FidelityFrequency): Promise<FidelitySummary> {
+  await getSavedIntervention(interventionId, userId, true);
+  const [intervention] = await db
+    .update(interventions)
+    .set({ fidelityFrequency: frequency })
+    .where(eq(interventions.id, interventionId))
+    .returning();
+  const [summary] = await loadSummaries([intervention]);
+  return summary;
+}
+
+// Fidelity of the saved interventions among the given ones, keyed by intervention id (meeting reports)
+export async function getFidelitySummaries(interventionIds: string[]): Promise<Record<string, FidelitySummary>> {
+  if (interventionIds.length === 0) return {};
+  const rows = await db
+    .select()
+    .from(interventions)
+    .where(and(inArray(interventions.id, interventionIds), eq(interventions.saved, true)));
+
+  const summaries: Record<string, FidelitySummary> = {};
+  (await loadSummaries(rows)).forEach(summary => { summaries[summary.interventionId] = summary; });
+  return summaries;
+}
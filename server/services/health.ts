@@ -4,6 +4,7 @@ import { count } from "drizzle-orm";
 import fs from "fs";
 import path from "path";
 import os from "os";
+import { getCircuitSnapshots, type CircuitSnapshot } from "./aiResilience";
 
 export interface HealthStatus {
   status: 'healthy' | 'warning' | 'error';
@@ -14,6 +15,10 @@ export interface HealthStatus {
     responseTime?: number;
     error?: string;
   };
+  ai: {
+    providersTracked: number; // Keys called since startup
+    openCircuits: number; // Keys currently skipped after repeated failures
+  };
   system: {
     memory: {
       used: number;
@@ -36,7 +41,7 @@ export interface DetailedHealthStatus extends HealthStatus {
     ai: {
       available: boolean;
       lastCheck: string;
-      responseTime?: number;
+      providers: CircuitSnapshot[];
     };
     email: {
       configured: boolean;
@@ -129,13 +134,21 @@ export async function getSystemHealth(): Promise<HealthStatus> {
     // Ignore disk stats errors
   }
 
-  const overallStatus = databaseHealth.connected ? 'healthy' : 'error';
+  const circuits = getCircuitSnapshots();
+  const openCircuits = circuits.filter(circuit => circuit.status === 'open').length;
+
+  // Teachers still get template content while AI providers are down, so that's a warning, not an error
+  const overallStatus = !databaseHealth.connected ? 'error' : openCircuits > 0 ? 'warning' : 'healthy';
 
   return {
     status: overallStatus,
     timestamp: new Date().toISOString(),
     uptime: Math.floor((Date.now() - startTime) / 1000),
     database: databaseHealth,
+    ai: {
+      providersTracked: circuits.length,
+      openCircuits,
+    },
     system: {
       memory: {
         used: memoryUsage.heapUsed,
@@ -153,25 +166,13 @@ export async function getSystemHealth(): Promise<HealthStatus> {
 export async function getDetailedSystemHealth(): Promise<DetailedHealthStatus> {
   const basicHealth = await getSystemHealth();
   
-  // AI Service Health
-  let aiHealth = {
-    available: false,
+  // AI Service Health - circuit breaker state per key; untracked keys haven't been called since startup
+  const providers = getCircuitSnapshots();
+  const aiHealth = {
+    available: providers.length === 0 || providers.some(provider => provider.status !== 'open'),
     lastCheck: new Date().toISOString(),
-    responseTime: 0
+    providers,
   };
-  
-  try {
-    // Mock AI health check - in production, test actual AI service
-    const aiStart = Date.now();
-    // await testAIService();
-    aiHealth = {
-      available: true,
-      lastCheck: new Date().toISOString(),
-      responseTime: Date.now() - aiStart
-    };
-  } catch (error) {
-    // AI service unavailable
-  }
 
   // Email Service Health
   const emailConfigured = Boolean(process.env.SMTP_HOST || process.env.EMAIL_SERVICE);
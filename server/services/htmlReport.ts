@@ -1,6 +1,6 @@
 import fs from "fs";
 import path from "path";
-import { ConcernWithDetails, Intervention } from "@shared/schema";
+import { ConcernWithDetails, Intervention, FidelitySummary } from "@shared/schema";
 
 interface HTMLReportOptions {
   includeLetterhead?: boolean;
@@ -18,6 +18,7 @@ interface MeetingData {
   notes?: string;
   includeRecommendations?: boolean;
   includeProgressNotes?: boolean;
+  fidelity?: Record<string, FidelitySummary>; // Saved interventions' implementation fidelity, by intervention id
 }
 
 interface CollaborationInsight {
@@ -207,6 +208,38 @@ function generateTeacherCollaborationInsights(concerns: any[]): CollaborationIns
   };
 }
 
+const OUTCOME_LABELS: Record<string, string> = {
+  positive: 'Positive',
+  mixed: 'Mixed',
+  needs_adjustment: 'Needs adjustment',
+  no_change: 'No change',
+};
+
+// One row per saved intervention: how faithfully it was carried out, next to the outcomes recorded
+function formatFidelitySummaries(interventions: Intervention[], fidelity: Record<string, FidelitySummary>): string {
+  const rows = interventions
+    .filter(intervention => fidelity[intervention.id])
+    .map(intervention => {
+      const summary = fidelity[intervention.id];
+      const recent = summary.history.slice(-4).map(period => `${period.periodStart}: ${period.percent}%`).join(', ');
+      const latestOutcome = summary.outcomes[summary.outcomes.length - 1];
+      return `
+        <tr>
+          <td>${intervention.title}</td>
+          <td>${summary.averagePercent === null ? 'Not yet tracked' : `${summary.averagePercent}% average over ${summary.history.length} ${summary.frequency === 'daily' ? 'day(s)' : 'week(s)'}`}</td>
+          <td>${recent || '-'}</td>
+          <td>${latestOutcome ? `${OUTCOME_LABELS[latestOutcome.outcome] || latestOutcome.outcome} (${new Date(latestOutcome.date).toLocaleDateString('en-US')})` : 'No outcome recorded'}</td>
+        </tr>`;
+    });
+
+  if (rows.length === 0) return '';
+  return `
+    <table class="fidelity-table">
+      <thead><tr><th>Intervention</th><th>Fidelity</th><th>Recent periods</th><th>Latest outcome</th></tr></thead>
+      <tbody>${rows.join('')}</tbody>
+    </table>`;
+}
+
 export async function generateMeetingHTMLReport(
   meetingData: MeetingData,
   outputPath: string,
@@ -235,6 +268,8 @@ export async function generateMeetingHTMLReport(
       formatMarkdownToHTML(intervention.description)
     ).join('<div class="intervention-separator"></div>') || '';
 
+    const fidelityHTML = formatFidelitySummaries(concern.interventions || [], meetingData.fidelity || {});
+
     const profileItems = [];
     if (concern.hasIep) profileItems.push('Has IEP/504 Plan');
     if (concern.hasDisability) profileItems.push(`Diagnosed with: ${concern.disabilityType || 'Not specified'}`);
@@ -279,6 +314,13 @@ export async function generateMeetingHTMLReport(
             </div>
           ` : ''}
 
+          ${fidelityHTML ? `
+            <div class="fidelity-summary">
+              <h5>Implementation Fidelity</h5>
+              ${fidelityHTML}
+            </div>
+          ` : ''}
+
           ${profileItems.length > 0 ? `
             <div class="student-profile">
               <h5>Student Learning Profile</h5>
@@ -792,11 +834,11 @@ function getMeetingReportCSS(theme: string): string {
         color: #374151;
     }
 
-    .concern-description, .actions-taken, .ai-interventions, .student-profile {
+    .concern-description, .actions-taken, .ai-interventions, .fidelity-summary, .student-profile {
         margin-bottom: 1.5rem;
     }
 
-    .concern-description h5, .actions-taken h5, .ai-interventions h5, .student-profile h5 {
+    .concern-description h5, .actions-taken h5, .ai-interventions h5, .fidelity-summary h5, .student-profile h5 {
         color: #374151;
         font-weight: 600;
         margin-bottom: 0.75rem;
@@ -855,6 +897,24 @@ function getMeetingReportCSS(theme: string): string {
         margin: 1.5rem 0;
     }
 
+    .fidelity-table {
+        width: 100%;
+        border-collapse: collapse;
+        font-size: 0.9rem;
+    }
+
+    .fidelity-table th, .fidelity-table td {
+        text-align: left;
+        padding: 0.5rem;
+        border-bottom: 1px solid #e5e7eb;
+        vertical-align: top;
+    }
+
+    .fidelity-table th {
+        color: #374151;
+        background: #f9fafb;
+    }
+
     .intervention-title {
         color: #1e40af;
         font-size: 1.2rem;
@@ -0,0 +1,198 @@
+import { db } from "../db";
+import {
+  concerns,
+  interventionLibraryEntries,
+  interventions,
+  progressNotes,
+  users,
+  PROGRESS_NOTE_OUTCOMES,
+  type EffectivenessGroup,
+  type InterventionEffectivenessReport,
+  type ProgressNoteOutcome,
+} from "@shared/schema";
+import { and, desc, eq, inArray, or, sql } from "drizzle-orm";
+import { gradeBandFor } from "./interventionLibrary";
+import type { InterventionStrategy } from "./ai";
+
+// Intervention effectiveness from progress note outcomes. Each intervention counts once, with the
+// outcome of its most recent progress note, and is rolled up by strategy (library entry or title),
+// concern type, grade band and severity. The same figures rank new recommendations: strategies and
+// library entries that have worked at the school come first.
+
+// Groups with fewer outcomes than this don't move a strategy up or down the ranking
+const MIN_RANKING_OUTCOMES = 3;
+
+// Pseudo-count pulling small samples towards a neutral 50% success rate when ranking
+const PRIOR_WEIGHT = 2;
+
+// The offline evaluation harness runs without a database, so recommendations keep the model's order
+let databaseLookupEnabled = true;
+
+export function setEffectivenessLookupEnabled(enabled: boolean) {
+  databaseLookupEnabled = enabled;
+}
+
+export interface OutcomeRecord {
+  interventionId: string;
+  title: string;
+  libraryEntryId: string | null;
+  libraryTitle: string | null;
+  concernTypes: unknown;
+  grade: string;
+  severityLevel: string;
+  outcome: string;
+}
+
+function normalizeTitle(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Interventions from the same library entry group together even if a teacher renamed them
+export function strategyKey(strategy: { libraryEntryId?: string | null; title: string }): string {
+  return strategy.libraryEntryId ? `library:${strategy.libraryEntryId}` : `title:${normalizeTitle(strategy.title)}`;
+}
+
+function emptyGroup(key: string, label: string): EffectivenessGroup {
+  return {
+    key,
+    label,
+    interventions: 0,
+    outcomes: { positive: 0, mixed: 0, needs_adjustment: 0, no_change: 0 },
+    successRate: 0,
+  };
+}
+
+function successRate(group: EffectivenessGroup): number {
+  return group.interventions === 0 ? 0 : (group.outcomes.positive + group.outcomes.mixed / 2) / group.interventions;
+}
+
+function isOutcome(value: string): value is ProgressNoteOutcome {
+  return (PROGRESS_NOTE_OUTCOMES as readonly string[]).includes(value);
+}
+
+/**
+ * Rolls outcome records up into the report. Records must be newest first; only the first outcome
+ * seen for each intervention is counted.
+ */
+export function summarizeOutcomes(records: OutcomeRecord[]): InterventionEffectivenessReport {
+  const overall = emptyGroup('all', 'All interventions');
+  const groups = {
+    byStrategy: new Map<string, EffectivenessGroup>(),
+    byConcernType: new Map<string, EffectivenessGroup>(),
+    byGradeBand: new Map<string, EffectivenessGroup>(),
+    bySeverity: new Map<string, EffectivenessGroup>(),
+  };
+  const counted = new Set<string>();
+
+  const add = (map: Map<string, EffectivenessGroup>, key: string, label: string, outcome: ProgressNoteOutcome) => {
+    const group = map.get(key) || emptyGroup(key, label);
+    group.interventions++;
+    group.outcomes[outcome]++;
+    map.set(key, group);
+  };
+
+  records.forEach(record => {
+    if (counted.has(record.interventionId) || !isOutcome(record.outcome)) return;
+    counted.add(record.interventionId);
+    const outcome = record.outcome;
+
+    overall.interventions++;
+    overall.outcomes[outcome]++;
+    add(groups.byStrategy, strategyKey(record), record.libraryTitle || record.title, outcome);
+
+    const concernTypes = Array.isArray(record.concernTypes) ? record.concernTypes.filter((type): type is string => typeof type === 'string') : [];
+    (concernTypes.length > 0 ? concernTypes : ['Other']).forEach(type => add(groups.byConcernType, type, type, outcome));
+
+    const band = gradeBandFor(record.grade) || 'Unknown';
+    add(groups.byGradeBand, band, band, outcome);
+    add(groups.bySeverity, record.severityLevel, record.severityLevel, outcome);
+  });
+
+  const finish = (map: Map<string, EffectivenessGroup>) => Array.from(map.values())
+    .map(group => ({ ...group, successRate: successRate(group) }))
+    .sort((a, b) => b.interventions - a.interventions || b.successRate - a.successRate || a.label.localeCompare(b.label));
+
+  return {
+    totalInterventions: overall.interventions,
+    overall: { ...overall, successRate: successRate(overall) },
+    byStrategy: finish(groups.byStrategy),
+    byConcernType: finish(groups.byConcernType),
+    byGradeBand: finish(groups.byGradeBand),
+    bySeverity: finish(groups.bySeverity),
+  };
+}
+
+interface OutcomeFilter {
+  school?: string;
+  concernTypes?: string[];
+}
+
+async function loadOutcomeRecords(filter: OutcomeFilter): Promise<OutcomeRecord[]> {
+  const concernTypes = filter.concernTypes || [];
+  const rows = await db
+    .select({
+      interventionId: interventions.id,
+      title: interventions.title,
+      libraryEntryId: interventions.libraryEntryId,
+      libraryTitle: interventionLibraryEntries.title,
+      concernTypes: concerns.concernTypes,
+      grade: concerns.grade,
+      severityLevel: concerns.severityLevel,
+      outcome: progressNotes.outcome,
+    })
+    .from(progressNotes)
+    .innerJoin(interventions, eq(progressNotes.interventionId, interventions.id))
+    .innerJoin(concerns, eq(interventions.concernId, concerns.id))
+    .innerJoin(users, eq(concerns.teacherId, users.id))
+    .leftJoin(interventionLibraryEntries, eq(interventions.libraryEntryId, interventionLibraryEntries.id))
+    .where(and(
+      inArray(progressNotes.outcome, [...PROGRESS_NOTE_OUTCOMES]),
+      filter.school ? eq(users.school, filter.school) : undefined,
+      concernTypes.length > 0
+        ? or(...concernTypes.map(type => sql`${concerns.concernTypes} @> ${JSON.stringify([type])}::jsonb`))
+        : undefined
+    ))
+    .orderBy(desc(progressNotes.createdAt));
+
+  return rows.map(row => ({ ...row, outcome: row.outcome! }));
+}
+
+// Admin report, optionally limited to one school (users.school)
+export async function getInterventionEffectiveness(school?: string): Promise<InterventionEffectivenessReport> {
+  return summarizeOutcomes(await loadOutcomeRecords({ school }));
+}
+
+/**
+ * Outcomes per strategy for concerns sharing a concern type with a new request, at the teacher's
+ * school. Lookup failures just mean the model's own order is kept.
+ */
+export async function getStrategyEffectiveness(req: { schoolName?: string; concernTypes: string[] }): Promise<Map<string, EffectivenessGroup>> {
+  if (!databaseLookupEnabled || !req.schoolName) return new Map();
+
+  try {
+    const report = summarizeOutcomes(await loadOutcomeRecords({ school: req.schoolName, concernTypes: req.concernTypes }));
+    return new Map(report.byStrategy.map(group => [group.key, group] as const));
+  } catch (error) {
+    console.error('❌ Intervention effectiveness lookup failed, keeping the model ranking:', error);
+    return new Map();
+  }
+}
+
+/**
+ * Ranking score for a strategy: its smoothed success rate when enough outcomes have been
+ * recorded, otherwise a neutral 0.5 so untried strategies sit between proven and failing ones.
+ */
+export function effectivenessScore(effectiveness: Map<string, EffectivenessGroup>, strategy: { libraryEntryId?: string | null; title: string }): number {
+  const group = effectiveness.get(strategyKey(strategy));
+  if (!group || group.interventions < MIN_RANKING_OUTCOMES) return 0.5;
+  return (group.outcomes.positive + group.outcomes.mixed / 2 + PRIOR_WEIGHT / 2) / (group.interventions + PRIOR_WEIGHT);
+}
+
+// Stable sort of generated strategies by how well the same strategies have worked at the school
+export function rankStrategiesByEffectiveness(strategies: InterventionStrategy[], effectiveness: Map<string, EffectivenessGroup>): InterventionStrategy[] {
+  if (effectiveness.size === 0) return strategies;
+  return strategies
+    .map((strategy, index) => ({ strategy, index, score: effectivenessScore(effectiveness, strategy) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(ranked => ranked.strategy);
+}
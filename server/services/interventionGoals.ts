@@ -0,0 +1,185 @@
+import { db } from "../db";
+import {
+  goalDataPoints,
+  interventionGoals,
+  type GoalChartPoint,
+  type GoalDataPoint,
+  type GoalProgress,
+  type InsertGoalDataPoint,
+  type InsertInterventionGoal,
+  type InterventionGoal,
+  type InterventionGoalWithProgress,
+} from "@shared/schema";
+import { and, asc, eq, inArray } from "drizzle-orm";
+import { recordCheckIn } from "./checkIns";
+import { findInterventionAccess } from "./collaboration";
+
+// Measurable goals on interventions and the progress-monitoring data logged against them. Progress
+// is judged against the aim line from baseline to target using the usual data-point decision rules.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How many of the most recent data points on the wrong side of the aim line mean the plan isn't working
+const POINTS_OFF_AIM_LINE = 3;
+
+export class InterventionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Intervention ${id} not found`);
+    this.name = 'InterventionNotFoundError';
+  }
+}
+
+export class InterventionGoalNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Goal ${id} not found`);
+    this.name = 'InterventionGoalNotFoundError';
+  }
+}
+
+// Everyone the concern is shared with can see the goals; only its owner can set goals and log data
+async function assertCanAccessIntervention(interventionId: string, userId: string, ownerOnly: boolean): Promise<void> {
+  const found = await findInterventionAccess(interventionId, userId);
+  if (!found || (ownerOnly && found.access !== 'owner')) throw new InterventionNotFoundError(interventionId);
+}
+
+async function getOwnedGoal(goalId: string, userId: string): Promise<InterventionGoal> {
+  const [goal] = await db.select().from(interventionGoals).where(eq(interventionGoals.id, goalId)).limit(1);
+  const found = goal ? await findInterventionAccess(goal.interventionId, userId) : null;
+  if (!found || found.access !== 'owner') throw new InterventionGoalNotFoundError(goalId);
+  return goal;
+}
+
+function point(at: number, value: number): GoalChartPoint {
+  return { at: new Date(at).toISOString(), value: Math.round(value * 100) / 100 };
+}
+
+/**
+ * Compares the data points with the goal's aim line. The goal is met once the latest value reaches
+ * the target; it is not on track when the last three points all fall short of the aim line, or when
+ * the trend through four or more points won't reach the target by the target date.
+ */
+export function evaluateGoalProgress(goal: InterventionGoal, dataPoints: GoalDataPoint[]): GoalProgress {
+  const direction = goal.target >= goal.baseline ? 'increase' : 'decrease';
+  const start = new Date(goal.baselineDate).getTime();
+  const end = new Date(goal.targetDate).getTime();
+  const aimAt = (time: number) => goal.baseline + (goal.target - goal.baseline) * (time - start) / (end - start);
+  // Positive when a value is better than expected, whichever way the goal runs
+  const ahead = (value: number, expected: number) => direction === 'increase' ? value - expected : expected - value;
+
+  const points = [...dataPoints].sort((a, b) => new Date(a.measuredAt).getTime() - new Date(b.measuredAt).getTime());
+  const latest = points[points.length - 1];
+  const aimLine: [GoalChartPoint, GoalChartPoint] = [point(start, goal.baseline), point(end, goal.target)];
+
+  let trendLine: [GoalChartPoint, GoalChartPoint] | null = null;
+  let projected: number | null = null;
+  if (points.length >= 2) {
+    // Least-squares fit with time in days
+    const xs = points.map(p => (new Date(p.measuredAt).getTime() - start) / DAY_MS);
+    const ys = points.map(p => p.value);
+    const meanX = xs.reduce((sum, x) => sum + x, 0) / xs.length;
+    const meanY = ys.reduce((sum, y) => sum + y, 0) / ys.length;
+    const spread = xs.reduce((sum, x) => sum + (x - meanX) ** 2, 0);
+    const slope = spread === 0 ? 0 : xs.reduce((sum, x, index) => sum + (x - meanX) * (ys[index] - meanY), 0) / spread;
+    const valueAt = (time: number) => meanY + slope * ((time - start) / DAY_MS - meanX);
+    const firstTime = new Date(points[0].measuredAt).getTime();
+    const trendEnd = Math.max(end, new Date(latest.measuredAt).getTime());
+    trendLine = [point(firstTime, valueAt(firstTime)), point(trendEnd, valueAt(trendEnd))];
+    projected = valueAt(end);
+  }
+
+  const base = { direction, aimLine, trendLine, latestValue: latest ? latest.value : null } as const;
+
+  if (latest && ahead(latest.value, goal.target) >= 0) {
+    return { ...base, status: 'goal_met', explanation: `The latest measurement (${latest.value}) has reached the target of ${goal.target}.` };
+  }
+  if (points.length < POINTS_OFF_AIM_LINE) {
+    return { ...base, status: 'insufficient_data', explanation: `Log at least ${POINTS_OFF_AIM_LINE} data points to judge progress against the aim line.` };
+  }
+
+  const recent = points.slice(-POINTS_OFF_AIM_LINE);
+  if (recent.every(p => ahead(p.value, aimAt(new Date(p.measuredAt).getTime())) < 0)) {
+    return { ...base, status: 'not_on_track', explanation: `The last ${POINTS_OFF_AIM_LINE} data points are all ${direction === 'increase' ? 'below' : 'above'} the aim line. Consider adjusting the intervention.` };
+  }
+  if (points.length >= 4 && projected !== null && ahead(projected, goal.target) < 0) {
+    return { ...base, status: 'not_on_track', explanation: `At the current trend the student is projected to reach ${Math.round(projected * 10) / 10} by the target date instead of ${goal.target}.` };
+  }
+  return { ...base, status: 'on_track', explanation: 'Recent data points are keeping pace with the aim line.' };
+}
+
+function withProgress(goal: InterventionGoal, dataPoints: GoalDataPoint[]): InterventionGoalWithProgress {
+  return { ...goal, dataPoints, progress: evaluateGoalProgress(goal, dataPoints) };
+}
+
+export async function listInterventionGoals(interventionId: string, userId: string): Promise<InterventionGoalWithProgress[]> {
+  await assertCanAccessIntervention(interventionId, userId, false);
+
+  const goals = await db
+    .select()
+    .from(interventionGoals)
+    .where(eq(interventionGoals.interventionId, interventionId))
+    .orderBy(asc(interventionGoals.createdAt));
+  if (goals.length === 0) return [];
+
+  const points = await db
+    .select()
+    .from(goalDataPoints)
+    .where(inArray(goalDataPoints.goalId, goals.map(goal => goal.id)))
+    .orderBy(asc(goalDataPoints.measuredAt));
+
+  return goals.map(goal => withProgress(goal, points.filter(p => p.goalId === goal.id)));
+}
+
+export async function createInterventionGoal(
+  interventionId: string,
+  userId: string,
+  input: InsertInterventionGoal
+): Promise<InterventionGoalWithProgress> {
+  await assertCanAccessIntervention(interventionId, userId, true);
+
+  const [goal] = await db
+    .insert(interventionGoals)
+    .values({
+      interventionId,
+      metric: input.metric,
+      unit: input.unit || null,
+      baseline: input.baseline,
+      baselineDate: input.baselineDate ? new Date(input.baselineDate) : new Date(),
+      target: input.target,
+      targetDate: new Date(input.targetDate),
+      createdBy: userId,
+    })
+    .returning();
+  return withProgress(goal, []);
+}
+
+export async function deleteInterventionGoal(goalId: string, userId: string): Promise<void> {
+  await getOwnedGoal(goalId, userId);
+  await db.delete(interventionGoals).where(eq(interventionGoals.id, goalId));
+}
+
+// Logs a measurement and returns the goal with its re-evaluated progress
+export async function addGoalDataPoint(goalId: string, userId: string, input: InsertGoalDataPoint): Promise<InterventionGoalWithProgress> {
+  const goal = await getOwnedGoal(goalId, userId);
+
+  await db.insert(goalDataPoints).values({
+    goalId,
+    value: input.value,
+    measuredAt: input.measuredAt ? new Date(input.measuredAt) : new Date(),
+    note: input.note || null,
+    recordedBy: userId,
+  });
+  // Logging data counts as checking in on the intervention
+  await recordCheckIn(goal.interventionId);
+
+  const points = await db.select().from(goalDataPoints).where(eq(goalDataPoints.goalId, goalId)).orderBy(asc(goalDataPoints.measuredAt));
+  return withProgress(goal, points);
+}
+
+export async function deleteGoalDataPoint(goalId: string, pointId: string, userId: string): Promise<void> {
+  await getOwnedGoal(goalId, userId);
+  const deleted = await db
+    .delete(goalDataPoints)
+    .where(and(eq(goalDataPoints.id, pointId), eq(goalDataPoints.goalId, goalId)))
+    .returning({ id: goalDataPoints.id });
+  if (deleted.length === 0) throw new InterventionGoalNotFoundError(pointId);
+}
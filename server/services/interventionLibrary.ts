@@ -0,0 +1,249 @@
+import { db } from "../db";
+import {
+  concerns,
+  interventionLibraryEntries,
+  interventions,
+  EVIDENCE_RATINGS,
+  type GradeBand,
+  type Intervention,
+  type InterventionLibraryEntry,
+  type InterventionLibraryEntryInput,
+} from "@shared/schema";
+import { and, asc, eq, ilike, or, sql } from "drizzle-orm";
+import type { InterventionStrategy } from "./ai";
+
+// The curated intervention library. Admins maintain the entries; recommendation prompts list the
+// entries that fit a concern so the model builds on them and cites them, and teachers can copy an
+// entry onto a concern directly without generating (or paying for) a new plan.
+
+// How many entries are offered to the model for one concern
+const PROMPT_ENTRY_LIMIT = 5;
+
+export class LibraryEntryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Library entry ${id} not found`);
+    this.name = 'LibraryEntryNotFoundError';
+  }
+}
+
+export class LibraryConcernNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Concern ${id} not found`);
+    this.name = 'LibraryConcernNotFoundError';
+  }
+}
+
+// The offline evaluation harness runs without a database, so prompts are built without library entries
+let databaseLookupEnabled = true;
+
+export function setInterventionLibraryLookupEnabled(enabled: boolean) {
+  databaseLookupEnabled = enabled;
+}
+
+// Maps a grade as entered on the concern form ("Pre-K", "K", "3rd", "Grade 10") to its library band
+export function gradeBandFor(grade: string | null | undefined): GradeBand | null {
+  const text = (grade || '').trim().toLowerCase();
+  if (!text) return null;
+  if (/pre-?k|^k$|kinder|reception/.test(text)) return 'PreK-2';
+
+  const number = parseInt(text.match(/\d+/)?.[0] || '', 10);
+  if (isNaN(number)) return null;
+  if (number <= 2) return 'PreK-2';
+  if (number <= 5) return '3-5';
+  if (number <= 8) return '6-8';
+  return '9-12';
+}
+
+function listOf(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+export interface LibrarySearch {
+  q?: string;
+  concernType?: string;
+  gradeBand?: string;
+  tier?: number;
+  includeInactive?: boolean;
+}
+
+export async function searchLibraryEntries(search: LibrarySearch = {}): Promise<InterventionLibraryEntry[]> {
+  const term = search.q?.trim();
+  return db
+    .select()
+    .from(interventionLibraryEntries)
+    .where(and(
+      search.includeInactive ? undefined : eq(interventionLibraryEntries.isActive, true),
+      term ? or(ilike(interventionLibraryEntries.title, `%${term}%`), ilike(interventionLibraryEntries.summary, `%${term}%`)) : undefined,
+      search.concernType ? sql`${interventionLibraryEntries.concernTypes} @> ${JSON.stringify([search.concernType])}::jsonb` : undefined,
+      // Entries without grade bands suit every grade
+      search.gradeBand
+        ? sql`(${interventionLibraryEntries.gradeBands} @> ${JSON.stringify([search.gradeBand])}::jsonb or ${interventionLibraryEntries.gradeBands} = '[]'::jsonb)`
+        : undefined,
+      search.tier ? eq(interventionLibraryEntries.tier, search.tier) : undefined
+    ))
+    .orderBy(asc(interventionLibraryEntries.tier), asc(interventionLibraryEntries.title));
+}
+
+export async function getLibraryEntry(id: string): Promise<InterventionLibraryEntry> {
+  const [entry] = await db.select().from(interventionLibraryEntries).where(eq(interventionLibraryEntries.id, id)).limit(1);
+  if (!entry) throw new LibraryEntryNotFoundError(id);
+  return entry;
+}
+
+export async function createLibraryEntry(input: InterventionLibraryEntryInput, adminId: string): Promise<InterventionLibraryEntry> {
+  const [entry] = await db
+    .insert(interventionLibraryEntries)
+    .values({
+      ...input,
+      timeline: input.timeline || null,
+      sourceUrl: input.sourceUrl || null,
+      isActive: input.isActive ?? true,
+      createdBy: adminId,
+      updatedBy: adminId,
+    })
+    .returning();
+  return entry;
+}
+
+// Replaces an entry's content; archiving (isActive false) hides it from teachers and prompts
+export async function updateLibraryEntry(id: string, input: InterventionLibraryEntryInput, adminId: string): Promise<InterventionLibraryEntry> {
+  const [entry] = await db
+    .update(interventionLibraryEntries)
+    .set({
+      ...input,
+      timeline: input.timeline || null,
+      sourceUrl: input.sourceUrl || null,
+      updatedBy: adminId,
+      updatedAt: new Date(),
+    })
+    .where(eq(interventionLibraryEntries.id, id))
+    .returning();
+  if (!entry) throw new LibraryEntryNotFoundError(id);
+  return entry;
+}
+
+interface LibraryMatchRequest {
+  concernTypes: string[];
+  grade?: string;
+  taskType?: string;
+  effectiveness?: (entry: InterventionLibraryEntry) => number; // 0-1 success score from the school's outcomes, 0.5 when unknown
+}
+
+/**
+ * Picks the active entries that best fit a concern: shared concern types count most, then a
+ * matching grade band, then how well the entry has worked at the school and its evidence strength. Whole-class plans only draw on tier 1 entries and
+ * tier 2 requests on tier 2 and 3 entries. Lookup failures just mean an ungrounded prompt.
+ */
+export async function findLibraryMatches(req: LibraryMatchRequest, limit = PROMPT_ENTRY_LIMIT): Promise<InterventionLibraryEntry[]> {
+  if (!databaseLookupEnabled || req.concernTypes.length === 0) return [];
+
+  try {
+    const band = gradeBandFor(req.grade);
+    const tierFilter = req.taskType === 'classroom_management'
+      ? eq(interventionLibraryEntries.tier, 1)
+      : req.taskType === 'differentiation' ? undefined : sql`${interventionLibraryEntries.tier} >= 2`;
+
+    const candidates = await db
+      .select()
+      .from(interventionLibraryEntries)
+      .where(and(
+        eq(interventionLibraryEntries.isActive, true),
+        tierFilter,
+        or(...req.concernTypes.map(type => sql`${interventionLibraryEntries.concernTypes} @> ${JSON.stringify([type])}::jsonb`))
+      ));
+
+    const score = (entry: InterventionLibraryEntry) => {
+      const overlap = listOf(entry.concernTypes).filter(type => req.concernTypes.includes(type)).length;
+      const bands = listOf(entry.gradeBands);
+      const bandScore = !band || bands.length === 0 ? 1 : bands.includes(band) ? 2 : 0;
+      const evidence = EVIDENCE_RATINGS.length - Math.max(0, EVIDENCE_RATINGS.indexOf(entry.evidenceRating as typeof EVIDENCE_RATINGS[number]));
+      const outcomes = req.effectiveness ? (req.effectiveness(entry) - 0.5) * 8 : 0;
+      return overlap * 10 + bandScore * 3 + evidence + outcomes;
+    };
+
+    return candidates
+      .filter(entry => {
+        const bands = listOf(entry.gradeBands);
+        return !band || bands.length === 0 || bands.includes(band);
+      })
+      .sort((a, b) => score(b) - score(a))
+      .slice(0, limit);
+  } catch (error) {
+    console.error('❌ Intervention library lookup failed, generating without library entries:', error);
+    return [];
+  }
+}
+
+// Prompt section listing the matched entries, appended to the recommendation prompt
+export function buildLibraryPromptSection(entries: InterventionLibraryEntry[]): string {
+  if (entries.length === 0) return '';
+
+  const listed = entries.map((entry, index) => {
+    const materials = listOf(entry.materials);
+    return [
+      `${index + 1}. **${entry.title}** (Tier ${entry.tier}, ${entry.evidenceRating} evidence; source: ${entry.source})`,
+      `   ${entry.summary}`,
+      `   Steps: ${listOf(entry.steps).join(' / ')}`,
+      materials.length > 0 ? `   Materials: ${materials.join(', ')}` : '',
+    ].filter(Boolean).join('\n');
+  }).join('\n');
+
+  return `\n\n**SCHOOL INTERVENTION LIBRARY**: Your school has approved these evidence-based interventions for concerns like this one:\n${listed}\n\nBuild on these library interventions wherever they fit the student, adapting the steps to the details above rather than inventing a differently named version of the same strategy. When a strategy is based on a library intervention, use the library title as the strategy title and end its description with "Library: <library title>". Strategies that are not from the library must not carry a library citation.`;
+}
+
+function normalizeTitle(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+/**
+ * Links each strategy to the library entry it cites ("Library: <title>") or whose title it uses,
+ * so saved interventions record which library entry they came from.
+ */
+export function matchLibraryCitations(strategies: InterventionStrategy[], entries: InterventionLibraryEntry[]): InterventionStrategy[] {
+  if (entries.length === 0) return strategies;
+  const byTitle = new Map(entries.map(entry => [normalizeTitle(entry.title), entry.id] as const));
+
+  return strategies.map(strategy => {
+    const cited = strategy.description.match(/library:\s*\**([^\n*]+?)\**\s*\.?\s*$/im)?.[1];
+    const entryId = (cited && byTitle.get(normalizeTitle(cited))) || byTitle.get(normalizeTitle(strategy.title));
+    return entryId ? { ...strategy, libraryEntryId: entryId } : strategy;
+  });
+}
+
+/**
+ * Copies a library entry onto one of the teacher's concerns as an intervention. No model call is
+ * made, so no support request is used.
+ */
+export async function addLibraryEntryToConcern(concernId: string, entryId: string, userId: string): Promise<Intervention> {
+  const [concern] = await db
+    .select({ id: concerns.id })
+    .from(concerns)
+    .where(and(eq(concerns.id, concernId), eq(concerns.teacherId, userId)))
+    .limit(1);
+  if (!concern) throw new LibraryConcernNotFoundError(concernId);
+
+  const entry = await getLibraryEntry(entryId);
+  if (!entry.isActive) throw new LibraryEntryNotFoundError(entryId);
+
+  const materials = listOf(entry.materials);
+  const description = [
+    entry.summary,
+    materials.length > 0 ? `**Materials:** ${materials.join(', ')}` : '',
+    `**Evidence:** ${entry.evidenceRating} - ${entry.source}${entry.sourceUrl ? ` (${entry.sourceUrl})` : ''}`,
+  ].filter(Boolean).join('\n\n');
+
+  const [intervention] = await db
+    .insert(interventions)
+    .values({
+      concernId,
+      title: entry.title,
+      description,
+      steps: listOf(entry.steps),
+      timeline: entry.timeline,
+      tier: entry.tier,
+      libraryEntryId: entry.id,
+      promptVersion: 'intervention library',
+    })
+    .returning();
+  return intervention;
+}
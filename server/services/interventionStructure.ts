@@ -0,0 +1,363 @@
+import { z } from "zod";
+import { createCompletionWithFailover, streamCompletionWithFailover } from "./aiKeyPool";
+import type { AIClient, ChatCompletionRequest } from "./aiProviders";
+import type { InterventionStrategy } from "./ai";
+
+// Structured output for recommendation generation. The model returns JSON matching
+// structuredRecommendationsSchema; we validate it, repair or retry when it doesn't parse,
+// and render the same markdown the rest of the app (reports, follow-up prompts) already expects.
+
+const stringList = z.array(z.string().trim().min(1));
+
+export const interventionStrategySchema = z.object({
+  title: z.string().trim().min(1),
+  description: z.string().trim().min(1),
+  steps: stringList.min(1),
+  timeline: z.string().trim().min(1),
+  progressMeasures: stringList.default([]),
+  successCriteria: stringList.default([]),
+});
+
+export const structuredRecommendationsSchema = z.object({
+  overview: z.string().default(''),
+  strategies: z.array(interventionStrategySchema).min(1),
+});
+
+export type StructuredRecommendations = z.infer<typeof structuredRecommendationsSchema>;
+
+export interface StructuredRecommendationsResult extends StructuredRecommendations {
+  recommendations: string; // Markdown rendering of overview + strategies
+  isStructured: boolean; // false when we had to fall back to extracting strategies from free text
+  client: AIClient;
+}
+
+export interface RecommendationStreamHandlers {
+  onNotice?: (notice: string) => void; // Safeguarding / urgent-case notice, sent before the plan
+  onOverview?: (overview: string) => void;
+  onStrategy?: (strategy: InterventionStrategy, index: number) => void;
+  onDelta?: (text: string) => void; // Raw model output, e.g. to keep an idle timeout alive
+}
+
+// How many times we ask the model to fix its own output before falling back to text extraction
+const MAX_REPAIR_ATTEMPTS = 1;
+
+export const STRUCTURED_OUTPUT_INSTRUCTIONS = `
+
+**OUTPUT FORMAT (REQUIRED):** Respond with a single JSON object and nothing else - no code fences, no commentary. Use exactly this shape:
+{
+  "overview": "Markdown for every requested section that is not an individual strategy (analysis, monitoring system, collaboration, escalation, resources)",
+  "strategies": [
+    {
+      "title": "Short strategy name",
+      "description": "Markdown explaining the strategy, its research base and required materials",
+      "steps": ["Concrete implementation step with timing", "..."],
+      "timeline": "e.g. Days 1-14",
+      "progressMeasures": ["What data to collect, how and how often", "..."],
+      "successCriteria": ["Measurable outcome that shows the strategy is working", "..."]
+    }
+  ]
+}
+Include 2-6 strategies. Every strategy needs at least one step, progress measure and success criterion. Keep the JSON keys in English even when the content is in another language, and keep all text inside JSON strings (escape quotes and newlines).`;
+
+/**
+ * Parses model output into structured recommendations, repairing the common ways models break JSON
+ * (code fences, leading prose, trailing commas, a bare strategies array).
+ */
+export function parseStructuredRecommendations(raw: string): { success: true; data: StructuredRecommendations } | { success: false; error: string } {
+  let text = (raw || '').trim();
+
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  if (fenced) {
+    text = fenced[1].trim();
+  }
+
+  const firstBrace = text.search(/[\[{]/);
+  if (firstBrace === -1) {
+    return { success: false, error: 'Response did not contain a JSON object' };
+  }
+  const closing = text[firstBrace] === '[' ? ']' : '}';
+  const lastBrace = text.lastIndexOf(closing);
+  if (lastBrace <= firstBrace) {
+    return { success: false, error: 'Response JSON was truncated' };
+  }
+  text = text.slice(firstBrace, lastBrace + 1).replace(/,\s*([\]}])/g, '$1');
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+  }
+
+  if (Array.isArray(parsed)) {
+    parsed = { overview: '', strategies: parsed };
+  }
+
+  const result = structuredRecommendationsSchema.safeParse(parsed);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`);
+    return { success: false, error: `Schema validation failed - ${issues.join('; ')}` };
+  }
+  return { success: true, data: result.data };
+}
+
+/**
+ * Renders strategies as markdown in the heading/bullet style FormattedRecommendations and the
+ * report generators understand, so stored recommendations stay readable everywhere.
+ */
+export function renderStrategiesMarkdown(strategies: InterventionStrategy[]): string {
+  return strategies.map((strategy, index) => {
+    const lines = [`### **Strategy ${index + 1}: ${strategy.title}**`, '', strategy.description, ''];
+    lines.push('**Implementation Steps:**');
+    strategy.steps.forEach((step, stepIndex) => lines.push(`${stepIndex + 1}. ${step}`));
+    lines.push('', `**Timeline:** ${strategy.timeline}`);
+    if (strategy.progressMeasures.length > 0) {
+      lines.push('', '**Progress Monitoring:**', ...strategy.progressMeasures.map(measure => `* ${measure}`));
+    }
+    if (strategy.successCriteria.length > 0) {
+      lines.push('', '**Success Criteria:**', ...strategy.successCriteria.map(criterion => `* ${criterion}`));
+    }
+    return lines.join('\n');
+  }).join('\n\n');
+}
+
+export function renderRecommendationsMarkdown(structured: StructuredRecommendations): string {
+  const strategiesMarkdown = renderStrategiesMarkdown(structured.strategies);
+  return structured.overview.trim()
+    ? `${structured.overview.trim()}\n\n${strategiesMarkdown}`
+    : strategiesMarkdown;
+}
+
+// Sections of free-text recommendations that describe the overall plan rather than a strategy
+const OVERVIEW_SECTION_PATTERN = /analysis|profile|summary|framework|monitoring|data collection|collaboration|communication|escalat|seek additional|resource|referral|support protocol/i;
+
+/**
+ * Best-effort conversion of markdown recommendations (mock data, or a model that never returned
+ * valid JSON) into strategies. Each "##"/"###" section becomes a strategy with its bullets as steps;
+ * plan-wide sections are kept in the overview and their bullets reused as progress measures.
+ */
+export function extractStrategiesFromMarkdown(markdown: string, defaultTimeline: string): StructuredRecommendations {
+  const sections: { heading: string; line: string; body: string[] }[] = [];
+  const overview: string[] = [];
+  let current: { heading: string; line: string; body: string[] } | null = null;
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^#{2,3}\s+(.*)$/);
+    if (heading) {
+      current = { heading: heading[1].replace(/\*\*/g, '').replace(/^\d+\.\s*/, '').trim(), line, body: [] };
+      sections.push(current);
+    } else if (current) {
+      current.body.push(line);
+    } else {
+      overview.push(line);
+    }
+  }
+
+  const bulletsOf = (body: string[]) => body
+    .map(line => line.match(/^\s*(?:[-*]|\d+\.)\s+(.*)$/)?.[1])
+    .filter((item): item is string => !!item)
+    .map(item => item.replace(/\*\*/g, '').trim())
+    .filter(item => item.length > 0);
+
+  const progressMeasures: string[] = [];
+  const successCriteria: string[] = [];
+  const strategies: InterventionStrategy[] = [];
+
+  for (const section of sections) {
+    const bullets = bulletsOf(section.body);
+    if (OVERVIEW_SECTION_PATTERN.test(section.heading)) {
+      overview.push(section.line, ...section.body);
+      if (/monitoring|data collection/i.test(section.heading)) {
+        progressMeasures.push(...bullets);
+      }
+      continue;
+    }
+    if (bullets.length === 0) {
+      overview.push(section.line, ...section.body);
+      continue;
+    }
+
+    successCriteria.push(...bullets.filter(item => /success|criteria|target|goal/i.test(item)));
+    const timeline = section.heading.match(/\(([^)]*(?:week|day|month|ongoing)[^)]*)\)/i)?.[1]
+      || section.heading.match(/(?:week|day)s?\s*[\d\s\-–]+/i)?.[0]?.trim()
+      || defaultTimeline;
+
+    strategies.push({
+      title: section.heading.replace(/\s*\([^)]*\)\s*$/, '').replace(/:$/, '') || 'Strategy',
+      description: section.body.join('\n').trim(),
+      steps: bullets,
+      timeline,
+      progressMeasures: [],
+      successCriteria: [],
+    });
+  }
+
+  if (strategies.length === 0) {
+    strategies.push({
+      title: 'Support Plan',
+      description: markdown.trim(),
+      steps: ['Review recommendations', 'Implement strategies', 'Monitor progress'],
+      timeline: defaultTimeline,
+      progressMeasures: [],
+      successCriteria: [],
+    });
+    return { overview: '', strategies };
+  }
+
+  // Plan-wide monitoring applies to every strategy extracted from the same text
+  for (const strategy of strategies) {
+    strategy.progressMeasures = progressMeasures.slice(0, 5);
+    strategy.successCriteria = successCriteria.slice(0, 5);
+  }
+
+  return { overview: overview.join('\n').trim(), strategies };
+}
+
+/**
+ * Scans streamed JSON as it arrives and reports the overview and each strategy as soon as it is
+ * complete, so teachers watch the plan build up section by section instead of waiting for the end.
+ * Strategies that fail validation here are skipped; the final parse is still authoritative.
+ */
+export function createStructuredStreamParser(handlers: RecommendationStreamHandlers): (delta: string) => void {
+  let buffer = '';
+  let position = 0;
+  let started = false;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let rootKey: string | null = null;
+  let expectingValue = false;
+  let strategyStart = -1;
+  let strategyCount = 0;
+
+  return (delta: string) => {
+    buffer += delta;
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+
+      if (!started) {
+        if (char === '{') {
+          started = true;
+          depth = 1;
+        }
+        continue;
+      }
+
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (char === '\\') {
+          escaped = true;
+        } else if (char === '"') {
+          inString = false;
+          if (depth === 1) {
+            let value: unknown = null;
+            try {
+              value = JSON.parse(buffer.slice(stringStart, position + 1));
+            } catch {
+              // Malformed string literal - the final parse will report it
+            }
+            if (!expectingValue) {
+              rootKey = typeof value === 'string' ? value : null;
+            } else {
+              if (rootKey === 'overview' && typeof value === 'string') {
+                handlers.onOverview?.(value);
+              }
+              expectingValue = false;
+            }
+          }
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+        stringStart = position;
+      } else if (char === ':' && depth === 1) {
+        expectingValue = true;
+      } else if (char === '{' || char === '[') {
+        depth++;
+        expectingValue = false;
+        if (char === '{' && depth === 3 && rootKey === 'strategies') {
+          strategyStart = position;
+        }
+      } else if (char === '}' || char === ']') {
+        if (char === '}' && depth === 3 && strategyStart !== -1) {
+          try {
+            const result = interventionStrategySchema.safeParse(JSON.parse(buffer.slice(strategyStart, position + 1)));
+            if (result.success) {
+              handlers.onStrategy?.(result.data, strategyCount++);
+            }
+          } catch {
+            // Incomplete or invalid strategy - wait for the final parse
+          }
+          strategyStart = -1;
+        }
+        depth--;
+      }
+    }
+  };
+}
+
+/**
+ * Requests structured recommendations from the key pool, streaming strategies to `handlers` when
+ * given. Invalid output is sent back to the model
+ * with the validation errors for repair; if it still can't be parsed, strategies are extracted from
+ * the text so the teacher always gets a usable plan.
+ */
+export async function generateStructuredRecommendations(
+  clients: AIClient[],
+  request: ChatCompletionRequest,
+  defaultTimeline: string,
+  handlers?: RecommendationStreamHandlers
+): Promise<StructuredRecommendationsResult> {
+  const structuredRequest = {
+    ...request,
+    userPrompt: request.userPrompt + STRUCTURED_OUTPUT_INSTRUCTIONS,
+  };
+  let completion;
+  if (handlers) {
+    const parseDelta = createStructuredStreamParser(handlers);
+    completion = await streamCompletionWithFailover(clients, structuredRequest, (text) => {
+      handlers.onDelta?.(text);
+      parseDelta(text);
+    });
+  } else {
+    completion = await createCompletionWithFailover(clients, structuredRequest);
+  }
+
+  let raw = completion.content;
+  let client = completion.client;
+  let parsed = parseStructuredRecommendations(raw);
+
+  for (let attempt = 1; !parsed.success && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    console.warn(`🛠️ Structured output invalid (${parsed.error}), asking model to repair (attempt ${attempt})`);
+    const repair = await createCompletionWithFailover(clients, {
+      systemPrompt: 'You repair JSON so it matches a required schema. Respond with the corrected JSON object only. Keep all of the original content and language.',
+      userPrompt: `The following output failed validation: ${parsed.error}\n\nRequired format:${STRUCTURED_OUTPUT_INSTRUCTIONS}\n\nOutput to repair:\n${raw}`,
+      maxTokens: request.maxTokens,
+      temperature: 0,
+      signal: request.signal,
+      usageContext: request.usageContext,
+    });
+    raw = repair.content;
+    client = repair.client;
+    parsed = parseStructuredRecommendations(raw);
+  }
+
+  if (parsed.success) {
+    console.log(`✅ Structured output validated: ${parsed.data.strategies.length} strategies`);
+    return {
+      ...parsed.data,
+      recommendations: renderRecommendationsMarkdown(parsed.data),
+      isStructured: true,
+      client,
+    };
+  }
+
+  console.warn(`⚠️ Structured output still invalid (${parsed.error}), extracting strategies from text`);
+  const extracted = extractStrategiesFromMarkdown(raw, defaultTimeline);
+  return { ...extracted, recommendations: raw, isStructured: false, client };
+}
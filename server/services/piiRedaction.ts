@@ -0,0 +1,388 @@
+import { createHash } from "crypto";
+import { db } from "../db";
+import { schools, piiRedactionSettings, piiRedactionLogs, type PIICategory, type InsertPiiRedactionSettings } from "@shared/schema";
+import { eq, desc, and, gte, count } from "drizzle-orm";
+
+// PII redaction stage for AI calls. Identifiers in teacher-written text are swapped for stable
+// placeholders ([STUDENT_1], [NAME_2], [PHONE_1]...) before a prompt is built, and swapped back in
+// whatever the model returns. Each redaction is written to pii_redaction_logs as a hash only.
+
+export interface RedactionSettings {
+  isEnabled: boolean;
+  redactNames: boolean;
+  redactEmails: boolean;
+  redactPhones: boolean;
+  redactAddresses: boolean;
+  redactStudentIds: boolean;
+  redactDatesOfBirth: boolean;
+  studentIdPattern: string | null;
+  customTerms: string[];
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  isEnabled: true,
+  redactNames: true,
+  redactEmails: true,
+  redactPhones: true,
+  redactAddresses: true,
+  redactStudentIds: true,
+  redactDatesOfBirth: true,
+  studentIdPattern: null,
+  customTerms: [],
+};
+
+export interface RedactionEntry {
+  category: PIICategory;
+  placeholder: string;
+  value: string;
+}
+
+export interface KnownName {
+  value: string;
+  label?: string; // Placeholder prefix, e.g. STUDENT -> [STUDENT_1]
+}
+
+export interface RedactionSession {
+  schoolId: string | null;
+  isEnabled: boolean;
+  redact: (text: string) => string;
+  restore: (text: string) => string;
+  // Wraps a streaming callback so placeholders split across chunks are restored correctly
+  createStreamRestorer: (onText: (text: string) => void) => { push: (text: string) => void; flush: () => void };
+  entries: () => RedactionEntry[];
+}
+
+const PLACEHOLDER_PREFIXES: Record<PIICategory, string> = {
+  name: 'NAME',
+  email: 'EMAIL',
+  phone: 'PHONE',
+  address: 'ADDRESS',
+  student_id: 'STUDENT_ID',
+  date_of_birth: 'DOB',
+};
+
+// Matches placeholders with or without brackets - models sometimes drop them
+const PLACEHOLDER_PATTERN = /\[?\b([A-Z]+(?:_[A-Z]+)*_\d+)\b\]?/g;
+
+// Capitalised words that commonly appear in pairs in concern descriptions but are not names
+const NOT_NAMES = new Set([
+  'I', 'The', 'This', 'That', 'These', 'Those', 'He', 'She', 'They', 'We', 'His', 'Her', 'Their', 'Our', 'My', 'Your',
+  'When', 'While', 'After', 'Before', 'During', 'Today', 'Yesterday', 'Tomorrow', 'Last', 'Next', 'Every', 'Each',
+  'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday',
+  'January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December',
+  'Math', 'Maths', 'Mathematics', 'English', 'Science', 'History', 'Geography', 'Art', 'Music', 'Physical', 'Education',
+  'Social', 'Studies', 'Reading', 'Writing', 'Language', 'Arts', 'Chinese', 'Mandarin', 'Spanish', 'French', 'PE',
+  'Tier', 'Grade', 'Year', 'Class', 'Classroom', 'School', 'Student', 'Students', 'Teacher', 'Support', 'Learning',
+  'Plan', 'Special', 'Needs', 'IEP', 'ADHD', 'ASD', 'EAL', 'ESL', 'Autism', 'Spectrum', 'Disorder', 'Google', 'Microsoft',
+  'Behavior', 'Behaviour', 'Academic', 'Attendance', 'Family', 'Home', 'Peer', 'Relationships', 'Emotional', 'Counselor',
+  'Principal', 'Office', 'Room', 'Library', 'Cafeteria', 'Playground', 'Gym', 'Lunch', 'Recess', 'Morning', 'Afternoon',
+  'ID', 'Not', 'No', 'Yes', 'Also', 'However', 'Although', 'Because', 'Since', 'If', 'Then', 'And', 'But', 'Or', 'So',
+]);
+
+const RELATIONSHIP_CUES = [
+  'mr', 'mrs', 'ms', 'miss', 'dr', 'mx', 'mother', 'father', 'mom', 'mum', 'dad', 'parent', 'guardian', 'grandmother',
+  'grandfather', 'grandma', 'grandpa', 'aunt', 'uncle', 'brother', 'sister', 'sibling', 'cousin', 'friend', 'classmate',
+  'student', 'named', 'called',
+];
+const cueAlternation = RELATIONSHIP_CUES.map(cue => `[${cue[0].toUpperCase()}${cue[0]}]${cue.slice(1)}`).join('|');
+const CAPITALISED_WORD = "[A-Z][a-zA-Z'’-]+";
+const CUED_NAME_PATTERN = new RegExp(`\\b(?:${cueAlternation})(?:'s)?\\.?,?\\s+(${CAPITALISED_WORD}(?:\\s+${CAPITALISED_WORD})?)`, 'g');
+const SURNAME_AFTER_PLACEHOLDER_PATTERN = new RegExp(`\\[(?:STUDENT|TEACHER|NAME)_\\d+\\]\\s+(${CAPITALISED_WORD})\\b`, 'g');
+const FULL_NAME_PATTERN = new RegExp(`\\b(${CAPITALISED_WORD})\\s+(${CAPITALISED_WORD})\\b`, 'g');
+
+// Chinese names: a common surname followed by one or two given-name characters, recognised next to
+// a cue (同学, 老师, 妈妈, 名叫...). Function words are excluded so "王明今天" does not swallow "今".
+const CHINESE_SURNAMES = '王李张刘陈杨黄赵吴周徐孙马朱胡郭何高林罗郑梁谢宋唐许韩冯邓曹彭曾肖田董袁潘于蒋蔡余杜叶程苏魏吕丁任沈姚卢姜崔钟谭陆汪范金石廖贾夏韦付方白邹孟熊秦邱江尹薛闫段雷侯龙史陶黎贺顾毛郝龚邵万钱严覃武戴莫孔向汤欧';
+const CHINESE_GIVEN_CHAR = '(?:(?![的了是在和与今昨天说很也都就又把被对给向从不没有])[\\u4e00-\\u9fff])';
+const CHINESE_NAME = `[${CHINESE_SURNAMES}]${CHINESE_GIVEN_CHAR}{1,2}`;
+const CHINESE_NAME_BEFORE_CUE = new RegExp(`(${CHINESE_NAME})(?=同学|老师|先生|女士|小姐|妈妈|爸爸|家长|的(?:妈妈|爸爸|家长|母亲|父亲))`, 'g');
+const CHINESE_NAME_AFTER_CUE = new RegExp(`(?:学生|名叫|叫做|母亲|父亲|妈妈|爸爸|家长)[:：\\s]*(${CHINESE_NAME})`, 'g');
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+const PHONE_PATTERN = /(?<![\w\/-])(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{2,4}\)\s?|\d{2,4}[\s.-])?\d{3,4}[\s.-]?\d{4}(?![\w\/-])/g;
+const STREET_ADDRESS_PATTERN = /\b\d{1,5}\s+(?:[A-Z][a-z]+\.?\s+){1,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Crescent|Close|Parkway|Pkwy)\b\.?(?:,?\s*(?:Apt|Apartment|Unit|Suite|#)\s*[\w-]+)?/g;
+const CHINESE_ADDRESS_PATTERN = /(?:住在|家住|住址[:：]?|位于)?([一-鿿]{1,6}(?:路|街|巷|弄)\s*\d+\s*号(?:\s*\d+\s*(?:栋|幢|楼|单元|室))*)/g;
+const STUDENT_ID_PATTERN = /\b(?:student\s*(?:id|number|no\.?|#)|id\s*(?:number|no\.?|#)?)\s*[:#]?\s*([A-Z0-9][A-Z0-9-]{3,})\b/gi;
+const CHINESE_STUDENT_ID_PATTERN = /学号[:：\s]*([A-Za-z0-9-]{4,})/g;
+const DATE_VALUE = '(?:\\d{1,2}[\\/.-]\\d{1,2}[\\/.-]\\d{2,4}|\\d{4}[\\/.-]\\d{1,2}[\\/.-]\\d{1,2}|(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?\\s+\\d{1,2}(?:st|nd|rd|th)?,?\\s+\\d{4}|\\d{1,2}(?:st|nd|rd|th)?\\s+(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Sept|Oct|Nov|Dec)[a-z]*\\.?,?\\s+\\d{4})';
+const DOB_PATTERN = new RegExp(`\\b(?:DOB|D\\.O\\.B\\.?|date of birth|birth\\s?date|born(?:\\s+on)?|birthday(?:\\s+is)?)\\s*[:-]?\\s*(${DATE_VALUE})`, 'gi');
+const CHINESE_DOB_PATTERN = /(?:出生日期|出生于|出生|生日)[:：]?\s*(\d{4}\s*年\s*\d{1,2}\s*月\s*\d{1,2}\s*日?|\d{4}[\/.-]\d{1,2}[\/.-]\d{1,2})/g;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Latin terms match on word boundaries; CJK terms have no spaces so they match anywhere
+function termPattern(term: string): RegExp {
+  const escaped = escapeRegExp(term.trim());
+  return /[一-鿿]/.test(term)
+    ? new RegExp(escaped, 'g')
+    : new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, 'giu');
+}
+
+/**
+ * Creates a redaction session. The same value always maps to the same placeholder within a session,
+ * so the model can still tell that "[STUDENT_1]" in the description and the name field are one person.
+ */
+export function createRedactionSession(
+  settings: RedactionSettings,
+  options: { schoolId?: string | null; knownNames?: KnownName[] } = {}
+): RedactionSession {
+  const placeholderByValue = new Map<string, string>();
+  const entryByPlaceholder = new Map<string, RedactionEntry>();
+  const counters = new Map<string, number>();
+
+  const placeholderFor = (category: PIICategory, value: string, label?: string) => {
+    const key = `${category}:${value.trim().toLowerCase()}`;
+    const existing = placeholderByValue.get(key);
+    if (existing) return existing;
+
+    const prefix = label || PLACEHOLDER_PREFIXES[category];
+    const next = (counters.get(prefix) || 0) + 1;
+    counters.set(prefix, next);
+    const placeholder = `[${prefix}_${next}]`;
+    placeholderByValue.set(key, placeholder);
+    entryByPlaceholder.set(placeholder.slice(1, -1), { category, placeholder, value: value.trim() });
+    return placeholder;
+  };
+
+  // Replaces the whole match, or only the given capture group (keeping cues like "DOB:" readable)
+  const replaceAll = (text: string, pattern: RegExp, category: PIICategory, group?: number, accept?: (value: string) => boolean) =>
+    text.replace(pattern, (match: string, ...groups: unknown[]) => {
+      const value = group ? groups[group - 1] : match;
+      if (typeof value !== 'string' || !value.trim() || value.includes('[') || (accept && !accept(value))) {
+        return match;
+      }
+      const index = match.lastIndexOf(value);
+      return match.slice(0, index) + placeholderFor(category, value) + match.slice(index + value.length);
+    });
+
+  const knownTerms: KnownName[] = [
+    ...(options.knownNames || []),
+    ...settings.customTerms.map(value => ({ value })),
+  ].filter(term => term.value && term.value.trim().length >= 2);
+
+  let customStudentIdPattern: RegExp | null = null;
+  if (settings.studentIdPattern) {
+    try {
+      customStudentIdPattern = new RegExp(settings.studentIdPattern, 'g');
+    } catch (error) {
+      console.error('❌ Invalid student ID pattern in redaction settings:', settings.studentIdPattern);
+    }
+  }
+
+  const redact = (text: string): string => {
+    if (!settings.isEnabled || !text) return text;
+    let result = text;
+
+    // Structured identifiers first so their digits aren't mistaken for phone numbers
+    if (settings.redactEmails) {
+      result = replaceAll(result, EMAIL_PATTERN, 'email');
+    }
+    if (settings.redactDatesOfBirth) {
+      result = replaceAll(result, DOB_PATTERN, 'date_of_birth', 1);
+      result = replaceAll(result, CHINESE_DOB_PATTERN, 'date_of_birth', 1);
+    }
+    if (settings.redactStudentIds) {
+      if (customStudentIdPattern) {
+        result = replaceAll(result, customStudentIdPattern, 'student_id');
+      }
+      // Require a digit so "ID number is unknown" style phrases are left alone
+      result = replaceAll(result, STUDENT_ID_PATTERN, 'student_id', 1, value => /\d/.test(value));
+      result = replaceAll(result, CHINESE_STUDENT_ID_PATTERN, 'student_id', 1);
+    }
+    if (settings.redactAddresses) {
+      result = replaceAll(result, STREET_ADDRESS_PATTERN, 'address');
+      result = replaceAll(result, CHINESE_ADDRESS_PATTERN, 'address', 1);
+    }
+    if (settings.redactPhones) {
+      result = replaceAll(result, PHONE_PATTERN, 'phone');
+    }
+    if (settings.redactNames) {
+      for (const term of knownTerms) {
+        result = result.replace(termPattern(term.value), (match) => placeholderFor('name', match, term.label));
+      }
+      // A capitalised word straight after a known first name is treated as that person's surname
+      result = replaceAll(result, SURNAME_AFTER_PLACEHOLDER_PATTERN, 'name', 1, value => !NOT_NAMES.has(value));
+      result = replaceAll(result, CUED_NAME_PATTERN, 'name', 1, value => !value.split(/\s+/).some(word => NOT_NAMES.has(word)));
+      result = replaceAll(result, FULL_NAME_PATTERN, 'name', undefined, value => !value.split(/\s+/).some(word => NOT_NAMES.has(word)));
+      result = replaceAll(result, CHINESE_NAME_BEFORE_CUE, 'name', 1);
+      result = replaceAll(result, CHINESE_NAME_AFTER_CUE, 'name', 1);
+    }
+
+    return result;
+  };
+
+  const restore = (text: string): string => {
+    if (!text || entryByPlaceholder.size === 0) return text;
+    return text.replace(PLACEHOLDER_PATTERN, (match, token: string) => entryByPlaceholder.get(token)?.value ?? match);
+  };
+
+  const createStreamRestorer = (onText: (text: string) => void) => {
+    let pending = '';
+    return {
+      push: (text: string) => {
+        pending += text;
+        // Hold back a trailing "[" or upper-case run that may be the start of a placeholder
+        const partial = pending.match(/\[?[A-Z][A-Z_0-9]*$|\[$/);
+        const cut = partial ? partial.index! : pending.length;
+        if (cut > 0) {
+          onText(restore(pending.slice(0, cut)));
+          pending = pending.slice(cut);
+        }
+      },
+      flush: () => {
+        if (pending) {
+          onText(restore(pending));
+          pending = '';
+        }
+      },
+    };
+  };
+
+  return {
+    schoolId: options.schoolId ?? null,
+    isEnabled: settings.isEnabled,
+    redact,
+    restore,
+    createStreamRestorer,
+    entries: () => Array.from(entryByPlaceholder.values()),
+  };
+}
+
+function toRedactionSettings(row: typeof piiRedactionSettings.$inferSelect | undefined): RedactionSettings {
+  if (!row) return { ...DEFAULT_REDACTION_SETTINGS };
+  return {
+    isEnabled: row.isEnabled ?? true,
+    redactNames: row.redactNames ?? true,
+    redactEmails: row.redactEmails ?? true,
+    redactPhones: row.redactPhones ?? true,
+    redactAddresses: row.redactAddresses ?? true,
+    redactStudentIds: row.redactStudentIds ?? true,
+    redactDatesOfBirth: row.redactDatesOfBirth ?? true,
+    studentIdPattern: row.studentIdPattern,
+    customTerms: Array.isArray(row.customTerms) ? (row.customTerms as string[]) : [],
+  };
+}
+
+export async function getSchoolRedactionSettings(schoolId: string): Promise<RedactionSettings> {
+  const [row] = await db.select().from(piiRedactionSettings).where(eq(piiRedactionSettings.schoolId, schoolId));
+  return toRedactionSettings(row);
+}
+
+export async function updateSchoolRedactionSettings(
+  schoolId: string,
+  updates: Partial<Omit<InsertPiiRedactionSettings, 'schoolId' | 'updatedBy'>>,
+  updatedBy: string
+): Promise<RedactionSettings> {
+  if (updates.studentIdPattern) {
+    new RegExp(updates.studentIdPattern); // Throws on an invalid pattern before it is saved
+  }
+
+  const values = {
+    ...updates,
+    customTerms: updates.customTerms?.map(term => term.trim()).filter(Boolean),
+    updatedBy,
+    updatedAt: new Date(),
+  };
+
+  const [row] = await db
+    .insert(piiRedactionSettings)
+    .values({ schoolId, ...values })
+    .onConflictDoUpdate({ target: piiRedactionSettings.schoolId, set: values })
+    .returning();
+
+  console.log(`🛡️ Updated PII redaction settings for school ${schoolId}`);
+  return toRedactionSettings(row);
+}
+
+/**
+ * Loads the school's settings (by the school name stored on the user) and starts a session.
+ * Falls back to the defaults - redaction on - if the lookup fails, so PII is never sent by accident.
+ */
+export async function createRedactionSessionForSchool(
+  schoolName?: string | null,
+  knownNames: KnownName[] = []
+): Promise<RedactionSession> {
+  try {
+    if (schoolName) {
+      const [row] = await db
+        .select({ schoolId: schools.id, settings: piiRedactionSettings })
+        .from(schools)
+        .leftJoin(piiRedactionSettings, eq(piiRedactionSettings.schoolId, schools.id))
+        .where(eq(schools.name, schoolName))
+        .limit(1);
+
+      if (row) {
+        return createRedactionSession(toRedactionSettings(row.settings ?? undefined), { schoolId: row.schoolId, knownNames });
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error loading PII redaction settings, using defaults:', error);
+  }
+  return createRedactionSession(DEFAULT_REDACTION_SETTINGS, { knownNames });
+}
+
+// The offline evaluation harness runs without a database, so it switches auditing off
+let auditEnabled = true;
+
+export function setRedactionAuditEnabled(enabled: boolean) {
+  auditEnabled = enabled;
+}
+
+/**
+ * Writes one audit row per placeholder used in the session. Only a SHA-256 hash and the length of
+ * each value are stored, so the audit table itself never holds student PII.
+ */
+export async function recordRedactions(
+  session: RedactionSession,
+  context: { source: string; userId?: string | null }
+): Promise<void> {
+  const entries = session.entries();
+  if (entries.length === 0 || !auditEnabled) return;
+
+  try {
+    await db.insert(piiRedactionLogs).values(entries.map(entry => ({
+      schoolId: session.schoolId,
+      userId: context.userId || null,
+      source: context.source,
+      category: entry.category,
+      placeholder: entry.placeholder,
+      valueHash: createHash('sha256').update(entry.value.toLowerCase()).digest('hex'),
+      valueLength: entry.value.length,
+    })));
+    console.log(`🛡️ Redacted ${entries.length} identifier(s) before ${context.source} AI call`);
+  } catch (error) {
+    console.error('❌ Failed to record PII redactions:', error);
+  }
+}
+
+export async function getRedactionLogs(options: { schoolId?: string; limit?: number } = {}) {
+  return await db
+    .select({
+      id: piiRedactionLogs.id,
+      schoolId: piiRedactionLogs.schoolId,
+      schoolName: schools.name,
+      userId: piiRedactionLogs.userId,
+      source: piiRedactionLogs.source,
+      category: piiRedactionLogs.category,
+      placeholder: piiRedactionLogs.placeholder,
+      valueLength: piiRedactionLogs.valueLength,
+      createdAt: piiRedactionLogs.createdAt,
+    })
+    .from(piiRedactionLogs)
+    .leftJoin(schools, eq(piiRedactionLogs.schoolId, schools.id))
+    .where(options.schoolId ? eq(piiRedactionLogs.schoolId, options.schoolId) : undefined)
+    .orderBy(desc(piiRedactionLogs.createdAt))
+    .limit(options.limit || 100);
+}
+
+// Per-category totals for the last `days` days, for the admin settings panel
+export async function getRedactionSummary(schoolId: string, days: number = 30) {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+  return await db
+    .select({ category: piiRedactionLogs.category, total: count() })
+    .from(piiRedactionLogs)
+    .where(and(eq(piiRedactionLogs.schoolId, schoolId), gte(piiRedactionLogs.createdAt, since)))
+    .groupBy(piiRedactionLogs.category);
+}
@@ -0,0 +1,240 @@
+import { db } from "../db";
+import {
+  interventionRevisions,
+  interventions,
+  progressNotes,
+  type AdjustPlan,
+  type Concern,
+  type Intervention,
+  type InterventionRevision,
+  type PlanAdjustmentQuota,
+  type PlanRevisionHistory,
+} from "@shared/schema";
+import { and, asc, count, desc, eq, gte } from "drizzle-orm";
+import { generatePlanAdjustment, type InterventionStrategy } from "./ai";
+import type { UrgentSafeguardResult } from "./safeguarding";
+import { listInterventionGoals } from "./interventionGoals";
+import { getFidelitySummaries } from "./fidelity";
+import { findInterventionAccess } from "./collaboration";
+
+// "Adjust this plan": the model revises one intervention from its progress notes, goal data and
+// fidelity, and the intervention row is updated in place so its concern, goals, check-ins and notes
+// carry over. Every version is kept in intervention_revisions. Adjustments have their own allowance
+// instead of using a support request, and each one needs new progress evidence since the last version.
+
+// Adjustments per teacher per calendar month (UTC)
+const PLAN_ADJUSTMENTS_PER_MONTH = 10;
+
+// After this many revisions a fresh concern is the better route
+const MAX_ADJUSTMENTS_PER_INTERVENTION = 5;
+
+export class PlanInterventionNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Intervention ${id} not found`);
+    this.name = 'PlanInterventionNotFoundError';
+  }
+}
+
+export class PlanAdjustmentNotAllowedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PlanAdjustmentNotAllowedError';
+  }
+}
+
+export class PlanAdjustmentConflictError extends Error {
+  constructor() {
+    super('This plan was changed while it was being adjusted. Reload it and try again.');
+    this.name = 'PlanAdjustmentConflictError';
+  }
+}
+
+// Colleagues the concern is shared with can read the plan history; only its owner can adjust the plan
+async function getIntervention(interventionId: string, userId: string, ownerOnly: boolean): Promise<{ intervention: Intervention; concern: Concern }> {
+  const found = await findInterventionAccess(interventionId, userId);
+  if (!found || (ownerOnly && found.access !== 'owner')) throw new PlanInterventionNotFoundError(interventionId);
+  return found;
+}
+
+function startOfMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+const listOf = (value: unknown): string[] => Array.isArray(value) ? value.map(String) : [];
+
+async function loadRevisions(interventionId: string): Promise<InterventionRevision[]> {
+  return db
+    .select()
+    .from(interventionRevisions)
+    .where(eq(interventionRevisions.interventionId, interventionId))
+    .orderBy(asc(interventionRevisions.version));
+}
+
+async function loadQuota(intervention: Intervention, revisions: InterventionRevision[], userId: string, now = new Date()): Promise<PlanAdjustmentQuota> {
+  const [[monthly], [latestNote]] = await Promise.all([
+    db
+      .select({ used: count() })
+      .from(interventionRevisions)
+      .where(and(
+        eq(interventionRevisions.createdBy, userId),
+        eq(interventionRevisions.source, 'ai_adjustment'),
+        gte(interventionRevisions.createdAt, startOfMonth(now))
+      )),
+    db
+      .select({ createdAt: progressNotes.createdAt })
+      .from(progressNotes)
+      .where(eq(progressNotes.interventionId, intervention.id))
+      .orderBy(desc(progressNotes.createdAt))
+      .limit(1),
+  ]);
+
+  const used = Number(monthly?.used || 0);
+  const perInterventionUsed = revisions.filter(revision => revision.source === 'ai_adjustment').length;
+  // The current version started when it was written: the latest revision, or the original plan
+  const versionStartedAt = revisions.length > 0 ? revisions[revisions.length - 1].createdAt : intervention.createdAt;
+  const hasNewProgress = Boolean(latestNote?.createdAt && (!versionStartedAt || latestNote.createdAt > versionStartedAt));
+
+  let blockedReason: string | null = null;
+  if (perInterventionUsed >= MAX_ADJUSTMENTS_PER_INTERVENTION) {
+    blockedReason = `This plan has already been adjusted ${MAX_ADJUSTMENTS_PER_INTERVENTION} times. Consider raising a new concern so the student's needs can be looked at afresh.`;
+  } else if (used >= PLAN_ADJUSTMENTS_PER_MONTH) {
+    blockedReason = `You have used all ${PLAN_ADJUSTMENTS_PER_MONTH} plan adjustments for this month.`;
+  } else if (!hasNewProgress) {
+    blockedReason = revisions.length > 0
+      ? 'Add a progress note on how the current version is going before adjusting it again.'
+      : 'Add a progress note on how the plan is going before asking for an adjustment.';
+  }
+
+  return {
+    used,
+    limit: PLAN_ADJUSTMENTS_PER_MONTH,
+    perInterventionUsed,
+    perInterventionLimit: MAX_ADJUSTMENTS_PER_INTERVENTION,
+    blockedReason,
+  };
+}
+
+export async function getPlanRevisions(interventionId: string, userId: string): Promise<PlanRevisionHistory> {
+  const { intervention } = await getIntervention(interventionId, userId, false);
+  const revisions = await loadRevisions(interventionId);
+  return {
+    currentVersion: intervention.currentVersion,
+    revisions,
+    quota: await loadQuota(intervention, revisions, userId),
+  };
+}
+
+function planOf(intervention: Intervention): InterventionStrategy {
+  return {
+    title: intervention.title,
+    description: intervention.description,
+    steps: listOf(intervention.steps),
+    timeline: intervention.timeline || '',
+    progressMeasures: listOf(intervention.progressMeasures),
+    successCriteria: listOf(intervention.successCriteria),
+  };
+}
+
+/**
+ * Asks the model for a revised plan and saves it as the intervention's next version. Throws
+ * PlanAdjustmentNotAllowedError when the allowance is used up or there is no new progress evidence,
+ * and PlanAdjustmentUnavailableError (from ai.ts) when no model response could be obtained.
+ */
+export async function adjustPlan(
+  interventionId: string,
+  userId: string,
+  input: AdjustPlan,
+  schoolName?: string
+): Promise<{ intervention: Intervention; revision: InterventionRevision; safeguarding?: UrgentSafeguardResult }> {
+  const { intervention, concern } = await getIntervention(interventionId, userId, true);
+  const revisions = await loadRevisions(interventionId);
+  const quota = await loadQuota(intervention, revisions, userId);
+  if (quota.blockedReason) throw new PlanAdjustmentNotAllowedError(quota.blockedReason);
+
+  const [notes, goals, fidelity] = await Promise.all([
+    db
+      .select()
+      .from(progressNotes)
+      .where(eq(progressNotes.interventionId, interventionId))
+      .orderBy(asc(progressNotes.createdAt)),
+    listInterventionGoals(interventionId, userId),
+    getFidelitySummaries([interventionId]),
+  ]);
+  const day = (date: Date | string | null) => date ? new Date(date).toISOString().slice(0, 10) : 'undated';
+
+  const adjustment = await generatePlanAdjustment({
+    studentFirstName: concern.studentFirstName,
+    studentLastInitial: concern.studentLastInitial,
+    grade: concern.grade,
+    concernTypes: listOf(concern.concernTypes),
+    severityLevel: concern.severityLevel,
+    plan: planOf(intervention),
+    reason: input.reason,
+    progressNotes: notes.map(note => ({ date: day(note.createdAt), outcome: note.outcome, note: note.note, nextSteps: note.nextSteps })),
+    goals: goals.map(goal => ({
+      metric: goal.metric,
+      unit: goal.unit,
+      baseline: goal.baseline,
+      target: goal.target,
+      targetDate: day(goal.targetDate),
+      status: goal.progress.status,
+      dataPoints: goal.dataPoints.map(point => ({ date: day(point.measuredAt), value: point.value })),
+    })),
+    fidelityPercent: fidelity[interventionId]?.averagePercent ?? null,
+    schoolName,
+    userId,
+  });
+
+  const { strategy } = adjustment;
+  const nextVersion = intervention.currentVersion + 1;
+  const result = await db.transaction(async (tx) => {
+    // Only one adjustment can move the plan on from a given version
+    const [updated] = await tx
+      .update(interventions)
+      .set({
+        title: strategy.title,
+        description: strategy.description,
+        steps: strategy.steps,
+        timeline: strategy.timeline,
+        progressMeasures: strategy.progressMeasures,
+        successCriteria: strategy.successCriteria,
+        promptVersion: adjustment.promptVersion,
+        currentVersion: nextVersion,
+      })
+      .where(and(eq(interventions.id, interventionId), eq(interventions.currentVersion, intervention.currentVersion)))
+      .returning();
+    if (!updated) throw new PlanAdjustmentConflictError();
+
+    // The first adjustment keeps the original plan as version 1
+    if (revisions.length === 0) {
+      await tx.insert(interventionRevisions).values({
+        interventionId,
+        version: intervention.currentVersion,
+        source: 'original',
+        ...planOf(intervention),
+        timeline: intervention.timeline,
+        promptVersion: intervention.promptVersion,
+        createdAt: intervention.createdAt || new Date(),
+      });
+    }
+
+    const [revision] = await tx
+      .insert(interventionRevisions)
+      .values({
+        interventionId,
+        version: nextVersion,
+        source: 'ai_adjustment',
+        ...strategy,
+        reason: input.reason,
+        changeSummary: adjustment.changeSummary,
+        promptVersion: adjustment.promptVersion,
+        createdBy: userId,
+      })
+      .returning();
+
+    return { intervention: updated, revision };
+  });
+
+  console.log(`🔁 Intervention ${interventionId} adjusted to version ${nextVersion} by user ${userId}`);
+  return { ...result, safeguarding: adjustment.safeguarding };
+}
@@ -0,0 +1,691 @@
+import type { SafeguardingCategory, SafeguardingKeyword } from "@shared/schema";
+
+// Safeguarding classifier for teacher-written text. Runs offline against the lexicons below:
+// idioms ("killed it on the test", 笑死) are set aside first, indicator phrases are matched on
+// word boundaries (English) or dictionary tokens (Chinese), negated mentions ("no signs of
+// self-harm", 没有自残) are discounted, and the remaining matches are combined into a weighted
+// 0-100 risk score per category. An optional model pass (SAFEGUARDING_MODEL_REVIEW=true) can
+// raise - never lower - the score of borderline text. Bare injury and violence words ("bruised his
+// knee", "the murder scene in Macbeth") are contextual: they add to the score but can't make text
+// urgent unless a definite indicator - someone hurting the student, a threat against a person - is
+// also present in the same category.
+
+export const URGENT_RISK_THRESHOLD = 50;
+
+export type SafeguardingLanguage = 'en' | 'zh';
+
+interface SafeguardingRule {
+  pattern: string; // English: regex source matched case-insensitively on word boundaries. Chinese: a literal term
+  weight: number; // 0-1: how strongly one mention indicates risk
+  includesNegation?: boolean; // The phrase itself is negative ("no reason to live", 不想活), so don't discount it
+  contextual?: boolean; // A bare injury or violence word ("bruise", "murder"); urgent only alongside a definite indicator
+}
+
+interface SafeguardingLexicon {
+  language: SafeguardingLanguage;
+  categories: Record<SafeguardingCategory, SafeguardingRule[]>;
+  idioms: string[]; // Everyday phrases that contain indicator words but aren't concerns
+  negations: string[]; // Cues that, shortly before an indicator, mean it is being ruled out
+  negationPrefixes?: string[]; // Chinese only: negators that count only directly before a term (不想死), as 不 also starts 不断, 不少...
+  compounds?: string[]; // Chinese only: ordinary words containing indicator characters (杀毒 "antivirus"), kept whole when tokenizing
+}
+
+// How much a fully-indicated category contributes to the overall risk score
+const CATEGORY_WEIGHTS: Record<SafeguardingCategory, number> = {
+  self_harm: 1,
+  abuse: 0.95,
+  violence: 0.8,
+  neglect: 0.7,
+};
+
+export const SAFEGUARDING_CATEGORY_LABELS: Record<SafeguardingCategory, string> = {
+  self_harm: 'Self-harm or suicide risk',
+  abuse: 'Abuse',
+  violence: 'Violence or threats to others',
+  neglect: 'Neglect',
+};
+
+const SELF = '(?:myself|himself|herself|themselves|themself)';
+const POSSESSIVE = '(?:my|his|her|their)';
+const OBJECT = '(?:me|him|her|them)';
+const FAMILY_MEMBER = "(?:father|dad|daddy|mother|mum|mom|mummy|mommy|step-?(?:father|dad|mother|mum|mom)|parents?|uncle|aunt|auntie|brother|sister|cousin|grand(?:father|mother|pa|ma|dad|mum|mom)|(?:mum|mom|mother)'s (?:boyfriend|partner)|carer|guardian)";
+// Everyday contact ("her mum touched her forehead") isn't an indicator on its own
+const BENIGN_TOUCH = '(?! (?:hand|arm|shoulder|forehead|head|back)s?\\b)';
+const PERSON = `${OBJECT}|someone|somebody|people|classmates?|students?|child(?:ren)?|kids?|teachers?|peers?|(?:his|her|their) (?:classmates?|friends?|brother|sister)`;
+
+const ENGLISH_LEXICON: SafeguardingLexicon = {
+  language: 'en',
+  categories: {
+    self_harm: [
+      { pattern: 'suicid(?:e|al)', weight: 0.95 },
+      { pattern: `kill(?:s|ed|ing)? ${SELF}`, weight: 1 },
+      { pattern: `(?:end|take|ending|taking) ${POSSESSIVE} (?:own )?life`, weight: 1 },
+      { pattern: 'want(?:s|ed)? to die', weight: 0.9 },
+      { pattern: `wish(?:es|ed)? (?:i|he|she|they) (?:was|were) (?:dead|never born)`, weight: 0.9 },
+      { pattern: 'better off dead', weight: 0.95 },
+      { pattern: `better off without ${OBJECT}`, weight: 0.8 },
+      { pattern: 'no reason to live', weight: 0.9, includesNegation: true },
+      { pattern: "(?:don't|doesn't|do not|does not|didn't|did not) want to (?:live|be alive|be here anymore|wake up)", weight: 0.85, includesNegation: true },
+      { pattern: 'disappear forever', weight: 0.8 },
+      { pattern: 'want(?:s|ed)? to disappear', weight: 0.6 },
+      { pattern: "(?:can't|cannot|can not) go on", weight: 0.6, includesNegation: true },
+      { pattern: "(?:won't|will not) be (?:around|here) (?:anymore|much longer|for long)", weight: 0.7, includesNegation: true },
+      { pattern: 'self[- ]?harm(?:s|ed|ing)?', weight: 0.9 },
+      { pattern: 'self[- ]?injur(?:y|ies|ing|ious)', weight: 0.9 },
+      { pattern: `(?:cut|cuts|cutting|burn|burns|burned|burning|hurt|hurts|hurting|harm|harms|harming) ${SELF}`, weight: 0.9 },
+      { pattern: `(?:hit|hits|hitting|punch|punches|punching|scratch|scratches|scratching) ${SELF}`, weight: 0.65 },
+      { pattern: `cuts? (?:on|to) ${POSSESSIVE} (?:arms?|wrists?|legs?|thighs?)`, weight: 0.75 },
+      { pattern: '(?:cut|burn) (?:marks|scars)', weight: 0.7 },
+      { pattern: 'overdos(?:e|ed|ing)', weight: 0.85 },
+      { pattern: `giv(?:e|es|ing|en) away (?:${POSSESSIVE} )?(?:belongings|possessions|things|stuff)`, weight: 0.55 },
+      { pattern: 'saying goodbye', weight: 0.35 },
+      { pattern: '(?:talk|talks|talking|talked|writes|writing|wrote) about (?:death|dying|suicide)', weight: 0.55 },
+      { pattern: 'death wish', weight: 0.7 },
+      { pattern: 'funeral plans', weight: 0.6 },
+      { pattern: `(?:writ(?:e|es|ing)|wrote|written) (?:a|${POSSESSIVE}) will`, weight: 0.6 },
+      { pattern: `(?:nobody|no one|no-one) would (?:care|notice|miss ${OBJECT})`, weight: 0.6, includesNegation: true },
+      { pattern: 'voices telling', weight: 0.7 },
+      { pattern: '(?:dangerous|scary|dark) thoughts', weight: 0.6 },
+      { pattern: "(?:can't|cannot|can not) cope", weight: 0.35, includesNegation: true },
+      { pattern: 'breaking point', weight: 0.35 },
+      { pattern: 'losing control', weight: 0.3 },
+      { pattern: 'giving up on (?:life|everything)', weight: 0.5 },
+      { pattern: 'worthless', weight: 0.3 },
+      { pattern: 'hopeless', weight: 0.3 },
+    ],
+    abuse: [
+      { pattern: 'sexual(?:ly)? abus(?:e|ed|ing|ive)', weight: 1 },
+      { pattern: 'physical(?:ly)? abus(?:e|ed|ing|ive)', weight: 0.9 },
+      { pattern: 'emotional(?:ly)? abus(?:e|ed|ing|ive)', weight: 0.8 },
+      { pattern: 'abus(?:e|ed|es|ing|ive)', weight: 0.7 },
+      { pattern: 'molest(?:ed|ing|ation|s)?', weight: 1 },
+      { pattern: 'rap(?:e|ed)', weight: 1 },
+      { pattern: `touch(?:es|ed|ing)? ${OBJECT} inappropriately`, weight: 0.95 },
+      { pattern: `(?:${FAMILY_MEMBER}|adult|man|stranger|neighbou?r|babysitter|coach|older (?:boy|man|student|kid)) (?:has |had )?touch(?:es|ed|ing)? ${OBJECT}${BENIGN_TOUCH}`, weight: 0.8 },
+      { pattern: 'inappropriate(?:ly)? touch(?:ing|ed)?', weight: 0.95 },
+      { pattern: 'touching inappropriately', weight: 0.95 },
+      { pattern: `(?:hit|hits|hitting|beat|beats|beaten|beating|hurt|hurts|hurting) (?:${OBJECT} )?at home`, weight: 0.85 },
+      { pattern: `${FAMILY_MEMBER} (?:has |had |often |always |sometimes |keeps )?(?:hit|hits|hitting|beat|beats|beating|beaten|punch(?:es|ed|ing)?|kick(?:s|ed|ing)?|slap(?:s|ped|ping)?|chok(?:es|ed|ing)|hurt(?:s|ing)?) ${OBJECT}`, weight: 0.85 },
+      { pattern: '(?:scared|afraid|frightened|terrified) (?:to go|of going) home', weight: 0.85 },
+      { pattern: "(?:doesn't|does not|don't|do not|won't|will not) want to go home", weight: 0.55, includesNegation: true },
+      { pattern: '(?:family|domestic) violence', weight: 0.85 },
+      { pattern: 'unexplained (?:injur(?:y|ies)|marks|bruis(?:e|es|ing))', weight: 0.65 },
+      { pattern: `(?:${FAMILY_MEMBER}|someone|an adult) (?:gave|leaves|left) ${OBJECT} (?:with )?(?:a |black )?(?:bruises?|black eye|marks)`, weight: 0.85 },
+      { pattern: `(?:bruises?|marks|injur(?:y|ies)) (?:from|after) (?:${POSSESSIVE} )?${FAMILY_MEMBER}`, weight: 0.8 },
+      { pattern: 'bruis(?:e|es|ed|ing)', weight: 0.45, contextual: true },
+      { pattern: 'groom(?:ed|ing)', weight: 0.6 },
+    ],
+    violence: [
+      { pattern: '(?:bring|bringing|brought|brings) (?:a )?(?:gun|knife|knives|weapon)s? (?:to|into) school', weight: 1 },
+      { pattern: '(?:shoot|shooting) up (?:the )?(?:school|class)', weight: 1 },
+      { pattern: '(?:kill|hit) list', weight: 0.95 },
+      { pattern: 'death threats?', weight: 0.9 },
+      { pattern: "(?:going to|gonna|wants? to|will|threatened to) (?:hurt|kill|stab|shoot|attack) (?:someone|somebody|people|everyone|him|her|them|others|a classmate|classmates)", weight: 0.85 },
+      { pattern: '(?:hurt|harm) (?:others|someone|somebody|people)', weight: 0.6 },
+      { pattern: `(?:stab(?:s|bed|bing)?|shot|shoot(?:s|ing)?) (?:a |another )?(?:${PERSON})`, weight: 0.85 },
+      { pattern: `(?:threaten(?:s|ed|ing)?|attack(?:s|ed|ing)?|chas(?:es|ed|ing)|went for) (?:a |another )?(?:${PERSON}) with (?:a |an )?(?:knife|gun|weapon|blade|bat|scissors)`, weight: 0.9 },
+      { pattern: 'murder(?:ed|ing|s)?', weight: 0.5, contextual: true },
+      { pattern: 'stab(?:s|bed|bing)?', weight: 0.5, contextual: true },
+      { pattern: 'kill(?:s|ed|ing)?', weight: 0.5, contextual: true },
+      { pattern: 'weapons?', weight: 0.6, contextual: true },
+      { pattern: 'guns?', weight: 0.55, contextual: true },
+      { pattern: 'knife|knives', weight: 0.55, contextual: true },
+      { pattern: 'shoot(?:s|ing)?', weight: 0.5, contextual: true },
+      { pattern: 'bombs?', weight: 0.5, contextual: true },
+      { pattern: `make (?:${OBJECT}|everyone|them all) pay`, weight: 0.6 },
+      { pattern: 'threat(?:s|en|ens|ened|ening)?', weight: 0.45, contextual: true },
+      { pattern: 'revenge', weight: 0.45, contextual: true },
+      { pattern: 'get(?:ting)? back at', weight: 0.4, contextual: true },
+      { pattern: `beat(?:s|ing)? (?:${OBJECT}|someone|somebody) up|beating up`, weight: 0.6 },
+      { pattern: 'attack(?:s|ed|ing)?', weight: 0.45, contextual: true },
+      { pattern: 'violen(?:t|ce)', weight: 0.45, contextual: true },
+      { pattern: 'fight(?:s|ing)?', weight: 0.25, contextual: true },
+    ],
+    neglect: [
+      { pattern: 'neglect(?:ed|ful|ing)?', weight: 0.85 },
+      { pattern: 'no food at home', weight: 0.8, includesNegation: true },
+      { pattern: '(?:comes|coming|came|arrives|arriving) (?:to school )?hungry', weight: 0.6 },
+      { pattern: '(?:always|often|constantly) hungry', weight: 0.5 },
+      { pattern: 'left (?:alone|home alone|unsupervised) (?:at home|for days|overnight|all weekend)', weight: 0.7 },
+      { pattern: '(?:nobody|no one|no-one|no adult) (?:is )?(?:at home|looking after)', weight: 0.5, includesNegation: true },
+      { pattern: '(?:same|dirty|unwashed) clothes (?:every day|for days|all week)', weight: 0.5 },
+      { pattern: 'poor hygiene', weight: 0.35 },
+      { pattern: 'untreated (?:injur(?:y|ies)|illness|medical|tooth|teeth)', weight: 0.6 },
+    ],
+  },
+  idioms: [
+    "(?:killed|killing|kills|kill) it(?= (?:on|in|at|during|today|yesterday|this|last)\\b|[.!,;]|$)",
+    '(?:is|are|was|were|it\'s) killing (?:me|us)',
+    'kill(?:s|ed|ing)? time',
+    'killer (?:app|feature|move|instinct|smile)',
+    '(?:lesson|test|exam|quiz|presentation|performance|joke|show|play|project|audition|interview)s? (?:totally |completely |really |kind of |just )?bombed',
+    `bomb(?:s|ed)? (?:the|a|an|${POSSESSIVE}) (?:test|exam|quiz|presentation|audition|interview)`,
+    'photo ?bomb(?:s|ed|ing)?|bath bombs?|da bomb',
+    'dying (?:to|for|of laughter|laughing)|to die for|bored to death|dead (?:tired|serious|silent|quiet|set)',
+    'cut(?:s|ting)? (?:corners|class|classes|in line|the line|paper|out|shapes|it close)',
+    'shoot(?:s|ing)? (?:hoops|baskets|a video|photos|pictures|for the stars|the breeze)|photo ?shoots?',
+    '(?:heart|asthma|panic|anxiety) attacks?',
+    '(?:food|pillow|snowball|water|nerf) fights?|fight(?:s|ing)? (?:off )?(?:a|the) (?:cold|flu|infection|urge)|fight(?:s|ing)? back tears',
+    `attack(?:s|ed|ing)? (?:the|a|this|that|${POSSESSIVE}) (?:problem|question|task|worksheet|essay)`,
+    '(?:glue|water|nerf|squirt|bubble) guns?',
+    'murder mystery|murder mysteries',
+    'bruised (?:ego|pride)',
+    `groom(?:s|ed|ing)? (?:the |${POSSESSIVE} )?(?:dog|cat|horse|pony|pet)s?`,
+    'hungry for (?:knowledge|success|more|learning|attention)',
+  ],
+  negations: [
+    'no', 'not', 'never', 'without', 'denies', 'denied', 'deny', 'ruled out', 'no signs of', 'no evidence of',
+    'no indication of', 'no history of', "isn't", "wasn't", "doesn't", "didn't", "don't", "hasn't", "haven't",
+  ],
+};
+
+// Chinese has no spaces between words, so terms are found by dictionary segmentation (see tokenizeCJK)
+const CHINESE_LEXICON: SafeguardingLexicon = {
+  language: 'zh',
+  categories: {
+    self_harm: [
+      { pattern: '自杀', weight: 0.95 },
+      { pattern: '想自杀', weight: 1 },
+      { pattern: '轻生', weight: 0.9 },
+      { pattern: '想死', weight: 0.9 },
+      { pattern: '寻死', weight: 0.9 },
+      { pattern: '不想活', weight: 0.9, includesNegation: true },
+      { pattern: '活不下去', weight: 0.8, includesNegation: true },
+      { pattern: '活着没意思', weight: 0.85, includesNegation: true },
+      { pattern: '活着没有意义', weight: 0.85, includesNegation: true },
+      { pattern: '结束生命', weight: 1 },
+      { pattern: '结束自己的生命', weight: 1 },
+      { pattern: '了结自己', weight: 0.95 },
+      { pattern: '自残', weight: 0.9 },
+      { pattern: '自伤', weight: 0.9 },
+      { pattern: '割腕', weight: 0.95 },
+      { pattern: '割伤自己', weight: 0.9 },
+      { pattern: '划伤自己', weight: 0.85 },
+      { pattern: '伤害自己', weight: 0.9 },
+      { pattern: '打自己', weight: 0.6 },
+      { pattern: '跳楼', weight: 0.9 },
+      { pattern: '跳河', weight: 0.85 },
+      { pattern: '吃安眠药', weight: 0.7 },
+      { pattern: '服药过量', weight: 0.85 },
+      { pattern: '遗书', weight: 0.8 },
+      { pattern: '永远消失', weight: 0.8 },
+      { pattern: '从世界上消失', weight: 0.8 },
+      { pattern: '没人会在乎', weight: 0.6, includesNegation: true },
+      { pattern: '没有人会在乎', weight: 0.6, includesNegation: true },
+      { pattern: '没人会发现', weight: 0.6, includesNegation: true },
+      { pattern: '撑不下去', weight: 0.6, includesNegation: true },
+      { pattern: '绝望', weight: 0.35 },
+      { pattern: '一无是处', weight: 0.3 },
+      { pattern: '崩溃', weight: 0.3 },
+    ],
+    abuse: [
+      { pattern: '性侵', weight: 1 },
+      { pattern: '性虐待', weight: 1 },
+      { pattern: '猥亵', weight: 1 },
+      { pattern: '强奸', weight: 1 },
+      { pattern: '不当触摸', weight: 0.95 },
+      { pattern: '乱摸', weight: 0.8 },
+      { pattern: '虐待', weight: 0.8 },
+      { pattern: '家暴', weight: 0.9 },
+      { pattern: '家庭暴力', weight: 0.9 },
+      { pattern: '在家被打', weight: 0.85 },
+      { pattern: '在家打', weight: 0.8 },
+      { pattern: '被打', weight: 0.6 },
+      { pattern: '挨打', weight: 0.6 },
+      { pattern: '体罚', weight: 0.6 },
+      { pattern: '不敢回家', weight: 0.85, includesNegation: true },
+      { pattern: '害怕回家', weight: 0.85 },
+      { pattern: '怕回家', weight: 0.8 },
+      { pattern: '不想回家', weight: 0.55, includesNegation: true },
+      ...['爸爸', '妈妈', '父亲', '母亲', '继父', '继母', '后妈', '家长', '叔叔', '舅舅'].flatMap(relative =>
+        ['打他', '打她', '打我'].map(act => ({ pattern: relative + act, weight: 0.85 }))),
+      { pattern: '被打伤', weight: 0.85 },
+      { pattern: '打伤', weight: 0.7 },
+      { pattern: '不明伤痕', weight: 0.65 },
+      { pattern: '身上有伤', weight: 0.45, contextual: true },
+      { pattern: '脸上有伤', weight: 0.45, contextual: true },
+      { pattern: '淤青', weight: 0.45, contextual: true },
+      { pattern: '瘀伤', weight: 0.45, contextual: true },
+      { pattern: '伤痕', weight: 0.4, contextual: true },
+    ],
+    violence: [
+      { pattern: '带刀', weight: 0.85 },
+      { pattern: '持刀', weight: 0.9 },
+      { pattern: '带枪', weight: 1 },
+      { pattern: '炸学校', weight: 1 },
+      { pattern: '杀了他们', weight: 0.9 },
+      { pattern: '杀了他', weight: 0.85 },
+      { pattern: '杀了她', weight: 0.85 },
+      { pattern: '要杀', weight: 0.85 },
+      { pattern: '杀人', weight: 0.8 },
+      { pattern: '杀死', weight: 0.5, contextual: true },
+      { pattern: '捅人', weight: 0.8 },
+      { pattern: '死亡威胁', weight: 0.9 },
+      { pattern: '打死', weight: 0.6 },
+      { pattern: '炸弹', weight: 0.6, contextual: true },
+      { pattern: '枪', weight: 0.5, contextual: true },
+      { pattern: '武器', weight: 0.6, contextual: true },
+      { pattern: '报复', weight: 0.45, contextual: true },
+      { pattern: '威胁', weight: 0.45, contextual: true },
+      { pattern: '暴力', weight: 0.45, contextual: true },
+      { pattern: '攻击', weight: 0.45, contextual: true },
+      { pattern: '打人', weight: 0.35 },
+      { pattern: '打架', weight: 0.25, contextual: true },
+    ],
+    neglect: [
+      { pattern: '疏于照顾', weight: 0.7 },
+      { pattern: '被忽视', weight: 0.6 },
+      { pattern: '没饭吃', weight: 0.8, includesNegation: true },
+      { pattern: '饿着肚子', weight: 0.6 },
+      { pattern: '经常挨饿', weight: 0.6 },
+      { pattern: '挨饿', weight: 0.5 },
+      { pattern: '无人照顾', weight: 0.6, includesNegation: true },
+      { pattern: '没人管', weight: 0.5, includesNegation: true },
+      { pattern: '独自在家', weight: 0.5 },
+      { pattern: '卫生很差', weight: 0.35 },
+    ],
+  },
+  idioms: [
+    '笑死', '笑死我了', '累死', '累死了', '累得要死', '饿死了', '热死了', '冷死了', '吓死我了', '气死我了', '困死了', '烦死了', '忙死了',
+    '想死你了', '想死你们了', '打死我也', '杀时间', '杀价', '秒杀', '杀手锏', '必杀技', '报复性熬夜', '电脑崩溃', '系统崩溃',
+  ],
+  negations: ['没有', '并没有', '没', '未曾', '并未', '未见', '否认', '排除', '不是', '并非', '从不', '从没', '从未', '不存在'],
+  negationPrefixes: ['不', '不想', '不会', '不要', '不再', '不打算', '没想过'],
+  compounds: ['杀毒', '杀菌', '杀虫', '抹杀', '扼杀', '刀削面', '水枪', '玩具枪', '枪手', '打架子鼓', '不可忽视', '不容忽视'],
+};
+
+const SAFEGUARDING_LEXICONS: SafeguardingLexicon[] = [ENGLISH_LEXICON, CHINESE_LEXICON];
+
+const NEGATION_WINDOW_WORDS = 4;
+// A negation only covers its own predicate: "no friends and wants to die" still counts "wants to die".
+// "or"/"nor" are left out so "no signs of self-harm or bruising" rules out both.
+const NEGATION_SCOPE_BREAK = /[,:()\u2013\u2014]|\s-\s|\b(?:and|but|so|because|then|while|although|though|yet|when|since|after|before|until|who|which|plus|also)\b/gi;
+const NEGATION_WINDOW_CHARS = 8; // Chinese: roughly four words
+const CJK_NEGATION_SCOPE_BREAK = /和|而且|并且|所以|因为|然后|还|也|却/;
+
+export interface SafeguardingMatch {
+  phrase: string; // Text as written by the teacher
+  category: SafeguardingCategory;
+  weight: number;
+  language: SafeguardingLanguage;
+}
+
+export interface UrgentSafeguardResult {
+  isUrgent: boolean;
+  triggeredKeywords: string[]; // Indicator phrases that counted towards the score
+  requiresImmediateAttention: boolean;
+  bypassDelay: boolean;
+  category: SafeguardingCategory | null; // Highest-scoring category, null when nothing was found
+  riskScore: number; // 0-100; urgent at URGENT_RISK_THRESHOLD and above
+  categoryScores: Record<SafeguardingCategory, number>;
+  matches: SafeguardingMatch[];
+  ignoredPhrases: { phrase: string; reason: 'negated' | 'idiom' }[];
+  explanation: string;
+  modelReviewed?: boolean;
+}
+
+type ScanEvent =
+  | { type: 'match'; phrase: string; category: SafeguardingCategory; weight: number; contextual: boolean }
+  | { type: 'ignored'; phrase: string; reason: 'negated' | 'idiom' };
+
+interface LexiconMatcher {
+  language: SafeguardingLanguage;
+  appliesTo: (text: string) => boolean;
+  scan: (clause: string) => ScanEvent[];
+}
+
+interface CompiledRule extends SafeguardingRule {
+  category: SafeguardingCategory;
+  regex: RegExp;
+}
+
+const CJK_CHARACTER = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/;
+
+function listRules(lexicon: SafeguardingLexicon) {
+  const rules: (SafeguardingRule & { category: SafeguardingCategory })[] = [];
+  (Object.keys(lexicon.categories) as SafeguardingCategory[]).forEach(category => {
+    lexicon.categories[category].forEach(rule => rules.push({ ...rule, category }));
+  });
+  return rules;
+}
+
+function isNegated(clause: string, matchIndex: number, negations: string[][]): boolean {
+  const preceding = clause.slice(0, matchIndex);
+  let scopeStart = 0;
+  let scopeBreak: RegExpExecArray | null;
+  NEGATION_SCOPE_BREAK.lastIndex = 0;
+  while ((scopeBreak = NEGATION_SCOPE_BREAK.exec(preceding)) !== null) {
+    scopeStart = scopeBreak.index + scopeBreak[0].length;
+  }
+  const before = preceding.slice(scopeStart).toLowerCase().match(/[a-z']+/g) || [];
+  const window = before.slice(-NEGATION_WINDOW_WORDS - 2);
+  const recent = before.slice(-NEGATION_WINDOW_WORDS);
+  return negations.some(cue => {
+    if (cue.length === 1) return recent.includes(cue[0]) || recent.some(word => word.endsWith("n't") && cue[0] === "not");
+    // Multi-word cues ("no signs of") may start a little further back
+    for (let i = 0; i <= window.length - cue.length; i++) {
+      if (cue.every((word, offset) => window[i + offset] === word)) return true;
+    }
+    return false;
+  });
+}
+
+function compileWordLexicon(lexicon: SafeguardingLexicon): LexiconMatcher {
+  const rules: CompiledRule[] = listRules(lexicon)
+    .map(rule => ({ ...rule, regex: new RegExp(`\\b(?:${rule.pattern})\\b`, 'gi') }))
+    // Longer phrases first, so "kill myself" claims its words before the bare "kill" rule
+    .sort((a, b) => b.pattern.length - a.pattern.length);
+  const idioms = lexicon.idioms.map(idiom => new RegExp(`\\b(?:${idiom})`, 'gi'));
+  const negations = lexicon.negations.map(cue => cue.split(' '));
+
+  return {
+    language: lexicon.language,
+    appliesTo: () => true,
+    scan: (rawClause) => {
+      const events: ScanEvent[] = [];
+      // Idioms are blanked out (keeping offsets) so their words can't match indicator rules
+      let clause = rawClause;
+      idioms.forEach(idiom => {
+        clause = clause.replace(idiom, (phrase) => {
+          events.push({ type: 'ignored', phrase, reason: 'idiom' });
+          return ' '.repeat(phrase.length);
+        });
+      });
+
+      const claimed: [number, number][] = [];
+      rules.forEach(rule => {
+        rule.regex.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = rule.regex.exec(clause)) !== null) {
+          const start = match.index;
+          const end = start + match[0].length;
+          if (claimed.some(([claimedStart, claimedEnd]) => start >= claimedStart && end <= claimedEnd)) continue;
+          claimed.push([start, end]);
+
+          if (!rule.includesNegation && isNegated(clause, start, negations)) {
+            events.push({ type: 'ignored', phrase: match[0], reason: 'negated' });
+          } else {
+            events.push({ type: 'match', phrase: match[0], category: rule.category, weight: rule.weight, contextual: !!rule.contextual });
+          }
+        }
+      });
+      return events;
+    },
+  };
+}
+
+/**
+ * Forward maximum matching: at each position take the longest dictionary word, otherwise a single
+ * character. With idioms and compounds in the dictionary, 笑死 and 杀毒 come out as one token and
+ * can't be read as 死 or 杀. Runs of non-CJK text are kept as single tokens.
+ */
+export function tokenizeCJK(text: string, dictionary: Set<string>, maxWordLength: number): { token: string; index: number }[] {
+  const tokens: { token: string; index: number }[] = [];
+  let i = 0;
+  while (i < text.length) {
+    if (!CJK_CHARACTER.test(text[i])) {
+      let end = i + 1;
+      while (end < text.length && !CJK_CHARACTER.test(text[end])) end++;
+      tokens.push({ token: text.slice(i, end), index: i });
+      i = end;
+      continue;
+    }
+    let length = Math.min(maxWordLength, text.length - i);
+    while (length > 1 && !dictionary.has(text.slice(i, i + length))) length--;
+    tokens.push({ token: text.slice(i, i + length), index: i });
+    i += length;
+  }
+  return tokens;
+}
+
+function compileCJKLexicon(lexicon: SafeguardingLexicon): LexiconMatcher {
+  const rulesByTerm = new Map<string, SafeguardingRule & { category: SafeguardingCategory }>();
+  listRules(lexicon).forEach(rule => rulesByTerm.set(rule.pattern, rule));
+  const idioms = new Set(lexicon.idioms);
+  const dictionary = new Set([...Array.from(rulesByTerm.keys()), ...lexicon.idioms, ...(lexicon.compounds || [])]);
+  let maxWordLength = 1;
+  dictionary.forEach(word => { maxWordLength = Math.max(maxWordLength, word.length); });
+
+  return {
+    language: lexicon.language,
+    appliesTo: (text) => CJK_CHARACTER.test(text),
+    scan: (clause) => {
+      const events: ScanEvent[] = [];
+      tokenizeCJK(clause, dictionary, maxWordLength).forEach(({ token, index }) => {
+        if (idioms.has(token)) {
+          events.push({ type: 'ignored', phrase: token, reason: 'idiom' });
+          return;
+        }
+        const rule = rulesByTerm.get(token);
+        if (!rule) return;
+        const before = clause.slice(Math.max(0, index - NEGATION_WINDOW_CHARS), index).split(CJK_NEGATION_SCOPE_BREAK).pop() || '';
+        const negated = lexicon.negations.some(cue => before.includes(cue))
+          || (lexicon.negationPrefixes || []).some(prefix => before.endsWith(prefix));
+        if (!rule.includesNegation && negated) {
+          events.push({ type: 'ignored', phrase: token, reason: 'negated' });
+        } else {
+          events.push({ type: 'match', phrase: token, category: rule.category, weight: rule.weight, contextual: !!rule.contextual });
+        }
+      });
+      return events;
+    },
+  };
+}
+
+const compileLexicon = (lexicon: SafeguardingLexicon): LexiconMatcher =>
+  lexicon.language === 'zh' ? compileCJKLexicon(lexicon) : compileWordLexicon(lexicon);
+
+const lexiconMatchers: LexiconMatcher[] = SAFEGUARDING_LEXICONS.map(compileLexicon);
+
+// Adds a school's own phrases to the lexicon for their script; they take part in idiom, negation
+// and overlap handling exactly like the built-in rules
+function withSchoolKeywords(lexicon: SafeguardingLexicon, keywords: SafeguardingKeyword[]): SafeguardingLexicon {
+  const own = keywords.filter(keyword => CJK_CHARACTER.test(keyword.phrase) === (lexicon.language === 'zh'));
+  if (own.length === 0) return lexicon;
+
+  const categories = { ...lexicon.categories };
+  own.forEach(keyword => {
+    const pattern = lexicon.language === 'zh'
+      ? keyword.phrase.trim()
+      : keyword.phrase.trim().toLowerCase().replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+');
+    categories[keyword.category] = [...categories[keyword.category], { pattern, weight: keyword.weight }];
+  });
+  return { ...lexicon, categories };
+}
+
+// Compiled per keyword list, so a school's matchers are only rebuilt when its settings change
+const schoolMatcherCache = new Map<string, LexiconMatcher[]>();
+const MAX_CACHED_SCHOOL_MATCHERS = 100;
+
+function getMatchers(extraKeywords: SafeguardingKeyword[]): LexiconMatcher[] {
+  if (extraKeywords.length === 0) return lexiconMatchers;
+
+  const cacheKey = JSON.stringify(extraKeywords);
+  let matchers = schoolMatcherCache.get(cacheKey);
+  if (!matchers) {
+    if (schoolMatcherCache.size >= MAX_CACHED_SCHOOL_MATCHERS) schoolMatcherCache.clear();
+    matchers = SAFEGUARDING_LEXICONS.map(lexicon => compileLexicon(withSchoolKeywords(lexicon, extraKeywords)));
+    schoolMatcherCache.set(cacheKey, matchers);
+  }
+  return matchers;
+}
+
+const emptyCategoryScores = (): Record<SafeguardingCategory, number> => ({ self_harm: 0, abuse: 0, violence: 0, neglect: 0 });
+
+function emptyResult(): UrgentSafeguardResult {
+  return {
+    isUrgent: false,
+    triggeredKeywords: [],
+    requiresImmediateAttention: false,
+    bypassDelay: false,
+    category: null,
+    riskScore: 0,
+    categoryScores: emptyCategoryScores(),
+    matches: [],
+    ignoredPhrases: [],
+    explanation: 'No safeguarding indicators found.',
+  };
+}
+
+// Clauses keep a negation from reaching past a full stop or a "but" (Chinese: also a comma, 但是 or 可是)
+function splitClauses(text: string): string[] {
+  return text.split(/[.!?;\n。！？；，]+|,\s*but\b|\bbut\b|但是|可是/i).map(clause => clause.trim()).filter(Boolean);
+}
+
+function describeResult(result: UrgentSafeguardResult): string {
+  if (result.matches.length === 0 && result.ignoredPhrases.length === 0) {
+    return 'No safeguarding indicators found.';
+  }
+
+  const parts: string[] = [];
+  const byCategory = new Map<SafeguardingCategory, string[]>();
+  result.matches.forEach(match => byCategory.set(match.category, [...(byCategory.get(match.category) || []), `"${match.phrase}"`]));
+  byCategory.forEach((phrases, category) => {
+    parts.push(`${SAFEGUARDING_CATEGORY_LABELS[category]} (${result.categoryScores[category]}/100): ${phrases.join(', ')}`);
+  });
+  if (result.ignoredPhrases.length > 0) {
+    parts.push(`Not counted: ${result.ignoredPhrases.map(ignored => `"${ignored.phrase}" (${ignored.reason === 'idiom' ? 'figure of speech' : 'negated'})`).join(', ')}`);
+  }
+
+  const verdict = result.isUrgent
+    ? `Risk score ${result.riskScore}/100 - urgent.`
+    : `Risk score ${result.riskScore}/100 - below the urgent threshold of ${URGENT_RISK_THRESHOLD}.`;
+  return `${verdict} ${parts.join('. ')}.`;
+}
+
+// Combines category scores into the result fields; also used after a model review raises a score
+function finalizeResult(result: UrgentSafeguardResult): UrgentSafeguardResult {
+  let category: SafeguardingCategory | null = null;
+  let riskScore = 0;
+  (Object.keys(result.categoryScores) as SafeguardingCategory[]).forEach(key => {
+    const weighted = Math.round(result.categoryScores[key] * CATEGORY_WEIGHTS[key]);
+    if (weighted > riskScore) {
+      riskScore = weighted;
+      category = key;
+    }
+  });
+
+  const isUrgent = riskScore >= URGENT_RISK_THRESHOLD;
+  const finalized = {
+    ...result,
+    category,
+    riskScore,
+    isUrgent,
+    requiresImmediateAttention: isUrgent,
+    bypassDelay: isUrgent, // Bypass the review delay for urgent cases
+  };
+  return { ...finalized, explanation: describeResult(finalized) };
+}
+
+/**
+ * Rule-based safeguarding check. Synchronous and offline, so it can run on every submission
+ * before any AI call is made.
+ */
+export function detectUrgentKeywords(text: string, extraKeywords: SafeguardingKeyword[] = []): UrgentSafeguardResult {
+  if (!text || typeof text !== 'string') {
+    return emptyResult();
+  }
+
+  const result = emptyResult();
+  const categoryProbabilities = emptyCategoryScores();
+  const definiteCategories = new Set<SafeguardingCategory>();
+  const normalized = text.replace(/[’‘]/g, "'");
+  const matchers = getMatchers(extraKeywords).filter(matcher => matcher.appliesTo(normalized));
+
+  splitClauses(normalized).forEach(clause => {
+    matchers.forEach(matcher => {
+      matcher.scan(clause).forEach(event => {
+        if (event.type === 'ignored') {
+          result.ignoredPhrases.push({ phrase: event.phrase, reason: event.reason });
+          return;
+        }
+        result.matches.push({ phrase: event.phrase, category: event.category, weight: event.weight, language: matcher.language });
+        if (!event.contextual) definiteCategories.add(event.category);
+        // Independent indicators reinforce each other: 1 - (1 - p1)(1 - p2)...
+        categoryProbabilities[event.category] = 1 - (1 - categoryProbabilities[event.category]) * (1 - event.weight);
+      });
+    });
+  });
+
+  (Object.keys(categoryProbabilities) as SafeguardingCategory[]).forEach(category => {
+    const score = Math.round(categoryProbabilities[category] * 100);
+    // Contextual words alone ("bruised his knee", "the murder scene") stay below the threshold
+    result.categoryScores[category] = definiteCategories.has(category) ? score : Math.min(score, URGENT_RISK_THRESHOLD - 1);
+  });
+  result.triggeredKeywords = Array.from(new Set(result.matches.map(match => match.phrase.toLowerCase())));
+
+  const finalized = finalizeResult(result);
+  console.log('🔍 Safeguarding check:', {
+    riskScore: finalized.riskScore,
+    category: finalized.category,
+    isUrgent: finalized.isUrgent,
+    matches: finalized.triggeredKeywords,
+    ignored: finalized.ignoredPhrases.length,
+    textLength: text.length,
+  });
+  return finalized;
+}
+
+// Off by default: the rule set is authoritative, the model only double-checks borderline text
+let modelReviewEnabled = process.env.SAFEGUARDING_MODEL_REVIEW === 'true';
+
+export function setSafeguardingModelReviewEnabled(enabled: boolean) {
+  modelReviewEnabled = enabled;
+}
+
+const MODEL_REVIEW_PROMPT = `You are a school safeguarding lead reviewing a teacher's note about a student.
+The note may be written in English or Chinese.
+Rate how likely it is that the student is at risk of self-harm, abuse, violence (to or from others) or neglect.
+Ignore figures of speech ("killed it on the test") and risks the teacher explicitly rules out.
+Respond with JSON only: {"category": "self_harm" | "abuse" | "violence" | "neglect" | null, "riskScore": 0-100, "rationale": "one sentence"}`;
+
+/**
+ * Rule-based check plus, when enabled, a model review of text the rules found something in but
+ * didn't rate urgent. The model can only raise the score: a missed concern is far costlier than
+ * an extra review, so rule-based urgency is never overridden.
+ */
+export async function assessSafeguardingRisk(
+  text: string,
+  context: { schoolName?: string | null; userId?: string | null; extraKeywords?: SafeguardingKeyword[] } = {}
+): Promise<UrgentSafeguardResult> {
+  const result = detectUrgentKeywords(text, context.extraKeywords);
+  if (!modelReviewEnabled || result.isUrgent || (result.matches.length === 0 && result.ignoredPhrases.length === 0)) {
+    return result;
+  }
+
+  try {
+    const { getAIClients, createCompletionWithFailover } = await import('./aiKeyPool');
+    const clients = await getAIClients(context.schoolName);
+    if (clients.length === 0) return result;
+
+    const completion = await createCompletionWithFailover(clients, {
+      systemPrompt: MODEL_REVIEW_PROMPT,
+      userPrompt: text,
+      maxTokens: 200,
+      temperature: 0,
+      usageContext: { taskType: 'safeguarding_review', schoolName: context.schoolName, userId: context.userId },
+    });
+    const review = JSON.parse(completion.content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+    const category = review?.category as SafeguardingCategory | null;
+    const score = Math.max(0, Math.min(100, Math.round(Number(review?.riskScore) || 0)));
+    if (!category || !(category in CATEGORY_WEIGHTS)) {
+      return { ...result, modelReviewed: true };
+    }
+
+    // Model scores are overall risk, so undo the category weighting before merging
+    const categoryScore = Math.min(100, Math.round(score / CATEGORY_WEIGHTS[category]));
+    const reviewed = finalizeResult({
+      ...result,
+      categoryScores: { ...result.categoryScores, [category]: Math.max(result.categoryScores[category], categoryScore) },
+      modelReviewed: true,
+    });
+    if (reviewed.riskScore > result.riskScore) {
+      console.warn(`🧭 Safeguarding model review raised risk ${result.riskScore} → ${reviewed.riskScore} (${category})`);
+      return { ...reviewed, explanation: `${reviewed.explanation} Model review: ${String(review.rationale || '').slice(0, 300)}` };
+    }
+    return reviewed;
+  } catch (error) {
+    console.error('❌ Safeguarding model review failed, using rule-based result:', error instanceof Error ? error.message : error);
+    return result;
+  }
+}
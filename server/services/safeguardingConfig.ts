@@ -0,0 +1,223 @@
+import { db } from "../db";
+import {
+  schools,
+  schoolSafeguardingSettings,
+  safeguardingLeads,
+  type InsertSafeguardingLead,
+  type SafeguardingKeyword,
+  type SafeguardingLead,
+  type SchoolSafeguardingSettings,
+  type UpdateSchoolSafeguardingSettings,
+} from "@shared/schema";
+import { and, asc, eq } from "drizzle-orm";
+import { SAFEGUARDING_CATEGORY_LABELS, type UrgentSafeguardResult } from "./safeguarding";
+
+// Per-school safeguarding setup: the designated safeguarding leads (DSLs) urgent alerts name and
+// email, the school's own protocol text, and extra indicator phrases for the classifier.
+
+export interface SchoolSafeguardingConfig {
+  schoolId: string;
+  schoolName: string;
+  protocolText: string | null;
+  extraKeywords: SafeguardingKeyword[];
+  notifyLeads: boolean;
+  escalationMinutes: number; // How long an urgent case waits for acknowledgment before moving up the chain
+  leads: SafeguardingLead[]; // Active leads in escalation order
+}
+
+const DEFAULT_ESCALATION_MINUTES = 15;
+
+export function getDefaultEscalationMinutes(): number {
+  const value = Number(process.env.SAFEGUARDING_ESCALATION_MINUTES);
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_ESCALATION_MINUTES;
+}
+
+// The offline evaluation harness runs without a database, so every school uses the defaults
+let configLookupEnabled = true;
+
+export function setSafeguardingConfigLookupEnabled(enabled: boolean) {
+  configLookupEnabled = enabled;
+}
+
+function toConfig(
+  school: { id: string; name: string },
+  settings: SchoolSafeguardingSettings | null,
+  leads: SafeguardingLead[]
+): SchoolSafeguardingConfig {
+  return {
+    schoolId: school.id,
+    schoolName: school.name,
+    protocolText: settings?.protocolText?.trim() || null,
+    extraKeywords: Array.isArray(settings?.extraKeywords) ? settings!.extraKeywords as SafeguardingKeyword[] : [],
+    notifyLeads: settings?.notifyLeads ?? true,
+    escalationMinutes: settings?.escalationMinutes || getDefaultEscalationMinutes(),
+    leads,
+  };
+}
+
+/**
+ * The safeguarding setup for the school a request came from, or null when the school is unknown
+ * or has nothing configured. Lookup failures are logged and treated as "nothing configured" so a
+ * database problem never stops a safety alert from being shown.
+ */
+export async function getSchoolSafeguardingConfig(schoolName?: string | null): Promise<SchoolSafeguardingConfig | null> {
+  if (!configLookupEnabled || !schoolName) return null;
+
+  try {
+    const [row] = await db
+      .select({ school: schools, settings: schoolSafeguardingSettings })
+      .from(schools)
+      .leftJoin(schoolSafeguardingSettings, eq(schoolSafeguardingSettings.schoolId, schools.id))
+      .where(eq(schools.name, schoolName))
+      .limit(1);
+    if (!row) return null;
+
+    const leads = await db
+      .select()
+      .from(safeguardingLeads)
+      .where(and(eq(safeguardingLeads.schoolId, row.school.id), eq(safeguardingLeads.isActive, true)))
+      .orderBy(asc(safeguardingLeads.escalationOrder), asc(safeguardingLeads.name));
+
+    if (!row.settings && leads.length === 0) return null;
+    return toConfig(row.school, row.settings, leads);
+  } catch (error) {
+    console.error(`❌ Error loading safeguarding settings for ${schoolName}, using defaults:`, error);
+    return null;
+  }
+}
+
+// Admin view: settings (or defaults) and every lead, including inactive ones
+export async function getSchoolSafeguardingAdminView(schoolId: string) {
+  const [row] = await db
+    .select({ school: schools, settings: schoolSafeguardingSettings })
+    .from(schools)
+    .leftJoin(schoolSafeguardingSettings, eq(schoolSafeguardingSettings.schoolId, schools.id))
+    .where(eq(schools.id, schoolId))
+    .limit(1);
+  if (!row) return null;
+
+  const leads = await db
+    .select()
+    .from(safeguardingLeads)
+    .where(eq(safeguardingLeads.schoolId, schoolId))
+    .orderBy(asc(safeguardingLeads.escalationOrder), asc(safeguardingLeads.name));
+
+  const config = toConfig(row.school, row.settings, []);
+  return { ...config, leads, updatedAt: row.settings?.updatedAt || null };
+}
+
+export async function updateSchoolSafeguardingSettings(
+  schoolId: string,
+  updates: UpdateSchoolSafeguardingSettings,
+  updatedBy: string
+): Promise<SchoolSafeguardingSettings> {
+  const values = {
+    ...(updates.protocolText !== undefined && { protocolText: updates.protocolText?.trim() || null }),
+    ...(updates.extraKeywords !== undefined && {
+      // One entry per phrase; the last one submitted wins
+      extraKeywords: Array.from(new Map(updates.extraKeywords.map(keyword => [keyword.phrase.toLowerCase(), keyword])).values()),
+    }),
+    ...(updates.notifyLeads !== undefined && { notifyLeads: updates.notifyLeads }),
+    ...(updates.escalationMinutes !== undefined && { escalationMinutes: updates.escalationMinutes }),
+    updatedBy,
+  };
+
+  const [settings] = await db
+    .insert(schoolSafeguardingSettings)
+    .values({ schoolId, ...values })
+    .onConflictDoUpdate({ target: schoolSafeguardingSettings.schoolId, set: { ...values, updatedAt: new Date() } })
+    .returning();
+  return settings;
+}
+
+export async function createSafeguardingLead(schoolId: string, data: InsertSafeguardingLead): Promise<SafeguardingLead> {
+  const [lead] = await db.insert(safeguardingLeads).values({ ...data, schoolId }).returning();
+  return lead;
+}
+
+export async function updateSafeguardingLead(id: string, data: Partial<InsertSafeguardingLead>): Promise<SafeguardingLead | undefined> {
+  const [lead] = await db
+    .update(safeguardingLeads)
+    .set({ ...data, updatedAt: new Date() })
+    .where(eq(safeguardingLeads.id, id))
+    .returning();
+  return lead;
+}
+
+export async function deleteSafeguardingLead(id: string): Promise<boolean> {
+  const deleted = await db.delete(safeguardingLeads).where(eq(safeguardingLeads.id, id)).returning({ id: safeguardingLeads.id });
+  return deleted.length > 0;
+}
+
+// "Jane Smith (Designated Safeguarding Lead) - 01234 567890, jane@school.org, Mon-Fri 8:00-16:30"
+export function describeSafeguardingLead(lead: SafeguardingLead): string {
+  const contact = [lead.phone, lead.email, lead.hours].filter(Boolean).join(', ');
+  return `${lead.name}${lead.role ? ` (${lead.role})` : ''} - ${contact}`;
+}
+
+export interface SafeguardingAlert {
+  source: 'concern' | 'follow_up'; // Classroom submissions go through the escalation chain instead
+  referenceId: string; // Concern or submission id
+  studentLabel: string; // e.g. "Lena K."
+  teacherName: string;
+  result: UrgentSafeguardResult;
+}
+
+/**
+ * Emails every active lead at the school about an urgent detection, listing all leads in escalation
+ * order. Never throws: a failed email is logged, and the in-app alert the teacher sees is unaffected.
+ */
+export async function notifySafeguardingLeads(schoolName: string | null | undefined, alert: SafeguardingAlert): Promise<string[]> {
+  try {
+    const config = await getSchoolSafeguardingConfig(schoolName);
+    if (!config || !config.notifyLeads || config.leads.length === 0) return [];
+
+    const { getEmailTransporter } = await import('./email');
+    const emailSetup = await getEmailTransporter();
+    if (!emailSetup) {
+      console.warn(`⚠️ Email not configured - safeguarding leads at ${config.schoolName} were not notified about ${alert.source} ${alert.referenceId}`);
+      return [];
+    }
+
+    const { transporter, fromAddress, fromName } = emailSetup;
+    const categoryLabel = alert.result.category ? SAFEGUARDING_CATEGORY_LABELS[alert.result.category] : 'Safeguarding risk';
+    const sourceLabel = alert.source === 'follow_up' ? 'follow-up question' : 'student concern';
+    const escalationList = config.leads.map((lead, index) => `<li>${index + 1}. ${escapeHtml(describeSafeguardingLead(lead))}</li>`).join('');
+
+    const notified: string[] = [];
+    for (const lead of config.leads) {
+      try {
+        await transporter.sendMail({
+          from: `${fromName} <${fromAddress}>`,
+          to: lead.email,
+          subject: `URGENT safeguarding alert: ${categoryLabel} - ${alert.studentLabel}`,
+          html: `
+            <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+              <h2 style="color: #b91c1c;">Urgent safeguarding alert</h2>
+              <p>Hello ${escapeHtml(lead.name)},</p>
+              <p>A ${sourceLabel} from <strong>${escapeHtml(alert.teacherName)}</strong> about <strong>${escapeHtml(alert.studentLabel)}</strong> at ${escapeHtml(config.schoolName)} was flagged as urgent.</p>
+              <p><strong>${escapeHtml(categoryLabel)}</strong> - risk score ${alert.result.riskScore}/100</p>
+              <p>${escapeHtml(alert.result.explanation)}</p>
+              <p>Please log in to Concern2Care to review it (reference ${escapeHtml(alert.referenceId)}) and follow up with the teacher today.</p>
+              <p style="color: #666; font-size: 14px;">Safeguarding contacts in escalation order:</p>
+              <ul style="color: #666; font-size: 14px; list-style: none; padding-left: 0;">${escalationList}</ul>
+            </div>
+          `,
+        });
+        notified.push(lead.email);
+      } catch (error) {
+        console.error(`❌ Failed to email safeguarding lead ${lead.email}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`🛡️ Notified ${notified.length}/${config.leads.length} safeguarding lead(s) at ${config.schoolName} about ${alert.source} ${alert.referenceId}`);
+    return notified;
+  } catch (error) {
+    console.error('❌ Error notifying safeguarding leads:', error);
+    return [];
+  }
+}
+
+export function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
@@ -0,0 +1,429 @@
+import { db } from "../db";
+import {
+  adminNotifications,
+  classroomSubmissions,
+  classroomEnrolledTeachers,
+  users,
+  type AdminNotification,
+  type UrgentCaseAction,
+  type UrgentEscalationEvent,
+} from "@shared/schema";
+import { and, asc, eq, isNull, lte, ne, or, sql } from "drizzle-orm";
+import {
+  describeSafeguardingLead,
+  escapeHtml,
+  getDefaultEscalationMinutes,
+  getSchoolSafeguardingConfig,
+  type SchoolSafeguardingConfig,
+} from "./safeguardingConfig";
+
+// Escalation chain for urgent classroom submissions. The primary safeguarding lead is emailed
+// first; if nobody acknowledges the notification within the school's escalation window the next
+// lead is emailed, and after the last lead every super admin. Each step, acknowledgment and
+// follow-up action is appended to the notification's timestamped escalation log.
+
+interface EscalationStep {
+  contacts: { name: string; email: string }[];
+  label: string; // Stored as currentContact and shown in the urgent queue
+}
+
+interface UrgentCaseContext {
+  notification: AdminNotification;
+  schoolName: string | null;
+  studentLabel: string;
+  teacherName: string;
+}
+
+const SUPER_ADMIN_LABEL = 'Super admins';
+
+// Leads are only part of the chain when the school wants them emailed; super admins always close it
+async function getEscalationSteps(config: SchoolSafeguardingConfig | null): Promise<EscalationStep[]> {
+  const leadSteps: EscalationStep[] = (config?.notifyLeads ? config.leads : []).map(lead => ({
+    contacts: [{ name: lead.name, email: lead.email }],
+    label: `${lead.name} <${lead.email}>`,
+  }));
+
+  const superAdmins = await db
+    .select({ firstName: users.firstName, lastName: users.lastName, email: users.email })
+    .from(users)
+    .where(and(eq(users.role, 'super_admin'), eq(users.isActive, true)));
+
+  return [
+    ...leadSteps,
+    {
+      contacts: superAdmins.map(admin => ({
+        name: [admin.firstName, admin.lastName].filter(Boolean).join(' ') || admin.email,
+        email: admin.email,
+      })),
+      label: SUPER_ADMIN_LABEL,
+    },
+  ];
+}
+
+function appendEvents(events: UrgentEscalationEvent[]) {
+  return sql`coalesce(${adminNotifications.escalationLog}, '[]'::jsonb) || ${JSON.stringify(events)}::jsonb`;
+}
+
+function minutesSince(date: Date | null | undefined, now = new Date()): number {
+  return date ? Math.max(0, Math.floor((now.getTime() - new Date(date).getTime()) / 60000)) : 0;
+}
+
+async function loadUrgentCase(notificationId: string): Promise<UrgentCaseContext | null> {
+  const [row] = await db
+    .select({
+      notification: adminNotifications,
+      schoolName: classroomEnrolledTeachers.school,
+      studentFirstName: classroomSubmissions.firstName,
+      studentLastInitial: classroomSubmissions.lastInitial,
+      teacherFirstName: classroomEnrolledTeachers.firstName,
+      teacherLastName: classroomEnrolledTeachers.lastName,
+    })
+    .from(adminNotifications)
+    .innerJoin(classroomSubmissions, eq(adminNotifications.submissionId, classroomSubmissions.id))
+    .leftJoin(classroomEnrolledTeachers, eq(classroomSubmissions.teacherId, classroomEnrolledTeachers.id))
+    .where(eq(adminNotifications.id, notificationId))
+    .limit(1);
+  if (!row) return null;
+
+  return {
+    notification: row.notification,
+    schoolName: row.schoolName,
+    studentLabel: `${row.studentFirstName} ${row.studentLastInitial}.`,
+    teacherName: [row.teacherFirstName, row.teacherLastName].filter(Boolean).join(' ') || 'A teacher',
+  };
+}
+
+/**
+ * Emails everyone at one step of the chain. Returns a note for the escalation log when nobody
+ * could be emailed, so the log shows the step was reached even if the message didn't go out.
+ */
+async function emailEscalationStep(
+  step: EscalationStep,
+  urgentCase: UrgentCaseContext,
+  config: SchoolSafeguardingConfig | null,
+  minutesUnacknowledged: number
+): Promise<string | null> {
+  if (step.contacts.length === 0) return 'No active super admin to email';
+
+  const { getEmailTransporter } = await import('./email');
+  const emailSetup = await getEmailTransporter();
+  if (!emailSetup) {
+    console.warn(`⚠️ Email not configured - ${step.label} not emailed about urgent notification ${urgentCase.notification.id}`);
+    return 'Email not configured';
+  }
+
+  const { transporter, fromAddress, fromName } = emailSetup;
+  const { notification } = urgentCase;
+  const schoolLabel = config?.schoolName || urgentCase.schoolName || 'an unknown school';
+  const escalated = minutesUnacknowledged > 0;
+  const leadList = (config?.leads || []).map((lead, index) => `<li>${index + 1}. ${escapeHtml(describeSafeguardingLead(lead))}</li>`).join('');
+
+  let sent = 0;
+  for (const contact of step.contacts) {
+    try {
+      await transporter.sendMail({
+        from: `${fromName} <${fromAddress}>`,
+        to: contact.email,
+        subject: escalated
+          ? `ESCALATED safeguarding alert: unacknowledged for ${minutesUnacknowledged} minutes - ${urgentCase.studentLabel}`
+          : `URGENT safeguarding alert - ${urgentCase.studentLabel}`,
+        html: `
+          <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+            <h2 style="color: #b91c1c;">${escalated ? 'Escalated safeguarding alert' : 'Urgent safeguarding alert'}</h2>
+            <p>Hello ${escapeHtml(contact.name)},</p>
+            <p>A Classroom Solutions submission from <strong>${escapeHtml(urgentCase.teacherName)}</strong> about <strong>${escapeHtml(urgentCase.studentLabel)}</strong> at ${escapeHtml(schoolLabel)} was flagged as urgent.</p>
+            ${escalated ? `<p><strong>Nobody has acknowledged this case after ${minutesUnacknowledged} minutes</strong>, so it has been escalated to you.</p>` : ''}
+            <p>${escapeHtml(notification.message || notification.title)}</p>
+            <p>Please log in to Concern2Care and acknowledge the case (reference ${escapeHtml(notification.submissionId)}) so it is not escalated further.</p>
+            ${leadList ? `<p style="color: #666; font-size: 14px;">Safeguarding contacts in escalation order:</p><ul style="color: #666; font-size: 14px; list-style: none; padding-left: 0;">${leadList}</ul>` : ''}
+          </div>
+        `,
+      });
+      sent++;
+    } catch (error) {
+      console.error(`❌ Failed to email ${contact.email} about urgent notification ${notification.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return sent > 0 ? null : 'Email delivery failed';
+}
+
+function nextEscalationTime(steps: EscalationStep[], level: number, minutes: number, from: Date): Date | null {
+  return level < steps.length - 1 ? new Date(from.getTime() + minutes * 60000) : null;
+}
+
+// A chain whose first email never went out is retried this soon by the escalation processor
+const START_RETRY_MINUTES = 2;
+
+const NOT_YET_NOTIFIED = sql`not (coalesce(${adminNotifications.escalationLog}, '[]'::jsonb) @> '[{"action":"notified"}]'::jsonb)`;
+
+const wasNotified = (notification: AdminNotification) =>
+  ((notification.escalationLog as UrgentEscalationEvent[] | null) || []).some(event => event.action === 'notified');
+
+/**
+ * Escalation fields for a new urgent notification, so it is on the chain from the moment it is
+ * created: the first contact is expected to acknowledge it, and if startUrgentEscalation never
+ * runs the processor starts the chain within a couple of minutes.
+ */
+export async function initialUrgentEscalation(schoolName: string | null | undefined): Promise<{ escalationLevel: number; currentContact: string; nextEscalationAt: Date }> {
+  const steps = await getEscalationSteps(await getSchoolSafeguardingConfig(schoolName || null));
+  return {
+    escalationLevel: 0,
+    currentContact: steps[0].label,
+    nextEscalationAt: new Date(Date.now() + START_RETRY_MINUTES * 60000),
+  };
+}
+
+/**
+ * Starts the chain for an urgent notification by emailing the first contact. Returns whether it
+ * was started here; a chain that is already running is left alone. Never throws: the notification
+ * itself already exists, and the escalation processor retries a chain that didn't start.
+ */
+export async function startUrgentEscalation(notificationId: string): Promise<boolean> {
+  try {
+    const urgentCase = await loadUrgentCase(notificationId);
+    if (!urgentCase || wasNotified(urgentCase.notification)) return false;
+
+    const { notification } = urgentCase;
+    const config = await getSchoolSafeguardingConfig(urgentCase.schoolName);
+    const steps = await getEscalationSteps(config);
+    const step = steps[0];
+    const now = new Date();
+
+    // Claim the start so the processor and a retry can't both email the first contact
+    const [claimed] = await db
+      .update(adminNotifications)
+      .set({
+        escalationLevel: 0,
+        currentContact: step.label,
+        nextEscalationAt: nextEscalationTime(steps, 0, config?.escalationMinutes || getDefaultEscalationMinutes(), now),
+      })
+      .where(and(
+        eq(adminNotifications.id, notificationId),
+        isNull(adminNotifications.acknowledgedAt),
+        notification.nextEscalationAt
+          ? eq(adminNotifications.nextEscalationAt, notification.nextEscalationAt)
+          : isNull(adminNotifications.nextEscalationAt),
+        NOT_YET_NOTIFIED
+      ))
+      .returning({ id: adminNotifications.id });
+    if (!claimed) return false;
+
+    const note = await emailEscalationStep(step, urgentCase, config, 0);
+    await db
+      .update(adminNotifications)
+      .set({
+        escalationLog: appendEvents([{ at: now.toISOString(), action: 'notified', level: 0, contact: step.label, note }]),
+      })
+      .where(eq(adminNotifications.id, notificationId));
+
+    console.log(`🛡️ Urgent notification ${notificationId} sent to ${step.label}`);
+    return true;
+  } catch (error) {
+    console.error(`❌ Error starting escalation for urgent notification ${notificationId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Moves every overdue, unacknowledged urgent notification one step up its chain, and starts any
+ * chain whose first email never went out. Called by the escalation processor; returns how many
+ * notifications were escalated or started.
+ */
+export async function processDueEscalations(now = new Date()): Promise<number> {
+  const due = await db
+    .select({ id: adminNotifications.id })
+    .from(adminNotifications)
+    .where(and(
+      eq(adminNotifications.type, 'urgent'),
+      isNull(adminNotifications.acknowledgedAt),
+      ne(adminNotifications.status, 'resolved'),
+      or(
+        lte(adminNotifications.nextEscalationAt, now),
+        and(isNull(adminNotifications.nextEscalationAt), NOT_YET_NOTIFIED)
+      )
+    ))
+    .orderBy(asc(adminNotifications.nextEscalationAt));
+
+  let escalated = 0;
+  for (const { id } of due) {
+    try {
+      const urgentCase = await loadUrgentCase(id);
+      if (!urgentCase) continue;
+
+      const { notification } = urgentCase;
+      if (!wasNotified(notification)) {
+        if (await startUrgentEscalation(id)) escalated++;
+        continue;
+      }
+
+      const config = await getSchoolSafeguardingConfig(urgentCase.schoolName);
+      const steps = await getEscalationSteps(config);
+      // Leads may have been removed since the last step; never skip past the super admins
+      const level = Math.min((notification.escalationLevel || 0) + 1, steps.length - 1);
+      const step = steps[level];
+      const minutesUnacknowledged = Math.max(1, minutesSince(notification.createdAt, now));
+
+      // Claim the step first so an acknowledgment that lands meanwhile stops the email being sent
+      const [claimed] = await db
+        .update(adminNotifications)
+        .set({
+          escalationLevel: level,
+          currentContact: step.label,
+          nextEscalationAt: nextEscalationTime(steps, level, config?.escalationMinutes || getDefaultEscalationMinutes(), now),
+        })
+        .where(and(
+          eq(adminNotifications.id, id),
+          isNull(adminNotifications.acknowledgedAt),
+          eq(adminNotifications.nextEscalationAt, notification.nextEscalationAt!)
+        ))
+        .returning({ id: adminNotifications.id });
+      if (!claimed) continue;
+
+      const note = await emailEscalationStep(step, urgentCase, config, minutesUnacknowledged);
+      await db
+        .update(adminNotifications)
+        .set({
+          escalationLog: appendEvents([{
+            at: now.toISOString(),
+            action: 'escalated',
+            level,
+            contact: step.label,
+            note: note || `Not acknowledged after ${minutesUnacknowledged} minutes`,
+          }]),
+        })
+        .where(eq(adminNotifications.id, id));
+
+      escalated++;
+      console.log(`⏫ Urgent notification ${id} escalated to ${step.label} after ${minutesUnacknowledged} minutes`);
+    } catch (error) {
+      console.error(`❌ Error escalating urgent notification ${id}:`, error);
+    }
+  }
+
+  return escalated;
+}
+
+export class UrgentCaseNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Urgent notification ${id} not found`);
+    this.name = 'UrgentCaseNotFoundError';
+  }
+}
+
+async function getUrgentNotification(id: string): Promise<AdminNotification> {
+  const [notification] = await db
+    .select()
+    .from(adminNotifications)
+    .where(and(eq(adminNotifications.id, id), eq(adminNotifications.type, 'urgent')))
+    .limit(1);
+  if (!notification) throw new UrgentCaseNotFoundError(id);
+  return notification;
+}
+
+/**
+ * Records that an admin has seen the case and stops further escalation. Acknowledging twice
+ * keeps the original acknowledgment and reports `alreadyAcknowledged`.
+ */
+export async function acknowledgeUrgentNotification(
+  id: string,
+  adminId: string,
+  note?: string | null
+): Promise<{ notification: AdminNotification; alreadyAcknowledged: boolean }> {
+  const existing = await getUrgentNotification(id);
+  const now = new Date();
+
+  const [notification] = await db
+    .update(adminNotifications)
+    .set({
+      acknowledgedAt: now,
+      acknowledgedBy: adminId,
+      nextEscalationAt: null,
+      status: existing.status === 'unread' ? 'read' : existing.status,
+      readAt: existing.readAt || now,
+      escalationLog: appendEvents([{
+        at: now.toISOString(),
+        action: 'acknowledged',
+        level: existing.escalationLevel || 0,
+        actorId: adminId,
+        note: note?.trim() || null,
+      }]),
+    })
+    .where(and(eq(adminNotifications.id, id), isNull(adminNotifications.acknowledgedAt)))
+    .returning();
+
+  if (!notification) {
+    return { notification: await getUrgentNotification(id), alreadyAcknowledged: true };
+  }
+  return { notification, alreadyAcknowledged: false };
+}
+
+// Logs a follow-up action; acting on an unacknowledged case acknowledges it first
+export async function recordUrgentCaseAction(id: string, adminId: string, action: UrgentCaseAction): Promise<AdminNotification> {
+  const existing = await getUrgentNotification(id);
+  if (!existing.acknowledgedAt) {
+    await acknowledgeUrgentNotification(id, adminId);
+  }
+
+  const now = new Date();
+  const level = existing.escalationLevel || 0;
+  const events: UrgentEscalationEvent[] = [{ at: now.toISOString(), action: 'action', level, actorId: adminId, note: action.note }];
+  if (action.resolve) {
+    events.push({ at: now.toISOString(), action: 'resolved', level, actorId: adminId });
+  }
+
+  const [notification] = await db
+    .update(adminNotifications)
+    .set({
+      escalationLog: appendEvents(events),
+      ...(action.resolve && { status: 'resolved', resolvedAt: now, nextEscalationAt: null }),
+    })
+    .where(eq(adminNotifications.id, id))
+    .returning();
+  return notification;
+}
+
+/**
+ * Urgent notifications nobody has acknowledged yet, oldest first, with how long each has been
+ * waiting and when it next moves up the chain.
+ */
+export async function getUnacknowledgedUrgentCases(now = new Date()) {
+  const rows = await db
+    .select({
+      notification: adminNotifications,
+      submission: {
+        id: classroomSubmissions.id,
+        firstName: classroomSubmissions.firstName,
+        lastInitial: classroomSubmissions.lastInitial,
+        taskType: classroomSubmissions.taskType,
+        severityLevel: classroomSubmissions.severityLevel,
+        status: classroomSubmissions.status,
+      },
+      teacher: {
+        id: classroomEnrolledTeachers.id,
+        firstName: classroomEnrolledTeachers.firstName,
+        lastName: classroomEnrolledTeachers.lastName,
+        school: classroomEnrolledTeachers.school,
+      },
+    })
+    .from(adminNotifications)
+    .innerJoin(classroomSubmissions, eq(adminNotifications.submissionId, classroomSubmissions.id))
+    .leftJoin(classroomEnrolledTeachers, eq(classroomSubmissions.teacherId, classroomEnrolledTeachers.id))
+    .where(and(
+      eq(adminNotifications.type, 'urgent'),
+      isNull(adminNotifications.acknowledgedAt),
+      ne(adminNotifications.status, 'resolved')
+    ))
+    .orderBy(asc(adminNotifications.createdAt));
+
+  return rows.map(({ notification, submission, teacher }) => ({
+    ...notification,
+    submission,
+    teacher,
+    elapsedMinutes: minutesSince(notification.createdAt, now),
+    minutesUntilEscalation: notification.nextEscalationAt
+      ? Math.max(0, Math.ceil((new Date(notification.nextEscalationAt).getTime() - now.getTime()) / 60000))
+      : null,
+    escalatedToSuperAdmins: notification.currentContact === SUPER_ADMIN_LABEL,
+  }));
+}
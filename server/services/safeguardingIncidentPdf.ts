@@ -0,0 +1,139 @@
+import PDFDocument from 'pdfkit';
+import { SAFEGUARDING_CATEGORY_LABELS } from './safeguarding';
+import type { SafeguardingIncidentRecord } from './safeguardingIncidents';
+import type { SafeguardingCategory } from '@shared/schema';
+
+const SOURCE_LABELS: Record<string, string> = {
+  concern: 'Student concern',
+  follow_up: 'Follow-up question on a concern',
+  classroom_submission: 'Classroom Solutions submission',
+};
+
+const ENTRY_LABELS: Record<string, string> = {
+  notification: 'Notification',
+  action: 'Action taken',
+  outcome: 'Outcome',
+  closure: 'Closure sign-off',
+  export: 'Record exported',
+  notified: 'Contact notified',
+  escalated: 'Escalated',
+  acknowledged: 'Acknowledged',
+  resolved: 'Resolved',
+};
+
+function formatTimestamp(value: Date | string | null | undefined): string {
+  return value ? new Date(value).toISOString().replace('T', ' ').slice(0, 19) + ' UTC' : '-';
+}
+
+/**
+ * A printable copy of a safeguarding incident for child-protection authorities. The built-in PDF
+ * fonts only cover Latin text, so the JSON export is the exact copy for incidents written in Chinese.
+ */
+export async function generateSafeguardingIncidentPDF(record: SafeguardingIncidentRecord): Promise<Buffer> {
+  const { incident, entries, escalations } = record;
+
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margins: { top: 50, bottom: 50, left: 50, right: 50 },
+        info: {
+          Title: `Safeguarding Incident ${incident.referenceNumber}`,
+          Author: 'Concern2Care',
+          Subject: 'Safeguarding incident record',
+          Creator: 'Concern2Care System',
+          CreationDate: new Date(),
+        }
+      });
+
+      const chunks: Buffer[] = [];
+      doc.on('data', (chunk) => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      const heading = (text: string) => {
+        doc.moveDown(1).fontSize(13).fillColor('#1f2937').font('Helvetica-Bold').text(text).font('Helvetica').moveDown(0.3);
+      };
+      const field = (label: string, value: string | number | null | undefined) => {
+        doc.fontSize(10).fillColor('#374151').font('Helvetica-Bold').text(`${label}: `, { continued: true })
+           .font('Helvetica').text(value === null || value === undefined || value === '' ? '-' : String(value));
+      };
+
+      doc.fontSize(22).fillColor('#2563eb').text('Concern2Care');
+      doc.fontSize(18).fillColor('#b91c1c').text('Safeguarding Incident Record');
+      doc.moveDown(0.5).fontSize(9).fillColor('#dc2626')
+         .text('CONFIDENTIAL: This record contains sensitive safeguarding information about a child. Share only with the designated safeguarding lead and the relevant child-protection authorities.', { align: 'justify' });
+
+      heading('Incident');
+      field('Reference', incident.referenceNumber);
+      field('Status', incident.status === 'closed' ? 'Closed' : 'Open');
+      field('Recorded', formatTimestamp(incident.createdAt));
+      field('School', incident.schoolName);
+      field('Source', `${SOURCE_LABELS[incident.source] || incident.source} (${incident.sourceId})`);
+      field('Student', incident.studentLabel);
+      field('Reported by', incident.reportedBy);
+
+      heading('Triggering Text');
+      doc.fontSize(10).fillColor('#111827').text(incident.triggeringText, { align: 'left' });
+
+      heading('Classification');
+      const category = incident.primaryCategory as SafeguardingCategory | null;
+      field('Primary category', category ? SAFEGUARDING_CATEGORY_LABELS[category] || category : null);
+      field('Risk score', `${incident.riskScore}/100`);
+      field('Explanation', incident.classifierExplanation);
+      const classification = (incident.classification || {}) as {
+        categoryScores?: Record<string, number>;
+        matches?: { phrase: string; category: string }[];
+      };
+      if (classification.categoryScores) {
+        field('Category scores', Object.entries(classification.categoryScores)
+          .map(([key, score]) => `${SAFEGUARDING_CATEGORY_LABELS[key as SafeguardingCategory] || key} ${score}`)
+          .join(', '));
+      }
+      if (classification.matches?.length) {
+        field('Matched phrases', classification.matches
+          .map(match => `"${match.phrase}" (${SAFEGUARDING_CATEGORY_LABELS[match.category as SafeguardingCategory] || match.category})`)
+          .join(', '));
+      }
+
+      if (escalations.length > 0) {
+        heading('Notification & Escalation');
+        escalations.forEach(escalation => {
+          field('Acknowledged', escalation.acknowledgedAt
+            ? `${formatTimestamp(escalation.acknowledgedAt)} by ${escalation.acknowledgedBy}`
+            : 'Not acknowledged');
+          escalation.events.forEach(event => {
+            const who = event.contact || event.actorName;
+            doc.fontSize(9).fillColor('#374151')
+               .text(`${formatTimestamp(event.at)}  ${ENTRY_LABELS[event.action] || event.action}${who ? ` - ${who}` : ''}${event.note ? `: ${event.note}` : ''}`);
+          });
+        });
+      }
+
+      heading('Incident Log');
+      if (entries.length === 0) {
+        doc.fontSize(10).fillColor('#6b7280').text('No entries recorded.');
+      }
+      entries.forEach(entry => {
+        const notified = Array.isArray(entry.notified) && entry.notified.length > 0 ? ` [${(entry.notified as string[]).join(', ')}]` : '';
+        doc.fontSize(9).fillColor('#1f2937').font('Helvetica-Bold')
+           .text(`${formatTimestamp(entry.createdAt)}  ${ENTRY_LABELS[entry.type] || entry.type}${entry.actorName ? ` - ${entry.actorName}` : ''}`)
+           .font('Helvetica').fillColor('#374151')
+           .text(`${entry.note || ''}${notified}`, { indent: 12 })
+           .moveDown(0.3);
+      });
+
+      heading('Outcome & Closure');
+      field('Outcome', incident.outcome);
+      field('Signed off by', incident.closureSignOff);
+      field('Closed', formatTimestamp(incident.closedAt));
+
+      doc.moveDown(2).fontSize(8).fillColor('#6b7280')
+         .text(`Exported ${formatTimestamp(new Date())}. Incident records are append-only; this export is itself recorded in the incident log.`, { align: 'center' });
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+}
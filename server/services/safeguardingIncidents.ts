@@ -0,0 +1,324 @@
+import { randomBytes } from "crypto";
+import { db } from "../db";
+import {
+  adminNotifications,
+  safeguardingIncidents,
+  safeguardingIncidentEntries,
+  safeguardingLeads,
+  schools,
+  users,
+  type CloseSafeguardingIncident,
+  type SafeguardingIncident,
+  type SafeguardingIncidentEntry,
+  type SafeguardingIncidentEntryInput,
+  type SafeguardingIncidentEntryType,
+  type SafeguardingIncidentSource,
+  type UrgentEscalationEvent,
+  type User,
+} from "@shared/schema";
+import { and, asc, desc, eq, inArray, sql, type SQL } from "drizzle-orm";
+import type { UrgentSafeguardResult } from "./safeguarding";
+
+// The formal safeguarding incident log. Every urgent detection opens an incident holding the text
+// that triggered it and how the classifier scored it; notifications, actions, the outcome and the
+// closure sign-off are appended as entries. Only super admins and the school's own safeguarding
+// leads (matched by email) can see incidents, and nothing is ever edited or deleted.
+
+export interface SafeguardingIncidentInput {
+  source: SafeguardingIncidentSource;
+  sourceId: string; // Concern or submission id
+  studentLabel: string;
+  teacherName: string;
+  reportedByUserId?: string | null;
+  triggeringText: string;
+  result: UrgentSafeguardResult;
+}
+
+// Who is looking at the log: super admins see every school, leads only their own
+export interface IncidentViewerScope {
+  userId: string;
+  actorName: string;
+  allSchools: boolean;
+  schoolIds: string[];
+}
+
+export class SafeguardingIncidentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Safeguarding incident ${id} not found`);
+    this.name = 'SafeguardingIncidentNotFoundError';
+  }
+}
+
+export class SafeguardingIncidentClosedError extends Error {
+  constructor(referenceNumber: string) {
+    super(`Safeguarding incident ${referenceNumber} is closed and can no longer be changed`);
+    this.name = 'SafeguardingIncidentClosedError';
+  }
+}
+
+function generateReferenceNumber(now = new Date()): string {
+  const date = now.toISOString().slice(0, 10).replace(/-/g, '');
+  return `SG-${date}-${randomBytes(3).toString('hex').toUpperCase()}`;
+}
+
+function displayName(user: Pick<User, 'firstName' | 'lastName' | 'email'>): string {
+  return [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email;
+}
+
+/**
+ * Opens an incident for an urgent detection. For concerns and follow-up questions this also emails
+ * the school's safeguarding leads and records who was notified; urgent classroom submissions are
+ * notified through the escalation chain instead, whose log is shown alongside the incident.
+ * Never throws: a logging failure must not block the teacher's safety guidance.
+ */
+export async function openSafeguardingIncident(
+  schoolName: string | null | undefined,
+  input: SafeguardingIncidentInput
+): Promise<SafeguardingIncident | null> {
+  try {
+    const [school] = schoolName
+      ? await db.select({ id: schools.id }).from(schools).where(eq(schools.name, schoolName)).limit(1)
+      : [];
+
+    const { result } = input;
+    const [incident] = await db
+      .insert(safeguardingIncidents)
+      .values({
+        referenceNumber: generateReferenceNumber(),
+        schoolId: school?.id || null,
+        schoolName: schoolName || null,
+        source: input.source,
+        sourceId: input.sourceId,
+        studentLabel: input.studentLabel,
+        reportedBy: input.teacherName,
+        reportedByUserId: input.reportedByUserId || null,
+        triggeringText: input.triggeringText,
+        primaryCategory: result.category,
+        riskScore: result.riskScore,
+        classification: {
+          categoryScores: result.categoryScores,
+          matches: result.matches,
+          ignoredPhrases: result.ignoredPhrases,
+          modelReviewed: result.modelReviewed ?? false,
+        },
+        classifierExplanation: result.explanation,
+      })
+      .returning();
+
+    console.log(`🗂️ Opened safeguarding incident ${incident.referenceNumber} for ${input.source} ${input.sourceId}`);
+
+    if (input.source !== 'classroom_submission') {
+      const { notifySafeguardingLeads } = await import('./safeguardingConfig');
+      const notified = await notifySafeguardingLeads(schoolName, {
+        source: input.source,
+        referenceId: input.sourceId,
+        studentLabel: input.studentLabel,
+        teacherName: input.teacherName,
+        result,
+      });
+      await appendEntry(incident.id, {
+        type: 'notification',
+        note: notified.length > 0
+          ? `Safeguarding leads emailed (${notified.length})`
+          : 'No safeguarding lead was emailed - check the school has active leads and email configured',
+        notified,
+      });
+    }
+
+    return incident;
+  } catch (error) {
+    console.error(`❌ Error opening safeguarding incident for ${input.source} ${input.sourceId}:`, error);
+    return null;
+  }
+}
+
+async function appendEntry(
+  incidentId: string,
+  entry: { type: SafeguardingIncidentEntryType; note?: string | null; notified?: string[]; actorId?: string | null; actorName?: string | null }
+): Promise<SafeguardingIncidentEntry> {
+  const [created] = await db
+    .insert(safeguardingIncidentEntries)
+    .values({
+      incidentId,
+      type: entry.type,
+      actorId: entry.actorId || null,
+      actorName: entry.actorName || null,
+      note: entry.note || null,
+      notified: entry.notified || [],
+    })
+    .returning();
+  return created;
+}
+
+/**
+ * Whether a user may see the incident log at all. Super admins see every school; other admins only
+ * see schools where their account email is an active safeguarding lead. Returns null for everyone else.
+ */
+export async function getIncidentViewerScope(userId: string): Promise<IncidentViewerScope | null> {
+  const [user] = await db.select().from(users).where(eq(users.id, userId)).limit(1);
+  if (!user || user.isActive === false) return null;
+
+  if (user.role === 'super_admin') {
+    return { userId, actorName: displayName(user), allSchools: true, schoolIds: [] };
+  }
+
+  const leadSchools = await db
+    .select({ schoolId: safeguardingLeads.schoolId })
+    .from(safeguardingLeads)
+    .where(and(
+      sql`lower(${safeguardingLeads.email}) = ${user.email.toLowerCase()}`,
+      eq(safeguardingLeads.isActive, true)
+    ));
+  if (leadSchools.length === 0) return null;
+
+  const schoolIds = Array.from(new Set(leadSchools.map(row => row.schoolId)));
+  return { userId, actorName: displayName(user), allSchools: false, schoolIds };
+}
+
+function scopeCondition(scope: IncidentViewerScope): SQL | undefined {
+  return scope.allSchools ? undefined : inArray(safeguardingIncidents.schoolId, scope.schoolIds);
+}
+
+export async function listSafeguardingIncidents(
+  scope: IncidentViewerScope,
+  filters: { status?: 'open' | 'closed'; schoolId?: string } = {}
+): Promise<SafeguardingIncident[]> {
+  const conditions = [
+    scopeCondition(scope),
+    filters.status ? eq(safeguardingIncidents.status, filters.status) : undefined,
+    filters.schoolId ? eq(safeguardingIncidents.schoolId, filters.schoolId) : undefined,
+  ].filter((condition): condition is SQL => !!condition);
+
+  return await db
+    .select()
+    .from(safeguardingIncidents)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(safeguardingIncidents.createdAt))
+    .limit(500);
+}
+
+async function getVisibleIncident(id: string, scope: IncidentViewerScope): Promise<SafeguardingIncident> {
+  const [incident] = await db
+    .select()
+    .from(safeguardingIncidents)
+    .where(and(eq(safeguardingIncidents.id, id), scopeCondition(scope)))
+    .limit(1);
+  // Incidents at other schools are reported as missing rather than forbidden
+  if (!incident) throw new SafeguardingIncidentNotFoundError(id);
+  return incident;
+}
+
+export interface SafeguardingIncidentEscalation {
+  notificationId: string;
+  createdAt: Date | null;
+  acknowledgedAt: Date | null;
+  acknowledgedBy: string | null; // Name of the admin who acknowledged
+  events: (UrgentEscalationEvent & { actorName?: string | null })[];
+}
+
+export interface SafeguardingIncidentRecord {
+  incident: SafeguardingIncident;
+  entries: SafeguardingIncidentEntry[];
+  escalations: SafeguardingIncidentEscalation[]; // Urgent classroom submissions only
+}
+
+// The incident with its full history, including the escalation chain of a classroom submission
+export async function getSafeguardingIncidentRecord(id: string, scope: IncidentViewerScope): Promise<SafeguardingIncidentRecord> {
+  const incident = await getVisibleIncident(id, scope);
+
+  const entries = await db
+    .select()
+    .from(safeguardingIncidentEntries)
+    .where(eq(safeguardingIncidentEntries.incidentId, id))
+    .orderBy(asc(safeguardingIncidentEntries.createdAt));
+
+  if (incident.source !== 'classroom_submission') {
+    return { incident, entries, escalations: [] };
+  }
+
+  const notifications = await db
+    .select()
+    .from(adminNotifications)
+    .where(and(eq(adminNotifications.submissionId, incident.sourceId), eq(adminNotifications.type, 'urgent')))
+    .orderBy(asc(adminNotifications.createdAt));
+
+  const logs = notifications.map(notification => Array.isArray(notification.escalationLog) ? notification.escalationLog as UrgentEscalationEvent[] : []);
+  const actorIds = Array.from(new Set([
+    ...notifications.map(notification => notification.acknowledgedBy),
+    ...logs.flat().map(event => event.actorId),
+  ].filter((actorId): actorId is string => !!actorId)));
+  const actors = actorIds.length > 0
+    ? await db.select({ id: users.id, firstName: users.firstName, lastName: users.lastName, email: users.email }).from(users).where(inArray(users.id, actorIds))
+    : [];
+  const actorNames = new Map(actors.map(actor => [actor.id, displayName(actor)]));
+
+  const escalations = notifications.map((notification, index) => ({
+    notificationId: notification.id,
+    createdAt: notification.createdAt,
+    acknowledgedAt: notification.acknowledgedAt,
+    acknowledgedBy: notification.acknowledgedBy ? actorNames.get(notification.acknowledgedBy) || notification.acknowledgedBy : null,
+    events: logs[index].map(event => ({ ...event, actorName: event.actorId ? actorNames.get(event.actorId) || event.actorId : null })),
+  }));
+
+  return { incident, entries, escalations };
+}
+
+export async function addSafeguardingIncidentEntry(
+  id: string,
+  scope: IncidentViewerScope,
+  input: SafeguardingIncidentEntryInput
+): Promise<SafeguardingIncidentEntry> {
+  const incident = await getVisibleIncident(id, scope);
+  if (incident.status === 'closed') throw new SafeguardingIncidentClosedError(incident.referenceNumber);
+
+  return await appendEntry(id, { type: input.type, note: input.note, actorId: scope.userId, actorName: scope.actorName });
+}
+
+/**
+ * Closes the incident with its outcome and sign-off. This is the only change ever made to the
+ * incident row; a closed incident accepts no further entries other than export records.
+ */
+export async function closeSafeguardingIncident(
+  id: string,
+  scope: IncidentViewerScope,
+  closure: CloseSafeguardingIncident
+): Promise<SafeguardingIncident> {
+  const incident = await getVisibleIncident(id, scope);
+
+  const [closed] = await db
+    .update(safeguardingIncidents)
+    .set({
+      status: 'closed',
+      outcome: closure.outcome,
+      closureSignOff: closure.signOff,
+      closedBy: scope.userId,
+      closedAt: new Date(),
+    })
+    .where(and(eq(safeguardingIncidents.id, id), eq(safeguardingIncidents.status, 'open')))
+    .returning();
+  if (!closed) throw new SafeguardingIncidentClosedError(incident.referenceNumber);
+
+  await appendEntry(id, {
+    type: 'closure',
+    note: `Outcome: ${closure.outcome}\nSigned off by: ${closure.signOff}`,
+    actorId: scope.userId,
+    actorName: scope.actorName,
+  });
+  return closed;
+}
+
+// The full record for handing to child-protection authorities; the export itself is logged
+export async function exportSafeguardingIncident(
+  id: string,
+  scope: IncidentViewerScope,
+  format: 'pdf' | 'json'
+): Promise<SafeguardingIncidentRecord> {
+  const record = await getSafeguardingIncidentRecord(id, scope);
+  const entry = await appendEntry(id, {
+    type: 'export',
+    note: `Exported as ${format.toUpperCase()}`,
+    actorId: scope.userId,
+    actorName: scope.actorName,
+  });
+  return { ...record, entries: [...record.entries, entry] };
+}
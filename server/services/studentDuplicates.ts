@@ -0,0 +1,372 @@
+import { db } from "../db";
+import {
+  classroomSubmissions,
+  concerns,
+  interventions,
+  progressNotes,
+  schools,
+  studentDuplicateFlags,
+  studentMeetings,
+  studentTierTransitions,
+  students,
+  type Student,
+  type StudentDuplicateFlag,
+  type StudentGradeHistoryEntry,
+} from "@shared/schema";
+import { and, count, eq, inArray, isNotNull, or, sql } from "drizzle-orm";
+import type { StudentScope } from "./students";
+
+// Teachers type the same child as "Maya R", "Maya R." and "maya r", and each spelling becomes its
+// own student record. The duplicate scan flags likely pairs within a school from their names,
+// grades and shared teachers; an admin then merges a pair or dismisses it.
+
+const FLAG_THRESHOLD = 60;
+
+export class StudentDuplicateFlagNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Open duplicate flag ${id} not found`);
+    this.name = 'StudentDuplicateFlagNotFoundError';
+  }
+}
+
+export class StudentMergeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StudentMergeError';
+  }
+}
+
+interface DuplicateCandidate {
+  student: Student;
+  name: string; // Normalized first name
+  teachers: Set<string>;
+}
+
+// "Maya R." typed into the first name box becomes "maya"; case, spaces and punctuation are ignored
+export function normalizeStudentName(firstName: string, lastInitial: string): string {
+  const tokens = firstName.toLowerCase().replace(/[.,'`’\-]/g, ' ').split(/\s+/).filter(Boolean);
+  if (tokens.length > 1 && tokens[tokens.length - 1] === lastInitial.toLowerCase()) tokens.pop();
+  return tokens.join('');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function gradesOf(student: Student): string[] {
+  const history = Array.isArray(student.gradeHistory) ? student.gradeHistory as StudentGradeHistoryEntry[] : [];
+  return history.map(entry => entry.grade.trim().toLowerCase()).concat(student.currentGrade ? [student.currentGrade.trim().toLowerCase()] : []);
+}
+
+// How likely two students with the same last initial are the same child, and why
+function scorePair(a: DuplicateCandidate, b: DuplicateCandidate): { score: number; reasons: string[] } | null {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (a.name === b.name) {
+    score += 60;
+    reasons.push('Same name ignoring case and punctuation');
+  } else {
+    const distance = editDistance(a.name, b.name);
+    const shorter = Math.min(a.name.length, b.name.length);
+    if ((distance === 1 && shorter >= 3) || (distance === 2 && shorter >= 7)) {
+      score += 40;
+      reasons.push('Name differs by a typo');
+    } else if (shorter >= 3 && (a.name.startsWith(b.name) || b.name.startsWith(a.name))) {
+      score += 30;
+      reasons.push('One name may be short for the other');
+    } else {
+      return null;
+    }
+  }
+
+  const currentA = a.student.currentGrade?.trim().toLowerCase();
+  const currentB = b.student.currentGrade?.trim().toLowerCase();
+  if (currentA && currentA === currentB) {
+    score += 20;
+    reasons.push(`Same grade (${a.student.currentGrade})`);
+  } else {
+    const gradesB = gradesOf(b.student);
+    if (gradesOf(a.student).some(grade => gradesB.includes(grade))) {
+      score += 10;
+      reasons.push('Overlapping grade history');
+    }
+  }
+
+  const sharedTeachers = Array.from(a.teachers).filter(teacher => b.teachers.has(teacher)).length;
+  if (sharedTeachers > 0) {
+    score += 20;
+    reasons.push(sharedTeachers === 1 ? 'Shared teacher' : `${sharedTeachers} shared teachers`);
+  }
+
+  return { score: Math.min(score, 100), reasons };
+}
+
+// Records (or refreshes) a flag for an admin to review; a pair an admin already dismissed stays dismissed
+export async function flagDuplicatePair(a: Student, b: Student, match: { score: number; reasons: string[] }): Promise<void> {
+  const [first, second] = [a, b].sort((x, y) => x.id.localeCompare(y.id));
+  await db
+    .insert(studentDuplicateFlags)
+    .values({
+      schoolId: first.schoolId,
+      studentId: first.id,
+      duplicateStudentId: second.id,
+      score: match.score,
+      reasons: match.reasons,
+    })
+    .onConflictDoUpdate({
+      target: [studentDuplicateFlags.studentId, studentDuplicateFlags.duplicateStudentId],
+      set: { score: match.score, reasons: match.reasons },
+      setWhere: eq(studentDuplicateFlags.status, 'open'),
+    });
+}
+
+/**
+ * Compares every pair of students with the same last initial at each school (students without a
+ * school are only compared with others created by the same teacher) and flags likely duplicates.
+ * Pairs an admin already dismissed stay dismissed. Returns the number of pairs flagged.
+ */
+export async function scanForDuplicateStudents(): Promise<number> {
+  const allStudents = await db.select().from(students);
+  if (allStudents.length < 2) return 0;
+
+  // Concern teachers and Classroom Solutions teachers are separate id spaces, so they are kept apart
+  const [concernTeachers, submissionTeachers] = await Promise.all([
+    db.selectDistinct({ studentId: concerns.studentId, teacherId: concerns.teacherId }).from(concerns).where(isNotNull(concerns.studentId)),
+    db.selectDistinct({ studentId: classroomSubmissions.studentId, teacherId: classroomSubmissions.teacherId }).from(classroomSubmissions).where(isNotNull(classroomSubmissions.studentId)),
+  ]);
+  const teachers = new Map<string, Set<string>>();
+  const addTeacher = (studentId: string | null, teacher: string) => {
+    if (!studentId) return;
+    if (!teachers.has(studentId)) teachers.set(studentId, new Set());
+    teachers.get(studentId)!.add(teacher);
+  };
+  concernTeachers.forEach(row => addTeacher(row.studentId, `concern:${row.teacherId}`));
+  submissionTeachers.forEach(row => addTeacher(row.studentId, `classroom:${row.teacherId}`));
+
+  const groups = new Map<string, DuplicateCandidate[]>();
+  allStudents.forEach(student => {
+    const owner = student.schoolId ? `school:${student.schoolId}` : `teacher:${student.createdBy}`;
+    const key = `${owner}:${student.lastInitial.toUpperCase()}`;
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push({
+      student,
+      name: normalizeStudentName(student.firstName, student.lastInitial),
+      teachers: teachers.get(student.id) || new Set(),
+    });
+  });
+
+  let flagged = 0;
+  for (const candidates of Array.from(groups.values())) {
+    for (let i = 0; i < candidates.length; i++) {
+      for (let j = i + 1; j < candidates.length; j++) {
+        const match = scorePair(candidates[i], candidates[j]);
+        if (!match || match.score < FLAG_THRESHOLD) continue;
+
+        await flagDuplicatePair(candidates[i].student, candidates[j].student, match);
+        flagged++;
+      }
+    }
+  }
+
+  console.log(`🧒 Duplicate student scan compared ${allStudents.length} student(s) and flagged ${flagged} likely duplicate pair(s)`);
+  return flagged;
+}
+
+export interface StudentDuplicateSummary extends Student {
+  concernCount: number;
+  submissionCount: number;
+}
+
+export interface StudentDuplicatePair {
+  flag: StudentDuplicateFlag;
+  schoolName: string | null;
+  student: StudentDuplicateSummary;
+  duplicate: StudentDuplicateSummary;
+}
+
+// Flagged pairs for the admin merge screen, highest score first
+// Super admins see every school's flags; other admins only their own school's
+function canSeeFlagSchool(scope: StudentScope, schoolId: string | null): boolean {
+  return scope.allSchools || (!!scope.schoolId && schoolId === scope.schoolId);
+}
+
+export async function listDuplicateStudentPairs(
+  scope: StudentScope,
+  filters: { status?: 'open' | 'dismissed'; schoolId?: string } = {}
+): Promise<StudentDuplicatePair[]> {
+  const schoolId = scope.allSchools ? filters.schoolId : scope.schoolId;
+  if (!scope.allSchools && !schoolId) return [];
+
+  const flags = await db
+    .select({ flag: studentDuplicateFlags, schoolName: schools.name })
+    .from(studentDuplicateFlags)
+    .leftJoin(schools, eq(studentDuplicateFlags.schoolId, schools.id))
+    .where(and(
+      eq(studentDuplicateFlags.status, filters.status || 'open'),
+      schoolId ? eq(studentDuplicateFlags.schoolId, schoolId) : undefined
+    ))
+    .orderBy(sql`${studentDuplicateFlags.score} desc`, studentDuplicateFlags.createdAt)
+    .limit(200);
+  if (flags.length === 0) return [];
+
+  const studentIds = Array.from(new Set(flags.flatMap(({ flag }) => [flag.studentId, flag.duplicateStudentId])));
+  const [studentRows, concernCounts, submissionCounts] = await Promise.all([
+    db.select().from(students).where(inArray(students.id, studentIds)),
+    db.select({ studentId: concerns.studentId, total: count() }).from(concerns).where(inArray(concerns.studentId, studentIds)).groupBy(concerns.studentId),
+    db.select({ studentId: classroomSubmissions.studentId, total: count() }).from(classroomSubmissions).where(inArray(classroomSubmissions.studentId, studentIds)).groupBy(classroomSubmissions.studentId),
+  ]);
+  const concernTotals = new Map(concernCounts.map(row => [row.studentId, row.total]));
+  const submissionTotals = new Map(submissionCounts.map(row => [row.studentId, row.total]));
+  const summaries = new Map(studentRows.map(student => [student.id, {
+    ...student,
+    concernCount: concernTotals.get(student.id) || 0,
+    submissionCount: submissionTotals.get(student.id) || 0,
+  }]));
+
+  return flags
+    .filter(({ flag }) => summaries.has(flag.studentId) && summaries.has(flag.duplicateStudentId))
+    .map(({ flag, schoolName }) => ({
+      flag,
+      schoolName,
+      student: summaries.get(flag.studentId)!,
+      duplicate: summaries.get(flag.duplicateStudentId)!,
+    }));
+}
+
+async function getOpenFlag(flagId: string, scope: StudentScope): Promise<StudentDuplicateFlag> {
+  const [flag] = await db
+    .select()
+    .from(studentDuplicateFlags)
+    .where(and(eq(studentDuplicateFlags.id, flagId), eq(studentDuplicateFlags.status, 'open')))
+    .limit(1);
+  if (!flag || !canSeeFlagSchool(scope, flag.schoolId)) throw new StudentDuplicateFlagNotFoundError(flagId);
+  return flag;
+}
+
+export async function dismissDuplicateStudentFlag(flagId: string, scope: StudentScope): Promise<StudentDuplicateFlag> {
+  await getOpenFlag(flagId, scope);
+  const [flag] = await db
+    .update(studentDuplicateFlags)
+    .set({ status: 'dismissed', resolvedBy: scope.userId, resolvedAt: new Date() })
+    .where(and(eq(studentDuplicateFlags.id, flagId), eq(studentDuplicateFlags.status, 'open')))
+    .returning();
+  if (!flag) throw new StudentDuplicateFlagNotFoundError(flagId);
+  return flag;
+}
+
+// Both grade histories in date order, without repeating a grade that continues across them
+function mergeGradeHistories(a: unknown, b: unknown): StudentGradeHistoryEntry[] {
+  const entries = [a, b]
+    .flatMap(history => Array.isArray(history) ? history as StudentGradeHistoryEntry[] : [])
+    .sort((x, y) => x.from.localeCompare(y.from));
+  return entries.filter((entry, index) => index === 0 || entries[index - 1].grade !== entry.grade);
+}
+
+export interface StudentMergeResult {
+  student: Student;
+  mergedStudent: Student; // The record that no longer exists, for the audit log
+  moved: { concerns: number; interventions: number; progressNotes: number; classroomSubmissions: number; meetings: number; tierTransitions: number };
+}
+
+/**
+ * Merges the other student of a flagged pair into `keepStudentId`. Concerns and classroom
+ * submissions are re-parented to the kept student, which carries their interventions and progress
+ * notes with them, and meetings and tier transitions are re-pointed. The kept student gains the
+ * other's learning-profile flags, grade history and SIS id (if it had none), takes the more recent
+ * tier decision of the two, and the merged student is deleted.
+ */
+export async function mergeDuplicateStudents(flagId: string, keepStudentId: string, scope: StudentScope): Promise<StudentMergeResult> {
+  const flag = await getOpenFlag(flagId, scope);
+  if (keepStudentId !== flag.studentId && keepStudentId !== flag.duplicateStudentId) {
+    throw new StudentMergeError('The student to keep must be one of the flagged pair');
+  }
+  const mergeStudentId = keepStudentId === flag.studentId ? flag.duplicateStudentId : flag.studentId;
+
+  return await db.transaction(async (tx) => {
+    const pair = await tx.select().from(students).where(or(eq(students.id, keepStudentId), eq(students.id, mergeStudentId)));
+    const kept = pair.find(student => student.id === keepStudentId);
+    const merged = pair.find(student => student.id === mergeStudentId);
+    if (!kept || !merged) throw new StudentMergeError('One of the flagged students no longer exists');
+
+    const movedConcerns = await tx
+      .update(concerns)
+      .set({ studentId: kept.id })
+      .where(eq(concerns.studentId, merged.id))
+      .returning({ id: concerns.id });
+    const movedConcernIds = movedConcerns.map(concern => concern.id);
+    const movedInterventions = movedConcernIds.length > 0
+      ? await tx.select({ id: interventions.id }).from(interventions).where(inArray(interventions.concernId, movedConcernIds))
+      : [];
+    const [movedNotes] = movedInterventions.length > 0
+      ? await tx.select({ total: count() }).from(progressNotes).where(inArray(progressNotes.interventionId, movedInterventions.map(intervention => intervention.id)))
+      : [{ total: 0 }];
+
+    const movedSubmissions = await tx
+      .update(classroomSubmissions)
+      .set({ studentId: kept.id })
+      .where(eq(classroomSubmissions.studentId, merged.id))
+      .returning({ id: classroomSubmissions.id });
+
+    const meetings = await tx
+      .select({ id: studentMeetings.id, studentIds: studentMeetings.studentIds })
+      .from(studentMeetings)
+      .where(sql`${studentMeetings.studentIds} @> ${JSON.stringify([merged.id])}::jsonb`);
+    for (const meeting of meetings) {
+      const studentIds = Array.isArray(meeting.studentIds) ? meeting.studentIds as string[] : [];
+      const remapped = Array.from(new Set(studentIds.map(id => id === merged.id ? kept.id : id)));
+      await tx.update(studentMeetings).set({ studentIds: remapped }).where(eq(studentMeetings.id, meeting.id));
+    }
+
+    const movedTransitions = await tx
+      .update(studentTierTransitions)
+      .set({ studentId: kept.id })
+      .where(eq(studentTierTransitions.studentId, merged.id))
+      .returning({ id: studentTierTransitions.id });
+
+    // Deleted before the update so the kept student can take over its SIS id
+    await tx.delete(students).where(eq(students.id, merged.id));
+
+    const mergedIsNewer = (merged.updatedAt?.getTime() || 0) > (kept.updatedAt?.getTime() || 0);
+    // The most recent tier decision about either record stands
+    const latestTier = (merged.tierSince?.getTime() || 0) > (kept.tierSince?.getTime() || 0) ? merged : kept;
+    const [student] = await tx
+      .update(students)
+      .set({
+        currentGrade: (mergedIsNewer ? merged.currentGrade : kept.currentGrade) || kept.currentGrade || merged.currentGrade,
+        gradeHistory: mergeGradeHistories(kept.gradeHistory, merged.gradeHistory),
+        hasIep: !!(kept.hasIep || merged.hasIep),
+        isEalLearner: !!(kept.isEalLearner || merged.isEalLearner),
+        isGifted: !!(kept.isGifted || merged.isGifted),
+        hasDisability: !!(kept.hasDisability || merged.hasDisability),
+        disabilityType: kept.disabilityType || merged.disabilityType,
+        externalSisId: kept.externalSisId || merged.externalSisId,
+        currentTier: latestTier.currentTier,
+        tierSince: latestTier.tierSince,
+        updatedAt: new Date(),
+      })
+      .where(eq(students.id, kept.id))
+      .returning();
+
+    return {
+      student,
+      mergedStudent: merged,
+      moved: {
+        concerns: movedConcernIds.length,
+        interventions: movedInterventions.length,
+        progressNotes: movedNotes?.total || 0,
+        classroomSubmissions: movedSubmissions.length,
+        meetings: meetings.length,
+        tierTransitions: movedTransitions.length,
+      },
+    };
+  });
+}
@@ -0,0 +1,197 @@
+import { db } from "../db";
+import {
+  schools,
+  students,
+  studentTierTransitions,
+  type MtssTier,
+  type Student,
+  type StudentTierChange,
+  type StudentTierTransition,
+} from "@shared/schema";
+import { and, asc, desc, eq, gt, sql } from "drizzle-orm";
+import { getStudent, type StudentScope } from "./students";
+
+// Where each student sits in the school's Multi-Tiered System of Supports. Students start at
+// tier 1; every move is recorded as a dated transition with its reason and the deciding team.
+
+export class StudentNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Student ${id} not found`);
+    this.name = 'StudentNotFoundError';
+  }
+}
+
+export class StudentTierUnchangedError extends Error {
+  constructor(tier: number) {
+    super(`The student is already at tier ${tier}`);
+    this.name = 'StudentTierUnchangedError';
+  }
+}
+
+export class StudentTierPermissionError extends Error {
+  constructor() {
+    super('Only admins and the MTSS team can change a student\'s tier');
+    this.name = 'StudentTierPermissionError';
+  }
+}
+
+export class StudentTierBackdateConflictError extends Error {
+  constructor(laterDate: Date) {
+    super(`A tier change effective ${laterDate.toISOString().slice(0, 10)} is already recorded; a change can't be dated before it`);
+    this.name = 'StudentTierBackdateConflictError';
+  }
+}
+
+// Tier decisions belong to the MTSS team, not to any teacher who can see the student
+export function canChangeStudentTier(scope: StudentScope): boolean {
+  return scope.isAdmin || scope.isMtssTeam;
+}
+
+/**
+ * The tier a newly generated plan is for. Whole-class strategies are core (tier 1) instruction and a
+ * tier 2 intervention request is at least tier 2; otherwise plans follow the student's current tier.
+ */
+export function interventionTierFor(taskType: string | null | undefined, studentTier?: number | null): MtssTier {
+  if (taskType === 'classroom_management') return 1;
+  const tier = Math.min(Math.max(studentTier || 1, 1), 3) as MtssTier;
+  return taskType === 'differentiation' ? tier : (Math.max(tier, 2) as MtssTier);
+}
+
+export async function getStudentTier(studentId: string | null | undefined): Promise<number | null> {
+  if (!studentId) return null;
+  const [student] = await db.select({ currentTier: students.currentTier }).from(students).where(eq(students.id, studentId)).limit(1);
+  return student?.currentTier ?? null;
+}
+
+export async function changeStudentTier(
+  studentId: string,
+  scope: StudentScope,
+  change: StudentTierChange
+): Promise<{ student: Student; transition: StudentTierTransition }> {
+  if (!canChangeStudentTier(scope)) throw new StudentTierPermissionError();
+  const existing = await getStudent(studentId, scope);
+  if (!existing) throw new StudentNotFoundError(studentId);
+
+  // Never later than now, so the new tier's days-at-tier count can't start negative
+  const now = new Date();
+  const effectiveDate = change.effectiveDate && Date.parse(change.effectiveDate) < now.getTime() ? new Date(change.effectiveDate) : now;
+
+  return await db.transaction(async (tx) => {
+    // Transitions form a chain from each tier to the next, so a backdated change may not land
+    // between recorded ones; with none later, the tier in effect on the date is the current tier
+    const [later] = await tx
+      .select({ effectiveDate: studentTierTransitions.effectiveDate })
+      .from(studentTierTransitions)
+      .where(and(eq(studentTierTransitions.studentId, studentId), gt(studentTierTransitions.effectiveDate, effectiveDate)))
+      .orderBy(desc(studentTierTransitions.effectiveDate))
+      .limit(1);
+    if (later) throw new StudentTierBackdateConflictError(later.effectiveDate);
+    if (existing.currentTier === change.tier) throw new StudentTierUnchangedError(change.tier);
+
+    const [transition] = await tx
+      .insert(studentTierTransitions)
+      .values({
+        studentId,
+        fromTier: existing.currentTier,
+        toTier: change.tier,
+        reason: change.reason,
+        decidedBy: change.decidedBy,
+        effectiveDate,
+        recordedBy: scope.userId,
+      })
+      .returning();
+
+    const [student] = await tx
+      .update(students)
+      .set({ currentTier: change.tier, tierSince: effectiveDate, updatedAt: new Date() })
+      .where(eq(students.id, studentId))
+      .returning();
+
+    console.log(`🪜 Student ${studentId} moved from tier ${existing.currentTier} to tier ${change.tier} (${change.decidedBy})`);
+    return { student, transition };
+  });
+}
+
+export async function listStudentTierTransitions(studentId: string): Promise<StudentTierTransition[]> {
+  return await db
+    .select()
+    .from(studentTierTransitions)
+    .where(eq(studentTierTransitions.studentId, studentId))
+    .orderBy(desc(studentTierTransitions.effectiveDate));
+}
+
+export interface SchoolTierSummary {
+  schoolId: string | null;
+  schoolName: string | null;
+  tiers: {
+    tier: number;
+    students: number;
+    averageDaysAtTier: number;
+    longestDaysAtTier: number;
+  }[];
+}
+
+export interface LongestAtTier {
+  id: string;
+  firstName: string;
+  lastInitial: string;
+  currentGrade: string | null;
+  schoolName: string | null;
+  currentTier: number;
+  tierSince: Date | null;
+  daysAtTier: number;
+}
+
+const daysAtTier = sql<number>`floor(extract(epoch from (now() - coalesce(${students.tierSince}, ${students.createdAt}))) / 86400)`;
+
+// How many students are at each tier per school and how long they have been there
+export async function getSchoolTierSummaries(schoolId?: string): Promise<{ schools: SchoolTierSummary[]; longestAtTier: LongestAtTier[] }> {
+  const schoolFilter = schoolId ? eq(students.schoolId, schoolId) : undefined;
+
+  const rows = await db
+    .select({
+      schoolId: students.schoolId,
+      schoolName: schools.name,
+      tier: students.currentTier,
+      students: sql<number>`count(*)::int`,
+      averageDaysAtTier: sql<number>`round(avg(${daysAtTier}))::int`,
+      longestDaysAtTier: sql<number>`max(${daysAtTier})::int`,
+    })
+    .from(students)
+    .leftJoin(schools, eq(students.schoolId, schools.id))
+    .where(schoolFilter)
+    .groupBy(students.schoolId, schools.name, students.currentTier)
+    .orderBy(asc(schools.name), asc(students.currentTier));
+
+  const summaries = new Map<string, SchoolTierSummary>();
+  rows.forEach(row => {
+    const key = row.schoolId || '';
+    if (!summaries.has(key)) summaries.set(key, { schoolId: row.schoolId, schoolName: row.schoolName, tiers: [] });
+    summaries.get(key)!.tiers.push({
+      tier: row.tier,
+      students: row.students,
+      averageDaysAtTier: row.averageDaysAtTier,
+      longestDaysAtTier: row.longestDaysAtTier,
+    });
+  });
+
+  // Students in tier 2 or 3 the longest, who are most likely due a review
+  const longestAtTier = await db
+    .select({
+      id: students.id,
+      firstName: students.firstName,
+      lastInitial: students.lastInitial,
+      currentGrade: students.currentGrade,
+      schoolName: schools.name,
+      currentTier: students.currentTier,
+      tierSince: students.tierSince,
+      daysAtTier: sql<number>`${daysAtTier}::int`,
+    })
+    .from(students)
+    .leftJoin(schools, eq(students.schoolId, schools.id))
+    .where(and(schoolFilter, gt(students.currentTier, 1)))
+    .orderBy(asc(students.tierSince))
+    .limit(25);
+
+  return { schools: Array.from(summaries.values()), longestAtTier };
+}
@@ -0,0 +1,442 @@
+import { db } from "../db";
+import {
+  classroomSubmissions,
+  classroomEnrolledTeachers,
+  concernShares,
+  concerns,
+  followUpQuestions,
+  interventions,
+  progressNotes,
+  schools,
+  studentMeetings,
+  studentTierTransitions,
+  students,
+  users,
+  type Concern,
+  type InsertStudent,
+  type Student,
+  type StudentGradeHistoryEntry,
+  type StudentTimelineEvent,
+  type UpdateStudent,
+} from "@shared/schema";
+import { and, desc, eq, ilike, inArray, isNull, ne, or, sql, type SQL } from "drizzle-orm";
+import { flagDuplicatePair, gradesOf } from "./studentDuplicates";
+
+// Students as records of their own, so a child's concerns, interventions, progress notes,
+// Classroom Solutions submissions and meetings can be followed over time instead of matched by name.
+
+// Which students a user can see: their school's, or the ones they created when they have no school.
+// Only super admins see every school.
+export interface StudentScope {
+  userId: string;
+  schoolId: string | null;
+  isAdmin: boolean;
+  isMtssTeam: boolean;
+  allSchools: boolean;
+}
+
+export interface StudentDetails {
+  firstName: string;
+  lastInitial: string;
+  grade?: string | null;
+  hasIep?: boolean | null;
+  isEalLearner?: boolean | null;
+  isGifted?: boolean | null;
+  hasDisability?: boolean | null;
+  disabilityType?: string | null;
+}
+
+export class StudentSisIdConflictError extends Error {
+  constructor(externalSisId: string) {
+    super(`Another student at this school already has SIS id ${externalSisId}`);
+    this.name = 'StudentSisIdConflictError';
+  }
+}
+
+export async function resolveSchoolId(schoolName?: string | null): Promise<string | null> {
+  if (!schoolName) return null;
+  const [school] = await db.select({ id: schools.id }).from(schools).where(eq(schools.name, schoolName)).limit(1);
+  return school?.id || null;
+}
+
+export async function getStudentScope(userId: string, schoolName: string | null | undefined, isAdmin = false): Promise<StudentScope> {
+  const [[user], schoolId] = await Promise.all([
+    db.select({ role: users.role, isMtssTeam: users.isMtssTeam }).from(users).where(eq(users.id, userId)).limit(1),
+    resolveSchoolId(schoolName),
+  ]);
+  return {
+    userId,
+    schoolId,
+    isAdmin,
+    isMtssTeam: !!user?.isMtssTeam,
+    allSchools: isAdmin && user?.role === 'super_admin',
+  };
+}
+
+// Admins and the MTSS team see every concern on a student's timeline; other teachers see their own and those shared with them
+export function seesAllStudentConcerns(scope: StudentScope): boolean {
+  return scope.isAdmin || scope.isMtssTeam;
+}
+
+function scopeCondition(scope: StudentScope): SQL | undefined {
+  if (scope.allSchools) return undefined;
+  return scope.schoolId
+    ? eq(students.schoolId, scope.schoolId)
+    : and(isNull(students.schoolId), eq(students.createdBy, scope.userId));
+}
+
+export async function listStudents(scope: StudentScope, search?: string): Promise<Student[]> {
+  const term = search?.trim();
+  return await db
+    .select()
+    .from(students)
+    .where(and(scopeCondition(scope), term ? ilike(students.firstName, `%${term}%`) : undefined))
+    .orderBy(students.firstName, students.lastInitial)
+    .limit(200);
+}
+
+export async function getStudent(id: string, scope: StudentScope): Promise<Student | undefined> {
+  const [student] = await db
+    .select()
+    .from(students)
+    .where(and(eq(students.id, id), scopeCondition(scope)))
+    .limit(1);
+  return student;
+}
+
+function addGrade(history: unknown, grade: string | null | undefined, now = new Date()): StudentGradeHistoryEntry[] {
+  const entries = Array.isArray(history) ? history as StudentGradeHistoryEntry[] : [];
+  if (!grade || entries[entries.length - 1]?.grade === grade) return entries;
+  return [...entries, { grade, from: now.toISOString() }];
+}
+
+async function assertSisIdAvailable(schoolId: string | null, externalSisId: string | null | undefined, exceptId?: string) {
+  if (!externalSisId) return;
+  const [existing] = await db
+    .select({ id: students.id })
+    .from(students)
+    .where(and(
+      schoolId ? eq(students.schoolId, schoolId) : isNull(students.schoolId),
+      eq(students.externalSisId, externalSisId),
+      exceptId ? ne(students.id, exceptId) : undefined
+    ))
+    .limit(1);
+  if (existing) throw new StudentSisIdConflictError(externalSisId);
+}
+
+export async function createStudent(scope: StudentScope, data: InsertStudent): Promise<Student> {
+  await assertSisIdAvailable(scope.schoolId, data.externalSisId);
+  const [student] = await db
+    .insert(students)
+    .values({
+      ...data,
+      externalSisId: data.externalSisId || null,
+      gradeHistory: addGrade([], data.currentGrade),
+      schoolId: scope.schoolId,
+      createdBy: scope.userId,
+    })
+    .returning();
+  return student;
+}
+
+export async function updateStudent(id: string, scope: StudentScope, data: UpdateStudent): Promise<Student | undefined> {
+  const existing = await getStudent(id, scope);
+  if (!existing) return undefined;
+
+  if (data.externalSisId !== undefined) {
+    await assertSisIdAvailable(existing.schoolId, data.externalSisId, id);
+  }
+
+  const [student] = await db
+    .update(students)
+    .set({
+      ...data,
+      ...(data.externalSisId !== undefined && { externalSisId: data.externalSisId || null }),
+      ...(data.currentGrade !== undefined && { gradeHistory: addGrade(existing.gradeHistory, data.currentGrade) }),
+      updatedAt: new Date(),
+    })
+    .where(eq(students.id, id))
+    .returning();
+  return student;
+}
+
+// Concerns report a grade and profile flags each time; flags are only ever switched on from here
+async function recordStudentDetails(student: Student, details: StudentDetails): Promise<Student> {
+  const gradeChanged = !!details.grade && details.grade !== student.currentGrade;
+  const flags = {
+    ...(details.hasIep && !student.hasIep && { hasIep: true }),
+    ...(details.isEalLearner && !student.isEalLearner && { isEalLearner: true }),
+    ...(details.isGifted && !student.isGifted && { isGifted: true }),
+    ...(details.hasDisability && !student.hasDisability && { hasDisability: true }),
+    ...(details.disabilityType && !student.disabilityType && { disabilityType: details.disabilityType }),
+  };
+  if (!gradeChanged && Object.keys(flags).length === 0) return student;
+
+  const [updated] = await db
+    .update(students)
+    .set({
+      ...flags,
+      ...(gradeChanged && { currentGrade: details.grade, gradeHistory: addGrade(student.gradeHistory, details.grade) }),
+      updatedAt: new Date(),
+    })
+    .where(eq(students.id, student.id))
+    .returning();
+  return updated;
+}
+
+/**
+ * The student a new concern or submission is about. A name alone doesn't identify a child - a school
+ * can have two "Maya R."s - so an existing student is only reused when the first name, last initial
+ * and grade (current or past) all match, ignoring case and surrounding spaces. A same-name student
+ * with another or no grade gets a new record, flagged as a possible duplicate for an admin to merge.
+ * Other spellings of the name are left to the duplicate scan.
+ */
+export async function findOrCreateStudent(
+  owner: { schoolId: string | null; createdBy: string | null },
+  details: StudentDetails
+): Promise<Student> {
+  const firstName = details.firstName.trim();
+  const lastInitial = details.lastInitial.trim().charAt(0).toUpperCase();
+
+  const sameName = await db
+    .select()
+    .from(students)
+    .where(and(
+      owner.schoolId
+        ? eq(students.schoolId, owner.schoolId)
+        : and(isNull(students.schoolId), owner.createdBy ? eq(students.createdBy, owner.createdBy) : isNull(students.createdBy)),
+      sql`lower(${students.firstName}) = ${firstName.toLowerCase()}`,
+      eq(students.lastInitial, lastInitial)
+    ))
+    .orderBy(desc(students.updatedAt));
+
+  const grade = details.grade?.trim().toLowerCase();
+  const match = grade ? sameName.find(student => gradesOf(student).includes(grade)) : undefined;
+  if (match) return await recordStudentDetails(match, details);
+
+  const [student] = await db
+    .insert(students)
+    .values({
+      schoolId: owner.schoolId,
+      firstName,
+      lastInitial,
+      currentGrade: details.grade || null,
+      gradeHistory: addGrade([], details.grade),
+      hasIep: !!details.hasIep,
+      isEalLearner: !!details.isEalLearner,
+      isGifted: !!details.isGifted,
+      hasDisability: !!details.hasDisability,
+      disabilityType: details.disabilityType || null,
+      createdBy: owner.createdBy,
+    })
+    .returning();
+  console.log(`🧒 Created student record ${student.id} (${firstName} ${lastInitial}.)`);
+
+  for (const existing of sameName) {
+    await flagDuplicatePair(existing, student, {
+      score: 60,
+      reasons: ['Same name ignoring case and punctuation', 'Not linked automatically: the grade differs or is missing'],
+    });
+  }
+  if (sameName.length > 0) {
+    console.log(`🧒 Flagged ${sameName.length} same-name student(s) as possible duplicates of ${student.id}`);
+  }
+  return student;
+}
+
+// Whole-class classroom management concerns aren't about one student
+export function isStudentConcern(concern: Pick<Concern, 'taskType'>): boolean {
+  return concern.taskType !== 'classroom_management';
+}
+
+/**
+ * Links existing concerns and classroom submissions that predate student records, in batches.
+ * Submissions from teachers without a known school are left unlinked.
+ */
+export async function linkUnlinkedRecords(batchSize = 500): Promise<{ concerns: number; submissions: number }> {
+  const unlinkedConcerns = await db
+    .select({ concern: concerns, school: users.school })
+    .from(concerns)
+    .innerJoin(users, eq(concerns.teacherId, users.id))
+    .where(and(isNull(concerns.studentId), ne(concerns.taskType, 'classroom_management')))
+    .limit(batchSize);
+
+  const schoolIds = new Map<string, string | null>();
+  const schoolIdFor = async (name: string | null) => {
+    if (!name) return null;
+    if (!schoolIds.has(name)) schoolIds.set(name, await resolveSchoolId(name));
+    return schoolIds.get(name) || null;
+  };
+
+  let linkedConcerns = 0;
+  for (const { concern, school } of unlinkedConcerns) {
+    const schoolId = await schoolIdFor(school);
+    const student = await findOrCreateStudent({ schoolId, createdBy: concern.teacherId }, {
+      firstName: concern.studentFirstName,
+      lastInitial: concern.studentLastInitial,
+      grade: concern.grade,
+      hasIep: concern.hasIep,
+      isEalLearner: concern.isEalLearner,
+      isGifted: concern.isGifted,
+      hasDisability: concern.hasDisability,
+      disabilityType: concern.disabilityType,
+    });
+    await db.update(concerns).set({ studentId: student.id }).where(eq(concerns.id, concern.id));
+    linkedConcerns++;
+  }
+
+  const unlinkedSubmissions = await db
+    .select({ submission: classroomSubmissions, schoolId: schools.id })
+    .from(classroomSubmissions)
+    .innerJoin(classroomEnrolledTeachers, eq(classroomSubmissions.teacherId, classroomEnrolledTeachers.id))
+    .innerJoin(schools, eq(schools.name, classroomEnrolledTeachers.school))
+    .where(isNull(classroomSubmissions.studentId))
+    .limit(batchSize);
+
+  let linkedSubmissions = 0;
+  for (const { submission, schoolId } of unlinkedSubmissions) {
+    const student = await findOrCreateStudent({ schoolId, createdBy: null }, {
+      firstName: submission.firstName,
+      lastInitial: submission.lastInitial,
+      grade: submission.studentGrade,
+    });
+    await db.update(classroomSubmissions).set({ studentId: student.id }).where(eq(classroomSubmissions.id, submission.id));
+    linkedSubmissions++;
+  }
+
+  console.log(`🧒 Linked ${linkedConcerns} concern(s) and ${linkedSubmissions} classroom submission(s) to student records`);
+  return { concerns: linkedConcerns, submissions: linkedSubmissions };
+}
+
+export async function recordStudentMeeting(meeting: {
+  teacherId: string;
+  title: string;
+  meetingType?: string | null;
+  meetingDate?: string | null;
+  attendees?: unknown[];
+  notes?: string | null;
+  concerns: Pick<Concern, 'id' | 'studentId'>[];
+}): Promise<void> {
+  const studentIds = Array.from(new Set(meeting.concerns.map(concern => concern.studentId).filter((id): id is string => !!id)));
+  if (studentIds.length === 0) return;
+
+  await db.insert(studentMeetings).values({
+    teacherId: meeting.teacherId,
+    title: meeting.title,
+    meetingType: meeting.meetingType || null,
+    meetingDate: meeting.meetingDate || null,
+    attendees: meeting.attendees || [],
+    notes: meeting.notes || null,
+    concernIds: meeting.concerns.map(concern => concern.id),
+    studentIds,
+  });
+}
+
+function excerpt(text: string | null | undefined, length = 200): string | null {
+  if (!text) return null;
+  return text.length > length ? `${text.slice(0, length).trimEnd()}...` : text;
+}
+
+function toIso(value: Date | null | undefined): string {
+  return (value ? new Date(value) : new Date(0)).toISOString();
+}
+
+/**
+ * Everything the viewer may see about a student, newest first. Teachers get the concerns they raised
+ * or that were shared with them, with those concerns' interventions, notes and follow-ups, and the
+ * meetings they recorded; Classroom Solutions requests and other teachers' concerns are left to
+ * admins and the MTSS team. Tier changes are part of the student record and always shown.
+ */
+export async function getStudentTimeline(studentId: string, scope: StudentScope): Promise<StudentTimelineEvent[]> {
+  const seesAll = seesAllStudentConcerns(scope);
+  const concernRows = await db
+    .select({ concern: concerns, teacherFirstName: users.firstName, teacherLastName: users.lastName })
+    .from(concerns)
+    .leftJoin(users, eq(concerns.teacherId, users.id))
+    .where(and(
+      eq(concerns.studentId, studentId),
+      seesAll ? undefined : or(
+        eq(concerns.teacherId, scope.userId),
+        inArray(concerns.id, db.select({ concernId: concernShares.concernId }).from(concernShares).where(eq(concernShares.userId, scope.userId)))
+      )
+    ));
+
+  const concernIds = concernRows.map(row => row.concern.id);
+  const [interventionRows, questionRows, submissionRows, meetingRows, tierRows] = await Promise.all([
+    concernIds.length > 0 ? db.select().from(interventions).where(inArray(interventions.concernId, concernIds)) : [],
+    concernIds.length > 0 ? db.select().from(followUpQuestions).where(inArray(followUpQuestions.concernId, concernIds)) : [],
+    seesAll ? db.select().from(classroomSubmissions).where(eq(classroomSubmissions.studentId, studentId)) : [],
+    db.select().from(studentMeetings).where(and(
+      sql`${studentMeetings.studentIds} @> ${JSON.stringify([studentId])}::jsonb`,
+      seesAll ? undefined : eq(studentMeetings.teacherId, scope.userId)
+    )),
+    db.select().from(studentTierTransitions).where(eq(studentTierTransitions.studentId, studentId)),
+  ]);
+
+  const interventionIds = interventionRows.map(intervention => intervention.id);
+  const noteRows = interventionIds.length > 0
+    ? await db.select().from(progressNotes).where(inArray(progressNotes.interventionId, interventionIds))
+    : [];
+  const interventionConcern = new Map(interventionRows.map(intervention => [intervention.id, intervention]));
+
+  const events: StudentTimelineEvent[] = [
+    ...concernRows.map(({ concern, teacherFirstName, teacherLastName }) => ({
+      type: 'concern' as const,
+      id: concern.id,
+      at: toIso(concern.createdAt),
+      title: `${concern.severityLevel} concern (grade ${concern.grade})`,
+      detail: excerpt(concern.description),
+      concernId: concern.id,
+      author: [teacherFirstName, teacherLastName].filter(Boolean).join(' ') || null,
+    })),
+    ...interventionRows.map(intervention => ({
+      type: 'intervention' as const,
+      id: intervention.id,
+      at: toIso(intervention.createdAt),
+      title: intervention.tier ? `${intervention.title} (tier ${intervention.tier})` : intervention.title,
+      detail: excerpt(intervention.description),
+      concernId: intervention.concernId,
+    })),
+    ...noteRows.map(note => ({
+      type: 'progress_note' as const,
+      id: note.id,
+      at: toIso(note.createdAt),
+      title: `Progress note on "${interventionConcern.get(note.interventionId)?.title || 'intervention'}"${note.outcome ? ` - ${note.outcome.replace(/_/g, ' ')}` : ''}`,
+      detail: excerpt(note.note),
+      concernId: interventionConcern.get(note.interventionId)?.concernId || null,
+    })),
+    ...questionRows.map(question => ({
+      type: 'follow_up' as const,
+      id: question.id,
+      at: toIso(question.createdAt),
+      title: 'Follow-up question',
+      detail: excerpt(question.question),
+      concernId: question.concernId,
+    })),
+    ...submissionRows.map(submission => ({
+      type: 'classroom_submission' as const,
+      id: submission.id,
+      at: toIso(submission.submittedAt),
+      title: `Classroom Solutions request (${submission.severityLevel})`,
+      detail: excerpt(submission.concernDescription),
+      author: `${submission.teacherFirstName} ${submission.teacherLastInitial}.`,
+    })),
+    ...meetingRows.map(meeting => ({
+      type: 'meeting' as const,
+      id: meeting.id,
+      at: toIso(meeting.createdAt),
+      title: `${meeting.meetingType || 'Meeting'}: ${meeting.title}${meeting.meetingDate ? ` (${meeting.meetingDate})` : ''}`,
+      detail: excerpt(meeting.notes),
+    })),
+    ...tierRows.map(transition => ({
+      type: 'tier_change' as const,
+      id: transition.id,
+      at: toIso(transition.effectiveDate),
+      title: `Moved from tier ${transition.fromTier} to tier ${transition.toTier}`,
+      detail: excerpt(transition.reason),
+      author: transition.decidedBy,
+    })),
+  ];
+
+  return events.sort((a, b) => b.at.localeCompare(a.at));
+}
@@ -16,6 +16,10 @@ import {
   classroomEnrolledTeachers,
   classroomSubmissions,
   adminNotifications,
+  students,
+  studentMeetings,
+  studentTierTransitions,
+  studentDuplicateFlags,
   type User,
   type UpsertUser,
   type InsertSchool,
@@ -49,7 +53,7 @@ import {
   type AdminNotification,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, inArray, sql } from "drizzle-orm";
+import { eq, desc, and, gte, inArray, isNull, or, sql } from "drizzle-orm";
 import bcrypt from "bcrypt";
 import { encryptPin, decryptPin, validatePin } from "./services/encryption";
 
@@ -118,6 +122,7 @@ export interface IStorage {
   // Concern operations
   createConcern(concern: InsertConcern): Promise<Concern>;
   getConcernsByTeacher(teacherId: string): Promise<Concern[]>;
+  getRecentConcernsByTeacher(teacherId: string, since: Date): Promise<Concern[]>;
   getConcernWithDetails(id: string): Promise<ConcernWithDetails | undefined>;
   deleteConcern(id: string): Promise<boolean>;
   
@@ -140,6 +145,7 @@ export interface IStorage {
   // Progress Note operations
   createProgressNote(progressNote: InsertProgressNote): Promise<ProgressNote>;
   getProgressNotesByInterventionId(interventionId: string): Promise<ProgressNote[]>;
+  getProgressNoteById(id: string): Promise<ProgressNote | undefined>;
   updateProgressNote(id: string, updates: Partial<Omit<InsertProgressNote, 'interventionId' | 'teacherId'>>): Promise<ProgressNote | undefined>;
   deleteProgressNote(id: string): Promise<boolean>;
   
@@ -167,6 +173,7 @@ export interface IStorage {
   updateClassroomSubmission(id: string, updates: Partial<ClassroomSubmission>): Promise<ClassroomSubmission>;
   getClassroomSubmissionsByStatus(status: string): Promise<ClassroomSubmissionWithTeacher[]>;
   getClassroomSubmissionsByEmail(email: string): Promise<ClassroomSubmissionWithTeacher[]>;
+  getRecentClassroomSubmissionsByTeacher(teacherId: string, since: Date): Promise<ClassroomSubmission[]>;
   
   // Delayed delivery system methods
   getSubmissionsReadyForAutoSend(): Promise<ClassroomSubmissionWithTeacher[]>;
@@ -381,6 +388,8 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deleteSchool(id: string): Promise<void> {
+    // Students, keys and per-school settings go with the school through their foreign keys; usage,
+    // redaction logs and safeguarding incidents are kept with the school unset
     await db.delete(schools).where(eq(schools.id, id));
   }
 
@@ -514,28 +523,37 @@ export class DatabaseStorage implements IStorage {
       await db.delete(concerns).where(eq(concerns.teacherId, id));
       console.log(`   ✅ Deleted ${concernIds.length} concerns for teacher ${id}`);
       
-      // 6. Delete API keys created by this user
+      // 6. Release student records: students without a school were only visible to this teacher and
+      // go with their concerns, school students stay with the school
+      await db.delete(studentMeetings).where(eq(studentMeetings.teacherId, id));
+      await db.delete(students).where(and(eq(students.createdBy, id), isNull(students.schoolId)));
+      await db.update(students).set({ createdBy: null }).where(eq(students.createdBy, id));
+      await db.update(studentTierTransitions).set({ recordedBy: null }).where(eq(studentTierTransitions.recordedBy, id));
+      await db.update(studentDuplicateFlags).set({ resolvedBy: null }).where(eq(studentDuplicateFlags.resolvedBy, id));
+      console.log(`   ✅ Released student records created by user ${id}`);
+      
+      // 7. Delete API keys created by this user
       await db.delete(apiKeys).where(eq(apiKeys.createdBy, id));
       console.log(`   ✅ Deleted API keys created by user ${id}`);
       
-      // 7. Delete user email configs
+      // 8. Delete user email configs
       await db.delete(userEmailConfigs).where(eq(userEmailConfigs.userId, id));
       console.log(`   ✅ Deleted email configs for user ${id}`);
       
-      // 8. Delete school email configs where this user was the configurator
+      // 9. Delete school email configs where this user was the configurator
       await db.delete(schoolEmailConfigs).where(eq(schoolEmailConfigs.configuredBy, id));
       console.log(`   ✅ Deleted school email configs configured by user ${id}`);
       
-      // 9. Delete school feature overrides enabled by this user
+      // 10. Delete school feature overrides enabled by this user
       await db.delete(schoolFeatureOverrides).where(eq(schoolFeatureOverrides.enabledBy, id));
       console.log(`   ✅ Deleted school feature overrides enabled by user ${id}`);
       
-      // 10. Delete admin logs (both as admin and as target)
+      // 11. Delete admin logs (both as admin and as target)
       await db.delete(adminLogs).where(eq(adminLogs.targetUserId, id));
       await db.delete(adminLogs).where(eq(adminLogs.adminId, id));
       console.log(`   ✅ Deleted admin logs for user ${id}`);
       
-      // 11. Finally, delete the user
+      // 12. Finally, delete the user
       const result = await db.delete(users).where(eq(users.id, id));
       console.log(`   ✅ Deleted user ${id} successfully`);
       
@@ -724,6 +742,15 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(concerns.createdAt));
   }
 
+  // Used for near-duplicate detection, so only the last few minutes are loaded
+  async getRecentConcernsByTeacher(teacherId: string, since: Date): Promise<Concern[]> {
+    return await db
+      .select()
+      .from(concerns)
+      .where(and(eq(concerns.teacherId, teacherId), gte(concerns.createdAt, since)))
+      .orderBy(desc(concerns.createdAt));
+  }
+
   async getConcernWithDetails(id: string): Promise<ConcernWithDetails | undefined> {
     const concernData = await db.query.concerns.findFirst({
       where: eq(concerns.id, id),
@@ -850,6 +877,14 @@ export class DatabaseStorage implements IStorage {
     return notes;
   }
 
+  async getProgressNoteById(id: string): Promise<ProgressNote | undefined> {
+    const [note] = await db
+      .select()
+      .from(progressNotes)
+      .where(eq(progressNotes.id, id));
+    return note;
+  }
+
   async updateProgressNote(id: string, updates: Partial<Omit<InsertProgressNote, 'interventionId' | 'teacherId'>>): Promise<ProgressNote | undefined> {
     const [updatedNote] = await db
       .update(progressNotes)
@@ -1241,6 +1276,14 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
+  async getRecentClassroomSubmissionsByTeacher(teacherId: string, since: Date): Promise<ClassroomSubmission[]> {
+    return await db
+      .select()
+      .from(classroomSubmissions)
+      .where(and(eq(classroomSubmissions.teacherId, teacherId), gte(classroomSubmissions.submittedAt, since)))
+      .orderBy(desc(classroomSubmissions.submittedAt));
+  }
+
   async getClassroomSubmissionsByEmail(email: string): Promise<ClassroomSubmissionWithTeacher[]> {
     const submissions = await db
       .select()
@@ -1280,7 +1323,8 @@ export class DatabaseStorage implements IStorage {
           // Only process submissions that are pending or approved (not hold, cancelled, urgent_flagged, or already sent)
           inArray(classroomSubmissions.status, ['pending', 'approved']),
           sql`${classroomSubmissions.autoSendTime} <= ${now}`,
-          eq(classroomSubmissions.urgentFlag, false) // Only auto-send non-urgent submissions
+          // Urgent submissions are only sent once an admin has approved them
+          or(eq(classroomSubmissions.urgentFlag, false), eq(classroomSubmissions.status, 'approved'))
         )
       )
       .orderBy(classroomSubmissions.autoSendTime);
@@ -1398,7 +1442,7 @@ export class DatabaseStorage implements IStorage {
           eq(classroomSubmissions.id, id),
           inArray(classroomSubmissions.status, ['pending', 'approved']),
           sql`${classroomSubmissions.autoSendTime} <= ${new Date()}`,
-          eq(classroomSubmissions.urgentFlag, false)
+          or(eq(classroomSubmissions.urgentFlag, false), eq(classroomSubmissions.status, 'approved'))
         )
       )
       .returning();
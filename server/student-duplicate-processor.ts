@@ -0,0 +1,56 @@
+import { scanForDuplicateStudents } from './services/studentDuplicates';
+
+// Periodically flags student records that are likely the same child so admins can merge them.
+export class StudentDuplicateProcessor {
+  private intervalId: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private readonly INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+
+  constructor() {
+    this.start();
+  }
+
+  start(): void {
+    if (this.intervalId) return;
+
+    console.log('🧒 Student duplicate processor starting...');
+
+    this.processDuplicates();
+
+    this.intervalId = setInterval(() => {
+      this.processDuplicates();
+    }, this.INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = null;
+      console.log('🛑 Student duplicate processor stopped');
+    }
+  }
+
+  private async processDuplicates(): Promise<void> {
+    if (this.isProcessing) return;
+
+    try {
+      this.isProcessing = true;
+      await scanForDuplicateStudents();
+    } catch (error) {
+      console.error('❌ Student duplicate processor error:', error);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+// Export singleton instance
+export const studentDuplicateProcessor = new StudentDuplicateProcessor();
+
+process.on('SIGINT', () => {
+  studentDuplicateProcessor.stop();
+});
+
+process.on('SIGTERM', () => {
+  studentDuplicateProcessor.stop();
+});
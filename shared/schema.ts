@@ -8,6 +8,8 @@ import {
   text,
   integer,
   boolean,
+  doublePrecision,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -55,6 +57,7 @@ export const users = pgTable("users", {
   lastUsageReset: timestamp("last_usage_reset").defaultNow(), // Track monthly usage reset
   isAdmin: boolean("is_admin").default(false),
   role: varchar("role").default('teacher'), // 'teacher' | 'admin' | 'super_admin'
+  isMtssTeam: boolean("is_mtss_team").default(false), // On the school's MTSS team: sees every concern on a student's timeline and records tier changes
   isActive: boolean("is_active").default(true),
   lastLoginAt: timestamp("last_login_at"),
   
@@ -66,9 +69,37 @@ export const users = pgTable("users", {
   lastLoginIdx: index("users_last_login_idx").on(table.lastLoginAt),
 }));
 
+// Students: one row per child at a school, so every concern and submission about them can be
+// followed over time. Name fields mirror what teachers type on concerns; the learning-profile
+// flags are set once any concern reports them and are only cleared by editing the student.
+export const students = pgTable("students", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }), // Null when the teacher has no school; then only visible to createdBy
+  firstName: varchar("first_name").notNull(),
+  lastInitial: varchar("last_initial", { length: 1 }).notNull(),
+  currentGrade: varchar("current_grade"),
+  gradeHistory: jsonb("grade_history").default([]), // StudentGradeHistoryEntry[], oldest first
+  hasIep: boolean("has_iep").default(false),
+  isEalLearner: boolean("is_eal_learner").default(false),
+  isGifted: boolean("is_gifted").default(false),
+  hasDisability: boolean("has_disability").default(false),
+  disabilityType: varchar("disability_type"),
+  externalSisId: varchar("external_sis_id"), // Student information system id, unique within a school
+  currentTier: integer("current_tier").notNull().default(1), // MTSS tier 1-3; only changed through studentTierTransitions
+  tierSince: timestamp("tier_since").defaultNow(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  schoolNameIdx: index("students_school_name_idx").on(table.schoolId, table.lastInitial, table.firstName),
+  tierIdx: index("students_school_tier_idx").on(table.schoolId, table.currentTier),
+  sisIdx: uniqueIndex("students_school_sis_idx").on(table.schoolId, table.externalSisId),
+}));
+
 export const concerns = pgTable("concerns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   teacherId: varchar("teacher_id").references(() => users.id).notNull(),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "set null" }), // Null for whole-class concerns and older rows not yet linked
   studentFirstName: varchar("student_first_name").notNull(),
   studentLastInitial: varchar("student_last_initial", { length: 1 }).notNull(),
   grade: varchar("grade").notNull(),
@@ -104,11 +135,36 @@ export const concerns = pgTable("concerns", {
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
   teacherIdIdx: index("concerns_teacher_id_idx").on(table.teacherId),
+  studentIdIdx: index("concerns_student_id_idx").on(table.studentId),
   createdAtIdx: index("concerns_created_at_idx").on(table.createdAt),
   severityIdx: index("concerns_severity_idx").on(table.severityLevel),
   taskTypeIdx: index("concerns_task_type_idx").on(table.taskType),
 }));
 
+// Curated, evidence-based interventions admins maintain. Recommendation prompts are grounded in
+// matching entries, and teachers can add an entry to a concern without using a support request.
+export const interventionLibraryEntries = pgTable("intervention_library_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  title: varchar("title").notNull(),
+  summary: text("summary").notNull(),
+  concernTypes: jsonb("concern_types").notNull().default('[]'), // Values from CONCERN_TYPE_OPTIONS
+  gradeBands: jsonb("grade_bands").notNull().default('[]'), // Values from GRADE_BANDS; empty = any grade
+  tier: integer("tier").notNull(), // MTSS tier the intervention is designed for
+  steps: jsonb("steps").notNull().default('[]'),
+  materials: jsonb("materials").notNull().default('[]'),
+  timeline: varchar("timeline"),
+  evidenceRating: varchar("evidence_rating").notNull(), // One of EVIDENCE_RATINGS
+  source: text("source").notNull(), // Citation for the research or program behind the entry
+  sourceUrl: varchar("source_url"),
+  isActive: boolean("is_active").notNull().default(true), // Archived entries stay linked to past interventions
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  activeTierIdx: index("intervention_library_active_tier_idx").on(table.isActive, table.tier),
+}));
+
 export const interventions = pgTable("interventions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   concernId: varchar("concern_id").references(() => concerns.id).notNull(),
@@ -116,10 +172,25 @@ export const interventions = pgTable("interventions", {
   description: text("description").notNull(),
   steps: jsonb("steps").notNull(),
   timeline: varchar("timeline"),
+  progressMeasures: jsonb("progress_measures").default('[]'), // How the teacher tracks whether the strategy is working
+  successCriteria: jsonb("success_criteria").default('[]'), // Measurable outcomes that mean the strategy worked
+  promptTemplateId: varchar("prompt_template_id").references(() => promptTemplates.id, { onDelete: "set null" }), // null = built-in default prompt
+  promptVersion: varchar("prompt_version"), // e.g. "tier2_intervention v3 (school)" or "tier2_intervention built-in"
+  tier: integer("tier"), // MTSS tier the support was generated for; null on interventions from before tiers were tracked
+  libraryEntryId: varchar("library_entry_id").references(() => interventionLibraryEntries.id, { onDelete: "set null" }), // Library entry the strategy is based on or copied from
   saved: boolean("saved").default(false),
   savedAt: timestamp("saved_at"),
+  // Progress check-in schedule, started when the intervention is saved (server/services/checkIns.ts)
+  checkInIntervalDays: integer("check_in_interval_days"), // null = no reminders
+  nextCheckInAt: timestamp("next_check_in_at"),
+  lastCheckInAt: timestamp("last_check_in_at"),
+  checkInReminderSentAt: timestamp("check_in_reminder_sent_at"), // Set once the current check-in has been emailed
+  fidelityFrequency: varchar("fidelity_frequency").notNull().default("weekly"), // How often the fidelity checklist is ticked off: one of FIDELITY_FREQUENCIES
+  currentVersion: integer("current_version").notNull().default(1), // Plan version shown; earlier versions are in intervention_revisions
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  nextCheckInIdx: index("interventions_next_check_in_idx").on(table.nextCheckInAt),
+}));
 
 export const followUpQuestions = pgTable("follow_up_questions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -149,6 +220,172 @@ export const progressNotes = pgTable("progress_notes", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Measurable goals for an intervention: the metric being monitored, where the student started and
+// where they should be by the target date. The straight line between the two is the aim line.
+export const interventionGoals = pgTable("intervention_goals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  interventionId: varchar("intervention_id").references(() => interventions.id, { onDelete: "cascade" }).notNull(),
+  metric: varchar("metric").notNull(), // e.g. "Words correct per minute"
+  unit: varchar("unit"), // e.g. "wcpm", "minutes"
+  baseline: doublePrecision("baseline").notNull(),
+  baselineDate: timestamp("baseline_date").notNull(),
+  target: doublePrecision("target").notNull(), // Below the baseline for behaviours that should decrease
+  targetDate: timestamp("target_date").notNull(),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  interventionIdx: index("intervention_goals_intervention_idx").on(table.interventionId),
+}));
+
+// Progress-monitoring measurements logged against a goal
+export const goalDataPoints = pgTable("goal_data_points", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  goalId: varchar("goal_id").references(() => interventionGoals.id, { onDelete: "cascade" }).notNull(),
+  value: doublePrecision("value").notNull(),
+  measuredAt: timestamp("measured_at").notNull(),
+  note: text("note"),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  goalIdx: index("goal_data_points_goal_idx").on(table.goalId, table.measuredAt),
+}));
+
+// Version history of an intervention's plan. The intervention row always holds the current version;
+// the first adjustment also snapshots the original as version 1 (server/services/planRevisions.ts)
+export const interventionRevisions = pgTable("intervention_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  interventionId: varchar("intervention_id").references(() => interventions.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  source: varchar("source").notNull(), // One of PLAN_REVISION_SOURCES
+  title: varchar("title").notNull(),
+  description: text("description").notNull(),
+  steps: jsonb("steps").notNull(),
+  timeline: varchar("timeline"),
+  progressMeasures: jsonb("progress_measures").default('[]'),
+  successCriteria: jsonb("success_criteria").default('[]'),
+  reason: text("reason"), // What the teacher said wasn't working
+  changeSummary: text("change_summary"), // The model's explanation of what changed and why
+  promptVersion: varchar("prompt_version"),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  versionIdx: uniqueIndex("intervention_revisions_version_idx").on(table.interventionId, table.version),
+  createdByIdx: index("intervention_revisions_created_by_idx").on(table.createdBy, table.createdAt),
+}));
+
+// Implementation fidelity checklist for a saved intervention: which of its steps the teacher carried
+// out in one day or week (server/services/fidelity.ts)
+export const fidelityLogs = pgTable("fidelity_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  interventionId: varchar("intervention_id").references(() => interventions.id, { onDelete: "cascade" }).notNull(),
+  periodStart: varchar("period_start", { length: 10 }).notNull(), // YYYY-MM-DD; the Monday for weekly checklists
+  frequency: varchar("frequency").notNull(), // The intervention's fidelity frequency when the checklist was ticked
+  completedSteps: jsonb("completed_steps").notNull().default('[]'), // Indexes into interventions.steps
+  totalSteps: integer("total_steps").notNull(), // Number of steps at the time, so later edits don't rewrite history
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  periodIdx: uniqueIndex("fidelity_logs_period_idx").on(table.interventionId, table.frequency, table.periodStart),
+}));
+
+// Colleagues (counselor, SENCO, co-teacher...) a teacher has given access to one of their concerns.
+// Revoking access deletes the row (server/services/collaboration.ts)
+export const concernShares = pgTable("concern_shares", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  concernId: varchar("concern_id").references(() => concerns.id, { onDelete: "cascade" }).notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: varchar("role").notNull(), // One of CONCERN_SHARE_ROLES
+  access: varchar("access").notNull(), // One of CONCERN_SHARE_ACCESS
+  grantedBy: varchar("granted_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  concernUserIdx: uniqueIndex("concern_shares_concern_user_idx").on(table.concernId, table.userId),
+  userIdx: index("concern_shares_user_idx").on(table.userId),
+}));
+
+// Comments on a concern or one of its interventions. Replies point at a top-level comment, so threads
+// are one level deep
+export const concernComments = pgTable("concern_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  concernId: varchar("concern_id").references(() => concerns.id, { onDelete: "cascade" }).notNull(),
+  interventionId: varchar("intervention_id").references(() => interventions.id, { onDelete: "cascade" }), // Null for comments on the concern itself
+  parentId: varchar("parent_id"), // Top-level comment this replies to; replies are deleted with it
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  body: text("body").notNull(),
+  mentions: jsonb("mentions").default([]), // Ids of @mentioned users who could see the concern when it was posted
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  concernIdx: index("concern_comments_concern_idx").on(table.concernId, table.createdAt),
+  parentIdx: index("concern_comments_parent_idx").on(table.parentId),
+}));
+
+// In-app notifications for teachers: concerns shared with them, @mentions and replies
+export const userNotifications = pgTable("user_notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  type: varchar("type").notNull(), // One of USER_NOTIFICATION_TYPES
+  concernId: varchar("concern_id").references(() => concerns.id, { onDelete: "cascade" }).notNull(),
+  commentId: varchar("comment_id").references(() => concernComments.id, { onDelete: "cascade" }),
+  actorId: varchar("actor_id").references(() => users.id, { onDelete: "set null" }),
+  message: text("message").notNull(),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  userIdx: index("user_notifications_user_idx").on(table.userId, table.createdAt),
+}));
+
+// Meetings prepared with the meeting-prep tool, kept so they appear on each student's timeline
+export const studentMeetings = pgTable("student_meetings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  teacherId: varchar("teacher_id").references(() => users.id).notNull(),
+  title: varchar("title").notNull(),
+  meetingType: varchar("meeting_type"),
+  meetingDate: varchar("meeting_date"), // As entered on the form, e.g. "2026-10-21"
+  attendees: jsonb("attendees").default([]),
+  notes: text("notes"),
+  concernIds: jsonb("concern_ids").default([]), // string[]
+  studentIds: jsonb("student_ids").default([]), // string[], students of the selected concerns
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  teacherIdx: index("student_meetings_teacher_idx").on(table.teacherId),
+}));
+
+// Dated moves between MTSS tiers, with why the student moved and which team decided it
+export const studentTierTransitions = pgTable("student_tier_transitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+  fromTier: integer("from_tier").notNull(),
+  toTier: integer("to_tier").notNull(),
+  reason: text("reason").notNull(),
+  decidedBy: varchar("decided_by").notNull(), // The team that made the decision, e.g. "Grade 3 MTSS team"
+  effectiveDate: timestamp("effective_date").notNull(),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  studentIdx: index("student_tier_transitions_student_idx").on(table.studentId, table.effectiveDate),
+}));
+
+// Likely duplicate student records at a school, flagged by the duplicate scan for an admin to merge
+// or dismiss. The pair is stored with the lower student id first so it is only flagged once.
+export const studentDuplicateFlags = pgTable("student_duplicate_flags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }),
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+  duplicateStudentId: varchar("duplicate_student_id").references(() => students.id, { onDelete: "cascade" }).notNull(),
+  score: integer("score").notNull(), // 0-100
+  reasons: jsonb("reasons").default([]), // string[], why the pair was flagged
+  status: varchar("status").notNull().default('open'), // 'open' | 'dismissed'; merged pairs are deleted with the merged student
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  pairIdx: uniqueIndex("student_duplicate_flags_pair_idx").on(table.studentId, table.duplicateStudentId),
+  statusIdx: index("student_duplicate_flags_status_idx").on(table.status),
+}));
+
 // Admin activity logging for audit trails
 export const adminLogs = pgTable("admin_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -193,18 +430,214 @@ export const schoolFeatureOverrides = pgTable("school_feature_overrides", {
 export const apiKeys = pgTable("api_keys", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: varchar("name").notNull(),
-  provider: varchar("provider").notNull().default('deepseek'), // 'deepseek', 'openai', etc.
+  provider: varchar("provider").notNull().default('deepseek'), // 'deepseek' | 'openai' | 'openai_compatible' | 'anthropic' | 'local'
   apiKey: text("api_key").notNull(), // Encrypted API key
+  baseUrl: varchar("base_url"), // Overrides the provider default endpoint (required for openai_compatible/local)
+  model: varchar("model"), // Overrides the provider default model
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }), // Null = available to every school
   isActive: boolean("is_active").default(true),
   description: text("description"),
   usageCount: integer("usage_count").default(0),
   maxUsage: integer("max_usage").default(10000), // Monthly usage limit
+  usageResetAt: timestamp("usage_reset_at").defaultNow(), // Start of the current monthly usage window
+  consecutiveFailures: integer("consecutive_failures").default(0),
+  lastError: text("last_error"),
+  lastErrorAt: timestamp("last_error_at"),
+  cooldownUntil: timestamp("cooldown_until"), // Key pool skips the key until this time (auth/rate-limit failures)
   createdBy: varchar("created_by").references(() => users.id).notNull(),
   lastUsedAt: timestamp("last_used_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// PII redaction settings per school - applied to text before it is sent to an AI provider.
+// Schools without a row use the defaults (every category enabled).
+export const piiRedactionSettings = pgTable("pii_redaction_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull().unique(),
+  isEnabled: boolean("is_enabled").default(true),
+  redactNames: boolean("redact_names").default(true),
+  redactEmails: boolean("redact_emails").default(true),
+  redactPhones: boolean("redact_phones").default(true),
+  redactAddresses: boolean("redact_addresses").default(true),
+  redactStudentIds: boolean("redact_student_ids").default(true),
+  redactDatesOfBirth: boolean("redact_dates_of_birth").default(true),
+  studentIdPattern: varchar("student_id_pattern"), // Optional regex for the school's own student ID format
+  customTerms: jsonb("custom_terms").default('[]'), // Extra names/terms that must always be redacted
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Audit trail of redactions. Stores a hash of the original value, never the value itself.
+export const piiRedactionLogs = pgTable("pii_redaction_logs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "set null" }),
+  userId: varchar("user_id").references(() => users.id),
+  source: varchar("source").notNull(), // 'recommendations' | 'follow_up' | 'classroom_solution'
+  category: varchar("category").notNull(), // 'name' | 'email' | 'phone' | 'address' | 'student_id' | 'date_of_birth'
+  placeholder: varchar("placeholder").notNull(),
+  valueHash: varchar("value_hash", { length: 64 }).notNull(), // SHA-256 of the redacted value
+  valueLength: integer("value_length").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  schoolIdx: index("pii_redaction_logs_school_idx").on(table.schoolId),
+  createdAtIdx: index("pii_redaction_logs_created_at_idx").on(table.createdAt),
+}));
+
+// Versioned AI prompt templates. schoolId null = default for every school; a published school
+// template overrides it. Only one version per key and school is published at a time.
+export const promptTemplates = pgTable("prompt_templates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: varchar("key").notNull(), // 'differentiation' | 'differentiation_lesson_plan' | 'tier2_intervention' | 'classroom_management' | 'follow_up'
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }),
+  version: integer("version").notNull(),
+  status: varchar("status").notNull().default('draft'), // 'draft' | 'published' | 'archived'
+  body: text("body").notNull(), // Prompt text with {{placeholders}}
+  notes: text("notes"), // What changed in this version
+  createdBy: varchar("created_by").references(() => users.id),
+  publishedBy: varchar("published_by").references(() => users.id),
+  publishedAt: timestamp("published_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  keyIdx: index("prompt_templates_key_idx").on(table.key, table.schoolId),
+}));
+
+// AI usage ledger - one row per provider call attempt, including failed and failed-over attempts
+export const aiUsageLedger = pgTable("ai_usage_ledger", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(),
+  model: varchar("model").notNull(),
+  apiKeyId: varchar("api_key_id").references(() => apiKeys.id, { onDelete: "set null" }), // Null for the environment key
+  taskType: varchar("task_type").notNull(), // 'tier2_intervention' | 'differentiation' | 'classroom_management' | 'follow_up' | 'classroom_solution' ...
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "set null" }),
+  userId: varchar("user_id").references(() => users.id), // Null for Classroom Solutions teachers, who aren't app users
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  totalTokens: integer("total_tokens").notNull().default(0),
+  tokensEstimated: boolean("tokens_estimated").notNull().default(false), // Provider didn't report usage; counted from text length
+  estimatedCostUsd: doublePrecision("estimated_cost_usd").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull().default(0),
+  outcome: varchar("outcome").notNull(), // 'success' | 'failover' | 'error'
+  errorStatus: integer("error_status"), // Provider HTTP status for failed attempts
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  createdAtIdx: index("ai_usage_ledger_created_at_idx").on(table.createdAt),
+  schoolIdx: index("ai_usage_ledger_school_idx").on(table.schoolId, table.createdAt),
+  userIdx: index("ai_usage_ledger_user_idx").on(table.userId),
+}));
+
+// Monthly AI spending budget per school; alerts fire once per threshold per month
+export const schoolAiBudgets = pgTable("school_ai_budgets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull().unique(),
+  monthlyBudgetUsd: doublePrecision("monthly_budget_usd").notNull(),
+  alertThresholds: jsonb("alert_thresholds").default([80, 100]), // Percentages of the budget
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const aiBudgetAlerts = pgTable("ai_budget_alerts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  month: varchar("month").notNull(), // YYYY-MM
+  thresholdPercent: integer("threshold_percent").notNull(),
+  spendUsd: doublePrecision("spend_usd").notNull(),
+  budgetUsd: doublePrecision("budget_usd").notNull(),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id),
+  acknowledgedAt: timestamp("acknowledged_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  thresholdIdx: uniqueIndex("ai_budget_alerts_threshold_idx").on(table.schoolId, table.month, table.thresholdPercent),
+}));
+
+// Risk categories scored by the safeguarding classifier (server/services/safeguarding.ts)
+export const SAFEGUARDING_CATEGORIES = ['self_harm', 'abuse', 'violence', 'neglect'] as const;
+
+export type SafeguardingCategory = typeof SAFEGUARDING_CATEGORIES[number];
+
+// Per-school safeguarding protocol: shown in urgent alerts and extends the classifier's lexicon
+export const schoolSafeguardingSettings = pgTable("school_safeguarding_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull().unique(),
+  protocolText: text("protocol_text"), // Replaces the generic "contact student support services" steps
+  extraKeywords: jsonb("extra_keywords").default([]), // SafeguardingKeyword[]
+  notifyLeads: boolean("notify_leads").default(true), // Email the school's leads when an urgent concern is detected
+  escalationMinutes: integer("escalation_minutes").default(15), // Unacknowledged urgent cases move to the next contact after this long
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Designated safeguarding leads (DSLs) and deputies, contacted in escalation order
+export const safeguardingLeads = pgTable("safeguarding_leads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name").notNull(),
+  role: varchar("role").default("Designated Safeguarding Lead"),
+  email: varchar("email").notNull(),
+  phone: varchar("phone"),
+  hours: varchar("hours"), // Free text, e.g. "Mon-Fri 8:00-16:30"
+  escalationOrder: integer("escalation_order").notNull().default(1), // 1 is contacted first
+  isActive: boolean("is_active").default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Safeguarding incidents: the formal record of every urgent safeguarding detection. The incident row
+// is written once and only ever changed to close it; everything that happens afterwards is appended
+// to safeguardingIncidentEntries. Source ids are not foreign keys so the record outlives the concern
+// or submission it came from.
+export const SAFEGUARDING_INCIDENT_SOURCES = ['concern', 'follow_up', 'classroom_submission'] as const;
+export const SAFEGUARDING_INCIDENT_ENTRY_TYPES = ['notification', 'action', 'outcome', 'closure', 'export'] as const;
+
+export type SafeguardingIncidentSource = typeof SAFEGUARDING_INCIDENT_SOURCES[number];
+export type SafeguardingIncidentEntryType = typeof SAFEGUARDING_INCIDENT_ENTRY_TYPES[number];
+
+export const safeguardingIncidents = pgTable("safeguarding_incidents", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  referenceNumber: varchar("reference_number").notNull().unique(), // e.g. "SG-20261018-4F2A9C"
+  schoolId: varchar("school_id").references(() => schools.id, { onDelete: "set null" }),
+  schoolName: varchar("school_name"),
+  source: varchar("source").notNull(), // SafeguardingIncidentSource
+  sourceId: varchar("source_id").notNull(), // Concern or classroom submission id
+  studentLabel: varchar("student_label").notNull(), // e.g. "Lena K."
+  reportedBy: varchar("reported_by").notNull(), // Teacher name as it was at the time
+  reportedByUserId: varchar("reported_by_user_id"),
+  triggeringText: text("triggering_text").notNull(),
+  primaryCategory: varchar("primary_category"), // SafeguardingCategory
+  riskScore: integer("risk_score").notNull(),
+  classification: jsonb("classification").notNull(), // Category scores, matched phrases and ignored phrases
+  classifierExplanation: text("classifier_explanation"),
+  status: varchar("status").notNull().default('open'), // 'open' | 'closed'
+  outcome: text("outcome"),
+  closureSignOff: text("closure_sign_off"), // Name and role of whoever signed the incident off
+  closedBy: varchar("closed_by"), // User id; like the other user ids here, not a foreign key so accounts can still be deleted
+  closedAt: timestamp("closed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  schoolIdx: index("safeguarding_incidents_school_idx").on(table.schoolId),
+  statusIdx: index("safeguarding_incidents_status_idx").on(table.status),
+  sourceIdx: index("safeguarding_incidents_source_idx").on(table.source, table.sourceId),
+  createdAtIdx: index("safeguarding_incidents_created_at_idx").on(table.createdAt),
+}));
+
+// Append-only history of an incident: who was notified, actions taken, the outcome and sign-off
+export const safeguardingIncidentEntries = pgTable("safeguarding_incident_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  incidentId: varchar("incident_id").references(() => safeguardingIncidents.id).notNull(),
+  type: varchar("type").notNull(), // SafeguardingIncidentEntryType
+  actorId: varchar("actor_id"), // User id, null for entries the system recorded
+  actorName: varchar("actor_name"), // Snapshot so the record still reads correctly if the account changes
+  note: text("note"),
+  notified: jsonb("notified").default([]), // Email addresses, for notification entries
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  incidentIdx: index("safeguarding_incident_entries_incident_idx").on(table.incidentId, table.createdAt),
+}));
+
 // User-level email configurations
 export const userEmailConfigs = pgTable("user_email_configs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -300,8 +733,16 @@ export const adminNotifications = pgTable("admin_notifications", {
   createdAt: timestamp("created_at").defaultNow(),
   readAt: timestamp("read_at"),
   resolvedAt: timestamp("resolved_at"),
+  // Urgent escalation chain (server/services/safeguardingEscalation.ts)
+  escalationLevel: integer("escalation_level").default(0), // 0 = primary safeguarding lead; past the last lead = super admins
+  currentContact: varchar("current_contact"), // Who is currently expected to acknowledge, e.g. "Jane Smith <jane@school.org>"
+  nextEscalationAt: timestamp("next_escalation_at"), // Before the first email: when to retry starting the chain. Null once acknowledged or the chain is exhausted
+  acknowledgedAt: timestamp("acknowledged_at"),
+  acknowledgedBy: varchar("acknowledged_by").references(() => users.id),
+  escalationLog: jsonb("escalation_log").default([]), // UrgentEscalationEvent[], oldest first
 }, (table) => ({
   submissionIdx: index("admin_notifications_submission_idx").on(table.submissionId),
+  nextEscalationIdx: index("admin_notifications_next_escalation_idx").on(table.nextEscalationAt),
   statusIdx: index("admin_notifications_status_idx").on(table.status),
   priorityIdx: index("admin_notifications_priority_idx").on(table.priority),
   createdAtIdx: index("admin_notifications_created_at_idx").on(table.createdAt),
@@ -338,6 +779,7 @@ export const classroomSubmissions = pgTable("classroom_submissions", {
   securityPin: varchar("security_pin", { length: 64 }), // Hashed 4-digit PIN for response access
   
   // Student Info (anonymized) - enhanced for privacy
+  studentId: varchar("student_id").references(() => students.id, { onDelete: "set null" }), // Linked student record, when the school is known
   firstName: varchar("first_name", { length: 50 }).notNull(), // Student first name or initials
   lastInitial: varchar("last_initial", { length: 1 }).notNull(), // Student last initial
   studentAge: integer("student_age").notNull(),
@@ -362,6 +804,7 @@ export const classroomSubmissions = pgTable("classroom_submissions", {
   
   // AI Content Management - separated for clarity
   aiDraft: text("ai_draft"), // Auto-generated intervention text
+  aiDraftFallbackReason: varchar("ai_draft_fallback_reason"), // Set when the draft is template text because the AI provider was unavailable
   reviewedText: text("reviewed_text"), // Admin-updated intervention text
   sentText: text("sent_text"), // Final version sent to teacher
   disclaimerAttached: boolean("disclaimer_attached").default(true), // Always TRUE for sent outputs
@@ -390,6 +833,7 @@ export const classroomSubmissions = pgTable("classroom_submissions", {
   urgentIdx: index("classroom_submissions_urgent_idx").on(table.urgentFlag),
   autoSendIdx: index("classroom_submissions_auto_send_idx").on(table.autoSendTime),
   createdAtIdx: index("classroom_submissions_created_at_idx").on(table.submittedAt),
+  studentIdIdx: index("classroom_submissions_student_id_idx").on(table.studentId),
 }));
 
 // Relations
@@ -478,6 +922,24 @@ export const schoolFeatureOverrideRelations = relations(schoolFeatureOverrides,
 }));
 
 // Insert schemas
+export const insertStudentSchema = z.object({
+  firstName: z.string().trim().min(1).max(50),
+  lastInitial: z.string().trim().length(1).transform(value => value.toUpperCase()),
+  currentGrade: z.string().trim().max(20).nullable().optional(),
+  hasIep: z.boolean().optional(),
+  isEalLearner: z.boolean().optional(),
+  isGifted: z.boolean().optional(),
+  hasDisability: z.boolean().optional(),
+  disabilityType: z.string().trim().max(100).nullable().optional(),
+  externalSisId: z.string().trim().max(100).nullable().optional(),
+});
+
+export const updateStudentSchema = insertStudentSchema.partial();
+
+export const mergeStudentsSchema = z.object({
+  keepStudentId: z.string().min(1), // The record that survives; the other one of the pair is merged into it
+});
+
 export const insertConcernSchema = createInsertSchema(concerns).omit({
   id: true,
   createdAt: true,
@@ -526,11 +988,160 @@ export const insertProgressNoteSchema = createInsertSchema(progressNotes).omit({
   updatedAt: true,
 });
 
+const dateString = z.string().refine(value => !isNaN(Date.parse(value)), "Invalid date");
+
+export const insertInterventionGoalSchema = z.object({
+  metric: z.string().trim().min(1).max(200),
+  unit: z.string().trim().max(50).nullable().optional(),
+  baseline: z.number().finite(),
+  baselineDate: dateString.optional(), // Defaults to today
+  target: z.number().finite(),
+  targetDate: dateString,
+}).refine(goal => goal.target !== goal.baseline, {
+  message: "The target must be different from the baseline",
+  path: ["target"],
+}).refine(goal => Date.parse(goal.targetDate) > (goal.baselineDate ? Date.parse(goal.baselineDate) : Date.now()), {
+  message: "The target date must be after the baseline date",
+  path: ["targetDate"],
+});
+
+export const insertGoalDataPointSchema = z.object({
+  value: z.number().finite(),
+  measuredAt: dateString.optional(), // Defaults to now
+  note: z.string().trim().max(1000).nullable().optional(),
+});
+
+export const PROGRESS_NOTE_OUTCOMES = ['positive', 'mixed', 'needs_adjustment', 'no_change'] as const;
+
+// Recording a progress check-in writes a progress note and moves the schedule on
+export const completeCheckInSchema = z.object({
+  note: z.string().trim().min(1).max(5000),
+  outcome: z.enum(PROGRESS_NOTE_OUTCOMES).optional(),
+  nextSteps: z.string().trim().max(2000).nullable().optional(),
+});
+
+export const checkInScheduleSchema = z.object({
+  intervalDays: z.number().int().min(1).max(90).nullable(), // null stops reminders
+});
+
+export const PLAN_REVISION_SOURCES = ['original', 'ai_adjustment'] as const;
+
+// "Adjust this plan": the teacher says what isn't working; notes and goal data are added server-side
+export const adjustPlanSchema = z.object({
+  reason: z.string().trim().min(5).max(2000),
+});
+
+export const CONCERN_SHARE_ROLES = ['counselor', 'senco', 'co_teacher', 'specialist', 'administrator'] as const;
+export const CONCERN_SHARE_ACCESS = ['view', 'contribute'] as const; // Contributors can also comment
+export const USER_NOTIFICATION_TYPES = ['concern_shared', 'mention', 'reply', 'comment'] as const;
+
+// Sharing with a colleague who already has access updates their role and access level
+export const shareConcernSchema = z.object({
+  email: z.string().trim().email(),
+  role: z.enum(CONCERN_SHARE_ROLES),
+  access: z.enum(CONCERN_SHARE_ACCESS),
+});
+
+// Sharing several of the teacher's concerns at once, with an optional note for the notification
+export const bulkShareConcernsSchema = shareConcernSchema.extend({
+  concernIds: z.array(z.string()).min(1).max(50),
+  message: z.string().trim().max(1000).optional(),
+});
+
+export const createConcernCommentSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  interventionId: z.string().nullable().optional(),
+  parentId: z.string().nullable().optional(),
+  mentions: z.array(z.string()).max(20).default([]),
+});
+
+export const FIDELITY_FREQUENCIES = ['daily', 'weekly'] as const;
+
+// Ticking the fidelity checklist replaces the steps recorded for that day or week
+export const recordFidelitySchema = z.object({
+  periodStart: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD").optional(), // Defaults to the current day or week
+  completedSteps: z.array(z.number().int().min(0)).max(100),
+});
+
+export const fidelityFrequencySchema = z.object({
+  frequency: z.enum(FIDELITY_FREQUENCIES),
+});
+
+export const insertPiiRedactionSettingsSchema = createInsertSchema(piiRedactionSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  customTerms: z.array(z.string()).optional(),
+});
+
+export const insertPromptTemplateSchema = createInsertSchema(promptTemplates).omit({
+  id: true,
+  version: true,
+  status: true,
+  createdBy: true,
+  publishedBy: true,
+  publishedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertSchoolAiBudgetSchema = createInsertSchema(schoolAiBudgets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  monthlyBudgetUsd: z.number().min(0),
+  alertThresholds: z.array(z.number().int().min(1).max(500)).optional(),
+});
+
+// A school-specific indicator phrase added to the safeguarding classifier
+export const safeguardingKeywordSchema = z.object({
+  phrase: z.string().trim().min(2).max(100),
+  category: z.enum(SAFEGUARDING_CATEGORIES),
+  weight: z.number().min(0.1).max(1),
+});
+
+export const updateSchoolSafeguardingSettingsSchema = z.object({
+  protocolText: z.string().max(5000).nullable().optional(),
+  extraKeywords: z.array(safeguardingKeywordSchema).max(200).optional(),
+  notifyLeads: z.boolean().optional(),
+  escalationMinutes: z.number().int().min(1).max(1440).optional(),
+});
+
+export const safeguardingIncidentEntrySchema = z.object({
+  type: z.enum(['action', 'outcome']),
+  note: z.string().trim().min(1).max(5000),
+});
+
+export const closeSafeguardingIncidentSchema = z.object({
+  outcome: z.string().trim().min(1).max(5000),
+  signOff: z.string().trim().min(3).max(200), // e.g. "Jane Smith, Designated Safeguarding Lead"
+});
+
+export const insertSafeguardingLeadSchema = createInsertSchema(safeguardingLeads).omit({
+  id: true,
+  schoolId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1).max(200),
+  email: z.string().trim().email(),
+  phone: z.string().trim().max(50).nullable().optional(),
+  hours: z.string().trim().max(200).nullable().optional(),
+  escalationOrder: z.number().int().min(1).max(20).optional(),
+});
+
 export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
   usageCount: true,
+  usageResetAt: true,
+  consecutiveFailures: true,
+  lastError: true,
+  lastErrorAt: true,
+  cooldownUntil: true,
   lastUsedAt: true,
 });
 
@@ -558,6 +1169,10 @@ export const apiKeyRelations = relations(apiKeys, ({ one }) => ({
     fields: [apiKeys.createdBy],
     references: [users.id],
   }),
+  school: one(schools, {
+    fields: [apiKeys.schoolId],
+    references: [schools.id],
+  }),
 }));
 
 export const userEmailConfigRelations = relations(userEmailConfigs, ({ one }) => ({
@@ -639,6 +1254,199 @@ export type InsertReport = z.infer<typeof insertReportSchema>;
 export type Report = typeof reports.$inferSelect;
 export type InsertProgressNote = z.infer<typeof insertProgressNoteSchema>;
 export type ProgressNote = typeof progressNotes.$inferSelect;
+export type InsertInterventionGoal = z.infer<typeof insertInterventionGoalSchema>;
+export type InterventionGoal = typeof interventionGoals.$inferSelect;
+export type InsertGoalDataPoint = z.infer<typeof insertGoalDataPointSchema>;
+export type GoalDataPoint = typeof goalDataPoints.$inferSelect;
+export type CompleteCheckIn = z.infer<typeof completeCheckInSchema>;
+export type CheckInSchedule = z.infer<typeof checkInScheduleSchema>;
+export type CheckInStatus = 'overdue' | 'due_soon' | 'upcoming';
+
+// One scheduled progress check-in on a teacher's to-do list (server/services/checkIns.ts)
+export interface CheckInItem {
+  interventionId: string;
+  interventionTitle: string;
+  concernId: string;
+  studentLabel: string;
+  intervalDays: number;
+  nextCheckInAt: string | Date;
+  lastCheckInAt: string | Date | null;
+  status: CheckInStatus;
+  daysOverdue: number;
+}
+
+// Whether logged data points are keeping pace with a goal's aim line (server/services/interventionGoals.ts)
+export type GoalProgressStatus = 'insufficient_data' | 'on_track' | 'not_on_track' | 'goal_met';
+
+export interface GoalChartPoint {
+  at: string; // ISO timestamp
+  value: number;
+}
+
+export interface GoalProgress {
+  status: GoalProgressStatus;
+  direction: 'increase' | 'decrease';
+  explanation: string;
+  aimLine: [GoalChartPoint, GoalChartPoint]; // Baseline to target
+  trendLine: [GoalChartPoint, GoalChartPoint] | null; // Least-squares fit through the data points, extended to the target date
+  latestValue: number | null;
+}
+
+export type InterventionGoalWithProgress = InterventionGoal & {
+  dataPoints: GoalDataPoint[];
+  progress: GoalProgress;
+};
+
+export type InterventionRevision = typeof interventionRevisions.$inferSelect;
+export type PlanRevisionSource = typeof PLAN_REVISION_SOURCES[number];
+export type AdjustPlan = z.infer<typeof adjustPlanSchema>;
+
+// A teacher's plan adjustment allowance, separate from the monthly support request quota
+export interface PlanAdjustmentQuota {
+  used: number; // Adjustments this calendar month
+  limit: number;
+  perInterventionUsed: number;
+  perInterventionLimit: number;
+  blockedReason: string | null; // Why the plan can't be adjusted right now, if it can't
+}
+
+export interface PlanRevisionHistory {
+  currentVersion: number;
+  revisions: InterventionRevision[]; // Oldest first; empty until the plan is first adjusted
+  quota: PlanAdjustmentQuota;
+}
+
+export type ConcernShare = typeof concernShares.$inferSelect;
+export type ConcernComment = typeof concernComments.$inferSelect;
+export type UserNotification = typeof userNotifications.$inferSelect;
+export type ConcernShareRole = typeof CONCERN_SHARE_ROLES[number];
+export type ConcernShareAccess = typeof CONCERN_SHARE_ACCESS[number];
+export type UserNotificationType = typeof USER_NOTIFICATION_TYPES[number];
+export type ShareConcern = z.infer<typeof shareConcernSchema>;
+export type BulkShareConcerns = z.infer<typeof bulkShareConcernsSchema>;
+export type CreateConcernComment = z.infer<typeof createConcernCommentSchema>;
+export type ConcernAccessLevel = 'owner' | ConcernShareAccess;
+
+// Everyone who can see a concern: the owner first, then the colleagues it is shared with
+export interface ConcernCollaborator {
+  userId: string;
+  name: string;
+  email: string;
+  access: ConcernAccessLevel;
+  role: ConcernShareRole | null; // Null for the owner
+  shareId: string | null; // Null for the owner
+  sharedAt: Date | null;
+}
+
+export type ConcernCommentWithAuthor = ConcernComment & {
+  authorName: string;
+};
+
+export type UserNotificationWithContext = UserNotification & {
+  actorName: string | null;
+  studentName: string; // First name and last initial of the concern's student
+};
+
+export interface SharedConcernSummary {
+  concernId: string;
+  studentFirstName: string;
+  studentLastInitial: string;
+  ownerName: string;
+  role: ConcernShareRole;
+  access: ConcernShareAccess;
+  sharedAt: Date | null;
+}
+
+export type ConcernWithAccess = ConcernWithDetails & {
+  access: ConcernAccessLevel;
+};
+
+export type FidelityLog = typeof fidelityLogs.$inferSelect;
+export type FidelityFrequency = typeof FIDELITY_FREQUENCIES[number];
+export type RecordFidelity = z.infer<typeof recordFidelitySchema>;
+
+export interface FidelityPeriod {
+  periodStart: string; // YYYY-MM-DD
+  completedSteps: number[];
+  totalSteps: number;
+  percent: number; // 0-100
+}
+
+// Fidelity checklist state for one intervention, with progress note outcomes to read alongside it
+export interface FidelitySummary {
+  interventionId: string;
+  frequency: FidelityFrequency;
+  steps: string[];
+  currentPeriodStart: string;
+  current: FidelityPeriod | null; // The checklist for the current day or week, if ticked yet
+  history: FidelityPeriod[]; // Oldest first, for the fidelity-over-time chart
+  averagePercent: number | null; // Across logged periods; null until one is logged
+  outcomes: { date: string; outcome: string }[]; // Progress note outcomes, oldest first
+}
+
+export type ProgressNoteOutcome = typeof PROGRESS_NOTE_OUTCOMES[number];
+
+// Outcomes of the interventions in one group, counting each intervention's latest recorded outcome
+// (server/services/interventionEffectiveness.ts)
+export interface EffectivenessGroup {
+  key: string;
+  label: string;
+  interventions: number;
+  outcomes: Record<ProgressNoteOutcome, number>;
+  successRate: number; // Positive outcomes count fully and mixed ones half, 0-1
+}
+
+export interface InterventionEffectivenessReport {
+  totalInterventions: number;
+  overall: EffectivenessGroup;
+  byStrategy: EffectivenessGroup[]; // Library entry when the intervention came from one, otherwise its title
+  byConcernType: EffectivenessGroup[];
+  byGradeBand: EffectivenessGroup[];
+  bySeverity: EffectivenessGroup[];
+}
+export type InsertPiiRedactionSettings = z.infer<typeof insertPiiRedactionSettingsSchema>;
+export type PiiRedactionSettings = typeof piiRedactionSettings.$inferSelect;
+export type PiiRedactionLog = typeof piiRedactionLogs.$inferSelect;
+export type InsertStudent = z.infer<typeof insertStudentSchema>;
+export type UpdateStudent = z.infer<typeof updateStudentSchema>;
+export type Student = typeof students.$inferSelect;
+export type StudentMeeting = typeof studentMeetings.$inferSelect;
+
+export interface StudentGradeHistoryEntry {
+  grade: string;
+  from: string; // ISO date the student was first recorded in this grade
+}
+
+export type MergeStudents = z.infer<typeof mergeStudentsSchema>;
+export type StudentDuplicateFlag = typeof studentDuplicateFlags.$inferSelect;
+export type StudentTierTransition = typeof studentTierTransitions.$inferSelect;
+
+// One entry on a student's timeline (server/services/students.ts)
+export interface StudentTimelineEvent {
+  type: 'concern' | 'intervention' | 'progress_note' | 'follow_up' | 'classroom_submission' | 'meeting' | 'tier_change';
+  id: string;
+  at: string; // ISO timestamp
+  title: string;
+  detail?: string | null;
+  concernId?: string | null; // Links back to the concern page
+  author?: string | null;
+}
+
+export type InsertPromptTemplate = z.infer<typeof insertPromptTemplateSchema>;
+export type PromptTemplate = typeof promptTemplates.$inferSelect;
+export type AiUsageLedgerEntry = typeof aiUsageLedger.$inferSelect;
+export type InsertSchoolAiBudget = z.infer<typeof insertSchoolAiBudgetSchema>;
+export type SchoolAiBudget = typeof schoolAiBudgets.$inferSelect;
+export type AiBudgetAlert = typeof aiBudgetAlerts.$inferSelect;
+export type SafeguardingKeyword = z.infer<typeof safeguardingKeywordSchema>;
+export type UpdateSchoolSafeguardingSettings = z.infer<typeof updateSchoolSafeguardingSettingsSchema>;
+export type SchoolSafeguardingSettings = typeof schoolSafeguardingSettings.$inferSelect;
+export type InsertSafeguardingLead = z.infer<typeof insertSafeguardingLeadSchema>;
+export type SafeguardingLead = typeof safeguardingLeads.$inferSelect;
+export type SafeguardingIncidentEntryInput = z.infer<typeof safeguardingIncidentEntrySchema>;
+export type CloseSafeguardingIncident = z.infer<typeof closeSafeguardingIncidentSchema>;
+export type SafeguardingIncident = typeof safeguardingIncidents.$inferSelect;
+export type SafeguardingIncidentEntry = typeof safeguardingIncidentEntries.$inferSelect;
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 export type ApiKey = typeof apiKeys.$inferSelect;
 export type InsertUserEmailConfig = z.infer<typeof insertUserEmailConfigSchema>;
@@ -693,6 +1501,7 @@ export const insertClassroomSubmissionSchema = createInsertSchema(classroomSubmi
   teacherId: true,
   status: true,
   aiDraft: true,
+  aiDraftFallbackReason: true,
   reviewedText: true,
   sentText: true,
   disclaimerAttached: true,
@@ -724,6 +1533,8 @@ export const insertAdminNotificationSchema = createInsertSchema(adminNotificatio
   createdAt: true,
   readAt: true,
   resolvedAt: true,
+  acknowledgedAt: true,
+  acknowledgedBy: true,
 });
 
 export const insertClassroomReportSchema = createInsertSchema(classroomReports).omit({
@@ -792,3 +1603,101 @@ export type ClassroomSubmissionStatus = typeof CLASSROOM_SUBMISSION_STATUSES[num
 export type AdminNotificationType = typeof ADMIN_NOTIFICATION_TYPES[number];
 export type AdminNotificationStatus = typeof ADMIN_NOTIFICATION_STATUSES[number];
 export type AdminNotificationPriority = typeof ADMIN_NOTIFICATION_PRIORITIES[number];
+
+// Timestamped history of an urgent notification's escalation chain (adminNotifications.escalationLog)
+export const URGENT_ESCALATION_ACTIONS = ['notified', 'escalated', 'acknowledged', 'action', 'resolved'] as const;
+export type UrgentEscalationAction = typeof URGENT_ESCALATION_ACTIONS[number];
+
+export interface UrgentEscalationEvent {
+  at: string; // ISO timestamp
+  action: UrgentEscalationAction;
+  level: number;
+  contact?: string | null; // Who was emailed for notified/escalated events
+  actorId?: string | null; // Admin who acknowledged or acted
+  note?: string | null;
+}
+
+// Multi-Tiered System of Supports: 1 = core instruction, 2 = targeted, 3 = intensive
+export const MTSS_TIERS = [1, 2, 3] as const;
+export type MtssTier = typeof MTSS_TIERS[number];
+
+export const studentTierChangeSchema = z.object({
+  tier: z.number().int().min(1).max(3),
+  reason: z.string().trim().min(3).max(2000),
+  decidedBy: z.string().trim().min(2).max(200),
+  effectiveDate: z.string()
+    .refine(value => !isNaN(Date.parse(value)), "Invalid date")
+    // A day's grace so "today" is accepted in every timezone; changeStudentTier clamps it to now
+    .refine(value => Date.parse(value) <= Date.now() + 24 * 60 * 60 * 1000, "Effective date can't be in the future")
+    .optional(), // Defaults to now
+});
+
+export type StudentTierChange = z.infer<typeof studentTierChangeSchema>;
+
+// Intervention library vocabularies (server/services/interventionLibrary.ts)
+export const CONCERN_TYPE_OPTIONS = ['Academic', 'Attendance', 'Behavior', 'Social/Emotional', 'Peer Relationships', 'Family/Home'] as const;
+export const GRADE_BANDS = ['PreK-2', '3-5', '6-8', '9-12'] as const;
+export type GradeBand = typeof GRADE_BANDS[number];
+export const EVIDENCE_RATINGS = ['strong', 'moderate', 'promising', 'emerging'] as const; // Strongest first
+export type EvidenceRating = typeof EVIDENCE_RATINGS[number];
+
+const libraryList = (max: number) => z.array(z.string().trim().min(1).max(1000)).max(max);
+
+export const interventionLibraryEntrySchema = z.object({
+  title: z.string().trim().min(3).max(200),
+  summary: z.string().trim().min(10).max(5000),
+  concernTypes: z.array(z.enum(CONCERN_TYPE_OPTIONS)).min(1),
+  gradeBands: z.array(z.enum(GRADE_BANDS)).default([]),
+  tier: z.number().int().min(1).max(3),
+  steps: libraryList(30).min(1),
+  materials: libraryList(30).default([]),
+  timeline: z.string().trim().max(100).nullable().optional(),
+  evidenceRating: z.enum(EVIDENCE_RATINGS),
+  source: z.string().trim().min(3).max(1000),
+  sourceUrl: z.string().trim().url().max(500).nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export type InterventionLibraryEntryInput = z.infer<typeof interventionLibraryEntrySchema>;
+export type InterventionLibraryEntry = typeof interventionLibraryEntries.$inferSelect;
+
+export const addLibraryInterventionSchema = z.object({
+  entryId: z.string().min(1),
+});
+
+export const urgentCaseActionSchema = z.object({
+  note: z.string().trim().min(1).max(2000),
+  resolve: z.boolean().optional(), // Also mark the notification resolved
+});
+
+export type UrgentCaseAction = z.infer<typeof urgentCaseActionSchema>;
+
+// AI provider types supported by the provider layer (server/services/aiProviders.ts)
+export const AI_PROVIDER_TYPES = ['deepseek', 'openai', 'openai_compatible', 'anthropic', 'local'] as const;
+
+export type AIProviderType = typeof AI_PROVIDER_TYPES[number];
+
+// PII categories detected by the redaction stage (server/services/piiRedaction.ts)
+export const PII_CATEGORIES = ['name', 'email', 'phone', 'address', 'student_id', 'date_of_birth'] as const;
+
+export type PIICategory = typeof PII_CATEGORIES[number];
+
+// AI prompts that can be edited as versioned templates (server/services/promptTemplates.ts)
+export const PROMPT_TEMPLATE_KEYS = ['differentiation', 'differentiation_lesson_plan', 'tier2_intervention', 'classroom_management', 'follow_up'] as const;
+export const PROMPT_TEMPLATE_STATUSES = ['draft', 'published', 'archived'] as const;
+
+export type PromptTemplateKey = typeof PROMPT_TEMPLATE_KEYS[number];
+export type PromptTemplateStatus = typeof PROMPT_TEMPLATE_STATUSES[number];
+
+// Outcome of one provider call attempt in the AI usage ledger (server/services/aiUsage.ts)
+export const AI_USAGE_OUTCOMES = ['success', 'failover', 'error'] as const;
+
+export type AIUsageOutcome = typeof AI_USAGE_OUTCOMES[number];
+
+// Why an AI generator returned built-in template content instead of a model response (server/services/ai.ts)
+export const AI_FALLBACK_REASONS = ['no_api_key', 'timeout', 'circuit_open', 'auth_failed', 'provider_error', 'empty_response'] as const;
+
+export type AIFallbackReason = typeof AI_FALLBACK_REASONS[number];
+
+// Prompt version recorded on interventions generated from built-in template content
+export const MOCK_PROMPT_VERSION = 'mock data';